@@ -0,0 +1,7 @@
+// Native modules the app's stores load at import time
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+// The profile store reads its default API key on import; tests never call out
+process.env.FMP_API_KEY = process.env.FMP_API_KEY || 'test-fmp-api-key';
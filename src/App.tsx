@@ -13,6 +13,8 @@ import { ThemeProvider, useTheme } from './theme/ThemeProvider';
 import RootNavigator from './navigation/RootNavigator';
 import AuthNavigator from './navigation/AuthNavigator';
 import { useTxStore } from './store/transactions';
+import { useRulesStore } from './store/rules';
+import { useFxHistoryStore } from './store/fxHistory';
 import { useGroupsStore } from './features/groups';
 import { useAuthStore } from './store/auth';
 import { seedInvestSixMonths } from './lib/demo_invest';
@@ -59,6 +61,8 @@ function AppBody() {
 
   useEffect(() => {
     useTxStore.getState().hydrate();
+    useRulesStore.getState().hydrate();
+    useFxHistoryStore.getState().hydrate();
     useGroupsStore.getState().hydrate();
     useInvestStore.getState().hydrate();
     hydrate();
@@ -93,6 +93,7 @@ export type IconName =
   | 'shopping-bag'
   | 'inbox'
   | 'download'
+  | 'upload'
   | 'share'
   | 'pie-chart'
   | 'info'
@@ -188,6 +189,7 @@ const featherMap: Record<Exclude<IconName, 'arrow-bold-left' | 'arrow-bold-right
   'shopping-bag': 'shopping-bag',
   'inbox': 'inbox',
   'download': 'download',
+  'upload': 'upload',
   'share': 'share-2',
   'pie-chart': 'pie-chart',
   'info': 'info',
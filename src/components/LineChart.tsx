@@ -21,6 +21,8 @@ type Props = {
   enableTooltip?: boolean;
   showCurrentLabel?: boolean; // show a small tag with latest value
   cashEvents?: CashEvent[]; // cash deposit/withdrawal markers
+  compareData?: Point[];     // second series drawn dashed, e.g. a benchmark
+  compareLabel?: string;     // tooltip label for compareData
 };
 
 // Compact "1k / 2m" style without decimals and with a narrow currency symbol
@@ -108,6 +110,8 @@ export default function LineChart({
   enableTooltip = true,
   showCurrentLabel = true,
   cashEvents = [],
+  compareData,
+  compareLabel,
 }: Props) {
   const { get } = useThemeTokens();
   const { setScrollEnabled } = React.useContext(ScrollContext);
@@ -150,7 +154,13 @@ export default function LineChart({
     return data.filter(d => d.t >= startTime && d.t <= endTime);
   }, [data, scale, panOffset]);
 
-  const values = visibleData.map(d => d.v);
+  const visibleCompare = React.useMemo(() => {
+    if (!compareData?.length || !visibleData.length) return [];
+    const t0 = visibleData[0].t, t1 = visibleData[visibleData.length - 1].t;
+    return compareData.filter(d => d.t >= t0 && d.t <= t1);
+  }, [compareData, visibleData]);
+
+  const values = visibleData.map(d => d.v).concat(visibleCompare.map(d => d.v));
   const suppressXAxisLabels = !visibleData.length || values.every(v => v === 0);
   const minRaw = values.length ? Math.min(...values) : 0;
   const maxRaw = values.length ? Math.max(...values) : 1;
@@ -225,6 +235,13 @@ export default function LineChart({
     return d;
   }, [tmin, tmax, min, max, visibleData, plotLeft, plotWidth, plotBottom, plotHeight]);
 
+  const comparePathD = React.useMemo(() => {
+    if (!visibleCompare.length) return '';
+    let d = `M ${xFor(visibleCompare[0].t)} ${yFor(visibleCompare[0].v)}`;
+    for (let i = 1; i < visibleCompare.length; i++) d += ` L ${xFor(visibleCompare[i].t)} ${yFor(visibleCompare[i].v)}`;
+    return d;
+  }, [tmin, tmax, min, max, visibleCompare, plotLeft, plotWidth, plotBottom, plotHeight]);
+
   const areaD = React.useMemo(() => {
     if (!visibleData.length) return '';
     let d = `M ${xFor(visibleData[0].t)} ${plotBottom}`;
@@ -267,9 +284,16 @@ export default function LineChart({
   const hoverY = hasHover ? yFor(visibleData[hoverIdx!].v) : 0;
   const tipDate = hasHover ? new Date(visibleData[hoverIdx!].t).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' }) : '';
   const tipValue = hasHover ? formatExact(visibleData[hoverIdx!].v, currency) : '';
+  const tipCompare = React.useMemo(() => {
+    if (!hasHover || !visibleCompare.length) return '';
+    const t = visibleData[hoverIdx!].t;
+    let best = visibleCompare[0];
+    for (const p of visibleCompare) if (Math.abs(p.t - t) < Math.abs(best.t - t)) best = p;
+    return `${compareLabel ? compareLabel + ' ' : ''}${formatExact(best.v, currency)}`;
+  }, [hasHover, hoverIdx, visibleData, visibleCompare, compareLabel, currency]);
 
   // Tooltip box pinned to top
-  const boxW = 140, boxH = 40, padBox = 8;
+  const boxW = 140, boxH = tipCompare ? 54 : 40, padBox = 8;
   let tipX = hoverX + 8;
   const tipY = plotTop + 6; // fixed at top
   if (tipX + boxW > plotRight) tipX = hoverX - boxW - 8;
@@ -457,6 +481,7 @@ export default function LineChart({
 
           {/* area + line */}
           {showArea && areaD ? <Path d={areaD} fill="url(#lcGrad)" /> : null}
+          {comparePathD ? <Path d={comparePathD} stroke={label} strokeWidth={1.5} strokeDasharray="4 3" fill="none" /> : null}
           {pathD ? <Path d={pathD} stroke={accent} strokeWidth={2} fill="none" /> : null}
 
           {/* current marker with breathing */}
@@ -489,7 +514,8 @@ export default function LineChart({
               <Circle cx={hoverX} cy={hoverY} r={4} fill={accent} />
               <Rect x={tipX} y={tipY} width={boxW} height={boxH} rx={8} fill={tipBg} />
               <SvgText x={tipX + padBox} y={tipY + 16} fill={tipText} fontSize="11">{tipValue}</SvgText>
-              <SvgText x={tipX + padBox} y={tipY + 30} fill={label} fontSize="10">{tipDate}</SvgText>
+              {tipCompare ? <SvgText x={tipX + padBox} y={tipY + 30} fill={label} fontSize="10">{tipCompare}</SvgText> : null}
+              <SvgText x={tipX + padBox} y={tipY + (tipCompare ? 44 : 30)} fill={label} fontSize="10">{tipDate}</SvgText>
             </G>
           ) : null}
 
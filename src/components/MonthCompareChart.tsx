@@ -6,6 +6,7 @@ import { useThemeTokens } from '../theme/ThemeProvider';
 import { ScrollContext } from './ScrollContext';
 import { spacing, radius } from '../theme/tokens';
 import { useTxStore } from '../store/transactions';
+import { useTxConverter } from '../store/fxHistory';
 import { useBudgetsStore } from '../store/budgets';
 import { useNavigation } from '@react-navigation/native';
 import Icon from './Icon';
@@ -41,6 +42,7 @@ export const MonthCompareChart: React.FC = () => {
   const nav = useNavigation<any>();
   const { transactions, hydrate } = useTxStore();
   const { hydrate: hydrateBudget } = useBudgetsStore();
+  const toBase = useTxConverter(transactions);
 
   useEffect(() => { hydrate(); hydrateBudget(); }, []);
 
@@ -125,13 +127,13 @@ export const MonthCompareChart: React.FC = () => {
     const arr = Array.from({ length: len }, () => 0);
     for (const t of source) {
       const d = new Date(t.date);
-      if (sameMonth(d, y, m) && t.type === 'expense') arr[d.getDate() - 1] += Math.abs(Number(t.amount) || 0);
+      if (sameMonth(d, y, m) && t.type === 'expense') arr[d.getDate() - 1] += toBase(t);
     }
     return arr;
   };
 
-  const dailyThis = useMemo(() => daily(transactions, Y, M, daysCurr), [transactions, Y, M, daysCurr]);
-  const dailyPrev = useMemo(() => daily(transactions, pY, pM, daysPrev), [transactions, pY, pM, daysPrev]);
+  const dailyThis = useMemo(() => daily(transactions, Y, M, daysCurr), [transactions, Y, M, daysCurr, toBase]);
+  const dailyPrev = useMemo(() => daily(transactions, pY, pM, daysPrev), [transactions, pY, pM, daysPrev, toBase]);
 
   const sum = (arr: number[], n: number) => arr.slice(0, n).reduce((a, b) => a + b, 0);
   const sumThis = sum(dailyThis, daysPlotThis);
@@ -574,6 +576,7 @@ export const MonthCompareChartClassic: React.FC = () => {
   const nav = useNavigation<any>();
   const { transactions, hydrate } = useTxStore();
   const { hydrate: hydrateBudget } = useBudgetsStore();
+  const toBase = useTxConverter(transactions);
 
   useEffect(() => { hydrate(); hydrateBudget(); }, []);
 
@@ -651,13 +654,13 @@ export const MonthCompareChartClassic: React.FC = () => {
     const arr = Array.from({ length: len }, () => 0);
     for (const t of source) {
       const d = new Date(t.date);
-      if (sameMonth(d, y, m) && t.type === 'expense') arr[d.getDate() - 1] += Math.abs(Number(t.amount) || 0);
+      if (sameMonth(d, y, m) && t.type === 'expense') arr[d.getDate() - 1] += toBase(t);
     }
     return arr;
   };
 
-  const dailyThis = useMemo(() => daily(transactions, Y, M, daysCurr), [transactions, Y, M, daysCurr]);
-  const dailyPrev = useMemo(() => daily(transactions, pY, pM, daysPrev), [transactions, pY, pM, daysPrev]);
+  const dailyThis = useMemo(() => daily(transactions, Y, M, daysCurr), [transactions, Y, M, daysCurr, toBase]);
+  const dailyPrev = useMemo(() => daily(transactions, pY, pM, daysPrev), [transactions, pY, pM, daysPrev, toBase]);
 
   const sum = (arr: number[], n: number) => arr.slice(0, n).reduce((a, b) => a + b, 0);
   const sumThis = sum(dailyThis, daysPlotThis);
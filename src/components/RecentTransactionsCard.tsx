@@ -115,7 +115,8 @@ export const RecentTransactionsCard: React.FC = () => {
               {group.items.map((item, index) => {
                 const d = new Date(item.date);
                 const isIncome = item.type === 'income';
-                const amountText = `${isIncome ? '+' : '-'}$${Math.abs(item.amount).toFixed(2)}`;
+                const isTransfer = item.type === 'transfer';
+                const amountText = `${isTransfer ? '' : isIncome ? '+' : '-'}$${Math.abs(item.amount).toFixed(2)}`;
                 const isLastInCard = (gIdx === groups.length - 1) && (index === group.items.length - 1);
                 return (
                   <View
@@ -156,7 +157,7 @@ export const RecentTransactionsCard: React.FC = () => {
                     </View>
 
                     {/* right amount */}
-                    <Text style={{ color: isIncome ? (get('semantic.success') as string) : (get('semantic.danger') as string), fontWeight: '700' }}>
+                    <Text style={{ color: isTransfer ? (get('text.muted') as string) : isIncome ? (get('semantic.success') as string) : (get('semantic.danger') as string), fontWeight: '700' }}>
                       {amountText}
                     </Text>
                   </View>
@@ -0,0 +1,111 @@
+import React, { useMemo, useState } from 'react';
+import { View, Text, Pressable } from 'react-native';
+import { useThemeTokens } from '../theme/ThemeProvider';
+import { spacing, radius } from '../theme/tokens';
+import { useTxStore, parseTags } from '../store/transactions';
+import { allTags } from '../store/txHelpers';
+import Input from './Input';
+import Icon from './Icon';
+
+type Props = {
+  tags: string[];
+  onChange: (tags: string[]) => void;
+  maxSuggestions?: number;
+};
+
+/** Tag chips with free-text entry; typing a comma or space commits the tag. */
+const TagEditor: React.FC<Props> = ({ tags, onChange, maxSuggestions = 8 }) => {
+  const { get } = useThemeTokens();
+  const { transactions } = useTxStore();
+  const [draft, setDraft] = useState('');
+
+  const suggestions = useMemo(() => {
+    const needle = draft.trim().replace(/^#/, '').toLowerCase();
+    return allTags(transactions || [])
+      .filter(t => !tags.includes(t) && (!needle || t.includes(needle)))
+      .slice(0, maxSuggestions);
+  }, [transactions, tags, draft, maxSuggestions]);
+
+  const add = (input: string) => {
+    const next = parseTags([...tags, input].join(','));
+    onChange(next);
+    setDraft('');
+  };
+
+  const onChangeText = (text: string) => {
+    if (/[,\s]$/.test(text)) {
+      if (text.trim()) add(text);
+      else setDraft('');
+      return;
+    }
+    setDraft(text);
+  };
+
+  const textPrimary = get('text.primary') as string;
+  const textMuted = get('text.muted') as string;
+  const surface2 = get('surface.level2') as string;
+  const accentPrimary = get('accent.primary') as string;
+  const onPrimary = get('text.onPrimary') as string;
+
+  return (
+    <View style={{ gap: spacing.s8 }}>
+      {tags.length > 0 && (
+        <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: spacing.s6 }}>
+          {tags.map(tag => (
+            <Pressable
+              key={tag}
+              onPress={() => onChange(tags.filter(t => t !== tag))}
+              accessibilityRole="button"
+              accessibilityLabel={`Remove tag ${tag}`}
+              style={{
+                flexDirection: 'row',
+                alignItems: 'center',
+                gap: spacing.s4,
+                paddingVertical: spacing.s4,
+                paddingHorizontal: spacing.s10,
+                borderRadius: radius.pill,
+                backgroundColor: accentPrimary,
+              }}
+            >
+              <Text style={{ color: onPrimary, fontSize: 13, fontWeight: '600' }}>#{tag}</Text>
+              <Icon name="x" size={12} color={onPrimary} />
+            </Pressable>
+          ))}
+        </View>
+      )}
+      <View style={{ flexDirection: 'row', alignItems: 'center', gap: spacing.s8 }}>
+        <Input
+          value={draft}
+          onChangeText={onChangeText}
+          placeholder="Add tags, e.g. trip, reimbursable"
+          style={{ margin: 0, flex: 1 }}
+        />
+        {draft.trim().length > 0 && (
+          <Pressable onPress={() => add(draft)} hitSlop={12} accessibilityRole="button" accessibilityLabel="Add tag">
+            <Icon name="plus-circle" size={22} color={accentPrimary} />
+          </Pressable>
+        )}
+      </View>
+      {suggestions.length > 0 && (
+        <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: spacing.s6 }}>
+          {suggestions.map(tag => (
+            <Pressable
+              key={tag}
+              onPress={() => add(tag)}
+              style={{
+                paddingVertical: spacing.s4,
+                paddingHorizontal: spacing.s10,
+                borderRadius: radius.pill,
+                backgroundColor: surface2,
+              }}
+            >
+              <Text style={{ color: draft ? textPrimary : textMuted, fontSize: 13 }}>#{tag}</Text>
+            </Pressable>
+          ))}
+        </View>
+      )}
+    </View>
+  );
+};
+
+export default TagEditor;
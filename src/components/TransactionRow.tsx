@@ -13,9 +13,10 @@ type Tx = {
   title?: string;
   amount: number | string;
   date: string;
-  type?: 'expense' | 'income';
+  type?: 'expense' | 'income' | 'transfer';
   category?: string;
   account?: string;
+  toAccount?: string;
 };
 
 export const TransactionRow: React.FC<{
@@ -79,11 +80,11 @@ export const TransactionRow: React.FC<{
               <Text style={{ color: get('text.primary') as string, fontWeight: '600' }}>{tx.title || tx.category || 'Transaction'}</Text>
               <Text style={{ color: get('text.muted') as string, fontSize: 12 }}>
                 {new Date(tx.date).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' })}
-                {tx.account && ` • ${tx.account}`}
+                {tx.type === 'transfer' ? ` • ${tx.account} → ${tx.toAccount}` : tx.account && ` • ${tx.account}`}
               </Text>
             </View>
             <Text style={{ color: get('text.primary') as string, fontWeight: '700' }}>
-              {`${tx.type === 'income' ? '+' : '-'}$${Math.abs(Number(tx.amount) || 0).toFixed(2)}`}
+              {`${tx.type === 'transfer' ? '' : tx.type === 'income' ? '+' : '-'}$${Math.abs(Number(tx.amount) || 0).toFixed(2)}`}
             </Text>
           </Pressable>
         </Animated.View>
@@ -8,44 +8,51 @@
 
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { db } from './client';
-import {
-  accounts, transactions, portfolios, holdings, lots, watchlist, cashEvents,
-  goals, goalHistory, goalTransactionLinks, achievements, userProgress,
-  groups, groupMembers, bills, billSplits, billContributions, settlements,
-  debts, budgets, quotesCache, fxRatesCache
-} from './schema';
+import { debts, budgets } from './schema';
+import { upsertAccounts } from './repositories/accounts';
+import { upsertTransactions } from './repositories/transactions';
+import { savePortfolios } from './repositories/invest';
+import { saveGoal, insertAchievement, saveProgress } from './repositories/goals';
+import { saveGroup } from './repositories/groups';
 import type { BankAccount } from '../store/accounts';
 import type { Transaction } from '../store/transactions';
-import type { Portfolio, Holding, Lot, Quote } from '../features/invest';
+import type { Portfolio } from '../features/invest';
 import type { Goal, Achievement } from '../features/goals';
+import type { Group } from '../types/groups';
 import type { Debt } from '../store/debts';
 
-// AsyncStorage keys
-const KEYS = {
+// AsyncStorage keys. Also the section list for encrypted backups (src/lib/backup.ts).
+export const STORAGE_KEYS = {
   ACCOUNTS: 'fingrow:accounts:v1',
   TRANSACTIONS: 'fingrow/transactions',
   INVEST_V2: 'fingrow:invest:v2',
   INVEST_V1: 'fingrow:invest:v1', // Fallback
+  INVEST_ACTIVE: 'fingrow:invest:active',
   GOALS: 'fingrow.goals.v1',
   ACHIEVEMENTS: 'fingrow.goals.achievements.v1',
   PROGRESS: 'fingrow.goals.progress.v1',
   GROUPS: 'fingrow/groups',
   DEBTS: 'fingrow:debts:v1',
   BUDGET: 'fingrow/budget',
+  RECURRING: 'fingrow/recurring',
+  ENVELOPES: 'fingrow/envelopes/overrides',
+  INCOME_SPLITTING: 'fingrow:incomeSplitting:v1',
+  INCOME_SPLITTING_HISTORY: 'fingrow:incomeSplittingHistory:v1',
+  RULES: 'fingrow/rules',
+  PLANS: 'fingrow:plans:v1',
+  PRICE_ALERTS: 'fingrow:priceAlerts:v1',
+  ZERO_BASED: 'fingrow/zeroBased',
+  PROFILE: 'fingrow:profile:v1',
   MIGRATION_COMPLETE: 'fingrow:migration:v2:complete',
 };
 
 // Helper to generate timestamps
-const now = () => Date.now();
+const now = () => new Date();
 
-// Helper to parse ISO date strings to timestamps
-const parseDate = (dateStr?: string): number => {
-  if (!dateStr) return now();
-  try {
-    return new Date(dateStr).getTime();
-  } catch {
-    return now();
-  }
+// Helper to parse ISO date strings
+const parseDate = (dateStr?: string): Date => {
+  const d = dateStr ? new Date(dateStr) : now();
+  return Number.isNaN(d.getTime()) ? now() : d;
 };
 
 /**
@@ -53,7 +60,7 @@ const parseDate = (dateStr?: string): number => {
  */
 export async function isMigrationComplete(): Promise<boolean> {
   try {
-    const flag = await AsyncStorage.getItem(KEYS.MIGRATION_COMPLETE);
+    const flag = await AsyncStorage.getItem(STORAGE_KEYS.MIGRATION_COMPLETE);
     return flag === 'true';
   } catch {
     return false;
@@ -64,7 +71,7 @@ export async function isMigrationComplete(): Promise<boolean> {
  * Mark migration as complete
  */
 async function markMigrationComplete(): Promise<void> {
-  await AsyncStorage.setItem(KEYS.MIGRATION_COMPLETE, 'true');
+  await AsyncStorage.setItem(STORAGE_KEYS.MIGRATION_COMPLETE, 'true');
   console.log('[Migration] Marked as complete');
 }
 
@@ -114,13 +121,11 @@ export async function migrateFromAsyncStorage(): Promise<{
     // 2. Migrate Transactions (depends on accounts)
     stats.transactions = await migrateTransactions();
 
-    // 3. Migrate Portfolios
-    stats.portfolios = await migratePortfolios();
-
-    // 4. Migrate Holdings & Lots (depends on portfolios)
-    const { holdings: holdingsCount, lots: lotsCount } = await migrateHoldingsAndLots();
-    stats.holdings = holdingsCount;
-    stats.lots = lotsCount;
+    // 3. Migrate Portfolios with their holdings & lots
+    const invest = await migratePortfolios();
+    stats.portfolios = invest.portfolios;
+    stats.holdings = invest.holdings;
+    stats.lots = invest.lots;
 
     // 5. Migrate Goals
     stats.goals = await migrateGoals();
@@ -157,424 +162,153 @@ export async function migrateFromAsyncStorage(): Promise<{
  * Migrate Accounts from AsyncStorage
  */
 async function migrateAccounts(): Promise<number> {
-  try {
-    const raw = await AsyncStorage.getItem(KEYS.ACCOUNTS);
-    if (!raw) return 0;
+  const raw = await AsyncStorage.getItem(STORAGE_KEYS.ACCOUNTS);
+  if (!raw) return 0;
 
-    const oldAccounts: BankAccount[] = JSON.parse(raw);
-
-    for (const acc of oldAccounts) {
-      await db.insert(accounts).values({
-        id: acc.id,
-        name: acc.name,
-        institution: acc.institution,
-        mask: acc.mask,
-        balance: acc.balance || 0,
-        kind: acc.kind || 'checking',
-        includeInNetWorth: acc.includeInNetWorth !== false ? 1 : 0,
-        note: acc.note,
-        isDefault: acc.isDefault ? 1 : 0,
-        apr: acc.apr,
-        creditLimit: acc.creditLimit,
-        minPaymentPercent: acc.minPaymentPercent,
-        lastSyncedAt: null, // NEW field, starts as null
-        createdAt: now(),
-        updatedAt: now(),
-      }).onConflictDoNothing(); // Skip if already exists
-    }
+  const oldAccounts: BankAccount[] = JSON.parse(raw);
+  await upsertAccounts(oldAccounts);
 
-    console.log(`[Migration] Migrated ${oldAccounts.length} accounts`);
-    return oldAccounts.length;
-  } catch (error) {
-    console.error('[Migration] Failed to migrate accounts:', error);
-    return 0;
-  }
+  console.log(`[Migration] Migrated ${oldAccounts.length} accounts`);
+  return oldAccounts.length;
 }
 
 /**
  * Migrate Transactions from AsyncStorage
  */
 async function migrateTransactions(): Promise<number> {
-  try {
-    const raw = await AsyncStorage.getItem(KEYS.TRANSACTIONS);
-    if (!raw) return 0;
-
-    const oldTxs: Transaction[] = JSON.parse(raw);
-
-    // Get all accounts to match by name
-    const allAccounts = await db.select().from(accounts);
-    const accountsByName = new Map(allAccounts.map(a => [a.name.toLowerCase(), a.id]));
+  const raw = await AsyncStorage.getItem(STORAGE_KEYS.TRANSACTIONS);
+  if (!raw) return 0;
 
-    for (const tx of oldTxs) {
-      // Match account by name (case-insensitive)
-      let accountId: string | null = null;
-      if (tx.account) {
-        accountId = accountsByName.get(tx.account.toLowerCase()) || null;
-      }
+  const oldTxs: Transaction[] = JSON.parse(raw);
+  await upsertTransactions(oldTxs);
 
-      await db.insert(transactions).values({
-        id: tx.id,
-        type: tx.type,
-        amount: tx.amount,
-        category: tx.category,
-        date: parseDate(tx.date),
-        note: tx.note,
-        title: tx.title,
-        accountId,
-        createdAt: parseDate(tx.date),
-        updatedAt: parseDate(tx.date),
-      }).onConflictDoNothing();
-    }
-
-    console.log(`[Migration] Migrated ${oldTxs.length} transactions`);
-    return oldTxs.length;
-  } catch (error) {
-    console.error('[Migration] Failed to migrate transactions:', error);
-    return 0;
-  }
+  console.log(`[Migration] Migrated ${oldTxs.length} transactions`);
+  return oldTxs.length;
 }
 
 /**
- * Migrate Portfolios from AsyncStorage
+ * Migrate Portfolios (with holdings, lots, watchlists and cash events) from AsyncStorage
  */
-async function migratePortfolios(): Promise<number> {
-  try {
-    const raw = await AsyncStorage.getItem(KEYS.INVEST_V2) || await AsyncStorage.getItem(KEYS.INVEST_V1);
-    if (!raw) return 0;
-
-    const data = JSON.parse(raw);
-    const oldPortfolios: Record<string, Portfolio> = data.portfolios || {};
-
-    let count = 0;
-    for (const [id, portfolio] of Object.entries(oldPortfolios)) {
-      await db.insert(portfolios).values({
+async function migratePortfolios(): Promise<{ portfolios: number; holdings: number; lots: number }> {
+  const raw2 = await AsyncStorage.getItem(STORAGE_KEYS.INVEST_V2);
+  const raw1 = raw2 ? null : await AsyncStorage.getItem(STORAGE_KEYS.INVEST_V1);
+  if (!raw2 && !raw1) return { portfolios: 0, holdings: 0, lots: 0 };
+
+  let oldPortfolios: Record<string, Portfolio>;
+  let order: string[];
+  let activeId: string | null;
+  if (raw2) {
+    const data = JSON.parse(raw2);
+    oldPortfolios = data.portfolios || {};
+    order = data.portfolioOrder || Object.keys(oldPortfolios);
+    activeId = data.activePortfolioId || null;
+  } else {
+    // v1 kept a single implicit portfolio
+    const data = JSON.parse(raw1!);
+    const id = 'pf-' + Math.random().toString(36).slice(2, 8);
+    oldPortfolios = {
+      [id]: {
         id,
-        name: portfolio.name,
-        baseCurrency: portfolio.baseCurrency || 'USD',
-        benchmark: portfolio.benchmark,
-        type: portfolio.type || 'Live',
-        cash: portfolio.cash || 0,
-        archived: portfolio.archived ? 1 : 0,
-        trackingEnabled: portfolio.trackingEnabled !== false ? 1 : 0,
-        createdAt: parseDate(portfolio.createdAt),
-        updatedAt: parseDate(portfolio.updatedAt),
-      }).onConflictDoNothing();
-
-      // Migrate watchlist
-      if (portfolio.watchlist && portfolio.watchlist.length > 0) {
-        for (const symbol of portfolio.watchlist) {
-          await db.insert(watchlist).values({
-            id: `${id}-${symbol}-${now()}`,
-            portfolioId: id,
-            symbol,
-            addedAt: now(),
-          }).onConflictDoNothing();
-        }
-      }
-
-      // Migrate cash events
-      if (portfolio.cashEvents && portfolio.cashEvents.length > 0) {
-        for (const event of portfolio.cashEvents) {
-          await db.insert(cashEvents).values({
-            id: `${id}-cash-${parseDate(event.date)}`,
-            portfolioId: id,
-            amount: event.amount,
-            date: parseDate(event.date),
-            note: null,
-            createdAt: parseDate(event.date),
-          }).onConflictDoNothing();
-        }
-      }
-
-      count++;
-    }
-
-    console.log(`[Migration] Migrated ${count} portfolios`);
-    return count;
-  } catch (error) {
-    console.error('[Migration] Failed to migrate portfolios:', error);
-    return 0;
+        name: 'My Portfolio',
+        baseCurrency: 'SGD',
+        benchmark: 'SPY',
+        watchlist: data.watchlist || [],
+        holdings: data.holdings || {},
+        type: 'Live',
+        cash: 0,
+        cashEvents: [],
+        createdAt: new Date().toISOString(),
+      },
+    };
+    order = [id];
+    activeId = id;
   }
-}
 
-/**
- * Migrate Holdings and Lots from AsyncStorage
- */
-async function migrateHoldingsAndLots(): Promise<{ holdings: number; lots: number }> {
-  try {
-    const raw = await AsyncStorage.getItem(KEYS.INVEST_V2) || await AsyncStorage.getItem(KEYS.INVEST_V1);
-    if (!raw) return { holdings: 0, lots: 0 };
-
-    const data = JSON.parse(raw);
-    const oldPortfolios: Record<string, Portfolio> = data.portfolios || {};
-
-    let holdingsCount = 0;
-    let lotsCount = 0;
-
-    for (const [portfolioId, portfolio] of Object.entries(oldPortfolios)) {
-      const portfolioHoldings = portfolio.holdings || {};
-
-      for (const [symbol, holding] of Object.entries(portfolioHoldings)) {
-        // Insert holding
-        const holdingId = `${portfolioId}-${symbol}`;
-        await db.insert(holdings).values({
-          id: holdingId,
-          portfolioId,
-          symbol: holding.symbol,
-          name: holding.name,
-          type: holding.type,
-          currency: holding.currency || 'USD', // Explicit currency
-          archived: holding.archived ? 1 : 0,
-          sortOrder: 0,
-          createdAt: now(),
-          updatedAt: now(),
-        }).onConflictDoNothing();
-
-        holdingsCount++;
-
-        // Insert lots (FIFO)
-        if (holding.lots && holding.lots.length > 0) {
-          for (const lot of holding.lots) {
-            await db.insert(lots).values({
-              id: lot.id,
-              holdingId,
-              side: lot.side,
-              qty: lot.qty,
-              price: lot.price,
-              fee: lot.fee || 0,
-              date: parseDate(lot.date),
-              createdAt: parseDate(lot.date),
-            }).onConflictDoNothing();
-
-            lotsCount++;
-          }
-        }
-      }
-    }
+  const list = Object.entries(oldPortfolios).map(([id, p]) => ({ ...p, id }));
+  await savePortfolios(list, order);
+  if (activeId) await AsyncStorage.setItem(STORAGE_KEYS.INVEST_ACTIVE, activeId);
 
-    console.log(`[Migration] Migrated ${holdingsCount} holdings and ${lotsCount} lots`);
-    return { holdings: holdingsCount, lots: lotsCount };
-  } catch (error) {
-    console.error('[Migration] Failed to migrate holdings/lots:', error);
-    return { holdings: 0, lots: 0 };
-  }
+  const holdingList = list.flatMap(p => Object.values(p.holdings || {}));
+  const lotCount = holdingList.reduce((n, h) => n + (h.lots?.length || 0), 0);
+  console.log(`[Migration] Migrated ${list.length} portfolios, ${holdingList.length} holdings and ${lotCount} lots`);
+  return { portfolios: list.length, holdings: holdingList.length, lots: lotCount };
 }
 
 /**
  * Migrate Goals from AsyncStorage
  */
 async function migrateGoals(): Promise<number> {
-  try {
-    const raw = await AsyncStorage.getItem(KEYS.GOALS);
-    if (!raw) return 0;
-
-    const oldGoals: Goal[] = JSON.parse(raw);
-
-    for (const goal of oldGoals) {
-      // Insert goal
-      await db.insert(goals).values({
-        id: goal.id,
-        type: goal.type,
-        title: goal.title,
-        targetAmount: goal.targetAmount,
-        currentAmount: goal.currentAmount || 0,
-        targetDate: goal.targetDate ? parseDate(goal.targetDate) : null,
-        icon: goal.icon,
-        category: goal.category,
-        roundUps: goal.roundUps ? 1 : 0,
-        autoSaveCadence: goal.autoSave?.cadence || null,
-        autoSaveAmount: goal.autoSave?.amount || null,
-        isPinned: goal.isPinned ? 1 : 0,
-        completedAt: goal.completedAt ? parseDate(goal.completedAt) : null,
-        createdAt: parseDate(goal.createdAt),
-        updatedAt: parseDate(goal.updatedAt),
-      }).onConflictDoNothing();
-
-      // Insert goal history
-      if (goal.history && goal.history.length > 0) {
-        for (const entry of goal.history) {
-          await db.insert(goalHistory).values({
-            id: entry.id,
-            goalId: goal.id,
-            type: entry.type,
-            amount: entry.amount,
-            date: parseDate(entry.date),
-            note: entry.note,
-            createdAt: parseDate(entry.date),
-          }).onConflictDoNothing();
-        }
-      }
+  const raw = await AsyncStorage.getItem(STORAGE_KEYS.GOALS);
+  if (!raw) return 0;
 
-      // Insert transaction links
-      if (goal.linkedTransactions && goal.linkedTransactions.length > 0) {
-        for (const txId of goal.linkedTransactions) {
-          await db.insert(goalTransactionLinks).values({
-            goalId: goal.id,
-            transactionId: txId,
-            createdAt: now(),
-          }).onConflictDoNothing();
-        }
-      }
-    }
-
-    console.log(`[Migration] Migrated ${oldGoals.length} goals`);
-    return oldGoals.length;
-  } catch (error) {
-    console.error('[Migration] Failed to migrate goals:', error);
-    return 0;
+  const oldGoals: Goal[] = JSON.parse(raw);
+  for (const goal of oldGoals) {
+    await saveGoal({ ...goal, history: goal.history || [] });
   }
+
+  console.log(`[Migration] Migrated ${oldGoals.length} goals`);
+  return oldGoals.length;
 }
 
 /**
  * Migrate Achievements and User Progress from AsyncStorage
  */
 async function migrateAchievementsAndProgress(): Promise<void> {
-  try {
-    // Migrate achievements
-    const achievementsRaw = await AsyncStorage.getItem(KEYS.ACHIEVEMENTS);
-    if (achievementsRaw) {
-      const oldAchievements: Achievement[] = JSON.parse(achievementsRaw);
-
-      for (const achievement of oldAchievements) {
-        await db.insert(achievements).values({
-          id: achievement.id,
-          type: achievement.type,
-          title: achievement.title,
-          description: achievement.description,
-          icon: achievement.icon,
-          unlockedAt: parseDate(achievement.unlockedAt),
-        }).onConflictDoNothing();
-      }
-
-      console.log(`[Migration] Migrated ${oldAchievements.length} achievements`);
+  const achievementsRaw = await AsyncStorage.getItem(STORAGE_KEYS.ACHIEVEMENTS);
+  if (achievementsRaw) {
+    const oldAchievements: Achievement[] = JSON.parse(achievementsRaw);
+    for (const achievement of oldAchievements) {
+      await insertAchievement(achievement);
     }
+    console.log(`[Migration] Migrated ${oldAchievements.length} achievements`);
+  }
 
-    // Migrate user progress
-    const progressRaw = await AsyncStorage.getItem(KEYS.PROGRESS);
-    if (progressRaw) {
-      const progress = JSON.parse(progressRaw);
-
-      await db.insert(userProgress).values({
-        id: 'singleton',
-        level: progress.level || 1,
-        xp: progress.xp || 0,
-        updatedAt: now(),
-      }).onConflictDoNothing();
-
-      console.log(`[Migration] Migrated user progress (level ${progress.level})`);
-    }
-  } catch (error) {
-    console.error('[Migration] Failed to migrate achievements/progress:', error);
+  const progressRaw = await AsyncStorage.getItem(STORAGE_KEYS.PROGRESS);
+  if (progressRaw) {
+    const progress = JSON.parse(progressRaw);
+    await saveProgress(progress.level || 1, progress.xp || 0);
+    console.log(`[Migration] Migrated user progress (level ${progress.level})`);
   }
 }
 
 /**
- * Migrate Groups (complex: groups, members, bills, splits, contributions, settlements)
+ * Migrate Groups (groups, members, bills, splits, contributions, settlements)
  */
 async function migrateGroups(): Promise<number> {
-  try {
-    const raw = await AsyncStorage.getItem(KEYS.GROUPS);
-    if (!raw) return 0;
-
-    const oldGroups: any[] = JSON.parse(raw);
-
-    for (const group of oldGroups) {
-      // Insert group
-      await db.insert(groups).values({
-        id: group.id,
-        name: group.name,
-        note: group.note,
-        createdAt: group.createdAt || now(),
-        updatedAt: now(),
-      }).onConflictDoNothing();
-
-      // Insert members
-      if (group.members && group.members.length > 0) {
-        for (const member of group.members) {
-          await db.insert(groupMembers).values({
-            id: member.id,
-            groupId: group.id,
-            name: member.name,
-            contact: member.contact,
-            archived: member.archived ? 1 : 0,
-            createdAt: now(),
-          }).onConflictDoNothing();
-        }
-      }
-
-      // Insert bills
-      if (group.bills && group.bills.length > 0) {
-        for (const bill of group.bills) {
-          await db.insert(bills).values({
-            id: bill.id,
-            groupId: group.id,
-            title: bill.title,
-            amount: bill.amount,
-            taxMode: bill.taxMode || 'abs',
-            tax: bill.tax || 0,
-            discountMode: bill.discountMode || 'abs',
-            discount: bill.discount || 0,
-            finalAmount: bill.finalAmount,
-            splitMode: bill.splitMode,
-            proportionalTax: bill.proportionalTax ? 1 : 0,
-            date: bill.date || now(),
-            createdAt: now(),
-          }).onConflictDoNothing();
-
-          // Insert splits
-          if (bill.splits && bill.splits.length > 0) {
-            for (const split of bill.splits) {
-              await db.insert(billSplits).values({
-                id: `${bill.id}-${split.memberId}`,
-                billId: bill.id,
-                memberId: split.memberId,
-                amount: split.amount,
-                shares: split.shares || null,
-                paid: split.paid ? 1 : 0,
-                createdAt: now(),
-              }).onConflictDoNothing();
-            }
-          }
-
-          // Insert contributions
-          if (bill.contributions && bill.contributions.length > 0) {
-            for (const contrib of bill.contributions) {
-              await db.insert(billContributions).values({
-                id: `${bill.id}-${contrib.memberId}`,
-                billId: bill.id,
-                memberId: contrib.memberId,
-                amount: contrib.amount,
-                createdAt: now(),
-              }).onConflictDoNothing();
-            }
-          }
-        }
-      }
-
-      // Insert settlements
-      if (group.settlements && group.settlements.length > 0) {
-        for (const settlement of group.settlements) {
-          await db.insert(settlements).values({
-            id: settlement.id,
-            groupId: group.id,
-            fromMemberId: settlement.fromId,
-            toMemberId: settlement.toId,
-            amount: settlement.amount,
-            billId: settlement.billId || null,
-            memo: settlement.memo,
-            date: settlement.date || now(),
-            createdAt: now(),
-          }).onConflictDoNothing();
-        }
+  const raw = await AsyncStorage.getItem(STORAGE_KEYS.GROUPS);
+  if (!raw) return 0;
+
+  const oldGroups: Group[] = JSON.parse(raw);
+
+  for (const group of oldGroups) {
+    const bills = (group.bills || []).map(b => ({
+      ...b,
+      // Older bills recorded a single payer instead of contributions
+      contributions: b.contributions || (b.paidBy ? [{ memberId: b.paidBy, amount: b.finalAmount }] : []),
+      splits: b.splits || [],
+    }));
+    const settlements = group.settlements || [];
+
+    // Members could be deleted while bills still referenced them; keep them as
+    // archived members so the rows satisfy their foreign keys and balances hold
+    const members = [...(group.members || [])];
+    const known = new Set(members.map(m => m.id));
+    const referenced = [
+      ...bills.flatMap(b => [...b.contributions.map(c => c.memberId), ...b.splits.map(sp => sp.memberId)]),
+      ...settlements.flatMap(st => [st.fromId, st.toId]),
+    ];
+    for (const id of referenced) {
+      if (!known.has(id)) {
+        members.push({ id, name: 'Former member', archived: true });
+        known.add(id);
       }
     }
 
-    console.log(`[Migration] Migrated ${oldGroups.length} groups`);
-    return oldGroups.length;
-  } catch (error) {
-    console.error('[Migration] Failed to migrate groups:', error);
-    return 0;
+    await saveGroup({ ...group, members, bills, settlements });
   }
+
+  console.log(`[Migration] Migrated ${oldGroups.length} groups`);
+  return oldGroups.length;
 }
 
 /**
@@ -584,7 +318,7 @@ async function migrateGroups(): Promise<number> {
  */
 async function migrateDebts(): Promise<number> {
   try {
-    const raw = await AsyncStorage.getItem(KEYS.DEBTS);
+    const raw = await AsyncStorage.getItem(STORAGE_KEYS.DEBTS);
     if (!raw) return 0;
 
     const oldDebts: Debt[] = JSON.parse(raw);
@@ -619,7 +353,7 @@ async function migrateDebts(): Promise<number> {
  */
 async function migrateBudget(): Promise<void> {
   try {
-    const raw = await AsyncStorage.getItem(KEYS.BUDGET);
+    const raw = await AsyncStorage.getItem(STORAGE_KEYS.BUDGET);
     if (!raw) return;
 
     const oldBudget = JSON.parse(raw);
@@ -642,6 +376,6 @@ async function migrateBudget(): Promise<void> {
  * Clears the migration flag so it can be run again
  */
 export async function rollbackMigration(): Promise<void> {
-  await AsyncStorage.removeItem(KEYS.MIGRATION_COMPLETE);
+  await AsyncStorage.removeItem(STORAGE_KEYS.MIGRATION_COMPLETE);
   console.log('[Migration] Rolled back - can run again');
 }
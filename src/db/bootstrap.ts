@@ -0,0 +1,24 @@
+/**
+ * Database bootstrap
+ * Opens the database, creates tables and runs the one-time AsyncStorage
+ * import before any store reads from it. Stores await `ensureDatabase()` in
+ * their hydrate; concurrent callers share the same run.
+ */
+
+import { initializeDatabase } from './client';
+import { migrateFromAsyncStorage } from './async-storage-migration';
+
+let ready: Promise<void> | null = null;
+
+export function ensureDatabase(): Promise<void> {
+  if (!ready) {
+    ready = (async () => {
+      await initializeDatabase();
+      const result = await migrateFromAsyncStorage();
+      // The legacy data stays in AsyncStorage, so a failed import is retried next launch
+      if (!result.success) throw new Error(result.error || 'AsyncStorage import failed');
+    })();
+    ready.catch(() => { ready = null; });
+  }
+  return ready;
+}
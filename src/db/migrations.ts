@@ -3,7 +3,7 @@
  * Manually creates tables - simpler than importing SQL files
  */
 
-import { type SQLiteDatabase } from 'expo-sqlite/next';
+import { type SQLiteDatabase } from 'expo-sqlite';
 
 export async function runMigrations(db: SQLiteDatabase): Promise<void> {
   console.log('[DB] Running migrations...');
@@ -16,6 +16,13 @@ export async function runMigrations(db: SQLiteDatabase): Promise<void> {
 
     if (result[0]?.count > 0) {
       console.log('[DB] Tables already exist, skipping migrations');
+      // Tables added after the initial schema
+      await createTransactionTagsTable(db);
+      await addMissingColumns(db);
+      await createFxRatesHistoryTable(db);
+      await createIncomeEventsTable(db);
+      await createCorporateActionsTable(db);
+      await createGroupRecurringBillsTable(db);
       return;
     }
 
@@ -36,6 +43,7 @@ export async function runMigrations(db: SQLiteDatabase): Promise<void> {
         apr REAL,
         credit_limit REAL,
         min_payment_percent REAL,
+        currency TEXT,
         last_synced_at INTEGER,
         created_at INTEGER NOT NULL,
         updated_at INTEGER NOT NULL
@@ -55,6 +63,9 @@ export async function runMigrations(db: SQLiteDatabase): Promise<void> {
         cash REAL DEFAULT 0 NOT NULL,
         archived INTEGER DEFAULT 0,
         tracking_enabled INTEGER DEFAULT 1,
+        sort_order INTEGER,
+        cost_method TEXT,
+        targets TEXT,
         created_at INTEGER NOT NULL,
         updated_at INTEGER NOT NULL
       );
@@ -115,6 +126,9 @@ export async function runMigrations(db: SQLiteDatabase): Promise<void> {
         id TEXT PRIMARY KEY NOT NULL,
         name TEXT NOT NULL,
         note TEXT,
+        currency TEXT,
+        track_spending INTEGER DEFAULT 0,
+        sync TEXT,
         created_at INTEGER NOT NULL,
         updated_at INTEGER NOT NULL
       );
@@ -174,6 +188,8 @@ export async function runMigrations(db: SQLiteDatabase): Promise<void> {
 
     await db.execAsync(`CREATE INDEX IF NOT EXISTS fx_rates_cache_fetched_idx ON fx_rates_cache (fetched_at);`);
 
+    await createFxRatesHistoryTable(db);
+
     // 2. Tables with foreign keys to above tables
 
     await db.execAsync(`
@@ -186,9 +202,18 @@ export async function runMigrations(db: SQLiteDatabase): Promise<void> {
         note TEXT,
         title TEXT,
         account_id TEXT,
+        account_name TEXT,
+        to_account_id TEXT,
+        to_account_name TEXT,
+        fee REAL,
+        fx_rate REAL,
+        splits TEXT,
+        currency TEXT,
+        account_amount REAL,
         created_at INTEGER NOT NULL,
         updated_at INTEGER NOT NULL,
-        FOREIGN KEY (account_id) REFERENCES accounts(id) ON DELETE SET NULL
+        FOREIGN KEY (account_id) REFERENCES accounts(id) ON DELETE SET NULL,
+        FOREIGN KEY (to_account_id) REFERENCES accounts(id) ON DELETE SET NULL
       );
     `);
 
@@ -196,8 +221,11 @@ export async function runMigrations(db: SQLiteDatabase): Promise<void> {
     await db.execAsync(`CREATE INDEX IF NOT EXISTS transactions_category_idx ON transactions (category);`);
     await db.execAsync(`CREATE INDEX IF NOT EXISTS transactions_type_idx ON transactions (type);`);
     await db.execAsync(`CREATE INDEX IF NOT EXISTS transactions_account_idx ON transactions (account_id);`);
+    await db.execAsync(`CREATE INDEX IF NOT EXISTS transactions_account_name_idx ON transactions (account_name);`);
     await db.execAsync(`CREATE INDEX IF NOT EXISTS transactions_date_category_idx ON transactions (date, category);`);
 
+    await createTransactionTagsTable(db);
+
     await db.execAsync(`
       CREATE TABLE IF NOT EXISTS holdings (
         id TEXT PRIMARY KEY NOT NULL,
@@ -206,6 +234,7 @@ export async function runMigrations(db: SQLiteDatabase): Promise<void> {
         name TEXT NOT NULL,
         type TEXT NOT NULL,
         currency TEXT NOT NULL,
+        lot_size REAL,
         archived INTEGER DEFAULT 0,
         sort_order INTEGER DEFAULT 0,
         created_at INTEGER NOT NULL,
@@ -227,6 +256,9 @@ export async function runMigrations(db: SQLiteDatabase): Promise<void> {
         price REAL NOT NULL,
         fee REAL DEFAULT 0,
         date INTEGER NOT NULL,
+        matches TEXT,
+        symbol TEXT,
+        pending INTEGER DEFAULT 0,
         created_at INTEGER NOT NULL,
         FOREIGN KEY (holding_id) REFERENCES holdings(id) ON DELETE CASCADE
       );
@@ -236,6 +268,9 @@ export async function runMigrations(db: SQLiteDatabase): Promise<void> {
     await db.execAsync(`CREATE INDEX IF NOT EXISTS lots_date_idx ON lots (date);`);
     await db.execAsync(`CREATE INDEX IF NOT EXISTS lots_holding_date_idx ON lots (holding_id, date);`);
 
+    await createIncomeEventsTable(db);
+    await createCorporateActionsTable(db);
+
     await db.execAsync(`
       CREATE TABLE IF NOT EXISTS watchlist (
         id TEXT PRIMARY KEY NOT NULL,
@@ -302,6 +337,7 @@ export async function runMigrations(db: SQLiteDatabase): Promise<void> {
         name TEXT NOT NULL,
         contact TEXT,
         archived INTEGER DEFAULT 0,
+        skip_settling INTEGER DEFAULT 0,
         created_at INTEGER NOT NULL,
         FOREIGN KEY (group_id) REFERENCES groups(id) ON DELETE CASCADE
       );
@@ -323,6 +359,12 @@ export async function runMigrations(db: SQLiteDatabase): Promise<void> {
         final_amount REAL NOT NULL,
         split_mode TEXT NOT NULL,
         proportional_tax INTEGER DEFAULT 0,
+        currency TEXT,
+        rate REAL,
+        items TEXT,
+        category TEXT,
+        paid_from_account_id TEXT,
+        transaction_id TEXT,
         date INTEGER NOT NULL,
         created_at INTEGER NOT NULL,
         FOREIGN KEY (group_id) REFERENCES groups(id) ON DELETE CASCADE
@@ -372,8 +414,12 @@ export async function runMigrations(db: SQLiteDatabase): Promise<void> {
         from_member_id TEXT NOT NULL,
         to_member_id TEXT NOT NULL,
         amount REAL NOT NULL,
+        currency TEXT,
+        rate REAL,
         bill_id TEXT,
         memo TEXT,
+        to_account_id TEXT,
+        transaction_id TEXT,
         date INTEGER NOT NULL,
         created_at INTEGER NOT NULL,
         FOREIGN KEY (group_id) REFERENCES groups(id) ON DELETE CASCADE,
@@ -388,9 +434,149 @@ export async function runMigrations(db: SQLiteDatabase): Promise<void> {
     await db.execAsync(`CREATE INDEX IF NOT EXISTS settlements_to_idx ON settlements (to_member_id);`);
     await db.execAsync(`CREATE INDEX IF NOT EXISTS settlements_date_idx ON settlements (date);`);
 
+    await createGroupRecurringBillsTable(db);
+
     console.log('[DB] All tables and indexes created successfully');
   } catch (error) {
     console.error('[DB] Migration failed:', error);
     throw error;
   }
 }
+
+async function createTransactionTagsTable(db: SQLiteDatabase): Promise<void> {
+  await db.execAsync(`
+    CREATE TABLE IF NOT EXISTS transaction_tags (
+      transaction_id TEXT NOT NULL,
+      tag TEXT NOT NULL,
+      created_at INTEGER NOT NULL,
+      PRIMARY KEY (transaction_id, tag),
+      FOREIGN KEY (transaction_id) REFERENCES transactions(id) ON DELETE CASCADE
+    );
+  `);
+
+  await db.execAsync(`CREATE INDEX IF NOT EXISTS transaction_tags_tag_idx ON transaction_tags (tag);`);
+}
+
+async function createFxRatesHistoryTable(db: SQLiteDatabase): Promise<void> {
+  await db.execAsync(`
+    CREATE TABLE IF NOT EXISTS fx_rates_history (
+      date TEXT NOT NULL,
+      currency TEXT NOT NULL,
+      rate REAL NOT NULL,
+      PRIMARY KEY (date, currency)
+    );
+  `);
+}
+
+async function createIncomeEventsTable(db: SQLiteDatabase): Promise<void> {
+  await db.execAsync(`
+    CREATE TABLE IF NOT EXISTS income_events (
+      id TEXT PRIMARY KEY NOT NULL,
+      holding_id TEXT NOT NULL,
+      kind TEXT NOT NULL,
+      amount REAL NOT NULL,
+      withholding REAL DEFAULT 0,
+      lot_id TEXT,
+      note TEXT,
+      date INTEGER NOT NULL,
+      created_at INTEGER NOT NULL,
+      FOREIGN KEY (holding_id) REFERENCES holdings(id) ON DELETE CASCADE
+    );
+  `);
+
+  await db.execAsync(`CREATE INDEX IF NOT EXISTS income_events_holding_idx ON income_events (holding_id);`);
+  await db.execAsync(`CREATE INDEX IF NOT EXISTS income_events_date_idx ON income_events (date);`);
+}
+
+async function createCorporateActionsTable(db: SQLiteDatabase): Promise<void> {
+  await db.execAsync(`
+    CREATE TABLE IF NOT EXISTS corporate_actions (
+      id TEXT PRIMARY KEY NOT NULL,
+      holding_id TEXT NOT NULL,
+      kind TEXT NOT NULL,
+      symbol TEXT NOT NULL,
+      to_symbol TEXT,
+      ratio REAL,
+      cash_in_lieu REAL,
+      note TEXT,
+      date INTEGER NOT NULL,
+      created_at INTEGER NOT NULL,
+      FOREIGN KEY (holding_id) REFERENCES holdings(id) ON DELETE CASCADE
+    );
+  `);
+
+  await db.execAsync(`CREATE INDEX IF NOT EXISTS corporate_actions_holding_idx ON corporate_actions (holding_id);`);
+}
+
+async function createGroupRecurringBillsTable(db: SQLiteDatabase): Promise<void> {
+  await db.execAsync(`
+    CREATE TABLE IF NOT EXISTS group_recurring_bills (
+      id TEXT PRIMARY KEY NOT NULL,
+      group_id TEXT NOT NULL,
+      title TEXT NOT NULL,
+      amount REAL NOT NULL,
+      currency TEXT,
+      freq TEXT NOT NULL,
+      anchor INTEGER NOT NULL,
+      next_due INTEGER NOT NULL,
+      split_mode TEXT NOT NULL,
+      participants TEXT NOT NULL,
+      exacts TEXT,
+      payers TEXT NOT NULL,
+      rotate INTEGER DEFAULT 0,
+      rotation_index INTEGER DEFAULT 0 NOT NULL,
+      category TEXT,
+      paid_from_account_id TEXT,
+      active INTEGER DEFAULT 1,
+      last_bill_id TEXT,
+      created_at INTEGER NOT NULL,
+      FOREIGN KEY (group_id) REFERENCES groups(id) ON DELETE CASCADE
+    );
+  `);
+
+  await db.execAsync(`CREATE INDEX IF NOT EXISTS group_recurring_bills_group_idx ON group_recurring_bills (group_id);`);
+}
+
+/** Columns added after the initial schema; ALTER fails harmlessly if they exist. */
+async function addMissingColumns(db: SQLiteDatabase): Promise<void> {
+  const alters = [
+    'ALTER TABLE accounts ADD COLUMN currency TEXT',
+    'ALTER TABLE transactions ADD COLUMN currency TEXT',
+    'ALTER TABLE transactions ADD COLUMN account_amount REAL',
+    'ALTER TABLE transactions ADD COLUMN account_name TEXT',
+    'ALTER TABLE transactions ADD COLUMN to_account_id TEXT REFERENCES accounts(id) ON DELETE SET NULL',
+    'ALTER TABLE transactions ADD COLUMN to_account_name TEXT',
+    'ALTER TABLE transactions ADD COLUMN fee REAL',
+    'ALTER TABLE transactions ADD COLUMN fx_rate REAL',
+    'ALTER TABLE transactions ADD COLUMN splits TEXT',
+    'ALTER TABLE portfolios ADD COLUMN sort_order INTEGER',
+    'ALTER TABLE portfolios ADD COLUMN cost_method TEXT',
+    'ALTER TABLE lots ADD COLUMN matches TEXT',
+    'ALTER TABLE lots ADD COLUMN symbol TEXT',
+    'ALTER TABLE portfolios ADD COLUMN targets TEXT',
+    'ALTER TABLE holdings ADD COLUMN lot_size REAL',
+    'ALTER TABLE lots ADD COLUMN pending INTEGER DEFAULT 0',
+    'ALTER TABLE groups ADD COLUMN currency TEXT',
+    'ALTER TABLE groups ADD COLUMN track_spending INTEGER DEFAULT 0',
+    'ALTER TABLE groups ADD COLUMN sync TEXT',
+    'ALTER TABLE group_members ADD COLUMN skip_settling INTEGER DEFAULT 0',
+    'ALTER TABLE bills ADD COLUMN category TEXT',
+    'ALTER TABLE bills ADD COLUMN paid_from_account_id TEXT',
+    'ALTER TABLE bills ADD COLUMN transaction_id TEXT',
+    'ALTER TABLE bills ADD COLUMN items TEXT',
+    'ALTER TABLE bills ADD COLUMN currency TEXT',
+    'ALTER TABLE bills ADD COLUMN rate REAL',
+    'ALTER TABLE settlements ADD COLUMN to_account_id TEXT',
+    'ALTER TABLE settlements ADD COLUMN transaction_id TEXT',
+    'ALTER TABLE settlements ADD COLUMN currency TEXT',
+    'ALTER TABLE settlements ADD COLUMN rate REAL',
+  ];
+  for (const sql of alters) {
+    try {
+      await db.execAsync(sql);
+    } catch {
+      // Column already exists
+    }
+  }
+  await db.execAsync(`CREATE INDEX IF NOT EXISTS transactions_account_name_idx ON transactions (account_name);`);
+}
@@ -0,0 +1,76 @@
+/**
+ * Accounts repository
+ * Row-level reads and writes for the accounts table
+ */
+
+import { eq } from 'drizzle-orm';
+import { db } from '../client';
+import { accounts, type NewAccount, type Account } from '../schema';
+import type { BankAccount } from '../../store/accounts';
+import { opt, toDate, toISO } from './shared';
+
+function toRow(a: BankAccount): NewAccount {
+  return {
+    id: a.id,
+    name: a.name,
+    institution: a.institution ?? null,
+    mask: a.mask ?? null,
+    balance: Number(a.balance) || 0,
+    kind: a.kind || 'checking',
+    includeInNetWorth: a.includeInNetWorth !== false,
+    note: a.note ?? null,
+    isDefault: !!a.isDefault,
+    apr: a.apr ?? null,
+    creditLimit: a.creditLimit ?? null,
+    minPaymentPercent: a.minPaymentPercent ?? null,
+    currency: a.currency ?? null,
+    createdAt: toDate(a.createdAt),
+    updatedAt: new Date(),
+  };
+}
+
+function fromRow(r: Account): BankAccount {
+  return {
+    id: r.id,
+    name: r.name,
+    institution: opt(r.institution),
+    mask: opt(r.mask),
+    balance: r.balance,
+    currency: opt(r.currency),
+    kind: opt(r.kind),
+    includeInNetWorth: r.includeInNetWorth !== false,
+    note: opt(r.note),
+    isDefault: !!r.isDefault,
+    apr: opt(r.apr),
+    creditLimit: opt(r.creditLimit),
+    minPaymentPercent: opt(r.minPaymentPercent),
+    createdAt: toISO(r.createdAt),
+  };
+}
+
+export async function listAccounts(): Promise<BankAccount[]> {
+  const rows = db.select().from(accounts).orderBy(accounts.createdAt).all();
+  return rows.map(fromRow);
+}
+
+/** Inserts or replaces the given accounts in one transaction. */
+export async function upsertAccounts(list: BankAccount[]): Promise<void> {
+  if (list.length === 0) return;
+  db.transaction((tx) => {
+    for (const a of list) {
+      const row = toRow(a);
+      const { id, createdAt, ...patch } = row;
+      tx.insert(accounts).values(row).onConflictDoUpdate({ target: accounts.id, set: patch }).run();
+    }
+  });
+}
+
+export async function deleteAccount(id: string): Promise<void> {
+  db.delete(accounts).where(eq(accounts.id, id)).run();
+}
+
+/** Account ids keyed by name, for resolving the name-keyed store model to foreign keys. */
+export function accountIdsByName(): Map<string, string> {
+  const rows = db.select({ id: accounts.id, name: accounts.name }).from(accounts).all();
+  return new Map(rows.map(r => [r.name, r.id]));
+}
@@ -0,0 +1,34 @@
+/**
+ * FX history repository
+ * Daily USD-based rates, one row per day and currency, for converting dated
+ * transactions. Sits alongside fx_rates_cache, which holds only the latest.
+ */
+
+import { inArray } from 'drizzle-orm';
+import { db } from '../client';
+import { fxRatesHistory } from '../schema';
+import type { FxHistory } from '../../lib/fxHistory';
+
+export async function getFxHistory(): Promise<FxHistory> {
+  const out: FxHistory = {};
+  for (const r of db.select().from(fxRatesHistory).all()) {
+    const day = out[r.date] || (out[r.date] = { USD: 1 });
+    day[r.currency] = r.rate;
+  }
+  return out;
+}
+
+/** Replaces the stored rates for each day in `days`. */
+export async function saveFxHistory(days: FxHistory): Promise<void> {
+  const dates = Object.keys(days);
+  if (dates.length === 0) return;
+  db.transaction((tx) => {
+    tx.delete(fxRatesHistory).where(inArray(fxRatesHistory.date, dates)).run();
+    for (const date of dates) {
+      for (const [currency, rate] of Object.entries(days[date])) {
+        if (currency === 'USD' || !Number.isFinite(rate) || rate <= 0) continue;
+        tx.insert(fxRatesHistory).values({ date, currency, rate }).run();
+      }
+    }
+  });
+}
@@ -0,0 +1,140 @@
+/**
+ * Goals repository
+ * Goals with their history and transaction links, achievements and XP progress
+ */
+
+import { desc, eq, inArray } from 'drizzle-orm';
+import { db } from '../client';
+import { goals, goalHistory, goalTransactionLinks, achievements, userProgress, transactions, type NewGoal } from '../schema';
+import type { Goal, Achievement } from '../../features/goals/store/goals';
+import { opt, toDate, toISO, toOptionalDate } from './shared';
+
+function toRow(g: Goal): NewGoal {
+  return {
+    id: g.id,
+    type: g.type,
+    title: g.title,
+    targetAmount: Number(g.targetAmount) || 0,
+    currentAmount: Number(g.currentAmount) || 0,
+    targetDate: toOptionalDate(g.targetDate),
+    icon: g.icon ?? null,
+    category: g.category ?? null,
+    roundUps: !!g.roundUps,
+    autoSaveCadence: g.autoSave?.cadence ?? null,
+    autoSaveAmount: g.autoSave?.amount ?? null,
+    isPinned: !!g.isPinned,
+    completedAt: toOptionalDate(g.completedAt),
+    createdAt: toDate(g.createdAt),
+    updatedAt: toDate(g.updatedAt),
+  };
+}
+
+export async function listGoals(): Promise<Goal[]> {
+  const rows = db.select().from(goals).orderBy(desc(goals.createdAt)).all();
+  const history = db.select().from(goalHistory).orderBy(desc(goalHistory.date)).all();
+  const links = db.select().from(goalTransactionLinks).orderBy(goalTransactionLinks.createdAt).all();
+
+  return rows.map(r => {
+    const goal: Goal = {
+      id: r.id,
+      type: r.type,
+      title: r.title,
+      targetAmount: r.targetAmount,
+      currentAmount: r.currentAmount,
+      targetDate: toISO(r.targetDate),
+      icon: opt(r.icon),
+      category: opt(r.category),
+      roundUps: !!r.roundUps,
+      isPinned: !!r.isPinned,
+      completedAt: toISO(r.completedAt),
+      createdAt: r.createdAt.toISOString(),
+      updatedAt: r.updatedAt.toISOString(),
+      history: history
+        .filter(h => h.goalId === r.id)
+        .map(h => ({ id: h.id, type: h.type, amount: h.amount, date: h.date.toISOString(), note: opt(h.note) })),
+    };
+    if (r.autoSaveCadence && r.autoSaveAmount !== null) {
+      goal.autoSave = { cadence: r.autoSaveCadence, amount: r.autoSaveAmount };
+    }
+    const linked = links.filter(l => l.goalId === r.id).map(l => l.transactionId);
+    if (linked.length) goal.linkedTransactions = linked;
+    return goal;
+  });
+}
+
+/** Writes a goal together with its history and links, replacing what was stored. */
+export async function saveGoal(goal: Goal): Promise<void> {
+  const linked = goal.linkedTransactions || [];
+  // Links are foreign keys; drop any pointing at transactions that no longer exist
+  const existing = linked.length
+    ? new Set(db.select({ id: transactions.id }).from(transactions).where(inArray(transactions.id, linked)).all().map(r => r.id))
+    : new Set<string>();
+
+  db.transaction((tx) => {
+    const row = toRow(goal);
+    const { id, createdAt, ...patch } = row;
+    tx.insert(goals).values(row).onConflictDoUpdate({ target: goals.id, set: patch }).run();
+
+    tx.delete(goalHistory).where(eq(goalHistory.goalId, goal.id)).run();
+    for (const h of goal.history || []) {
+      tx.insert(goalHistory).values({
+        id: h.id,
+        goalId: goal.id,
+        type: h.type,
+        amount: h.amount,
+        date: toDate(h.date),
+        note: h.note ?? null,
+        createdAt: toDate(h.date),
+      }).run();
+    }
+
+    tx.delete(goalTransactionLinks).where(eq(goalTransactionLinks.goalId, goal.id)).run();
+    for (const transactionId of linked) {
+      if (!existing.has(transactionId)) continue;
+      tx.insert(goalTransactionLinks).values({ goalId: goal.id, transactionId, createdAt: new Date() }).onConflictDoNothing().run();
+    }
+  });
+}
+
+export async function deleteGoal(id: string): Promise<void> {
+  db.delete(goals).where(eq(goals.id, id)).run();
+}
+
+export async function listAchievements(): Promise<Achievement[]> {
+  return db.select().from(achievements).orderBy(achievements.unlockedAt).all().map(a => ({
+    id: a.id,
+    type: a.type,
+    title: a.title,
+    description: a.description,
+    icon: a.icon,
+    unlockedAt: a.unlockedAt.toISOString(),
+  }));
+}
+
+export async function insertAchievement(a: Achievement): Promise<void> {
+  db.insert(achievements).values({
+    id: a.id,
+    type: a.type,
+    title: a.title,
+    description: a.description,
+    icon: a.icon,
+    unlockedAt: toDate(a.unlockedAt),
+  }).onConflictDoNothing().run();
+}
+
+export async function clearAchievements(): Promise<void> {
+  db.delete(achievements).run();
+}
+
+export async function getProgress(): Promise<{ level: number; xp: number }> {
+  const row = db.select().from(userProgress).where(eq(userProgress.id, 'singleton')).get();
+  return row ? { level: row.level, xp: row.xp } : { level: 1, xp: 0 };
+}
+
+export async function saveProgress(level: number, xp: number): Promise<void> {
+  const updatedAt = new Date();
+  db.insert(userProgress)
+    .values({ id: 'singleton', level, xp, updatedAt })
+    .onConflictDoUpdate({ target: userProgress.id, set: { level, xp, updatedAt } })
+    .run();
+}
@@ -0,0 +1,226 @@
+/**
+ * Groups repository
+ * Each group is written as a unit: its row plus members, bills (with splits
+ * and contributions), settlements and recurring bills. Child rows are read back in insertion
+ * order, which mirrors the order of the store's arrays.
+ */
+
+import { desc, eq, sql } from 'drizzle-orm';
+import { db } from '../client';
+import { groups, groupMembers, bills, billSplits, billContributions, settlements, groupRecurringBills } from '../schema';
+import type { Group, Bill, Settlement, RecurringBill } from '../../types/groups';
+import { opt } from './shared';
+
+const byRowid = sql`rowid`;
+
+export async function listGroups(): Promise<Group[]> {
+  const groupRows = db.select().from(groups).orderBy(desc(groups.createdAt)).all();
+  const memberRows = db.select().from(groupMembers).orderBy(byRowid).all();
+  const billRows = db.select().from(bills).orderBy(byRowid).all();
+  const splitRows = db.select().from(billSplits).orderBy(byRowid).all();
+  const contributionRows = db.select().from(billContributions).orderBy(byRowid).all();
+  const settlementRows = db.select().from(settlements).orderBy(byRowid).all();
+  const recurringRows = db.select().from(groupRecurringBills).orderBy(byRowid).all();
+
+  return groupRows.map(g => {
+    const groupBills: Bill[] = billRows.filter(b => b.groupId === g.id).map(b => ({
+      id: b.id,
+      groupId: g.id,
+      title: b.title,
+      amount: b.amount,
+      tax: b.tax,
+      taxMode: b.taxMode,
+      discount: b.discount,
+      discountMode: b.discountMode,
+      finalAmount: b.finalAmount,
+      currency: opt(b.currency),
+      rate: opt(b.rate),
+      contributions: contributionRows.filter(c => c.billId === b.id).map(c => ({ memberId: c.memberId, amount: c.amount })),
+      splits: splitRows.filter(s => s.billId === b.id).map(s => ({ memberId: s.memberId, share: s.amount, settled: !!s.paid })),
+      items: b.items?.length ? b.items : undefined,
+      createdAt: b.createdAt.getTime(),
+      category: opt(b.category),
+      paidFromAccountId: opt(b.paidFromAccountId),
+      transactionId: opt(b.transactionId),
+    }));
+    const groupSettlements: Settlement[] = settlementRows.filter(s => s.groupId === g.id).map(s => ({
+      id: s.id,
+      fromId: s.fromMemberId,
+      toId: s.toMemberId,
+      amount: s.amount,
+      currency: opt(s.currency),
+      rate: opt(s.rate),
+      createdAt: s.createdAt.getTime(),
+      billId: opt(s.billId),
+      memo: opt(s.memo),
+      toAccountId: opt(s.toAccountId),
+      transactionId: opt(s.transactionId),
+    }));
+    const groupRecurring: RecurringBill[] = recurringRows.filter(r => r.groupId === g.id).map(r => ({
+      id: r.id,
+      title: r.title,
+      amount: r.amount,
+      currency: opt(r.currency),
+      freq: r.freq,
+      anchorISO: r.anchor.toISOString(),
+      nextDueISO: r.nextDue.toISOString(),
+      splitMode: r.splitMode,
+      participants: r.participants || [],
+      exacts: opt(r.exacts),
+      payers: r.payers || [],
+      rotate: !!r.rotate,
+      rotationIndex: r.rotationIndex,
+      category: opt(r.category),
+      paidFromAccountId: opt(r.paidFromAccountId),
+      active: r.active !== false,
+      lastBillId: opt(r.lastBillId),
+      createdAt: r.createdAt.getTime(),
+    }));
+    return {
+      id: g.id,
+      name: g.name,
+      note: opt(g.note),
+      currency: opt(g.currency),
+      trackSpending: !!g.trackSpending,
+      sync: opt(g.sync),
+      members: memberRows.filter(m => m.groupId === g.id).map(m => ({
+        id: m.id,
+        name: m.name,
+        contact: opt(m.contact),
+        archived: !!m.archived,
+        skipSettling: m.skipSettling || undefined,
+      })),
+      bills: groupBills,
+      settlements: groupSettlements,
+      recurring: groupRecurring,
+      createdAt: g.createdAt.getTime(),
+    };
+  });
+}
+
+/** Writes a group and everything in it, replacing what was stored for that group. */
+export async function saveGroup(group: Group): Promise<void> {
+  const now = new Date();
+  db.transaction((tx) => {
+    const row = {
+      id: group.id,
+      name: group.name,
+      note: group.note ?? null,
+      currency: group.currency ?? null,
+      trackSpending: !!group.trackSpending,
+      sync: group.sync ?? null,
+      createdAt: new Date(group.createdAt || Date.now()),
+      updatedAt: now,
+    };
+    const { id, createdAt, ...patch } = row;
+    tx.insert(groups).values(row).onConflictDoUpdate({ target: groups.id, set: patch }).run();
+
+    // Children cascade from members and bills, so clear and re-insert them in order
+    tx.delete(settlements).where(eq(settlements.groupId, group.id)).run();
+    tx.delete(groupRecurringBills).where(eq(groupRecurringBills.groupId, group.id)).run();
+    tx.delete(bills).where(eq(bills.groupId, group.id)).run();
+    tx.delete(groupMembers).where(eq(groupMembers.groupId, group.id)).run();
+
+    for (const m of group.members) {
+      tx.insert(groupMembers).values({
+        id: m.id,
+        groupId: group.id,
+        name: m.name,
+        contact: m.contact ?? null,
+        archived: !!m.archived,
+        skipSettling: !!m.skipSettling,
+        createdAt: now,
+      }).run();
+    }
+
+    for (const b of group.bills) {
+      const created = new Date(b.createdAt || Date.now());
+      tx.insert(bills).values({
+        id: b.id,
+        groupId: group.id,
+        title: b.title,
+        amount: b.amount,
+        taxMode: b.taxMode || 'abs',
+        tax: b.tax || 0,
+        discountMode: b.discountMode || 'abs',
+        discount: b.discount || 0,
+        finalAmount: b.finalAmount,
+        splitMode: 'exact', // splits are stored as resolved amounts
+        currency: b.currency ?? null,
+        rate: b.rate ?? null,
+        items: b.items?.length ? b.items : null,
+        category: b.category ?? null,
+        paidFromAccountId: b.paidFromAccountId ?? null,
+        transactionId: b.transactionId ?? null,
+        date: created,
+        createdAt: created,
+      }).run();
+      for (const s of b.splits) {
+        tx.insert(billSplits).values({
+          id: `${b.id}:${s.memberId}`,
+          billId: b.id,
+          memberId: s.memberId,
+          amount: s.share,
+          paid: !!s.settled,
+          createdAt: created,
+        }).run();
+      }
+      for (const c of b.contributions) {
+        tx.insert(billContributions).values({
+          id: `${b.id}:${c.memberId}`,
+          billId: b.id,
+          memberId: c.memberId,
+          amount: c.amount,
+          createdAt: created,
+        }).run();
+      }
+    }
+
+    for (const s of group.settlements || []) {
+      const created = new Date(s.createdAt || Date.now());
+      tx.insert(settlements).values({
+        id: s.id,
+        groupId: group.id,
+        fromMemberId: s.fromId,
+        toMemberId: s.toId,
+        amount: s.amount,
+        currency: s.currency ?? null,
+        rate: s.rate ?? null,
+        billId: s.billId ?? null,
+        memo: s.memo ?? null,
+        toAccountId: s.toAccountId ?? null,
+        transactionId: s.transactionId ?? null,
+        date: created,
+        createdAt: created,
+      }).run();
+    }
+
+    for (const r of group.recurring || []) {
+      tx.insert(groupRecurringBills).values({
+        id: r.id,
+        groupId: group.id,
+        title: r.title,
+        amount: r.amount,
+        currency: r.currency ?? null,
+        freq: r.freq,
+        anchor: new Date(r.anchorISO),
+        nextDue: new Date(r.nextDueISO),
+        splitMode: r.splitMode,
+        participants: r.participants,
+        exacts: r.exacts ?? null,
+        payers: r.payers,
+        rotate: !!r.rotate,
+        rotationIndex: r.rotationIndex,
+        category: r.category ?? null,
+        paidFromAccountId: r.paidFromAccountId ?? null,
+        active: r.active,
+        lastBillId: r.lastBillId ?? null,
+        createdAt: new Date(r.createdAt || Date.now()),
+      }).run();
+    }
+  });
+}
+
+export async function deleteGroup(id: string): Promise<void> {
+  db.delete(groups).where(eq(groups.id, id)).run();
+}
@@ -0,0 +1,216 @@
+/**
+ * Investments repository
+ * Portfolios with their holdings, lots, income events, corporate actions, watchlist and cash
+ * events. A portfolio is written as a unit; only portfolios that changed need to be saved.
+ */
+
+import { eq, inArray, isNotNull, sql } from 'drizzle-orm';
+import { db } from '../client';
+import { portfolios, holdings, lots, incomeEvents, corporateActions, watchlist, cashEvents } from '../schema';
+import type { Portfolio, Holding } from '../../features/invest/store/invest';
+import { opt, toDate, toISO } from './shared';
+
+const byRowid = sql`rowid`;
+
+const holdingId = (portfolioId: string, symbol: string) => `${portfolioId}:${symbol}`;
+
+export async function listPortfolios(): Promise<{ portfolios: Record<string, Portfolio>; order: string[] }> {
+  const portfolioRows = db.select().from(portfolios).orderBy(byRowid).all();
+  const holdingRows = db.select().from(holdings).orderBy(byRowid).all();
+  const lotRows = db.select().from(lots).orderBy(lots.date).all();
+  const incomeRows = db.select().from(incomeEvents).orderBy(incomeEvents.date).all();
+  const actionRows = db.select().from(corporateActions).orderBy(corporateActions.date).all();
+  const watchRows = db.select().from(watchlist).orderBy(byRowid).all();
+  const cashRows = db.select().from(cashEvents).orderBy(byRowid).all();
+
+  const out: Record<string, Portfolio> = {};
+  for (const p of portfolioRows) {
+    const rows = holdingRows.filter(h => h.portfolioId === p.id);
+    const map: Record<string, Holding> = {};
+    for (const h of rows) {
+      const holding: Holding = {
+        symbol: h.symbol,
+        name: h.name,
+        type: h.type,
+        currency: h.currency,
+        lots: lotRows.filter(l => l.holdingId === h.id).map(l => {
+          const lot: Holding['lots'][number] = { id: l.id, side: l.side, qty: l.qty, price: l.price, date: l.date.toISOString() };
+          if (l.fee) lot.fee = l.fee;
+          if (l.matches?.length) lot.matches = l.matches;
+          if (l.symbol) lot.symbol = l.symbol;
+          if (l.pending) lot.pending = true;
+          return lot;
+        }),
+      };
+      const income = incomeRows.filter(e => e.holdingId === h.id).map(e => {
+        const event: NonNullable<Holding['income']>[number] = { id: e.id, kind: e.kind, amount: e.amount, date: e.date.toISOString() };
+        if (e.withholding) event.withholding = e.withholding;
+        if (e.lotId) event.lotId = e.lotId;
+        if (e.note) event.note = e.note;
+        return event;
+      });
+      if (income.length) holding.income = income;
+      const actions = actionRows.filter(a => a.holdingId === h.id).map(a => {
+        const action: NonNullable<Holding['actions']>[number] = { id: a.id, kind: a.kind, symbol: a.symbol, date: a.date.toISOString() };
+        if (a.toSymbol) action.toSymbol = a.toSymbol;
+        if (a.ratio) action.ratio = a.ratio;
+        if (a.cashInLieu) action.cashInLieu = a.cashInLieu;
+        if (a.note) action.note = a.note;
+        return action;
+      });
+      if (actions.length) holding.actions = actions;
+      if (h.lotSize) holding.lotSize = h.lotSize;
+      if (h.archived) holding.archived = true;
+      map[h.symbol] = holding;
+    }
+    const ordered = rows.filter(h => (h.sortOrder || 0) > 0).sort((a, b) => (a.sortOrder || 0) - (b.sortOrder || 0));
+
+    out[p.id] = {
+      id: p.id,
+      name: p.name,
+      baseCurrency: p.baseCurrency,
+      benchmark: opt(p.benchmark),
+      type: opt(p.type),
+      costMethod: opt(p.costMethod),
+      targets: opt(p.targets),
+      archived: !!p.archived,
+      trackingEnabled: p.trackingEnabled !== false,
+      cash: p.cash,
+      holdings: map,
+      ...(ordered.length ? { holdingsOrder: ordered.map(h => h.symbol) } : {}),
+      watchlist: watchRows.filter(w => w.portfolioId === p.id).map(w => w.symbol),
+      cashEvents: cashRows.filter(c => c.portfolioId === p.id).map(c => ({ date: c.date.toISOString(), amount: c.amount })),
+      createdAt: p.createdAt.toISOString(),
+      updatedAt: toISO(p.updatedAt),
+    };
+  }
+
+  const order = portfolioRows
+    .filter(p => p.sortOrder !== null)
+    .sort((a, b) => (a.sortOrder ?? 0) - (b.sortOrder ?? 0))
+    .map(p => p.id);
+  return { portfolios: out, order };
+}
+
+/**
+ * Writes the given portfolios (replacing their holdings, lots, income, corporate actions,
+ * watchlist and cash events) and deletes `removedIds`, all in one transaction so lots moved
+ * between portfolios never collide.
+ */
+export async function savePortfolios(list: Portfolio[], order: string[], removedIds: string[] = []): Promise<void> {
+  if (list.length === 0 && removedIds.length === 0) return;
+  const ids = list.map(p => p.id);
+  db.transaction((tx) => {
+    if (removedIds.length) tx.delete(portfolios).where(inArray(portfolios.id, removedIds)).run();
+    if (ids.length) {
+      tx.delete(holdings).where(inArray(holdings.portfolioId, ids)).run();
+      tx.delete(watchlist).where(inArray(watchlist.portfolioId, ids)).run();
+      tx.delete(cashEvents).where(inArray(cashEvents.portfolioId, ids)).run();
+    }
+
+    for (const p of list) {
+      const idx = order.indexOf(p.id);
+      const row = {
+        id: p.id,
+        name: p.name,
+        baseCurrency: p.baseCurrency || 'USD',
+        benchmark: p.benchmark ?? null,
+        type: p.type || 'Live',
+        cash: Number(p.cash) || 0,
+        archived: !!p.archived,
+        trackingEnabled: p.trackingEnabled !== false,
+        sortOrder: idx >= 0 ? idx : null,
+        costMethod: p.costMethod ?? null,
+        targets: p.targets ?? null,
+        createdAt: toDate(p.createdAt),
+        updatedAt: toDate(p.updatedAt || p.createdAt),
+      };
+      const { id, createdAt, ...patch } = row;
+      tx.insert(portfolios).values(row).onConflictDoUpdate({ target: portfolios.id, set: patch }).run();
+
+      const holdingsOrder = p.holdingsOrder || [];
+      for (const h of Object.values(p.holdings || {})) {
+        const hid = holdingId(p.id, h.symbol);
+        tx.insert(holdings).values({
+          id: hid,
+          portfolioId: p.id,
+          symbol: h.symbol,
+          name: h.name,
+          type: h.type,
+          currency: h.currency || 'USD',
+          lotSize: h.lotSize ?? null,
+          archived: !!h.archived,
+          sortOrder: holdingsOrder.indexOf(h.symbol) + 1, // 0 = unordered
+          createdAt: row.createdAt,
+          updatedAt: row.updatedAt,
+        }).run();
+        for (const l of h.lots || []) {
+          tx.insert(lots).values({
+            id: l.id,
+            holdingId: hid,
+            side: l.side,
+            qty: l.qty,
+            price: l.price,
+            fee: l.fee || 0,
+            date: toDate(l.date),
+            matches: l.matches?.length ? l.matches : null,
+            symbol: l.symbol ?? null,
+            pending: !!l.pending,
+            createdAt: toDate(l.date),
+          }).run();
+        }
+        for (const e of h.income || []) {
+          tx.insert(incomeEvents).values({
+            id: e.id,
+            holdingId: hid,
+            kind: e.kind,
+            amount: e.amount,
+            withholding: e.withholding || 0,
+            lotId: e.lotId ?? null,
+            note: e.note ?? null,
+            date: toDate(e.date),
+            createdAt: toDate(e.date),
+          }).run();
+        }
+        for (const a of h.actions || []) {
+          tx.insert(corporateActions).values({
+            id: a.id,
+            holdingId: hid,
+            kind: a.kind,
+            symbol: a.symbol,
+            toSymbol: a.toSymbol ?? null,
+            ratio: a.ratio ?? null,
+            cashInLieu: a.cashInLieu ?? null,
+            note: a.note ?? null,
+            date: toDate(a.date),
+            createdAt: toDate(a.date),
+          }).run();
+        }
+      }
+
+      for (const symbol of Array.from(new Set(p.watchlist || []))) {
+        tx.insert(watchlist).values({ id: `${p.id}:${symbol}`, portfolioId: p.id, symbol, addedAt: new Date() }).run();
+      }
+
+      (p.cashEvents || []).forEach((e, i) => {
+        tx.insert(cashEvents).values({
+          id: `${p.id}:cash:${i}`,
+          portfolioId: p.id,
+          amount: e.amount,
+          date: toDate(e.date),
+          createdAt: toDate(e.date),
+        }).run();
+      });
+    }
+  });
+}
+
+/** Persists the portfolio list order; portfolios not in `order` (archived) get no position. */
+export async function savePortfolioOrder(order: string[]): Promise<void> {
+  db.transaction((tx) => {
+    tx.update(portfolios).set({ sortOrder: null }).where(isNotNull(portfolios.sortOrder)).run();
+    order.forEach((id, i) => {
+      tx.update(portfolios).set({ sortOrder: i }).where(eq(portfolios.id, id)).run();
+    });
+  });
+}
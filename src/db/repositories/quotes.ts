@@ -0,0 +1,52 @@
+/**
+ * Quotes repository
+ * The last good quote fetched for each symbol, kept so prices can still be shown
+ * (marked stale) when every live provider is failing.
+ */
+
+import { inArray } from 'drizzle-orm';
+import { db } from '../client';
+import { quotesCache } from '../schema';
+import type { Quote } from '../../features/invest/store/invest';
+
+export async function getCachedQuotes(symbols: string[]): Promise<Record<string, Quote>> {
+  if (symbols.length === 0) return {};
+  const rows = db.select().from(quotesCache).where(inArray(quotesCache.symbol, symbols)).all();
+  const out: Record<string, Quote> = {};
+  for (const r of rows) {
+    out[r.symbol] = {
+      symbol: r.symbol,
+      last: r.last,
+      change: r.change,
+      changePct: r.changePct,
+      ts: r.ts.getTime(),
+      line: (r.line as Quote['line']) || [],
+      bars: (r.bars as Quote['bars']) || undefined,
+      fundamentals: (r.fundamentals as Quote['fundamentals']) || undefined,
+    };
+  }
+  return out;
+}
+
+/** Inserts or replaces the given quotes in one transaction. */
+export async function saveCachedQuotes(list: Quote[]): Promise<void> {
+  if (list.length === 0) return;
+  const cachedAt = new Date();
+  db.transaction((tx) => {
+    for (const q of list) {
+      const row = {
+        symbol: q.symbol,
+        last: q.last,
+        change: q.change,
+        changePct: q.changePct,
+        ts: new Date(q.ts),
+        cachedAt,
+        line: q.line || [],
+        bars: q.bars || null,
+        fundamentals: q.fundamentals || null,
+      };
+      const { symbol, ...patch } = row;
+      tx.insert(quotesCache).values(row).onConflictDoUpdate({ target: quotesCache.symbol, set: patch }).run();
+    }
+  });
+}
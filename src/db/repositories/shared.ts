@@ -0,0 +1,32 @@
+/**
+ * Helpers shared by the repositories for mapping between store models
+ * (ISO strings, optional fields) and database rows (Dates, nulls).
+ */
+
+export function toDate(value?: string | number | Date | null): Date {
+  if (value instanceof Date) return value;
+  if (value === undefined || value === null || value === '') return new Date();
+  const d = new Date(value);
+  return Number.isNaN(d.getTime()) ? new Date() : d;
+}
+
+export function toOptionalDate(value?: string | number | null): Date | null {
+  return value === undefined || value === null || value === '' ? null : toDate(value);
+}
+
+export function toISO(value: Date | null | undefined): string | undefined {
+  return value ? value.toISOString() : undefined;
+}
+
+/** `undefined` for SQL NULL so optional model fields stay absent. */
+export function opt<T>(value: T | null | undefined): T | undefined {
+  return value === null ? undefined : value;
+}
+
+export type Page<T> = {
+  items: T[];
+  total: number;
+  offset: number;
+  limit: number;
+  hasMore: boolean;
+};
@@ -0,0 +1,227 @@
+/**
+ * Transactions repository
+ * Row-level writes plus indexed, paginated queries over the transactions table
+ */
+
+import { and, count, desc, eq, gte, inArray, isNull, like, lte, or, sql, type SQL } from 'drizzle-orm';
+import { db } from '../client';
+import { accounts, transactions, transactionTags, type NewTransaction, type Transaction as TxRow } from '../schema';
+import type { CategorySplit, Transaction, TxType } from '../../store/transactions';
+import { accountIdsByName } from './accounts';
+import { opt, toDate, type Page } from './shared';
+
+export type TxQuery = {
+  from?: string; // ISO, inclusive
+  to?: string;   // ISO, inclusive
+  type?: TxType;
+  category?: string; // matches split slices too
+  account?: string; // matches either side of a transfer
+  tag?: string;
+  tags?: string[]; // all of them
+  search?: string; // title, note, category or tag
+};
+
+/** One category's total in one currency on one day; see totalsByCategory. */
+export type CategoryTotal = {
+  category: string;
+  currency: string | null; // null is the profile currency
+  day: string; // YYYY-MM-DD (UTC), for dating the conversion
+  total: number;
+  count: number;
+};
+
+function toRow(t: Transaction, idsByName: Map<string, string>): NewTransaction {
+  const date = toDate(t.date);
+  return {
+    id: t.id,
+    type: t.type,
+    amount: Number(t.amount) || 0,
+    category: t.category || 'Other',
+    date,
+    note: t.note ?? null,
+    title: t.title ?? null,
+    accountId: (t.account && idsByName.get(t.account)) || null,
+    accountName: t.account ?? null,
+    toAccountId: (t.toAccount && idsByName.get(t.toAccount)) || null,
+    toAccountName: t.toAccount ?? null,
+    fee: t.fee ?? null,
+    fxRate: t.fxRate ?? null,
+    splits: t.splits && t.splits.length ? t.splits : null,
+    currency: t.currency ?? null,
+    accountAmount: t.accountAmount ?? null,
+    createdAt: date,
+    updatedAt: new Date(),
+  };
+}
+
+function fromRow(r: TxRow, tags?: string[]): Transaction {
+  const tx: Transaction = {
+    id: r.id,
+    type: r.type,
+    amount: r.amount,
+    category: r.category,
+    date: r.date.toISOString(),
+    note: opt(r.note),
+    title: opt(r.title),
+    account: opt(r.accountName),
+  };
+  if (r.toAccountName) tx.toAccount = r.toAccountName;
+  if (r.fee !== null) tx.fee = r.fee;
+  if (r.fxRate !== null) tx.fxRate = r.fxRate;
+  if (Array.isArray(r.splits) && r.splits.length) tx.splits = r.splits as CategorySplit[];
+  if (r.currency) tx.currency = r.currency;
+  if (r.accountAmount !== null) tx.accountAmount = r.accountAmount;
+  if (tags && tags.length) tx.tags = tags;
+  return tx;
+}
+
+function tagsFor(ids?: string[]): Map<string, string[]> {
+  const rows = ids
+    ? (ids.length ? db.select().from(transactionTags).where(inArray(transactionTags.transactionId, ids)).all() : [])
+    : db.select().from(transactionTags).all();
+  const out = new Map<string, string[]>();
+  for (const r of rows) {
+    const list = out.get(r.transactionId) || [];
+    list.push(r.tag);
+    out.set(r.transactionId, list);
+  }
+  return out;
+}
+
+function taggedWith(tag: SQL): SQL {
+  const tagged = db.select({ id: transactionTags.transactionId }).from(transactionTags).where(tag);
+  return inArray(transactions.id, tagged);
+}
+
+function whereFor(q: TxQuery): SQL | undefined {
+  const conds: SQL[] = [];
+  if (q.from) conds.push(gte(transactions.date, toDate(q.from)));
+  if (q.to) conds.push(lte(transactions.date, toDate(q.to)));
+  if (q.type) conds.push(eq(transactions.type, q.type));
+  if (q.category) {
+    // `category` only mirrors a split's largest slice, so look inside the slices as well
+    const inSplits = sql`exists (select 1 from json_each(${transactions.splits}) where json_extract(value, '$.category') = ${q.category})`;
+    conds.push(or(eq(transactions.category, q.category), and(sql`${transactions.splits} is not null`, inSplits))!);
+  }
+  if (q.account) {
+    conds.push(or(eq(transactions.accountName, q.account), eq(transactions.toAccountName, q.account))!);
+  }
+  for (const tag of [q.tag, ...(q.tags || [])]) {
+    if (tag) conds.push(taggedWith(eq(transactionTags.tag, tag.toLowerCase())));
+  }
+  if (q.search && q.search.trim()) {
+    const text = q.search.trim();
+    const needle = `%${text}%`;
+    const tagNeedle = `%${text.replace(/^#/, '').toLowerCase()}%`;
+    conds.push(or(
+      like(transactions.title, needle),
+      like(transactions.note, needle),
+      like(transactions.category, needle),
+      taggedWith(like(transactionTags.tag, tagNeedle)),
+    )!);
+  }
+  return conds.length ? and(...conds) : undefined;
+}
+
+/** Every transaction, newest first. Used to hydrate the in-memory store. */
+export async function listTransactions(): Promise<Transaction[]> {
+  const rows = db.select().from(transactions).orderBy(desc(transactions.date), desc(transactions.updatedAt)).all();
+  const tags = tagsFor();
+  return rows.map(r => fromRow(r, tags.get(r.id)));
+}
+
+/** One page of transactions matching `query`, newest first. */
+export async function queryTransactions(query: TxQuery, page: { offset?: number; limit?: number } = {}): Promise<Page<Transaction>> {
+  const offset = Math.max(0, page.offset ?? 0);
+  const limit = Math.max(1, page.limit ?? 50);
+  const where = whereFor(query);
+  const rows = db.select().from(transactions).where(where)
+    .orderBy(desc(transactions.date), desc(transactions.updatedAt))
+    .limit(limit).offset(offset).all();
+  const total = db.select({ n: count() }).from(transactions).where(where).get()?.n ?? 0;
+  const tags = tagsFor(rows.map(r => r.id));
+  return {
+    items: rows.map(r => fromRow(r, tags.get(r.id))),
+    total,
+    offset,
+    limit,
+    hasMore: offset + rows.length < total,
+  };
+}
+
+/**
+ * Totals per category for the matching transactions, by the currency the
+ * amounts are in and the day they fell on, so callers can convert at dated
+ * rates. Amounts are what the account was charged where that's recorded,
+ * else what was entered. Unsplit rows are summed in SQL; split rows are few,
+ * so their slices are added in JS.
+ */
+export async function totalsByCategory(query: TxQuery): Promise<CategoryTotal[]> {
+  const where = whereFor(query);
+  // Account-currency amounts are in the account's currency; entered ones default to it
+  const currency = sql<string | null>`case when ${transactions.accountAmount} is not null then ${accounts.currency} else coalesce(${transactions.currency}, ${accounts.currency}) end`;
+  const day = sql<string>`strftime('%Y-%m-%d', ${transactions.date}, 'unixepoch')`;
+  const grouped = db.select({
+    category: transactions.category,
+    currency,
+    day,
+    total: sql<number>`sum(abs(coalesce(${transactions.accountAmount}, ${transactions.amount})))`,
+    n: count(),
+  }).from(transactions)
+    .leftJoin(accounts, eq(accounts.name, transactions.accountName))
+    .where(and(where, isNull(transactions.splits)))
+    .groupBy(transactions.category, currency, day)
+    .all();
+
+  const totals = new Map<string, CategoryTotal>();
+  const addTo = (category: string, currency: string | null, day: string, total: number, n: number) => {
+    const key = `${category}|${currency ?? ''}|${day}`;
+    const cur = totals.get(key) || { category, currency, day, total: 0, count: 0 };
+    totals.set(key, { ...cur, total: cur.total + total, count: cur.count + n });
+  };
+  for (const g of grouped) addTo(g.category, g.currency ?? null, g.day, Number(g.total) || 0, g.n);
+
+  const splitRows = db.select({ tx: transactions, accountCurrency: accounts.currency }).from(transactions)
+    .leftJoin(accounts, eq(accounts.name, transactions.accountName))
+    .where(and(where, sql`${transactions.splits} is not null`))
+    .all();
+  for (const { tx: r, accountCurrency } of splitRows) {
+    const amount = Math.abs(r.amount) || 1;
+    const scale = r.accountAmount !== null ? Math.abs(r.accountAmount) / amount : 1;
+    const rowCurrency = r.accountAmount !== null ? accountCurrency : (r.currency ?? accountCurrency);
+    const rowDay = r.date.toISOString().slice(0, 10);
+    for (const s of (r.splits as CategorySplit[]) || []) {
+      // A category filter matched the row; only that category's slices count
+      if (query.category && s.category !== query.category) continue;
+      addTo(s.category, rowCurrency ?? null, rowDay, Math.abs(Number(s.amount) || 0) * scale, 1);
+    }
+  }
+
+  return Array.from(totals.values());
+}
+
+/** Inserts or replaces the given transactions (and their tags) in one transaction. */
+export async function upsertTransactions(list: Transaction[]): Promise<void> {
+  if (list.length === 0) return;
+  const idsByName = accountIdsByName();
+  db.transaction((tx) => {
+    for (const t of list) {
+      const row = toRow(t, idsByName);
+      const { id, createdAt, ...patch } = row;
+      tx.insert(transactions).values(row).onConflictDoUpdate({ target: transactions.id, set: patch }).run();
+      tx.delete(transactionTags).where(eq(transactionTags.transactionId, t.id)).run();
+      for (const tag of t.tags || []) {
+        tx.insert(transactionTags).values({ transactionId: t.id, tag, createdAt: row.date as Date }).onConflictDoNothing().run();
+      }
+    }
+  });
+}
+
+export async function deleteTransactions(ids: string[]): Promise<void> {
+  if (ids.length === 0) return;
+  db.delete(transactions).where(inArray(transactions.id, ids)).run();
+}
+
+export async function deleteAllTransactions(): Promise<void> {
+  db.delete(transactions).run();
+}
@@ -31,6 +31,7 @@ export const accounts = sqliteTable('accounts', {
   apr: real('apr'), // Annual Percentage Rate
   creditLimit: real('credit_limit'),
   minPaymentPercent: real('min_payment_percent'),
+  currency: text('currency'), // ISO code; null means the profile currency
   lastSyncedAt: integer('last_synced_at', { mode: 'timestamp' }), // NEW: track when balance was last updated
   createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
   updatedAt: integer('updated_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
@@ -47,13 +48,21 @@ export type NewAccount = typeof accounts.$inferInsert;
 // ============================================================================
 export const transactions = sqliteTable('transactions', {
   id: text('id').primaryKey(),
-  type: text('type', { enum: ['expense', 'income'] }).notNull(),
+  type: text('type', { enum: ['expense', 'income', 'transfer'] }).notNull(),
   amount: real('amount').notNull(),
   category: text('category').notNull(),
   date: integer('date', { mode: 'timestamp' }).notNull(),
   note: text('note'),
   title: text('title'),
   accountId: text('account_id').references(() => accounts.id, { onDelete: 'set null' }), // FK constraint
+  accountName: text('account_name'), // Account name as recorded (the app keys accounts by name)
+  toAccountId: text('to_account_id').references(() => accounts.id, { onDelete: 'set null' }), // Transfers only
+  toAccountName: text('to_account_name'),
+  fee: real('fee'), // Transfer fee charged to the source account
+  fxRate: real('fx_rate'), // Destination units per source unit (transfers only)
+  splits: text('splits', { mode: 'json' }), // Array<{ amount, category, note? }>
+  currency: text('currency'), // Currency the transaction was made in, if not the account's
+  accountAmount: real('account_amount'), // Amount charged in the account's currency
   createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
   updatedAt: integer('updated_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
 }, (table) => ({
@@ -61,6 +70,7 @@ export const transactions = sqliteTable('transactions', {
   categoryIdx: index('transactions_category_idx').on(table.category),
   typeIdx: index('transactions_type_idx').on(table.type),
   accountIdx: index('transactions_account_idx').on(table.accountId),
+  accountNameIdx: index('transactions_account_name_idx').on(table.accountName),
   // Composite index for common queries: filter by date + category
   dateCategoryIdx: index('transactions_date_category_idx').on(table.date, table.category),
 }));
@@ -75,6 +85,29 @@ export const transactionsRelations = relations(transactions, ({ one, many }) =>
     references: [accounts.id],
   }),
   goalLinks: many(goalTransactionLinks),
+  tags: many(transactionTags),
+}));
+
+// ============================================================================
+// TRANSACTION TAGS (join table)
+// ============================================================================
+export const transactionTags = sqliteTable('transaction_tags', {
+  transactionId: text('transaction_id').notNull().references(() => transactions.id, { onDelete: 'cascade' }),
+  tag: text('tag').notNull(), // stored lowercase
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+}, (table) => ({
+  pk: primaryKey({ columns: [table.transactionId, table.tag] }),
+  tagIdx: index('transaction_tags_tag_idx').on(table.tag),
+}));
+
+export type TransactionTag = typeof transactionTags.$inferSelect;
+export type NewTransactionTag = typeof transactionTags.$inferInsert;
+
+export const transactionTagsRelations = relations(transactionTags, ({ one }) => ({
+  transaction: one(transactions, {
+    fields: [transactionTags.transactionId],
+    references: [transactions.id],
+  }),
 }));
 
 // ============================================================================
@@ -89,6 +122,9 @@ export const portfolios = sqliteTable('portfolios', {
   cash: real('cash').notNull().default(0),
   archived: integer('archived', { mode: 'boolean' }).default(false),
   trackingEnabled: integer('tracking_enabled', { mode: 'boolean' }).default(true),
+  sortOrder: integer('sort_order'), // Position in the portfolio list; null when archived
+  costMethod: text('cost_method', { enum: ['fifo', 'lifo', 'hifo', 'average', 'specific'] }), // null = average
+  targets: text('targets', { mode: 'json' }).$type<{ basis: 'holding' | 'type' | 'sector'; weights: Record<string, number>; band?: number }>(), // Target allocation, null = none
   createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
   updatedAt: integer('updated_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
 }, (table) => ({
@@ -109,6 +145,7 @@ export const holdings = sqliteTable('holdings', {
   name: text('name').notNull(),
   type: text('type', { enum: ['stock', 'bond', 'crypto', 'fund', 'etf'] }).notNull(),
   currency: text('currency').notNull(), // Explicit currency (no inference)
+  lotSize: real('lot_size'), // Trading unit, e.g. 100 for an SGX board lot; null = default for the type
   archived: integer('archived', { mode: 'boolean' }).default(false),
   sortOrder: integer('sort_order').default(0), // For custom ordering
   createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
@@ -134,6 +171,9 @@ export const lots = sqliteTable('lots', {
   price: real('price').notNull(), // Price in holding's native currency
   fee: real('fee').default(0),
   date: integer('date', { mode: 'timestamp' }).notNull(),
+  matches: text('matches', { mode: 'json' }).$type<Array<{ lotId: string; qty: number }>>(), // Sells only: buy lots picked under specific-lot identification
+  symbol: text('symbol'), // Ticker the lot was traded under, once its holding has been renamed or merged
+  pending: integer('pending', { mode: 'boolean' }).default(false), // Proposed (e.g. by a rebalance) but not yet traded
   createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
 }, (table) => ({
   holdingIdx: index('lots_holding_idx').on(table.holdingId),
@@ -145,6 +185,48 @@ export const lots = sqliteTable('lots', {
 export type Lot = typeof lots.$inferSelect;
 export type NewLot = typeof lots.$inferInsert;
 
+// ============================================================================
+// INCOME EVENTS TABLE (Dividends, interest, distributions)
+// ============================================================================
+export const incomeEvents = sqliteTable('income_events', {
+  id: text('id').primaryKey(),
+  holdingId: text('holding_id').notNull().references(() => holdings.id, { onDelete: 'cascade' }),
+  kind: text('kind', { enum: ['dividend', 'interest', 'distribution'] }).notNull(),
+  amount: real('amount').notNull(), // Gross, in holding's native currency
+  withholding: real('withholding').default(0), // Tax withheld at source
+  lotId: text('lot_id'), // Buy lot created when the income was reinvested (DRIP)
+  note: text('note'),
+  date: integer('date', { mode: 'timestamp' }).notNull(),
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+}, (table) => ({
+  holdingIdx: index('income_events_holding_idx').on(table.holdingId),
+  dateIdx: index('income_events_date_idx').on(table.date),
+}));
+
+export type IncomeEventRow = typeof incomeEvents.$inferSelect;
+export type NewIncomeEventRow = typeof incomeEvents.$inferInsert;
+
+// ============================================================================
+// CORPORATE ACTIONS TABLE (Splits, ticker changes, mergers)
+// ============================================================================
+export const corporateActions = sqliteTable('corporate_actions', {
+  id: text('id').primaryKey(),
+  holdingId: text('holding_id').notNull().references(() => holdings.id, { onDelete: 'cascade' }),
+  kind: text('kind', { enum: ['split', 'rename', 'merger'] }).notNull(),
+  symbol: text('symbol').notNull(), // Ticker the action applied to
+  toSymbol: text('to_symbol'), // Renames and mergers: the ticker the shares became
+  ratio: real('ratio'), // New shares per old share
+  cashInLieu: real('cash_in_lieu'), // Cash paid for the fractional share left over
+  note: text('note'),
+  date: integer('date', { mode: 'timestamp' }).notNull(),
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+}, (table) => ({
+  holdingIdx: index('corporate_actions_holding_idx').on(table.holdingId),
+}));
+
+export type CorporateActionRow = typeof corporateActions.$inferSelect;
+export type NewCorporateActionRow = typeof corporateActions.$inferInsert;
+
 // Relations
 export const holdingsRelations = relations(holdings, ({ one, many }) => ({
   portfolio: one(portfolios, {
@@ -324,6 +406,9 @@ export const groups = sqliteTable('groups', {
   id: text('id').primaryKey(),
   name: text('name').notNull(),
   note: text('note'),
+  currency: text('currency'),
+  trackSpending: integer('track_spending', { mode: 'boolean' }).default(false),
+  sync: text('sync', { mode: 'json' }).$type<{ code: string; device: string; records: Record<string, { hash: string; vv: Record<string, number> }>; syncedAt?: number }>(), // Ledger-sync state on this phone, null = never shared
   createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
   updatedAt: integer('updated_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
 }, (table) => ({
@@ -342,6 +427,7 @@ export const groupMembers = sqliteTable('group_members', {
   name: text('name').notNull(),
   contact: text('contact'),
   archived: integer('archived', { mode: 'boolean' }).default(false),
+  skipSettling: integer('skip_settling', { mode: 'boolean' }).default(false),
   createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
 }, (table) => ({
   groupIdx: index('group_members_group_idx').on(table.groupId),
@@ -366,6 +452,12 @@ export const bills = sqliteTable('bills', {
   finalAmount: real('final_amount').notNull(), // Calculated: amount + tax - discount
   splitMode: text('split_mode', { enum: ['equal', 'shares', 'exact'] }).notNull(),
   proportionalTax: integer('proportional_tax', { mode: 'boolean' }).default(false),
+  currency: text('currency'), // ISO code the amounts are in, null = the group's currency
+  rate: real('rate'), // Group currency per unit of `currency`
+  items: text('items', { mode: 'json' }).$type<Array<{ id: string; name: string; price: number; quantity: number; sharedBy: string[] }>>(), // Line items of an itemised bill, null = split on the total
+  category: text('category'), // Transaction category for the payer's expense
+  paidFromAccountId: text('paid_from_account_id'),
+  transactionId: text('transaction_id'), // Linked expense transaction, if any
   date: integer('date', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
   createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
 }, (table) => ({
@@ -422,8 +514,12 @@ export const settlements = sqliteTable('settlements', {
   fromMemberId: text('from_member_id').notNull().references(() => groupMembers.id, { onDelete: 'cascade' }),
   toMemberId: text('to_member_id').notNull().references(() => groupMembers.id, { onDelete: 'cascade' }),
   amount: real('amount').notNull(),
+  currency: text('currency'), // ISO code of `amount`, null = the group's currency
+  rate: real('rate'), // Group currency per unit of `currency`
   billId: text('bill_id').references(() => bills.id, { onDelete: 'set null' }), // Optional: link to specific bill
   memo: text('memo'),
+  toAccountId: text('to_account_id'), // Account that received the payment, if the current user did
+  transactionId: text('transaction_id'), // Linked income transaction, if any
   date: integer('date', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
   createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
 }, (table) => ({
@@ -436,11 +532,42 @@ export const settlements = sqliteTable('settlements', {
 export type Settlement = typeof settlements.$inferSelect;
 export type NewSettlement = typeof settlements.$inferInsert;
 
+// ============================================================================
+// GROUP RECURRING BILLS TABLE (Templates that generate bills on their due dates)
+// ============================================================================
+export const groupRecurringBills = sqliteTable('group_recurring_bills', {
+  id: text('id').primaryKey(),
+  groupId: text('group_id').notNull().references(() => groups.id, { onDelete: 'cascade' }),
+  title: text('title').notNull(),
+  amount: real('amount').notNull(), // Per occurrence, in `currency`
+  currency: text('currency'), // null = the group's currency
+  freq: text('freq', { enum: ['weekly', 'biweekly', 'monthly'] }).notNull(),
+  anchor: integer('anchor', { mode: 'timestamp' }).notNull(), // First due date
+  nextDue: integer('next_due', { mode: 'timestamp' }).notNull(), // Next bill to generate
+  splitMode: text('split_mode', { enum: ['equal', 'exact'] }).notNull(),
+  participants: text('participants', { mode: 'json' }).notNull().$type<string[]>(),
+  exacts: text('exacts', { mode: 'json' }).$type<Record<string, number>>(),
+  payers: text('payers', { mode: 'json' }).notNull().$type<string[]>(),
+  rotate: integer('rotate', { mode: 'boolean' }).default(false),
+  rotationIndex: integer('rotation_index').notNull().default(0), // Position in `payers` of the next payer
+  category: text('category'),
+  paidFromAccountId: text('paid_from_account_id'), // Books the user's expense when they pay
+  active: integer('active', { mode: 'boolean' }).default(true),
+  lastBillId: text('last_bill_id'),
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+}, (table) => ({
+  groupIdx: index('group_recurring_bills_group_idx').on(table.groupId),
+}));
+
+export type GroupRecurringBill = typeof groupRecurringBills.$inferSelect;
+export type NewGroupRecurringBill = typeof groupRecurringBills.$inferInsert;
+
 // Relations
 export const groupsRelations = relations(groups, ({ many }) => ({
   members: many(groupMembers),
   bills: many(bills),
   settlements: many(settlements),
+  recurringBills: many(groupRecurringBills),
 }));
 
 export const groupMembersRelations = relations(groupMembers, ({ one, many }) => ({
@@ -542,6 +669,18 @@ export const fxRatesCache = sqliteTable('fx_rates_cache', {
 export type FxRateCache = typeof fxRatesCache.$inferSelect;
 export type NewFxRateCache = typeof fxRatesCache.$inferInsert;
 
+// Daily USD-based rates (1 USD = rate CCY) for converting dated transactions
+export const fxRatesHistory = sqliteTable('fx_rates_history', {
+  date: text('date').notNull(), // YYYY-MM-DD
+  currency: text('currency').notNull(),
+  rate: real('rate').notNull(),
+}, (table) => ({
+  pk: primaryKey({ columns: [table.date, table.currency] }),
+}));
+
+export type FxRateHistory = typeof fxRatesHistory.$inferSelect;
+export type NewFxRateHistory = typeof fxRatesHistory.$inferInsert;
+
 // ============================================================================
 // DEBTS TABLE (Standalone debts - NO CREDIT CARDS HERE!)
 // ============================================================================
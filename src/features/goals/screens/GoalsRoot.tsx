@@ -15,6 +15,7 @@ import { useAccountsStore } from '../../../store/accounts';
 import { useInvestStore } from '../../../features/invest';
 import { useTxStore } from '../../../store/transactions';
 import { formatCurrency } from '../../../lib/format';
+import { adjustedLots } from '../../../lib/corporateActions';
 import Svg, { Circle, G } from 'react-native-svg';
 import { useStreaksStore, getStreakMessage, getNextMilestone } from '../../../store/streaks';
 import { WealthJourneySheet } from '../../../components/WealthJourneySheet';
@@ -160,7 +161,7 @@ const GoalsRoot: React.FC = () => {
   const totalInvestments = useMemo(() => {
     let total = 0;
     Object.values(holdings || {}).forEach((h: any) => {
-      const qty = (h?.lots || []).reduce((s: number, l: any) => s + (l.side === 'buy' ? l.qty : -l.qty), 0);
+      const qty = adjustedLots(h).reduce((s: number, l: any) => s + (l.side === 'buy' ? l.qty : -l.qty), 0);
       if (qty > 0) {
         const q = quotes[h.symbol];
         const last = Number(q?.last || 0);
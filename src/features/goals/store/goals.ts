@@ -1,6 +1,15 @@
 
 import { create } from 'zustand';
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import { ensureDatabase } from '../../../db/bootstrap';
+import {
+  listGoals,
+  saveGoal,
+  deleteGoal,
+  listAchievements,
+  insertAchievement,
+  getProgress,
+  saveProgress,
+} from '../../../db/repositories/goals';
 
 export type GoalType = 'milestone' | 'networth';
 
@@ -53,9 +62,11 @@ type State = {
   addXP: (amount: number) => Promise<void>;
 };
 
-const KEY = 'fingrow.goals.v1';
-const ACHIEVEMENTS_KEY = 'fingrow.goals.achievements.v1';
-const PROGRESS_KEY = 'fingrow.goals.progress.v1';
+// Writes the goal with `id` from the given list (no-op if it's gone)
+async function persistGoal(arr: Goal[], id: string) {
+  const goal = arr.find(g => g.id === id);
+  if (goal) await saveGoal(goal);
+}
 
 function uid() {
   return Math.random().toString(36).slice(2) + Date.now().toString(36);
@@ -74,16 +85,14 @@ export const useGoalsStore = create<State>((set, get) => ({
   ready: false,
   hydrate: async () => {
     try {
-      const raw = await AsyncStorage.getItem(KEY);
-      const achievementsRaw = await AsyncStorage.getItem(ACHIEVEMENTS_KEY);
-      const progressRaw = await AsyncStorage.getItem(PROGRESS_KEY);
-
-      const goals = raw ? (JSON.parse(raw) as Goal[]) : [];
-      const achievements = achievementsRaw ? (JSON.parse(achievementsRaw) as Achievement[]) : [];
-      const progress = progressRaw ? JSON.parse(progressRaw) : { level: 1, xp: 0 };
+      await ensureDatabase();
+      const goals = await listGoals();
+      const achievements = await listAchievements();
+      const progress = await getProgress();
 
       set({ goals, achievements, level: progress.level, xp: progress.xp, ready: true });
-    } catch {
+    } catch (e) {
+      console.error('[goals] Failed to load:', e);
       set({ ready: true });
     }
   },
@@ -104,7 +113,7 @@ export const useGoalsStore = create<State>((set, get) => ({
     };
     const arr = [goal, ...(get().goals || [])];
     set({ goals: arr });
-    await AsyncStorage.setItem(KEY, JSON.stringify(arr));
+    await saveGoal(goal);
 
     // Check for first goal achievement
     if (arr.length === 1) {
@@ -130,7 +139,7 @@ export const useGoalsStore = create<State>((set, get) => ({
       return { ...g, currentAmount: (g.currentAmount || 0) + amt, updatedAt: now, history: hist };
     });
     set({ goals: arr });
-    await AsyncStorage.setItem(KEY, JSON.stringify(arr));
+    await persistGoal(arr, id);
 
     // Award XP for contributing
     await get().addXP(5);
@@ -142,25 +151,24 @@ export const useGoalsStore = create<State>((set, get) => ({
     }
   },
   removeGoal: async (id) => {
-    const arr = (get().goals || []).filter(g => g.id !== id);
-    set({ goals: arr });
-    await AsyncStorage.setItem(KEY, JSON.stringify(arr));
+    set({ goals: (get().goals || []).filter(g => g.id !== id) });
+    await deleteGoal(id);
   },
   setRoundUps: async (id, enabled) => {
     const arr = (get().goals || []).map(g => (g.id === id ? { ...g, roundUps: enabled, updatedAt: new Date().toISOString() } : g));
     set({ goals: arr });
-    await AsyncStorage.setItem(KEY, JSON.stringify(arr));
+    await persistGoal(arr, id);
   },
   setAutoSave: async (id, cadence, amount) => {
     const arr = (get().goals || []).map(g => (g.id === id ? { ...g, autoSave: { cadence, amount }, updatedAt: new Date().toISOString() } : g));
     set({ goals: arr });
-    await AsyncStorage.setItem(KEY, JSON.stringify(arr));
+    await persistGoal(arr, id);
   },
   completeGoal: async (id) => {
     const now = new Date().toISOString();
     const arr = (get().goals || []).map(g => (g.id === id ? { ...g, completedAt: now, updatedAt: now } : g));
     set({ goals: arr });
-    await AsyncStorage.setItem(KEY, JSON.stringify(arr));
+    await persistGoal(arr, id);
 
     // Unlock achievement for completing first goal
     const completedCount = arr.filter(g => g.completedAt).length;
@@ -187,7 +195,7 @@ export const useGoalsStore = create<State>((set, get) => ({
   pinGoal: async (id, pinned) => {
     const arr = (get().goals || []).map(g => (g.id === id ? { ...g, isPinned: pinned, updatedAt: new Date().toISOString() } : g));
     set({ goals: arr });
-    await AsyncStorage.setItem(KEY, JSON.stringify(arr));
+    await persistGoal(arr, id);
   },
   linkTransaction: async (goalId, transactionId) => {
     const arr = (get().goals || []).map(g => {
@@ -197,7 +205,7 @@ export const useGoalsStore = create<State>((set, get) => ({
       return { ...g, linkedTransactions: [...linked, transactionId], updatedAt: new Date().toISOString() };
     });
     set({ goals: arr });
-    await AsyncStorage.setItem(KEY, JSON.stringify(arr));
+    await persistGoal(arr, goalId);
   },
   unlinkTransaction: async (goalId, transactionId) => {
     const arr = (get().goals || []).map(g => {
@@ -206,12 +214,12 @@ export const useGoalsStore = create<State>((set, get) => ({
       return { ...g, linkedTransactions: linked, updatedAt: new Date().toISOString() };
     });
     set({ goals: arr });
-    await AsyncStorage.setItem(KEY, JSON.stringify(arr));
+    await persistGoal(arr, goalId);
   },
   updateGoal: async (id, patch) => {
     const arr = (get().goals || []).map(g => (g.id === id ? { ...g, ...patch, updatedAt: new Date().toISOString() } : g));
     set({ goals: arr });
-    await AsyncStorage.setItem(KEY, JSON.stringify(arr));
+    await persistGoal(arr, id);
   },
   unlockAchievement: async (type, title, description, icon) => {
     const existing = get().achievements.find(a => a.type === type);
@@ -228,7 +236,7 @@ export const useGoalsStore = create<State>((set, get) => ({
 
     const achievements = [...get().achievements, achievement];
     set({ achievements });
-    await AsyncStorage.setItem(ACHIEVEMENTS_KEY, JSON.stringify(achievements));
+    await insertAchievement(achievement);
 
     // Award XP for unlocking achievement
     await get().addXP(50);
@@ -254,6 +262,6 @@ export const useGoalsStore = create<State>((set, get) => ({
     }
 
     set({ xp, level });
-    await AsyncStorage.setItem(PROGRESS_KEY, JSON.stringify({ level, xp }));
+    await saveProgress(level, xp);
   },
 }));
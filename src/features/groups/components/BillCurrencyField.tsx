@@ -0,0 +1,105 @@
+import React from 'react';
+import { View, Text, TextInput, Pressable, ScrollView } from 'react-native';
+import { spacing, radius } from '../../../theme/tokens';
+import { useThemeTokens } from '../../../theme/ThemeProvider';
+import { currencies } from '../../../lib/currencies';
+import { findExchangeRate } from '../../../lib/fx';
+
+type Props = {
+  /** The group's base currency, listed first. */
+  baseCurrency: string;
+  currency: string;
+  onCurrencyChange: (code: string) => void;
+  /** Base currency per unit of `currency`, as typed. */
+  rate: string;
+  onRateChange: (rate: string) => void;
+};
+
+/** Which currency a bill was paid in and its rate to the group's currency, prefilled from today's rates. */
+export default function BillCurrencyField({ baseCurrency, currency, onCurrencyChange, rate, onRateChange }: Props) {
+  const { get } = useThemeTokens();
+  const [loading, setLoading] = React.useState(false);
+
+  const textPrimary = get('text.primary') as string;
+  const textMuted = get('text.muted') as string;
+  const accentPrimary = get('accent.primary') as string;
+  const surface1 = get('surface.level1') as string;
+  const surface2 = get('surface.level2') as string;
+  const borderSubtle = get('border.subtle') as string;
+
+  const codes = React.useMemo(() => {
+    const list = [baseCurrency, ...currencies.map(c => c.code).filter(c => c !== baseCurrency)];
+    // Keep a currency that isn't in the list (e.g. from an older bill) selectable
+    return list.includes(currency) ? list : [baseCurrency, currency, ...list.slice(1)];
+  }, [baseCurrency, currency]);
+
+  const select = async (code: string) => {
+    onCurrencyChange(code);
+    if (code === baseCurrency) { onRateChange(''); return; }
+    setLoading(true);
+    try {
+      const r = await findExchangeRate(code, baseCurrency);
+      // Left blank when there's no rate, so it has to be entered
+      onRateChange(r ? String(Number(r.toFixed(6))) : '');
+    } catch {
+      onRateChange('');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <View style={{ backgroundColor: surface1, borderRadius: radius.lg, padding: spacing.s12, gap: spacing.s10 }}>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={{ gap: spacing.s6 }}>
+        {codes.map(code => {
+          const on = code === currency;
+          return (
+            <Pressable
+              key={code}
+              onPress={() => select(code)}
+              style={{
+                paddingHorizontal: spacing.s12,
+                paddingVertical: spacing.s6,
+                borderRadius: radius.pill,
+                borderWidth: 1,
+                borderColor: on ? accentPrimary : borderSubtle,
+              }}
+            >
+              <Text style={{ color: on ? accentPrimary : textMuted, fontSize: 13, fontWeight: '700' }}>{code}</Text>
+            </Pressable>
+          );
+        })}
+      </ScrollView>
+
+      {currency !== baseCurrency && (
+        <View style={{ flexDirection: 'row', alignItems: 'center', gap: spacing.s8 }}>
+          <Text style={{ color: textPrimary, fontSize: 15, fontWeight: '600', flex: 1 }}>1 {currency} =</Text>
+          <TextInput
+            value={rate}
+            onChangeText={t => onRateChange(t.replace(/[^0-9.]/g, ''))}
+            placeholder={loading ? '…' : '0.00'}
+            placeholderTextColor={textMuted}
+            keyboardType="decimal-pad"
+            style={{
+              width: 100,
+              textAlign: 'right',
+              color: textPrimary,
+              fontWeight: '700',
+              fontSize: 16,
+              backgroundColor: surface2,
+              paddingHorizontal: spacing.s10,
+              paddingVertical: spacing.s6,
+              borderRadius: radius.md,
+            }}
+          />
+          <Text style={{ color: textMuted, fontSize: 15, fontWeight: '600' }}>{baseCurrency}</Text>
+        </View>
+      )}
+      {currency !== baseCurrency && (
+        <Text style={{ color: textMuted, fontSize: 12 }}>
+          Balances are kept in {baseCurrency} at this rate. Edit it to match what your card charged.
+        </Text>
+      )}
+    </View>
+  );
+}
@@ -0,0 +1,63 @@
+import React from 'react';
+import { View, Text } from 'react-native';
+import { spacing, radius } from '../../../theme/tokens';
+import { useThemeTokens } from '../../../theme/ThemeProvider';
+import { formatCurrency, round2 } from '../../../lib/format';
+import type { BillItem, ID, Member } from '../../../types/groups';
+import { itemBreakdown } from '../utils/billItems';
+
+type Props = {
+  items: BillItem[];
+  members: Member[];
+  /** Each member's final share; otherwise their item subtotal times `scale` (final amount over subtotal). */
+  totals?: Record<ID, number>;
+  scale?: number;
+  currency?: string;
+};
+
+/** Who had what on an itemised bill, with each person's share after tax, service and discount. */
+export default function BillItemsBreakdown({ items, members, totals, scale = 1, currency }: Props) {
+  const { get } = useThemeTokens();
+  const rows = React.useMemo(() => itemBreakdown(items), [items]);
+
+  const textPrimary = get('text.primary') as string;
+  const textMuted = get('text.muted') as string;
+  const surface1 = get('surface.level1') as string;
+  const borderSubtle = get('border.subtle') as string;
+
+  const nameOf = (id: ID) => members.find(m => m.id === id)?.name || 'Former member';
+
+  if (rows.length === 0) return null;
+
+  return (
+    <View style={{ backgroundColor: surface1, borderRadius: radius.lg, overflow: 'hidden' }}>
+      {rows.map((r, i) => {
+        const total = totals?.[r.memberId] ?? round2(r.subtotal * scale);
+        return (
+          <View key={r.memberId} style={{ padding: spacing.s12, gap: spacing.s4, borderTopWidth: i ? 1 : 0, borderTopColor: borderSubtle }}>
+            <View style={{ flexDirection: 'row', justifyContent: 'space-between' }}>
+              <Text style={{ color: textPrimary, fontWeight: '700', fontSize: 15 }}>{nameOf(r.memberId)}</Text>
+              <Text style={{ color: textPrimary, fontWeight: '700', fontSize: 15 }}>{formatCurrency(total, currency)}</Text>
+            </View>
+            {r.lines.map(l => (
+              <View key={l.itemId} style={{ flexDirection: 'row', justifyContent: 'space-between', gap: spacing.s8 }}>
+                <Text style={{ color: textMuted, fontSize: 13, flex: 1 }} numberOfLines={1}>
+                  {l.quantity !== 1 ? `${l.quantity} × ` : ''}{l.name}{l.sharedWith > 1 ? ` · shared by ${l.sharedWith}` : ''}
+                </Text>
+                <Text style={{ color: textMuted, fontSize: 13 }}>{formatCurrency(l.share, currency)}</Text>
+              </View>
+            ))}
+            {Math.abs(total - r.subtotal) >= 0.01 ? (
+              <View style={{ flexDirection: 'row', justifyContent: 'space-between' }}>
+                <Text style={{ color: textMuted, fontSize: 12 }}>{total > r.subtotal ? 'Tax & fees' : 'Discount, after tax & fees'}</Text>
+                <Text style={{ color: textMuted, fontSize: 12 }}>
+                  {total > r.subtotal ? '+' : '−'}{formatCurrency(Math.abs(total - r.subtotal), currency)}
+                </Text>
+              </View>
+            ) : null}
+          </View>
+        );
+      })}
+    </View>
+  );
+}
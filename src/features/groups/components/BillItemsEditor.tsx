@@ -0,0 +1,156 @@
+import React from 'react';
+import { View, Text, TextInput, Pressable } from 'react-native';
+import Icon from '../../../components/Icon';
+import { spacing, radius } from '../../../theme/tokens';
+import { useThemeTokens } from '../../../theme/ThemeProvider';
+import { formatCurrency, round2 } from '../../../lib/format';
+import type { BillItem, ID, Member } from '../../../types/groups';
+
+/** An item being edited; price and quantity stay as typed until saved. */
+export type DraftItem = { id: ID; name: string; price: string; quantity: string; sharedBy: ID[] };
+
+const newId = () => Math.random().toString(36).slice(2);
+
+export const emptyDraftItem = (sharedBy: ID[] = []): DraftItem => ({ id: newId(), name: '', price: '', quantity: '1', sharedBy });
+
+export function toDraftItems(items: BillItem[]): DraftItem[] {
+  return items.map(i => ({ id: i.id, name: i.name, price: String(i.price), quantity: String(i.quantity), sharedBy: [...i.sharedBy] }));
+}
+
+export function fromDraftItems(drafts: DraftItem[]): BillItem[] {
+  return drafts.map(d => ({ id: d.id, name: d.name, price: Number(d.price) || 0, quantity: Number(d.quantity) || 0, sharedBy: d.sharedBy }));
+}
+
+type Props = {
+  items: DraftItem[];
+  onChange: (items: DraftItem[]) => void;
+  members: Member[];
+  currency?: string;
+};
+
+/** Line items with who shared each one, for itemised bills. */
+export default function BillItemsEditor({ items, onChange, members, currency }: Props) {
+  const { get } = useThemeTokens();
+
+  const textPrimary = get('text.primary') as string;
+  const textMuted = get('text.muted') as string;
+  const accentPrimary = get('accent.primary') as string;
+  const surface1 = get('surface.level1') as string;
+  const surface2 = get('surface.level2') as string;
+  const borderSubtle = get('border.subtle') as string;
+  const warningColor = get('semantic.warning') as string;
+
+  const patch = (id: ID, p: Partial<DraftItem>) => onChange(items.map(i => (i.id === id ? { ...i, ...p } : i)));
+  const toggle = (item: DraftItem, memberId: ID) =>
+    patch(item.id, { sharedBy: item.sharedBy.includes(memberId) ? item.sharedBy.filter(x => x !== memberId) : [...item.sharedBy, memberId] });
+
+  const lineTotal = (i: DraftItem) => round2((Number(i.price) || 0) * (Number(i.quantity) || 0));
+  const subtotal = round2(items.reduce((s, i) => s + lineTotal(i), 0));
+
+  const numberInput = {
+    textAlign: 'right' as const,
+    color: textPrimary,
+    fontWeight: '700' as const,
+    fontSize: 16,
+    backgroundColor: surface2,
+    paddingHorizontal: spacing.s10,
+    paddingVertical: spacing.s6,
+    borderRadius: radius.md,
+  };
+
+  return (
+    <View style={{ gap: spacing.s10 }}>
+      {items.map((item, idx) => (
+        <View key={item.id} style={{ backgroundColor: surface1, borderRadius: radius.lg, borderWidth: 1, borderColor: borderSubtle, padding: spacing.s12, gap: spacing.s10 }}>
+          <View style={{ flexDirection: 'row', alignItems: 'center', gap: spacing.s8 }}>
+            <TextInput
+              value={item.name}
+              onChangeText={t => patch(item.id, { name: t })}
+              placeholder={`Item ${idx + 1}`}
+              placeholderTextColor={textMuted}
+              style={{ flex: 1, color: textPrimary, fontSize: 15, fontWeight: '600', padding: 0 }}
+            />
+            <Pressable onPress={() => onChange(items.filter(i => i.id !== item.id))} hitSlop={8} style={{ padding: spacing.s4 }}>
+              <Icon name="trash" size={16} color={textMuted} />
+            </Pressable>
+          </View>
+
+          <View style={{ flexDirection: 'row', alignItems: 'center', gap: spacing.s8 }}>
+            <TextInput
+              value={item.price}
+              onChangeText={t => patch(item.id, { price: t.replace(/[^0-9.]/g, '') })}
+              placeholder="0.00"
+              placeholderTextColor={textMuted}
+              keyboardType="decimal-pad"
+              style={[numberInput, { width: 90 }]}
+            />
+            <Text style={{ color: textMuted, fontSize: 15 }}>×</Text>
+            <TextInput
+              value={item.quantity}
+              onChangeText={t => patch(item.id, { quantity: t.replace(/[^0-9.]/g, '') })}
+              placeholder="1"
+              placeholderTextColor={textMuted}
+              keyboardType="decimal-pad"
+              style={[numberInput, { width: 50 }]}
+            />
+            <Text style={{ flex: 1, textAlign: 'right', color: textPrimary, fontWeight: '700', fontSize: 15 }}>
+              {formatCurrency(lineTotal(item), currency)}
+            </Text>
+          </View>
+
+          <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: spacing.s6 }}>
+            {members.map(m => {
+              const on = item.sharedBy.includes(m.id);
+              return (
+                <Pressable
+                  key={m.id}
+                  onPress={() => toggle(item, m.id)}
+                  style={{
+                    paddingHorizontal: spacing.s10,
+                    paddingVertical: spacing.s4,
+                    borderRadius: radius.pill,
+                    borderWidth: 1,
+                    borderColor: on ? accentPrimary : borderSubtle,
+                  }}
+                >
+                  <Text style={{ color: on ? accentPrimary : textMuted, fontSize: 13, fontWeight: '600' }}>{m.name}</Text>
+                </Pressable>
+              );
+            })}
+          </View>
+          {item.sharedBy.length === 0 ? (
+            <Text style={{ color: warningColor, fontSize: 12 }}>Tap who had this</Text>
+          ) : item.sharedBy.length > 1 && lineTotal(item) > 0 ? (
+            <Text style={{ color: textMuted, fontSize: 12 }}>
+              {formatCurrency(lineTotal(item) / item.sharedBy.length, currency)} each
+            </Text>
+          ) : null}
+        </View>
+      ))}
+
+      <Pressable
+        onPress={() => onChange([...items, emptyDraftItem()])}
+        style={({ pressed }) => ({
+          flexDirection: 'row',
+          alignItems: 'center',
+          justifyContent: 'center',
+          gap: spacing.s8,
+          paddingVertical: spacing.s12,
+          borderRadius: radius.lg,
+          borderWidth: 1,
+          borderStyle: 'dashed',
+          borderColor: borderSubtle,
+          opacity: pressed ? 0.7 : 1,
+        })}
+      >
+        <Icon name="plus" size={16} color={accentPrimary} />
+        <Text style={{ color: accentPrimary, fontWeight: '700' }}>Add item</Text>
+      </Pressable>
+
+      <View style={{ flexDirection: 'row', justifyContent: 'space-between' }}>
+        <Text style={{ color: textMuted, fontSize: 14 }}>Items subtotal</Text>
+        <Text style={{ color: textPrimary, fontSize: 14, fontWeight: '700' }}>{formatCurrency(subtotal, currency)}</Text>
+      </View>
+    </View>
+  );
+}
@@ -14,6 +14,11 @@ import { formatCurrency } from '../../../lib/format';
 import type { ID } from '../../../types/groups';
 import { getAvailableAccounts, getDefaultAccount } from '../utils/transactionIntegration';
 import { useAccountsStore } from '../../../store/accounts';
+import BillItemsEditor, { emptyDraftItem, fromDraftItems, type DraftItem } from '../components/BillItemsEditor';
+import BillItemsBreakdown from '../components/BillItemsBreakdown';
+import { itemsSubtotal } from '../utils/billItems';
+import BillCurrencyField from '../components/BillCurrencyField';
+import { groupCurrency } from '../utils/currency';
 
 const KEY_ADVANCED_OPEN = 'fingrow/ui/addbill/advancedOpen';
 
@@ -63,25 +68,30 @@ export default function AddBill() {
   const [showCategorySheet, setShowCategorySheet] = useState(false);
 
   const activeMembers = useMemo(() => group?.members.filter(m => !m.archived) ?? [], [group]);
+  const baseCurrency = groupCurrency(group);
+  const [billCurrency, setBillCurrency] = useState(baseCurrency);
+  const [rate, setRate] = useState('');
   const [participants, setParticipants] = useState<Record<string, boolean>>(() =>
     Object.fromEntries(activeMembers.map(m => [m.id, true]))
   );
   const participantIds = Object.entries(participants).filter(([_, v]) => v).map(([k]) => k);
 
-  const [mode, setMode] = useState<'equal' | 'exact' | 'weight' | 'share'>('equal');
+  const [mode, setMode] = useState<'equal' | 'exact' | 'weight' | 'share' | 'items'>('equal');
   const [exacts, setExacts] = useState<Record<string, string>>({});
   const [weights, setWeights] = useState<Record<string, string>>({});
   const [shares, setShares] = useState<Record<string, string>>({});
+  const [items, setItems] = useState<DraftItem[]>([]);
 
   // Tax & Fees
   const [tax, setTax] = useState('');
   const [serviceCharge, setServiceCharge] = useState('');
   const [vat, setVat] = useState('');
+  const [discount, setDiscount] = useState('');
 
   // Bottom Sheets
   const [splitModeSheet, setSplitModeSheet] = useState(false);
   const [taxFeesSheet, setTaxFeesSheet] = useState(false);
-  const [splitModeTab, setSplitModeTab] = useState<'equal' | 'weight' | 'share'>('equal');
+  const [splitModeTab, setSplitModeTab] = useState<'equal' | 'weight' | 'share' | 'items'>('equal');
   const [showTaxFees, setShowTaxFees] = useState(false);
 
   // Date & Time
@@ -89,13 +99,16 @@ export default function AddBill() {
   const [showDateTimePicker, setShowDateTimePicker] = useState(false);
   const [showTimeOverlay, setShowTimeOverlay] = useState(false);
 
-  const amountNum = useMemo(() => Number(amount) || 0, [amount]);
+  const itemsTotal = useMemo(() => itemsSubtotal(fromDraftItems(items)), [items]);
+  // Itemised bills take their amount from the items
+  const amountNum = useMemo(() => (mode === 'items' ? itemsTotal : Number(amount) || 0), [amount, mode, itemsTotal]);
   const sumExacts = useMemo(() => participantIds.reduce((acc, id) => acc + (Number(exacts[id] || 0) || 0), 0), [exacts, participantIds]);
 
   // Calculate total tax/fees
   const taxNum = Number(tax) || 0;
   const serviceChargeNum = Number(serviceCharge) || 0;
   const vatNum = Number(vat) || 0;
+  const discountNum = Number(discount) || 0;
   const totalFees = useMemo(() => {
     const base = amountNum;
     const taxAmt = base * (taxNum / 100);
@@ -104,7 +117,7 @@ export default function AddBill() {
     return taxAmt + serviceAmt + vatAmt;
   }, [amountNum, taxNum, serviceChargeNum, vatNum]);
 
-  const finalTotal = amountNum + totalFees;
+  const finalTotal = amountNum + totalFees - discountNum;
 
   const toggleParticipant = (id: string) => setParticipants(p => ({ ...p, [id]: !p[id] }));
 
@@ -114,15 +127,16 @@ export default function AddBill() {
       if (mode === 'equal') setSplitModeTab('equal');
       else if (mode === 'weight') setSplitModeTab('weight');
       else if (mode === 'share') setSplitModeTab('share');
+      else if (mode === 'items') setSplitModeTab('items');
       else setSplitModeTab('equal');
     }
   }, [splitModeSheet, mode]);
 
   const onSave = async () => {
     if (!group) return;
-    const amt = parseFloat(amount || '0');
-    if (isNaN(amt) || amt <= 0) { Alert.alert('Enter a valid amount'); return; }
-    if (participantIds.length === 0) { Alert.alert('Select at least one participant'); return; }
+    const amt = mode === 'items' ? itemsTotal : parseFloat(amount || '0');
+    if (isNaN(amt) || amt <= 0) { Alert.alert(mode === 'items' ? 'Add the items with their prices' : 'Enter a valid amount'); return; }
+    if (participantIds.length === 0 && mode !== 'items') { Alert.alert('Select at least one participant'); return; }
     if (!paidBy) { Alert.alert('Select who paid'); return; }
 
     let exactsMap: Record<string, number> | undefined = undefined;
@@ -162,10 +176,13 @@ export default function AddBill() {
         taxMode: 'pct',
         tax: combinedTaxPct,
         discountMode: 'abs',
-        discount: 0,
+        discount: discountNum,
         participants: participantIds as ID[],
         splitMode: mode,
         exacts: exactsMap,
+        items: mode === 'items' ? fromDraftItems(items) : undefined,
+        currency: billCurrency,
+        rate: billCurrency !== baseCurrency ? Number(rate) || undefined : undefined,
         proportionalTax: true,
         payerMode: 'single',
         paidBy: paidBy as ID,
@@ -325,8 +342,9 @@ export default function AddBill() {
               {/* Amount input */}
               <View style={{ alignItems: 'flex-end' }}>
                 <TextInput
-                  value={amount}
+                  value={mode === 'items' ? itemsTotal.toFixed(2) : amount}
                   onChangeText={setAmount}
+                  editable={mode !== 'items'}
                   placeholder="$0"
                   keyboardType="decimal-pad"
                   placeholderTextColor={withAlpha(textMuted, 0.3)}
@@ -375,6 +393,20 @@ export default function AddBill() {
           </View>
         </View>
 
+        {/* Currency */}
+        <View style={{ marginBottom: spacing.s24 }}>
+          <Text style={{ color: textPrimary, fontSize: 17, fontWeight: '600', marginBottom: spacing.s14 }}>
+            Paid in
+          </Text>
+          <BillCurrencyField
+            baseCurrency={baseCurrency}
+            currency={billCurrency}
+            onCurrencyChange={setBillCurrency}
+            rate={rate}
+            onRateChange={setRate}
+          />
+        </View>
+
         {/* Who's In */}
         <View style={{ marginBottom: spacing.s24 }}>
           <Text style={{ color: textPrimary, fontSize: 17, fontWeight: '600', marginBottom: spacing.s14 }}>
@@ -633,7 +665,7 @@ export default function AddBill() {
             </Text>
             <View style={{ flexDirection: 'row', alignItems: 'center', gap: spacing.s8 }}>
               <Text style={{ color: textMuted, fontSize: 15 }}>
-                {mode === 'equal' ? 'Equally' : mode === 'weight' ? 'By Weight' : mode === 'share' ? 'By Share' : 'Custom'}
+                {mode === 'equal' ? 'Equally' : mode === 'weight' ? 'By Weight' : mode === 'share' ? 'By Share' : mode === 'items' ? 'By Item' : 'Custom'}
               </Text>
               <Icon name="chevron-right" size={20} color={textMuted} />
             </View>
@@ -665,6 +697,20 @@ export default function AddBill() {
             </View>
           </Pressable>
         </View>
+
+        {mode === 'items' && amountNum > 0 && (
+          <View style={{ marginTop: spacing.s24 }}>
+            <Text style={{ color: textPrimary, fontSize: 17, fontWeight: '600', marginBottom: spacing.s14 }}>
+              Who had what
+            </Text>
+            <BillItemsBreakdown
+              items={fromDraftItems(items)}
+              members={activeMembers}
+              scale={finalTotal / amountNum}
+              currency={billCurrency}
+            />
+          </View>
+        )}
       </View>
     </ScreenScroll>
 
@@ -732,6 +778,24 @@ export default function AddBill() {
             By Share
           </Text>
         </Pressable>
+        <Pressable
+          onPress={() => {
+            setSplitModeTab('items');
+            if (items.length === 0) setItems([emptyDraftItem()]);
+          }}
+          style={({ pressed }) => ({
+            flex: 1,
+            borderRadius: radius.md,
+            backgroundColor: splitModeTab === 'items' ? accentPrimary : 'transparent',
+            paddingVertical: spacing.s8,
+            alignItems: 'center',
+            opacity: pressed ? 0.8 : 1,
+          })}
+        >
+          <Text style={{ color: splitModeTab === 'items' ? textOnPrimary : textPrimary, fontWeight: '700', fontSize: 15 }}>
+            By Item
+          </Text>
+        </Pressable>
       </View>
 
         {/* Tab Content */}
@@ -897,6 +961,33 @@ export default function AddBill() {
             </>
           )}
 
+          {splitModeTab === 'items' && (
+            <>
+              <Text style={{ color: textPrimary, fontSize: 15, fontWeight: '600', marginBottom: spacing.s12, marginTop: spacing.s4 }}>
+                Add each item and who had it
+              </Text>
+              <BillItemsEditor
+                items={items}
+                onChange={setItems}
+                members={activeMembers.filter(m => participants[m.id])}
+                currency={billCurrency}
+              />
+              <View style={{
+                flexDirection: 'row',
+                gap: spacing.s10,
+                marginTop: spacing.s10,
+                alignItems: 'flex-start'
+              }}>
+                <View style={{ marginTop: 2 }}>
+                  <Icon name="info" size={18} color={get('semantic.info') as string} />
+                </View>
+                <Text style={{ color: textMuted, fontSize: 13, flex: 1, lineHeight: 18 }}>
+                  Shared items are split evenly. Tax, service and discount are shared in proportion to what each person had.
+                </Text>
+              </View>
+            </>
+          )}
+
           {/* Done Button */}
           <Pressable
             onPress={() => {
@@ -907,6 +998,8 @@ export default function AddBill() {
                 setMode('weight');
               } else if (splitModeTab === 'share') {
                 setMode('share');
+              } else if (splitModeTab === 'items') {
+                setMode('items');
               }
               setSplitModeSheet(false);
             }}
@@ -1048,10 +1141,44 @@ export default function AddBill() {
               />
               <Text style={{ color: textMuted, fontSize: 18, fontWeight: '600' }}>%</Text>
             </View>
+
+            {/* Divider */}
+            <View style={{ height: 1, backgroundColor: borderSubtle }} />
+
+            {/* Discount */}
+            <View style={{
+              flexDirection: 'row',
+              alignItems: 'center',
+              paddingLeft: spacing.s16,
+              paddingRight: spacing.s12,
+              paddingVertical: spacing.s10,
+              gap: spacing.s12,
+            }}>
+              <Text style={{ color: textPrimary, flex: 1, fontSize: 15, fontWeight: '600' }}>Discount</Text>
+              <Text style={{ color: textMuted, fontSize: 18, fontWeight: '300' }}>−$</Text>
+              <TextInput
+                value={discount}
+                onChangeText={setDiscount}
+                placeholder="0"
+                placeholderTextColor={textMuted}
+                keyboardType="decimal-pad"
+                style={{
+                  width: 70,
+                  textAlign: 'right',
+                  color: textPrimary,
+                  fontWeight: '700',
+                  fontSize: 18,
+                  backgroundColor: surface2,
+                  paddingHorizontal: spacing.s12,
+                  paddingVertical: spacing.s8,
+                  borderRadius: radius.md
+                }}
+              />
+            </View>
           </View>
 
           {/* Total Calculation */}
-          {totalFees > 0 && (
+          {(totalFees > 0 || discountNum > 0) && (
             <View style={{
               marginTop: spacing.s8,
               padding: spacing.s16,
@@ -9,6 +9,9 @@ import { useRoute, useNavigation } from '@react-navigation/native';
 import { useGroupsStore } from '../store';
 import { scheduleDaily, cancel, listReminders } from '../../../lib/notifications';
 import { formatCurrency } from '../../../lib/format';
+import BillItemsBreakdown from '../components/BillItemsBreakdown';
+import { itemBreakdown } from '../utils/billItems';
+import { currencyOf, groupCurrency, toGroupCurrency } from '../utils/currency';
 
 function withAlpha(hex: string, alpha: number) {
   if (!hex || typeof hex !== 'string') return hex;
@@ -63,6 +66,7 @@ export default function BillDetails() {
   }
 
   const memberName = (id: string) => group.members.find(m => m.id === id)?.name || '—';
+  const billCurrency = currencyOf(group, bill);
 
   // Only count splits where contribution doesn't cover share as outstanding
   const remainingUnsettled = bill.splits
@@ -90,15 +94,16 @@ export default function BillDetails() {
     .every(s => s.settled);
 
   const shareText = () => {
-    const lines = bill.splits.map(s => `${memberName(s.memberId)}: ${formatCurrency(s.share)}${s.settled ? ' (paid)' : ''}`);
-    return `Bill: ${bill.title} • ${formatCurrency(bill.finalAmount)}\n` + lines.join('\n');
+    const itemsOf = Object.fromEntries(itemBreakdown(bill.items || []).map(r => [r.memberId, r.lines.map(l => l.name).join(', ')]));
+    const lines = bill.splits.map(s => `${memberName(s.memberId)}: ${formatCurrency(s.share, billCurrency)}${s.settled ? ' (paid)' : ''}${itemsOf[s.memberId] ? ` — ${itemsOf[s.memberId]}` : ''}`);
+    return `Bill: ${bill.title} • ${formatCurrency(bill.finalAmount, billCurrency)}\n` + lines.join('\n');
   };
 
   const toggleReminder = async (memberId: string, enable: boolean) => {
     const key = `${groupId}:${billId}:${memberId}`;
     if (enable) {
       try {
-        await scheduleDaily(key, `Reminder: ${bill.title}`, `${memberName(memberId)} owes ${formatCurrency(bill.splits.find(s=>s.memberId===memberId)?.share||0)} in ${group.name}`, 19, groupId, billId, memberId);
+        await scheduleDaily(key, `Reminder: ${bill.title}`, `${memberName(memberId)} owes ${formatCurrency(bill.splits.find(s=>s.memberId===memberId)?.share||0, billCurrency)} in ${group.name}`, 19, groupId, billId, memberId);
       } catch (e: any) {
         Alert.alert('Notifications', e?.message || String(e));
         return;
@@ -152,8 +157,13 @@ export default function BillDetails() {
               {bill.title}
             </Text>
             <Text style={{ color: textMuted, fontSize: 13, textAlign: 'center' }}>
-              {formatCurrency(bill.finalAmount)} • {billDate.toLocaleDateString(undefined, { day: 'numeric', month: 'short' })} at {fmtTime(billDate)}
+              {formatCurrency(bill.finalAmount, billCurrency)} • {billDate.toLocaleDateString(undefined, { day: 'numeric', month: 'short' })} at {fmtTime(billDate)}
             </Text>
+            {bill.currency && bill.rate ? (
+              <Text style={{ color: textMuted, fontSize: 12, textAlign: 'center', marginTop: spacing.s4 }}>
+                ≈ {formatCurrency(toGroupCurrency(bill.finalAmount, bill), groupCurrency(group))} at 1 {bill.currency} = {bill.rate.toFixed(4)} {groupCurrency(group)}
+              </Text>
+            ) : null}
           </View>
           <Pressable
             onPress={() => nav.goBack()}
@@ -232,7 +242,7 @@ export default function BillDetails() {
                 fontSize: 13,
                 fontWeight: '600'
               }}>
-                {formatCurrency(remainingUnsettled)} outstanding
+                {formatCurrency(remainingUnsettled, billCurrency)} outstanding
               </Text>
             </View>
           )}
@@ -286,7 +296,7 @@ export default function BillDetails() {
                     </Text>
                   </View>
                   <Text style={{ color: textPrimary, fontWeight: '700', fontSize: 16 }}>
-                    {formatCurrency(c.amount)}
+                    {formatCurrency(c.amount, billCurrency)}
                   </Text>
                 </View>
               );
@@ -294,6 +304,21 @@ export default function BillDetails() {
           </View>
         </View>
 
+        {/* Itemised bills: who had what */}
+        {bill.items?.length ? (
+          <View>
+            <Text style={{ color: textPrimary, fontSize: 18, fontWeight: '700', marginBottom: spacing.s12 }}>
+              Who had what
+            </Text>
+            <BillItemsBreakdown
+              items={bill.items}
+              members={group.members}
+              totals={Object.fromEntries(bill.splits.map(s => [s.memberId, s.share]))}
+              currency={billCurrency}
+            />
+          </View>
+        ) : null}
+
         {/* Split Details */}
         <View>
           <Text style={{ color: textPrimary, fontSize: 18, fontWeight: '700', marginBottom: spacing.s12 }}>
@@ -384,7 +409,7 @@ export default function BillDetails() {
                       fontWeight: '700',
                       fontSize: 16
                     }}>
-                      {formatCurrency(s.share)}
+                      {formatCurrency(s.share, billCurrency)}
                     </Text>
                   </View>
 
@@ -398,7 +423,7 @@ export default function BillDetails() {
                     }}>
                       <Pressable
                         onPress={() => Share.share({
-                          message: `Hey ${member.name}, please settle ${formatCurrency(s.share)} for "${bill.title}" in ${group.name}. Thanks!`
+                          message: `Hey ${member.name}, please settle ${formatCurrency(s.share, billCurrency)} for "${bill.title}" in ${group.name}. Thanks!`
                         })}
                         style={({ pressed }) => ({
                           flex: 1,
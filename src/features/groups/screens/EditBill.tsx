@@ -11,6 +11,11 @@ import { spacing, radius } from '../../../theme/tokens';
 import { useGroupsStore } from '../store';
 import { formatCurrency } from '../../../lib/format';
 import type { ID } from '../../../types/groups';
+import BillItemsEditor, { emptyDraftItem, fromDraftItems, toDraftItems, type DraftItem } from '../components/BillItemsEditor';
+import BillItemsBreakdown from '../components/BillItemsBreakdown';
+import { itemsSubtotal } from '../utils/billItems';
+import BillCurrencyField from '../components/BillCurrencyField';
+import { currencyOf, groupCurrency } from '../utils/currency';
 
 const KEY_ADVANCED_OPEN = 'fingrow/ui/addbill/advancedOpen';
 
@@ -35,6 +40,9 @@ export default function EditBill() {
   const bill = findBill(groupId, billId);
 
   const activeMembers = useMemo(() => group?.members.filter(m => !m.archived) ?? [], [group]);
+  const baseCurrency = groupCurrency(group);
+  const [billCurrency, setBillCurrency] = useState(() => (bill ? currencyOf(group, bill) : baseCurrency));
+  const [rate, setRate] = useState(bill?.rate ? String(bill.rate) : '');
 
   // Initialize state from existing bill
   const [title, setTitle] = useState(bill?.title || '');
@@ -50,7 +58,8 @@ export default function EditBill() {
   });
   const participantIds = Object.entries(participants).filter(([_, v]) => v).map(([k]) => k);
 
-  const [mode, setMode] = useState<'equal' | 'exact'>('equal');
+  const [mode, setMode] = useState<'equal' | 'exact' | 'items'>(bill?.items?.length ? 'items' : 'equal');
+  const [items, setItems] = useState<DraftItem[]>(() => (bill?.items ? toDraftItems(bill.items) : []));
   const [exacts, setExacts] = useState<Record<string, string>>(() => {
     if (bill && bill.splits) {
       return Object.fromEntries(bill.splits.map(s => [s.memberId, s.share.toString()]));
@@ -59,23 +68,30 @@ export default function EditBill() {
   });
 
   // Tax & Fees - extract from bill's tax
-  const [showTaxFees, setShowTaxFees] = useState((bill?.tax || 0) > 0);
+  const [showTaxFees, setShowTaxFees] = useState((bill?.tax || 0) > 0 || (bill?.discount || 0) > 0);
   const [tax, setTax] = useState(bill?.tax.toString() || '');
   const [serviceCharge, setServiceCharge] = useState('');
   const [vat, setVat] = useState('');
+  const [discount, setDiscount] = useState(() => {
+    if (!bill?.discount) return '';
+    return String(bill.discountMode === 'pct' ? Math.round(bill.amount * bill.discount) / 100 : bill.discount);
+  });
 
   // Date & Time
   const [billDate, setBillDate] = useState(bill?.createdAt ? new Date(bill.createdAt) : new Date());
   const [showDateTimePicker, setShowDateTimePicker] = useState(false);
   const [showTimeOverlay, setShowTimeOverlay] = useState(false);
 
-  const amountNum = useMemo(() => Number(amount) || 0, [amount]);
+  const itemsTotal = useMemo(() => itemsSubtotal(fromDraftItems(items)), [items]);
+  // Itemised bills take their amount from the items
+  const amountNum = useMemo(() => (mode === 'items' ? itemsTotal : Number(amount) || 0), [amount, mode, itemsTotal]);
   const sumExacts = useMemo(() => participantIds.reduce((acc, id) => acc + (Number(exacts[id] || 0) || 0), 0), [exacts, participantIds]);
 
   // Calculate total tax/fees
   const taxNum = Number(tax) || 0;
   const serviceChargeNum = Number(serviceCharge) || 0;
   const vatNum = Number(vat) || 0;
+  const discountNum = Number(discount) || 0;
   const totalFees = useMemo(() => {
     const base = amountNum;
     const taxAmt = base * (taxNum / 100);
@@ -84,15 +100,15 @@ export default function EditBill() {
     return taxAmt + serviceAmt + vatAmt;
   }, [amountNum, taxNum, serviceChargeNum, vatNum]);
 
-  const finalTotal = amountNum + totalFees;
+  const finalTotal = amountNum + totalFees - discountNum;
 
   const toggleParticipant = (id: string) => setParticipants(p => ({ ...p, [id]: !p[id] }));
 
   const onSave = async () => {
     if (!group) return;
-    const amt = parseFloat(amount || '0');
-    if (isNaN(amt) || amt <= 0) { Alert.alert('Enter a valid amount'); return; }
-    if (participantIds.length === 0) { Alert.alert('Select at least one participant'); return; }
+    const amt = mode === 'items' ? itemsTotal : parseFloat(amount || '0');
+    if (isNaN(amt) || amt <= 0) { Alert.alert(mode === 'items' ? 'Add the items with their prices' : 'Enter a valid amount'); return; }
+    if (participantIds.length === 0 && mode !== 'items') { Alert.alert('Select at least one participant'); return; }
     if (!paidBy) { Alert.alert('Select who paid'); return; }
 
     let exactsMap: Record<string, number> | undefined = undefined;
@@ -129,10 +145,14 @@ export default function EditBill() {
         taxMode: 'pct',
         tax: combinedTaxPct,
         discountMode: 'abs',
-        discount: 0,
+        discount: discountNum,
         participants: participantIds as ID[],
         splitMode: mode,
         exacts: exactsMap,
+        items: mode === 'items' ? fromDraftItems(items) : undefined,
+        currency: billCurrency,
+        // Unchanged rates keep the one the bill was entered at
+        rate: billCurrency !== baseCurrency && Number(rate) !== bill.rate ? Number(rate) || undefined : undefined,
         proportionalTax: true,
         payerMode: 'single',
         paidBy: paidBy as ID
@@ -286,8 +306,9 @@ export default function EditBill() {
               {/* Amount input */}
               <View style={{ alignItems: 'flex-end' }}>
                 <TextInput
-                  value={amount}
+                  value={mode === 'items' ? itemsTotal.toFixed(2) : amount}
                   onChangeText={setAmount}
+                  editable={mode !== 'items'}
                   placeholder="$0"
                   keyboardType="decimal-pad"
                   placeholderTextColor={withAlpha(textMuted, 0.3)}
@@ -336,6 +357,20 @@ export default function EditBill() {
           </View>
         </View>
 
+        {/* Currency */}
+        <View style={{ marginBottom: spacing.s24 }}>
+          <Text style={{ color: textPrimary, fontSize: 17, fontWeight: '600', marginBottom: spacing.s14 }}>
+            Paid in
+          </Text>
+          <BillCurrencyField
+            baseCurrency={baseCurrency}
+            currency={billCurrency}
+            onCurrencyChange={setBillCurrency}
+            rate={rate}
+            onRateChange={setRate}
+          />
+        </View>
+
         {/* Who's In */}
         <View style={{ marginBottom: spacing.s24 }}>
           <Text style={{ color: textPrimary, fontSize: 17, fontWeight: '600', marginBottom: spacing.s14 }}>
@@ -564,9 +599,65 @@ export default function EditBill() {
                   Custom
                 </Text>
               </Pressable>
+              <Pressable
+                onPress={() => {
+                  setMode('items');
+                  if (items.length === 0) setItems([emptyDraftItem()]);
+                }}
+                style={({ pressed }) => ({
+                  flex: 1,
+                  borderRadius: radius.md,
+                  backgroundColor: mode === 'items' ? accentPrimary : 'transparent',
+                  paddingVertical: spacing.s14,
+                  alignItems: 'center',
+                  opacity: pressed ? 0.8 : 1,
+                  shadowColor: mode === 'items' ? accentPrimary : 'transparent',
+                  shadowOffset: { width: 0, height: 2 },
+                  shadowOpacity: 0.3,
+                  shadowRadius: 4,
+                  elevation: mode === 'items' ? 2 : 0
+                })}
+              >
+                <Text style={{ color: mode === 'items' ? textOnPrimary : textPrimary, fontWeight: '700', fontSize: 16 }}>
+                  By Item
+                </Text>
+              </Pressable>
             </View>
           </View>
 
+          {/* Items - Expands when By Item is selected */}
+          {mode === 'items' && (
+            <View style={{
+              borderTopWidth: 1,
+              borderTopColor: borderSubtle,
+              padding: spacing.s16,
+              gap: spacing.s12
+            }}>
+              <Text style={{ color: textMuted, fontSize: 13, fontWeight: '600' }}>
+                Add each item and who had it
+              </Text>
+              <BillItemsEditor
+                items={items}
+                onChange={setItems}
+                members={activeMembers.filter(m => participants[m.id])}
+                currency={billCurrency}
+              />
+              {amountNum > 0 && (
+                <>
+                  <Text style={{ color: textMuted, fontSize: 13, fontWeight: '600', marginTop: spacing.s4 }}>
+                    Who had what
+                  </Text>
+                  <BillItemsBreakdown
+                    items={fromDraftItems(items)}
+                    members={group.members}
+                    scale={finalTotal / amountNum}
+                    currency={billCurrency}
+                  />
+                </>
+              )}
+            </View>
+          )}
+
           {/* Custom Amounts - Expands when Custom is selected */}
           {mode === 'exact' && (
             <View style={{
@@ -774,7 +865,36 @@ export default function EditBill() {
                   <Text style={{ color: textMuted, fontSize: 16 }}>%</Text>
                 </View>
 
-                {totalFees > 0 && (
+                {/* Discount */}
+                <View style={{
+                  flexDirection: 'row',
+                  alignItems: 'center',
+                  backgroundColor: surface2,
+                  borderRadius: radius.md,
+                  paddingLeft: spacing.s14,
+                  paddingRight: spacing.s12,
+                  paddingVertical: spacing.s12,
+                  gap: spacing.s12
+                }}>
+                  <Text style={{ color: textPrimary, flex: 1, fontSize: 15 }}>Discount</Text>
+                  <Text style={{ color: textMuted, fontSize: 16 }}>−$</Text>
+                  <TextInput
+                    value={discount}
+                    onChangeText={setDiscount}
+                    placeholder="0"
+                    placeholderTextColor={textMuted}
+                    keyboardType="decimal-pad"
+                    style={{
+                      width: 60,
+                      textAlign: 'right',
+                      color: textPrimary,
+                      fontWeight: '600',
+                      fontSize: 16
+                    }}
+                  />
+                </View>
+
+                {(totalFees > 0 || discountNum > 0) && (
                   <View style={{
                     marginTop: spacing.s8,
                     padding: spacing.s12,
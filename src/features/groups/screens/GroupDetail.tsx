@@ -16,9 +16,12 @@ import { useGroupsStore } from '../store';
 import { useProfileStore } from '../../../store/profile';
 import { useTxStore } from '../../../store/transactions';
 import { formatCurrency } from '../../../lib/format';
+import { exportPdf, pdfFileName } from '../../../lib/pdf';
+import { buildSettlementStatement } from '../utils/settlementStatement';
+import { planSettlement } from '../utils/settlementPlan';
+import { currencyOf, toGroupCurrency } from '../utils/currency';
 import BottomSheet from '../../../components/BottomSheet';
 import ManageMembersSheet from '../components/ManageMembersSheet';
-import type { ID } from '../../../types/groups';
 import type { GroupsStackParamList } from '../../../navigation/GroupsNavigator';
 
 const fmtTime = (d: Date) => {
@@ -515,10 +518,11 @@ export default function GroupDetail() {
 
   const billVM = (group.bills || []).map(b => {
     const d = new Date(b.createdAt || Date.now());
-    const myShare = (b.splits || []).find(s => s.memberId === myId)?.share || 0;
-    const myContrib = (b.contributions || []).filter(c => c.memberId === myId).reduce((acc, c) => acc + c.amount, 0);
-    const inflows = (group.settlements || []).filter(s => s.billId === b.id && s.toId === myId).reduce((acc, s) => acc + s.amount, 0);
-    const outflows = (group.settlements || []).filter(s => s.billId === b.id && s.fromId === myId).reduce((acc, s) => acc + s.amount, 0);
+    // In the group's currency, like the balances
+    const myShare = toGroupCurrency((b.splits || []).find(s => s.memberId === myId)?.share || 0, b);
+    const myContrib = toGroupCurrency((b.contributions || []).filter(c => c.memberId === myId).reduce((acc, c) => acc + c.amount, 0), b);
+    const inflows = (group.settlements || []).filter(s => s.billId === b.id && s.toId === myId).reduce((acc, s) => acc + toGroupCurrency(s.amount, s), 0);
+    const outflows = (group.settlements || []).filter(s => s.billId === b.id && s.fromId === myId).reduce((acc, s) => acc + toGroupCurrency(s.amount, s), 0);
     const outstanding = Math.round((myContrib - myShare - inflows + outflows) * 100) / 100;
     const payerName = (() => {
       const topPayer = (b.contributions || [])[0];
@@ -557,39 +561,8 @@ export default function GroupDetail() {
     else updatedLabel = d.toLocaleDateString(undefined, { day: 'numeric', month: 'short', year: 'numeric' });
   }
 
-  // Calculate settlement plan (who pays who)
-  const calculateSettlementPlan = () => {
-    type Edge = { fromId: ID; toId: ID; amount: number };
-    const creditors: { id: ID; amt: number }[] = [];
-    const debtors: { id: ID; amt: number }[] = [];
-
-    Object.entries(groupBal).forEach(([id, v]) => {
-      const val = Math.round((v as number) * 100) / 100;
-      if (val > 0.009) creditors.push({ id: id as ID, amt: val });
-      else if (val < -0.009) debtors.push({ id: id as ID, amt: -val });
-    });
-
-    creditors.sort((a, b) => b.amt - a.amt);
-    debtors.sort((a, b) => b.amt - a.amt);
-
-    const edges: Edge[] = [];
-    let i = 0, j = 0;
-
-    while (i < debtors.length && j < creditors.length) {
-      const d = debtors[i];
-      const c = creditors[j];
-      const x = Math.min(d.amt, c.amt);
-      edges.push({ fromId: d.id, toId: c.id, amount: Math.round(x * 100) / 100 });
-      d.amt = Math.round((d.amt - x) * 100) / 100;
-      c.amt = Math.round((c.amt - x) * 100) / 100;
-      if (d.amt === 0) i++;
-      if (c.amt === 0) j++;
-    }
-
-    return edges;
-  };
-
-  const settlementPlan = calculateSettlementPlan();
+  // Who pays who, using the default plan (same as Settle up)
+  const settlementPlan = planSettlement(group, groupBal);
   const myName = (useProfileStore.getState().profile.name || '').trim().toLowerCase();
   const myMember = group.members.find((m: any) => (m.name || '').trim().toLowerCase() === myName);
 
@@ -851,7 +824,7 @@ export default function GroupDetail() {
 
             <View style={{ alignItems: 'flex-end', marginLeft: spacing.s8 }}>
               <Text style={{ color: textPrimary, fontWeight: '700', fontSize: 16 }}>
-                {formatCurrency(billAmount)}
+                {formatCurrency(billAmount, currencyOf(group, item))}
               </Text>
               <Text numberOfLines={1} style={{ color: amountColor, marginTop: 2, fontSize: 12, fontWeight: '600' }}>
                 {subtitle}
@@ -1560,6 +1533,68 @@ export default function GroupDetail() {
 
             <View style={{ height: 1, backgroundColor: borderSubtle, marginLeft: spacing.s16 + 36 + spacing.s12 }} />
 
+            {/* Recurring Bills */}
+            <Pressable
+              onPress={() => {
+                setShowSettingsMenu(false);
+                setTimeout(() => nav.navigate('RecurringBills', { groupId: group.id }), 200);
+              }}
+              style={({ pressed }) => ({
+                paddingVertical: spacing.s12,
+                paddingHorizontal: spacing.s16,
+                flexDirection: 'row',
+                alignItems: 'center',
+                gap: spacing.s12,
+                opacity: pressed ? 0.7 : 1,
+              })}
+            >
+              <View style={{
+                width: 36,
+                height: 36,
+                borderRadius: radius.md,
+                backgroundColor: withAlpha(accentPrimary, isDark ? 0.25 : 0.15),
+                alignItems: 'center',
+                justifyContent: 'center',
+              }}>
+                <Icon name="refresh-cw" size={18} colorToken="accent.primary" />
+              </View>
+              <Text style={{ color: textPrimary, fontWeight: '700', fontSize: 15, flex: 1 }}>Recurring bills</Text>
+              <Icon name="chevron-right" size={20} colorToken="text.muted" />
+            </Pressable>
+
+            <View style={{ height: 1, backgroundColor: borderSubtle, marginLeft: spacing.s16 + 36 + spacing.s12 }} />
+
+            {/* Sync with members */}
+            <Pressable
+              onPress={() => {
+                setShowSettingsMenu(false);
+                setTimeout(() => nav.navigate('GroupSync', { groupId: group.id }), 200);
+              }}
+              style={({ pressed }) => ({
+                paddingVertical: spacing.s12,
+                paddingHorizontal: spacing.s16,
+                flexDirection: 'row',
+                alignItems: 'center',
+                gap: spacing.s12,
+                opacity: pressed ? 0.7 : 1,
+              })}
+            >
+              <View style={{
+                width: 36,
+                height: 36,
+                borderRadius: radius.md,
+                backgroundColor: withAlpha(accentPrimary, isDark ? 0.25 : 0.15),
+                alignItems: 'center',
+                justifyContent: 'center',
+              }}>
+                <Icon name="share" size={18} colorToken="accent.primary" />
+              </View>
+              <Text style={{ color: textPrimary, fontWeight: '700', fontSize: 15, flex: 1 }}>Sync with members</Text>
+              <Icon name="chevron-right" size={20} colorToken="text.muted" />
+            </Pressable>
+
+            <View style={{ height: 1, backgroundColor: borderSubtle, marginLeft: spacing.s16 + 36 + spacing.s12 }} />
+
             {/* Edit Group */}
             <Pressable
               onPress={() => {
@@ -1591,6 +1626,44 @@ export default function GroupDetail() {
 
             <View style={{ height: 1, backgroundColor: borderSubtle, marginLeft: spacing.s16 + 36 + spacing.s12 }} />
 
+            {/* Settlement statement */}
+            <Pressable
+              onPress={() => {
+                setShowSettingsMenu(false);
+                setTimeout(async () => {
+                  try {
+                    const doc = buildSettlementStatement(group, useProfileStore.getState().profile.currency);
+                    await exportPdf(doc, pdfFileName(group.name, 'statement', new Date().toISOString().slice(0, 10)));
+                  } catch (e: any) {
+                    Alert.alert('Could not create PDF', e?.message || String(e));
+                  }
+                }, 200);
+              }}
+              style={({ pressed }) => ({
+                paddingVertical: spacing.s12,
+                paddingHorizontal: spacing.s16,
+                flexDirection: 'row',
+                alignItems: 'center',
+                gap: spacing.s12,
+                opacity: pressed ? 0.7 : 1,
+              })}
+            >
+              <View style={{
+                width: 36,
+                height: 36,
+                borderRadius: radius.md,
+                backgroundColor: withAlpha(accentPrimary, isDark ? 0.25 : 0.15),
+                alignItems: 'center',
+                justifyContent: 'center',
+              }}>
+                <Icon name="receipt" size={18} colorToken="accent.primary" />
+              </View>
+              <Text style={{ color: textPrimary, fontWeight: '700', fontSize: 15, flex: 1 }}>Settlement statement (PDF)</Text>
+              <Icon name="chevron-right" size={20} colorToken="text.muted" />
+            </Pressable>
+
+            <View style={{ height: 1, backgroundColor: borderSubtle, marginLeft: spacing.s16 + 36 + spacing.s12 }} />
+
             {/* Export History */}
             <Pressable
               onPress={() => {
@@ -1735,6 +1808,7 @@ export default function GroupDetail() {
 
         const memberName = (id: string) => group.members.find(m => m.id === id)?.name || '—';
         const billDate = new Date(bill.createdAt || Date.now());
+        const billCurrency = currencyOf(group, bill);
 
         const remainingUnsettled = bill.splits
           .filter(s => {
@@ -1769,7 +1843,7 @@ export default function GroupDetail() {
                     {bill.title}
                   </Text>
                   <Text style={{ color: textPrimary, fontSize: 28, fontWeight: '900', letterSpacing: -0.5, marginLeft: spacing.s12 }}>
-                    {formatCurrency(bill.finalAmount)}
+                    {formatCurrency(bill.finalAmount, billCurrency)}
                   </Text>
                 </View>
                 <View style={{ flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center' }}>
@@ -1778,7 +1852,7 @@ export default function GroupDetail() {
                   </Text>
                   {remainingUnsettled > 0.009 && (
                     <Text style={{ color: dangerColor, fontSize: 13, fontWeight: '600' }}>
-                      {formatCurrency(remainingUnsettled)} outstanding
+                      {formatCurrency(remainingUnsettled, billCurrency)} outstanding
                     </Text>
                   )}
                 </View>
@@ -1827,7 +1901,7 @@ export default function GroupDetail() {
                           </Text>
                         </View>
                         <Text style={{ color: textPrimary, fontWeight: '700', fontSize: 16 }}>
-                          {formatCurrency(c.amount)}
+                          {formatCurrency(c.amount, billCurrency)}
                         </Text>
                       </View>
                     );
@@ -1872,7 +1946,7 @@ export default function GroupDetail() {
                           <Pressable
                             accessibilityRole="button"
                             onPress={() => Share.share({
-                              message: `Hey ${member.name}, please settle ${formatCurrency(s.share)} for "${bill.title}" in ${group.name}. Thanks!`
+                              message: `Hey ${member.name}, please settle ${formatCurrency(s.share, billCurrency)} for "${bill.title}" in ${group.name}. Thanks!`
                             })}
                           >
                             <View style={{
@@ -1965,7 +2039,7 @@ export default function GroupDetail() {
                               fontWeight: '700',
                               fontSize: 16
                             }}>
-                              {formatCurrency(s.share)}
+                              {formatCurrency(s.share, billCurrency)}
                             </Text>
                           </View>
                         </Swipeable>
@@ -0,0 +1,292 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, Pressable, Alert } from 'react-native';
+import { useNavigation, useRoute } from '@react-navigation/native';
+import * as DocumentPicker from 'expo-document-picker';
+import * as Clipboard from 'expo-clipboard';
+import * as Haptics from 'expo-haptics';
+import { ScreenScroll } from '../../../components/ScreenScroll';
+import Button from '../../../components/Button';
+import Input from '../../../components/Input';
+import Icon from '../../../components/Icon';
+import { useThemeTokens } from '../../../theme/ThemeProvider';
+import { spacing, radius } from '../../../theme/tokens';
+import { useGroupsStore } from '../store';
+import { readLedgerFile, type LedgerFile, type LedgerPlan } from '../utils/ledgerSync';
+
+const MAX_CONFLICTS_SHOWN = 20;
+
+export default function GroupSync() {
+  const nav = useNavigation<any>();
+  const route = useRoute<any>();
+  const { groupId } = (route?.params ?? {}) as { groupId?: string };
+  const { get } = useThemeTokens();
+  const { groups, shareLedger, previewLedger, importLedger } = useGroupsStore();
+  const group = groups.find(g => g.id === groupId);
+
+  // Share
+  const [sharing, setSharing] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  // Import
+  const [file, setFile] = useState<LedgerFile | null>(null);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [code, setCode] = useState('');
+  const [plan, setPlan] = useState<LedgerPlan | null>(null);
+  const [checking, setChecking] = useState(false);
+  const [takeTheirs, setTakeTheirs] = useState<Set<string>>(new Set());
+  const [importing, setImporting] = useState(false);
+
+  // Groups already synced here verify with their own code
+  const knownCode = file ? groups.find(g => g.id === file.ledger.group.id)?.sync?.code : undefined;
+
+  useEffect(() => {
+    if (file && knownCode && !plan) check(knownCode);
+  }, [file, knownCode]);
+
+  const share = async () => {
+    if (!group) return;
+    setSharing(true);
+    try {
+      await shareLedger(group.id);
+      await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    } catch (e) {
+      Alert.alert('Could not share group', e instanceof Error ? e.message : 'Unknown error');
+    } finally {
+      setSharing(false);
+    }
+  };
+
+  const copyCode = async () => {
+    if (!group?.sync) return;
+    await Clipboard.setStringAsync(group.sync.code);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const pickFile = async () => {
+    try {
+      const res = await DocumentPicker.getDocumentAsync({ type: '*/*', copyToCacheDirectory: true });
+      if (res.canceled || !res.assets?.length) return;
+      setPlan(null);
+      setTakeTheirs(new Set());
+      setFile(await readLedgerFile(res.assets[0].uri));
+      setFileName(res.assets[0].name);
+    } catch (e) {
+      Alert.alert('Could not read file', e instanceof Error ? e.message : 'Unknown error');
+    }
+  };
+
+  const check = async (withCode: string) => {
+    if (!file) return;
+    setChecking(true);
+    try {
+      setPlan(await previewLedger(file, withCode));
+    } catch (e) {
+      Alert.alert('Could not open file', e instanceof Error ? e.message : 'Unknown error');
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const toggleTheirs = (key: string) => {
+    setTakeTheirs(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key); else next.add(key);
+      return next;
+    });
+  };
+
+  const applyImport = async () => {
+    if (!file || !plan) return;
+    setImporting(true);
+    try {
+      const result = await importLedger(file, knownCode || code, [...takeTheirs]);
+      await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      const kept = result.conflicts.filter(c => !takeTheirs.has(c.key)).length;
+      Alert.alert(
+        result.isNew ? 'Group added' : 'Group synced',
+        `${result.added} added, ${result.updated} updated, ${result.removed} removed.` +
+          (kept ? ` ${kept} conflicting record${kept === 1 ? '' : 's'} kept as they were on this phone.` : ''),
+        [{ text: 'OK', onPress: () => (result.isNew ? nav.replace('GroupDetail', { groupId: result.groupId }) : nav.goBack()) }]
+      );
+    } catch (e) {
+      Alert.alert('Import failed', e instanceof Error ? e.message : 'Unknown error');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const textPrimary = get('text.primary') as string;
+  const textMuted = get('text.muted') as string;
+  const surface1 = get('surface.level1') as string;
+  const surface2 = get('surface.level2') as string;
+  const borderSubtle = get('border.subtle') as string;
+  const accentPrimary = get('accent.primary') as string;
+  const onPrimary = get('text.onPrimary') as string;
+  const warningColor = get('semantic.warning') as string;
+
+  const sectionLabel = (label: string) => (
+    <Text style={{ color: textMuted, fontSize: 13, fontWeight: '600', marginBottom: spacing.s8 }}>{label}</Text>
+  );
+
+  const card = { backgroundColor: surface1, borderRadius: radius.lg, borderWidth: 1, borderColor: borderSubtle, padding: spacing.s16, gap: spacing.s12 };
+
+  const changes = plan
+    ? [
+        plan.added ? `${plan.added} added` : null,
+        plan.updated ? `${plan.updated} updated` : null,
+        plan.removed ? `${plan.removed} removed` : null,
+      ].filter(Boolean).join(', ')
+    : '';
+
+  return (
+    <ScreenScroll contentStyle={{ padding: spacing.s16, paddingBottom: spacing.s32, gap: spacing.s20 }}>
+      <View>
+        <Text style={{ color: textPrimary, fontSize: 24, fontWeight: '800', marginBottom: spacing.s8 }}>
+          {group ? `Sync ${group.name}` : 'Import a group'}
+        </Text>
+        <Text style={{ color: textMuted, fontSize: 14 }}>
+          Keep one group on everyone's phone by swapping files. Each file holds the members, bills and settlements,
+          signed with the group's sync code. Your linked accounts and transactions stay on this phone.
+        </Text>
+      </View>
+
+      {group && (
+        <View style={card}>
+          <Text style={{ color: textPrimary, fontSize: 17, fontWeight: '700' }}>Share with members</Text>
+          <Button
+            title={sharing ? 'Signing…' : 'Share group file'}
+            icon="share"
+            onPress={share}
+            loading={sharing}
+            disabled={sharing}
+          />
+          {group.sync ? (
+            <>
+              <View>
+                {sectionLabel('SYNC CODE')}
+                <Pressable
+                  onPress={copyCode}
+                  style={{ flexDirection: 'row', alignItems: 'center', gap: spacing.s8, backgroundColor: surface2, borderRadius: radius.md, padding: spacing.s12 }}
+                >
+                  <Text selectable style={{ color: textPrimary, fontSize: 16, fontWeight: '700', letterSpacing: 1, flex: 1 }}>
+                    {group.sync.code}
+                  </Text>
+                  <Icon name={copied ? 'check' : 'key'} size={16} color={copied ? accentPrimary : textMuted} />
+                </Pressable>
+              </View>
+              <Text style={{ color: textMuted, fontSize: 12 }}>
+                Members need this code the first time they import the group. Only files signed with it are accepted, so share it
+                only with the group.
+              </Text>
+              {group.sync.syncedAt && (
+                <Text style={{ color: textMuted, fontSize: 12 }}>
+                  Last synced {new Date(group.sync.syncedAt).toLocaleString(undefined, { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' })}
+                </Text>
+              )}
+            </>
+          ) : (
+            <Text style={{ color: textMuted, fontSize: 12 }}>
+              Sharing creates the group's sync code. Members need it the first time they import.
+            </Text>
+          )}
+        </View>
+      )}
+
+      <View style={card}>
+        <Text style={{ color: textPrimary, fontSize: 17, fontWeight: '700' }}>Import from a member</Text>
+        <Button
+          title={fileName ? `Change file (${fileName})` : 'Choose group file'}
+          icon="upload"
+          variant={fileName ? 'secondary' : 'primary'}
+          onPress={pickFile}
+        />
+
+        {file && !knownCode && !plan && (
+          <>
+            <Input
+              label="Sync code"
+              value={code}
+              onChangeText={setCode}
+              placeholder="ABCD-EFGH-JKLM-NPQR-STUV"
+              autoCapitalize="characters"
+            />
+            <Button
+              title={checking ? 'Checking…' : 'Open file'}
+              onPress={() => check(code)}
+              loading={checking}
+              disabled={checking || code.trim().length === 0}
+            />
+          </>
+        )}
+
+        {plan && (
+          <>
+            <Text style={{ color: textMuted, fontSize: 13 }}>
+              {plan.groupName}, shared {new Date(plan.exportedAt).toLocaleString(undefined, { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' })}
+            </Text>
+
+            <View style={{ borderRadius: radius.md, borderWidth: 1, borderColor: borderSubtle, padding: spacing.s12 }}>
+              <Text style={{ color: textPrimary, fontSize: 14 }}>
+                {plan.isNew
+                  ? `Adds the group to this phone with ${plan.added} record${plan.added === 1 ? '' : 's'}.`
+                  : changes || plan.conflicts.length
+                    ? changes || 'No changes without a conflict.'
+                    : 'This phone already has everything in the file.'}
+              </Text>
+            </View>
+
+            {plan.conflicts.length > 0 && (
+              <View style={{ gap: spacing.s8 }}>
+                {sectionLabel(`CONFLICTS (${plan.conflicts.length})`)}
+                <Text style={{ color: textMuted, fontSize: 12 }}>
+                  Changed on both phones since you last synced. Tap one to use their version instead of yours.
+                </Text>
+                {plan.conflicts.slice(0, MAX_CONFLICTS_SHOWN).map(c => {
+                  const theirs = takeTheirs.has(c.key);
+                  return (
+                    <Pressable
+                      key={c.key}
+                      onPress={() => toggleTheirs(c.key)}
+                      style={{ flexDirection: 'row', alignItems: 'center', gap: spacing.s8 }}
+                    >
+                      <Icon name="alert-triangle" size={14} color={warningColor} />
+                      <View style={{ flex: 1 }}>
+                        <Text numberOfLines={1} style={{ color: textPrimary, fontSize: 13 }}>{c.label}</Text>
+                        <Text style={{ color: textMuted, fontSize: 12 }}>{c.reason}</Text>
+                      </View>
+                      <View
+                        style={{
+                          paddingVertical: spacing.s4,
+                          paddingHorizontal: spacing.s10,
+                          borderRadius: radius.pill,
+                          backgroundColor: theirs ? accentPrimary : surface2,
+                        }}
+                      >
+                        <Text style={{ color: theirs ? onPrimary : textPrimary, fontSize: 12, fontWeight: '600' }}>
+                          {theirs ? 'Theirs' : 'Mine'}
+                        </Text>
+                      </View>
+                    </Pressable>
+                  );
+                })}
+                {plan.conflicts.length > MAX_CONFLICTS_SHOWN && (
+                  <Text style={{ color: textMuted, fontSize: 12 }}>
+                    and {plan.conflicts.length - MAX_CONFLICTS_SHOWN} more, kept as they are on this phone
+                  </Text>
+                )}
+              </View>
+            )}
+
+            <Button
+              title={importing ? 'Importing…' : plan.isNew ? 'Add group' : 'Sync group'}
+              onPress={applyImport}
+              loading={importing}
+              disabled={importing}
+            />
+          </>
+        )}
+      </View>
+    </ScreenScroll>
+  );
+}
@@ -15,9 +15,9 @@ import { useProfileStore } from '../../../store/profile';
 import { useTxStore } from '../../../store/transactions';
 import { useAccountsStore } from '../../../store/accounts';
 import { formatCurrency, sum } from '../../../lib/format';
-import type { ID } from '../../../types/groups';
 import BottomSheet from '../../../components/BottomSheet';
 import { getDefaultAccount } from '../utils/transactionIntegration';
+import { planSettlement } from '../utils/settlementPlan';
 
 // Settlement Transfer Row with Smooth Bubble Animation
 const SettlementTransferRow: React.FC<{
@@ -493,37 +493,10 @@ export default function GroupsRoot() {
     );
   };
 
-  // Calculate settlement plan (who pays who)
+  // Who pays who, using the default plan (same as Settle up)
   const calculateSettlementPlan = (groupId: string) => {
-    type Edge = { fromId: ID; toId: ID; amount: number };
-    const groupBal = balances(groupId);
-    const creditors: { id: ID; amt: number }[] = [];
-    const debtors: { id: ID; amt: number }[] = [];
-
-    Object.entries(groupBal).forEach(([id, v]) => {
-      const val = Math.round((v as number) * 100) / 100;
-      if (val > 0.009) creditors.push({ id: id as ID, amt: val });
-      else if (val < -0.009) debtors.push({ id: id as ID, amt: -val });
-    });
-
-    creditors.sort((a, b) => b.amt - a.amt);
-    debtors.sort((a, b) => b.amt - a.amt);
-
-    const edges: Edge[] = [];
-    let i = 0, j = 0;
-
-    while (i < debtors.length && j < creditors.length) {
-      const d = debtors[i];
-      const c = creditors[j];
-      const x = Math.min(d.amt, c.amt);
-      edges.push({ fromId: d.id, toId: c.id, amount: Math.round(x * 100) / 100 });
-      d.amt = Math.round((d.amt - x) * 100) / 100;
-      c.amt = Math.round((c.amt - x) * 100) / 100;
-      if (d.amt === 0) i++;
-      if (c.amt === 0) j++;
-    }
-
-    return edges;
+    const group = groups.find(g => g.id === groupId);
+    return group ? planSettlement(group, balances(groupId)) : [];
   };
 
   const recordTransfers = async (groupId: string) => {
@@ -883,6 +856,19 @@ export default function GroupsRoot() {
                     </Text>
                   </Pressable>
                 </View>
+                <Pressable
+                  onPress={() => nav.navigate('GroupSync', {})}
+                  style={{
+                    width: 40,
+                    height: 40,
+                    borderRadius: radius.pill,
+                    backgroundColor: surface1,
+                    alignItems: 'center',
+                    justifyContent: 'center',
+                  }}
+                >
+                  <Icon name="download" size={20} color={textPrimary} />
+                </Pressable>
                 <Pressable
                   onPress={() => nav.navigate('CreateGroup')}
                   style={{
@@ -916,7 +902,10 @@ export default function GroupsRoot() {
                     : 'No groups need attention right now. Switch back to all groups to keep exploring.'}
                 </Text>
                 {data.length === 0 ? (
-                  <Button title="Create group" onPress={() => nav.navigate('CreateGroup')} />
+                  <View style={{ gap: spacing.s8 }}>
+                    <Button title="Create group" onPress={() => nav.navigate('CreateGroup')} />
+                    <Button variant="secondary" title="Import a shared group" onPress={() => nav.navigate('GroupSync', {})} />
+                  </View>
                 ) : (
                   <Button variant="secondary" title="View all groups" onPress={() => setFilterTab('all')} />
                 )}
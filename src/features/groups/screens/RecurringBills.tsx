@@ -0,0 +1,488 @@
+import React, { useMemo, useState } from 'react';
+import { View, Text, TextInput, Switch, Alert, Pressable, ScrollView } from 'react-native';
+import { useRoute } from '@react-navigation/native';
+import { ScreenScroll } from '../../../components/ScreenScroll';
+import Button from '../../../components/Button';
+import Icon from '../../../components/Icon';
+import BottomSheet from '../../../components/BottomSheet';
+import { useThemeTokens } from '../../../theme/ThemeProvider';
+import { spacing, radius } from '../../../theme/tokens';
+import { useGroupsStore } from '../store';
+import { useAccountsStore } from '../../../store/accounts';
+import { formatCurrency } from '../../../lib/format';
+import type { ID, RecurringBill } from '../../../types/groups';
+import { getDefaultAccount } from '../utils/transactionIntegration';
+import { groupCurrency, currencyOf } from '../utils/currency';
+import { FREQ_LABELS, payerFor } from '../utils/recurringBills';
+
+const EXPENSE_CATEGORIES = ['Utilities', 'Groceries', 'Dining', 'Transportation', 'Entertainment', 'Shopping', 'Other'];
+
+function withAlpha(hex: string, alpha: number) {
+  if (!hex || typeof hex !== 'string') return hex;
+  if (hex.startsWith('#')) {
+    const clean = hex.slice(1, 7);
+    const padded = clean.length === 6 ? clean : clean.padEnd(6, '0');
+    const a = Math.round(Math.min(Math.max(alpha, 0), 1) * 255).toString(16).padStart(2, '0');
+    return `#${padded}${a}`;
+  }
+  return hex;
+}
+
+type Draft = {
+  title: string;
+  amount: string;
+  currency: string;
+  freq: RecurringBill['freq'];
+  anchor: Date;
+  splitMode: RecurringBill['splitMode'];
+  participants: ID[];
+  exacts: Record<ID, string>;
+  payers: ID[];
+  rotate: boolean;
+  category: string;
+  accountId: string | null;
+};
+
+export default function RecurringBills() {
+  const { get, isDark } = useThemeTokens();
+  const route = useRoute<any>();
+  const { groupId } = (route?.params ?? {}) as { groupId: string };
+  const { groups, addRecurringBill, updateRecurringBill, deleteRecurringBill } = useGroupsStore();
+  const { accounts } = useAccountsStore();
+  const group = groups.find(g => g.id === groupId);
+
+  const [editingId, setEditingId] = useState<ID | null>(null);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const textPrimary = get('text.primary') as string;
+  const textMuted = get('text.muted') as string;
+  const surface1 = get('surface.level1') as string;
+  const surface2 = get('surface.level2') as string;
+  const borderSubtle = get('border.subtle') as string;
+  const accentPrimary = get('accent.primary') as string;
+  const dangerColor = get('semantic.danger') as string;
+  const warningColor = get('semantic.warning') as string;
+
+  const activeMembers = useMemo(() => group?.members.filter(m => !m.archived) ?? [], [group]);
+  const baseCurrency = groupCurrency(group);
+  // The base currency plus any the group has paid bills in
+  const currencyOptions = useMemo(() => {
+    const set = new Set([baseCurrency]);
+    group?.bills.forEach(b => set.add(currencyOf(group, b)));
+    return [...set];
+  }, [group, baseCurrency]);
+
+  if (!group) {
+    return (
+      <ScreenScroll>
+        <View style={{ padding: spacing.s16 }}>
+          <Text style={{ color: textPrimary }}>Group not found.</Text>
+        </View>
+      </ScreenScroll>
+    );
+  }
+
+  const nameOf = (id?: ID) => group.members.find(m => m.id === id)?.name || 'Former member';
+  const templates = group.recurring || [];
+
+  const openNew = () => {
+    const ids = activeMembers.map(m => m.id);
+    setEditingId(null);
+    setDraft({
+      title: '',
+      amount: '',
+      currency: baseCurrency,
+      freq: 'monthly',
+      anchor: new Date(),
+      splitMode: 'equal',
+      participants: ids,
+      exacts: {},
+      payers: ids.slice(0, 1),
+      rotate: false,
+      category: 'Utilities',
+      accountId: getDefaultAccount()?.id || null,
+    });
+  };
+
+  const openEdit = (t: RecurringBill) => {
+    setEditingId(t.id);
+    setDraft({
+      title: t.title,
+      amount: String(t.amount),
+      currency: currencyOf(group, t),
+      freq: t.freq,
+      anchor: new Date(t.anchorISO),
+      splitMode: t.splitMode,
+      participants: [...t.participants],
+      exacts: Object.fromEntries(Object.entries(t.exacts || {}).map(([k, v]) => [k, String(v)])),
+      payers: [...t.payers],
+      rotate: !!t.rotate,
+      category: t.category || 'Other',
+      accountId: t.paidFromAccountId || null,
+    });
+  };
+
+  const close = () => { setDraft(null); setEditingId(null); };
+  const patch = (p: Partial<Draft>) => setDraft(d => (d ? { ...d, ...p } : d));
+  const toggleIn = (list: ID[], id: ID) => (list.includes(id) ? list.filter(x => x !== id) : [...list, id]);
+
+  const onSave = async () => {
+    if (!draft) return;
+    const schedule = { freq: draft.freq, anchorISO: draft.anchor.toISOString() };
+    const input = {
+      title: draft.title,
+      amount: Number(draft.amount) || 0,
+      currency: draft.currency === baseCurrency ? undefined : draft.currency,
+      splitMode: draft.splitMode,
+      participants: draft.participants,
+      exacts: draft.splitMode === 'exact'
+        ? Object.fromEntries(draft.participants.map(id => [id, Number(draft.exacts[id]) || 0]))
+        : undefined,
+      payers: draft.payers,
+      rotate: draft.rotate,
+      category: group.trackSpending ? draft.category : undefined,
+      paidFromAccountId: group.trackSpending ? draft.accountId || undefined : undefined,
+    };
+    setSaving(true);
+    try {
+      const existing = templates.find(t => t.id === editingId);
+      if (existing) {
+        // Only a changed schedule moves the next due date
+        const sameSchedule = existing.freq === draft.freq && new Date(existing.anchorISO).toDateString() === draft.anchor.toDateString();
+        await updateRecurringBill(group.id, existing.id, sameSchedule ? input : { ...input, ...schedule });
+      } else {
+        await addRecurringBill(group.id, { ...input, ...schedule });
+      }
+      close();
+    } catch (e: any) {
+      Alert.alert('Recurring bill', e?.message || String(e));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const onDelete = (t: RecurringBill) => {
+    Alert.alert(
+      'Delete recurring bill',
+      `Stop creating "${t.title}"? Bills already added stay in the group.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Delete', style: 'destructive', onPress: () => deleteRecurringBill(group.id, t.id) },
+      ]
+    );
+  };
+
+  const onToggleActive = async (t: RecurringBill, active: boolean) => {
+    try {
+      await updateRecurringBill(group.id, t.id, { active });
+    } catch (e: any) {
+      Alert.alert('Recurring bill', e?.message || String(e));
+    }
+  };
+
+  const pill = (on: boolean) => ({
+    paddingHorizontal: spacing.s12,
+    paddingVertical: spacing.s6,
+    borderRadius: radius.pill,
+    borderWidth: 1,
+    borderColor: on ? accentPrimary : borderSubtle,
+    backgroundColor: on ? withAlpha(accentPrimary, isDark ? 0.2 : 0.1) : 'transparent',
+  });
+  const pillText = (on: boolean) => ({ color: on ? accentPrimary : textMuted, fontSize: 13, fontWeight: '600' as const });
+  const label = { color: textPrimary, fontSize: 15, fontWeight: '700' as const, marginBottom: spacing.s8 };
+  const inputStyle = {
+    color: textPrimary,
+    fontSize: 16,
+    fontWeight: '600' as const,
+    backgroundColor: surface2,
+    paddingHorizontal: spacing.s12,
+    paddingVertical: spacing.s10,
+    borderRadius: radius.md,
+  };
+
+  const shiftAnchor = (days: number) => {
+    if (!draft) return;
+    const d = new Date(draft.anchor);
+    d.setDate(d.getDate() + days);
+    patch({ anchor: d });
+  };
+
+  const exactsTotal = draft ? draft.participants.reduce((s, id) => s + (Number(draft.exacts[id]) || 0), 0) : 0;
+
+  return (
+    <>
+    <ScreenScroll contentStyle={{ paddingBottom: spacing.s32 }}>
+      <View style={{ paddingHorizontal: spacing.s16, gap: spacing.s20 }}>
+        {/* Handler */}
+        <View style={{ alignSelf: 'center', width: 48, height: 4, borderRadius: 2, marginTop: spacing.s12, marginBottom: spacing.s12, backgroundColor: borderSubtle }} />
+
+        {/* Header */}
+        <View style={{ flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between' }}>
+          <Text style={{ color: textPrimary, fontSize: 20, fontWeight: '800' }}>
+            Recurring Bills
+          </Text>
+          <Pressable
+            onPress={openNew}
+            style={({ pressed }) => ({
+              width: 32,
+              height: 32,
+              borderRadius: 16,
+              backgroundColor: accentPrimary,
+              alignItems: 'center',
+              justifyContent: 'center',
+              opacity: pressed ? 0.8 : 1,
+            })}
+            hitSlop={8}
+          >
+            <Icon name="plus" size={18} color="#FFFFFF" />
+          </Pressable>
+        </View>
+
+        {templates.length === 0 ? (
+          <View style={{ backgroundColor: surface1, borderRadius: radius.lg, padding: spacing.s24, alignItems: 'center' }}>
+            <View style={{
+              width: 56,
+              height: 56,
+              borderRadius: 28,
+              backgroundColor: withAlpha(accentPrimary, isDark ? 0.15 : 0.1),
+              alignItems: 'center',
+              justifyContent: 'center',
+              marginBottom: spacing.s12,
+            }}>
+              <Icon name="refresh-cw" size={28} colorToken="accent.primary" />
+            </View>
+            <Text style={{ color: textPrimary, fontSize: 16, fontWeight: '700' }}>No recurring bills</Text>
+            <Text style={{ color: textMuted, fontSize: 13, marginTop: spacing.s4, textAlign: 'center' }}>
+              Rent, utilities and subscriptions are added to the group on their due date
+            </Text>
+          </View>
+        ) : (
+          templates.map(t => {
+            const cur = currencyOf(group, t);
+            return (
+              <Pressable
+                key={t.id}
+                onPress={() => openEdit(t)}
+                style={({ pressed }) => ({ backgroundColor: surface1, borderRadius: radius.lg, padding: spacing.s16, gap: spacing.s12, opacity: pressed ? 0.85 : 1 })}
+              >
+                <View style={{ flexDirection: 'row', alignItems: 'flex-start', gap: spacing.s12 }}>
+                  <View style={{
+                    width: 40,
+                    height: 40,
+                    borderRadius: radius.md,
+                    backgroundColor: t.active ? withAlpha(accentPrimary, isDark ? 0.25 : 0.15) : withAlpha(textMuted, isDark ? 0.15 : 0.1),
+                    alignItems: 'center',
+                    justifyContent: 'center',
+                  }}>
+                    <Icon name="refresh-cw" size={18} color={t.active ? accentPrimary : textMuted} />
+                  </View>
+                  <View style={{ flex: 1 }}>
+                    <Text style={{ color: textPrimary, fontWeight: '700', fontSize: 15 }}>{t.title}</Text>
+                    <Text style={{ color: textMuted, fontSize: 13, marginTop: 2 }}>
+                      {formatCurrency(t.amount, cur)} · {FREQ_LABELS[t.freq]} · {t.splitMode === 'exact' ? 'Custom split' : `Split ${t.participants.length} ways`}
+                    </Text>
+                    <View style={{ flexDirection: 'row', alignItems: 'center', gap: spacing.s6, marginTop: spacing.s8 }}>
+                      <Icon name="calendar" size={14} colorToken="text.muted" />
+                      <Text style={{ color: t.active ? textMuted : warningColor, fontSize: 12 }}>
+                        {t.active
+                          ? `Next ${new Date(t.nextDueISO).toDateString()} · ${nameOf(payerFor(t))} pays${t.rotate ? ', then rotates' : ''}`
+                          : 'Paused'}
+                      </Text>
+                    </View>
+                  </View>
+                  <Switch value={t.active} onValueChange={v => onToggleActive(t, v)} />
+                </View>
+
+                <Pressable
+                  onPress={() => onDelete(t)}
+                  style={({ pressed }) => ({
+                    paddingVertical: spacing.s10,
+                    borderRadius: radius.md,
+                    backgroundColor: withAlpha(dangerColor, isDark ? 0.15 : 0.1),
+                    alignItems: 'center',
+                    justifyContent: 'center',
+                    opacity: pressed ? 0.7 : 1,
+                    flexDirection: 'row',
+                    gap: spacing.s6,
+                  })}
+                >
+                  <Icon name="trash" size={16} color={dangerColor} />
+                  <Text style={{ color: dangerColor, fontWeight: '600', fontSize: 14 }}>Delete recurring bill</Text>
+                </Pressable>
+              </Pressable>
+            );
+          })
+        )}
+      </View>
+    </ScreenScroll>
+
+    <BottomSheet visible={!!draft} onClose={close} fullHeight>
+      {draft && (
+        <ScrollView contentContainerStyle={{ padding: spacing.s16, gap: spacing.s20, paddingBottom: spacing.s32 }} keyboardShouldPersistTaps="handled">
+          <Text style={{ color: textPrimary, fontSize: 20, fontWeight: '800' }}>
+            {editingId ? 'Edit Recurring Bill' : 'New Recurring Bill'}
+          </Text>
+
+          <View>
+            <Text style={label}>Name</Text>
+            <TextInput value={draft.title} onChangeText={t => patch({ title: t })} placeholder="e.g. Rent" placeholderTextColor={textMuted} style={inputStyle} />
+          </View>
+
+          <View>
+            <Text style={label}>Amount</Text>
+            <TextInput
+              value={draft.amount}
+              onChangeText={t => patch({ amount: t.replace(/[^0-9.]/g, '') })}
+              placeholder="0.00"
+              placeholderTextColor={textMuted}
+              keyboardType="decimal-pad"
+              style={inputStyle}
+            />
+            {currencyOptions.length > 1 && (
+              <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: spacing.s6, marginTop: spacing.s8 }}>
+                {currencyOptions.map(code => (
+                  <Pressable key={code} onPress={() => patch({ currency: code })} style={pill(draft.currency === code)}>
+                    <Text style={pillText(draft.currency === code)}>{code}</Text>
+                  </Pressable>
+                ))}
+              </View>
+            )}
+            {draft.currency !== baseCurrency && (
+              <Text style={{ color: textMuted, fontSize: 12, marginTop: spacing.s6 }}>
+                Each bill is converted to {baseCurrency} at the rate on its due date
+              </Text>
+            )}
+          </View>
+
+          <View>
+            <Text style={label}>Repeats</Text>
+            <View style={{ flexDirection: 'row', gap: spacing.s6 }}>
+              {(Object.keys(FREQ_LABELS) as RecurringBill['freq'][]).map(f => (
+                <Pressable key={f} onPress={() => patch({ freq: f })} style={pill(draft.freq === f)}>
+                  <Text style={pillText(draft.freq === f)}>{FREQ_LABELS[f]}</Text>
+                </Pressable>
+              ))}
+            </View>
+            <View style={{ flexDirection: 'row', alignItems: 'center', gap: spacing.s8, marginTop: spacing.s12 }}>
+              <Pressable onPress={() => shiftAnchor(-1)} hitSlop={8} style={{ padding: spacing.s4 }}>
+                <Icon name="chevron-left" size={20} color={textMuted} />
+              </Pressable>
+              <Text style={{ color: textPrimary, fontSize: 15, fontWeight: '600', flex: 1, textAlign: 'center' }}>
+                First due {draft.anchor.toDateString()}
+              </Text>
+              <Pressable onPress={() => shiftAnchor(1)} hitSlop={8} style={{ padding: spacing.s4 }}>
+                <Icon name="chevron-right" size={20} color={textMuted} />
+              </Pressable>
+            </View>
+          </View>
+
+          <View>
+            <Text style={label}>Split between</Text>
+            <View style={{ flexDirection: 'row', gap: spacing.s6, marginBottom: spacing.s10 }}>
+              {(['equal', 'exact'] as const).map(m => (
+                <Pressable key={m} onPress={() => patch({ splitMode: m })} style={pill(draft.splitMode === m)}>
+                  <Text style={pillText(draft.splitMode === m)}>{m === 'equal' ? 'Equally' : 'Custom'}</Text>
+                </Pressable>
+              ))}
+            </View>
+            <View style={{ backgroundColor: surface1, borderRadius: radius.lg, overflow: 'hidden' }}>
+              {activeMembers.map((m, i) => {
+                const on = draft.participants.includes(m.id);
+                return (
+                  <View key={m.id} style={{ flexDirection: 'row', alignItems: 'center', gap: spacing.s10, padding: spacing.s12, borderTopWidth: i ? 1 : 0, borderTopColor: borderSubtle }}>
+                    <Pressable onPress={() => patch({ participants: toggleIn(draft.participants, m.id) })} style={{ flexDirection: 'row', alignItems: 'center', gap: spacing.s10, flex: 1 }}>
+                      {on ? (
+                        <Icon name="check-circle" size={20} color={accentPrimary} />
+                      ) : (
+                        <View style={{ width: 20, height: 20, borderRadius: 10, borderWidth: 2, borderColor: borderSubtle }} />
+                      )}
+                      <Text style={{ color: textPrimary, fontSize: 15, fontWeight: '600' }}>{m.name}</Text>
+                    </Pressable>
+                    {draft.splitMode === 'exact' && on && (
+                      <TextInput
+                        value={draft.exacts[m.id] || ''}
+                        onChangeText={t => patch({ exacts: { ...draft.exacts, [m.id]: t.replace(/[^0-9.]/g, '') } })}
+                        placeholder="0.00"
+                        placeholderTextColor={textMuted}
+                        keyboardType="decimal-pad"
+                        style={[inputStyle, { width: 100, textAlign: 'right', paddingVertical: spacing.s6 }]}
+                      />
+                    )}
+                  </View>
+                );
+              })}
+            </View>
+            {draft.splitMode === 'exact' && (
+              <Text style={{ color: Math.abs(exactsTotal - (Number(draft.amount) || 0)) > 0.01 ? warningColor : textMuted, fontSize: 12, marginTop: spacing.s6 }}>
+                {formatCurrency(exactsTotal, draft.currency)} of {formatCurrency(Number(draft.amount) || 0, draft.currency)} assigned
+              </Text>
+            )}
+          </View>
+
+          <View>
+            <Text style={label}>Paid by</Text>
+            <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: spacing.s6 }}>
+              {activeMembers.map(m => {
+                const idx = draft.payers.indexOf(m.id);
+                return (
+                  <Pressable
+                    key={m.id}
+                    onPress={() => patch({ payers: draft.rotate ? toggleIn(draft.payers, m.id) : [m.id] })}
+                    style={pill(idx >= 0)}
+                  >
+                    <Text style={pillText(idx >= 0)}>{draft.rotate && idx >= 0 ? `${idx + 1}. ` : ''}{m.name}</Text>
+                  </Pressable>
+                );
+              })}
+            </View>
+            <View style={{ flexDirection: 'row', alignItems: 'center', marginTop: spacing.s12 }}>
+              <View style={{ flex: 1 }}>
+                <Text style={{ color: textPrimary, fontSize: 15, fontWeight: '600' }}>Take turns paying</Text>
+                <Text style={{ color: textMuted, fontSize: 12, marginTop: 2 }}>
+                  Each bill goes to the next person, in the order tapped
+                </Text>
+              </View>
+              <Switch value={draft.rotate} onValueChange={v => patch({ rotate: v, payers: v ? draft.payers : draft.payers.slice(0, 1) })} />
+            </View>
+          </View>
+
+          {group.trackSpending && (
+            <View>
+              <Text style={label}>Category</Text>
+              <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: spacing.s6 }}>
+                {EXPENSE_CATEGORIES.map(c => (
+                  <Pressable key={c} onPress={() => patch({ category: c })} style={pill(draft.category === c)}>
+                    <Text style={pillText(draft.category === c)}>{c}</Text>
+                  </Pressable>
+                ))}
+              </View>
+            </View>
+          )}
+
+          {group.trackSpending && accounts.length > 0 && (
+            <View>
+              <Text style={label}>Paid from</Text>
+              <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: spacing.s6 }}>
+                <Pressable onPress={() => patch({ accountId: null })} style={pill(!draft.accountId)}>
+                  <Text style={pillText(!draft.accountId)}>Don't record</Text>
+                </Pressable>
+                {accounts.map(a => (
+                  <Pressable key={a.id} onPress={() => patch({ accountId: a.id })} style={pill(draft.accountId === a.id)}>
+                    <Text style={pillText(draft.accountId === a.id)}>{a.name}</Text>
+                  </Pressable>
+                ))}
+              </View>
+              <Text style={{ color: textMuted, fontSize: 12, marginTop: spacing.s6 }}>
+                When it's your turn to pay, the expense is recorded in your transaction history
+              </Text>
+            </View>
+          )}
+
+          <Button title={editingId ? 'Save changes' : 'Create recurring bill'} onPress={onSave} loading={saving} />
+        </ScrollView>
+      )}
+    </BottomSheet>
+    </>
+  );
+}
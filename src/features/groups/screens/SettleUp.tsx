@@ -1,5 +1,5 @@
-import React, { useMemo } from 'react';
-import { View, Text, Share, Alert } from 'react-native';
+import React, { useEffect, useMemo, useState } from 'react';
+import { View, Text, Share, Alert, Pressable } from 'react-native';
 import { ScreenScroll } from '../../../components/ScreenScroll';
 import Button from '../../../components/Button';
 import { useThemeTokens } from '../../../theme/ThemeProvider';
@@ -8,44 +8,81 @@ import { useRoute, useNavigation } from '@react-navigation/native';
 import { useGroupsStore } from '../store';
 import type { ID } from '../../../types/groups';
 import { formatCurrency } from '../../../lib/format';
+import { findExchangeRate } from '../../../lib/fx';
+import { currencyOf, groupCurrency } from '../utils/currency';
+import { planSettlement, PLAN_MODES, type PlanMode, type Transfer as Edge } from '../utils/settlementPlan';
 
-type Edge = { fromId: ID; toId: ID; amount: number };
+// Round transfers to the cent, or to whole amounts that are easier to pay in cash
+const ROUND_OPTIONS = [0.01, 1, 5, 10];
 
 export default function SettleUp() {
   const nav = useNavigation<any>();
   const { get } = useThemeTokens();
   const route = useRoute<any>();
   const { groupId } = (route?.params ?? {}) as { groupId: string };
-  const { groups, balances, addSettlement } = useGroupsStore();
+  const { groups, balances, addSettlement, updateMember } = useGroupsStore();
   const group = groups.find(g => g.id === groupId);
 
   const bal = useMemo(() => balances(groupId), [groupId, balances]);
   const membersById = useMemo(() => Object.fromEntries((group?.members || []).map(m => [m.id, m])), [group]);
 
-  const plan: Edge[] = useMemo(() => {
-    const creditors: { id: ID; amt: number }[] = [];
-    const debtors: { id: ID; amt: number }[] = [];
-    Object.entries(bal).forEach(([id, v]) => {
-      const val = Math.round((v as number) * 100) / 100;
-      if (val > 0.009) creditors.push({ id: id as ID, amt: val });
-      else if (val < -0.009) debtors.push({ id: id as ID, amt: -val });
-    });
-    creditors.sort((a,b)=>b.amt - a.amt);
-    debtors.sort((a,b)=>b.amt - a.amt);
-    const edges: Edge[] = [];
-    let i = 0, j = 0;
-    while (i < debtors.length && j < creditors.length) {
-      const d = debtors[i];
-      const c = creditors[j];
-      const x = Math.min(d.amt, c.amt);
-      edges.push({ fromId: d.id, toId: c.id, amount: Math.round(x*100)/100 });
-      d.amt = Math.round((d.amt - x)*100)/100;
-      c.amt = Math.round((c.amt - x)*100)/100;
-      if (d.amt === 0) i++;
-      if (c.amt === 0) j++;
+  const [mode, setMode] = useState<PlanMode>('minimum');
+  const [hubId, setHubId] = useState<ID | undefined>(() => group?.members.find(m => !m.archived)?.id);
+  const [roundTo, setRoundTo] = useState(ROUND_OPTIONS[0]);
+
+  // `groups` is in the deps because members are edited in place, e.g. to skip settling
+  const { plan, planError } = useMemo((): { plan: Edge[]; planError?: string } => {
+    if (!group) return { plan: [] };
+    try {
+      return { plan: planSettlement(group, bal, { mode, hubId, roundTo }) };
+    } catch (e) {
+      return { plan: [], planError: e instanceof Error ? e.message : 'Could not work out transfers' };
+    }
+  }, [group, groups, bal, mode, hubId, roundTo]);
+
+  // Members who've been part of the group's money, and whether they settle
+  const settlers = (group?.members || []).filter(m => !m.archived || Math.abs(bal[m.id] || 0) > 0.009);
+  const skipped = settlers.filter(m => m.skipSettling && Math.abs(bal[m.id] || 0) > 0.009);
+
+  const toggleSkip = async (memberId: ID, skip: boolean) => {
+    try {
+      await updateMember(groupId, memberId, { skipSettling: skip || undefined });
+    } catch (e) {
+      Alert.alert('Could not update member', e instanceof Error ? e.message : 'Unknown error');
     }
-    return edges;
-  }, [bal]);
+  };
+
+  // Transfers can be paid in any currency the group's bills used
+  const baseCurrency = groupCurrency(group);
+  const payOptions = useMemo(
+    () => Array.from(new Set([baseCurrency, ...(group?.bills || []).map(b => currencyOf(group, b))])),
+    [group, baseCurrency]
+  );
+  const [payIn, setPayIn] = useState(baseCurrency);
+  const [payRate, setPayRate] = useState(1); // base currency per unit of `payIn`
+
+  useEffect(() => {
+    if (payIn === baseCurrency) { setPayRate(1); return; }
+    let cancelled = false;
+    findExchangeRate(payIn, baseCurrency)
+      .then(r => {
+        if (!r) throw new Error(`No ${payIn} rate`);
+        if (!cancelled) setPayRate(r);
+      })
+      .catch(() => { if (!cancelled) { Alert.alert('Exchange rate', `Could not get a ${payIn} rate.`); setPayIn(baseCurrency); } });
+    return () => { cancelled = true; };
+  }, [payIn, baseCurrency]);
+
+  /** A transfer in the chosen currency; the rate is exact so it clears the base-currency balance to the cent. */
+  const inPayCurrency = (e: Edge) => {
+    if (payIn === baseCurrency) return { amount: e.amount, rate: undefined };
+    const amount = Math.round((e.amount / payRate) * 100) / 100;
+    return { amount, rate: amount > 0 ? e.amount / amount : undefined };
+  };
+  const money = (e: Edge) =>
+    payIn === baseCurrency
+      ? formatCurrency(e.amount, baseCurrency)
+      : `${formatCurrency(inPayCurrency(e).amount, payIn)} (${formatCurrency(e.amount, baseCurrency)})`;
 
   if (!group) {
     return (
@@ -60,14 +97,31 @@ export default function SettleUp() {
 
   const shareText = () => {
     if (plan.length === 0) return 'No one owes anything.';
-    const lines = plan.map(e => `${membersById[e.fromId]?.name || '—'} → ${membersById[e.toId]?.name || '—'}: ${formatCurrency(e.amount)}`);
+    const lines = plan.map(e => `${membersById[e.fromId]?.name || '—'} → ${membersById[e.toId]?.name || '—'}: ${money(e)}`);
     return `Settle up for ${group.name}\n` + lines.join('\n');
   };
 
+  const pill = (key: string, label: string, selected: boolean, onPress: () => void) => (
+    <Pressable
+      key={key}
+      onPress={onPress}
+      style={{
+        paddingHorizontal: spacing.s12,
+        paddingVertical: spacing.s6,
+        borderRadius: radius.pill,
+        borderWidth: 1,
+        borderColor: selected ? get('accent.primary') as string : get('border.subtle') as string,
+      }}
+    >
+      <Text style={{ color: selected ? get('accent.primary') as string : get('text.muted') as string, fontWeight: '700', fontSize: 13 }}>{label}</Text>
+    </Pressable>
+  );
+
   const recordAll = async () => {
     if (plan.length === 0) { Alert.alert('All settled', 'No transfers needed.'); return; }
     for (const e of plan) {
-      await addSettlement(group.id, e.fromId, e.toId, e.amount);
+      const paid = inPayCurrency(e);
+      await addSettlement(group.id, e.fromId, e.toId, paid.amount, undefined, undefined, undefined, undefined, payIn, paid.rate);
     }
     Alert.alert('Recorded', 'Transfers recorded.');
     nav.goBack();
@@ -77,15 +131,57 @@ export default function SettleUp() {
     <ScreenScroll>
       <View style={{ padding: spacing.s16, gap: spacing.s16 }}>
         <Text style={{ color: get('text.primary') as string, fontSize: 24, fontWeight: '800', marginTop: spacing.s12, marginBottom: spacing.s12 }}>Settle up</Text>
-        {plan.length === 0 ? (
+        <View style={{ gap: spacing.s8 }}>
+          <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: spacing.s8 }}>
+            {(Object.keys(PLAN_MODES) as PlanMode[]).map(m => pill(m, PLAN_MODES[m].label, m === mode, () => setMode(m)))}
+          </View>
+          <Text style={{ color: get('text.muted') as string, fontSize: 13 }}>{PLAN_MODES[mode].hint}</Text>
+        </View>
+        {mode === 'hub' && (
+          <View style={{ gap: spacing.s8 }}>
+            <Text style={{ color: get('text.muted') as string }}>Treasurer</Text>
+            <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: spacing.s8 }}>
+              {group.members.filter(m => !m.archived).map(m => pill(m.id, m.name, m.id === hubId, () => setHubId(m.id)))}
+            </View>
+          </View>
+        )}
+        <View style={{ flexDirection: 'row', alignItems: 'center', flexWrap: 'wrap', gap: spacing.s8 }}>
+          <Text style={{ color: get('text.muted') as string }}>Round to</Text>
+          {ROUND_OPTIONS.map(r => pill(String(r), r < 1 ? 'Exact' : formatCurrency(r, baseCurrency, { compact: true }), r === roundTo, () => setRoundTo(r)))}
+        </View>
+        {settlers.length > 2 && (
+          <View style={{ gap: spacing.s8 }}>
+            <Text style={{ color: get('text.muted') as string }}>Settling now (tap to leave someone out)</Text>
+            <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: spacing.s8 }}>
+              {settlers.map(m => pill(m.id, m.name, !m.skipSettling, () => toggleSkip(m.id, !m.skipSettling)))}
+            </View>
+            {skipped.length > 0 && (
+              <Text style={{ color: get('text.muted') as string, fontSize: 13 }}>
+                {skipped.map(m => m.name).join(', ')} {skipped.length === 1 ? 'keeps their' : 'keep their'} balance until they're added back.
+              </Text>
+            )}
+          </View>
+        )}
+        {plan.length > 0 && payOptions.length > 1 && (
+          <View style={{ flexDirection: 'row', alignItems: 'center', gap: spacing.s8 }}>
+            <Text style={{ color: get('text.muted') as string }}>Pay in</Text>
+            {payOptions.map(code => pill(code, code, code === payIn, () => setPayIn(code)))}
+          </View>
+        )}
+        {planError ? (
+          <Text style={{ color: get('text.muted') as string }}>{planError}</Text>
+        ) : plan.length === 0 ? (
           <Text style={{ color: get('text.muted') as string }}>Everyone is settled 🎉</Text>
         ) : (
           <View style={{ borderWidth:1, borderColor:get('border.subtle') as string, borderRadius: radius.md, padding: spacing.s12, gap: spacing.s8 }}>
             {plan.map((e, idx) => (
               <Text key={idx} style={{ color: get('text.primary') as string }}>
-                {membersById[e.fromId]?.name || '—'} → {membersById[e.toId]?.name || '—'}: {formatCurrency(e.amount)}
+                {membersById[e.fromId]?.name || '—'} → {membersById[e.toId]?.name || '—'}: {money(e)}
               </Text>
             ))}
+            {roundTo >= 1 && (
+              <Text style={{ color: get('text.muted') as string, fontSize: 12 }}>Rounded amounts can leave small balances behind.</Text>
+            )}
           </View>
         )}
         <View style={{ flexDirection:'row', gap: spacing.s8 }}>
@@ -8,6 +8,8 @@ export { default as EditBill } from './EditBill';
 export { default as EditGroup } from './EditGroup';
 export { default as GroupDetail } from './GroupDetail';
 export { default as GroupReminders } from './GroupReminders';
+export { default as GroupSync } from './GroupSync';
 export { default as GroupsRoot } from './GroupsRoot';
+export { default as RecurringBills } from './RecurringBills';
 export { default as ManageMembers } from './ManageMembers';
 export { default as SettleUp } from './SettleUp';
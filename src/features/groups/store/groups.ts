@@ -1,11 +1,17 @@
 import { create } from 'zustand';
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import type { Group, Member, Bill, ID, Contribution, Settlement } from '../../../types/groups';
+import { ensureDatabase } from '../../../db/bootstrap';
+import { listGroups, saveGroup, deleteGroup as deleteGroupRows } from '../../../db/repositories/groups';
+import type { Group, Member, Bill, BillItem, ID, Contribution, Settlement, RecurringBill } from '../../../types/groups';
 import { round2, sum } from '../../../lib/format';
 import { createBillPaymentTransaction, createSettlementTransaction, deleteBillTransaction } from '../utils/transactionIntegration';
+import { cleanItems, itemShares, itemsSubtotal } from '../utils/billItems';
+import { resolveRate, toGroupCurrency } from '../utils/currency';
+import { MAX_CATCH_UP, dueAfter, firstDueFrom, occurrenceId, payerFor } from '../utils/recurringBills';
+import { createLedgerFile, mergeLedger, shareLedgerFile, verifyLedgerFile, type LedgerFile, type LedgerPlan } from '../utils/ledgerSync';
 
-type SplitMode = 'equal'|'shares'|'exact';
+type SplitMode = 'equal'|'shares'|'exact'|'items';
 type PayerMode = 'single'|'multi-even'|'multi-custom';
+type RecurringInput = Pick<RecurringBill, 'title' | 'amount' | 'currency' | 'freq' | 'anchorISO' | 'splitMode' | 'participants' | 'exacts' | 'payers' | 'rotate' | 'category' | 'paidFromAccountId'>;
 
 type State = {
   groups: Group[];
@@ -28,6 +34,9 @@ type State = {
     splitMode: SplitMode;
     shares?: Record<ID, number>;
     exacts?: Record<ID, number>;
+    items?: BillItem[]; // splitMode 'items': participants and amount come from these
+    currency?: string; // amounts are in this currency; the group's when unset
+    rate?: number; // group currency per unit of `currency`; fetched when unset
     proportionalTax?: boolean;
     payerMode: PayerMode;
     paidBy?: ID;
@@ -36,9 +45,12 @@ type State = {
     category?: string;
     paidFromAccountId?: string;
     currentUserId?: ID;
+    createdAt?: number; // defaults to now
+    id?: ID; // defaults to a new one
   }) => Promise<ID>;
   balances: (groupId: ID) => Record<ID, number>;
-  addSettlement: (groupId: ID, fromId: ID, toId: ID, amount: number, billId?: ID, memo?: string, toAccountId?: string, currentUserId?: ID) => Promise<ID>;
+  /** `amount` is in `currency` (the group's when unset), converted at `rate` or today's rate. */
+  addSettlement: (groupId: ID, fromId: ID, toId: ID, amount: number, billId?: ID, memo?: string, toAccountId?: string, currentUserId?: ID, currency?: string, rate?: number) => Promise<ID>;
   markSplitPaid: (groupId: ID, billId: ID, memberId: ID, toAccountId?: string, currentUserId?: ID) => Promise<void>;
   findBill: (groupId: ID, billId: ID) => Bill | undefined;
   deleteBill: (groupId: ID, billId: ID) => Promise<void>;
@@ -55,25 +67,67 @@ type State = {
     splitMode: SplitMode;
     shares?: Record<ID, number>;
     exacts?: Record<ID, number>;
+    items?: BillItem[]; // splitMode 'items': participants and amount come from these
+    currency?: string; // amounts are in this currency; the group's when unset
+    rate?: number; // group currency per unit of `currency`; fetched when unset
     proportionalTax?: boolean;
     payerMode: PayerMode;
     paidBy?: ID;
     payersEven?: ID[];
     contributions?: Record<ID, number>;
   }) => Promise<void>;
+  /** The first bill is due on the first due date from today. */
+  addRecurringBill: (groupId: ID, input: RecurringInput) => Promise<ID>;
+  updateRecurringBill: (groupId: ID, id: ID, patch: Partial<RecurringInput> & { active?: boolean }) => Promise<void>;
+  deleteRecurringBill: (groupId: ID, id: ID) => Promise<void>;
+  /** Turns every recurring bill that has come due into a bill; returns how many were created. */
+  generateDueBills: (now?: Date) => Promise<number>;
+  /** Signs the group's ledger into a file and opens the share sheet; returns the sync code needed to import it. */
+  shareLedger: (groupId: ID) => Promise<string>;
+  /**
+   * Merges a ledger file into its group, adding the group if it isn't here.
+   * Conflicts keep this phone's copy unless their key is in `takeTheirs`.
+   */
+  importLedger: (file: LedgerFile, code: string, takeTheirs?: string[]) => Promise<LedgerPlan>;
+  /** What `importLedger` would change, without writing anything. */
+  previewLedger: (file: LedgerFile, code: string) => Promise<LedgerPlan>;
   updateGroup: (groupId: ID, patch: { name?: string; note?: string }) => Promise<void>;
   deleteGroup: (groupId: ID) => Promise<void>;
 };
 
-const KEY = 'fingrow/groups';
 const uid = () => Math.random().toString(36).slice(2) + Date.now().toString(36);
 
-async function save(arr: Group[]) { await AsyncStorage.setItem(KEY, JSON.stringify(arr)); }
+/** Throws when a recurring bill can't be split as configured. */
+function checkRecurring(t: RecurringInput) {
+  if (!t.title.trim()) throw new Error('Give the bill a name');
+  if (!(t.amount > 0)) throw new Error('Enter a valid amount');
+  if (t.participants.length === 0) throw new Error('Select at least one participant');
+  if (t.payers.length === 0) throw new Error('Select who pays');
+  if (t.splitMode === 'exact') {
+    const total = sum(t.participants.map(id => Number(t.exacts?.[id]) || 0));
+    if (Math.abs(total - t.amount) > 0.01) throw new Error('Custom amounts must add up to the bill amount');
+  }
+}
+
+/** Verifies a ledger file and merges it into the stored copy of its group, if any. */
+async function mergeStored(file: LedgerFile, code: string, takeTheirs: string[] = []) {
+  // Stored rather than in-memory copies, so unchanged records hash the same every time
+  const local = (await listGroups()).find(g => g.id === file.ledger.group.id);
+  verifyLedgerFile(file, local?.sync?.code || code);
+  return mergeLedger(local, file, local?.sync?.code || code, new Set(takeTheirs));
+}
+
+// One pass at a time, so overlapping calls can't create the same bill twice
+let generating: Promise<number> | null = null;
+
+// Each group is stored as a unit, so only the group that changed is written
+async function save(group: Group) { await saveGroup(group); }
 
 function migrate(groups: Group[]): Group[] {
   return groups.map(g => ({
     ...g,
     settlements: g.settlements || [],
+    recurring: g.recurring || [],
     bills: (g.bills || []).map(b => {
       if (!(b as any).contributions && (b as any).paidBy) {
         return { ...b, contributions: [{ memberId: (b as any).paidBy as ID, amount: b.finalAmount }], paidBy: undefined };
@@ -90,11 +144,15 @@ export const useGroupsStore = create<State>((set, get) => ({
   groups: [],
   ready: false,
   hydrate: async () => {
-    const raw = await AsyncStorage.getItem(KEY);
-    const arr: Group[] = raw ? JSON.parse(raw) : [];
-    const migrated = migrate(arr);
-    set({ groups: migrated, ready: true });
-    await save(migrated);
+    try {
+      await ensureDatabase();
+      set({ groups: migrate(await listGroups()), ready: true });
+    } catch (e) {
+      console.error('[groups] Failed to load:', e);
+      set({ ready: true });
+      return;
+    }
+    await get().generateDueBills().catch(e => console.error('[groups] Failed to generate recurring bills:', e));
   },
   createGroup: async ({ name, note, currency, members }) => {
     const arr = [...get().groups];
@@ -105,7 +163,7 @@ export const useGroupsStore = create<State>((set, get) => ({
       g.members.push(mem);
     });
     arr.unshift(g);
-    set({ groups: arr }); await save(arr);
+    set({ groups: arr }); await save(g);
     return g.id;
   },
   addMember: async (groupId, input) => {
@@ -114,7 +172,7 @@ export const useGroupsStore = create<State>((set, get) => ({
     if (i < 0) throw new Error('Group not found');
     const m: Member = { id: uid(), name: input.name.trim(), contact: input.contact?.trim() || undefined };
     arr[i].members.push(m);
-    set({ groups: arr }); await save(arr);
+    set({ groups: arr }); await save(arr[i]);
     return m.id;
   },
   updateMember: async (groupId, memberId, patch) => {
@@ -124,36 +182,44 @@ export const useGroupsStore = create<State>((set, get) => ({
     const mi = arr[gi].members.findIndex(m => m.id === memberId);
     if (mi < 0) throw new Error('Member not found');
     arr[gi].members[mi] = { ...arr[gi].members[mi], ...patch };
-    set({ groups: arr }); await save(arr);
+    set({ groups: arr }); await save(arr[gi]);
   },
   archiveMember: async (groupId, memberId, archived=true) => {
     const arr = [...get().groups];
     const gi = arr.findIndex(g => g.id === groupId);
     if (gi < 0) throw new Error('Group not found');
     const mi = arr[gi].members.findIndex(m => m.id === memberId);
-    if (mi >= 0) { arr[gi].members[mi].archived = archived; set({ groups: arr }); await save(arr); }
+    if (mi >= 0) { arr[gi].members[mi].archived = archived; set({ groups: arr }); await save(arr[gi]); }
   },
   deleteMember: async (groupId, memberId) => {
     const arr = [...get().groups];
     const gi = arr.findIndex(g => g.id === groupId);
     if (gi < 0) throw new Error('Group not found');
+    const group = arr[gi];
+    const referenced = group.bills.some(b => b.splits.some(s => s.memberId === memberId) || b.contributions.some(c => c.memberId === memberId))
+      || (group.settlements || []).some(s => s.fromId === memberId || s.toId === memberId);
+    if (referenced) throw new Error('This member is part of bills or settlements. Archive them instead.');
     arr[gi].members = arr[gi].members.filter(m => m.id !== memberId);
     set({ groups: arr });
-    await save(arr);
+    await save(arr[gi]);
   },
   addBill: async (input) => {
+    const fx = await resolveRate(get().groups.find(g => g.id === input.groupId) || {}, input.currency, input.rate);
     const arr = [...get().groups];
     const gi = arr.findIndex(g => g.id === input.groupId);
     if (gi < 0) throw new Error('Group not found');
     const group = arr[gi];
 
     const activeIds = new Set(group.members.filter(m => !m.archived).map(m => m.id));
-    const participants = input.participants.filter(id => activeIds.has(id));
+    const items = input.splitMode === 'items' ? cleanItems(input.items || [], activeIds) : undefined;
+    const participants = items
+      ? Array.from(new Set(items.flatMap(i => i.sharedBy)))
+      : input.participants.filter(id => activeIds.has(id));
     if (participants.length === 0) throw new Error('Select at least one active participant');
 
-    const taxVal = input.taxMode === 'pct' ? (input.amount * input.tax / 100) : input.tax;
-    const discVal = input.discountMode === 'pct' ? (input.amount * input.discount / 100) : input.discount;
-    const base = input.amount;
+    const base = items ? itemsSubtotal(items) : input.amount;
+    const taxVal = input.taxMode === 'pct' ? (base * input.tax / 100) : input.tax;
+    const discVal = input.discountMode === 'pct' ? (base * input.discount / 100) : input.discount;
     const finalAmount = round2(base + (taxVal || 0) - (discVal || 0));
     if (finalAmount <= 0) throw new Error('Final amount must be greater than 0');
 
@@ -173,6 +239,9 @@ export const useGroupsStore = create<State>((set, get) => ({
         assigned = round2(assigned + share);
         return { memberId: id, share };
       });
+    } else if (items) {
+      const shares = itemShares(items);
+      baseSplits = participants.map(id => ({ memberId: id, share: shares[id] ?? 0 }));
     } else {
       const totals = participants.map(id => input.exacts?.[id] ?? 0);
       const sumEx = round2(sum(totals));
@@ -195,7 +264,8 @@ export const useGroupsStore = create<State>((set, get) => ({
       let assigned = 0;
       finalSplits = participants.map((id, idx) => {
         const baseShare = baseSplits.find(s => s.memberId === id)?.share ?? 0;
-        let finalShare = input.proportionalTax ? round2(baseShare + (baseShare / (baseSum||1)) * ((taxVal||0) - (discVal||0))) : baseShare;
+        // Itemised bills always spread fees by what each person had
+        let finalShare = input.proportionalTax || items ? round2(baseShare + (baseShare / (baseSum||1)) * ((taxVal||0) - (discVal||0))) : baseShare;
         if (idx === participants.length - 1) finalShare = round2(finalAmount - assigned);
         assigned = round2(assigned + finalShare);
         return { memberId: id, share: finalShare, settled: false };
@@ -224,16 +294,18 @@ export const useGroupsStore = create<State>((set, get) => ({
     }
 
     const bill: Bill = {
-      id: uid(),
+      id: input.id || uid(),
       groupId: group.id,
       title: input.title.trim() || 'Untitled bill',
       amount: base,
       tax: input.tax, taxMode: input.taxMode,
       discount: input.discount, discountMode: input.discountMode,
       finalAmount,
+      ...fx,
       contributions,
       splits: finalSplits,
-      createdAt: Date.now(),
+      items,
+      createdAt: input.createdAt ?? Date.now(),
       category: input.category,
       paidFromAccountId: input.paidFromAccountId,
     };
@@ -246,7 +318,8 @@ export const useGroupsStore = create<State>((set, get) => ({
           const transactionId = await createBillPaymentTransaction(
             bill,
             input.paidFromAccountId,
-            input.currentUserId
+            input.currentUserId,
+            group
           );
           bill.transactionId = transactionId;
         } catch (error) {
@@ -257,7 +330,7 @@ export const useGroupsStore = create<State>((set, get) => ({
     }
 
     arr[gi] = { ...group, bills: [bill, ...group.bills] };
-    set({ groups: arr }); await save(arr);
+    set({ groups: arr }); await save(arr[gi]);
     return bill.id;
   },
   balances: (groupId) => {
@@ -265,17 +338,19 @@ export const useGroupsStore = create<State>((set, get) => ({
     const res: Record<ID, number> = {};
     if (!g) return res;
     g.members.forEach(m => (res[m.id] = 0));
+    // In the group's currency, at the rate each bill and settlement was entered with
     g.bills.forEach(b => {
-      b.contributions.forEach(c => { res[c.memberId] = round2((res[c.memberId] || 0) + c.amount); });
-      b.splits.forEach(s => { res[s.memberId] = round2((res[s.memberId] || 0) - s.share); });
+      b.contributions.forEach(c => { res[c.memberId] = round2((res[c.memberId] || 0) + toGroupCurrency(c.amount, b)); });
+      b.splits.forEach(s => { res[s.memberId] = round2((res[s.memberId] || 0) - toGroupCurrency(s.share, b)); });
     });
     (g.settlements || []).forEach(s => {
-      res[s.fromId] = round2((res[s.fromId] || 0) + s.amount);
-      res[s.toId] = round2((res[s.toId] || 0) - s.amount);
+      res[s.fromId] = round2((res[s.fromId] || 0) + toGroupCurrency(s.amount, s));
+      res[s.toId] = round2((res[s.toId] || 0) - toGroupCurrency(s.amount, s));
     });
     return res;
   },
-  addSettlement: async (groupId, fromId, toId, amount, billId, memo, toAccountId, currentUserId) => {
+  addSettlement: async (groupId, fromId, toId, amount, billId, memo, toAccountId, currentUserId, currency, rate) => {
+    const fx = await resolveRate(get().groups.find(g => g.id === groupId) || {}, currency, rate);
     const arr = [...get().groups];
     const gi = arr.findIndex(g => g.id === groupId);
     if (gi < 0) throw new Error('Group not found');
@@ -285,6 +360,7 @@ export const useGroupsStore = create<State>((set, get) => ({
       fromId,
       toId,
       amount: round2(amount),
+      ...fx,
       createdAt: Date.now(),
       billId,
       memo,
@@ -309,7 +385,8 @@ export const useGroupsStore = create<State>((set, get) => ({
           s,
           toAccountId,
           fromMemberName,
-          billTitle
+          billTitle,
+          group
         );
         s.transactionId = transactionId;
       } catch (error) {
@@ -319,7 +396,7 @@ export const useGroupsStore = create<State>((set, get) => ({
     }
 
     arr[gi] = { ...group, settlements: [s, ...(group.settlements || [])] };
-    set({ groups: arr }); await save(arr);
+    set({ groups: arr }); await save(arr[gi]);
     return s.id;
   },
   markSplitPaid: async (groupId, billId, memberId, toAccountId, currentUserId) => {
@@ -346,6 +423,8 @@ export const useGroupsStore = create<State>((set, get) => ({
         fromId: memberId,
         toId: c.memberId,
         amount,
+        currency: bill.currency,  // paid back in the bill's currency
+        rate: bill.rate,
         createdAt: Date.now(),
         billId,
         toAccountId: currentUserId === c.memberId ? toAccountId : undefined,
@@ -362,7 +441,8 @@ export const useGroupsStore = create<State>((set, get) => ({
               settlement,
               toAccountId,
               fromMemberName,
-              bill.title
+              bill.title,
+              group
             );
             settlement.transactionId = transactionId;
           } catch (error) {
@@ -385,7 +465,7 @@ export const useGroupsStore = create<State>((set, get) => ({
     });
 
     arr[gi] = { ...group, bills: updatedBills, settlements: [...newSettlements, ...(group.settlements || [])] };
-    set({ groups: arr }); await save(arr);
+    set({ groups: arr }); await save(arr[gi]);
   },
   findBill: (groupId, billId) => {
     const g = get().groups.find(x => x.id === groupId);
@@ -405,9 +485,15 @@ export const useGroupsStore = create<State>((set, get) => ({
 
     arr[gi] = { ...group, bills: updatedBills, settlements: updatedSettlements };
     set({ groups: arr });
-    await save(arr);
+    await save(arr[gi]);
   },
   updateBill: async (input) => {
+    const prev = get().groups.find(g => g.id === input.groupId)?.bills.find(b => b.id === input.billId);
+    const code = input.currency?.trim().toUpperCase();
+    // Keep the rate the bill was entered at unless its currency or rate changed
+    const fx = prev?.currency && prev.currency === code && input.rate === undefined
+      ? { currency: prev.currency, rate: prev.rate }
+      : await resolveRate(get().groups.find(g => g.id === input.groupId) || {}, code, input.rate);
     const arr = [...get().groups];
     const gi = arr.findIndex(g => g.id === input.groupId);
     if (gi < 0) throw new Error('Group not found');
@@ -417,12 +503,15 @@ export const useGroupsStore = create<State>((set, get) => ({
     if (billIndex < 0) throw new Error('Bill not found');
 
     const activeIds = new Set(group.members.filter(m => !m.archived).map(m => m.id));
-    const participants = input.participants.filter(id => activeIds.has(id));
+    const items = input.splitMode === 'items' ? cleanItems(input.items || [], activeIds) : undefined;
+    const participants = items
+      ? Array.from(new Set(items.flatMap(i => i.sharedBy)))
+      : input.participants.filter(id => activeIds.has(id));
     if (participants.length === 0) throw new Error('Select at least one active participant');
 
-    const taxVal = input.taxMode === 'pct' ? (input.amount * input.tax / 100) : input.tax;
-    const discVal = input.discountMode === 'pct' ? (input.amount * input.discount / 100) : input.discount;
-    const base = input.amount;
+    const base = items ? itemsSubtotal(items) : input.amount;
+    const taxVal = input.taxMode === 'pct' ? (base * input.tax / 100) : input.tax;
+    const discVal = input.discountMode === 'pct' ? (base * input.discount / 100) : input.discount;
     const finalAmount = round2(base + (taxVal || 0) - (discVal || 0));
     if (finalAmount <= 0) throw new Error('Final amount must be greater than 0');
 
@@ -442,6 +531,9 @@ export const useGroupsStore = create<State>((set, get) => ({
         assigned = round2(assigned + share);
         return { memberId: id, share };
       });
+    } else if (items) {
+      const shares = itemShares(items);
+      baseSplits = participants.map(id => ({ memberId: id, share: shares[id] ?? 0 }));
     } else {
       const totals = participants.map(id => input.exacts?.[id] ?? 0);
       const sumEx = round2(sum(totals));
@@ -463,7 +555,8 @@ export const useGroupsStore = create<State>((set, get) => ({
       let assigned = 0;
       finalSplits = participants.map((id, idx) => {
         const baseShare = baseSplits.find(s => s.memberId === id)?.share ?? 0;
-        let finalShare = input.proportionalTax ? round2(baseShare + (baseShare / (baseSum||1)) * ((taxVal||0) - (discVal||0))) : baseShare;
+        // Itemised bills always spread fees by what each person had
+        let finalShare = input.proportionalTax || items ? round2(baseShare + (baseShare / (baseSum||1)) * ((taxVal||0) - (discVal||0))) : baseShare;
         if (idx === participants.length - 1) finalShare = round2(finalAmount - assigned);
         assigned = round2(assigned + finalShare);
         return { memberId: id, share: finalShare, settled: false };
@@ -500,8 +593,11 @@ export const useGroupsStore = create<State>((set, get) => ({
       discount: input.discount,
       discountMode: input.discountMode,
       finalAmount,
+      currency: fx.currency,
+      rate: fx.rate,
       contributions,
       splits: finalSplits,
+      items,
     };
 
     const updatedBills = [...group.bills];
@@ -509,7 +605,154 @@ export const useGroupsStore = create<State>((set, get) => ({
 
     arr[gi] = { ...group, bills: updatedBills };
     set({ groups: arr });
-    await save(arr);
+    await save(arr[gi]);
+  },
+  addRecurringBill: async (groupId, input) => {
+    checkRecurring(input);
+    const arr = [...get().groups];
+    const gi = arr.findIndex(g => g.id === groupId);
+    if (gi < 0) throw new Error('Group not found');
+    const anchor = new Date(input.anchorISO);
+    anchor.setHours(0, 0, 0, 0);
+    const t: RecurringBill = {
+      ...input,
+      id: uid(),
+      title: input.title.trim(),
+      amount: round2(input.amount),
+      anchorISO: anchor.toISOString(),
+      nextDueISO: '',
+      rotationIndex: 0,
+      active: true,
+      createdAt: Date.now(),
+    };
+    t.nextDueISO = firstDueFrom(t, new Date()).toISOString();
+    arr[gi] = { ...arr[gi], recurring: [...(arr[gi].recurring || []), t] };
+    set({ groups: arr }); await save(arr[gi]);
+    await get().generateDueBills();
+    return t.id;
+  },
+  updateRecurringBill: async (groupId, id, patch) => {
+    const arr = [...get().groups];
+    const gi = arr.findIndex(g => g.id === groupId);
+    if (gi < 0) throw new Error('Group not found');
+    const list = [...(arr[gi].recurring || [])];
+    const ri = list.findIndex(r => r.id === id);
+    if (ri < 0) throw new Error('Recurring bill not found');
+    const next: RecurringBill = { ...list[ri], ...patch };
+    checkRecurring(next);
+    if (patch.anchorISO) {
+      const anchor = new Date(patch.anchorISO);
+      anchor.setHours(0, 0, 0, 0);
+      next.anchorISO = anchor.toISOString();
+    }
+    // A new schedule, or resuming after a pause, starts from today rather than back-filling
+    if (patch.anchorISO || patch.freq || (patch.active && !list[ri].active)) {
+      next.nextDueISO = firstDueFrom(next, new Date()).toISOString();
+    }
+    if (patch.payers && patch.payers.join() !== list[ri].payers.join()) next.rotationIndex = 0;
+    list[ri] = next;
+    arr[gi] = { ...arr[gi], recurring: list };
+    set({ groups: arr }); await save(arr[gi]);
+    await get().generateDueBills();
+  },
+  deleteRecurringBill: async (groupId, id) => {
+    const arr = [...get().groups];
+    const gi = arr.findIndex(g => g.id === groupId);
+    if (gi < 0) throw new Error('Group not found');
+    arr[gi] = { ...arr[gi], recurring: (arr[gi].recurring || []).filter(r => r.id !== id) };
+    set({ groups: arr }); await save(arr[gi]);
+  },
+  generateDueBills: (now = new Date()) => {
+    if (generating) return generating;
+    generating = (async () => {
+      let created = 0;
+      for (const g of get().groups) {
+        for (const t of g.recurring || []) {
+          if (!t.active) continue;
+          let due = new Date(t.nextDueISO);
+          let rotationIndex = t.rotationIndex;
+          let lastBillId = t.lastBillId;
+          let active = true;
+          let n = 0;
+          while (due <= now && n < MAX_CATCH_UP) {
+            // The first active member is the user, as on Add bill
+            const currentUserId = g.members.find(m => !m.archived)?.id;
+            const id = occurrenceId(t, due);
+            try {
+              // Another member's phone may have generated it already and synced it here
+              if (!get().groups.find(x => x.id === g.id)?.bills.some(b => b.id === id)) await get().addBill({
+                id,
+                groupId: g.id,
+                title: t.title,
+                amount: t.amount,
+                taxMode: 'abs',
+                tax: 0,
+                discountMode: 'abs',
+                discount: 0,
+                participants: t.participants,
+                splitMode: t.splitMode,
+                exacts: t.exacts,
+                currency: t.currency,
+                payerMode: 'single',
+                paidBy: payerFor({ ...t, rotationIndex }),
+                category: t.category,
+                createdAt: due.getTime(),
+                ...(g.trackSpending && t.paidFromAccountId && { paidFromAccountId: t.paidFromAccountId, currentUserId }),
+              });
+              lastBillId = id;
+            } catch (e) {
+              // e.g. everyone on it was archived; pause rather than fail on every launch
+              console.warn(`[groups] Pausing recurring bill "${t.title}":`, (e as any)?.message || e);
+              active = false;
+              break;
+            }
+            rotationIndex = t.rotate ? (rotationIndex + 1) % t.payers.length : 0;
+            due = dueAfter(t, due);
+            n++;
+            created++;
+          }
+          if (n === 0 && active) continue;
+
+          const arr = [...get().groups];
+          const gi = arr.findIndex(x => x.id === g.id);
+          if (gi < 0) continue;
+          arr[gi] = {
+            ...arr[gi],
+            recurring: (arr[gi].recurring || []).map(r => (r.id === t.id ? { ...r, nextDueISO: due.toISOString(), rotationIndex, lastBillId, active } : r)),
+          };
+          set({ groups: arr }); await save(arr[gi]);
+        }
+      }
+      return created;
+    })().finally(() => { generating = null; });
+    return generating;
+  },
+  shareLedger: async (groupId) => {
+    const group = (await listGroups()).find(g => g.id === groupId);
+    if (!group) throw new Error('Group not found');
+    const { file, sync } = createLedgerFile(group);
+    const arr = [...get().groups];
+    const gi = arr.findIndex(g => g.id === groupId);
+    if (gi >= 0) {
+      arr[gi] = { ...arr[gi], sync };
+      set({ groups: arr }); await save(arr[gi]);
+    }
+    await shareLedgerFile(file);
+    return sync.code;
+  },
+  previewLedger: async (file, code) => (await mergeStored(file, code)).plan,
+  importLedger: async (file, code, takeTheirs = []) => {
+    const { group, plan, removedBills } = await mergeStored(file, code, takeTheirs);
+    for (const b of removedBills) {
+      if (b.transactionId) await deleteBillTransaction(b.transactionId).catch(e => console.error('Failed to delete transaction for bill:', e));
+    }
+    await save(group);
+    const arr = [...get().groups];
+    const gi = arr.findIndex(g => g.id === group.id);
+    if (gi >= 0) arr[gi] = migrate([group])[0];
+    else arr.unshift(migrate([group])[0]);
+    set({ groups: arr });
+    return plan;
   },
   updateGroup: async (groupId: ID, patch: { name?: string; note?: string }) => {
     const arr = [...get().groups];
@@ -517,11 +760,11 @@ export const useGroupsStore = create<State>((set, get) => ({
     if (gi < 0) throw new Error('Group not found');
     arr[gi] = { ...arr[gi], ...patch };
     set({ groups: arr });
-    await save(arr);
+    await save(arr[gi]);
   },
   deleteGroup: async (groupId: ID) => {
     const arr = get().groups.filter(g => g.id !== groupId);
     set({ groups: arr });
-    await save(arr);
+    await deleteGroupRows(groupId);
   }
 }));
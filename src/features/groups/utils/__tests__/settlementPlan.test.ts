@@ -0,0 +1,170 @@
+import type { Bill, Group, ID, Settlement } from '../../../../types/groups';
+import { pairwiseDebts, planSettlement, type Transfer } from '../settlementPlan';
+
+function group(ids: ID[], extra: Partial<Group> = {}): Group {
+  return {
+    id: 'g1',
+    name: 'Trip',
+    members: ids.map(id => ({ id, name: id.toUpperCase() })),
+    bills: [],
+    settlements: [],
+    createdAt: 0,
+    ...extra,
+  };
+}
+
+function bill(id: ID, paid: Record<ID, number>, shares: Record<ID, number>, extra: Partial<Bill> = {}): Bill {
+  const amount = Object.values(paid).reduce((s, v) => s + v, 0);
+  return {
+    id,
+    groupId: 'g1',
+    title: id,
+    amount,
+    finalAmount: amount,
+    contributions: Object.entries(paid).map(([memberId, a]) => ({ memberId, amount: a })),
+    splits: Object.entries(shares).map(([memberId, share]) => ({ memberId, share, settled: false })),
+    createdAt: 0,
+    ...extra,
+  };
+}
+
+function settlement(fromId: ID, toId: ID, amount: number): Settlement {
+  return { id: `${fromId}-${toId}`, fromId, toId, amount, createdAt: 0 } as Settlement;
+}
+
+/** Balances left once every transfer is paid, to the cent. */
+function afterPaying(balances: Record<ID, number>, plan: Transfer[]): Record<ID, number> {
+  const left = { ...balances };
+  for (const t of plan) {
+    left[t.fromId] = Math.round(((left[t.fromId] || 0) + t.amount) * 100) / 100;
+    left[t.toId] = Math.round(((left[t.toId] || 0) - t.amount) * 100) / 100;
+  }
+  return left;
+}
+
+const cleared = (left: Record<ID, number>, ids: ID[]) => ids.forEach(id => expect(left[id]).toBeCloseTo(0, 2));
+
+describe('planSettlement: minimum', () => {
+  it('clears every balance', () => {
+    const balances = { a: 30, b: -30, c: 20.5, d: -10.25, e: -10.25 };
+    const plan = planSettlement(group(Object.keys(balances)), balances);
+    cleared(afterPaying(balances, plan), Object.keys(balances));
+    expect(plan).toHaveLength(3);
+  });
+
+  it('settles groups that cancel out among themselves, where largest-first needs an extra transfer', () => {
+    // Largest-first: c→a 7, d→a 3, d→b 1, e→b 3 (4 transfers); {a, c, e} and {b, d} need 3
+    const balances = { a: 10, b: 4, c: -7, d: -4, e: -3 };
+    const plan = planSettlement(group(Object.keys(balances)), balances);
+    cleared(afterPaying(balances, plan), Object.keys(balances));
+    expect(plan).toHaveLength(3);
+  });
+
+  it('falls back to largest-first beyond the exact search and still clears balances', () => {
+    const balances: Record<ID, number> = {};
+    for (let i = 0; i < 20; i++) balances[`m${i}`] = i % 2 ? -(i + 1) : i + 2;
+    balances.m0 -= Object.values(balances).reduce((s, v) => s + v, 0);
+    const plan = planSettlement(group(Object.keys(balances)), balances);
+    cleared(afterPaying(balances, plan), Object.keys(balances));
+  });
+
+  it('returns nothing when everyone is settled', () => {
+    expect(planSettlement(group(['a', 'b']), { a: 0, b: 0.001 })).toEqual([]);
+  });
+});
+
+describe('planSettlement: pairwise', () => {
+  // a paid 90 split three ways; b paid 30 split with c; c has paid a back 10
+  const g = group(['a', 'b', 'c'], {
+    bills: [bill('dinner', { a: 90 }, { a: 30, b: 30, c: 30 }), bill('taxi', { b: 30 }, { b: 15, c: 15 })],
+    settlements: [settlement('c', 'a', 10)],
+  });
+
+  it('only settles debts that arose between two people', () => {
+    const plan = planSettlement(g, {}, { mode: 'pairwise' });
+    expect(plan).toEqual([
+      { fromId: 'b', toId: 'a', amount: 30 },
+      { fromId: 'c', toId: 'a', amount: 20 },
+      { fromId: 'c', toId: 'b', amount: 15 },
+    ]);
+  });
+
+  it('nets debts both ways between a pair', () => {
+    const two = group(['a', 'b'], { bills: [bill('x', { a: 40 }, { a: 20, b: 20 }), bill('y', { b: 30 }, { a: 15, b: 15 })] });
+    expect(pairwiseDebts(two)).toEqual([{ fromId: 'b', toId: 'a', amount: 5 }]);
+  });
+
+  it('converts foreign bills at their fixed rate', () => {
+    const fx = group(['a', 'b'], { bills: [bill('hotel', { a: 100 }, { a: 50, b: 50 }, { currency: 'USD', rate: 1.35 })] });
+    expect(pairwiseDebts(fx)).toEqual([{ fromId: 'b', toId: 'a', amount: 67.5 }]);
+  });
+
+  it('agrees with the balances it settles', () => {
+    const balances = { a: 50, b: -15, c: -35 };
+    cleared(afterPaying(balances, planSettlement(g, balances, { mode: 'pairwise' })), ['a', 'b', 'c']);
+  });
+});
+
+describe('planSettlement: hub', () => {
+  const balances = { a: 30, b: -30, c: 20, d: -20 };
+
+  it('routes every transfer through the treasurer', () => {
+    const plan = planSettlement(group(Object.keys(balances)), balances, { mode: 'hub', hubId: 'c' });
+    expect(plan.every(t => t.fromId === 'c' || t.toId === 'c')).toBe(true);
+    expect(plan).toHaveLength(3);
+    cleared(afterPaying(balances, plan), Object.keys(balances));
+  });
+
+  it('needs a treasurer who is in the group and settling', () => {
+    const g = group(Object.keys(balances));
+    expect(() => planSettlement(g, balances, { mode: 'hub' })).toThrow('Choose who everyone settles through');
+    expect(() => planSettlement(g, balances, { mode: 'hub', hubId: 'z' })).toThrow('Choose who everyone settles through');
+    expect(() => planSettlement(g, balances, { mode: 'hub', hubId: 'c', exclude: ['c'] })).toThrow("can't be left out");
+  });
+});
+
+describe('planSettlement: rounding', () => {
+  const balances = { a: 30, b: -30, c: 20.5, d: -10.25, e: -10.25 };
+
+  it('pays whole units that still add up', () => {
+    const plan = planSettlement(group(Object.keys(balances)), balances, { roundTo: 5 });
+    plan.forEach(t => expect(t.amount % 5).toBe(0));
+    const paid = plan.reduce((s, t) => s + t.amount, 0);
+    expect(paid).toBe(50);
+  });
+
+  it('rounds pairwise amounts one by one', () => {
+    const g = group(['a', 'b'], { bills: [bill('x', { a: 33 }, { a: 16.5, b: 16.5 })] });
+    expect(planSettlement(g, {}, { mode: 'pairwise', roundTo: 1 })).toEqual([{ fromId: 'b', toId: 'a', amount: 17 }]);
+  });
+});
+
+describe('planSettlement: skipped members', () => {
+  const balances = { a: 30, b: -30, c: 20, d: -20 };
+
+  it('leaves members who skip settling out', () => {
+    const g = group(Object.keys(balances));
+    g.members[0].skipSettling = true;
+    const plan = planSettlement(g, balances);
+    expect(plan).toEqual([{ fromId: 'd', toId: 'c', amount: 20 }]);
+  });
+
+  it('leaves debts to a skipped member outstanding', () => {
+    const plan = planSettlement(group(['a', 'b', 'c']), { a: 30, b: -20, c: -10 }, { exclude: ['a'] });
+    expect(plan).toEqual([]);
+  });
+
+  it('keeps explicit exclusions over the saved flag', () => {
+    const g = group(Object.keys(balances));
+    g.members[0].skipSettling = true;
+    expect(planSettlement(g, balances, { exclude: [] })).toHaveLength(2);
+  });
+
+  it('leaves them out of pairwise plans too', () => {
+    const g = group(['a', 'b', 'c'], {
+      bills: [bill('dinner', { a: 90 }, { a: 30, b: 30, c: 30 })],
+    });
+    g.members[1].skipSettling = true;
+    expect(planSettlement(g, {}, { mode: 'pairwise' })).toEqual([{ fromId: 'c', toId: 'a', amount: 30 }]);
+  });
+});
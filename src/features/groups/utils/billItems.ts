@@ -0,0 +1,77 @@
+/**
+ * Itemised bills: each line item's total is split evenly between the members
+ * who shared it, and those amounts become the bill's base shares. Tax,
+ * service and discount are then spread over them by the store's
+ * proportional-tax split, so people pay fees on what they actually had.
+ */
+
+import type { BillItem, ID } from '../../../types/groups';
+import { round2, sum } from '../../../lib/format';
+
+export type ItemLine = { itemId: ID; name: string; quantity: number; sharedWith: number; share: number };
+
+export type MemberItems = {
+  memberId: ID;
+  lines: ItemLine[];
+  subtotal: number;    // before tax, service and discount
+};
+
+export function itemTotal(item: Pick<BillItem, 'price' | 'quantity'>): number {
+  return round2((Number(item.price) || 0) * (Number(item.quantity) || 0));
+}
+
+export function itemsSubtotal(items: BillItem[]): number {
+  return round2(sum(items.map(itemTotal)));
+}
+
+/** Each sharer's part of one item, to the cent; the last sharer takes the rounding. */
+function splitItem(item: BillItem): Array<{ memberId: ID; share: number }> {
+  const total = itemTotal(item);
+  const n = item.sharedBy.length;
+  if (n === 0) return [];
+  const each = Math.floor((total / n) * 100) / 100;
+  return item.sharedBy.map((memberId, idx) => ({ memberId, share: idx === n - 1 ? round2(total - each * (n - 1)) : each }));
+}
+
+/** Base share per member across all items, before tax, service and discount. */
+export function itemShares(items: BillItem[]): Record<ID, number> {
+  const out: Record<ID, number> = {};
+  for (const item of items) {
+    for (const { memberId, share } of splitItem(item)) out[memberId] = round2((out[memberId] || 0) + share);
+  }
+  return out;
+}
+
+/** Who had what: each member's items and their part of each, in order of first appearance. */
+export function itemBreakdown(items: BillItem[]): MemberItems[] {
+  const byMember = new Map<ID, MemberItems>();
+  for (const item of items) {
+    for (const { memberId, share } of splitItem(item)) {
+      const row = byMember.get(memberId) || { memberId, lines: [], subtotal: 0 };
+      row.lines.push({ itemId: item.id, name: item.name, quantity: item.quantity, sharedWith: item.sharedBy.length, share });
+      row.subtotal = round2(row.subtotal + share);
+      byMember.set(memberId, row);
+    }
+  }
+  return Array.from(byMember.values());
+}
+
+/**
+ * Items ready to save: sharers limited to `activeIds`, empty lines dropped.
+ * Throws when nothing is left or a priced item has nobody to pay for it.
+ */
+export function cleanItems(items: BillItem[], activeIds: Set<ID>): BillItem[] {
+  const out = items
+    .map(i => ({
+      ...i,
+      name: i.name.trim() || 'Item',
+      price: round2(Number(i.price) || 0),
+      quantity: Number(i.quantity) > 0 ? Number(i.quantity) : 1,
+      sharedBy: Array.from(new Set(i.sharedBy)).filter(id => activeIds.has(id)),
+    }))
+    .filter(i => itemTotal(i) > 0);
+  if (out.length === 0) throw new Error('Add at least one item with a price');
+  const unassigned = out.find(i => i.sharedBy.length === 0);
+  if (unassigned) throw new Error(`Choose who had "${unassigned.name}"`);
+  return out;
+}
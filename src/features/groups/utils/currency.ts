@@ -0,0 +1,44 @@
+/**
+ * Multi-currency groups: a bill or settlement keeps its amounts in the
+ * currency it was paid in, plus the rate to the group's base currency fixed
+ * when it was entered. Balances and totals are always in the base currency,
+ * so later FX moves never change who owes what.
+ */
+
+import type { Group } from '../../../types/groups';
+import { findExchangeRate } from '../../../lib/fx';
+import { useProfileStore } from '../../../store/profile';
+
+type Priced = { currency?: string; rate?: number };
+
+/** The group's base currency; groups without one use the profile currency. */
+export function groupCurrency(group?: Pick<Group, 'currency'>): string {
+  return (group?.currency || useProfileStore.getState().profile?.currency || 'USD').toUpperCase();
+}
+
+/** The currency a bill's or settlement's amounts are in. */
+export function currencyOf(group: Pick<Group, 'currency'> | undefined, x: Priced): string {
+  return x.currency ? x.currency.toUpperCase() : groupCurrency(group);
+}
+
+/** `amount` from a bill or settlement, in the group's base currency. */
+export function toGroupCurrency(amount: number, x: Priced): number {
+  return x.currency && x.rate ? amount * x.rate : amount;
+}
+
+/**
+ * Currency and rate to store on a bill or settlement. Both are dropped for
+ * the base currency; a missing rate is fetched, and a given one must be positive.
+ */
+export async function resolveRate(group: Pick<Group, 'currency'>, currency?: string, rate?: number): Promise<Priced> {
+  const base = groupCurrency(group);
+  const code = currency?.trim().toUpperCase();
+  if (!code || code === base) return {};
+  if (rate !== undefined) {
+    if (!(rate > 0)) throw new Error('Enter a valid exchange rate');
+    return { currency: code, rate };
+  }
+  const fetched = await findExchangeRate(code, base);
+  if (fetched === undefined || !(fetched > 0)) throw new Error(`No exchange rate from ${code} to ${base}`);
+  return { currency: code, rate: fetched };
+}
@@ -0,0 +1,377 @@
+/**
+ * Group ledger files: a way for members to keep one group in sync on several
+ * phones by exchanging files, with no server.
+ *
+ * A file carries the group's members, bills, settlements and recurring bills
+ * minus anything tied to this phone (linked accounts and transactions), and
+ * is signed with HMAC-SHA256 under the group's sync code, so a file that was
+ * edited, or comes from someone without the code, is rejected.
+ *
+ * Every record has a version vector counting the edits each phone has made
+ * to it. Importing takes the file's copy when it has seen every edit this
+ * phone has, keeps ours when we have seen all of theirs, and reports a
+ * conflict when both sides edited since they last matched. Deletions travel
+ * as tombstones so a removed bill isn't brought back by an older file.
+ */
+
+import * as FileSystem from 'expo-file-system/legacy';
+import * as Sharing from 'expo-sharing';
+import { getRandomBytes } from 'expo-crypto';
+import { hmac } from '@noble/hashes/hmac';
+import { sha256 } from '@noble/hashes/sha2';
+import { bytesToHex } from '@noble/hashes/utils';
+import { canonicalJSON, fromBase64, toBase64, utf8Encode } from '../../../lib/encoding';
+import type { Bill, Group, GroupSync, ID, Member, RecurringBill, Settlement, SyncVersion } from '../../../types/groups';
+
+export const LEDGER_FORMAT = 'fingrow-group-ledger';
+export const LEDGER_VERSION = 1;
+
+const DELETED = 'deleted';
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const CODE_LENGTH = 20;
+
+// Fields that point at accounts and transactions on the phone that made them
+const LOCAL_FIELDS = {
+  bill: ['paidFromAccountId', 'transactionId'],
+  settlement: ['toAccountId', 'transactionId'],
+  recurring: ['paidFromAccountId'],
+} as const;
+
+type Kind = 'group' | 'member' | 'bill' | 'settlement' | 'recurring';
+
+export type Ledger = {
+  group: Pick<Group, 'id' | 'name' | 'note' | 'currency' | 'createdAt'>;
+  members: Member[];
+  bills: Bill[];
+  settlements: Settlement[];
+  recurring: RecurringBill[];
+};
+
+export type LedgerFile = {
+  format: typeof LEDGER_FORMAT;
+  version: number;
+  exportedAt: string;
+  /** Identifies the sync code without revealing it, so a wrong code gets a clear error. */
+  codeId: string;
+  ledger: Ledger;
+  versions: Record<string, SyncVersion>;
+  signature: string;
+};
+
+export type LedgerConflict = {
+  key: string;
+  kind: Kind;
+  label: string;
+  reason: 'edited on both phones' | 'edited here, deleted on theirs' | 'deleted here, edited on theirs';
+};
+
+export type LedgerPlan = {
+  groupId: ID;
+  groupName: string;
+  /** The group isn't on this phone yet. */
+  isNew: boolean;
+  exportedAt: string;
+  added: number;
+  updated: number;
+  removed: number;
+  conflicts: LedgerConflict[];
+};
+
+type Entry = { kind: Kind; id: ID; label: string; shared: Record<string, unknown>; record: any };
+
+// ---------------------------------------------------------------------------
+// Sync codes and signatures
+
+/** A new random sync code, e.g. `K7QM-2XPD-...`: 100 bits, in letters and digits that are hard to misread. */
+export function newSyncCode(): string {
+  const bytes = getRandomBytes(CODE_LENGTH);
+  const chars = Array.from(bytes, b => CODE_ALPHABET[b % CODE_ALPHABET.length]).join('');
+  return chars.match(/.{4}/g)!.join('-');
+}
+
+/** Upper-cases a typed code and drops spaces and dashes; throws if it can't be one. */
+export function normalizeSyncCode(code: string): string {
+  const clean = code.toUpperCase().replace(/[^A-Z0-9]/g, '');
+  if (clean.length !== CODE_LENGTH || [...clean].some(c => !CODE_ALPHABET.includes(c))) {
+    throw new Error(`A sync code is ${CODE_LENGTH} letters and digits, like ABCD-EFGH-JKLM-NPQR-STUV.`);
+  }
+  return clean.match(/.{4}/g)!.join('-');
+}
+
+const codeKey = (code: string) => sha256(utf8Encode(`${LEDGER_FORMAT}:${normalizeSyncCode(code)}`));
+const codeIdOf = (code: string) => bytesToHex(sha256(codeKey(code))).slice(0, 12);
+const hashOf = (value: unknown) => bytesToHex(sha256(utf8Encode(canonicalJSON(value)))).slice(0, 16);
+
+function sign(file: Omit<LedgerFile, 'signature'>, code: string): string {
+  return toBase64(hmac(sha256, codeKey(code), utf8Encode(canonicalJSON(file))));
+}
+
+// ---------------------------------------------------------------------------
+// Records and versions
+
+function omit(record: any, fields: readonly string[]) {
+  const out = { ...record };
+  fields.forEach(f => delete out[f]);
+  return out;
+}
+
+/** Every synced record in a group, by `kind:id`, with the fields that are shared. */
+function entriesOf(group: Group): Map<string, Entry> {
+  const out = new Map<string, Entry>();
+  const add = (kind: Kind, id: ID, label: string, record: any, shared: Record<string, unknown>) =>
+    out.set(`${kind}:${id}`, { kind, id, label, record, shared });
+
+  const { id, name, note, currency, createdAt } = group;
+  add('group', id, 'Group name and currency', group, { id, name, note, currency, createdAt });
+  group.members.forEach(m => add('member', m.id, m.name, m, m));
+  group.bills.forEach(b => add('bill', b.id, b.title, b, omit(b, LOCAL_FIELDS.bill)));
+  group.settlements.forEach(s => add('settlement', s.id, s.memo || 'Settlement', s, omit(s, LOCAL_FIELDS.settlement)));
+  (group.recurring || []).forEach(r => add('recurring', r.id, r.title, r, omit(r, LOCAL_FIELDS.recurring)));
+  return out;
+}
+
+/**
+ * The group's versions as of now: records changed since the last sync get an
+ * edit counted for this phone, and records that are gone become tombstones.
+ */
+function stamp(group: Group, sync: Pick<GroupSync, 'device' | 'records'>): Record<string, SyncVersion> {
+  const records: Record<string, SyncVersion> = { ...sync.records };
+  const bump = (v: SyncVersion | undefined, hash: string): SyncVersion => ({
+    hash,
+    vv: { ...v?.vv, [sync.device]: (v?.vv[sync.device] || 0) + 1 },
+  });
+  const entries = entriesOf(group);
+  entries.forEach((e, key) => {
+    const hash = hashOf(e.shared);
+    if (records[key]?.hash !== hash) records[key] = bump(records[key], hash);
+  });
+  Object.keys(records).forEach(key => {
+    if (!entries.has(key) && records[key].hash !== DELETED) records[key] = bump(records[key], DELETED);
+  });
+  return records;
+}
+
+type Order = 'equal' | 'ahead' | 'behind' | 'concurrent';
+
+/** How version `a` relates to `b`: `ahead` when it has seen every edit in `b` and more. */
+function compare(a: Record<string, number>, b: Record<string, number>): Order {
+  let ahead = false;
+  let behind = false;
+  new Set([...Object.keys(a), ...Object.keys(b)]).forEach(k => {
+    if ((a[k] || 0) > (b[k] || 0)) ahead = true;
+    if ((a[k] || 0) < (b[k] || 0)) behind = true;
+  });
+  return ahead && behind ? 'concurrent' : ahead ? 'ahead' : behind ? 'behind' : 'equal';
+}
+
+function mergeVV(a: Record<string, number>, b: Record<string, number>): Record<string, number> {
+  const out = { ...a };
+  Object.entries(b).forEach(([k, n]) => { out[k] = Math.max(out[k] || 0, n); });
+  return out;
+}
+
+function ledgerEntries(ledger: Ledger): Map<string, Entry> {
+  return entriesOf({ ...ledger.group, members: ledger.members, bills: ledger.bills, settlements: ledger.settlements, recurring: ledger.recurring });
+}
+
+// ---------------------------------------------------------------------------
+// Export
+
+/**
+ * A signed ledger file for the group and the sync state to save with it.
+ * The first export creates the group's sync code.
+ */
+export function createLedgerFile(group: Group): { file: LedgerFile; sync: GroupSync } {
+  const sync: GroupSync = group.sync || { code: newSyncCode(), device: bytesToHex(getRandomBytes(6)), records: {} };
+  const records = stamp(group, sync);
+  const entries = entriesOf(group);
+  const shared = (kind: Kind) => [...entries.values()].filter(e => e.kind === kind).map(e => e.shared) as any[];
+
+  const body: Omit<LedgerFile, 'signature'> = {
+    format: LEDGER_FORMAT,
+    version: LEDGER_VERSION,
+    exportedAt: new Date().toISOString(),
+    codeId: codeIdOf(sync.code),
+    ledger: {
+      group: shared('group')[0],
+      members: shared('member'),
+      bills: shared('bill'),
+      settlements: shared('settlement'),
+      recurring: shared('recurring'),
+    },
+    versions: records,
+  };
+  return { file: { ...body, signature: sign(body, sync.code) }, sync: { ...sync, records, syncedAt: Date.now() } };
+}
+
+/** Writes the file to the cache directory and opens the share sheet. */
+export async function shareLedgerFile(file: LedgerFile): Promise<string> {
+  const slug = file.ledger.group.name.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '') || 'group';
+  const uri = `${FileSystem.cacheDirectory || ''}${slug}_${file.exportedAt.slice(0, 10)}.fgledger`;
+  await FileSystem.writeAsStringAsync(uri, JSON.stringify(file), { encoding: FileSystem.EncodingType.UTF8 });
+  if (!(await Sharing.isAvailableAsync())) throw new Error("Sharing isn't available on this device.");
+  await Sharing.shareAsync(uri, { mimeType: 'application/json', dialogTitle: file.ledger.group.name });
+  return uri;
+}
+
+// ---------------------------------------------------------------------------
+// Import
+
+/** Reads a ledger file and checks its shape. The signature is checked by `verifyLedgerFile`. */
+export async function readLedgerFile(uri: string): Promise<LedgerFile> {
+  const text = await FileSystem.readAsStringAsync(uri, { encoding: FileSystem.EncodingType.UTF8 });
+  let file: any;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    throw new Error('This is not a FinGrow group file.');
+  }
+  if (!file || file.format !== LEDGER_FORMAT || !file.ledger || typeof file.signature !== 'string') {
+    throw new Error('This is not a FinGrow group file.');
+  }
+  if (typeof file.version !== 'number' || file.version > LEDGER_VERSION) {
+    throw new Error('This group was shared from a newer version of FinGrow. Update the app to import it.');
+  }
+  const { group, ...lists } = file.ledger;
+  const wellFormed =
+    group && typeof group.id === 'string' && typeof group.name === 'string' &&
+    ['members', 'bills', 'settlements', 'recurring'].every(k => Array.isArray(lists[k]) && lists[k].every((x: any) => x && typeof x.id === 'string')) &&
+    file.versions && typeof file.versions === 'object';
+  if (!wellFormed) throw new Error('The group in this file is malformed.');
+  return file as LedgerFile;
+}
+
+/** Throws unless the file was signed with `code` and hasn't been changed since. */
+export function verifyLedgerFile(file: LedgerFile, code: string) {
+  if (codeIdOf(code) !== file.codeId) throw new Error("That sync code doesn't match this file.");
+  const { signature, ...body } = file;
+  const expected = fromBase64(sign(body, code));
+  const actual = fromBase64(signature);
+  // Compare every byte so the time taken doesn't reveal where they differ
+  let diff = expected.length ^ actual.length;
+  for (let i = 0; i < expected.length; i++) diff |= expected[i] ^ (actual[i] ?? 0);
+  if (diff !== 0) throw new Error('This file was changed after it was shared, so it can’t be imported.');
+}
+
+/**
+ * Merges a verified ledger file into the group on this phone, or builds the
+ * group if it isn't here yet. Conflicts keep this phone's copy unless their
+ * key is in `takeTheirs`. Returns the merged group (with its new sync state),
+ * what changed, and the bills that were removed.
+ */
+export function mergeLedger(
+  local: Group | undefined,
+  file: LedgerFile,
+  code: string,
+  takeTheirs: ReadonlySet<string> = new Set()
+): { group: Group; plan: LedgerPlan; removedBills: Bill[] } {
+  const incoming = ledgerEntries(file.ledger);
+  const plan: LedgerPlan = {
+    groupId: file.ledger.group.id,
+    groupName: file.ledger.group.name,
+    isNew: !local,
+    exportedAt: file.exportedAt,
+    added: 0,
+    updated: 0,
+    removed: 0,
+    conflicts: [],
+  };
+
+  if (!local) {
+    plan.added = incoming.size - 1;
+    const group: Group = {
+      ...file.ledger.group,
+      members: file.ledger.members,
+      bills: file.ledger.bills,
+      settlements: file.ledger.settlements,
+      recurring: file.ledger.recurring,
+      sync: { code: normalizeSyncCode(code), device: bytesToHex(getRandomBytes(6)), records: { ...file.versions }, syncedAt: Date.now() },
+    };
+    return { group, plan, removedBills: [] };
+  }
+
+  const sync: GroupSync = local.sync || { code: normalizeSyncCode(code), device: bytesToHex(getRandomBytes(6)), records: {} };
+  const ours = stamp(local, sync);
+  const current = entriesOf(local);
+  const records: Record<string, SyncVersion> = { ...ours };
+  // Result by key: the record to keep, or null when it ends up deleted
+  const result = new Map<string, any>();
+
+  const takeFile = (key: string) => {
+    const theirs = incoming.get(key);
+    const mine = current.get(key);
+    if (!theirs) {
+      if (mine) plan.removed++;
+      result.set(key, null);
+      return;
+    }
+    if (mine) plan.updated++;
+    else plan.added++;
+    // Keep this phone's links to its own accounts and transactions
+    const links = mine && theirs.kind in LOCAL_FIELDS
+      ? Object.fromEntries(LOCAL_FIELDS[theirs.kind as keyof typeof LOCAL_FIELDS].map(f => [f, mine.record[f]]))
+      : {};
+    result.set(key, { ...theirs.shared, ...links });
+  };
+
+  new Set([...Object.keys(ours), ...Object.keys(file.versions)]).forEach(key => {
+    const mine = ours[key];
+    const theirs = file.versions[key];
+    if (!theirs) return; // they've never seen it
+    if (!mine) {
+      if (theirs.hash !== DELETED) takeFile(key);
+      records[key] = theirs;
+      return;
+    }
+    const order = compare(mine.vv, theirs.vv);
+    if (order === 'equal' || order === 'ahead') return;
+    if (order === 'behind') {
+      takeFile(key);
+      records[key] = theirs;
+      return;
+    }
+    const vv = mergeVV(mine.vv, theirs.vv);
+    if (mine.hash === theirs.hash) {
+      // Both phones made the same change, e.g. both generated the same recurring bill
+      records[key] = { hash: mine.hash, vv };
+      return;
+    }
+    const entry = current.get(key) || incoming.get(key)!;
+    plan.conflicts.push({
+      key,
+      kind: entry.kind,
+      label: entry.label,
+      reason: mine.hash === DELETED ? 'deleted here, edited on theirs' : theirs.hash === DELETED ? 'edited here, deleted on theirs' : 'edited on both phones',
+    });
+    if (takeTheirs.has(key)) {
+      takeFile(key);
+      records[key] = { hash: theirs.hash, vv };
+    } else {
+      // Keeping ours counts as a new edit, so it wins on their phone next time
+      records[key] = { hash: mine.hash, vv: { ...vv, [sync.device]: (vv[sync.device] || 0) + 1 } };
+    }
+  });
+
+  const pick = <T extends { id: ID }>(kind: Kind, list: T[]): T[] => {
+    const kept = list
+      .filter(x => result.get(`${kind}:${x.id}`) !== null)
+      .map(x => result.get(`${kind}:${x.id}`) ?? x);
+    const added = [...result.entries()]
+      .filter(([key, v]) => v && key.startsWith(`${kind}:`) && !list.some(x => `${kind}:${x.id}` === key))
+      .map(([, v]) => v);
+    return [...kept, ...added];
+  };
+
+  const groupPatch = result.get(`group:${local.id}`);
+  const group: Group = {
+    ...local,
+    ...(groupPatch && { name: groupPatch.name, note: groupPatch.note, currency: groupPatch.currency }),
+    members: pick('member', local.members),
+    bills: pick('bill', local.bills).sort((a, b) => b.createdAt - a.createdAt),
+    settlements: pick('settlement', local.settlements),
+    recurring: pick('recurring', local.recurring || []),
+    sync: { ...sync, records, syncedAt: Date.now() },
+  };
+  const removedBills = local.bills.filter(b => result.get(`bill:${b.id}`) === null);
+  return { group, plan, removedBills };
+}
@@ -0,0 +1,64 @@
+/**
+ * Recurring group bills: templates that become ordinary bills on their due
+ * dates. Due dates follow the same schedule rules as personal recurring
+ * items, and with rotation the payer moves to the next person each time.
+ */
+
+import type { ID, RecurringBill } from '../../../types/groups';
+import { computeNextDue } from '../../../store/recurring';
+import { round2 } from '../../../lib/format';
+
+/** Bills generated per template in one pass, so a long absence can't flood the group. */
+export const MAX_CATCH_UP = 12;
+
+export const FREQ_LABELS: Record<RecurringBill['freq'], string> = {
+  weekly: 'Weekly',
+  biweekly: 'Every 2 weeks',
+  monthly: 'Monthly',
+};
+
+/** The bill id for one due date, the same on every phone so synced groups don't double up. */
+export function occurrenceId(t: Pick<RecurringBill, 'id'>, due: Date): ID {
+  const ymd = `${due.getFullYear()}${String(due.getMonth() + 1).padStart(2, '0')}${String(due.getDate()).padStart(2, '0')}`;
+  return `${t.id}-${ymd}`;
+}
+
+/** Who pays the occurrence `offset` steps after the next one. */
+export function payerFor(t: Pick<RecurringBill, 'payers' | 'rotate' | 'rotationIndex'>, offset = 0): ID | undefined {
+  if (t.payers.length === 0) return undefined;
+  return t.payers[t.rotate ? (t.rotationIndex + offset) % t.payers.length : 0];
+}
+
+/** The due date after `due`. */
+export function dueAfter(t: Pick<RecurringBill, 'freq' | 'anchorISO'>, due: Date): Date {
+  return computeNextDue({ freq: t.freq, anchorISO: t.anchorISO }, new Date(due.getTime() + 1)) as Date;
+}
+
+/** The first due date on or after `from`. */
+export function firstDueFrom(t: Pick<RecurringBill, 'freq' | 'anchorISO'>, from: Date): Date {
+  const day = new Date(from);
+  day.setHours(0, 0, 0, 0);
+  // Step from the anchor so the date stays on its weekday or day of month
+  let due = new Date(t.anchorISO);
+  while (due < day) due = dueAfter(t, due);
+  return due;
+}
+
+/** Due dates up to `until` with who pays each, starting from the next one. */
+export function occurrences(t: RecurringBill, until: Date, limit = MAX_CATCH_UP): Array<{ due: Date; payer?: ID }> {
+  const out: Array<{ due: Date; payer?: ID }> = [];
+  if (!t.active) return out;
+  let due = new Date(t.nextDueISO);
+  while (due <= until && out.length < limit) {
+    out.push({ due, payer: payerFor(t, out.length) });
+    due = dueAfter(t, due);
+  }
+  return out;
+}
+
+/** A member's share of one occurrence. */
+export function shareFor(t: Pick<RecurringBill, 'amount' | 'splitMode' | 'participants' | 'exacts'>, memberId: ID): number {
+  if (!t.participants.includes(memberId)) return 0;
+  if (t.splitMode === 'exact') return round2(t.exacts?.[memberId] || 0);
+  return round2(t.amount / t.participants.length);
+}
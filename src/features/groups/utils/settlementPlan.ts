@@ -0,0 +1,190 @@
+/**
+ * Settle-up plans: who pays whom to clear a group's balances.
+ *
+ * - minimum: the fewest transfers. People whose balances cancel out exactly
+ *   settle among themselves, found by search for groups of up to 16 people
+ *   with something owing, and largest-first matching beyond that.
+ * - pairwise: only debts that arose between two people, from the bills they
+ *   shared and what they've already paid each other, netted per pair.
+ * - hub: everyone pays, or is paid by, one person (the group's treasurer).
+ *
+ * Amounts are in the group's currency. Members who skip settling are left
+ * out; whatever they owe or are owed stays outstanding.
+ */
+
+import type { Group, ID } from '../../../types/groups';
+import { toGroupCurrency } from './currency';
+
+export type Transfer = { fromId: ID; toId: ID; amount: number };
+
+export type PlanMode = 'minimum' | 'pairwise' | 'hub';
+
+export type PlanOptions = {
+  mode?: PlanMode;    // defaults to 'minimum'
+  hubId?: ID;         // 'hub': who everyone settles through
+  roundTo?: number;   // round transfers to this unit, e.g. 1 or 5; defaults to cents
+  exclude?: ID[];     // defaults to members marked to skip settling
+};
+
+export const PLAN_MODES: Record<PlanMode, { label: string; hint: string }> = {
+  minimum: { label: 'Fewest transfers', hint: 'Clears every balance with as few payments as possible.' },
+  pairwise: { label: 'Pairwise', hint: 'Only settles what people actually owe each other from shared bills.' },
+  hub: { label: 'Through one person', hint: 'Everyone pays or is paid by the treasurer.' },
+};
+
+// Beyond this many people with a balance the exact search gets slow; match largest-first instead
+const MAX_EXACT = 16;
+
+const toCents = (n: number) => Math.round(n * 100);
+
+/**
+ * Balances rounded to multiples of `unit` (in cents) that still add up to the
+ * same total, giving the leftover units to the largest remainders.
+ */
+function roundBalances(cents: Map<ID, number>, unit: number): Map<ID, number> {
+  if (unit <= 1) return cents;
+  const total = [...cents.values()].reduce((s, v) => s + v, 0);
+  const entries = [...cents.entries()].map(([id, v]) => ({ id, floor: Math.floor(v / unit) * unit, rem: v - Math.floor(v / unit) * unit }));
+  let spare = Math.round((Math.round(total / unit) * unit - entries.reduce((s, e) => s + e.floor, 0)) / unit);
+  entries.sort((a, b) => b.rem - a.rem);
+  for (const e of entries) {
+    if (spare <= 0) break;
+    e.floor += unit;
+    spare--;
+  }
+  return new Map(entries.map(e => [e.id, e.floor]));
+}
+
+/** Largest debtor pays largest creditor until one side runs out. */
+function matchLargest(ids: ID[], cents: Map<ID, number>): Transfer[] {
+  const creditors = ids.filter(id => cents.get(id)! > 0).map(id => ({ id, amt: cents.get(id)! }));
+  const debtors = ids.filter(id => cents.get(id)! < 0).map(id => ({ id, amt: -cents.get(id)! }));
+  creditors.sort((a, b) => b.amt - a.amt);
+  debtors.sort((a, b) => b.amt - a.amt);
+  const out: Transfer[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < debtors.length && j < creditors.length) {
+    const x = Math.min(debtors[i].amt, creditors[j].amt);
+    out.push({ fromId: debtors[i].id, toId: creditors[j].id, amount: x / 100 });
+    debtors[i].amt -= x;
+    creditors[j].amt -= x;
+    if (debtors[i].amt === 0) i++;
+    if (creditors[j].amt === 0) j++;
+  }
+  return out;
+}
+
+/**
+ * Splits people into as many groups whose balances sum to zero as possible;
+ * each group of k then settles in k − 1 transfers, which is the minimum overall.
+ */
+function zeroSumGroups(ids: ID[], cents: Map<ID, number>): ID[][] {
+  const n = ids.length;
+  const full = (1 << n) - 1;
+  const sums = new Int32Array(1 << n);
+  const best = new Int32Array(1 << n);
+  for (let mask = 1; mask <= full; mask++) {
+    const low = mask & -mask;
+    sums[mask] = sums[mask ^ low] + cents.get(ids[31 - Math.clz32(low)])!;
+    let most = 0;
+    for (let i = 0; i < n; i++) {
+      if (mask & (1 << i)) most = Math.max(most, best[mask ^ (1 << i)]);
+    }
+    best[mask] = most + (sums[mask] === 0 ? 1 : 0);
+  }
+
+  // Peel people off in an order that achieves the best count, then cut wherever the running sum is zero
+  const order: number[] = [];
+  let mask = full;
+  while (mask) {
+    const gain = sums[mask] === 0 ? 1 : 0;
+    let pick = 0;
+    for (let i = 0; i < n; i++) {
+      if ((mask & (1 << i)) && best[mask ^ (1 << i)] + gain === best[mask]) { pick = i; break; }
+    }
+    order.unshift(pick);
+    mask ^= 1 << pick;
+  }
+  const groups: ID[][] = [];
+  let current: ID[] = [];
+  let running = 0;
+  for (const i of order) {
+    current.push(ids[i]);
+    running += cents.get(ids[i])!;
+    if (running === 0) { groups.push(current); current = []; }
+  }
+  if (current.length) groups.push(current);
+  return groups;
+}
+
+/** What each pair of members owes, netted: shares of bills the other paid for, less what's been paid back. */
+export function pairwiseDebts(group: Group): Transfer[] {
+  const owed = new Map<string, number>(); // `from|to`
+  const add = (fromId: ID, toId: ID, amount: number) => {
+    if (fromId === toId) return;
+    const key = `${fromId}|${toId}`;
+    owed.set(key, (owed.get(key) || 0) + amount);
+  };
+  for (const b of group.bills) {
+    const paid = b.contributions.reduce((s, c) => s + c.amount, 0);
+    if (paid <= 0) continue;
+    // Each share is owed to the payers in proportion to what they put in
+    b.splits.forEach(s => b.contributions.forEach(c => add(s.memberId, c.memberId, toGroupCurrency((s.share * c.amount) / paid, b))));
+  }
+  (group.settlements || []).forEach(s => add(s.toId, s.fromId, toGroupCurrency(s.amount, s)));
+
+  const out: Transfer[] = [];
+  const seen = new Set<string>();
+  owed.forEach((amount, key) => {
+    const [a, b] = key.split('|');
+    const pair = a < b ? `${a}|${b}` : `${b}|${a}`;
+    if (seen.has(pair)) return;
+    seen.add(pair);
+    const net = toCents(amount - (owed.get(`${b}|${a}`) || 0));
+    if (net > 0) out.push({ fromId: a, toId: b, amount: net / 100 });
+    else if (net < 0) out.push({ fromId: b, toId: a, amount: -net / 100 });
+  });
+  return out;
+}
+
+/**
+ * Transfers that settle `balances` (positive: the group owes them) under the
+ * chosen mode. Throws when hub mode has no treasurer, or they're excluded.
+ */
+export function planSettlement(group: Group, balances: Record<ID, number>, options: PlanOptions = {}): Transfer[] {
+  const mode = options.mode || 'minimum';
+  const unit = Math.max(1, toCents(options.roundTo || 0.01));
+  const excluded = new Set(options.exclude ?? group.members.filter(m => m.skipSettling).map(m => m.id));
+
+  if (mode === 'pairwise') {
+    return pairwiseDebts(group)
+      .filter(t => !excluded.has(t.fromId) && !excluded.has(t.toId))
+      .map(t => ({ ...t, amount: (Math.round(toCents(t.amount) / unit) * unit) / 100 }))
+      .filter(t => t.amount > 0)
+      .sort((a, b) => b.amount - a.amount);
+  }
+
+  const raw = new Map<ID, number>();
+  Object.entries(balances).forEach(([id, v]) => {
+    if (!excluded.has(id)) raw.set(id, toCents(v));
+  });
+  const cents = roundBalances(raw, unit);
+  const ids = [...cents.keys()].filter(id => cents.get(id) !== 0);
+
+  if (mode === 'hub') {
+    const hubId = options.hubId;
+    if (!hubId || !group.members.some(m => m.id === hubId)) throw new Error('Choose who everyone settles through');
+    if (excluded.has(hubId)) throw new Error("The treasurer can't be left out of settling");
+    return ids
+      .filter(id => id !== hubId)
+      .map(id => {
+        const v = cents.get(id)!;
+        return v < 0 ? { fromId: id, toId: hubId, amount: -v / 100 } : { fromId: hubId, toId: id, amount: v / 100 };
+      })
+      .sort((a, b) => b.amount - a.amount);
+  }
+
+  if (ids.length > MAX_EXACT) return matchLargest(ids, cents);
+  return zeroSumGroups(ids, cents).flatMap(g => matchLargest(g, cents));
+}
@@ -0,0 +1,132 @@
+/**
+ * Settlement statement for a group, laid out with the shared PDF engine.
+ * Balances follow the same rules as the store's `balances`: contributions
+ * count for the payer, split shares against each member, and settlements move
+ * money from debtor to creditor, each converted to the group's currency at
+ * the rate it was entered with.
+ */
+
+import type { Group, ID } from '../../../types/groups';
+import { formatCurrency } from '../../../lib/format';
+import type { PdfDocument } from '../../../lib/pdf';
+import { toGroupCurrency } from './currency';
+import { planSettlement } from './settlementPlan';
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+export function buildSettlementStatement(group: Group, currency?: string): PdfDocument {
+  const code = group.currency || currency;
+  const money = (n: number) => formatCurrency(n, code);
+  // Foreign amounts show what was actually paid next to the converted one
+  const priced = (n: number, x: { currency?: string; rate?: number }) =>
+    x.currency && x.rate ? `${money(toGroupCurrency(n, x))} (${formatCurrency(n, x.currency)})` : money(n);
+  const nameOf = (id: ID) => group.members.find(m => m.id === id)?.name || 'Former member';
+  const day = (ts: number) => new Date(ts).toLocaleDateString(undefined, { day: 'numeric', month: 'short', year: 'numeric' });
+
+  const totals: Record<ID, { paid: number; share: number; sent: number; received: number }> = {};
+  const row = (id: ID) => (totals[id] ||= { paid: 0, share: 0, sent: 0, received: 0 });
+  group.members.forEach(m => row(m.id));
+  for (const b of group.bills) {
+    b.contributions.forEach(c => { row(c.memberId).paid += toGroupCurrency(c.amount, b); });
+    b.splits.forEach(s => { row(s.memberId).share += toGroupCurrency(s.share, b); });
+  }
+  for (const s of group.settlements || []) {
+    row(s.fromId).sent += toGroupCurrency(s.amount, s);
+    row(s.toId).received += toGroupCurrency(s.amount, s);
+  }
+  const balances: Record<ID, number> = {};
+  Object.entries(totals).forEach(([id, t]) => { balances[id] = round2(t.paid - t.share + t.sent - t.received); });
+
+  // The default plan, as shown on Settle up
+  const transfers = planSettlement(group, balances);
+  const billsTotal = group.bills.reduce((s, b) => s + toGroupCurrency(b.finalAmount, b), 0);
+  const settledTotal = (group.settlements || []).reduce((s, x) => s + toGroupCurrency(x.amount, x), 0);
+  const outstanding = transfers.reduce((s, t) => s + t.amount, 0);
+
+  const bills = [...group.bills].sort((a, b) => a.createdAt - b.createdAt);
+  const settlements = [...(group.settlements || [])].sort((a, b) => a.createdAt - b.createdAt);
+
+  return {
+    title: `${group.name} — Settlement statement`,
+    subtitle: group.members.filter(m => !m.archived).map(m => m.name).join(', '),
+    meta: `Generated ${new Date().toLocaleString(undefined, { day: 'numeric', month: 'short', year: 'numeric', hour: '2-digit', minute: '2-digit' })}`,
+    sections: [
+      {
+        title: 'Summary',
+        blocks: [
+          {
+            type: 'stats',
+            items: [
+              { label: 'Bills', value: money(billsTotal), hint: `${bills.length} bill${bills.length === 1 ? '' : 's'}` },
+              { label: 'Settled', value: money(settledTotal), hint: `${settlements.length} payment${settlements.length === 1 ? '' : 's'}` },
+              { label: 'Still owed', value: money(outstanding), tone: outstanding > 0 ? 'negative' : 'positive' },
+            ],
+          },
+          outstanding > 0
+            ? {
+                type: 'table',
+                columns: [{ label: 'From' }, { label: 'To' }, { label: 'Amount', align: 'right' }],
+                rows: transfers.map(t => [nameOf(t.fromId), nameOf(t.toId), money(t.amount)]),
+              }
+            : { type: 'note', text: 'Everyone is settled up.', tone: 'positive' },
+        ],
+      },
+      {
+        title: 'Balances by member',
+        description: 'Positive means the group owes them; negative means they owe the group.',
+        blocks: [{
+          type: 'table',
+          columns: [
+            { label: 'Member' },
+            { label: 'Paid', align: 'right' },
+            { label: 'Share', align: 'right' },
+            { label: 'Sent', align: 'right' },
+            { label: 'Received', align: 'right' },
+            { label: 'Balance', align: 'right' },
+          ],
+          rows: Object.entries(totals).map(([id, t]) => [
+            nameOf(id),
+            money(t.paid),
+            money(t.share),
+            money(t.sent),
+            money(t.received),
+            money(balances[id]),
+          ]),
+        }],
+      },
+      {
+        title: 'Bills',
+        newPage: bills.length > 15,
+        blocks: [{
+          type: 'table',
+          columns: [{ label: 'Date' }, { label: 'Bill' }, { label: 'Paid by' }, { label: 'Amount', align: 'right' }, { label: 'Status' }],
+          rows: bills.map(b => [
+            day(b.createdAt),
+            b.title,
+            b.contributions.map(c => nameOf(c.memberId)).join(', ') || '—',
+            priced(b.finalAmount, b),
+            b.splits.every(s => s.settled) ? 'Settled' : 'Open',
+          ]),
+          total: ['', 'Total', '', money(billsTotal), ''],
+          emptyText: 'No bills yet.',
+        }],
+      },
+      {
+        title: 'Settlements',
+        blocks: [{
+          type: 'table',
+          columns: [{ label: 'Date' }, { label: 'From' }, { label: 'To' }, { label: 'For' }, { label: 'Amount', align: 'right' }],
+          rows: settlements.map(s => [
+            day(s.createdAt),
+            nameOf(s.fromId),
+            nameOf(s.toId),
+            s.memo || (s.billId ? group.bills.find(b => b.id === s.billId)?.title || '' : ''),
+            priced(s.amount, s),
+          ]),
+          emptyText: 'No settlements recorded.',
+        }],
+      },
+    ],
+    footer: 'Generated by FinGrow.',
+  };
+}
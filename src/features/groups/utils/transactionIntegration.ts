@@ -7,8 +7,32 @@
  */
 
 import { useTxStore } from '../../../store/transactions';
-import { useAccountsStore } from '../../../store/accounts';
-import type { Bill, Settlement, ID } from '../../../types/groups';
+import { useAccountsStore, type BankAccount } from '../../../store/accounts';
+import { useProfileStore } from '../../../store/profile';
+import { findExchangeRate } from '../../../lib/fx';
+import { formatCurrency } from '../../../lib/format';
+import type { Bill, Group, Settlement, ID } from '../../../types/groups';
+import { currencyOf, groupCurrency, toGroupCurrency } from './currency';
+
+/**
+ * `amount` from a bill or settlement converted to the account's currency,
+ * with the original amount formatted for the note when a conversion happened.
+ * An account in the group's currency uses the rate fixed on the bill or
+ * settlement, so the personal ledger matches the group's balances; any other
+ * account uses today's rate.
+ */
+async function inAccountCurrency(amount: number, x: Bill | Settlement, group: Pick<Group, 'currency'>, account: BankAccount) {
+  const accountCurrency = (account.currency || useProfileStore.getState().profile?.currency || 'USD').toUpperCase();
+  const currency = currencyOf(group, x);
+  if (currency === accountCurrency) return { amount, original: undefined };
+  const original = formatCurrency(amount, currency);
+  if (accountCurrency === groupCurrency(group) && x.rate) {
+    return { amount: Math.round(toGroupCurrency(amount, x) * 100) / 100, original };
+  }
+  const rate = await findExchangeRate(currency, accountCurrency);
+  if (rate === undefined) throw new Error(`No exchange rate from ${currency} to ${accountCurrency}`);
+  return { amount: Math.round(amount * rate * 100) / 100, original };
+}
 
 /**
  * Creates a transaction when a user pays for a group bill
@@ -16,12 +40,14 @@ import type { Bill, Settlement, ID } from '../../../types/groups';
  * @param bill - The bill that was paid
  * @param accountId - The account used to pay the bill
  * @param currentUserId - The ID of the current user (must be a payer)
+ * @param group - The bill's group, for its currency; the payment is booked in the account's currency
  * @returns The transaction ID
  */
 export async function createBillPaymentTransaction(
   bill: Bill,
   accountId: string,
-  currentUserId: ID
+  currentUserId: ID,
+  group: Pick<Group, 'currency'>
 ): Promise<string> {
   const { add } = useTxStore.getState();
   const { accounts, updateAccountBalance } = useAccountsStore.getState();
@@ -38,13 +64,15 @@ export async function createBillPaymentTransaction(
     throw new Error('Account not found');
   }
 
+  const booked = await inAccountCurrency(userContribution.amount, bill, group, account);
+
   // Create the expense transaction
   const txData = {
     type: 'expense' as const,
-    amount: userContribution.amount,
+    amount: booked.amount,
     category: bill.category || 'Group Expense',
     date: new Date(bill.createdAt).toISOString(),
-    note: `${bill.title} (Group Bill)`,
+    note: `${bill.title} (Group Bill${booked.original ? `, ${booked.original}` : ''})`,
     title: bill.title,
     account: account.name, // Use account name, not ID
   };
@@ -52,7 +80,7 @@ export async function createBillPaymentTransaction(
   await add(txData);
 
   // Update account balance using account name
-  await updateAccountBalance(account.name, userContribution.amount, true);
+  await updateAccountBalance(account.name, booked.amount, true);
 
   // Return the generated transaction ID (we need to get it from the store)
   const { transactions } = useTxStore.getState();
@@ -66,13 +94,15 @@ export async function createBillPaymentTransaction(
  * @param accountId - The account receiving the payment
  * @param fromMemberName - Name of the person paying
  * @param billTitle - Title of the related bill (optional)
+ * @param group - The settlement's group, for its currency; the payment is booked in the account's currency
  * @returns The transaction ID
  */
 export async function createSettlementTransaction(
   settlement: Settlement,
   accountId: string,
   fromMemberName: string,
-  billTitle?: string
+  billTitle: string | undefined,
+  group: Pick<Group, 'currency'>
 ): Promise<string> {
   const { add } = useTxStore.getState();
   const { accounts, updateAccountBalance } = useAccountsStore.getState();
@@ -83,14 +113,16 @@ export async function createSettlementTransaction(
     throw new Error('Account not found');
   }
 
+  const booked = await inAccountCurrency(settlement.amount, settlement, group, account);
+
   // Create the income transaction
-  const note = billTitle
+  const note = (billTitle
     ? `Reimbursement from ${fromMemberName} for ${billTitle}`
-    : `Reimbursement from ${fromMemberName}`;
+    : `Reimbursement from ${fromMemberName}`) + (booked.original ? ` (${booked.original})` : '');
 
   const txData = {
     type: 'income' as const,
-    amount: settlement.amount,
+    amount: booked.amount,
     category: 'Reimbursement',
     date: new Date(settlement.createdAt).toISOString(),
     note,
@@ -101,7 +133,7 @@ export async function createSettlementTransaction(
   await add(txData);
 
   // Update account balance using account name
-  await updateAccountBalance(account.name, settlement.amount, false);
+  await updateAccountBalance(account.name, booked.amount, false);
 
   // Return the generated transaction ID
   const { transactions } = useTxStore.getState();
@@ -0,0 +1,280 @@
+import React from 'react';
+import { View, Text, TextInput, Pressable, Keyboard, ScrollView, Modal, TouchableWithoutFeedback, Platform } from 'react-native';
+import BottomSheet from '../../../components/BottomSheet';
+import { useThemeTokens } from '../../../theme/ThemeProvider';
+import { spacing, radius } from '../../../theme/tokens';
+import { useInvestStore, type CorporateActionKind } from '../store';
+import Icon from '../../../components/Icon';
+import DateTimePicker from '@react-native-community/datetimepicker';
+import { CORPORATE_ACTION_KINDS, adjustedLots } from '../../../lib/corporateActions';
+import { formatCurrency } from '../../../lib/format';
+
+type Props = {
+  visible: boolean;
+  onClose: () => void;
+  symbol: string;
+  portfolioId: string | null;
+  currency: string;
+  /** Called with the holding's symbol afterwards, which changes on a rename or merger. */
+  onSaved?: (symbol: string) => void;
+};
+
+const fmtQty = (n: number) => n.toLocaleString(undefined, { maximumFractionDigits: 6 });
+
+/** Records a split, ticker change or merger. Past lots are restated, not rewritten. */
+export default function CorporateActionSheet({ visible, onClose, symbol, portfolioId, currency, onSaved }: Props) {
+  const { get, isDark } = useThemeTokens();
+  const addCorporateAction = useInvestStore(s => s.addCorporateAction);
+  const holding = useInvestStore(s => (portfolioId ? s.portfolios[portfolioId]?.holdings?.[symbol] : s.holdings[symbol]));
+
+  const [kind, setKind] = React.useState<CorporateActionKind>('split');
+  const [newShares, setNewShares] = React.useState('');
+  const [oldShares, setOldShares] = React.useState('1');
+  const [toSymbol, setToSymbol] = React.useState('');
+  const [toName, setToName] = React.useState('');
+  const [perShare, setPerShare] = React.useState('');
+  const [cashInLieu, setCashInLieu] = React.useState('');
+  const [note, setNote] = React.useState('');
+  const [date, setDate] = React.useState<Date>(new Date());
+  const [showDatePicker, setShowDatePicker] = React.useState(false);
+
+  React.useEffect(() => {
+    if (!visible) {
+      setKind('split'); setNewShares(''); setOldShares('1'); setToSymbol(''); setToName('');
+      setPerShare(''); setCashInLieu(''); setNote(''); setDate(new Date()); setShowDatePicker(false);
+    }
+  }, [visible]);
+
+  const text = get('text.primary') as string;
+  const muted = get('text.muted') as string;
+  const cardBg = get('surface.level1') as string;
+  const border = get('border.subtle') as string;
+  const accentPrimary = get('accent.primary') as string;
+
+  const to = toSymbol.trim().toUpperCase();
+  const ratio = kind === 'split'
+    ? (Number(oldShares) > 0 ? Number(newShares || '0') / Number(oldShares) : 0)
+    : kind === 'merger' ? Number(perShare || '0') : 1;
+  const cash = Number(cashInLieu || '0');
+  const canSave = ratio > 0 && cash >= 0 && (kind === 'split' || (!!to && to !== symbol));
+
+  // Shares held going in, to show what the action leaves behind
+  const heldBefore = React.useMemo(() => {
+    const cutoff = date.getTime();
+    return adjustedLots(holding).reduce((s, l) => (new Date(l.date).getTime() < cutoff ? s + (l.side === 'buy' ? l.qty : -l.qty) : s), 0);
+  }, [holding, date]);
+  const heldAfter = heldBefore * ratio;
+  const fraction = heldAfter - Math.floor(heldAfter + 1e-9);
+
+  const onSave = async () => {
+    try { Keyboard.dismiss(); } catch {}
+    if (!canSave) return;
+    try {
+      const next = await addCorporateAction(symbol, {
+        kind,
+        ratio: kind === 'rename' ? undefined : ratio,
+        toSymbol: kind === 'split' ? undefined : to,
+        cashInLieu: kind !== 'rename' && cash > 0 ? cash : undefined,
+        note: note.trim() || undefined,
+        date: date.toISOString(),
+      }, { portfolioId: portfolioId || undefined, name: toName.trim() || undefined });
+      onSaved?.(next);
+    } catch (e) {
+      console.error(e);
+    }
+    onClose();
+  };
+
+  const label = { color: muted, fontSize: 11, fontWeight: '700' as const, textTransform: 'uppercase' as const, letterSpacing: 0.5 };
+  const inputStyle = {
+    color: text,
+    backgroundColor: cardBg,
+    borderColor: border,
+    borderWidth: 1,
+    borderRadius: radius.lg,
+    paddingHorizontal: spacing.s16,
+    height: 52,
+    fontSize: 16,
+    fontWeight: '700' as const,
+  };
+
+  return (
+    <>
+      <BottomSheet visible={visible && !showDatePicker} onClose={onClose} height={640}>
+        <ScrollView
+          keyboardShouldPersistTaps="handled"
+          keyboardDismissMode="on-drag"
+          contentContainerStyle={{ padding: spacing.s20, gap: spacing.s16 }}
+        >
+          <View style={{ gap: spacing.s4 }}>
+            <Text style={{ color: text, fontWeight: '800', fontSize: 24, letterSpacing: -0.5 }}>Corporate action</Text>
+            <Text style={{ color: muted, fontSize: 14 }}>{symbol} · {CORPORATE_ACTION_KINDS.find(k => k.key === kind)?.hint}</Text>
+          </View>
+
+          <View style={{ flexDirection: 'row', gap: spacing.s8 }}>
+            {CORPORATE_ACTION_KINDS.map(k => {
+              const on = kind === k.key;
+              return (
+                <Pressable
+                  key={k.key}
+                  onPress={() => setKind(k.key)}
+                  style={({ pressed }) => ({
+                    paddingHorizontal: spacing.s14,
+                    paddingVertical: spacing.s8,
+                    borderRadius: radius.pill,
+                    backgroundColor: on ? accentPrimary : cardBg,
+                    borderWidth: 1,
+                    borderColor: on ? accentPrimary : border,
+                    opacity: pressed ? 0.8 : 1,
+                  })}
+                >
+                  <Text style={{ color: on ? '#FFFFFF' : text, fontWeight: '700', fontSize: 13 }}>{k.label}</Text>
+                </Pressable>
+              );
+            })}
+          </View>
+
+          {kind === 'split' ? (
+            <View style={{ flexDirection: 'row', alignItems: 'flex-end', gap: spacing.s12 }}>
+              <View style={{ flex: 1, gap: spacing.s6 }}>
+                <Text style={label}>New shares</Text>
+                <TextInput keyboardType="decimal-pad" value={newShares} onChangeText={setNewShares} placeholder="10" placeholderTextColor={muted} style={inputStyle} />
+              </View>
+              <Text style={{ color: muted, fontSize: 20, fontWeight: '700', paddingBottom: spacing.s14 }}>for</Text>
+              <View style={{ flex: 1, gap: spacing.s6 }}>
+                <Text style={label}>Old shares</Text>
+                <TextInput keyboardType="decimal-pad" value={oldShares} onChangeText={setOldShares} placeholder="1" placeholderTextColor={muted} style={inputStyle} />
+              </View>
+            </View>
+          ) : (
+            <View style={{ gap: spacing.s6 }}>
+              <Text style={label}>New symbol</Text>
+              <TextInput value={toSymbol} onChangeText={setToSymbol} autoCapitalize="characters" autoCorrect={false} placeholder="e.g. META" placeholderTextColor={muted} style={inputStyle} />
+            </View>
+          )}
+
+          {kind === 'merger' ? (
+            <>
+              <View style={{ gap: spacing.s6 }}>
+                <Text style={label}>New shares per old share</Text>
+                <TextInput keyboardType="decimal-pad" value={perShare} onChangeText={setPerShare} placeholder="0.5" placeholderTextColor={muted} style={inputStyle} />
+              </View>
+              <TextInput
+                value={toName}
+                onChangeText={setToName}
+                placeholder="Company name (optional)"
+                placeholderTextColor={muted}
+                style={{ ...inputStyle, height: 44, fontSize: 14, fontWeight: '600' }}
+              />
+            </>
+          ) : null}
+
+          {kind !== 'rename' ? (
+            <View style={{ gap: spacing.s6 }}>
+              <Text style={label}>Cash in lieu</Text>
+              <TextInput keyboardType="decimal-pad" value={cashInLieu} onChangeText={setCashInLieu} placeholder="0.00" placeholderTextColor={muted} style={inputStyle} />
+              {ratio > 0 && heldBefore > 0 ? (
+                <Text style={{ color: muted, fontSize: 13 }}>
+                  {fmtQty(heldBefore)} shares become {fmtQty(heldAfter)}
+                  {fraction > 1e-6
+                    ? cash > 0
+                      ? `; ${fmtQty(fraction)} sold for ${formatCurrency(cash, currency)}`
+                      : `; enter the cash paid if the ${fmtQty(fraction)} fraction was sold`
+                    : ''}
+                </Text>
+              ) : null}
+            </View>
+          ) : null}
+
+          <Pressable
+            onPress={() => setShowDatePicker(true)}
+            style={({ pressed }) => ({
+              padding: spacing.s16,
+              borderRadius: radius.lg,
+              backgroundColor: cardBg,
+              borderWidth: 1,
+              borderColor: border,
+              flexDirection: 'row',
+              alignItems: 'center',
+              gap: spacing.s12,
+              opacity: pressed ? 0.8 : 1,
+            })}
+          >
+            <Icon name="calendar" size={20} color={accentPrimary} />
+            <Text style={{ color: text, fontWeight: '600', fontSize: 15, flex: 1 }}>
+              Effective {date.toLocaleDateString(undefined, { year: 'numeric', month: 'long', day: 'numeric' })}
+            </Text>
+            <Icon name="chevron-right" size={20} color={muted} />
+          </Pressable>
+
+          <TextInput
+            value={note}
+            onChangeText={setNote}
+            placeholder="Note (optional)"
+            placeholderTextColor={muted}
+            style={{ ...inputStyle, height: 44, fontSize: 14, fontWeight: '600' }}
+          />
+
+          <View style={{ flexDirection: 'row', gap: spacing.s12, marginTop: spacing.s8 }}>
+            <Pressable
+              onPress={onClose}
+              style={({ pressed }) => ({
+                flex: 1,
+                paddingVertical: spacing.s14,
+                borderRadius: radius.lg,
+                backgroundColor: cardBg,
+                borderWidth: 1,
+                borderColor: border,
+                opacity: pressed ? 0.8 : 1,
+                alignItems: 'center',
+              })}
+            >
+              <Text style={{ color: text, fontWeight: '700', fontSize: 15 }}>Cancel</Text>
+            </Pressable>
+            <Pressable
+              onPress={onSave}
+              disabled={!canSave}
+              style={({ pressed }) => ({
+                flex: 1,
+                paddingVertical: spacing.s14,
+                borderRadius: radius.lg,
+                backgroundColor: canSave ? accentPrimary : cardBg,
+                opacity: pressed ? 0.9 : !canSave ? 0.5 : 1,
+                alignItems: 'center',
+              })}
+            >
+              <Text style={{ color: canSave ? '#FFFFFF' : muted, fontWeight: '700', fontSize: 15 }}>Save</Text>
+            </Pressable>
+          </View>
+        </ScrollView>
+      </BottomSheet>
+
+      <Modal visible={showDatePicker} transparent animationType="fade" onRequestClose={() => setShowDatePicker(false)}>
+        <View style={{ flex: 1, backgroundColor: 'rgba(0,0,0,0.5)', justifyContent: 'center', alignItems: 'center', padding: spacing.s16 }}>
+          <TouchableWithoutFeedback onPress={() => setShowDatePicker(false)}>
+            <View style={{ position: 'absolute', top: 0, right: 0, bottom: 0, left: 0 }} />
+          </TouchableWithoutFeedback>
+          <View style={{ width: '100%', maxWidth: 400, backgroundColor: get('background.default') as string, borderRadius: 20, padding: spacing.s8 }}>
+            <View style={{ alignItems: 'center' }}>
+              <DateTimePicker
+                value={date}
+                mode="date"
+                display={Platform.OS === 'ios' ? 'inline' : 'default'}
+                onChange={(event, selectedDate) => { if (selectedDate) setDate(selectedDate); }}
+                themeVariant={isDark ? 'dark' : 'light'}
+              />
+            </View>
+            <View style={{ flexDirection: 'row', justifyContent: 'flex-end', padding: spacing.s4 }}>
+              <Pressable
+                onPress={() => setShowDatePicker(false)}
+                style={({ pressed }) => ({ backgroundColor: accentPrimary, borderRadius: radius.lg, paddingHorizontal: spacing.s20, paddingVertical: spacing.s10, opacity: pressed ? 0.85 : 1 })}
+              >
+                <Text style={{ color: '#FFFFFF', fontSize: 15, fontWeight: '700' }}>Done</Text>
+              </Pressable>
+            </View>
+          </View>
+        </View>
+      </Modal>
+    </>
+  );
+}
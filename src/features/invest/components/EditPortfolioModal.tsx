@@ -3,7 +3,8 @@ import { View, Text, TextInput, Pressable, Alert } from 'react-native';
 import CenterModal from '../../../components/CenterModal';
 import { useThemeTokens } from '../../../theme/ThemeProvider';
 import { spacing, radius } from '../../../theme/tokens';
-import { useInvestStore } from '../store';
+import { useInvestStore, type CostMethod } from '../store';
+import { COST_METHODS } from '../../../lib/positions';
 
 type Props = {
   visible: boolean;
@@ -28,12 +29,14 @@ export default function EditPortfolioModal({ visible, onClose, portfolioId }: Pr
   const [name, setName] = useState('');
   const [currency, setCurrency] = useState('USD');
   const [benchmark, setBenchmark] = useState('None');
+  const [costMethod, setCostMethod] = useState<CostMethod>('average');
 
   useEffect(() => {
     if (p && visible) {
       setName(p.name || '');
       setCurrency((p.baseCurrency || 'USD').toUpperCase());
       setBenchmark((p.benchmark || 'None'));
+      setCostMethod(p.costMethod || 'average');
     }
   }, [p?.id, visible]);
 
@@ -47,7 +50,7 @@ export default function EditPortfolioModal({ visible, onClose, portfolioId }: Pr
       const s: any = (useInvestStore as any).getState();
       const map = { ...(s.portfolios || {}) };
       const prev = map[portfolioId!];
-      map[portfolioId!] = { ...prev, baseCurrency: (currency||'USD').toUpperCase(), benchmark: benchmark === 'None' ? undefined : benchmark, updatedAt: new Date().toISOString() };
+      map[portfolioId!] = { ...prev, baseCurrency: (currency||'USD').toUpperCase(), benchmark: benchmark === 'None' ? undefined : benchmark, costMethod, updatedAt: new Date().toISOString() };
       (useInvestStore as any).setState({ portfolios: map });
       if (typeof s.persist === 'function') await s.persist();
       onClose();
@@ -89,6 +92,21 @@ export default function EditPortfolioModal({ visible, onClose, portfolioId }: Pr
           ))}
         </View>
 
+        <Text style={{ color: text, marginTop: spacing.s16, marginBottom: spacing.s6, fontWeight: '600' }}>Cost basis</Text>
+        <View style={{ flexDirection:'row', flexWrap:'wrap', gap: spacing.s8, marginTop: spacing.s8 }}>
+          {COST_METHODS.map((m) => {
+            const on = costMethod === m.key;
+            return (
+              <Pressable key={m.key} onPress={() => setCostMethod(m.key)} style={{ borderWidth:1, borderColor: on ? primary : border, backgroundColor: on ? primary : 'transparent', borderRadius: 999, paddingHorizontal: spacing.s12, paddingVertical: spacing.s8 }}>
+                <Text style={{ color: on ? onPrimary : text }}>{m.label}</Text>
+              </Pressable>
+            );
+          })}
+        </View>
+        <Text style={{ color: muted, fontSize: 12, marginTop: spacing.s8 }}>
+          {COST_METHODS.find(m => m.key === costMethod)?.hint}. Realized gains and average cost follow this method.
+        </Text>
+
         <View style={{ height: spacing.s16 }} />
 
         <Pressable
@@ -9,7 +9,9 @@ import { useInvestStore } from '../store';
 import { useProfileStore } from '../../../store/profile';
 import { formatCurrency, formatPercent } from '../../../lib/format';
 import { convertCurrency } from '../../../lib/fx';
+import { adjustedLots } from '../../../lib/corporateActions';
 import { TickerLogo } from '../../../components/TickerLogo';
+import Icon from '../../../components/Icon';
 
 function getLogoColor(symbol: string): string {
   // Generate consistent color based on symbol
@@ -61,7 +63,7 @@ const HoldingRow = React.memo(({ sym, onPress, portfolioId, variant = 'card' }:
 
   const h = isCash ? null : (portfolioId ? (portfolios[portfolioId]?.holdings?.[sym]) : holdings[sym]);
   const q = isCash ? null : quotes[sym];
-  const qty = isCash ? 0 : (h?.lots || []).reduce((acc, l) => acc + (l.side === 'buy' ? l.qty : -l.qty), 0);
+  const qty = isCash ? 0 : adjustedLots(h).reduce((acc, l) => acc + (l.side === 'buy' ? l.qty : -l.qty), 0);
 
   // Get the native currency of the ticker
   // Priority: 1) holding metadata, 2) infer from symbol, 3) default USD
@@ -105,7 +107,7 @@ const HoldingRow = React.memo(({ sym, onPress, portfolioId, variant = 'card' }:
     if (isCash || !h || !h.lots || h.lots.length === 0) return { totalGainLoss: 0, totalGainPct: 0 };
     let totalCost = 0;
     let currentQty = 0;
-    for (const lot of h.lots) {
+    for (const lot of adjustedLots(h)) {
       // Lot prices are stored in the ticker's native currency, need to convert to portfolio currency
       const lotPriceConverted = convertCurrency(fxRates, lot.price, tickerCurrency, portfolioCurrency);
       if (lot.side === 'buy') {
@@ -132,6 +134,7 @@ const HoldingRow = React.memo(({ sym, onPress, portfolioId, variant = 'card' }:
   const border = get('border.subtle') as string;
   const good = get('semantic.success') as string;
   const bad = get('semantic.danger') as string;
+  const warn = get('semantic.warning') as string;
   const accent = get('accent.primary') as string;
 
   const tone = isCash ? accent : (positive ? good : bad);
@@ -175,7 +178,10 @@ const HoldingRow = React.memo(({ sym, onPress, portfolioId, variant = 'card' }:
 
         {/* Left: Ticker and Company Name */}
         <View style={{ flex: 1, gap: spacing.s2 }}>
-          <Text style={{ color: text, fontWeight: '800', fontSize: 15 }}>{isCash ? 'Cash' : sym}</Text>
+          <View style={{ flexDirection: 'row', alignItems: 'center', gap: spacing.s6 }}>
+            <Text style={{ color: text, fontWeight: '800', fontSize: 15 }}>{isCash ? 'Cash' : sym}</Text>
+            {q?.stale ? <Icon name="history" size={12} color={warn} /> : null}
+          </View>
           {isCash ? (
             <Text style={{ color: muted, fontSize: 12 }}>{cur}</Text>
           ) : (
@@ -200,7 +206,7 @@ const HoldingRow = React.memo(({ sym, onPress, portfolioId, variant = 'card' }:
               const syms = Object.keys(holds);
               const totalHold = syms.reduce((acc, s) => {
                 const q = (useInvestStore.getState().quotes || {})[s]?.last || 0;
-                const lots = (holds[s]?.lots || []) as any[];
+                const lots = adjustedLots(holds[s]) as any[];
                 const qty = lots.reduce((a,l)=> a + (l.side==='buy'?l.qty:-l.qty), 0);
                 return acc + (q * qty);
               }, 0);
@@ -0,0 +1,264 @@
+import React from 'react';
+import { View, Text, TextInput, Pressable, Keyboard, ScrollView, Modal, TouchableWithoutFeedback, Platform, Switch } from 'react-native';
+import BottomSheet from '../../../components/BottomSheet';
+import { useThemeTokens } from '../../../theme/ThemeProvider';
+import { spacing, radius } from '../../../theme/tokens';
+import { useInvestStore, type IncomeKind } from '../store';
+import Icon from '../../../components/Icon';
+import DateTimePicker from '@react-native-community/datetimepicker';
+import { INCOME_KINDS } from '../../../lib/income';
+import { formatCurrency } from '../../../lib/format';
+
+type Props = {
+  visible: boolean;
+  onClose: () => void;
+  symbol: string;
+  portfolioId: string | null;
+  currency: string;
+};
+
+/** Records a dividend, coupon or distribution, paid to cash or reinvested (DRIP). */
+export default function IncomeEditorSheet({ visible, onClose, symbol, portfolioId, currency }: Props) {
+  const { get, isDark } = useThemeTokens();
+  const addIncome = useInvestStore(s => s.addIncome);
+  const lastPrice = useInvestStore(s => s.quotes[symbol]?.last || 0);
+
+  const [kind, setKind] = React.useState<IncomeKind>('dividend');
+  const [amount, setAmount] = React.useState('');
+  const [withholding, setWithholding] = React.useState('');
+  const [reinvest, setReinvest] = React.useState(false);
+  const [reinvestPrice, setReinvestPrice] = React.useState('');
+  const [affectCash, setAffectCash] = React.useState(true);
+  const [note, setNote] = React.useState('');
+  const [date, setDate] = React.useState<Date>(new Date());
+  const [showDatePicker, setShowDatePicker] = React.useState(false);
+
+  React.useEffect(() => {
+    if (!visible) {
+      setKind('dividend'); setAmount(''); setWithholding(''); setReinvest(false);
+      setAffectCash(true); setNote(''); setDate(new Date()); setShowDatePicker(false);
+    }
+    setReinvestPrice(lastPrice ? String(lastPrice) : '');
+  }, [visible]);
+
+  const text = get('text.primary') as string;
+  const muted = get('text.muted') as string;
+  const cardBg = get('surface.level1') as string;
+  const border = get('border.subtle') as string;
+  const accentPrimary = get('accent.primary') as string;
+
+  const gross = Number(amount || '0');
+  const tax = Number(withholding || '0');
+  const net = gross - tax;
+  const price = Number(reinvestPrice || '0');
+  const canSave = gross > 0 && tax >= 0 && tax < gross && (!reinvest || price > 0);
+
+  const onSave = async () => {
+    try { Keyboard.dismiss(); } catch {}
+    if (!canSave) return;
+    try {
+      await addIncome(symbol, {
+        kind,
+        amount: gross,
+        withholding: tax > 0 ? tax : undefined,
+        note: note.trim() || undefined,
+        date: date.toISOString(),
+      }, { portfolioId: portfolioId || undefined, reinvestPrice: reinvest ? price : undefined, affectCash });
+    } catch (e) {
+      console.error(e);
+    }
+    onClose();
+  };
+
+  const inputStyle = {
+    color: text,
+    backgroundColor: cardBg,
+    borderColor: border,
+    borderWidth: 1,
+    borderRadius: radius.lg,
+    paddingHorizontal: spacing.s16,
+    height: 52,
+    fontSize: 16,
+    fontWeight: '700' as const,
+  };
+
+  return (
+    <>
+      <BottomSheet visible={visible && !showDatePicker} onClose={onClose} height={640}>
+        <ScrollView
+          keyboardShouldPersistTaps="handled"
+          keyboardDismissMode="on-drag"
+          contentContainerStyle={{ padding: spacing.s20, gap: spacing.s16 }}
+        >
+          <View style={{ gap: spacing.s4 }}>
+            <Text style={{ color: text, fontWeight: '800', fontSize: 24, letterSpacing: -0.5 }}>Record income</Text>
+            <Text style={{ color: muted, fontSize: 14 }}>{symbol} · amounts in {currency}</Text>
+          </View>
+
+          <View style={{ flexDirection: 'row', gap: spacing.s8 }}>
+            {INCOME_KINDS.map(k => {
+              const on = kind === k.key;
+              return (
+                <Pressable
+                  key={k.key}
+                  onPress={() => setKind(k.key)}
+                  style={({ pressed }) => ({
+                    paddingHorizontal: spacing.s14,
+                    paddingVertical: spacing.s8,
+                    borderRadius: radius.pill,
+                    backgroundColor: on ? accentPrimary : cardBg,
+                    borderWidth: 1,
+                    borderColor: on ? accentPrimary : border,
+                    opacity: pressed ? 0.8 : 1,
+                  })}
+                >
+                  <Text style={{ color: on ? '#FFFFFF' : text, fontWeight: '700', fontSize: 13 }}>{k.label}</Text>
+                </Pressable>
+              );
+            })}
+          </View>
+
+          <View style={{ flexDirection: 'row', gap: spacing.s12 }}>
+            <View style={{ flex: 1, gap: spacing.s6 }}>
+              <Text style={{ color: muted, fontSize: 11, fontWeight: '700', textTransform: 'uppercase', letterSpacing: 0.5 }}>Gross amount</Text>
+              <TextInput keyboardType="decimal-pad" value={amount} onChangeText={setAmount} placeholder="0.00" placeholderTextColor={muted} style={inputStyle} />
+            </View>
+            <View style={{ flex: 1, gap: spacing.s6 }}>
+              <Text style={{ color: muted, fontSize: 11, fontWeight: '700', textTransform: 'uppercase', letterSpacing: 0.5 }}>Tax withheld</Text>
+              <TextInput keyboardType="decimal-pad" value={withholding} onChangeText={setWithholding} placeholder="0.00" placeholderTextColor={muted} style={inputStyle} />
+            </View>
+          </View>
+          {gross > 0 ? (
+            <Text style={{ color: muted, fontSize: 13 }}>Net received: {formatCurrency(net, currency)}</Text>
+          ) : null}
+
+          <Pressable
+            onPress={() => setShowDatePicker(true)}
+            style={({ pressed }) => ({
+              padding: spacing.s16,
+              borderRadius: radius.lg,
+              backgroundColor: cardBg,
+              borderWidth: 1,
+              borderColor: border,
+              flexDirection: 'row',
+              alignItems: 'center',
+              gap: spacing.s12,
+              opacity: pressed ? 0.8 : 1,
+            })}
+          >
+            <Icon name="calendar" size={20} color={accentPrimary} />
+            <Text style={{ color: text, fontWeight: '600', fontSize: 15, flex: 1 }}>
+              Paid {date.toLocaleDateString(undefined, { year: 'numeric', month: 'long', day: 'numeric' })}
+            </Text>
+            <Icon name="chevron-right" size={20} color={muted} />
+          </Pressable>
+
+          <View style={{ flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between' }}>
+            <View style={{ flex: 1 }}>
+              <Text style={{ color: text, fontWeight: '700', fontSize: 15 }}>Reinvest (DRIP)</Text>
+              <Text style={{ color: muted, fontSize: 12 }}>Buys shares with the net amount</Text>
+            </View>
+            <Switch
+              value={reinvest}
+              onValueChange={setReinvest}
+              trackColor={{ false: border, true: accentPrimary }}
+              thumbColor="#FFFFFF"
+              ios_backgroundColor={border}
+            />
+          </View>
+
+          {reinvest ? (
+            <View style={{ gap: spacing.s6 }}>
+              <Text style={{ color: muted, fontSize: 11, fontWeight: '700', textTransform: 'uppercase', letterSpacing: 0.5 }}>Reinvestment price</Text>
+              <TextInput keyboardType="decimal-pad" value={reinvestPrice} onChangeText={setReinvestPrice} placeholder="0.00" placeholderTextColor={muted} style={inputStyle} />
+              {net > 0 && price > 0 ? (
+                <Text style={{ color: muted, fontSize: 13 }}>
+                  Adds {(net / price).toLocaleString(undefined, { maximumFractionDigits: 6 })} shares
+                </Text>
+              ) : null}
+            </View>
+          ) : (
+            <View style={{ flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between' }}>
+              <Text style={{ color: text, fontWeight: '700', fontSize: 15 }}>Add to portfolio cash</Text>
+              <Switch
+                value={affectCash}
+                onValueChange={setAffectCash}
+                trackColor={{ false: border, true: accentPrimary }}
+                thumbColor="#FFFFFF"
+                ios_backgroundColor={border}
+              />
+            </View>
+          )}
+
+          <TextInput
+            value={note}
+            onChangeText={setNote}
+            placeholder="Note (optional)"
+            placeholderTextColor={muted}
+            style={{ ...inputStyle, height: 44, fontSize: 14, fontWeight: '600' }}
+          />
+
+          <View style={{ flexDirection: 'row', gap: spacing.s12, marginTop: spacing.s8 }}>
+            <Pressable
+              onPress={onClose}
+              style={({ pressed }) => ({
+                flex: 1,
+                paddingVertical: spacing.s14,
+                borderRadius: radius.lg,
+                backgroundColor: cardBg,
+                borderWidth: 1,
+                borderColor: border,
+                opacity: pressed ? 0.8 : 1,
+                alignItems: 'center',
+              })}
+            >
+              <Text style={{ color: text, fontWeight: '700', fontSize: 15 }}>Cancel</Text>
+            </Pressable>
+            <Pressable
+              onPress={onSave}
+              disabled={!canSave}
+              style={({ pressed }) => ({
+                flex: 1,
+                paddingVertical: spacing.s14,
+                borderRadius: radius.lg,
+                backgroundColor: canSave ? accentPrimary : cardBg,
+                opacity: pressed ? 0.9 : !canSave ? 0.5 : 1,
+                alignItems: 'center',
+              })}
+            >
+              <Text style={{ color: canSave ? '#FFFFFF' : muted, fontWeight: '700', fontSize: 15 }}>Save</Text>
+            </Pressable>
+          </View>
+        </ScrollView>
+      </BottomSheet>
+
+      <Modal visible={showDatePicker} transparent animationType="fade" onRequestClose={() => setShowDatePicker(false)}>
+        <View style={{ flex: 1, backgroundColor: 'rgba(0,0,0,0.5)', justifyContent: 'center', alignItems: 'center', padding: spacing.s16 }}>
+          <TouchableWithoutFeedback onPress={() => setShowDatePicker(false)}>
+            <View style={{ position: 'absolute', top: 0, right: 0, bottom: 0, left: 0 }} />
+          </TouchableWithoutFeedback>
+          <View style={{ width: '100%', maxWidth: 400, backgroundColor: get('background.default') as string, borderRadius: 20, padding: spacing.s8 }}>
+            <View style={{ alignItems: 'center' }}>
+              <DateTimePicker
+                value={date}
+                mode="date"
+                maximumDate={new Date()}
+                display={Platform.OS === 'ios' ? 'inline' : 'default'}
+                onChange={(event, selectedDate) => { if (selectedDate) setDate(selectedDate); }}
+                themeVariant={isDark ? 'dark' : 'light'}
+              />
+            </View>
+            <View style={{ flexDirection: 'row', justifyContent: 'flex-end', padding: spacing.s4 }}>
+              <Pressable
+                onPress={() => setShowDatePicker(false)}
+                style={({ pressed }) => ({ backgroundColor: accentPrimary, borderRadius: radius.lg, paddingHorizontal: spacing.s20, paddingVertical: spacing.s10, opacity: pressed ? 0.85 : 1 })}
+              >
+                <Text style={{ color: '#FFFFFF', fontSize: 15, fontWeight: '700' }}>Done</Text>
+              </Pressable>
+            </View>
+          </View>
+        </View>
+      </Modal>
+    </>
+  );
+}
@@ -0,0 +1,80 @@
+import React from 'react';
+import { View, Text, TextInput, Pressable } from 'react-native';
+import { useThemeTokens } from '../../../theme/ThemeProvider';
+import { spacing, radius } from '../../../theme/tokens';
+import { openLots } from '../../../lib/positions';
+import { formatPrice } from '../../../lib/formatPrice';
+import type { Lot } from '../store';
+
+type Match = { lotId: string; qty: number };
+
+type Props = {
+  lots: Lot[];
+  /** Date of the sell; only lots bought on or before it can be picked. */
+  asOf: Date;
+  /** The sell being edited, so its own matches don't count against the open lots. */
+  excludeId?: string;
+  sellQty: number;
+  currency: string;
+  value: Match[];
+  onChange: (next: Match[]) => void;
+};
+
+const fmtQty = (n: number) => n.toLocaleString(undefined, { maximumFractionDigits: 4 });
+
+/** Specific-lot identification: choose which open buy lots a sell closes. */
+export default function LotPicker({ lots, asOf, excludeId, sellQty, currency, value, onChange }: Props) {
+  const { get } = useThemeTokens();
+  const text = get('text.primary') as string;
+  const muted = get('text.muted') as string;
+  const border = get('border.subtle') as string;
+  const accent = get('accent.primary') as string;
+
+  const open = React.useMemo(
+    () => openLots(lots, 'specific', asOf.toISOString(), excludeId),
+    [lots, asOf, excludeId]
+  );
+  const picked = value.reduce((s, m) => s + m.qty, 0);
+  const qtyFor = (id: string) => value.find(m => m.lotId === id)?.qty || 0;
+
+  const setQty = (id: string, qty: number) => {
+    const rest = value.filter(m => m.lotId !== id);
+    onChange(qty > 0 ? [...rest, { lotId: id, qty }] : rest);
+  };
+
+  if (!open.length) {
+    return <Text style={{ color: muted, fontSize: 13 }}>No open buy lots before this date.</Text>;
+  }
+
+  return (
+    <View style={{ gap: spacing.s8 }}>
+      <View style={{ flexDirection: 'row', justifyContent: 'space-between' }}>
+        <Text style={{ color: muted, fontSize: 11, fontWeight: '700', textTransform: 'uppercase', letterSpacing: 0.5 }}>Lots to sell</Text>
+        <Text style={{ color: sellQty > 0 && Math.abs(picked - sellQty) > 1e-9 ? (get('semantic.warning') as string) : muted, fontSize: 12, fontWeight: '600' }}>
+          {fmtQty(picked)} of {fmtQty(sellQty)} picked
+        </Text>
+      </View>
+      {open.map(o => {
+        const qty = qtyFor(o.id);
+        const on = qty > 0;
+        return (
+          <View key={o.id} style={{ flexDirection: 'row', alignItems: 'center', gap: spacing.s8, borderWidth: 1, borderColor: on ? accent : border, borderRadius: radius.lg, paddingHorizontal: spacing.s12, paddingVertical: spacing.s8 }}>
+            <Pressable style={{ flex: 1 }} onPress={() => setQty(o.id, on ? 0 : Math.min(o.qty, Math.max(0, sellQty - picked) || o.qty))}>
+              <Text style={{ color: text, fontWeight: '700' }}>{new Date(o.date).toLocaleDateString()}</Text>
+              <Text style={{ color: muted, fontSize: 12 }}>{fmtQty(o.qty)} left · {formatPrice(o.unitCost, currency)} cost</Text>
+            </Pressable>
+            <TextInput
+              keyboardType="decimal-pad"
+              placeholder="0"
+              placeholderTextColor={muted}
+              value={qty ? String(qty) : ''}
+              onChangeText={v => setQty(o.id, Math.min(o.qty, Math.max(0, Number(v) || 0)))}
+              style={{ color: text, width: 72, textAlign: 'right', fontWeight: '700', paddingVertical: spacing.s4 }}
+            />
+          </View>
+        );
+      })}
+      <Text style={{ color: muted, fontSize: 12 }}>Shares not matched to a lot are taken oldest first.</Text>
+    </View>
+  );
+}
@@ -0,0 +1,144 @@
+import React from 'react';
+import { View, Text, Pressable } from 'react-native';
+import { useThemeTokens } from '../../../theme/ThemeProvider';
+import { spacing, radius } from '../../../theme/tokens';
+import { useInvestStore, type Portfolio } from '../store';
+import LineChart from '../../../components/LineChart';
+import { formatCurrency, formatPercent } from '../../../lib/format';
+import {
+  PERFORMANCE_PERIODS,
+  benchmarkSymbol,
+  fetchBenchmarkCloses,
+  portfolioPerformance,
+  type PerformancePeriod,
+} from '../../../lib/performance';
+import type { PricePoint } from '../../../lib/portfolioHistory';
+
+type Props = {
+  portfolios: Portfolio[];
+  currency: string;
+  benchmark?: string;   // 'SPY', 'STI', 'NONE'...
+  title?: string;
+  showChart?: boolean;
+};
+
+/** Time- and money-weighted returns for one or more portfolios, against a benchmark. */
+export default function PerformanceCard({ portfolios, currency, benchmark, title = 'Performance', showChart = true }: Props) {
+  const { get } = useThemeTokens();
+  const { quotes, fxRates } = useInvestStore();
+  const [period, setPeriod] = React.useState<PerformancePeriod>('1Y');
+  const [closes, setCloses] = React.useState<PricePoint[]>([]);
+
+  const textPrimary = get('text.primary') as string;
+  const textMuted = get('text.muted') as string;
+  const cardBg = get('surface.level1') as string;
+  const border = get('border.subtle') as string;
+  const accentPrimary = get('accent.primary') as string;
+  const successColor = get('semantic.success') as string;
+  const dangerColor = get('semantic.danger') as string;
+
+  const benchSym = benchmarkSymbol(benchmark);
+  const benchLabel = String(benchmark || '').toUpperCase();
+
+  React.useEffect(() => {
+    let alive = true;
+    setCloses([]);
+    if (!benchSym) return;
+    fetchBenchmarkCloses(benchLabel)
+      .then(c => { if (alive) setCloses(c); })
+      .catch(e => console.warn('[Performance] Benchmark history failed:', e));
+    return () => { alive = false; };
+  }, [benchSym, benchLabel]);
+
+  const result = React.useMemo(
+    () => portfolioPerformance(portfolios, {
+      quotes,
+      fxRates,
+      currency,
+      period,
+      benchmark: benchSym && closes.length ? { symbol: benchLabel, closes } : undefined,
+    }),
+    [portfolios, quotes, fxRates, currency, period, benchSym, benchLabel, closes]
+  );
+
+  const colorFor = (n?: number | null) => (n == null ? textMuted : n >= 0 ? successColor : dangerColor);
+  const pct = (n?: number | null) => (n == null || !isFinite(n) ? '—' : formatPercent(n * 100));
+  const excess = result?.benchmark ? result.twr - result.benchmark.return : null;
+
+  const tiles: Array<{ label: string; value: number | null | undefined; hint: string }> = [
+    { label: 'Time-weighted', value: result?.twr, hint: 'Ignores deposits and withdrawals' },
+    { label: 'Money-weighted', value: result?.mwrPeriod, hint: result?.mwr != null ? `${pct(result.mwr)} a year (XIRR)` : 'Not enough cash flows' },
+  ];
+  if (benchSym) {
+    tiles.push(
+      { label: benchLabel, value: result?.benchmark?.return, hint: result?.benchmark ? 'Benchmark' : 'Loading benchmark…' },
+      { label: 'Vs benchmark', value: excess, hint: 'Time-weighted less benchmark' },
+    );
+  }
+
+  return (
+    <View style={{ backgroundColor: cardBg, borderRadius: radius.lg, padding: spacing.s12 }}>
+      <View style={{ flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between', marginBottom: spacing.s12 }}>
+        <Text style={{ color: textPrimary, fontWeight: '700', fontSize: 15 }}>{title}</Text>
+        <View style={{ flexDirection: 'row', gap: spacing.s4 }}>
+          {PERFORMANCE_PERIODS.map(pp => (
+            <Pressable
+              key={pp.key}
+              onPress={() => setPeriod(pp.key)}
+              style={{ paddingHorizontal: spacing.s8, paddingVertical: spacing.s4 }}
+              hitSlop={4}
+            >
+              <Text style={{
+                color: period === pp.key ? accentPrimary : textMuted,
+                fontSize: 13,
+                fontWeight: period === pp.key ? '800' : '600',
+              }}>
+                {pp.label}
+              </Text>
+            </Pressable>
+          ))}
+        </View>
+      </View>
+
+      {!result ? (
+        <Text style={{ color: textMuted, fontSize: 13 }}>Add a transaction to see how your investments have done.</Text>
+      ) : (
+        <>
+          <View style={{ flexDirection: 'row', flexWrap: 'wrap', marginHorizontal: -spacing.s4 }}>
+            {tiles.map(t => (
+              <View key={t.label} style={{ width: '50%', padding: spacing.s4 }}>
+                <View style={{ borderWidth: 1, borderColor: border, borderRadius: radius.md, padding: spacing.s8 }}>
+                  <Text style={{ color: textMuted, fontSize: 11, fontWeight: '600', textTransform: 'uppercase', letterSpacing: 0.6 }}>{t.label}</Text>
+                  <Text style={{ color: colorFor(t.value), fontSize: 18, fontWeight: '800', marginTop: spacing.s2 }}>{pct(t.value)}</Text>
+                  <Text style={{ color: textMuted, fontSize: 11, marginTop: spacing.s2 }} numberOfLines={1}>{t.hint}</Text>
+                </View>
+              </View>
+            ))}
+          </View>
+
+          {showChart && result.series.length > 1 ? (
+            <View style={{ marginTop: spacing.s12, marginHorizontal: -spacing.s12 }}>
+              <LineChart
+                key={period}
+                data={result.series}
+                compareData={result.benchmarkSeries.length ? result.benchmarkSeries : undefined}
+                compareLabel={benchLabel}
+                height={160}
+                yAxisWidth={0}
+                padding={{ left: 16, right: 16, bottom: 20, top: 10 }}
+                currency={currency}
+                showCurrentLabel={false}
+              />
+            </View>
+          ) : null}
+
+          <Text style={{ color: textMuted, fontSize: 12, marginTop: spacing.s8 }}>
+            {formatCurrency(result.startValue, currency)} → {formatCurrency(result.endValue, currency)}
+            {Math.abs(result.netFlows) >= 0.01 ? ` · ${result.netFlows > 0 ? '+' : '−'}${formatCurrency(Math.abs(result.netFlows), currency)} net added` : ''}
+            {result.benchmarkSeries.length && showChart ? ` · dashed line is ${benchLabel} from the same start` : ''}
+          </Text>
+        </>
+      )}
+    </View>
+  );
+}
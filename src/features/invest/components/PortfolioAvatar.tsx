@@ -3,6 +3,7 @@ import { Text, View, Platform } from 'react-native';
 import { radius, spacing } from '../../../theme/tokens';
 import { useThemeTokens } from '../../../theme/ThemeProvider';
 import { type Portfolio } from '../store';
+import { adjustedLots } from '../../../lib/corporateActions';
 
 /**
  * PortfolioAvatar
@@ -59,7 +60,7 @@ function computeTopOrigins(p: Portfolio, quotes: any): string[] {
   if (symbols.length === 0) return ['–'];
 
   for (const sym of symbols) {
-    const lots = holdings[sym]?.lots || [];
+    const lots = adjustedLots(holdings[sym]);
     const qty = lots.reduce((s, l) => s + (l.side==='buy'? l.qty : -l.qty), 0);
     if (!qty) continue;
     const px = quotes[sym]?.last ?? 0;
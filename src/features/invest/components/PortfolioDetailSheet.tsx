@@ -11,6 +11,8 @@ import WatchRow from './WatchRow';
 import Icon, { type IconName } from '../../../components/Icon';
 import PopoverMenu from '../../../components/PopoverMenu';
 import { computePnL } from '../../../lib/positions';
+import { adjustedLots } from '../../../lib/corporateActions';
+import { holdingIncome } from '../../../lib/income';
 import { formatCurrency } from '../../../lib/format';
 import { convertCurrency } from '../../../lib/fx';
 import { exportPortfolioCsv } from '../../../lib/export';
@@ -105,7 +107,7 @@ export default function PortfolioDetailSheet({
     const openRows: Array<{ sym: string; value: number }> = [];
     Object.values(p.holdings || {}).forEach((h: any) => {
       if (!h) return;
-      const lots = h.lots || [];
+      const lots = adjustedLots(h);
       const qty = lots.reduce((acc: number, lot: any) => acc + (lot.side === 'buy' ? lot.qty : -lot.qty), 0);
       if (qty <= 0) return;
       const sym = h.symbol;
@@ -144,8 +146,8 @@ export default function PortfolioDetailSheet({
         price: convertCurrency(fxRates, l.price || 0, holdingCurrency, base),
         fee: convertCurrency(fxRates, (l.fee ?? l.fees) || 0, holdingCurrency, base)
       }));
-      const pnl = computePnL(normalizedLots, last);
-      totalGain += (pnl.realized || 0) + (pnl.unrealized || 0);
+      const pnl = computePnL(normalizedLots, last, p.costMethod);
+      totalGain += (pnl.realized || 0) + (pnl.unrealized || 0) + convertCurrency(fxRates, holdingIncome(h), holdingCurrency, base);
       openRows.push({ sym, value: positionValue });
     });
     const cashValue = Number(p.cash || 0);
@@ -181,7 +183,7 @@ export default function PortfolioDetailSheet({
 
     Object.values(p.holdings || {}).forEach((h: any) => {
       if (!h) return;
-      const lots = h.lots || [];
+      const lots = adjustedLots(h);
       if (lots.length === 0) return;
 
       const qty = lots.reduce((acc: number, lot: any) => acc + (lot.side === 'buy' ? lot.qty : -lot.qty), 0);
@@ -218,7 +220,7 @@ export default function PortfolioDetailSheet({
       )[0];
       const lastPrice = lastSell ? convertCurrency(fxRates, lastSell.price, holdingCurrency, base) : 0;
 
-      const pnl = computePnL(normalizedLots, lastPrice);
+      const pnl = computePnL(normalizedLots, lastPrice, p.costMethod);
       const realizedPnL = pnl.realized || 0;
 
       // Calculate realized % based on cost basis
@@ -9,6 +9,8 @@ import { useProfileStore } from '../../../store/profile';
 import { formatCurrency } from '../../../lib/format';
 import { convertCurrency, type FxRates } from '../../../lib/fx';
 import { computePnL } from '../../../lib/positions';
+import { adjustedLots } from '../../../lib/corporateActions';
+import { holdingIncome } from '../../../lib/income';
 import PopoverMenu from '../../../components/PopoverMenu';
 import PortfolioAvatar from './PortfolioAvatar';
 
@@ -59,7 +61,7 @@ function withAlpha(color: string, alpha: number): string {
 function usePortfolioMetrics(p: Portfolio, quotes: any, currency: string, fxRates: FxRates | undefined) {
   const positions: Record<string, number> = {};
   Object.values(p.holdings || {}).forEach((h: any) => {
-    const qty = (h?.lots || []).reduce((s: number, l: any) => s + (l.side === 'buy' ? l.qty : -l.qty), 0);
+    const qty = adjustedLots(h).reduce((s: number, l: any) => s + (l.side === 'buy' ? l.qty : -l.qty), 0);
     if (qty) positions[h.symbol] = (positions[h.symbol] || 0) + qty;
   });
 
@@ -101,7 +103,7 @@ function usePortfolioMetrics(p: Portfolio, quotes: any, currency: string, fxRate
 
   // Compute total gain (realized + unrealized) across holdings
   Object.values(p.holdings || {}).forEach((h: any) => {
-    const lots = h?.lots || [];
+    const lots = adjustedLots(h);
     if (!lots.length) return;
     const sym = h.symbol;
 
@@ -132,8 +134,8 @@ function usePortfolioMetrics(p: Portfolio, quotes: any, currency: string, fxRate
       fee: convertCurrency(fxRates, (l.fee ?? l.fees) || 0, holdingCurrency, base)
     }));
 
-    const pnl = computePnL(normalizedLots, last);
-    totalGain += (pnl.realized || 0) + (pnl.unrealized || 0);
+    const pnl = computePnL(normalizedLots, last, p.costMethod);
+    totalGain += (pnl.realized || 0) + (pnl.unrealized || 0) + convertCurrency(fxRates, holdingIncome(h), holdingCurrency, base);
   });
 
   // Add cash to the total value (convert from portfolio base currency to investment currency)
@@ -390,7 +392,7 @@ const PortfolioListCard = React.memo(({ selectionMode, selectedIds, onToggleSele
           const isActive = activePortfolioId === p.id;
           const isSelected = !!selectedIds?.includes(p.id);
           const holdingsCount = Object.values(p?.holdings || {}).filter((h: any) => {
-            const qty = (h?.lots || []).reduce((sum: number, l: any) => sum + (l.side === 'buy' ? l.qty : -l.qty), 0);
+            const qty = adjustedLots(h).reduce((sum: number, l: any) => sum + (l.side === 'buy' ? l.qty : -l.qty), 0);
             return qty > 0;
           }).length;
           const totalGainValue = totalGain === 0
@@ -11,11 +11,13 @@ import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import Icon from '../../../components/Icon';
 import { convertCurrency } from '../../../lib/fx';
 import { formatPrice } from '../../../lib/formatPrice';
+import { adjustedLots } from '../../../lib/corporateActions';
+import LotPicker from './LotPicker';
 
 type Props = {
   mode?: 'add'|'edit';
   lotId?: string;
-  initial?: { side?: 'buy'|'sell'; qty?: number; price?: number; fees?: number; date?: string; };
+  initial?: { side?: 'buy'|'sell'; qty?: number; price?: number; fees?: number; date?: string; matches?: Array<{ lotId: string; qty: number }>; };
   visible: boolean;
   onClose: () => void;
   symbol: string;
@@ -75,17 +77,28 @@ const TransactionEditorSheet = React.memo(({ visible, onClose, symbol, portfolio
   const [showDateTimePicker, setShowDateTimePicker] = React.useState(false);
   const [showTimeOverlay, setShowTimeOverlay] = React.useState(false);
   const [affectCash, setAffectCash] = React.useState(mode !== 'edit');
+  const [matches, setMatches] = React.useState<Array<{ lotId: string; qty: number }>>(initial?.matches || []);
+
+  // Specific-lot portfolios pick the buy lots a sell closes
+  const pidForLots = portfolioId || store.activePortfolioId;
+  const costMethod = pidForLots ? portfolios[pidForLots]?.costMethod : undefined;
+  const holdingForLots = pidForLots ? portfolios[pidForLots]?.holdings?.[symbol] : holdings[symbol];
+  const pickLots = side === 'sell' && costMethod === 'specific';
   const [saving, setSaving] = React.useState(false);
 
   React.useEffect(() => {
     if (!visible) {
       // Reset on close
-      setSide('buy'); setQtyInput(''); setFeesInput(''); setDate(new Date()); setShowDateTimePicker(false); setShowTimeOverlay(false);
+      setSide('buy'); setQtyInput(''); setFeesInput(''); setDate(new Date()); setShowDateTimePicker(false); setShowTimeOverlay(false); setMatches([]);
       // Reset price to current price with dynamic precision
       setPriceInput(currentPrice ? String(Number(currentPrice).toFixed(getPriceDecimals(currentPrice))) : '');
     }
   }, [visible, currentPrice]);
 
+  React.useEffect(() => {
+    if (visible) setMatches(initial?.matches || []);
+  }, [visible, lotId]);
+
   const text = get('text.primary') as string;
   const muted = get('text.muted') as string;
   const border = get('border.subtle') as string;
@@ -137,9 +150,11 @@ const TransactionEditorSheet = React.memo(({ visible, onClose, symbol, portfolio
       else if (s.endsWith('.SW')) cur = 'CHF';
     }
 
+    const lotMatches = pickLots && matches.length ? matches : undefined;
+
     try {
       if (mode === 'edit' && lotId) {
-        await store.updateLot(symbol, lotId, { side, qty, price, date: date.toISOString(), fees }, { portfolioId: pid });
+        await store.updateLot(symbol, lotId, { side, qty, price, date: date.toISOString(), fees, matches: lotMatches }, { portfolioId: pid });
         if (affectCash) {
           try {
             // Get portfolio currency for conversion
@@ -156,7 +171,7 @@ const TransactionEditorSheet = React.memo(({ visible, onClose, symbol, portfolio
           } catch {}
         }
       } else {
-        await store.addLot(symbol, { side, qty, price, date: date.toISOString(), fees }, { name: symbol, type: 'stock', currency: cur }, { portfolioId: pid });
+        await store.addLot(symbol, { side, qty, price, date: date.toISOString(), fees, matches: lotMatches }, { name: symbol, type: 'stock', currency: cur }, { portfolioId: pid });
         if (affectCash) {
           try {
             // Get portfolio currency for conversion
@@ -179,7 +194,7 @@ const TransactionEditorSheet = React.memo(({ visible, onClose, symbol, portfolio
       console.error(e);
       setSaving(false);
     }
-  }, [saving, qtyInput, priceInput, feesInput, symbol, portfolioId, store, side, date, mode, lotId, affectCash, profile, onClose]);
+  }, [saving, qtyInput, priceInput, feesInput, symbol, portfolioId, store, side, date, mode, lotId, affectCash, profile, onClose, pickLots, matches]);
 
   return (
     <BottomSheet visible={visible} onClose={onClose} fullHeight>
@@ -392,6 +407,18 @@ const TransactionEditorSheet = React.memo(({ visible, onClose, symbol, portfolio
                   }}
                 />
               </View>
+
+              {pickLots ? (
+                <LotPicker
+                  lots={adjustedLots(holdingForLots)}
+                  asOf={date}
+                  excludeId={mode === 'edit' ? lotId : undefined}
+                  sellQty={Number(qtyInput || '0')}
+                  currency={(holdingForLots?.currency || 'USD').toUpperCase()}
+                  value={matches}
+                  onChange={setMatches}
+                />
+              ) : null}
             </View>
           </View>
         </ScrollView>
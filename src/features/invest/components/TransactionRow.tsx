@@ -8,13 +8,14 @@ import Icon from '../../../components/Icon';
 import { useInvestStore } from '../store';
 import { formatPrice } from '../../../lib/formatPrice';
 
-type Lot = { id: string; side: 'buy'|'sell'; qty: number; price: number; date: string; fees?: number };
+type Lot = { id: string; side: 'buy'|'sell'; qty: number; price: number; date: string; fees?: number; pending?: boolean };
 type Props = {
   lot: Lot;
   currency: string;
   symbol: string;
   onEdit: (lot: Lot) => void;
   onDelete: (lot: Lot) => void;
+  onConfirm?: (lot: Lot) => void; // pending lots: mark as traded
 };
 
 function getLogoColor(symbol: string): string {
@@ -26,7 +27,7 @@ function getLogoColor(symbol: string): string {
   return colors[index];
 }
 
-export default function TransactionRow({ lot, currency, symbol, onEdit, onDelete }: Props) {
+export default function TransactionRow({ lot, currency, symbol, onEdit, onDelete, onConfirm }: Props) {
   const { get } = useThemeTokens();
   const swipeRef = React.useRef<Swipeable>(null);
   const [imageError, setImageError] = React.useState(false);
@@ -40,6 +41,7 @@ export default function TransactionRow({ lot, currency, symbol, onEdit, onDelete
   const danger = get('semantic.danger') as string;
   const success = get('semantic.success') as string;
   const border = get('border.subtle') as string;
+  const warning = get('semantic.warning') as string;
 
   const logoColor = getLogoColor(symbol);
   const logoLetter = symbol.charAt(0).toUpperCase();
@@ -55,6 +57,28 @@ export default function TransactionRow({ lot, currency, symbol, onEdit, onDelete
 
   const renderRightActions = () => (
     <View style={{ flexDirection:'row', alignItems:'stretch', height: '100%' }}>
+      {lot.pending && onConfirm ? (
+        <Pressable
+          accessibilityRole="button"
+          onPress={() => { try { swipeRef.current?.close(); } catch(e) {} ; onConfirm(lot); }}
+          style={{
+            width: 80,
+            alignItems:'center',
+            justifyContent:'center',
+            backgroundColor: success
+          }}
+        >
+          <Icon name="check" size={20} colorToken="text.onPrimary" />
+          <Text style={{
+            color: get('text.onPrimary') as string,
+            fontWeight:'700',
+            fontSize: 13,
+            marginTop: spacing.s4
+          }}>
+            Traded
+          </Text>
+        </Pressable>
+      ) : null}
       <Pressable
         accessibilityRole="button"
         onPress={() => { try { swipeRef.current?.close(); } catch(e) {} ; onEdit(lot); }}
@@ -146,6 +170,11 @@ export default function TransactionRow({ lot, currency, symbol, onEdit, onDelete
               }}>
                 {lot.side === 'buy' ? 'Buy' : 'Sell'}
               </Text>
+              {lot.pending ? (
+                <Text style={{ color: warning, fontWeight: '700', fontSize: 11, textTransform: 'uppercase', letterSpacing: 0.5 }}>
+                  Pending
+                </Text>
+              ) : null}
             </View>
             <Text style={{ color: muted, fontSize: 13 }}>
               {lot.qty} shares @ {formatPrice(lot.price, currency)}
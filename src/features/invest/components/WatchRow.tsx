@@ -10,6 +10,8 @@ import { formatCurrency, formatPercent } from '../../../lib/format';
 import { formatPrice } from '../../../lib/formatPrice';
 import { convertCurrency } from '../../../lib/fx';
 import { TickerLogo } from '../../../components/TickerLogo';
+import Icon from '../../../components/Icon';
+import { usePriceAlertsStore } from '../../../store/priceAlerts';
 
 function getLogoColor(symbol: string): string {
   // Generate consistent color based on symbol
@@ -21,25 +23,32 @@ function getLogoColor(symbol: string): string {
   return colors[index];
 }
 
+// An alert that fired within this window replaces the company name on the row
+const RECENT = 24 * 60 * 60 * 1000;
+
 export default function WatchRow({ sym, onPress, portfolioCurrency }: { sym: string; onPress?: () => void; portfolioCurrency?: string }) {
   const { get } = useThemeTokens();
   const { quotes, fxRates, holdings } = useInvestStore();
   const { profile } = useProfileStore();
   const nav = useNavigation<any>();
+  const alertCount = usePriceAlertsStore(s => s.alerts.filter(a => a.symbol === sym && a.enabled).length);
+  const lastEvent = usePriceAlertsStore(s => s.history.find(e => e.symbol === sym));
 
-  const handlePress = React.useCallback(() => {
+  const go = React.useCallback((screen: string) => {
     if (typeof onPress === 'function') {
       onPress();
       // Give sheet a moment to start closing before navigating
       requestAnimationFrame(() => {
         setTimeout(() => {
-          try { nav.navigate('AddLot', { symbol: sym }); } catch (e) {}
+          try { nav.navigate(screen, { symbol: sym }); } catch (e) {}
         }, 50);
       });
       return;
     }
-    try { nav.navigate('AddLot', { symbol: sym }); } catch (e) {}
+    try { nav.navigate(screen, { symbol: sym }); } catch (e) {}
   }, [onPress, nav, sym]);
+  const handlePress = React.useCallback(() => go('AddLot'), [go]);
+  const openAlerts = React.useCallback(() => go('PriceAlerts'), [go]);
 
   const q = quotes[sym];
   const h = holdings[sym];
@@ -92,6 +101,7 @@ export default function WatchRow({ sym, onPress, portfolioCurrency }: { sym: str
   const muted = get('text.muted') as string;
   const good = get('semantic.success') as string;
   const bad = get('semantic.danger') as string;
+  const warn = get('semantic.warning') as string;
   const cur = displayCurrency;
 
   const logoColor = getLogoColor(sym);
@@ -100,6 +110,7 @@ export default function WatchRow({ sym, onPress, portfolioCurrency }: { sym: str
     <Pressable
       accessibilityRole="button"
       onPress={handlePress}
+      onLongPress={openAlerts}
       style={({ pressed }) => ({
         backgroundColor: 'transparent',
         padding: spacing.s12,
@@ -113,8 +124,20 @@ export default function WatchRow({ sym, onPress, portfolioCurrency }: { sym: str
 
         {/* Left: Ticker and Company Name */}
         <View style={{ flex: 1, gap: spacing.s2 }}>
-          <Text style={{ color: text, fontWeight: '800', fontSize: 15 }}>{sym}</Text>
-          <Text style={{ color: muted, fontSize: 12 }} numberOfLines={1}>{companyName}</Text>
+          <View style={{ flexDirection: 'row', alignItems: 'center', gap: spacing.s6 }}>
+            <Text style={{ color: text, fontWeight: '800', fontSize: 15 }}>{sym}</Text>
+            {q?.stale ? <Icon name="history" size={12} color={warn} /> : null}
+            {alertCount > 0 ? (
+              <Pressable onPress={openAlerts} hitSlop={8} accessibilityLabel={`${sym} alerts`}>
+                <Icon name="bell" size={13} color={lastEvent && Date.now() - new Date(lastEvent.at).getTime() < RECENT ? warn : muted} />
+              </Pressable>
+            ) : null}
+          </View>
+          {lastEvent && Date.now() - new Date(lastEvent.at).getTime() < RECENT ? (
+            <Text style={{ color: warn, fontSize: 12 }} numberOfLines={1}>{lastEvent.message}</Text>
+          ) : (
+            <Text style={{ color: muted, fontSize: 12 }} numberOfLines={1}>{companyName}</Text>
+          )}
         </View>
 
         {/* Right: Price and Change */}
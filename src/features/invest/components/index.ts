@@ -1,6 +1,7 @@
 // Invest components exports
 export { default as AddHoldingSheet } from './AddHoldingSheet';
 export { default as CashEditorSheet } from './CashEditorSheet';
+export { default as CorporateActionSheet } from './CorporateActionSheet';
 export { default as CreatePortfolioModal } from './CreatePortfolioModal';
 export { default as CurrencyPickerSheet } from './CurrencyPickerSheet';
 export { default as DeletePortfolioSheet } from './DeletePortfolioSheet';
@@ -8,8 +9,11 @@ export { default as EditPortfolioModal } from './EditPortfolioModal';
 export { default as HoldingRow } from './HoldingRow';
 export { default as HoldingsFilterSheet } from './HoldingsFilterSheet';
 export { default as HoldingsSortSheet } from './HoldingsSortSheet';
+export { default as IncomeEditorSheet } from './IncomeEditorSheet';
 export { default as IndexDetailSheet } from './IndexDetailSheet';
+export { default as LotPicker } from './LotPicker';
 export { default as MoveHoldingsSheet } from './MoveHoldingsSheet';
+export { default as PerformanceCard } from './PerformanceCard';
 export { default as PortfolioAvatar } from './PortfolioAvatar';
 export { default as PortfolioDetailSheet } from './PortfolioDetailSheet';
 export { default as PortfolioListCard } from './PortfolioListCard';
@@ -15,6 +15,7 @@ import Icon from '../../../components/Icon';
 import { formatCurrency, formatPercent, formatMarketCap } from '../../../lib/format';
 import { formatPrice } from '../../../lib/formatPrice';
 import { computePnL } from '../../../lib/positions';
+import { adjustedLots } from '../../../lib/corporateActions';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { convertCurrency } from '../../../lib/fx';
 import { TickerLogo } from '../../../components/TickerLogo';
@@ -157,7 +158,8 @@ export const AddLot = React.memo(() => {
     try { await (store as any).removeLot(symbol, lot.id, { portfolioId }); } catch {}
   }, [store, symbol, portfolioId]);
 
-  const pnl = computePnL(lots, Number(last) || 0);
+  const costMethod = (p ?? portfolios[store.activePortfolioId as string])?.costMethod;
+  const pnl = computePnL(adjustedLots(holding), Number(last) || 0, costMethod);
   const qty = pnl.qty || 0;
   const avgCost = pnl.avgCost || 0;
   const totalCost = qty * avgCost;
@@ -804,7 +806,7 @@ export const AddLot = React.memo(() => {
         portfolioId={portfolioId}
         mode={editLotState ? 'edit' : 'add'}
         lotId={editLotState?.id || undefined}
-        initial={editLotState ? { side: editLotState.lot.side, qty: editLotState.lot.qty, price: editLotState.lot.price, fees: editLotState.lot.fees, date: editLotState.lot.date } : undefined}
+        initial={editLotState ? { side: editLotState.lot.side, qty: editLotState.lot.qty, price: editLotState.lot.price, fees: editLotState.lot.fees, date: editLotState.lot.date, matches: editLotState.lot.matches } : undefined}
       />
 
       {/* Date & Time Picker Modal */}
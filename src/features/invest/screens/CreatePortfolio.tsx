@@ -5,7 +5,8 @@ import Input from '../../../components/Input';
 import Button from '../../../components/Button';
 import Icon from '../../../components/Icon';
 import { spacing, radius } from '../../../theme/tokens';
-import { useInvestStore } from '../store/invest';
+import { useInvestStore, type CostMethod } from '../store/invest';
+import { COST_METHODS } from '../../../lib/positions';
 import { useNavigation } from '@react-navigation/native';
 import { useThemeTokens } from '../../../theme/ThemeProvider';
 import { useProfileStore } from '../../../store/profile';
@@ -49,6 +50,7 @@ const CreatePortfolio: React.FC = () => {
   const [name, setName] = useState(portfolio?.name || '');
   const [type, setType] = useState<'Live' | 'Paper'>(portfolio?.type || 'Live');
   const [benchmark, setBenchmark] = useState(portfolio?.benchmark || 'NONE');
+  const [costMethod, setCostMethod] = useState<CostMethod>(portfolio?.costMethod || 'average');
   const [selectedCurrency, setSelectedCurrency] = useState<CurrencyMeta | null>(
     findCurrency(portfolio?.baseCurrency || profile?.currency || 'SGD')
   );
@@ -72,14 +74,15 @@ const CreatePortfolio: React.FC = () => {
         name: name.trim(),
         baseCurrency: selectedCurrency.code,
         type,
-        benchmark: benchmark === 'NONE' ? undefined : benchmark
+        benchmark: benchmark === 'NONE' ? undefined : benchmark,
+        costMethod,
       });
     } else {
       // Create new portfolio
       const id = await createPortfolio(
         name.trim(),
         selectedCurrency.code,
-        { type, benchmark: benchmark === 'NONE' ? undefined : benchmark }
+        { type, benchmark: benchmark === 'NONE' ? undefined : benchmark, costMethod }
       );
       await setActivePortfolio(id);
     }
@@ -239,6 +242,38 @@ const CreatePortfolio: React.FC = () => {
         </View>
       </View>
 
+      {/* Cost basis */}
+      <View style={{ gap: spacing.s12 }}>
+        <Text style={{ color: textPrimary, fontSize: 16, fontWeight: '700' }}>Cost basis</Text>
+        <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: spacing.s8 }}>
+          {COST_METHODS.map((m) => {
+            const active = costMethod === m.key;
+            return (
+              <Pressable
+                key={m.key}
+                onPress={() => setCostMethod(m.key)}
+                style={({ pressed }) => ({
+                  paddingVertical: spacing.s12,
+                  paddingHorizontal: spacing.s16,
+                  borderRadius: radius.pill,
+                  backgroundColor: active ? accentSecondary : cardBg,
+                  borderWidth: 1,
+                  borderColor: active ? accentSecondary : border,
+                  opacity: pressed ? 0.8 : 1,
+                })}
+              >
+                <Text style={{ color: active ? '#FFFFFF' : textPrimary, fontWeight: '700', fontSize: 14 }}>
+                  {m.label}
+                </Text>
+              </Pressable>
+            );
+          })}
+        </View>
+        <Text style={{ color: muted, fontSize: 14 }}>
+          {COST_METHODS.find(m => m.key === costMethod)?.hint}
+        </Text>
+      </View>
+
       {/* Action Buttons */}
       <View style={{ marginTop: spacing.s8 }}>
         <Button variant="primary" disabled={!canSave} onPress={onSave}>
@@ -1,5 +1,5 @@
 import React, { useEffect, useMemo, useState } from 'react';
-import { View, Text, Pressable, ScrollView } from 'react-native';
+import { View, Text, Pressable, ScrollView, Switch, Alert } from 'react-native';
 import { Screen } from '../../../components/Screen';
 import Button from '../../../components/Button';
 import Input from '../../../components/Input';
@@ -8,12 +8,13 @@ import Icon from '../../../components/Icon';
 import { spacing, radius } from '../../../theme/tokens';
 import { useThemeTokens } from '../../../theme/ThemeProvider';
 import { useInvestStore } from '../store/invest';
-import { usePlansStore } from '../../../store/plans';
+import { usePlansStore, type DCACadence } from '../../../store/plans';
+import { DCA_CADENCES, cadenceLabel, dayKey, parseDayKey } from '../../../lib/dca';
 import { formatCurrency } from '../../../lib/format';
 import { useNavigation, useRoute } from '@react-navigation/native';
 import LineChart from '../../../components/LineChart';
 
-type RouteParams = { suggest?: number };
+type RouteParams = { suggest?: number; planId?: string; portfolioId?: string; mode?: 'custom' | 'compare' };
 
 // Major US indices with historical average returns
 const INDICES = [
@@ -105,12 +106,19 @@ export default function DCAPlanner() {
   const successColor = get('semantic.success') as string;
   const bgDefault = get('background.default') as string;
 
-  const { holdings, quotes, watchlist, hydrate, refreshQuotes } = useInvestStore();
-  const { plan, hydrate: hydratePlan, save } = usePlansStore();
+  const { holdings, portfolios, activePortfolioId, quotes, watchlist, hydrate, refreshQuotes } = useInvestStore();
+  const { plans, hydrate: hydratePlan, addPlan, updatePlan } = usePlansStore();
 
-  const suggest = (route.params as RouteParams)?.suggest ?? 0;
-  const [mode, setMode] = useState<'custom' | 'compare'>('compare');
+  const params = (route.params || {}) as RouteParams;
+  const suggest = params.suggest ?? 0;
+  const plan = params.planId ? plans.find(x => x.id === params.planId) || null : null;
+  const portfolioId = plan?.portfolioId || params.portfolioId || activePortfolioId || undefined;
+  const [mode, setMode] = useState<'custom' | 'compare'>(params.mode || (params.planId ? 'custom' : 'compare'));
   const [amount, setAmount] = useState<string>(suggest ? String(suggest) : (plan?.amount ? String(plan.amount) : '500'));
+  const [name, setName] = useState<string>(plan?.name || (plans.length ? `Plan ${plans.length + 1}` : 'My plan'));
+  const [cadence, setCadence] = useState<DCACadence>(plan?.period || 'monthly');
+  const [remind, setRemind] = useState<boolean>(!!plan?.reminder?.enabled);
+  const [saving, setSaving] = useState(false);
   const [selectedTimeframe, setSelectedTimeframe] = useState<number>(10);
   const [selectedIndices, setSelectedIndices] = useState<string[]>(['SPY', 'QQQ', 'VTI']);
   const [editingSymbol, setEditingSymbol] = useState<string | null>(null);
@@ -125,10 +133,12 @@ export default function DCAPlanner() {
 
   // Custom allocation mode (original functionality)
   const symbols = useMemo(() => {
-    const held = Object.keys(holdings || {});
-    if (held.length > 0) return held;
+    const held = Object.keys((portfolioId ? portfolios[portfolioId]?.holdings : holdings) || {});
+    const planned = (plan?.symbols || []).map(s => s.symbol);
+    const all = Array.from(new Set([...held, ...planned]));
+    if (all.length > 0) return all;
     return watchlist || [];
-  }, [holdings, watchlist]);
+  }, [portfolioId, portfolios, holdings, watchlist, plan]);
 
   const [weights, setWeights] = useState<Record<string, number>>({});
   useEffect(() => {
@@ -185,13 +195,32 @@ export default function DCAPlanner() {
     const symbols = planRows.map(r => ({
       symbol: r.symbol,
       weight: sum > 0 ? normalizedWeights[r.symbol] / sum : 0
-    }));
-    await save({ amount: amt, symbols, period: 'monthly' });
-    nav.goBack();
+    })).filter(s => s.weight > 0);
+    const input = {
+      name: name.trim() || 'My plan',
+      portfolioId,
+      amount: amt,
+      symbols,
+      period: cadence,
+      // A new cadence restarts the schedule from today
+      startDate: plan && plan.period === cadence ? plan.startDate : dayKey(new Date()),
+      reminder: remind || plan?.reminder ? { enabled: remind, hour: plan?.reminder?.hour ?? 9 } : undefined,
+    };
+    setSaving(true);
+    try {
+      if (plan) await updatePlan(plan.id, input);
+      else await addPlan(input);
+      nav.goBack();
+    } catch (e: any) {
+      Alert.alert('Plan saved without reminders', e?.message || String(e), [{ text: 'OK', onPress: () => nav.goBack() }]);
+    } finally {
+      setSaving(false);
+    }
   }
 
   const monthlyAmount = parseFloat(amount || '0') || 0;
-  const yearlyAmount = monthlyAmount * 12;
+  const perYear = mode === 'custom' ? (DCA_CADENCES.find(c => c.key === cadence)?.perYear ?? 12) : 12;
+  const yearlyAmount = monthlyAmount * perYear;
 
   // Calculate actual returns from market data
   const indexActualReturns = useMemo(() => {
@@ -355,7 +384,7 @@ export default function DCAPlanner() {
               <Icon name="dollar-sign" size={20} colorToken="accent.primary" />
             </View>
             <Text style={{ color: text, fontSize: 18, fontWeight: '700' }}>
-              Monthly investment
+              {mode === 'custom' ? `${cadenceLabel(cadence)} investment` : 'Monthly investment'}
             </Text>
           </View>
           <Input
@@ -948,12 +977,58 @@ export default function DCAPlanner() {
               )}
             </View>
 
+            {/* Schedule */}
+            {symbols.length > 0 && (
+              <Card style={{ backgroundColor: cardBg, padding: spacing.s16, gap: spacing.s12 }}>
+                <Text style={{ color: text, fontSize: 18, fontWeight: '700' }}>Schedule</Text>
+                <Input label="Plan name" value={name} onChangeText={setName} placeholder="My plan" />
+                <View style={{ flexDirection: 'row', gap: spacing.s8 }}>
+                  {DCA_CADENCES.map(c => (
+                    <Pressable
+                      key={c.key}
+                      onPress={() => setCadence(c.key)}
+                      style={({ pressed }) => ({
+                        flex: 1,
+                        paddingVertical: spacing.s10,
+                        borderRadius: radius.md,
+                        backgroundColor: cadence === c.key ? accentPrimary : withAlpha(muted, isDark ? 0.15 : 0.1),
+                        opacity: pressed ? 0.8 : 1,
+                      })}
+                    >
+                      <Text style={{
+                        color: cadence === c.key ? get('text.onPrimary') as string : text,
+                        fontWeight: '700',
+                        fontSize: 13,
+                        textAlign: 'center',
+                      }}>
+                        {c.label}
+                      </Text>
+                    </Pressable>
+                  ))}
+                </View>
+                <Text style={{ color: muted, fontSize: 13 }}>
+                  {plan && plan.period === cadence
+                    ? `Started ${parseDayKey(plan.startDate).toLocaleDateString()}`
+                    : 'First buy is due today'}
+                  {portfolioId && portfolios[portfolioId] ? ` · buys go into ${portfolios[portfolioId].name}` : ''}
+                </Text>
+                <View style={{ flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between' }}>
+                  <View style={{ flex: 1 }}>
+                    <Text style={{ color: text, fontWeight: '600' }}>Remind me when it's due</Text>
+                    <Text style={{ color: muted, fontSize: 12 }}>At {plan?.reminder?.hour ?? 9}:00 on each due date</Text>
+                  </View>
+                  <Switch value={remind} onValueChange={setRemind} />
+                </View>
+              </Card>
+            )}
+
             {/* Action Buttons */}
             {symbols.length > 0 && (
               <View style={{ gap: spacing.s8 }}>
                 <Button
-                  title="Save plan"
+                  title={plan ? 'Save changes' : 'Save plan'}
                   onPress={onSave}
+                  loading={saving}
                   disabled={monthlyAmount <= 0}
                 />
                 <Button
@@ -0,0 +1,234 @@
+import React from 'react';
+import { View, Text, Pressable, Alert } from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import { ScreenScroll } from '../../../components/ScreenScroll';
+import Button from '../../../components/Button';
+import Icon from '../../../components/Icon';
+import { useThemeTokens } from '../../../theme/ThemeProvider';
+import { spacing, radius } from '../../../theme/tokens';
+import { useInvestStore } from '../store/invest';
+import { usePlansStore, type DCAPlan } from '../../../store/plans';
+import { formatCurrency, formatPercent } from '../../../lib/format';
+import { adherence, cadenceLabel, dayKey, nextDue, parseDayKey, planBuys } from '../../../lib/dca';
+
+const HISTORY_ROWS = 12;
+
+function PlanCard({ plan }: { plan: DCAPlan }) {
+  const { get } = useThemeTokens();
+  const nav = useNavigation<any>();
+  const { portfolios, activePortfolioId, quotes, fxRates } = useInvestStore();
+  const { recordBuys, skipPeriod, removePlan } = usePlansStore();
+  const [busy, setBusy] = React.useState(false);
+  const [showHistory, setShowHistory] = React.useState(false);
+
+  const textPrimary = get('text.primary') as string;
+  const textMuted = get('text.muted') as string;
+  const cardBg = get('surface.level1') as string;
+  const border = get('border.subtle') as string;
+  const accentPrimary = get('accent.primary') as string;
+  const successColor = get('semantic.success') as string;
+  const warningColor = get('semantic.warning') as string;
+  const dangerColor = get('semantic.danger') as string;
+
+  const pid = plan.portfolioId || activePortfolioId || '';
+  const p = portfolios[pid];
+  const currency = (plan.currency || p?.baseCurrency || 'USD').toUpperCase();
+  const due = nextDue(plan);
+  const dueKey = dayKey(due.date);
+  const isToday = dueKey === dayKey(new Date());
+
+  const preview = React.useMemo(
+    () => planBuys(plan, { quotes, fxRates, currency, holdings: p?.holdings }),
+    [plan, quotes, fxRates, currency, p]
+  );
+  const summary = React.useMemo(() => adherence(plan), [plan]);
+  const maxAmount = Math.max(1, ...summary.rows.slice(0, HISTORY_ROWS).map(r => Math.max(r.planned, r.invested)));
+
+  const onRecord = () => {
+    if (!preview.buys.length) {
+      Alert.alert('No prices yet', 'Refresh quotes for this plan\'s symbols and try again.');
+      return;
+    }
+    const lines = preview.buys.map(b => `${b.qty} ${b.symbol} @ ${formatCurrency(b.price, b.currency)}`).join('\n');
+    const missing = preview.missing.length ? `\n\nNo price for ${preview.missing.join(', ')}; left out.` : '';
+    Alert.alert(
+      `Record buys for ${parseDayKey(dueKey).toLocaleDateString()}?`,
+      `${lines}${missing}\n\nAdded as lots in ${p?.name || 'your portfolio'} at today's prices.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Record',
+          onPress: async () => {
+            setBusy(true);
+            try {
+              await recordBuys(plan.id, { due: dueKey, buys: preview.buys });
+            } catch (e: any) {
+              Alert.alert('Could not record buys', e?.message || String(e));
+            } finally {
+              setBusy(false);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const onDelete = () => {
+    Alert.alert('Delete plan?', 'Lots already recorded stay in the portfolio.', [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Delete', style: 'destructive', onPress: () => removePlan(plan.id) },
+    ]);
+  };
+
+  const rowColor = (status: string) =>
+    status === 'done' ? successColor : status === 'partial' ? warningColor : status === 'missed' ? dangerColor : textMuted;
+
+  return (
+    <View style={{ backgroundColor: cardBg, borderRadius: radius.lg, padding: spacing.s12, gap: spacing.s12 }}>
+      <View style={{ flexDirection: 'row', alignItems: 'flex-start', gap: spacing.s8 }}>
+        <View style={{ flex: 1 }}>
+          <Text style={{ color: textPrimary, fontWeight: '800', fontSize: 16 }}>{plan.name}</Text>
+          <Text style={{ color: textMuted, fontSize: 13, marginTop: spacing.s2 }}>
+            {formatCurrency(plan.amount, currency)} {cadenceLabel(plan.period).toLowerCase()}
+            {p ? ` · ${p.name}` : ''}
+            {plan.reminder?.enabled ? ' · reminders on' : ''}
+          </Text>
+        </View>
+        <Pressable onPress={() => nav.navigate('DCAPlanner', { planId: plan.id })} hitSlop={8} style={{ padding: spacing.s4 }}>
+          <Icon name="edit" size={18} color={textMuted} />
+        </Pressable>
+        <Pressable onPress={onDelete} hitSlop={8} style={{ padding: spacing.s4 }}>
+          <Icon name="trash" size={18} color={textMuted} />
+        </Pressable>
+      </View>
+
+      <View style={{ borderWidth: 1, borderColor: border, borderRadius: radius.md, padding: spacing.s8, gap: spacing.s4 }}>
+        <Text style={{ color: due.overdue ? warningColor : textPrimary, fontWeight: '700' }}>
+          {due.overdue ? 'Overdue since' : isToday ? 'Due today' : 'Next due'}{isToday ? '' : ` ${due.date.toLocaleDateString()}`}
+        </Text>
+        {preview.buys.map(b => (
+          <Text key={b.symbol} style={{ color: textMuted, fontSize: 13 }}>
+            {b.qty} {b.symbol} @ {formatCurrency(b.price, b.currency)} · {formatCurrency(b.amount, currency)}
+          </Text>
+        ))}
+        {preview.missing.length ? (
+          <Text style={{ color: warningColor, fontSize: 12 }}>No price yet for {preview.missing.join(', ')}</Text>
+        ) : null}
+      </View>
+
+      <View style={{ flexDirection: 'row', gap: spacing.s8 }}>
+        <Button title="Skip" variant="secondary" size="sm" style={{ flex: 1 }} onPress={() => skipPeriod(plan.id, dueKey)} />
+        <Button title="Record buys" icon="check" size="sm" style={{ flex: 2 }} loading={busy} onPress={onRecord} />
+      </View>
+
+      {summary.due > 0 ? (
+        <View style={{ gap: spacing.s8 }}>
+          <Pressable onPress={() => setShowHistory(v => !v)} style={{ flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between' }}>
+            <Text style={{ color: textPrimary, fontWeight: '700' }}>
+              Kept {summary.kept} of {summary.due} · {formatCurrency(summary.invested, currency)} of {formatCurrency(summary.planned, currency)}
+            </Text>
+            <Icon name={showHistory ? 'chevron-up' : 'chevron-down'} size={18} color={textMuted} />
+          </Pressable>
+
+          {showHistory ? (
+            <>
+              {summary.rows.slice(0, HISTORY_ROWS).map(r => (
+                <View key={r.due} style={{ gap: spacing.s2 }}>
+                  <View style={{ flexDirection: 'row', justifyContent: 'space-between' }}>
+                    <Text style={{ color: textMuted, fontSize: 12 }}>{parseDayKey(r.due).toLocaleDateString()}</Text>
+                    <Text style={{ color: rowColor(r.status), fontSize: 12, fontWeight: '700' }}>
+                      {r.status === 'skipped' ? 'Skipped' : r.status === 'missed' ? 'Missed' : formatCurrency(r.invested, currency)}
+                    </Text>
+                  </View>
+                  <View style={{ height: 6, borderRadius: radius.sm, backgroundColor: border, overflow: 'hidden' }}>
+                    <View style={{ width: `${(Math.min(r.invested, maxAmount) / maxAmount) * 100}%`, height: '100%', backgroundColor: rowColor(r.status) }} />
+                    <View style={{ position: 'absolute', left: `${Math.min(99, (r.planned / maxAmount) * 100)}%`, top: 0, bottom: 0, width: 2, backgroundColor: textPrimary }} />
+                  </View>
+                </View>
+              ))}
+
+              {summary.costs.length ? (
+                <View style={{ gap: spacing.s4, marginTop: spacing.s4 }}>
+                  <Text style={{ color: textPrimary, fontWeight: '700' }}>Average cost</Text>
+                  {summary.costs.map(c => {
+                    const last = Number(quotes[c.symbol]?.last || 0);
+                    const change = c.average > 0 && last > 0 ? (last / c.average - 1) * 100 : null;
+                    return (
+                      <View key={c.symbol} style={{ flexDirection: 'row', justifyContent: 'space-between' }}>
+                        <Text style={{ color: textMuted, fontSize: 13 }}>
+                          {c.symbol} · {Number(c.qty.toFixed(6))} @ {formatCurrency(c.average, c.currency)}
+                        </Text>
+                        {change !== null ? (
+                          <Text style={{ color: change >= 0 ? successColor : dangerColor, fontSize: 13, fontWeight: '700' }}>{formatPercent(change)}</Text>
+                        ) : null}
+                      </View>
+                    );
+                  })}
+                </View>
+              ) : null}
+            </>
+          ) : null}
+        </View>
+      ) : null}
+      {!p ? <Text style={{ color: accentPrimary, fontSize: 12 }}>Create a portfolio to record this plan's buys.</Text> : null}
+    </View>
+  );
+}
+
+/** Saved DCA plans: what's due, recording each period's buys, and how well the plans have been kept. */
+export default function DCAPlans() {
+  const { get } = useThemeTokens();
+  const nav = useNavigation<any>();
+  const { plans, ready, hydrate } = usePlansStore();
+  const refreshQuotes = useInvestStore(s => s.refreshQuotes);
+
+  const textPrimary = get('text.primary') as string;
+  const textMuted = get('text.muted') as string;
+  const cardBg = get('surface.level1') as string;
+
+  React.useEffect(() => {
+    if (!ready) hydrate();
+  }, [ready]);
+
+  const symbolsKey = Array.from(new Set(plans.flatMap(x => x.symbols.map(s => s.symbol)))).sort().join(',');
+  React.useEffect(() => {
+    if (symbolsKey) refreshQuotes(symbolsKey.split(','));
+  }, [symbolsKey]);
+
+  return (
+    <ScreenScroll inTab contentStyle={{ paddingBottom: spacing.s32 }}>
+      <View style={{ paddingHorizontal: spacing.s16, marginTop: spacing.s12, gap: spacing.s16 }}>
+        <View style={{ flexDirection: 'row', alignItems: 'flex-start', gap: spacing.s8 }}>
+          <Pressable
+            onPress={() => nav.goBack()}
+            style={({ pressed }) => ({
+              padding: spacing.s8,
+              marginLeft: -spacing.s8,
+              marginTop: -spacing.s4,
+              borderRadius: radius.md,
+              backgroundColor: pressed ? cardBg : 'transparent',
+            })}
+            hitSlop={8}
+          >
+            <Icon name="chevron-left" size={28} color={textPrimary} />
+          </Pressable>
+          <View style={{ flex: 1 }}>
+            <Text style={{ color: textPrimary, fontSize: 28, fontWeight: '800', letterSpacing: -0.5 }}>DCA plans</Text>
+            <Text style={{ color: textMuted, fontSize: 14, marginTop: spacing.s2 }}>Record each period's buys as they fall due</Text>
+          </View>
+        </View>
+
+        {plans.length === 0 ? (
+          <View style={{ backgroundColor: cardBg, borderRadius: radius.lg, padding: spacing.s20, alignItems: 'center' }}>
+            <Text style={{ color: textPrimary, fontWeight: '700', fontSize: 15, marginBottom: spacing.s4 }}>No plans yet</Text>
+            <Text style={{ color: textMuted, fontSize: 13, textAlign: 'center' }}>
+              Set an amount, a schedule and how to split it across your holdings.
+            </Text>
+          </View>
+        ) : plans.map(plan => <PlanCard key={plan.id} plan={plan} />)}
+
+        <Button title="New plan" icon="plus" variant="secondary" onPress={() => nav.navigate('DCAPlanner', { mode: 'custom' })} />
+      </View>
+    </ScreenScroll>
+  );
+}
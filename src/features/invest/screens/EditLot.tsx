@@ -5,6 +5,8 @@ import { spacing, radius } from '../../../theme/tokens';
 import { useThemeTokens } from '../../../theme/ThemeProvider';
 import { useRoute, useNavigation } from '@react-navigation/native';
 import { useInvestStore } from '../store/invest';
+import LotPicker from '../components/LotPicker';
+import { adjustedLots } from '../../../lib/corporateActions';
 
 export default function EditLot() {
   const { get } = useThemeTokens();
@@ -12,7 +14,8 @@ export default function EditLot() {
   const nav = useNavigation<any>();
   const symbol = route.params?.symbol as string;
   const lotId = route.params?.lotId as string;
-  const { holdings, updateLot, removeLot } = useInvestStore();
+  const { holdings, portfolios, activePortfolioId, updateLot, removeLot } = useInvestStore();
+  const costMethod = activePortfolioId ? portfolios[activePortfolioId]?.costMethod : undefined;
 
   const lots = holdings[symbol]?.lots || [];
   const lot = lots.find(l => l.id === lotId);
@@ -22,12 +25,15 @@ export default function EditLot() {
   const [price, setPrice] = useState<string>(lot ? String(lot.price) : '');
   const [fee, setFee] = useState<string>(lot && lot.fee ? String(lot.fee) : '');
   const [date, setDate] = useState<Date>(lot ? new Date(lot.date) : new Date());
+  const [matches, setMatches] = useState(lot?.matches || []);
+  const pickLots = side === 'sell' && costMethod === 'specific';
 
   useEffect(() => { if (!lot) nav.goBack(); }, [lotId]);
 
   const onSave = async () => {
     await updateLot(symbol, lotId, {
-      side, qty: Number(qty), price: Number(price), fee: fee ? Number(fee) : undefined, date: date.toISOString()
+      side, qty: Number(qty), price: Number(price), fee: fee ? Number(fee) : undefined, date: date.toISOString(),
+      matches: pickLots && matches.length ? matches : undefined,
     });
     nav.goBack();
   };
@@ -69,6 +75,20 @@ export default function EditLot() {
           <TextInput keyboardType="decimal-pad" value={fee} onChangeText={setFee} placeholder="0.00" placeholderTextColor={muted} style={{ color: text, paddingVertical: spacing.s8 }} />
         </View>
 
+        {pickLots ? (
+          <View style={{ backgroundColor: bg, borderRadius: radius.lg, padding: spacing.s12 }}>
+            <LotPicker
+              lots={adjustedLots(holdings[symbol])}
+              asOf={date}
+              excludeId={lotId}
+              sellQty={Number(qty) || 0}
+              currency={(holdings[symbol]?.currency || 'USD').toUpperCase()}
+              value={matches}
+              onChange={setMatches}
+            />
+          </View>
+        ) : null}
+
         <View style={{ flexDirection:'row', gap: spacing.s12 }}>
           <Pressable onPress={onSave} style={{ flex:1, backgroundColor: accent, paddingHorizontal: spacing.s12, paddingVertical: spacing.s12, borderRadius: radius.lg, alignItems:'center' }}>
             <Text style={{ color: get('text.onPrimary') as string, fontWeight:'700' }}>Save</Text>
@@ -1,15 +1,19 @@
 import React from 'react';
-import { View, Text, ScrollView, Pressable, Platform, RefreshControl } from 'react-native';
+import { View, Text, ScrollView, Pressable, Platform, RefreshControl, Alert } from 'react-native';
 import { useRoute, useNavigation, useFocusEffect } from '@react-navigation/native';
 import { useThemeTokens } from '../../../theme/ThemeProvider';
 import { spacing, radius } from '../../../theme/tokens';
 import { Screen } from '../../../components/Screen';
 import TransactionRow from '../components/TransactionRow';
 import TransactionEditorSheet from '../components/TransactionEditorSheet';
+import IncomeEditorSheet from '../components/IncomeEditorSheet';
+import CorporateActionSheet from '../components/CorporateActionSheet';
 import { useInvestStore } from '../store/invest';
-import { computePnL } from '../../../lib/positions';
+import { computePnL, realizedLedger, COST_METHODS, type RealizedSlice } from '../../../lib/positions';
 import { formatCurrency } from '../../../lib/format';
+import { incomeTotals, netIncome, INCOME_KINDS } from '../../../lib/income';
 import { exportHoldingTxCsv } from '../../../lib/export';
+import { adjustedLots, cashInLieuActionId, describeAction } from '../../../lib/corporateActions';
 import Icon from '../../../components/Icon';
 
 export default function HoldingHistory() {
@@ -23,6 +27,7 @@ export default function HoldingHistory() {
 
   const { portfolios = {}, holdings = {} } = store;
   const p = portfolioId ? portfolios[portfolioId] : null;
+  const costMethod = (p ?? portfolios[store.activePortfolioId])?.costMethod || 'average';
   const holding = portfolioId ? (p?.holdings?.[symbol]) : (holdings?.[symbol]);
 
   // Get ticker's NATIVE currency (not portfolio base currency!)
@@ -49,13 +54,70 @@ export default function HoldingHistory() {
     return [...arr].sort((a, b) => (new Date(b.date).getTime()) - (new Date(a.date).getTime()));
   }, [lotsRaw]);
 
+  // Lots in today's shares, after splits and mergers
+  const lotsAdjusted = React.useMemo(
+    () => adjustedLots(holding).map((l: any) => ({ ...l, fee: (l.fee ?? l.fees) })) as any[],
+    [holding]
+  );
+
   // Summary header (PnL)
   const last = (store.quotes?.[symbol]?.last ?? 0) as number;
-  const pnl = React.useMemo(() => {
-    // normalize fee/fees before computing
-    const norm = lotsRaw.map((l: any) => ({ ...l, fee: (l.fee ?? l.fees) })) as any[];
-    return computePnL(norm as any, Number(last) || 0);
-  }, [lotsRaw, last]);
+  const pnl = React.useMemo(
+    () => computePnL(lotsAdjusted, Number(last) || 0, costMethod),
+    [lotsAdjusted, last, costMethod]
+  );
+
+  // Realized gains: each sell with the buy lots it closed, newest sell first
+  const realized = React.useMemo(() => {
+    const bySell = new Map<string, RealizedSlice[]>();
+    realizedLedger(lotsAdjusted, costMethod).forEach(s => {
+      bySell.set(s.sellId, [...(bySell.get(s.sellId) || []), s]);
+    });
+    return [...bySell.entries()]
+      .map(([sellId, slices]) => ({ sellId, date: slices[0].sellDate, slices, qty: slices.reduce((a, s) => a + s.qty, 0), gain: slices.reduce((a, s) => a + s.gain, 0) }))
+      .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+  }, [lotsAdjusted, costMethod]);
+
+  // Splits, ticker changes and mergers, newest first
+  const actions = React.useMemo(
+    () => [...(holding?.actions || [])].sort((a: any, b: any) => new Date(b.date).getTime() - new Date(a.date).getTime()),
+    [holding?.actions]
+  );
+  const [showActionSheet, setShowActionSheet] = React.useState(false);
+
+  const onDeleteAction = (a: any) => {
+    Alert.alert(
+      'Delete corporate action?',
+      a.kind === 'split' ? 'Lots before it go back to their recorded quantities.' : `Shares that came from ${a.symbol} move back to a ${a.symbol} holding.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: () => {
+            store.removeCorporateAction(symbol, a.id, { portfolioId })
+              .then((next: string) => { if (next !== symbol) nav.setParams({ symbol: next }); })
+              .catch(() => {});
+          },
+        },
+      ]
+    );
+  };
+
+  // Dividends, interest and distributions, newest first
+  const income = React.useMemo(
+    () => [...(holding?.income || [])].sort((a: any, b: any) => new Date(b.date).getTime() - new Date(a.date).getTime()),
+    [holding?.income]
+  );
+  const incomeSum = React.useMemo(() => incomeTotals(income), [income]);
+  const [showIncomeSheet, setShowIncomeSheet] = React.useState(false);
+
+  const onDeleteIncome = (e: any) => {
+    Alert.alert('Delete income?', e.lotId ? 'The shares it reinvested into are removed too.' : 'Portfolio cash is not changed.', [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Delete', style: 'destructive', onPress: () => { store.removeIncome(symbol, e.id, { portfolioId }).catch(() => {}); } },
+    ]);
+  };
 
   // Filters
   const [filter, setFilter] = React.useState<'all'|'buys'|'sells'>('all');
@@ -83,6 +145,7 @@ export default function HoldingHistory() {
 
   const onEditLot = (lot: any) => { setEditLotState({ id: lot.id, lot }); setShowTxSheet(true); };
   const onDeleteLot = async (lot: any) => { try { await store.removeLot(symbol, lot.id, { portfolioId }); } catch {} };
+  const onConfirmLot = async (lot: any) => { try { await store.resolvePendingLots('confirm', { portfolioId, lotIds: [lot.id] }); } catch {} };
 
   // Level 2: Auto-refresh price while viewing this holding (every 60 seconds)
   useFocusEffect(
@@ -221,6 +284,38 @@ export default function HoldingHistory() {
             <Icon name="plus" size={20} colorToken="text.onPrimary" />
           </Pressable>
 
+          <Pressable
+            onPress={() => setShowIncomeSheet(true)}
+            accessibilityLabel="Record income"
+            style={({ pressed }) => ({
+              width: 40,
+              height: 40,
+              borderRadius: radius.full,
+              alignItems: 'center',
+              justifyContent: 'center',
+              backgroundColor: get('surface.level1') as string,
+              opacity: pressed ? 0.9 : 1
+            })}
+          >
+            <Icon name="dollar-sign" size={20} color={text} />
+          </Pressable>
+
+          <Pressable
+            onPress={() => setShowActionSheet(true)}
+            accessibilityLabel="Record split or ticker change"
+            style={({ pressed }) => ({
+              width: 40,
+              height: 40,
+              borderRadius: radius.full,
+              alignItems: 'center',
+              justifyContent: 'center',
+              backgroundColor: get('surface.level1') as string,
+              opacity: pressed ? 0.9 : 1
+            })}
+          >
+            <Icon name="layers" size={20} color={text} />
+          </Pressable>
+
           <Pressable
             onPress={async () => { try { if (portfolioId) await exportHoldingTxCsv(portfolioId, symbol); } catch {} }}
             style={({ pressed }) => ({
@@ -282,7 +377,7 @@ export default function HoldingHistory() {
                 <View style={{ backgroundColor: get('surface.level1') as string, borderRadius: radius.lg, overflow: 'hidden' }}>
                   {group.items.map((l: any, i: number) => (
                     <View key={l.id || i}>
-                      <TransactionRow lot={l} currency={cur} symbol={symbol} onEdit={onEditLot} onDelete={onDeleteLot} />
+                      <TransactionRow lot={l} currency={cur} symbol={l.symbol || symbol} onEdit={onEditLot} onDelete={onDeleteLot} onConfirm={onConfirmLot} />
                       {i < group.items.length - 1 ? <View style={{ height: 1, backgroundColor: get('border.subtle') as string, marginHorizontal: spacing.s16 }} /> : null}
                     </View>
                   ))}
@@ -291,6 +386,110 @@ export default function HoldingHistory() {
             ))
           )}
         </View>
+
+        {/* Corporate actions */}
+        {actions.length ? (
+          <View style={{ paddingHorizontal: spacing.s16, marginTop: spacing.s8, marginBottom: spacing.s8 }}>
+            <Text style={{ color: text, fontWeight: '800', fontSize: 16 }}>Corporate actions</Text>
+            <Text style={{ color: muted, fontSize: 12, marginTop: spacing.s4, marginBottom: spacing.s8 }}>
+              Transactions show what was traded; shares and cost above are restated after these.
+            </Text>
+            <View style={{ backgroundColor: get('surface.level1') as string, borderRadius: radius.lg, overflow: 'hidden' }}>
+              {actions.map((a: any, i: number) => (
+                <View key={a.id}>
+                  <View style={{ flexDirection: 'row', alignItems: 'center', paddingHorizontal: spacing.s16, paddingVertical: spacing.s12, gap: spacing.s12 }}>
+                    <View style={{ flex: 1 }}>
+                      <Text style={{ color: text, fontWeight: '700' }}>{describeAction(a)}</Text>
+                      <Text style={{ color: muted, fontSize: 12 }}>
+                        {new Date(a.date).toLocaleDateString()}
+                        {a.cashInLieu ? ` · ${formatCurrency(a.cashInLieu, cur)} cash in lieu` : ''}
+                        {a.note ? ` · ${a.note}` : ''}
+                      </Text>
+                    </View>
+                    <Pressable onPress={() => onDeleteAction(a)} hitSlop={8}>
+                      <Icon name="trash" size={16} color={muted} />
+                    </Pressable>
+                  </View>
+                  {i < actions.length - 1 ? <View style={{ height: 1, backgroundColor: get('border.subtle') as string, marginHorizontal: spacing.s16 }} /> : null}
+                </View>
+              ))}
+            </View>
+          </View>
+        ) : null}
+
+        {/* Income */}
+        {income.length ? (
+          <View style={{ paddingHorizontal: spacing.s16, marginTop: spacing.s8, marginBottom: spacing.s8 }}>
+            <Text style={{ color: text, fontWeight: '800', fontSize: 16 }}>Income</Text>
+            <Text style={{ color: muted, fontSize: 12, marginTop: spacing.s4, marginBottom: spacing.s8 }}>
+              {formatCurrency(incomeSum.net, cur)} net · {formatCurrency(incomeSum.withholding, cur)} withheld
+              {incomeSum.reinvested > 0 ? ` · ${formatCurrency(incomeSum.reinvested, cur)} reinvested` : ''}
+            </Text>
+            <View style={{ backgroundColor: get('surface.level1') as string, borderRadius: radius.lg, overflow: 'hidden' }}>
+              {income.map((e: any, i: number) => (
+                <View key={e.id}>
+                  <Pressable
+                    onLongPress={() => onDeleteIncome(e)}
+                    style={{ flexDirection: 'row', alignItems: 'center', paddingHorizontal: spacing.s16, paddingVertical: spacing.s12, gap: spacing.s12 }}
+                  >
+                    <View style={{ flex: 1 }}>
+                      <Text style={{ color: text, fontWeight: '700' }}>
+                        {INCOME_KINDS.find(k => k.key === e.kind)?.label || 'Income'}{e.lotId ? ' · reinvested' : ''}
+                      </Text>
+                      <Text style={{ color: muted, fontSize: 12 }}>
+                        {new Date(e.date).toLocaleDateString()}
+                        {e.withholding ? ` · ${formatCurrency(e.amount, cur)} gross, ${formatCurrency(e.withholding, cur)} tax` : ''}
+                        {e.note ? ` · ${e.note}` : ''}
+                      </Text>
+                    </View>
+                    <Text style={{ color: get('semantic.success') as string, fontWeight: '700' }}>{formatCurrency(netIncome(e), cur)}</Text>
+                    <Pressable onPress={() => onDeleteIncome(e)} hitSlop={8}>
+                      <Icon name="trash" size={16} color={muted} />
+                    </Pressable>
+                  </Pressable>
+                  {i < income.length - 1 ? <View style={{ height: 1, backgroundColor: get('border.subtle') as string, marginHorizontal: spacing.s16 }} /> : null}
+                </View>
+              ))}
+            </View>
+          </View>
+        ) : null}
+
+        {/* Realized gains ledger */}
+        {realized.length ? (
+          <View style={{ paddingHorizontal: spacing.s16, marginTop: spacing.s8 }}>
+            <Text style={{ color: text, fontWeight: '800', fontSize: 16 }}>Realized gains</Text>
+            <Text style={{ color: muted, fontSize: 12, marginTop: spacing.s4, marginBottom: spacing.s8 }}>
+              Cost basis: {COST_METHODS.find(m => m.key === costMethod)?.label}. Long term means held over a year.
+            </Text>
+            {realized.map(r => (
+              <View key={r.sellId} style={{ backgroundColor: get('surface.level1') as string, borderRadius: radius.lg, padding: spacing.s12, marginBottom: spacing.s8 }}>
+                <View style={{ flexDirection: 'row', justifyContent: 'space-between', alignItems: 'baseline' }}>
+                  <Text style={{ color: text, fontWeight: '700' }}>
+                    {cashInLieuActionId(r.sellId) ? 'Cash in lieu' : 'Sold'} {r.qty.toLocaleString(undefined, { maximumFractionDigits: 4 })} · {new Date(r.date).toLocaleDateString()}
+                  </Text>
+                  <Text style={{ color: (r.gain >= 0 ? get('semantic.success') : get('semantic.danger')) as string, fontWeight: '800' }}>
+                    {formatCurrency(r.gain, cur)}
+                  </Text>
+                </View>
+                {r.slices.map((s, i) => (
+                  <View key={`${s.buyId || 'none'}-${i}`} style={{ flexDirection: 'row', justifyContent: 'space-between', marginTop: spacing.s6 }}>
+                    <View style={{ flex: 1 }}>
+                      <Text style={{ color: text, fontSize: 13 }}>
+                        {s.qty.toLocaleString(undefined, { maximumFractionDigits: 4 })} from {s.buyDate ? new Date(s.buyDate).toLocaleDateString() : 'no matching buy'}
+                      </Text>
+                      <Text style={{ color: muted, fontSize: 12 }}>
+                        Cost {formatCurrency(s.cost, cur)} · {s.holdingDays}d · {s.longTerm ? 'Long term' : 'Short term'}
+                      </Text>
+                    </View>
+                    <Text style={{ color: (s.gain >= 0 ? get('semantic.success') : get('semantic.danger')) as string, fontSize: 13, fontWeight: '600' }}>
+                      {formatCurrency(s.gain, cur)}
+                    </Text>
+                  </View>
+                ))}
+              </View>
+            ))}
+          </View>
+        ) : null}
       </ScrollView>
 
       <TransactionEditorSheet
@@ -300,7 +499,24 @@ export default function HoldingHistory() {
         portfolioId={portfolioId || null}
         mode={editLotState ? 'edit' : 'add'}
         lotId={editLotState?.id || undefined}
-        initial={editLotState ? { side: editLotState.lot.side, qty: editLotState.lot.qty, price: editLotState.lot.price, fees: editLotState.lot.fees, date: editLotState.lot.date } : undefined}
+        initial={editLotState ? { side: editLotState.lot.side, qty: editLotState.lot.qty, price: editLotState.lot.price, fees: editLotState.lot.fees, date: editLotState.lot.date, matches: editLotState.lot.matches } : undefined}
+      />
+
+      <IncomeEditorSheet
+        visible={showIncomeSheet}
+        onClose={() => setShowIncomeSheet(false)}
+        symbol={symbol}
+        portfolioId={portfolioId || null}
+        currency={cur}
+      />
+
+      <CorporateActionSheet
+        visible={showActionSheet}
+        onClose={() => setShowActionSheet(false)}
+        symbol={symbol}
+        portfolioId={portfolioId || null}
+        currency={cur}
+        onSaved={next => { if (next !== symbol) nav.setParams({ symbol: next }); }}
       />
     </Screen>
   );
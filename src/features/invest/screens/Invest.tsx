@@ -10,12 +10,17 @@ import { useThemeTokens } from '../../../theme/ThemeProvider';
 import { useInvestStore } from '../store/invest';
 import { formatCurrency } from '../../../lib/format';
 import { useProfileStore } from '../../../store/profile';
+import { usePlansStore } from '../../../store/plans';
 import { useNavigation } from '@react-navigation/native';
 import { useTabBarScroll } from '../../../contexts/TabBarScrollContext';
 import LineChart from '../../../components/LineChart';
 import { computePnL } from '../../../lib/positions';
+import { adjustedLots } from '../../../lib/corporateActions';
+import { holdingIncome } from '../../../lib/income';
 import { convertCurrency } from '../../../lib/fx';
+import { getProvider, providerStatus } from '../../../lib/quoteProviders';
 import PortfolioListCard from '../components/PortfolioListCard';
+import PerformanceCard from '../components/PerformanceCard';
 // CreatePortfolioModal removed - now using CreatePortfolio screen
 import PortfolioDetailSheet from '../components/PortfolioDetailSheet';
 import AddHoldingSheet from '../components/AddHoldingSheet';
@@ -118,7 +123,8 @@ export const Invest = React.memo(() => {
   const [sortKey, setSortKey] = React.useState<'mv'|'pnlAbs'|'pnlPct'|'ticker'>('mv');
   const [sortDir, setSortDir] = React.useState<'asc'|'desc'>('desc');
 
-  const { portfolios, quotes, hydrate, refreshQuotes, refreshing, error, fxRates, refreshFx, allSymbols, lastUpdated } = useInvestStore();
+  const { portfolios, quotes, hydrate, refreshQuotes, refreshing, error, fxRates, refreshFx, allSymbols, lastUpdated, providerHealth } = useInvestStore();
+  const { plans: dcaPlans, ready: plansReady, hydrate: hydratePlans } = usePlansStore();
   const activePortfolioId = useInvestStore(state => state.activePortfolioId);
   const { profile } = useProfileStore();
 
@@ -143,6 +149,7 @@ export const Invest = React.memo(() => {
     refreshFx();
     const syms = allSymbols();
     refreshQuotes(syms && syms.length ? syms : undefined);
+    if (!plansReady) hydratePlans();
   }, []);
 
   // Level 2: Auto-refresh every 60 seconds while screen is focused
@@ -198,8 +205,9 @@ export const Invest = React.memo(() => {
       if (!p || !p.holdings || (p.trackingEnabled === false)) return;
       Object.values(p.holdings || {}).forEach((h:any) => {
         const sym = h.symbol;
-        if (!out[sym]) out[sym] = { ...h, lots: [] };
-        out[sym].lots = out[sym].lots.concat(h.lots || []);
+        // Lots are pooled already adjusted for corporate actions, so the pool carries none
+        if (!out[sym]) out[sym] = { ...h, lots: [], actions: undefined };
+        out[sym].lots = out[sym].lots.concat(adjustedLots(h));
       });
     });
     return out;
@@ -219,7 +227,7 @@ export const Invest = React.memo(() => {
       // Calculate holdings value for this portfolio (converted to investment currency)
       let portfolioHoldingsValue = 0;
       Object.values(p.holdings || {}).forEach((h: any) => {
-        const lots = h?.lots || [];
+        const lots = adjustedLots(h);
         const qty = lots.reduce((s: number, l: any) => s + (l.side === 'buy' ? l.qty : -l.qty), 0);
         if (qty <= 0) return;
 
@@ -262,6 +270,17 @@ export const Invest = React.memo(() => {
     };
   }, [portfolios, quotes, fxRates, investCurrency]);
 
+  // Tracked portfolios measured together, against the benchmark most of them use
+  const trackedPortfolios = React.useMemo(
+    () => Object.values(portfolios || {}).filter(p => p && !p.archived && p.trackingEnabled !== false),
+    [portfolios]
+  );
+  const trackedBenchmark = React.useMemo(() => {
+    const counts: Record<string, number> = {};
+    trackedPortfolios.forEach(p => { const b = p.benchmark || 'SPY'; counts[b] = (counts[b] || 0) + 1; });
+    return Object.keys(counts).sort((a, b) => counts[b] - counts[a])[0] || 'SPY';
+  }, [trackedPortfolios]);
+
   const cur = investCurrency;
   const cashValue = totalValue - holdingsValue;
 
@@ -537,7 +556,7 @@ export const Invest = React.memo(() => {
       if (!p || (p.trackingEnabled === false)) return;
 
       Object.values(p.holdings || {}).forEach((h: any) => {
-        const lots = h?.lots || [];
+        const lots = adjustedLots(h);
         const qty = lots.reduce((s: number, l: any) => s + (l.side === 'buy' ? l.qty : -l.qty), 0);
         if (qty <= 0) return;
 
@@ -595,7 +614,7 @@ export const Invest = React.memo(() => {
         if (!p || (p.trackingEnabled === false)) return;
 
         Object.values(p.holdings || {}).forEach((h: any) => {
-          const lots = h?.lots || [];
+          const lots = adjustedLots(h);
           if (!lots.length) return;
 
           // Get ticker currency
@@ -625,8 +644,8 @@ export const Invest = React.memo(() => {
             fee: convertCurrency(fxRates, (l.fee ?? l.fees) || 0, tickerCurrency, investCurrency)
           }));
 
-          const pnl = computePnL(normalizedLots, last);
-          totalGain += (pnl.realized || 0) + (pnl.unrealized || 0);
+          const pnl = computePnL(normalizedLots, last, p.costMethod);
+          totalGain += (pnl.realized || 0) + (pnl.unrealized || 0) + convertCurrency(fxRates, holdingIncome(h), tickerCurrency, investCurrency);
 
           // Calculate cost basis
           const currentQty = lots.reduce((acc: number, lot: any) => acc + (lot.side === 'buy' ? lot.qty : -lot.qty), 0);
@@ -692,24 +711,24 @@ export const Invest = React.memo(() => {
         if (!q) return;
 
         // Calculate current P&L
-        const currentQty = h.lots.reduce((acc: number, lot: any) => acc + (lot.side === 'buy' ? lot.qty : -lot.qty), 0);
+        const currentQty = adjustedLots(h).reduce((acc: number, lot: any) => acc + (lot.side === 'buy' ? lot.qty : -lot.qty), 0);
         if (currentQty > 0) {
           const lastNative = Number(q.last || 0);
           const last = convertCurrency(fxRates, lastNative, tickerCurrency, investCurrency);
 
-          const normalizedLots = h.lots.map((l: any) => ({
+          const normalizedLots = adjustedLots(h).map((l: any) => ({
             ...l,
             price: convertCurrency(fxRates, l.price || 0, tickerCurrency, investCurrency),
             fee: convertCurrency(fxRates, (l.fee ?? l.fees) || 0, tickerCurrency, investCurrency)
           }));
 
-          const pnl = computePnL(normalizedLots, last);
-          currentPnL += (pnl.realized || 0) + (pnl.unrealized || 0);
+          const pnl = computePnL(normalizedLots, last, p.costMethod);
+          currentPnL += (pnl.realized || 0) + (pnl.unrealized || 0) + convertCurrency(fxRates, holdingIncome(h), tickerCurrency, investCurrency);
           currentCostBasis += pnl.qty * pnl.avgCost;
         }
 
         // Calculate P&L at start time
-        const lotsAtStart = h.lots.filter((lot: any) => new Date(lot.date).getTime() <= startTime);
+        const lotsAtStart = adjustedLots(h).filter((lot: any) => new Date(lot.date).getTime() <= startTime);
         if (lotsAtStart.length === 0) return;
 
         // Get price at start time from bars
@@ -730,8 +749,8 @@ export const Invest = React.memo(() => {
           fee: convertCurrency(fxRates, (l.fee ?? l.fees) || 0, tickerCurrency, investCurrency)
         }));
 
-        const pnlStart = computePnL(normLotsAtStart, priceAtStart);
-        pnlAtStart += (pnlStart.realized || 0) + (pnlStart.unrealized || 0);
+        const pnlStart = computePnL(normLotsAtStart, priceAtStart, p.costMethod);
+        pnlAtStart += (pnlStart.realized || 0) + (pnlStart.unrealized || 0) + convertCurrency(fxRates, holdingIncome(h, new Date(startTime)), tickerCurrency, investCurrency);
       });
     });
 
@@ -769,6 +788,22 @@ export const Invest = React.memo(() => {
     return new Date(lastUpdated).toLocaleDateString();
   }, [lastUpdated]);
 
+  // Holdings priced from saved quotes because no provider could refresh them
+  const staleNotice = React.useMemo(() => {
+    const stale = symbols.map(s => quotes[s]).filter(q => q?.stale);
+    if (!stale.length) return null;
+    const oldest = Math.min(...stale.map(q => q!.ts));
+    const hours = Math.floor((Date.now() - oldest) / 3600000);
+    const age = hours < 1 ? 'within the hour' : hours < 24 ? `${hours}h ago` : `on ${new Date(oldest).toLocaleDateString()}`;
+    const failing = Object.values(providerHealth || {})
+      .filter(h => providerStatus(h) !== 'ok')
+      .map(h => getProvider(h.id)?.label || h.id);
+    return {
+      title: stale.length === symbols.length ? 'Prices not up to date' : `${stale.length} of ${symbols.length} prices not up to date`,
+      detail: `Showing the last prices saved ${age}${failing.length ? `; ${failing.join(', ')} not responding` : ''}. Pull down to retry.`,
+    };
+  }, [symbols, quotes, providerHealth]);
+
   const investedValue = holdingsValue;
   // cashValue is already defined above as totalValue - holdingsValue
   const portfolioCount = Object.keys(portfolios || {}).length;
@@ -811,6 +846,7 @@ export const Invest = React.memo(() => {
   const borderSubtle = get('border.subtle') as string;
   const accentPrimary = get('accent.primary') as string;
   const accentSecondary = get('accent.secondary') as string;
+  const warningColor = get('semantic.warning') as string;
   const bgDefault = get('background.default') as string;
 
   // Main Tab Title Animation - Animated Styles
@@ -897,7 +933,7 @@ export const Invest = React.memo(() => {
         // Skip portfolios with tracking disabled
         if (!p || (p.trackingEnabled === false)) return;
         Object.values((p?.holdings || {}) as any).forEach((h: any) => {
-          const qty = (h?.lots || []).reduce((s: number, l: any) => s + (l.side === 'buy' ? l.qty : -l.qty), 0);
+          const qty = adjustedLots(h).reduce((s: number, l: any) => s + (l.side === 'buy' ? l.qty : -l.qty), 0);
           if (qty > 0) positions[h.symbol] = (positions[h.symbol] || 0) + qty;
         });
       });
@@ -1042,6 +1078,16 @@ export const Invest = React.memo(() => {
           <GlobalIndicesTicker />
         </View>
 
+        {staleNotice ? (
+          <View style={{ flexDirection: 'row', gap: spacing.s8, backgroundColor: surface1, borderRadius: radius.lg, padding: spacing.s12, marginBottom: spacing.s16 }}>
+            <Icon name="history" size={16} color={warningColor} />
+            <View style={{ flex: 1 }}>
+              <Text style={{ color: textPrimary, fontWeight: '700', fontSize: 13 }}>{staleNotice.title}</Text>
+              <Text style={{ color: textMuted, fontSize: 12, marginTop: spacing.s2 }}>{staleNotice.detail}</Text>
+            </View>
+          </View>
+        ) : null}
+
         {/* Value Display */}
         <View>
           <View style={{ flexDirection: 'row', alignItems: 'baseline', marginBottom: spacing.s4 }}>
@@ -1119,6 +1165,19 @@ export const Invest = React.memo(() => {
           </View>
         )}
 
+        {/* Performance of all tracked portfolios */}
+        {trackedPortfolios.length > 0 && (
+          <View style={{ marginBottom: spacing.s16 }}>
+            <PerformanceCard
+              portfolios={trackedPortfolios}
+              currency={investCurrency}
+              benchmark={trackedBenchmark}
+              title="All tracked portfolios"
+              showChart={false}
+            />
+          </View>
+        )}
+
         {/* Portfolio List */}
         <View style={{ marginBottom: spacing.s16 }}>
           <PortfolioListCard
@@ -1137,7 +1196,7 @@ export const Invest = React.memo(() => {
         </View>
 
         {/* DCA Planning Action */}
-        <AnimatedPressable onPress={() => nav.navigate('DCAPlanner' as never)}>
+        <AnimatedPressable onPress={() => nav.navigate((dcaPlans.length ? 'DCAPlans' : 'DCAPlanner') as never)}>
           <View
             style={{
               backgroundColor: withAlpha(accentPrimary, isDark ? 0.2 : 0.12),
@@ -1163,10 +1222,12 @@ export const Invest = React.memo(() => {
               </View>
               <View style={{ flex: 1 }}>
                 <Text style={{ color: textPrimary, fontSize: 16, fontWeight: '700' }}>
-                  Plan DCA Strategy
+                  {dcaPlans.length ? 'DCA plans' : 'Plan DCA Strategy'}
                 </Text>
                 <Text style={{ color: textMuted, fontSize: 13, marginTop: 2 }}>
-                  Compare indices & project returns
+                  {dcaPlans.length
+                    ? `${dcaPlans.length} plan${dcaPlans.length === 1 ? '' : 's'} · record buys and track adherence`
+                    : 'Compare indices & project returns'}
                 </Text>
               </View>
             </View>
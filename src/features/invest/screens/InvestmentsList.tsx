@@ -24,6 +24,7 @@ import { useInvestStore } from '../store/invest';
 import { useProfileStore } from '../../../store/profile';
 import { formatCurrency } from '../../../lib/format';
 import { convertCurrency } from '../../../lib/fx';
+import { adjustedLots } from '../../../lib/corporateActions';
 
 function withAlpha(color: string, alpha: number) {
   if (!color) return `rgba(0,0,0,${alpha})`;
@@ -193,9 +194,10 @@ const InvestmentsList: React.FC = () => {
       Object.values(p.holdings || {}).forEach((h: any) => {
         const sym = h.symbol;
         if (!aggregatedHoldings[sym]) {
-          aggregatedHoldings[sym] = { ...h, lots: [] };
+          // Lots are pooled already adjusted for corporate actions, so the pool carries none
+          aggregatedHoldings[sym] = { ...h, lots: [], actions: undefined };
         }
-        aggregatedHoldings[sym].lots = aggregatedHoldings[sym].lots.concat(h.lots || []);
+        aggregatedHoldings[sym].lots = aggregatedHoldings[sym].lots.concat(adjustedLots(h));
       });
     });
 
@@ -206,7 +208,7 @@ const InvestmentsList: React.FC = () => {
       const h = aggregatedHoldings[sym];
       const q = quotes[sym]?.last || 0;
       const ch = quotes[sym]?.change || 0;
-      const qty = (h?.lots || []).reduce(
+      const qty = adjustedLots(h).reduce(
         (acc, l) => acc + (l.side === 'buy' ? l.qty : -l.qty),
         0
       );
@@ -249,7 +251,7 @@ const InvestmentsList: React.FC = () => {
     const totalInInvestCurrency = symbols.reduce((acc, sym) => {
       const h = aggregatedHoldings[sym];
       const q = quotes[sym]?.last || 0;
-      const qty = (h?.lots || []).reduce((a, l) => a + (l.side === 'buy' ? l.qty : -l.qty), 0);
+      const qty = adjustedLots(h).reduce((a, l) => a + (l.side === 'buy' ? l.qty : -l.qty), 0);
       if (qty <= 0) return acc;
       let tickerCurrency = h?.currency || 'USD';
       const priceConverted = convertCurrency(fxRates, q, String(tickerCurrency).toUpperCase(), investCurrency);
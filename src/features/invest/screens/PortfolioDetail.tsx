@@ -9,6 +9,8 @@ import { useProfileStore } from '../../../store/profile';
 import Icon from '../../../components/Icon';
 import { formatCurrency } from '../../../lib/format';
 import { computePnL } from '../../../lib/positions';
+import { adjustedLots } from '../../../lib/corporateActions';
+import { holdingIncome } from '../../../lib/income';
 import { convertCurrency } from '../../../lib/fx';
 import LineChart from '../../../components/LineChart';
 import WatchRow from '../components/WatchRow';
@@ -16,6 +18,9 @@ import HoldingRow from '../components/HoldingRow';
 import AddHoldingSheet from '../components/AddHoldingSheet';
 import HoldingsFilterSheet from '../components/HoldingsFilterSheet';
 import HoldingsSortSheet from '../components/HoldingsSortSheet';
+import PerformanceCard from '../components/PerformanceCard';
+import { usePortfolioValueHistory } from '../../../hooks/usePortfolioHistory';
+import { dayStart } from '../../../lib/portfolioHistory';
 import PopoverMenu from '../../../components/PopoverMenu';
 
 function withAlpha(color: string, alpha: number) {
@@ -70,6 +75,30 @@ export default function PortfolioDetail() {
   const dangerColor = get('semantic.danger') as string;
   const bgDefault = get('background.default') as string;
 
+  const performancePortfolios = React.useMemo(() => (p ? [p] : []), [p]);
+
+  // Holdings value by day over the selected interval (all of it for ALL), excluding cash
+  const historyStart = React.useMemo(() => {
+    const now = Date.now();
+    const day = 24 * 60 * 60 * 1000;
+    switch (selectedInterval) {
+      case '1D': case '5D': return dayStart(now - 5 * day);
+      case '1M': return dayStart(now - 30 * day);
+      case '6M': return dayStart(now - 180 * day);
+      case 'YTD': return new Date(new Date().getFullYear(), 0, 1).getTime();
+      case '1Y': return dayStart(now - 365 * day);
+      default: {
+        const first = Math.min(...Object.values(p?.holdings || {}).flatMap(h => (h?.lots || []).map(l => new Date(l.date).getTime())));
+        return dayStart(isFinite(first) ? first : now - 730 * day);
+      }
+    }
+  }, [selectedInterval, p]);
+  const { series: valueHistory } = usePortfolioValueHistory(performancePortfolios, {
+    currency: portfolioCurrency,
+    start: historyStart,
+    includeCash: false,
+  });
+
   const summary = React.useMemo(() => {
     if (!p) return null;
     const base = portfolioCurrency;
@@ -81,7 +110,7 @@ export default function PortfolioDetail() {
 
     Object.values(p.holdings || {}).forEach((h: any) => {
       if (!h) return;
-      const lots = h.lots || [];
+      const lots = adjustedLots(h);
       const qty = lots.reduce((acc: number, lot: any) => acc + (lot.side === 'buy' ? lot.qty : -lot.qty), 0);
       if (qty <= 0) return;
 
@@ -120,8 +149,8 @@ export default function PortfolioDetail() {
         price: convertCurrency(fxRates, l.price || 0, holdingCurrency, base),
         fee: convertCurrency(fxRates, (l.fee ?? l.fees) || 0, holdingCurrency, base)
       }));
-      const pnl = computePnL(norm, last);
-      totalGain += pnl.realized + pnl.unrealized;
+      const pnl = computePnL(norm, last, p?.costMethod);
+      totalGain += pnl.realized + pnl.unrealized + convertCurrency(fxRates, holdingIncome(h), holdingCurrency, base);
       openRows.push({ sym: h.symbol, value });
     });
 
@@ -152,7 +181,7 @@ export default function PortfolioDetail() {
       holdings = holdings.filter(sym => {
         const h = p.holdings?.[sym];
         if (!h) return false;
-        const qty = (h.lots || []).reduce((acc: number, lot: any) =>
+        const qty = adjustedLots(h).reduce((acc: number, lot: any) =>
           acc + (lot.side === 'buy' ? lot.qty : -lot.qty), 0);
         const q = quotes[sym];
         const value = (q?.last || 0) * qty;
@@ -167,9 +196,9 @@ export default function PortfolioDetail() {
       const hB = p.holdings?.[b];
       if (!hA || !hB) return 0;
 
-      const qtyA = (hA.lots || []).reduce((acc: number, lot: any) =>
+      const qtyA = adjustedLots(hA).reduce((acc: number, lot: any) =>
         acc + (lot.side === 'buy' ? lot.qty : -lot.qty), 0);
-      const qtyB = (hB.lots || []).reduce((acc: number, lot: any) =>
+      const qtyB = adjustedLots(hB).reduce((acc: number, lot: any) =>
         acc + (lot.side === 'buy' ? lot.qty : -lot.qty), 0);
 
       const qA = quotes[a];
@@ -186,13 +215,13 @@ export default function PortfolioDetail() {
           comparison = mvA - mvB;
           break;
         case 'pnlAbs':
-          const pnlA = computePnL(hA.lots.map((l: any) => ({ ...l, fee: l.fee ?? l.fees })), qA?.last || 0);
-          const pnlB = computePnL(hB.lots.map((l: any) => ({ ...l, fee: l.fee ?? l.fees })), qB?.last || 0);
+          const pnlA = computePnL(adjustedLots(hA).map((l: any) => ({ ...l, fee: l.fee ?? l.fees })), qA?.last || 0, p.costMethod);
+          const pnlB = computePnL(adjustedLots(hB).map((l: any) => ({ ...l, fee: l.fee ?? l.fees })), qB?.last || 0, p.costMethod);
           comparison = (pnlA.realized + pnlA.unrealized) - (pnlB.realized + pnlB.unrealized);
           break;
         case 'pnlPct':
-          const pnlPctA = computePnL(hA.lots.map((l: any) => ({ ...l, fee: l.fee ?? l.fees })), qA?.last || 0);
-          const pnlPctB = computePnL(hB.lots.map((l: any) => ({ ...l, fee: l.fee ?? l.fees })), qB?.last || 0);
+          const pnlPctA = computePnL(adjustedLots(hA).map((l: any) => ({ ...l, fee: l.fee ?? l.fees })), qA?.last || 0, p.costMethod);
+          const pnlPctB = computePnL(adjustedLots(hB).map((l: any) => ({ ...l, fee: l.fee ?? l.fees })), qB?.last || 0, p.costMethod);
           const costA = pnlPctA.qty * pnlPctA.avgCost;
           const costB = pnlPctB.qty * pnlPctB.avgCost;
           const pctA = costA > 0 ? ((pnlPctA.realized + pnlPctA.unrealized) / costA) * 100 : 0;
@@ -216,7 +245,7 @@ export default function PortfolioDetail() {
 
     Object.values(p.holdings || {}).forEach((h: any) => {
       if (!h) return;
-      const lots = h.lots || [];
+      const lots = adjustedLots(h);
       if (lots.length === 0) return;
 
       const qty = lots.reduce((acc: number, lot: any) => acc + (lot.side === 'buy' ? lot.qty : -lot.qty), 0);
@@ -241,7 +270,7 @@ export default function PortfolioDetail() {
       )[0];
       const lastPrice = lastSell ? convertCurrency(fxRates, lastSell.price, holdingCurrency, base) : 0;
 
-      const pnl = computePnL(normalizedLots, lastPrice);
+      const pnl = computePnL(normalizedLots, lastPrice, p?.costMethod);
       const realizedPnL = pnl.realized || 0;
 
       // Calculate realized % based on cost basis
@@ -289,7 +318,7 @@ export default function PortfolioDetail() {
         break;
       }
       case '1Y': days = 365; break;
-      case 'ALL': days = 730; break;
+      case 'ALL': days = Math.max(1, Math.ceil((now - historyStart) / (24 * 60 * 60 * 1000))); break;
     }
 
     const startTime = now - (days * 24 * 60 * 60 * 1000);
@@ -301,7 +330,7 @@ export default function PortfolioDetail() {
       const holdings: Record<string, number> = {};
       Object.values(p.holdings || {}).forEach((h: any) => {
         if (!h || !h.lots) return;
-        const qty = h.lots.reduce((acc: number, lot: any) =>
+        const qty = adjustedLots(h).reduce((acc: number, lot: any) =>
           acc + (lot.side === 'buy' ? lot.qty : -lot.qty), 0);
         if (qty > 0) holdings[h.symbol] = qty;
       });
@@ -364,63 +393,12 @@ export default function PortfolioDetail() {
         points.push({ t, v: portfolioValue });
       });
     } else {
-      // For other intervals, use daily bars data
-      const numPoints = Math.min(days, 100);
-      for (let i = 0; i < numPoints; i++) {
-        const t = startTime + (i / (numPoints - 1)) * (days * 24 * 60 * 60 * 1000);
-
-        // Calculate portfolio value at this point in time (excluding cash)
-        let portfolioValue = 0; // Start at 0, no cash included
-
-        Object.values(p.holdings || {}).forEach((h: any) => {
-          if (!h || !h.lots) return;
-
-          const q = quotes[h.symbol];
-          if (!q || !q.bars || q.bars.length === 0) return;
-
-          // Get ticker currency
-          let tickerCurrency = h.currency;
-          if (!tickerCurrency) {
-            const s = h.symbol.toUpperCase();
-            if (s.includes('-USD') || s.includes('USD')) tickerCurrency = 'USD';
-            else if (s.endsWith('.L')) tickerCurrency = 'GBP';
-            else if (s.endsWith('.T')) tickerCurrency = 'JPY';
-            else if (s.endsWith('.TO')) tickerCurrency = 'CAD';
-            else if (s.endsWith('.AX')) tickerCurrency = 'AUD';
-            else if (s.endsWith('.HK')) tickerCurrency = 'HKD';
-            else if (s.endsWith('.PA') || s.endsWith('.DE')) tickerCurrency = 'EUR';
-            else if (s.endsWith('.SW')) tickerCurrency = 'CHF';
-            else tickerCurrency = 'USD';
-          }
-          tickerCurrency = String(tickerCurrency).toUpperCase();
-
-          // Calculate quantity held at time t
-          let qtyAtTime = 0;
-          h.lots.forEach((lot: any) => {
-            const lotTime = new Date(lot.date).getTime();
-            if (lotTime <= t) {
-              qtyAtTime += lot.side === 'buy' ? lot.qty : -lot.qty;
-            }
-          });
-
-          if (qtyAtTime <= 0) return;
-
-          // Find the closest historical price at or before time t
-          let priceAtTimeNative = q.last; // default to current price
-          for (let j = q.bars.length - 1; j >= 0; j--) {
-            if (q.bars[j].t <= t) {
-              priceAtTimeNative = q.bars[j].c;
-              break;
-            }
-          }
-
-          // Convert price from ticker currency to investment currency
-          const priceAtTime = convertCurrency(fxRates, priceAtTimeNative, tickerCurrency, portfolioCurrency);
-          portfolioValue += qtyAtTime * priceAtTime;
-        });
-
-        points.push({ t, v: portfolioValue });
-      }
+      // Other intervals: the daily valuation, thinned to about 120 points
+      const history = valueHistory.filter(pt => pt.t >= dayStart(startTime));
+      const step = Math.max(1, Math.ceil(history.length / 120));
+      history.forEach((pt, i) => {
+        if (i % step === 0 || i === history.length - 1) points.push({ t: pt.t, v: pt.holdings });
+      });
     }
 
     // Remove leading zeros from chart data
@@ -434,7 +412,7 @@ export default function PortfolioDetail() {
 
     const nonZeroPoints = points.slice(firstNonZero);
     return nonZeroPoints.length > 1 ? nonZeroPoints : [{ t: startTime, v: summary.holdingsValue }, { t: now, v: summary.holdingsValue }];
-  }, [p, quotes, selectedInterval, summary.holdingsValue, fxRates, portfolioCurrency]);
+  }, [p, quotes, selectedInterval, summary.holdingsValue, fxRates, portfolioCurrency, valueHistory, historyStart]);
 
   // Calculate interval-based gain/loss (excluding cash deposits/withdrawals)
   const intervalGain = React.useMemo(() => {
@@ -500,13 +478,13 @@ export default function PortfolioDetail() {
       if (!q) return;
 
       // Calculate current cost basis (all lots)
-      const allLotsConverted = h.lots.map((l: any) => ({
+      const allLotsConverted = adjustedLots(h).map((l: any) => ({
         ...l,
         price: convertCurrency(fxRates, l.price || 0, holdingCurrency, base),
         fee: convertCurrency(fxRates, (l.fee ?? l.fees) || 0, holdingCurrency, base)
       }));
 
-      const currentQty = h.lots.reduce((acc: number, lot: any) => acc + (lot.side === 'buy' ? lot.qty : -lot.qty), 0);
+      const currentQty = adjustedLots(h).reduce((acc: number, lot: any) => acc + (lot.side === 'buy' ? lot.qty : -lot.qty), 0);
       if (currentQty > 0) {
         // Calculate cost basis for current holdings
         let totalCost = 0;
@@ -522,7 +500,7 @@ export default function PortfolioDetail() {
       }
 
       // Filter lots that existed at start time
-      const lotsAtStart = h.lots.filter((lot: any) => new Date(lot.date).getTime() <= startTime);
+      const lotsAtStart = adjustedLots(h).filter((lot: any) => new Date(lot.date).getTime() <= startTime);
       if (lotsAtStart.length === 0) return;
 
       // Get price at start time
@@ -544,8 +522,8 @@ export default function PortfolioDetail() {
         fee: convertCurrency(fxRates, (l.fee ?? l.fees) || 0, holdingCurrency, base)
       }));
 
-      const pnlStart = computePnL(normLotsAtStart, priceAtStart);
-      pnlAtStart += pnlStart.realized + pnlStart.unrealized;
+      const pnlStart = computePnL(normLotsAtStart, priceAtStart, p?.costMethod);
+      pnlAtStart += pnlStart.realized + pnlStart.unrealized + convertCurrency(fxRates, holdingIncome(h, new Date(startTime)), holdingCurrency, base);
     });
 
     // Current P&L is already calculated in summary.totalGain
@@ -740,6 +718,11 @@ export default function PortfolioDetail() {
         </View>
       </View>
 
+      {/* Performance against the benchmark */}
+      <View style={{ paddingHorizontal: spacing.s16, marginBottom: spacing.s24 }}>
+        <PerformanceCard portfolios={performancePortfolios} currency={summary.base} benchmark={p.benchmark || 'SPY'} />
+      </View>
+
       {/* Watchlist/Holdings Section with Switch */}
       <View style={{ paddingHorizontal: spacing.s16 }}>
         {/* Segmented Switch and Action Icons */}
@@ -1051,11 +1034,33 @@ export default function PortfolioDetail() {
           {
             key: 'edit',
             label: 'Edit portfolio',
-            description: 'Change name, currency, and benchmark',
+            description: 'Change name, currency, benchmark and cost basis',
             icon: 'edit',
             iconToken: 'accent.primary',
             onPress: handleEditPortfolio,
           },
+          {
+            key: 'income',
+            label: 'Income',
+            description: 'Dividends received and projected',
+            icon: 'dollar-sign',
+            iconToken: 'accent.primary',
+            onPress: () => {
+              setMenuVisible(false);
+              nav.navigate('PortfolioIncome', { portfolioId });
+            },
+          },
+          {
+            key: 'rebalance',
+            label: 'Rebalance',
+            description: 'Target allocation, drift and trades to fix it',
+            icon: 'pie-chart',
+            iconToken: 'accent.primary',
+            onPress: () => {
+              setMenuVisible(false);
+              nav.navigate('Rebalance', { portfolioId });
+            },
+          },
           {
             key: 'tracking',
             label: (p?.trackingEnabled ?? true) ? 'Disable tracking' : 'Enable tracking',
@@ -0,0 +1,159 @@
+import React from 'react';
+import { View, Text, Pressable } from 'react-native';
+import { useRoute, useNavigation } from '@react-navigation/native';
+import { ScreenScroll } from '../../../components/ScreenScroll';
+import { useThemeTokens } from '../../../theme/ThemeProvider';
+import { spacing, radius } from '../../../theme/tokens';
+import { useInvestStore } from '../store/invest';
+import Icon from '../../../components/Icon';
+import { formatCurrency } from '../../../lib/format';
+import { projectIncome, incomeTotals } from '../../../lib/income';
+import { convertCurrency } from '../../../lib/fx';
+
+/** Projected annual income for a portfolio, with what it actually paid over the last year. */
+export default function PortfolioIncome() {
+  const { get } = useThemeTokens();
+  const route = useRoute<any>();
+  const nav = useNavigation<any>();
+  const portfolioId = route.params?.portfolioId as string;
+  const { portfolios, quotes, fxRates } = useInvestStore();
+  const p = portfolios[portfolioId];
+  const base = String(p?.baseCurrency || 'USD').toUpperCase();
+
+  const textPrimary = get('text.primary') as string;
+  const textMuted = get('text.muted') as string;
+  const cardBg = get('surface.level1') as string;
+  const border = get('border.subtle') as string;
+  const successColor = get('semantic.success') as string;
+
+  const projection = React.useMemo(
+    () => (p ? projectIncome([p], quotes, fxRates, base) : { rows: [], annual: 0, trailing: 0, value: 0 }),
+    [p, quotes, fxRates, base]
+  );
+
+  // Net income received per month over the last 12 months
+  const months = React.useMemo(() => {
+    const now = new Date();
+    const out: Array<{ key: string; label: string; net: number; withholding: number }> = [];
+    for (let i = 11; i >= 0; i--) {
+      const start = new Date(now.getFullYear(), now.getMonth() - i, 1);
+      const end = new Date(now.getFullYear(), now.getMonth() - i + 1, 1);
+      let net = 0;
+      let withholding = 0;
+      Object.values(p?.holdings || {}).forEach(h => {
+        const events = (h.income || []).filter(e => { const d = new Date(e.date); return d >= start && d < end; });
+        if (!events.length) return;
+        const t = incomeTotals(events);
+        const from = (h.currency || base).toUpperCase();
+        net += convertCurrency(fxRates, t.net, from, base);
+        withholding += convertCurrency(fxRates, t.withholding, from, base);
+      });
+      out.push({ key: start.toISOString(), label: start.toLocaleDateString(undefined, { month: 'short' }), net, withholding });
+    }
+    return out;
+  }, [p, fxRates, base]);
+  const maxMonth = Math.max(1, ...months.map(m => m.net));
+
+  if (!p) return null;
+
+  const yieldOnValue = projection.value > 0 ? (projection.annual / projection.value) * 100 : 0;
+
+  return (
+    <ScreenScroll inTab contentStyle={{ paddingBottom: spacing.s32 }}>
+      <View style={{ paddingHorizontal: spacing.s16, marginTop: spacing.s12, gap: spacing.s16 }}>
+        <View style={{ flexDirection: 'row', alignItems: 'flex-start', gap: spacing.s8 }}>
+          <Pressable
+            onPress={() => nav.goBack()}
+            style={({ pressed }) => ({
+              padding: spacing.s8,
+              marginLeft: -spacing.s8,
+              marginTop: -spacing.s4,
+              borderRadius: radius.md,
+              backgroundColor: pressed ? cardBg : 'transparent',
+            })}
+            hitSlop={8}
+          >
+            <Icon name="chevron-left" size={28} color={textPrimary} />
+          </Pressable>
+          <View style={{ flex: 1 }}>
+            <Text style={{ color: textPrimary, fontSize: 28, fontWeight: '800', letterSpacing: -0.5 }}>Income</Text>
+            <Text style={{ color: textMuted, fontSize: 14, marginTop: spacing.s2 }}>{p.name}</Text>
+          </View>
+        </View>
+
+        <View style={{ flexDirection: 'row', gap: spacing.s8 }}>
+          <View style={{ flex: 1, backgroundColor: cardBg, borderRadius: radius.lg, padding: spacing.s12 }}>
+            <Text style={{ color: textMuted, fontSize: 11, fontWeight: '600', textTransform: 'uppercase', letterSpacing: 0.6, marginBottom: spacing.s4 }}>Projected / year</Text>
+            <Text style={{ color: textPrimary, fontSize: 20, fontWeight: '800' }}>{formatCurrency(projection.annual, base)}</Text>
+            <Text style={{ color: textMuted, fontSize: 12, marginTop: spacing.s2 }}>
+              {formatCurrency(projection.annual / 12, base)} a month · {yieldOnValue.toFixed(2)}% yield
+            </Text>
+          </View>
+          <View style={{ flex: 1, backgroundColor: cardBg, borderRadius: radius.lg, padding: spacing.s12 }}>
+            <Text style={{ color: textMuted, fontSize: 11, fontWeight: '600', textTransform: 'uppercase', letterSpacing: 0.6, marginBottom: spacing.s4 }}>Last 12 months</Text>
+            <Text style={{ color: successColor, fontSize: 20, fontWeight: '800' }}>{formatCurrency(projection.trailing, base)}</Text>
+            <Text style={{ color: textMuted, fontSize: 12, marginTop: spacing.s2 }}>
+              {formatCurrency(months.reduce((s, m) => s + m.withholding, 0), base)} withheld
+            </Text>
+          </View>
+        </View>
+
+        {/* Received by month */}
+        <View style={{ backgroundColor: cardBg, borderRadius: radius.lg, padding: spacing.s12 }}>
+          <Text style={{ color: textPrimary, fontWeight: '700', marginBottom: spacing.s12 }}>Received by month</Text>
+          <View style={{ flexDirection: 'row', alignItems: 'flex-end', height: 96, gap: spacing.s4 }}>
+            {months.map(m => (
+              <View key={m.key} style={{ flex: 1, alignItems: 'center', justifyContent: 'flex-end', height: '100%' }}>
+                <View style={{ width: '100%', height: Math.max(2, (m.net / maxMonth) * 72), backgroundColor: m.net > 0 ? successColor : border, borderRadius: radius.sm }} />
+                <Text style={{ color: textMuted, fontSize: 9, marginTop: spacing.s4 }}>{m.label.slice(0, 1)}</Text>
+              </View>
+            ))}
+          </View>
+        </View>
+
+        {/* By holding */}
+        <View>
+          <Text style={{ color: textPrimary, fontWeight: '800', fontSize: 16, marginBottom: spacing.s8 }}>By holding</Text>
+          {projection.rows.length === 0 ? (
+            <View style={{ backgroundColor: cardBg, borderRadius: radius.lg, padding: spacing.s20, alignItems: 'center' }}>
+              <Text style={{ color: textPrimary, fontWeight: '700', fontSize: 15, marginBottom: spacing.s4 }}>No income yet</Text>
+              <Text style={{ color: textMuted, fontSize: 13, textAlign: 'center' }}>
+                Record dividends and interest from a holding's history, or hold something that pays a dividend.
+              </Text>
+            </View>
+          ) : (
+            <View style={{ backgroundColor: cardBg, borderRadius: radius.lg, overflow: 'hidden' }}>
+              {projection.rows.map((r, i) => (
+                <View key={r.symbol}>
+                  <Pressable
+                    onPress={() => nav.navigate('HoldingHistory', { symbol: r.symbol, portfolioId })}
+                    style={({ pressed }) => ({ flexDirection: 'row', alignItems: 'center', paddingHorizontal: spacing.s16, paddingVertical: spacing.s12, opacity: pressed ? 0.7 : 1 })}
+                  >
+                    <View style={{ flex: 1 }}>
+                      <Text style={{ color: textPrimary, fontWeight: '700' }}>{r.symbol}</Text>
+                      <Text style={{ color: textMuted, fontSize: 12 }}>
+                        {r.source === 'yield'
+                          ? `${(r.yield * 100).toFixed(2)}% yield on ${formatCurrency(r.value, base)}`
+                          : r.source === 'trailing'
+                            ? 'Based on the last 12 months'
+                            : 'No yield data'}
+                        {r.trailing > 0 ? ` · ${formatCurrency(r.trailing, base)} received` : ''}
+                      </Text>
+                    </View>
+                    <Text style={{ color: r.annual > 0 ? textPrimary : textMuted, fontWeight: '700' }}>
+                      {formatCurrency(r.annual, base)}
+                    </Text>
+                  </Pressable>
+                  {i < projection.rows.length - 1 ? <View style={{ height: 1, backgroundColor: border, marginHorizontal: spacing.s16 }} /> : null}
+                </View>
+              ))}
+            </View>
+          )}
+          <Text style={{ color: textMuted, fontSize: 12, marginTop: spacing.s8 }}>
+            Projections use each holding's quoted dividend yield and current price, before tax.
+          </Text>
+        </View>
+      </View>
+    </ScreenScroll>
+  );
+}
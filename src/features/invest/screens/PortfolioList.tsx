@@ -17,6 +17,7 @@ import { useInvestStore } from '../store/invest';
 import { formatCurrency } from '../../../lib/format';
 import { formatPrice } from '../../../lib/formatPrice';
 import { convertCurrency } from '../../../lib/fx';
+import { adjustedLots } from '../../../lib/corporateActions';
 import { useProfileStore } from '../../../store/profile';
 
 function withAlpha(color: string, alpha: number) {
@@ -93,9 +94,10 @@ const PortfolioList: React.FC = () => {
       Object.values(p.holdings || {}).forEach((h: any) => {
         const sym = h.symbol;
         if (!aggregatedHoldings[sym]) {
-          aggregatedHoldings[sym] = { ...h, lots: [] };
+          // Lots are pooled already adjusted for corporate actions, so the pool carries none
+          aggregatedHoldings[sym] = { ...h, lots: [], actions: undefined };
         }
-        aggregatedHoldings[sym].lots = aggregatedHoldings[sym].lots.concat(h.lots || []);
+        aggregatedHoldings[sym].lots = aggregatedHoldings[sym].lots.concat(adjustedLots(h));
       });
     });
 
@@ -108,7 +110,7 @@ const PortfolioList: React.FC = () => {
       const q = quotes[sym]?.last || 0;
       const ch = quotes[sym]?.change || 0;
       const changePct = quotes[sym]?.changePct || 0;
-      const qty = (h?.lots || []).reduce(
+      const qty = adjustedLots(h).reduce(
         (acc: number, l: any) => acc + (l.side === 'buy' ? l.qty : -l.qty),
         0
       );
@@ -0,0 +1,191 @@
+import React from 'react';
+import { View, Text, Pressable, TextInput, Switch, Alert } from 'react-native';
+import { useRoute, useNavigation } from '@react-navigation/native';
+import { ScreenScroll } from '../../../components/ScreenScroll';
+import Button from '../../../components/Button';
+import Icon from '../../../components/Icon';
+import { useThemeTokens } from '../../../theme/ThemeProvider';
+import { spacing, radius } from '../../../theme/tokens';
+import { useInvestStore } from '../store/invest';
+import { usePriceAlertsStore } from '../../../store/priceAlerts';
+import { getSettings } from '../../../lib/notifications';
+import { formatPercent } from '../../../lib/format';
+import { ALERT_KINDS, averageCosts, describeAlert, week52Range, type AlertKind } from '../../../lib/priceAlerts';
+
+/** Alert rules for one symbol and the alerts it has fired. */
+export default function PriceAlerts() {
+  const { get } = useThemeTokens();
+  const route = useRoute<any>();
+  const nav = useNavigation<any>();
+  const symbol = String(route.params?.symbol || '').toUpperCase();
+  const { quotes, portfolios } = useInvestStore();
+  const { alerts, history, ready, hydrate, addAlert, updateAlert, removeAlert, clearHistory } = usePriceAlertsStore();
+  const [kind, setKind] = React.useState<AlertKind>('above');
+  const [value, setValue] = React.useState('');
+  const [notifyOn, setNotifyOn] = React.useState(true);
+
+  const textPrimary = get('text.primary') as string;
+  const textMuted = get('text.muted') as string;
+  const cardBg = get('surface.level1') as string;
+  const border = get('border.subtle') as string;
+  const accentPrimary = get('accent.primary') as string;
+  const warningColor = get('semantic.warning') as string;
+
+  React.useEffect(() => {
+    if (!ready) hydrate();
+    getSettings().then(s => setNotifyOn(s.enabled)).catch(() => {});
+  }, [ready]);
+
+  const q = quotes[symbol];
+  const range = week52Range(q);
+  const avgCost = React.useMemo(() => averageCosts(Object.values(portfolios))[symbol], [portfolios, symbol]);
+  const mine = alerts.filter(a => a.symbol === symbol);
+  const events = history.filter(e => e.symbol === symbol);
+  const spec = ALERT_KINDS.find(k => k.key === kind)!;
+
+  const onAdd = async () => {
+    const n = Number(value);
+    if (spec.needsValue && !(n > 0)) {
+      Alert.alert('Enter a value', kind === 'move' ? 'How big a daily move, in percent.' : 'The price to watch for.');
+      return;
+    }
+    if (kind === 'belowCost' && !avgCost) {
+      Alert.alert('Not held', `You don't hold ${symbol} in any portfolio, so there's no average cost to compare with.`);
+      return;
+    }
+    await addAlert(symbol, kind, spec.needsValue ? n : undefined);
+    setValue('');
+  };
+
+  const input = { color: textPrimary, borderWidth: 1, borderColor: border, borderRadius: radius.md, paddingHorizontal: spacing.s12, paddingVertical: spacing.s8 };
+
+  return (
+    <ScreenScroll inTab contentStyle={{ paddingBottom: spacing.s32 }}>
+      <View style={{ paddingHorizontal: spacing.s16, marginTop: spacing.s12, gap: spacing.s16 }}>
+        <View style={{ flexDirection: 'row', alignItems: 'flex-start', gap: spacing.s8 }}>
+          <Pressable
+            onPress={() => nav.goBack()}
+            style={({ pressed }) => ({
+              padding: spacing.s8,
+              marginLeft: -spacing.s8,
+              marginTop: -spacing.s4,
+              borderRadius: radius.md,
+              backgroundColor: pressed ? cardBg : 'transparent',
+            })}
+            hitSlop={8}
+          >
+            <Icon name="chevron-left" size={28} color={textPrimary} />
+          </Pressable>
+          <View style={{ flex: 1 }}>
+            <Text style={{ color: textPrimary, fontSize: 28, fontWeight: '800', letterSpacing: -0.5 }}>{symbol} alerts</Text>
+            <Text style={{ color: textMuted, fontSize: 14, marginTop: spacing.s2 }}>
+              {q?.last ? `Last ${q.last.toFixed(2)} · ${formatPercent(q.changePct || 0)} today` : 'No quote yet'}
+              {range ? ` · 52w ${range.low.toFixed(2)}–${range.high.toFixed(2)}` : ''}
+            </Text>
+          </View>
+        </View>
+
+        {!notifyOn ? (
+          <Text style={{ color: warningColor, fontSize: 13 }}>
+            Notifications are off, so alerts are only listed here. Turn them on in reminder settings.
+          </Text>
+        ) : null}
+
+        {/* New alert */}
+        <View style={{ backgroundColor: cardBg, borderRadius: radius.lg, padding: spacing.s12, gap: spacing.s12 }}>
+          <Text style={{ color: textPrimary, fontWeight: '700' }}>New alert</Text>
+          <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: spacing.s6 }}>
+            {ALERT_KINDS.map(k => (
+              <Pressable
+                key={k.key}
+                onPress={() => setKind(k.key)}
+                style={{
+                  paddingHorizontal: spacing.s12,
+                  paddingVertical: spacing.s6,
+                  borderRadius: radius.pill,
+                  borderWidth: 1,
+                  borderColor: kind === k.key ? accentPrimary : border,
+                }}
+              >
+                <Text style={{ color: kind === k.key ? accentPrimary : textMuted, fontSize: 12, fontWeight: '700' }}>{k.label}</Text>
+              </Pressable>
+            ))}
+          </View>
+          {spec.needsValue ? (
+            <View style={{ flexDirection: 'row', alignItems: 'center', gap: spacing.s8 }}>
+              <TextInput
+                value={value}
+                onChangeText={v => setValue(v.replace(/[^0-9.]/g, ''))}
+                placeholder={kind === 'move' ? '5' : q?.last ? q.last.toFixed(2) : '0.00'}
+                placeholderTextColor={textMuted}
+                keyboardType="decimal-pad"
+                style={[input, { flex: 1 }]}
+              />
+              <Text style={{ color: textMuted }}>{kind === 'move' ? '%' : 'price'}</Text>
+            </View>
+          ) : kind === 'belowCost' ? (
+            <Text style={{ color: textMuted, fontSize: 13 }}>
+              {avgCost ? `Your average cost is ${avgCost.toFixed(2)}.` : `You don't hold ${symbol} yet.`}
+            </Text>
+          ) : null}
+          <Button title="Add alert" icon="bell" size="sm" onPress={onAdd} />
+        </View>
+
+        {/* Rules */}
+        {mine.length > 0 ? (
+          <View style={{ backgroundColor: cardBg, borderRadius: radius.lg, overflow: 'hidden' }}>
+            {mine.map((a, i) => (
+              <View
+                key={a.id}
+                style={{
+                  flexDirection: 'row',
+                  alignItems: 'center',
+                  gap: spacing.s8,
+                  paddingHorizontal: spacing.s12,
+                  paddingVertical: spacing.s10,
+                  borderTopWidth: i ? 1 : 0,
+                  borderTopColor: border,
+                }}
+              >
+                <View style={{ flex: 1 }}>
+                  <Text style={{ color: textPrimary, fontWeight: '700' }}>{describeAlert(a)}</Text>
+                  <Text style={{ color: a.active ? warningColor : textMuted, fontSize: 12 }}>
+                    {a.active ? 'Triggered, waiting to clear' : a.lastTriggeredAt ? `Last fired ${new Date(a.lastTriggeredAt).toLocaleString()}` : 'Not triggered yet'}
+                  </Text>
+                </View>
+                <Switch value={a.enabled} onValueChange={v => updateAlert(a.id, { enabled: v })} />
+                <Pressable onPress={() => removeAlert(a.id)} hitSlop={8} style={{ padding: spacing.s4 }}>
+                  <Icon name="trash" size={18} color={textMuted} />
+                </Pressable>
+              </View>
+            ))}
+          </View>
+        ) : null}
+
+        {/* History */}
+        <View>
+          <View style={{ flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', marginBottom: spacing.s8 }}>
+            <Text style={{ color: textPrimary, fontWeight: '800', fontSize: 16 }}>History</Text>
+            {events.length ? (
+              <Pressable onPress={() => clearHistory(symbol)} hitSlop={8}>
+                <Text style={{ color: accentPrimary, fontSize: 13, fontWeight: '700' }}>Clear</Text>
+              </Pressable>
+            ) : null}
+          </View>
+          {events.length === 0 ? (
+            <Text style={{ color: textMuted, fontSize: 13 }}>Alerts are checked whenever quotes refresh. Fired alerts show up here.</Text>
+          ) : (
+            <View style={{ backgroundColor: cardBg, borderRadius: radius.lg, overflow: 'hidden' }}>
+              {events.map((e, i) => (
+                <View key={e.id} style={{ paddingHorizontal: spacing.s12, paddingVertical: spacing.s10, borderTopWidth: i ? 1 : 0, borderTopColor: border }}>
+                  <Text style={{ color: textPrimary, fontSize: 13 }}>{e.message}</Text>
+                  <Text style={{ color: textMuted, fontSize: 12, marginTop: spacing.s2 }}>{new Date(e.at).toLocaleString()}</Text>
+                </View>
+              ))}
+            </View>
+          )}
+        </View>
+      </View>
+    </ScreenScroll>
+  );
+}
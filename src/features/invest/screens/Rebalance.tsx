@@ -0,0 +1,353 @@
+import React from 'react';
+import { View, Text, Pressable, TextInput, Alert } from 'react-native';
+import { useRoute, useNavigation } from '@react-navigation/native';
+import { ScreenScroll } from '../../../components/ScreenScroll';
+import Button from '../../../components/Button';
+import Icon from '../../../components/Icon';
+import { useThemeTokens } from '../../../theme/ThemeProvider';
+import { spacing, radius } from '../../../theme/tokens';
+import { useInvestStore, type AllocationBasis, type AllocationTargets } from '../store/invest';
+import { formatCurrency } from '../../../lib/format';
+import {
+  ALLOCATION_BASES,
+  DEFAULT_BAND,
+  allocationDrift,
+  bucketLabel,
+  currentWeights,
+  lotSizeFor,
+  proposeRebalance,
+  type RebalanceMode,
+} from '../../../lib/rebalance';
+
+const pctText = (n: number) => String(Math.round(n * 1000) / 10);
+
+/** Target allocation for a portfolio, how far it has drifted, and the trades to bring it back. */
+export default function Rebalance() {
+  const { get } = useThemeTokens();
+  const route = useRoute<any>();
+  const nav = useNavigation<any>();
+  const portfolioId = route.params?.portfolioId as string;
+  const { portfolios, quotes, fxRates, updatePortfolio, addPendingLots, resolvePendingLots, setHoldingLotSize } = useInvestStore();
+  const p = portfolios[portfolioId];
+  const base = String(p?.baseCurrency || 'USD').toUpperCase();
+
+  const textPrimary = get('text.primary') as string;
+  const textMuted = get('text.muted') as string;
+  const cardBg = get('surface.level1') as string;
+  const border = get('border.subtle') as string;
+  const accentPrimary = get('accent.primary') as string;
+  const successColor = get('semantic.success') as string;
+  const warningColor = get('semantic.warning') as string;
+  const dangerColor = get('semantic.danger') as string;
+
+  const saved = p?.targets;
+  const [basis, setBasis] = React.useState<AllocationBasis>(saved?.basis || 'holding');
+  const [draft, setDraft] = React.useState<Record<string, string>>({});
+  const [band, setBand] = React.useState(pctText(saved?.band ?? DEFAULT_BAND));
+  const [mode, setMode] = React.useState<RebalanceMode>('full');
+  const [cashText, setCashText] = React.useState(String(Math.max(0, Number(p?.cash || 0))));
+  const [feeFlat, setFeeFlat] = React.useState('');
+  const [feePct, setFeePct] = React.useState('');
+  const [lotEdit, setLotEdit] = React.useState<{ symbol: string; text: string } | null>(null);
+
+  // Start from the saved targets for this basis, else today's weights
+  React.useEffect(() => {
+    if (!p) return;
+    const weights = saved?.basis === basis ? saved.weights : currentWeights(p, basis, quotes, fxRates);
+    setDraft(Object.fromEntries(Object.entries(weights).map(([k, w]) => [k, pctText(w)])));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [portfolioId, basis, saved]);
+
+  const keys = React.useMemo(() => {
+    if (!p) return [];
+    const held = Object.keys(currentWeights(p, basis, quotes, fxRates));
+    return Array.from(new Set([...Object.keys(draft), ...held])).sort();
+  }, [p, basis, quotes, fxRates, draft]);
+
+  const sum = keys.reduce((s, k) => s + (Number(draft[k]) || 0), 0);
+  const targets: AllocationTargets = React.useMemo(() => ({
+    basis,
+    weights: Object.fromEntries(keys.map(k => [k, (Number(draft[k]) || 0) / 100]).filter(([, w]) => (w as number) > 0)),
+    band: Math.max(0, Number(band) || 0) / 100,
+  }), [basis, keys, draft, band]);
+  const dirty = JSON.stringify(saved || null) !== JSON.stringify(targets);
+
+  const drift = React.useMemo(
+    () => (p ? allocationDrift(p, targets, quotes, fxRates) : { rows: [], invested: 0 }),
+    [p, targets, quotes, fxRates]
+  );
+
+  const proposal = React.useMemo(
+    () => (p && sum > 0 ? proposeRebalance(p, targets, {
+      quotes,
+      fxRates,
+      mode,
+      cash: Number(cashText) || 0,
+      fee: { flat: Number(feeFlat) || 0, pct: (Number(feePct) || 0) / 100 },
+    }) : null),
+    [p, targets, sum, quotes, fxRates, mode, cashText, feeFlat, feePct]
+  );
+
+  const pending = React.useMemo(() => {
+    const out: Array<{ symbol: string; side: string; qty: number; price: number; currency: string }> = [];
+    Object.values(p?.holdings || {}).forEach(h => h.lots.forEach(l => {
+      if (l.pending) out.push({ symbol: h.symbol, side: l.side, qty: l.qty, price: l.price, currency: h.currency || base });
+    }));
+    return out;
+  }, [p, base]);
+
+  if (!p) return null;
+
+  const saveTargets = async () => {
+    if (Math.abs(sum - 100) > 0.05) {
+      Alert.alert('Targets must add up to 100%', `They add up to ${sum.toFixed(1)}% at the moment.`);
+      return;
+    }
+    await updatePortfolio(portfolioId, { targets });
+  };
+
+  const saveLotSize = () => {
+    if (!lotEdit) return;
+    const n = Number(lotEdit.text);
+    setHoldingLotSize(lotEdit.symbol, n > 0 ? n : undefined, { portfolioId });
+    setLotEdit(null);
+  };
+
+  const addAsPending = async () => {
+    if (!proposal?.trades.length) return;
+    try {
+      await addPendingLots(proposal.trades.map(t => {
+        const rate = t.qty * t.price > 0 ? t.value / (t.qty * t.price) : 1;
+        return { symbol: t.symbol, side: t.side, qty: t.qty, price: t.price, fee: rate > 0 ? t.fee / rate : 0 };
+      }), { portfolioId });
+    } catch (e: any) {
+      Alert.alert('Could not add trades', e?.message || String(e));
+    }
+  };
+
+  const input = { color: textPrimary, borderWidth: 1, borderColor: border, borderRadius: radius.md, paddingHorizontal: spacing.s8, paddingVertical: spacing.s6 };
+  const label = { color: textMuted, fontSize: 11, fontWeight: '600' as const, textTransform: 'uppercase' as const, letterSpacing: 0.6 };
+  const chip = (active: boolean) => ({
+    paddingHorizontal: spacing.s12,
+    paddingVertical: spacing.s6,
+    borderRadius: radius.pill,
+    borderWidth: 1,
+    borderColor: active ? accentPrimary : border,
+  });
+
+  return (
+    <ScreenScroll inTab contentStyle={{ paddingBottom: spacing.s32 }}>
+      <View style={{ paddingHorizontal: spacing.s16, marginTop: spacing.s12, gap: spacing.s16 }}>
+        <View style={{ flexDirection: 'row', alignItems: 'flex-start', gap: spacing.s8 }}>
+          <Pressable
+            onPress={() => nav.goBack()}
+            style={({ pressed }) => ({
+              padding: spacing.s8,
+              marginLeft: -spacing.s8,
+              marginTop: -spacing.s4,
+              borderRadius: radius.md,
+              backgroundColor: pressed ? cardBg : 'transparent',
+            })}
+            hitSlop={8}
+          >
+            <Icon name="chevron-left" size={28} color={textPrimary} />
+          </Pressable>
+          <View style={{ flex: 1 }}>
+            <Text style={{ color: textPrimary, fontSize: 28, fontWeight: '800', letterSpacing: -0.5 }}>Rebalance</Text>
+            <Text style={{ color: textMuted, fontSize: 14, marginTop: spacing.s2 }}>{p.name}</Text>
+          </View>
+        </View>
+
+        {/* Targets */}
+        <View style={{ backgroundColor: cardBg, borderRadius: radius.lg, padding: spacing.s12, gap: spacing.s12 }}>
+          <View style={{ flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between' }}>
+            <Text style={{ color: textPrimary, fontWeight: '700' }}>Targets</Text>
+            <View style={{ flexDirection: 'row', gap: spacing.s6 }}>
+              {ALLOCATION_BASES.map(b => (
+                <Pressable key={b.key} onPress={() => setBasis(b.key)} style={chip(basis === b.key)}>
+                  <Text style={{ color: basis === b.key ? accentPrimary : textMuted, fontSize: 12, fontWeight: '700' }}>{b.label}</Text>
+                </Pressable>
+              ))}
+            </View>
+          </View>
+
+          {keys.length === 0 ? (
+            <Text style={{ color: textMuted, fontSize: 13 }}>Add holdings to set a target allocation.</Text>
+          ) : keys.map(k => (
+            <View key={k} style={{ flexDirection: 'row', alignItems: 'center', gap: spacing.s8 }}>
+              <Text style={{ flex: 1, color: textPrimary, fontWeight: '600' }} numberOfLines={1}>{bucketLabel(k, basis)}</Text>
+              <TextInput
+                value={draft[k] ?? ''}
+                onChangeText={v => setDraft(d => ({ ...d, [k]: v.replace(/[^0-9.]/g, '') }))}
+                placeholder="0"
+                placeholderTextColor={textMuted}
+                keyboardType="decimal-pad"
+                style={[input, { width: 72, textAlign: 'right' }]}
+              />
+              <Text style={{ color: textMuted, width: 14 }}>%</Text>
+            </View>
+          ))}
+
+          <View style={{ flexDirection: 'row', alignItems: 'center', gap: spacing.s8 }}>
+            <Text style={{ flex: 1, color: textMuted, fontSize: 13 }}>Rebalance when drift exceeds</Text>
+            <TextInput
+              value={band}
+              onChangeText={v => setBand(v.replace(/[^0-9.]/g, ''))}
+              keyboardType="decimal-pad"
+              style={[input, { width: 72, textAlign: 'right' }]}
+            />
+            <Text style={{ color: textMuted, width: 14 }}>%</Text>
+          </View>
+
+          <View style={{ flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between' }}>
+            <Text style={{ color: Math.abs(sum - 100) > 0.05 ? dangerColor : successColor, fontSize: 13, fontWeight: '700' }}>
+              Total {sum.toFixed(1)}%
+            </Text>
+            <Pressable
+              onPress={() => setDraft(Object.fromEntries(Object.entries(currentWeights(p, basis, quotes, fxRates)).map(([k, w]) => [k, pctText(w)])))}
+              hitSlop={8}
+            >
+              <Text style={{ color: accentPrimary, fontSize: 13, fontWeight: '700' }}>Use current weights</Text>
+            </Pressable>
+          </View>
+
+          <Button title={saved ? 'Save targets' : 'Set targets'} onPress={saveTargets} disabled={!dirty || keys.length === 0} size="sm" />
+        </View>
+
+        {/* Drift */}
+        {sum > 0 && drift.rows.length > 0 ? (
+          <View style={{ backgroundColor: cardBg, borderRadius: radius.lg, padding: spacing.s12, gap: spacing.s12 }}>
+            <View style={{ flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between' }}>
+              <Text style={{ color: textPrimary, fontWeight: '700' }}>Drift</Text>
+              <Text style={{ color: textMuted, fontSize: 12 }}>{formatCurrency(drift.invested, base)} invested</Text>
+            </View>
+            {drift.rows.map(r => (
+              <View key={r.key} style={{ gap: spacing.s4 }}>
+                <View style={{ flexDirection: 'row', justifyContent: 'space-between' }}>
+                  <Text style={{ color: textPrimary, fontWeight: '600' }} numberOfLines={1}>{r.label}</Text>
+                  <Text style={{ color: r.outside ? warningColor : textMuted, fontSize: 12, fontWeight: '700' }}>
+                    {(r.current * 100).toFixed(1)}% / {(r.target * 100).toFixed(1)}% · {r.drift >= 0 ? '+' : '−'}{Math.abs(r.drift * 100).toFixed(1)}
+                  </Text>
+                </View>
+                <View style={{ height: 6, borderRadius: radius.sm, backgroundColor: border, overflow: 'hidden' }}>
+                  <View style={{ width: `${Math.min(100, r.current * 100)}%`, height: '100%', backgroundColor: r.outside ? warningColor : accentPrimary }} />
+                  <View style={{ position: 'absolute', left: `${Math.min(100, r.target * 100)}%`, top: 0, bottom: 0, width: 2, backgroundColor: textPrimary }} />
+                </View>
+              </View>
+            ))}
+          </View>
+        ) : null}
+
+        {/* Proposal */}
+        {proposal ? (
+          <View style={{ backgroundColor: cardBg, borderRadius: radius.lg, padding: spacing.s12, gap: spacing.s12 }}>
+            <View style={{ flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between' }}>
+              <Text style={{ color: textPrimary, fontWeight: '700' }}>Proposed trades</Text>
+              <View style={{ flexDirection: 'row', gap: spacing.s6 }}>
+                {([['full', 'Buy & sell'], ['cash', 'Cash only']] as Array<[RebalanceMode, string]>).map(([m, l]) => (
+                  <Pressable key={m} onPress={() => setMode(m)} style={chip(mode === m)}>
+                    <Text style={{ color: mode === m ? accentPrimary : textMuted, fontSize: 12, fontWeight: '700' }}>{l}</Text>
+                  </Pressable>
+                ))}
+              </View>
+            </View>
+
+            <View style={{ flexDirection: 'row', gap: spacing.s8 }}>
+              <View style={{ flex: 1, gap: spacing.s4 }}>
+                <Text style={label}>Cash ({base})</Text>
+                <TextInput value={cashText} onChangeText={v => setCashText(v.replace(/[^0-9.]/g, ''))} keyboardType="decimal-pad" style={input} />
+              </View>
+              <View style={{ flex: 1, gap: spacing.s4 }}>
+                <Text style={label}>Fee / trade</Text>
+                <TextInput value={feeFlat} onChangeText={v => setFeeFlat(v.replace(/[^0-9.]/g, ''))} placeholder="0" placeholderTextColor={textMuted} keyboardType="decimal-pad" style={input} />
+              </View>
+              <View style={{ flex: 1, gap: spacing.s4 }}>
+                <Text style={label}>Fee %</Text>
+                <TextInput value={feePct} onChangeText={v => setFeePct(v.replace(/[^0-9.]/g, ''))} placeholder="0" placeholderTextColor={textMuted} keyboardType="decimal-pad" style={input} />
+              </View>
+            </View>
+
+            {proposal.trades.length === 0 ? (
+              <Text style={{ color: textMuted, fontSize: 13 }}>
+                {mode === 'cash' ? 'No cash to put to work, or not enough for a whole lot.' : 'Everything is within its band. Nothing to trade.'}
+              </Text>
+            ) : proposal.trades.map(t => {
+              const h = p.holdings[t.symbol];
+              const lot = h ? lotSizeFor(h) : 1;
+              return (
+                <View key={`${t.side}-${t.symbol}`} style={{ flexDirection: 'row', alignItems: 'center', gap: spacing.s8 }}>
+                  <Text style={{ width: 40, color: t.side === 'buy' ? successColor : dangerColor, fontWeight: '800', fontSize: 12 }}>{t.side.toUpperCase()}</Text>
+                  <View style={{ flex: 1 }}>
+                    <Text style={{ color: textPrimary, fontWeight: '700' }}>{t.qty} {t.symbol}</Text>
+                    {lotEdit?.symbol === t.symbol ? (
+                      <View style={{ flexDirection: 'row', alignItems: 'center', gap: spacing.s6, marginTop: spacing.s4 }}>
+                        <Text style={{ color: textMuted, fontSize: 12 }}>Lot size</Text>
+                        <TextInput
+                          value={lotEdit.text}
+                          onChangeText={v => setLotEdit({ symbol: t.symbol, text: v.replace(/[^0-9.]/g, '') })}
+                          onSubmitEditing={saveLotSize}
+                          onBlur={saveLotSize}
+                          placeholder="Default"
+                          placeholderTextColor={textMuted}
+                          keyboardType="decimal-pad"
+                          autoFocus
+                          style={[input, { width: 80, paddingVertical: spacing.s4 }]}
+                        />
+                      </View>
+                    ) : (
+                      <Pressable onPress={() => setLotEdit({ symbol: t.symbol, text: h?.lotSize ? String(h.lotSize) : '' })} hitSlop={6}>
+                        <Text style={{ color: textMuted, fontSize: 12 }}>
+                          @ {formatCurrency(t.price, t.currency)} · lots of {lot || 'any'}
+                        </Text>
+                      </Pressable>
+                    )}
+                  </View>
+                  <View style={{ alignItems: 'flex-end' }}>
+                    <Text style={{ color: textPrimary, fontWeight: '700' }}>{formatCurrency(t.value, base)}</Text>
+                    {t.fee > 0 ? <Text style={{ color: textMuted, fontSize: 12 }}>{formatCurrency(t.fee, base)} fee</Text> : null}
+                  </View>
+                </View>
+              );
+            })}
+
+            {proposal.warnings.map(w => (
+              <Text key={w} style={{ color: warningColor, fontSize: 12 }}>{w}</Text>
+            ))}
+
+            <Text style={{ color: textMuted, fontSize: 12 }}>
+              Cash {formatCurrency(proposal.cashBefore, base)} → {formatCurrency(proposal.cashAfter, base)}
+              {proposal.fees > 0 ? ` · ${formatCurrency(proposal.fees, base)} in fees` : ''}
+            </Text>
+
+            <Button
+              title="Add as pending lots"
+              icon="check"
+              onPress={addAsPending}
+              disabled={!proposal.trades.length}
+              size="sm"
+            />
+          </View>
+        ) : null}
+
+        {/* Pending */}
+        {pending.length > 0 ? (
+          <View style={{ backgroundColor: cardBg, borderRadius: radius.lg, padding: spacing.s12, gap: spacing.s8 }}>
+            <Text style={{ color: textPrimary, fontWeight: '700' }}>Pending</Text>
+            <Text style={{ color: textMuted, fontSize: 12 }}>
+              Left out of holdings until marked as traded. Confirm each one from the holding's history, or all at once.
+            </Text>
+            {pending.map((l, i) => (
+              <Text key={`${l.symbol}-${i}`} style={{ color: textPrimary, fontSize: 13 }}>
+                {l.side === 'buy' ? 'Buy' : 'Sell'} {l.qty} {l.symbol} @ {formatCurrency(l.price, l.currency)}
+              </Text>
+            ))}
+            <View style={{ flexDirection: 'row', gap: spacing.s8, marginTop: spacing.s4 }}>
+              <Button title="Discard all" variant="secondary" size="sm" style={{ flex: 1 }} onPress={() => resolvePendingLots('discard', { portfolioId })} />
+              <Button title="Mark all traded" size="sm" style={{ flex: 1 }} onPress={() => resolvePendingLots('confirm', { portfolioId })} />
+            </View>
+          </View>
+        ) : null}
+      </View>
+    </ScreenScroll>
+  );
+}
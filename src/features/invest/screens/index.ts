@@ -4,8 +4,12 @@ export { default as InvestmentsList } from './InvestmentsList';
 export { default as AddLot } from './AddLot';
 export { default as CreatePortfolio } from './CreatePortfolio';
 export { default as DCAPlanner } from './DCAPlanner';
+export { default as DCAPlans } from './DCAPlans';
 export { default as EditLot } from './EditLot';
 export { default as EditWatchlist } from './EditWatchlist';
 export { default as PortfolioDetail } from './PortfolioDetail';
 export { default as PortfolioList } from './PortfolioList';
 export { default as HoldingHistory } from './HoldingHistory';
+export { default as PortfolioIncome } from './PortfolioIncome';
+export { default as Rebalance } from './Rebalance';
+export { default as PriceAlerts } from './PriceAlerts';
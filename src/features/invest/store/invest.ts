@@ -1,14 +1,17 @@
 
 import { create } from 'zustand';
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { fetchDailyHistoryYahoo, fetchYahooFundamentals } from '../../../lib/yahoo';
-import { fetchHistoricalWithCache, fetchPriceWithCache, clearInvestmentCache } from '../../../lib/yahoo-cache';
-import { fetchDailyHistoryFMP, fetchFMPFundamentals, fetchFMPBatchQuotes, setFMPApiKey } from '../../../lib/fmp';
+import { clearInvestmentCache } from '../../../lib/yahoo-cache';
+import { setFMPApiKey } from '../../../lib/fmp';
 import { setFinnhubApiKey } from '../../../lib/finnhub';
-import { isCryptoSymbol, fetchYahooCrypto, baseCryptoSymbol, fetchYahooCryptoOhlc } from '../../../lib/yahoo-crypto';
-import { fetchFxUSD, type FxRates } from '../../../lib/fx';
+import { fetchQuoteFromChain, getProviderHealth, providerChain, type LiveProviderId, type ProviderHealth } from '../../../lib/quoteProviders';
+import { fetchFxUSD, convertCurrency, type FxRates } from '../../../lib/fx';
 import { computePnL } from '../../../lib/positions';
+import { adjustedLots, separateMerged } from '../../../lib/corporateActions';
 import { fixHoldingsCurrency } from '../../../lib/fixHoldingsCurrency';
+import { ensureDatabase } from '../../../db/bootstrap';
+import { listPortfolios, savePortfolios, savePortfolioOrder } from '../../../db/repositories/invest';
+import { getCachedQuotes, saveCachedQuotes } from '../../../db/repositories/quotes';
 
 export type InstrumentType = 'stock' | 'bond' | 'crypto' | 'fund' | 'etf';
 
@@ -19,14 +22,52 @@ export type Lot = {
   price: number;         // price in instrument currency
   fee?: number;
   date: string;          // ISO
+  matches?: Array<{ lotId: string; qty: number }>; // sells: buy lots closed, under specific-lot identification
+  symbol?: string;       // ticker it was traded under, once the holding has been renamed or merged
+  pending?: boolean;     // proposed (e.g. by a rebalance) but not traded yet; adjustedLots() leaves it out
 };
 
+export type IncomeKind = 'dividend' | 'interest' | 'distribution';
+
+export type IncomeEvent = {
+  id: string;
+  kind: IncomeKind;
+  amount: number;        // gross, in instrument currency
+  withholding?: number;  // tax withheld at source
+  lotId?: string;        // set when reinvested (DRIP): the buy lot the net amount bought
+  note?: string;
+  date: string;          // ISO
+};
+
+export type CorporateActionKind = 'split' | 'rename' | 'merger';
+
+/**
+ * A split, ticker change or merger. Stored lots keep the quantities and prices
+ * they were traded at; lots dated before `date` are adjusted when read.
+ */
+export type CorporateAction = {
+  id: string;
+  kind: CorporateActionKind;
+  symbol: string;        // ticker the action applied to
+  toSymbol?: string;     // rename/merger: the ticker the shares became
+  ratio?: number;        // split/merger: new shares per old share (10 for 10:1, 0.1 for a 1:10 reverse split)
+  cashInLieu?: number;   // cash paid for the fractional share left over
+  note?: string;
+  date: string;          // ISO, effective date
+};
+
+/** How sells pick the buy lots they close. Average cost is the default. */
+export type CostMethod = 'fifo' | 'lifo' | 'hifo' | 'average' | 'specific';
+
 export type Holding = {
   symbol: string;
   name: string;
   type: InstrumentType;
   currency: string;
-  lots: Lot[]; // FIFO assumed for realized PnL elsewhere
+  lots: Lot[]; // matched to sells by the portfolio's costMethod; read through adjustedLots()
+  income?: IncomeEvent[];
+  actions?: CorporateAction[];
+  lotSize?: number;      // trading unit, e.g. 100 for an SGX board lot; see lotSizeFor()
   archived?: boolean;
 };
 
@@ -37,6 +78,8 @@ export type Quote = {
   changePct: number;
   ts: number;
   line: Array<{ t: number; v: number }>; // sparkline / chart
+  source?: string;      // id of the quote provider it came from
+  stale?: boolean;      // no live provider could refresh it; shown as of `ts`
   bars?: Array<{ t: number; o: number; h: number; l: number; c: number; v: number }>;
   fundamentals?: {
     companyName?: string;
@@ -48,7 +91,7 @@ export type Quote = {
     peRatio?: number;
     forwardPE?: number;
     eps?: number;
-    dividendYield?: number;
+    dividendYield?: number; // fraction, e.g. 0.0052 for 0.52%
     beta?: number;
     week52High?: number;
     week52Low?: number;
@@ -62,6 +105,15 @@ export type Quote = {
   };
 };
 
+/** Targets by holding symbol, instrument type or sector. */
+export type AllocationBasis = 'holding' | 'type' | 'sector';
+
+export type AllocationTargets = {
+  basis: AllocationBasis;
+  weights: Record<string, number>; // fractions adding up to 1, keyed by symbol, InstrumentType or sector
+  band?: number;                   // drift (as a fraction) tolerated before a rebalance trades
+};
+
 export type Portfolio = {
   id: string;
   name: string;
@@ -71,6 +123,8 @@ export type Portfolio = {
   holdings: Record<string, Holding>;
   holdingsOrder?: string[];
   type?: 'Live' | 'Paper';
+  costMethod?: CostMethod; // defaults to 'average'
+  targets?: AllocationTargets;
   archived?: boolean;
   trackingEnabled?: boolean; // if false, exclude from total portfolio tracking
   cash?: number;          // cash balance in baseCurrency
@@ -97,6 +151,7 @@ type State = {
   refreshing: boolean;
   error?: string;
   fxRates?: FxRates;
+  providerHealth: Record<string, ProviderHealth>; // as of the last refresh
 
   // lifecycle
   hydrate: () => Promise<void>;
@@ -104,9 +159,9 @@ type State = {
   refreshFx: () => Promise<void>;
 
   // portfolio ops
-  createPortfolio: (name: string, baseCurrency: string, opts?: { benchmark?: string, seedFromActive?: boolean, type?: 'Live'|'Paper' }) => Promise<string>;
+  createPortfolio: (name: string, baseCurrency: string, opts?: { benchmark?: string, seedFromActive?: boolean, type?: 'Live'|'Paper', costMethod?: CostMethod }) => Promise<string>;
   renamePortfolio: (id: string, name: string) => Promise<void>;
-  updatePortfolio: (id: string, updates: Partial<Pick<Portfolio, 'name' | 'baseCurrency' | 'benchmark' | 'type'>>) => Promise<void>;
+  updatePortfolio: (id: string, updates: Partial<Pick<Portfolio, 'name' | 'baseCurrency' | 'benchmark' | 'type' | 'costMethod' | 'targets'>>) => Promise<void>;
   setActivePortfolio: (id: string) => Promise<void>;
   archivePortfolio: (id: string) => Promise<void>;
   setPortfolioArchived: (id: string, archived: boolean) => Promise<void>;
@@ -122,6 +177,14 @@ type State = {
   addLot: (symbol: string, lot: Omit<Lot,'id'>, meta: { name: string; type: InstrumentType; currency: string }, opts?: { portfolioId?: string }) => Promise<void>;
   updateLot: (symbol: string, lotId: string, patch: Partial<Lot>, opts?: { portfolioId?: string }) => Promise<void>;
   removeLot: (symbol: string, lotId: string, opts?: { portfolioId?: string }) => Promise<void>;
+  addPendingLots: (trades: Array<{ symbol: string; side: Lot['side']; qty: number; price: number; fee?: number }>, opts?: { portfolioId?: string }) => Promise<void>;
+  resolvePendingLots: (action: 'confirm' | 'discard', opts?: { portfolioId?: string; lotIds?: string[] }) => Promise<void>; // all pending lots unless lotIds; confirming dates them today
+  setHoldingLotSize: (symbol: string, lotSize: number | undefined, opts?: { portfolioId?: string }) => Promise<void>;
+  // reinvestPrice buys shares with the net amount (DRIP); otherwise affectCash credits it to the portfolio
+  addIncome: (symbol: string, event: Omit<IncomeEvent, 'id' | 'lotId'>, opts?: { portfolioId?: string; reinvestPrice?: number; affectCash?: boolean }) => Promise<void>;
+  removeIncome: (symbol: string, incomeId: string, opts?: { portfolioId?: string }) => Promise<void>; // also removes its DRIP lot
+  addCorporateAction: (symbol: string, action: Omit<CorporateAction, 'id' | 'symbol'>, opts?: { portfolioId?: string; name?: string }) => Promise<string>; // resolves to the holding's symbol afterwards
+  removeCorporateAction: (symbol: string, actionId: string, opts?: { portfolioId?: string }) => Promise<string>; // resolves to the holding's symbol afterwards
   removeHolding: (symbol: string, opts?: { portfolioId?: string }) => Promise<void>;
   setHoldingsArchived: (args: { portfolioId?: string; symbols: string[]; archived: boolean }) => Promise<void>;
   setHoldingsOrder: (portfolioId: string, order: string[]) => Promise<void>;
@@ -143,8 +206,11 @@ type State = {
   allSymbols: () => string[];
 };
 
-const KEY_V1 = 'fingrow:invest:v1';
-const KEY_V2 = 'fingrow:invest:v2';
+const ACTIVE_KEY = 'fingrow:invest:active';
+
+// Last persisted snapshot, used by persist() to write only what changed
+let lastSaved: Record<string, Portfolio> = {};
+let lastOrder: string[] = [];
 
 // small demo quote generator (client-only); replace with real API later
 function genDemoLine(base: number): Array<{ t: number; v: number }> {
@@ -184,6 +250,7 @@ export const useInvestStore = create<State>((set, get) => ({
   fxRates: undefined,
   refreshing: false,
   error: undefined,
+  providerHealth: {},
 
   activePortfolio: () => {
     const { activePortfolioId, portfolios } = get();
@@ -232,83 +299,13 @@ export const useInvestStore = create<State>((set, get) => ({
 
   hydrate: async () => {
     try {
-      // Try v2
-      const raw2 = await AsyncStorage.getItem(KEY_V2);
-      if (raw2) {
-        const parsed = JSON.parse(raw2);
-
-        // Migration: Fix holdings currency metadata
-        const portfolios = parsed.portfolios || {};
-        const needsMigration = Object.values(portfolios).some((p: any) => {
-          return Object.values(p?.holdings || {}).some((h: any) => {
-            // Check if holding has wrong currency (e.g., AAPL with SGD)
-            const symbol = h?.symbol;
-            const currency = h?.currency;
-            if (!symbol || !currency) return false;
-
-            // Quick check: US stocks should be USD
-            if (!symbol.includes('.') && !symbol.includes('-') && currency !== 'USD') {
-              return true;
-            }
-            return false;
-          });
-        });
-
-        let fixedPortfolios = portfolios;
-        if (needsMigration) {
-          console.log('🔧 [Invest Store] Migrating holdings currency metadata...');
-          fixedPortfolios = fixHoldingsCurrency(portfolios);
-        }
+      await ensureDatabase();
+      const stored = await listPortfolios();
+      const activeId = await AsyncStorage.getItem(ACTIVE_KEY);
+      lastSaved = { ...stored.portfolios };
+      lastOrder = stored.order;
 
-        // Ensure all portfolios have trackingEnabled field (default to true for existing portfolios)
-        let needsTrackingMigration = false;
-        Object.keys(fixedPortfolios).forEach(id => {
-          if (fixedPortfolios[id].trackingEnabled === undefined) {
-            fixedPortfolios[id] = { ...fixedPortfolios[id], trackingEnabled: true };
-            needsTrackingMigration = true;
-          }
-        });
-
-        if (needsMigration || needsTrackingMigration) {
-          // Save the fixed data
-          await AsyncStorage.setItem(KEY_V2, JSON.stringify({
-            portfolios: fixedPortfolios,
-            portfolioOrder: parsed.portfolioOrder || Object.keys(fixedPortfolios),
-            activePortfolioId: parsed.activePortfolioId || null
-          }));
-        }
-
-        set({
-          portfolios: fixedPortfolios,
-          portfolioOrder: parsed.portfolioOrder || Object.keys(fixedPortfolios),
-          activePortfolioId: parsed.activePortfolioId || null,
-        });
-        (get() as any)._syncMirrors();
-        set({ ready: true });
-        return;
-      }
-      // Fallback: migrate from v1
-      const raw1 = await AsyncStorage.getItem(KEY_V1);
-      if (raw1) {
-        const parsed = JSON.parse(raw1);
-        const defaultId = 'pf-' + Math.random().toString(36).slice(2, 8);
-        const portfolio: Portfolio = {
-          id: defaultId,
-          name: 'My Portfolio',
-          baseCurrency: 'SGD',
-          benchmark: 'SPY',
-          watchlist: parsed.watchlist || [],
-          holdings: parsed.holdings || {},
-          type: 'Live',
-          cash: 0,
-          cashEvents: [],
-          createdAt: new Date().toISOString(),
-        };
-        const portfolios: Record<string, Portfolio> = { [defaultId]: portfolio };
-        set({ portfolios, portfolioOrder: [defaultId], activePortfolioId: defaultId });
-        (get() as any)._syncMirrors();
-        await AsyncStorage.setItem(KEY_V2, JSON.stringify({ portfolios, portfolioOrder: [defaultId], activePortfolioId: defaultId }));
-      } else {
+      if (Object.keys(stored.portfolios).length === 0) {
         // Fresh start: seed with empty default
         const defaultId = 'pf-' + Math.random().toString(36).slice(2, 8);
         const portfolio: Portfolio = {
@@ -326,22 +323,65 @@ export const useInvestStore = create<State>((set, get) => ({
         const portfolios: Record<string, Portfolio> = { [defaultId]: portfolio };
         set({ portfolios, portfolioOrder: [defaultId], activePortfolioId: defaultId });
         (get() as any)._syncMirrors();
-        await AsyncStorage.setItem(KEY_V2, JSON.stringify({ portfolios, portfolioOrder: [defaultId], activePortfolioId: defaultId }));
+        await (get() as any).persist();
+        return;
+      }
+
+      // Migration: Fix holdings currency metadata
+      const portfolios = stored.portfolios;
+      const needsMigration = Object.values(portfolios).some((p: any) => {
+        return Object.values(p?.holdings || {}).some((h: any) => {
+          // Check if holding has wrong currency (e.g., AAPL with SGD)
+          const symbol = h?.symbol;
+          const currency = h?.currency;
+          if (!symbol || !currency) return false;
+
+          // Quick check: US stocks should be USD
+          if (!symbol.includes('.') && !symbol.includes('-') && currency !== 'USD') {
+            return true;
+          }
+          return false;
+        });
+      });
+
+      let fixedPortfolios = portfolios;
+      if (needsMigration) {
+        console.log('🔧 [Invest Store] Migrating holdings currency metadata...');
+        fixedPortfolios = fixHoldingsCurrency(portfolios);
       }
+
+      const order = stored.order.length ? stored.order : Object.keys(fixedPortfolios).filter(id => !fixedPortfolios[id].archived);
+      set({
+        portfolios: fixedPortfolios,
+        portfolioOrder: order,
+        activePortfolioId: activeId && fixedPortfolios[activeId] ? activeId : (order[0] || null),
+      });
+      (get() as any)._syncMirrors();
+
+      // Last saved prices, so holdings show values (marked stale) before the first refresh lands
+      try {
+        const cached = await getCachedQuotes((get() as any).allSymbols());
+        const stale = Object.fromEntries(Object.entries(cached).map(([sym, q]) => [sym, { ...q, source: 'cache', stale: true }]));
+        set({ quotes: { ...stale, ...get().quotes } });
+      } catch (e) {
+        console.warn('[Invest Store] Could not load saved quotes:', e);
+      }
+      set({ ready: true });
+
+      // Saves only the portfolios the fix-ups replaced
+      await (get() as any).persist();
     } catch (e) {
-      // ignore
+      console.error('[Invest Store] Failed to load portfolios:', e);
     } finally {
       set({ ready: true });
 
       // Initialize API keys on startup
       try {
-        const { useProfileStore } = await import('./profile');
+        const { useProfileStore } = await import('../../../store/profile');
         const profile = useProfileStore.getState().profile;
-        if (profile.dataSource === 'fmp' && profile.fmpApiKey) {
-          setFMPApiKey(profile.fmpApiKey);
-        } else if (profile.dataSource === 'finnhub' && profile.finnhubApiKey) {
-          setFinnhubApiKey(profile.finnhubApiKey);
-        }
+        // Both keys, since either source may be a fallback
+        if (profile.fmpApiKey) setFMPApiKey(profile.fmpApiKey);
+        if (profile.finnhubApiKey) setFinnhubApiKey(profile.finnhubApiKey);
       } catch (e) {
         console.warn('[Invest Store] Failed to initialize API keys:', e);
       }
@@ -349,8 +389,18 @@ export const useInvestStore = create<State>((set, get) => ({
   },
 
   persist: async () => {
-    const { portfolios, portfolioOrder, activePortfolioId } = get() as any;
-    await AsyncStorage.setItem(KEY_V2, JSON.stringify({ portfolios, portfolioOrder, activePortfolioId }));
+    const { portfolios, portfolioOrder, activePortfolioId } = get();
+    // Portfolios are replaced immutably on change, so identity tells us what to write
+    const changed = Object.values(portfolios).filter(p => lastSaved[p.id] !== p);
+    const removed = Object.keys(lastSaved).filter(id => !portfolios[id]);
+    const orderChanged = portfolioOrder.join('|') !== lastOrder.join('|');
+    lastSaved = { ...portfolios };
+    lastOrder = portfolioOrder;
+
+    await savePortfolios(changed, portfolioOrder, removed);
+    if (orderChanged) await savePortfolioOrder(portfolioOrder);
+    if (activePortfolioId) await AsyncStorage.setItem(ACTIVE_KEY, activePortfolioId);
+    else await AsyncStorage.removeItem(ACTIVE_KEY);
   },
 
   createPortfolio: async (name, baseCurrency, opts) => {
@@ -362,6 +412,7 @@ export const useInvestStore = create<State>((set, get) => ({
       id, name, baseCurrency,
       benchmark: opts?.benchmark || 'SPY',
       type: opts?.type || 'Live',
+      ...(opts?.costMethod ? { costMethod: opts.costMethod } : {}),
       trackingEnabled: true, // Default to enabled
       holdings: seed.holdings,
       watchlist: seed.watchlist,
@@ -597,7 +648,7 @@ addLot: async (symbol, lot, meta, opts) => {
     const holdings = { ...(p?.holdings || {}) };
     if (!holdings[symbol]) return;
     holdings[symbol] = { ...holdings[symbol], lots: holdings[symbol].lots.filter((l:any)=> l.id !== lotId) };
-    if (holdings[symbol].lots.length === 0) {
+    if (holdings[symbol].lots.length === 0 && !holdings[symbol].income?.length) {
       delete holdings[symbol];
     }
     portfolios[pid] = { ...p, holdings, updatedAt: new Date().toISOString() };
@@ -605,6 +656,205 @@ addLot: async (symbol, lot, meta, opts) => {
     (get() as any)._syncMirrors();
     await (get() as any).persist();
   },
+  addPendingLots: async (trades, opts) => {
+    const pid = opts?.portfolioId || get().activePortfolioId;
+    if (!pid) return;
+    const portfolios = { ...get().portfolios };
+    const p = portfolios[pid];
+    if (!p) return;
+    const holdings = { ...p.holdings };
+    const date = new Date().toISOString();
+    for (const t of trades) {
+      const h = holdings[t.symbol];
+      if (!h) throw new Error(`${t.symbol} is not in this portfolio`);
+      const lot: Lot = { id: Math.random().toString(36).slice(2), side: t.side, qty: t.qty, price: t.price, date, pending: true };
+      if (t.fee) lot.fee = t.fee;
+      holdings[t.symbol] = { ...h, lots: [...h.lots, lot] };
+    }
+    portfolios[pid] = { ...p, holdings, updatedAt: date };
+    set({ portfolios });
+    (get() as any)._syncMirrors();
+    await (get() as any).persist();
+  },
+
+  resolvePendingLots: async (action, opts) => {
+    const pid = opts?.portfolioId || get().activePortfolioId;
+    if (!pid) return;
+    const portfolios = { ...get().portfolios };
+    const p = portfolios[pid];
+    if (!p) return;
+    const picked = (l: Lot) => !!l.pending && (!opts?.lotIds || opts.lotIds.includes(l.id));
+    const date = new Date().toISOString();
+    const holdings: Record<string, Holding> = {};
+    for (const [sym, h] of Object.entries(p.holdings || {})) {
+      if (!h.lots.some(picked)) { holdings[sym] = h; continue; }
+      const lots = action === 'discard'
+        ? h.lots.filter(l => !picked(l))
+        : h.lots.map(l => {
+            if (!picked(l)) return l;
+            const { pending, ...rest } = l;
+            return { ...rest, date };
+          });
+      holdings[sym] = { ...h, lots };
+    }
+    portfolios[pid] = { ...p, holdings, updatedAt: date };
+    set({ portfolios });
+    (get() as any)._syncMirrors();
+    await (get() as any).persist();
+  },
+
+  setHoldingLotSize: async (symbol, lotSize, opts) => {
+    const pid = opts?.portfolioId || get().activePortfolioId;
+    if (!pid) return;
+    const portfolios = { ...get().portfolios };
+    const p = portfolios[pid];
+    const h = p?.holdings?.[symbol];
+    if (!h) return;
+    const { lotSize: _old, ...rest } = h;
+    const next = Number(lotSize) > 0 ? { ...rest, lotSize: Number(lotSize) } : rest;
+    portfolios[pid] = { ...p, holdings: { ...p.holdings, [symbol]: next }, updatedAt: new Date().toISOString() };
+    set({ portfolios });
+    (get() as any)._syncMirrors();
+    await (get() as any).persist();
+  },
+  addIncome: async (symbol, event, opts) => {
+    const pid = opts?.portfolioId || get().activePortfolioId;
+    if (!pid) return;
+    const portfolios = { ...get().portfolios };
+    const p = portfolios[pid];
+    const h = p?.holdings?.[symbol];
+    if (!h) return;
+    const net = Number(event.amount || 0) - Number(event.withholding || 0);
+    const id = Math.random().toString(36).slice(2);
+    const entry: IncomeEvent = { ...event, id };
+    let lots = h.lots;
+    const reinvestPrice = Number(opts?.reinvestPrice || 0);
+    if (reinvestPrice > 0 && net > 0) {
+      const lotId = Math.random().toString(36).slice(2);
+      lots = [...lots, { id: lotId, side: 'buy', qty: net / reinvestPrice, price: reinvestPrice, date: event.date }];
+      entry.lotId = lotId;
+    }
+    const holdings = { ...p.holdings, [symbol]: { ...h, lots, income: [...(h.income || []), entry] } };
+    let cash = p.cash;
+    if (!entry.lotId && opts?.affectCash && net) {
+      const credit = convertCurrency(get().fxRates, net, (h.currency || 'USD').toUpperCase(), (p.baseCurrency || 'USD').toUpperCase());
+      cash = Number((Number(p.cash || 0) + credit).toFixed(2));
+    }
+    portfolios[pid] = { ...p, holdings, cash, updatedAt: new Date().toISOString() };
+    set({ portfolios });
+    (get() as any)._syncMirrors();
+    await (get() as any).persist();
+  },
+
+  removeIncome: async (symbol, incomeId, opts) => {
+    const pid = opts?.portfolioId || get().activePortfolioId;
+    if (!pid) return;
+    const portfolios = { ...get().portfolios };
+    const p = portfolios[pid];
+    const h = p?.holdings?.[symbol];
+    const entry = h?.income?.find(e => e.id === incomeId);
+    if (!h || !entry) return;
+    const holdings = {
+      ...p.holdings,
+      [symbol]: {
+        ...h,
+        lots: entry.lotId ? h.lots.filter(l => l.id !== entry.lotId) : h.lots,
+        income: (h.income || []).filter(e => e.id !== incomeId),
+      },
+    };
+    portfolios[pid] = { ...p, holdings, updatedAt: new Date().toISOString() };
+    set({ portfolios });
+    (get() as any)._syncMirrors();
+    await (get() as any).persist();
+  },
+
+  addCorporateAction: async (symbol, action, opts) => {
+    const pid = opts?.portfolioId || get().activePortfolioId;
+    if (!pid) return symbol;
+    const portfolios = { ...get().portfolios };
+    const p = portfolios[pid];
+    const h = p?.holdings?.[symbol];
+    if (!h) return symbol;
+    const entry: CorporateAction = { ...action, id: Math.random().toString(36).slice(2), symbol };
+    const holdings = { ...p.holdings };
+    let holdingsOrder = p.holdingsOrder;
+    let next = symbol;
+
+    if (entry.kind === 'split') {
+      if (!(Number(entry.ratio) > 0)) throw new Error('Enter a split ratio');
+      holdings[symbol] = { ...h, actions: [...(h.actions || []), entry] };
+    } else {
+      const to = String(entry.toSymbol || '').trim().toUpperCase();
+      if (!to || to === symbol) throw new Error('Enter the symbol the shares became');
+      if (entry.kind === 'merger' && !(Number(entry.ratio) > 0)) throw new Error('Enter how many new shares each old share became');
+      entry.toSymbol = to;
+      // Lots remember the ticker they were traded under, so the history stays readable
+      const lots = h.lots.map(l => (l.symbol ? l : { ...l, symbol }));
+      const actions = [...(h.actions || []), entry];
+      const target = holdings[to];
+      holdings[to] = target
+        ? {
+            ...target,
+            lots: [...target.lots, ...lots],
+            income: [...(target.income || []), ...(h.income || [])],
+            actions: [...(target.actions || []), ...actions],
+          }
+        : { ...h, symbol: to, name: entry.kind === 'rename' ? h.name : (opts?.name || to), lots, actions };
+      delete holdings[symbol];
+      if (holdingsOrder) {
+        holdingsOrder = target ? holdingsOrder.filter(s => s !== symbol) : holdingsOrder.map(s => (s === symbol ? to : s));
+      }
+      next = to;
+    }
+    portfolios[pid] = { ...p, holdings, holdingsOrder, updatedAt: new Date().toISOString() };
+    set({ portfolios });
+    (get() as any)._syncMirrors();
+    await (get() as any).persist();
+    return next;
+  },
+
+  removeCorporateAction: async (symbol, actionId, opts) => {
+    const pid = opts?.portfolioId || get().activePortfolioId;
+    if (!pid) return symbol;
+    const portfolios = { ...get().portfolios };
+    const p = portfolios[pid];
+    const h = p?.holdings?.[symbol];
+    const entry = h?.actions?.find(a => a.id === actionId);
+    if (!h || !entry) return symbol;
+    const holdings = { ...p.holdings };
+    let holdingsOrder = p.holdingsOrder;
+    let next = symbol;
+
+    if (entry.kind === 'split') {
+      holdings[symbol] = { ...h, actions: (h.actions || []).filter(a => a.id !== actionId) };
+    } else {
+      // Split the shares that came in through the rename or merger back out
+      const { back, rest } = separateMerged(h, entry);
+      const existing = holdings[entry.symbol];
+      holdings[entry.symbol] = existing
+        ? {
+            ...existing,
+            lots: [...existing.lots, ...back.lots],
+            income: [...(existing.income || []), ...(back.income || [])],
+            actions: [...(existing.actions || []), ...(back.actions || [])],
+          }
+        : { ...h, symbol: entry.symbol, name: entry.kind === 'rename' ? h.name : entry.symbol, ...back };
+      if (rest.lots.length || rest.income?.length) {
+        holdings[symbol] = { ...h, ...rest };
+        if (holdingsOrder && !existing) holdingsOrder = [...holdingsOrder, entry.symbol];
+      } else {
+        delete holdings[symbol];
+        if (holdingsOrder) holdingsOrder = holdingsOrder.map(s => (s === symbol ? entry.symbol : s));
+        next = entry.symbol;
+      }
+    }
+    portfolios[pid] = { ...p, holdings, holdingsOrder, updatedAt: new Date().toISOString() };
+    set({ portfolios });
+    (get() as any)._syncMirrors();
+    await (get() as any).persist();
+    return next;
+  },
+
   moveHoldingBetweenPortfolios: async ({ symbol, fromId, toId, mode }) => {
     const s: any = get();
     if (!symbol || !fromId || !toId || fromId === toId) return;
@@ -617,8 +867,8 @@ addLot: async (symbol, lot, meta, opts) => {
     const srcH = sh[symbol];
     if (!srcH || !Array.isArray(srcH.lots) || srcH.lots.length === 0) return;
     if (mode === 'aggregate') {
-      // aggregate qty & average price into one lot
-      const lots = srcH.lots;
+      // aggregate qty & average price into one lot, in today's shares
+      const lots = adjustedLots(srcH);
       let qty = 0, cost = 0;
       for (const l of lots) {
         if (l.side === 'buy') { qty += l.qty; cost += l.qty * l.price + (l.fee || 0); }
@@ -633,11 +883,15 @@ addLot: async (symbol, lot, meta, opts) => {
       const newLot = { id: 'lot-'+Math.random().toString(36).slice(2,8), side: 'buy', qty, price: Number(avg.toFixed(6)), date: new Date().toISOString() };
       const destH = dh[symbol] || { symbol, name: srcH.name, type: srcH.type, currency: srcH.currency, lots: [] };
       destH.lots = [...(destH.lots || []), newLot];
+      // DRIP lots were folded into the aggregate, so income no longer points at them
+      if (srcH.income?.length) destH.income = [...(destH.income || []), ...srcH.income.map(({ lotId, ...e }) => e)];
       dh[symbol] = destH;
     } else {
       // move all lots 1:1 (default)
       const destH = dh[symbol] || { symbol, name: srcH.name, type: srcH.type, currency: srcH.currency, lots: [] };
       destH.lots = [...(destH.lots || []), ...srcH.lots];
+      if (srcH.income?.length) destH.income = [...(destH.income || []), ...srcH.income];
+      if (srcH.actions?.length) destH.actions = [...(destH.actions || []), ...srcH.actions];
       dh[symbol] = destH;
     }
     // remove from source
@@ -699,195 +953,54 @@ addLot: async (symbol, lot, meta, opts) => {
 
     const quotes = { ...get().quotes } as any;
 
-    // Get data source preference from profile
-    let dataSource: 'yahoo' | 'fmp' | 'finnhub' = 'yahoo';
-    let fmpApiKey = '';
-    let finnhubApiKey = '';
+    // The profile's data source leads the provider chain; the others and saved prices back it up
+    let primary: LiveProviderId = 'yahoo';
+    let fallbacks: LiveProviderId[] | undefined;
     try {
-      const { useProfileStore } = await import('./profile');
+      const { useProfileStore } = await import('../../../store/profile');
       const profile = useProfileStore.getState().profile;
-      dataSource = profile.dataSource || 'yahoo';
-      fmpApiKey = profile.fmpApiKey || '';
-      finnhubApiKey = profile.finnhubApiKey || '';
-
-      // Set API keys based on data source
-      if (dataSource === 'fmp' && fmpApiKey) {
-        setFMPApiKey(fmpApiKey);
-      } else if (dataSource === 'finnhub' && finnhubApiKey) {
-        setFinnhubApiKey(finnhubApiKey);
-      }
+      primary = profile.dataSource || 'yahoo';
+      fallbacks = profile.quoteFallbacks;
+      if (profile.fmpApiKey) setFMPApiKey(profile.fmpApiKey);
+      if (profile.finnhubApiKey) setFinnhubApiKey(profile.finnhubApiKey);
     } catch (e) {
       console.warn('[Invest Store] Failed to get profile, defaulting to Yahoo');
     }
+    const chain = providerChain(primary, fallbacks);
 
     try {
-      const target = symbols && symbols.length ? symbols : (get() as any).allSymbols();
-
-      // Separate crypto and equity symbols
-      const cryptoSymbols = target.filter((s: string) => isCryptoSymbol(s));
-      const equitySymbols = target.filter((s: string) => !isCryptoSymbol(s));
-
-      // Process crypto symbols (use Yahoo Finance)
-      for (const sym of cryptoSymbols) {
-        try {
-          console.log(`💰 [Yahoo Crypto] Fetching ${sym}...`);
-          const base = baseCryptoSymbol(sym);
-          const yf = await fetchYahooCrypto(base || sym, '1y');
-          const last = Number(yf?.line?.length ? yf.line[yf.line.length - 1].v : 0);
-          const prev = Number(yf?.line?.length > 1 ? yf.line[yf.line.length - 2].v : last);
-          const change = last - prev;
-          const changePct = Number(prev ? ((change / prev) * 100).toFixed(2) : 0);
-          let bars: any[] | undefined = undefined;
-          try {
-            const ohlc = await fetchYahooCryptoOhlc(base || sym, '1y');
-            bars = (ohlc || []).map(b => ({ t: b.t, o: b.o, h: b.h, l: b.l, c: b.c, v: 0 }));
-            console.log(`💰 [Yahoo Crypto] Got ${bars.length} OHLC bars for ${sym}`);
-          } catch {}
-          quotes[sym] = {
-            symbol: sym,
-            last,
-            change,
-            changePct,
-            ts: Date.now(),
-            line: Array.isArray(yf?.line) ? yf.line : [],
-            bars
-          };
-          console.log(`💰 [Yahoo Crypto] ${sym}: $${last.toFixed(2)} (${changePct > 0 ? '+' : ''}${changePct}%)`);
-        } catch (e) {
-          console.error(`💰 [Yahoo Crypto] Error fetching ${sym}:`, e);
-          // keep existing quote if fetch fails
+      const target: string[] = symbols && symbols.length ? symbols : (get() as any).allSymbols();
+      const fresh: Quote[] = [];
+
+      for (const sym of target) {
+        const q = await fetchQuoteFromChain(sym, chain);
+        if (q?.stale && quotes[sym] && quotes[sym].ts >= q.ts) {
+          quotes[sym] = { ...quotes[sym], stale: true };
+        } else if (q) {
+          quotes[sym] = q;
+          if (!q.stale) fresh.push(q);
+        } else if (quotes[sym]) {
+          quotes[sym] = { ...quotes[sym], stale: true };
         }
-        await new Promise(r => setTimeout(r, 120));
       }
 
-      // Process equity symbols based on data source
-      if (dataSource === 'fmp' && fmpApiKey && equitySymbols.length > 0) {
-        // FMP: Use batch calls to minimize API usage (1 call for all quotes)
-        try {
-          const batchQuotes = await fetchFMPBatchQuotes(equitySymbols);
-
-          // Process each equity symbol
-          for (const sym of equitySymbols) {
-            try {
-              const quote = batchQuotes[sym];
-              if (!quote) continue;
-
-              // Fetch historical data and fundamentals
-              const [rawBars, fundamentals] = await Promise.all([
-                fetchDailyHistoryFMP(sym, '5y').catch(() => []),
-                fetchFMPFundamentals(sym).catch(() => null),
-              ]);
-
-              if (rawBars && rawBars.length > 0) {
-                const last = quote.price || (rawBars.length ? rawBars[rawBars.length-1].close : 0);
-                const change = quote.change || 0;
-                const changePct = quote.changesPercentage || 0;
-                const line = rawBars.map(b => ({ t: b.date, v: Number(b.close.toFixed(2)) }));
-                const cbars = rawBars.map(b => ({ t: b.date, o: b.open, h: b.high, l: b.low, c: b.close, v: b.volume }));
-
-                quotes[sym] = {
-                  symbol: sym,
-                  last,
-                  change,
-                  changePct,
-                  ts: Date.now(),
-                  line,
-                  bars: cbars,
-                  fundamentals: fundamentals || undefined
-                };
-              }
-            } catch (e) {
-              console.error('[Invest Store] Failed to fetch FMP data for:', sym, e);
-            }
-            await new Promise(r => setTimeout(r, 120));
-          }
-        } catch (e) {
-          console.error('[Invest Store] FMP batch failed, falling back to Yahoo:', e);
-          // Fall back to Yahoo if FMP fails
-          dataSource = 'yahoo';
-        }
+      try {
+        await saveCachedQuotes(fresh);
+      } catch (e) {
+        console.warn('[Invest Store] Could not save quotes:', e);
       }
 
-      // Finnhub
-      if (dataSource === 'finnhub' && finnhubApiKey && equitySymbols.length > 0) {
-        const { fetchFinnhubQuote, fetchFinnhubCandles, fetchFinnhubProfile } = await import('../../../lib/finnhub');
-
-        for (const sym of equitySymbols) {
-          try {
-            const [quote, rawBars, fundamentals] = await Promise.all([
-              fetchFinnhubQuote(sym).catch(() => null),
-              fetchFinnhubCandles(sym, '5y').catch(() => []),
-              fetchFinnhubProfile(sym).catch(() => null),
-            ]);
-
-            if (rawBars && rawBars.length > 0) {
-              const last = quote?.price || (rawBars.length ? rawBars[rawBars.length-1].close : 0);
-              const change = quote?.change || 0;
-              const changePct = quote?.changesPercentage || 0;
-              const line = rawBars.map(b => ({ t: b.date, v: Number(b.close.toFixed(2)) }));
-              const cbars = rawBars.map(b => ({ t: b.date, o: b.open, h: b.high, l: b.low, c: b.close, v: b.volume }));
-
-              quotes[sym] = {
-                symbol: sym,
-                last,
-                change,
-                changePct,
-                ts: Date.now(),
-                line,
-                bars: cbars,
-                fundamentals: fundamentals || undefined
-              };
-            }
-          } catch (e) {
-            console.error('[Invest Store] Failed to fetch Finnhub data for:', sym, e);
-          }
-          await new Promise(r => setTimeout(r, 1200)); // Rate limiting: 1 call per 1.2 seconds
-        }
-      }
+      set({ quotes, lastUpdated: Date.now(), refreshing: false, providerHealth: getProviderHealth() });
 
-      // Yahoo Finance (default or fallback) - with caching
-      if (dataSource === 'yahoo' && equitySymbols.length > 0) {
-        for (const sym of equitySymbols) {
-          try {
-            // Use cached data (24h for historical, 5min for price)
-            const { bars: rawBars, fundamentals: cachedFundamentals, companyName, fromCache } = await fetchHistoricalWithCache(sym as any, '5y' as any);
-
-            if (fromCache) {
-              console.log(`📊 [Invest Store] Using cached data for ${sym}`);
-            } else {
-              console.log(`📊 [Invest Store] Fetched fresh data for ${sym}`);
-            }
-
-            if (!rawBars || !rawBars.length) {
-              /* keep existing quote */
-            } else {
-              const last = rawBars.length ? rawBars[rawBars.length-1].close : 0;
-              const prevClose = rawBars.length > 1 ? (rawBars[rawBars.length-2].close || 0) : last;
-              const change = last - prevClose;
-              const changePct = Number((prevClose ? (change / prevClose) * 100 : 0).toFixed(2));
-              const line = rawBars.map(b => ({ t: b.date, v: Number((b.close ?? 0).toFixed ? (b.close as any).toFixed(2) : Number(b.close ?? 0).toFixed(2)) }));
-              const cbars = rawBars.map(b => ({ t: b.date, o: b.open ?? b.close, h: b.high ?? b.close, l: b.low ?? b.close, c: b.close ?? 0, v: b.volume ?? 0 }));
-
-              // Use fundamentals from cache if available, merge with company name
-              // IMPORTANT: Always prefer fresh companyName from Yahoo chart API over cached value
-              let fundamentals = cachedFundamentals ? {
-                ...cachedFundamentals,
-                companyName: companyName || cachedFundamentals.companyName
-              } : (companyName ? { companyName } : undefined);
-
-              quotes[sym] = { symbol: sym, last, change, changePct, ts: Date.now(), line, bars: cbars, fundamentals };
-            }
-          } catch (e) {
-            console.error('[Invest Store] Failed to fetch data for:', sym, e);
-            // keep existing quote if fetch fails for this symbol
-          }
-          await new Promise(r => setTimeout(r, 120));
-        }
+      // Price alerts are checked on every refresh, whichever screen asked for it
+      try {
+        const { usePriceAlertsStore } = await import('../../../store/priceAlerts');
+        await usePriceAlertsStore.getState().evaluate(quotes, Object.values(get().portfolios || {}));
+      } catch (e) {
+        console.warn('[Invest Store] Price alerts failed:', e);
       }
-
-      set({ quotes, lastUpdated: Date.now(), refreshing: false });
     } catch (e: any) {
-      set({ quotes, refreshing: false, error: e?.message || 'Failed to refresh' });
+      set({ quotes, refreshing: false, error: e?.message || 'Failed to refresh', providerHealth: getProviderHealth() });
     }
   },
 }));
@@ -0,0 +1,73 @@
+import { useEffect, useMemo, useState } from 'react';
+import type { Portfolio } from '../features/invest';
+import { useInvestStore } from '../features/invest';
+import { useFxHistoryStore } from '../store/fxHistory';
+import { fxDateKey } from '../lib/fxHistory';
+import {
+  daysBetween,
+  heldSymbols,
+  loadHistoricalCloses,
+  portfolioValueHistory,
+  type PortfolioValuePoint,
+  type PricePoint,
+} from '../lib/portfolioHistory';
+
+/**
+ * Daily closes for every symbol ever held in `portfolios`, loaded through the
+ * 24-hour historical cache. Empty until the first load finishes; callers fall
+ * back to quote bars in the meantime.
+ */
+export function useHistoricalCloses(portfolios: Portfolio[]): Record<string, PricePoint[]> {
+  const key = heldSymbols(portfolios).join(',');
+  const [closes, setCloses] = useState<Record<string, PricePoint[]>>({});
+
+  useEffect(() => {
+    if (!key) return;
+    let alive = true;
+    loadHistoricalCloses(key.split(','))
+      .then(c => { if (alive) setCloses(c); })
+      .catch(e => console.warn('[usePortfolioHistory] Could not load closes:', e));
+    return () => { alive = false; };
+  }, [key]);
+
+  return closes;
+}
+
+/**
+ * Daily value of `portfolios` from `start` to today in `currency`, priced from
+ * historical closes and converted at each day's rate. Fetches any FX history
+ * it needs for holdings or cash held in other currencies.
+ */
+export function usePortfolioValueHistory(
+  portfolios: Portfolio[],
+  opts: { currency: string; start: number; includeCash?: boolean },
+): { series: PortfolioValuePoint[]; closes: Record<string, PricePoint[]> } {
+  const quotes = useInvestStore(s => s.quotes);
+  const fxRates = useInvestStore(s => s.fxRates);
+  const fxHistory = useFxHistoryStore(s => s.history);
+  const fxReady = useFxHistoryStore(s => s.ready);
+  const closes = useHistoricalCloses(portfolios);
+  const currency = (opts.currency || 'USD').toUpperCase();
+  const { start, includeCash } = opts;
+
+  const foreign = useMemo(() => portfolios.some(p =>
+    String(p.baseCurrency || 'USD').toUpperCase() !== currency ||
+    Object.values(p.holdings || {}).some(h => h?.currency && h.currency.toUpperCase() !== currency)
+  ), [portfolios, currency]);
+
+  useEffect(() => {
+    if (!fxReady) useFxHistoryStore.getState().hydrate();
+  }, [fxReady]);
+
+  useEffect(() => {
+    if (!fxReady || !foreign) return;
+    useFxHistoryStore.getState().ensureDates(daysBetween(start, Date.now()).map(fxDateKey));
+  }, [fxReady, foreign, start]);
+
+  const series = useMemo(
+    () => portfolioValueHistory(portfolios, { currency, quotes, closes, fxHistory, fxRates, start, includeCash }),
+    [portfolios, currency, quotes, closes, fxHistory, fxRates, start, includeCash]
+  );
+
+  return { series, closes };
+}
@@ -0,0 +1,122 @@
+import {
+  createMockProvider,
+  fetchQuoteFromChain,
+  getProviderHealth,
+  providerStatus,
+  registerProvider,
+  resetProviderHealth,
+} from '../quoteProviders';
+import { getCachedQuotes } from '../../db/repositories/quotes';
+
+jest.mock('../../db/repositories/quotes', () => ({ getCachedQuotes: jest.fn(async () => ({})) }));
+
+const cached = getCachedQuotes as jest.MockedFunction<typeof getCachedQuotes>;
+
+function provider(id: string, quotes: Record<string, number>, fail?: string) {
+  const p = createMockProvider(
+    Object.fromEntries(Object.entries(quotes).map(([s, last]) => [s, { last }])),
+    { id, fail },
+  );
+  const fetchQuote = jest.spyOn(p, 'fetchQuote');
+  registerProvider(p);
+  return fetchQuote;
+}
+
+beforeEach(() => {
+  resetProviderHealth();
+  cached.mockReset();
+  cached.mockResolvedValue({});
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => jest.restoreAllMocks());
+
+describe('fetchQuoteFromChain: fallback order', () => {
+  it('takes the first provider that prices the symbol', async () => {
+    const first = provider('first', { AAPL: 190 });
+    const second = provider('second', { AAPL: 191 });
+    const q = await fetchQuoteFromChain('AAPL', ['first', 'second']);
+    expect(q).toMatchObject({ symbol: 'AAPL', last: 190, source: 'first' });
+    expect(q?.stale).toBeUndefined();
+    expect(first).toHaveBeenCalledTimes(1);
+    expect(second).not.toHaveBeenCalled();
+  });
+
+  it('moves on when a provider fails, has nothing, or does not cover the symbol', async () => {
+    provider('broken', { AAPL: 1 }, 'HTTP 500');
+    const empty = provider('empty', { AAPL: 0 });
+    const other = provider('other', { MSFT: 400 });
+    provider('last', { AAPL: 192 });
+    const q = await fetchQuoteFromChain('AAPL', ['broken', 'empty', 'other', 'missing', 'last']);
+    expect(q).toMatchObject({ last: 192, source: 'last' });
+    expect(empty).toHaveBeenCalledTimes(1);
+    expect(other).not.toHaveBeenCalled();
+  });
+
+  it('returns null when nobody can price the symbol', async () => {
+    provider('broken', { AAPL: 1 }, 'HTTP 500');
+    expect(await fetchQuoteFromChain('AAPL', ['broken'])).toBeNull();
+  });
+});
+
+describe('fetchQuoteFromChain: cooldown', () => {
+  it('skips a provider after repeated failures until its cooldown ends', async () => {
+    const outage = provider('outage', { AAPL: 1 }, 'timeout');
+    provider('standby', { AAPL: 193 });
+    for (let i = 0; i < 3; i++) await fetchQuoteFromChain('AAPL', ['outage', 'standby']);
+    expect(outage).toHaveBeenCalledTimes(3);
+    expect(providerStatus(getProviderHealth().outage)).toBe('down');
+
+    const q = await fetchQuoteFromChain('AAPL', ['outage', 'standby']);
+    expect(q?.source).toBe('standby');
+    expect(outage).toHaveBeenCalledTimes(3);
+
+    // The throttle remembers each provider's next slot, so jump the clock only for ids no other test uses
+    const until = getProviderHealth().outage.cooldownUntil!;
+    jest.spyOn(Date, 'now').mockReturnValue(until + 1);
+    await fetchQuoteFromChain('AAPL', ['outage', 'standby']);
+    expect(outage).toHaveBeenCalledTimes(4);
+  });
+
+  it('is only degraded before the third failure', async () => {
+    provider('flaky', { AAPL: 1 }, 'timeout');
+    await fetchQuoteFromChain('AAPL', ['flaky']);
+    await fetchQuoteFromChain('AAPL', ['flaky']);
+    expect(providerStatus(getProviderHealth().flaky)).toBe('degraded');
+  });
+
+  it('cools off straight away when rate limited', async () => {
+    provider('limited', { AAPL: 1 }, '429 Too Many Requests');
+    await fetchQuoteFromChain('AAPL', ['limited']);
+    expect(providerStatus(getProviderHealth().limited)).toBe('down');
+  });
+
+  it('clears the failure streak on success', async () => {
+    provider('flaky', { AAPL: 1 }, 'timeout');
+    provider('fixed', { AAPL: 194 });
+    await fetchQuoteFromChain('AAPL', ['flaky']);
+    await fetchQuoteFromChain('AAPL', ['fixed']);
+    expect(getProviderHealth().fixed).toMatchObject({ successes: 1, consecutiveFailures: 0 });
+    expect(providerStatus(getProviderHealth().flaky)).toBe('degraded');
+  });
+});
+
+describe('fetchQuoteFromChain: stale cache fallback', () => {
+  it('serves the last saved quote, marked stale, when every live provider fails', async () => {
+    provider('broken', { AAPL: 1 }, 'HTTP 503');
+    cached.mockResolvedValue({ AAPL: { symbol: 'AAPL', last: 180, change: 1, changePct: 0.5, ts: 1_700_000_000_000, line: [] } });
+    const q = await fetchQuoteFromChain('AAPL', ['broken', 'cache']);
+    expect(q).toMatchObject({ last: 180, source: 'cache', stale: true, ts: 1_700_000_000_000 });
+  });
+
+  it('does not count saved quotes towards provider health', async () => {
+    cached.mockResolvedValue({ AAPL: { symbol: 'AAPL', last: 180, change: 0, changePct: 0, ts: 1, line: [] } });
+    await fetchQuoteFromChain('AAPL', ['cache']);
+    expect(getProviderHealth().cache).toBeUndefined();
+  });
+
+  it('returns null when nothing was saved either', async () => {
+    provider('broken', { AAPL: 1 }, 'HTTP 503');
+    expect(await fetchQuoteFromChain('AAPL', ['broken', 'cache'])).toBeNull();
+  });
+});
@@ -4,13 +4,15 @@
  * Only summaries are sent to AI - raw data stays on device
  */
 
-import { useTxStore } from '../../store/transactions';
+import { useTxStore, categorySlices } from '../../store/transactions';
 import { useAccountsStore } from '../../store/accounts';
 import { useInvestStore } from '../../features/invest';
+import { adjustedLots } from '../corporateActions';
 import { useBudgetsStore } from '../../store/budgets';
 import { useDebtsStore } from '../../store/debts';
 import { useProfileStore } from '../../store/profile';
 import { convertCurrency, type FxRates } from '../fx';
+import { useFxHistoryStore, makeBalanceConverter } from '../../store/fxHistory';
 
 export type AggregatedData = {
   summary: string; // Human-readable summary for AI
@@ -49,13 +51,15 @@ export function getSpendingData(
     totalTransactions: transactions?.length || 0
   });
 
+  const sliceMatches = (cat?: string) => !category || !!cat?.toLowerCase().includes(category.toLowerCase());
+
   // Filter transactions - add safety check
   const filtered = (transactions || []).filter(tx => {
     if (!tx || !tx.date) return false;
     const txDate = new Date(tx.date);
     const matchesDate = txDate >= startDate && txDate <= endDate;
     const matchesType = tx.type === 'expense';
-    const matchesCategory = !category || tx.category?.toLowerCase().includes(category.toLowerCase());
+    const matchesCategory = categorySlices(tx).some(s => sliceMatches(s.category));
 
     return matchesDate && matchesType && matchesCategory;
   });
@@ -70,10 +74,14 @@ export function getSpendingData(
   const byCategory: Record<string, number> = {};
   let total = 0;
 
+  // Split transactions are attributed slice by slice
   filtered.forEach(tx => {
-    const cat = tx.category || 'Uncategorized';
-    byCategory[cat] = (byCategory[cat] || 0) + (tx.amount || 0);
-    total += tx.amount || 0;
+    for (const slice of categorySlices(tx)) {
+      if (!sliceMatches(slice.category)) continue;
+      const cat = slice.category || 'Uncategorized';
+      byCategory[cat] = (byCategory[cat] || 0) + slice.amount;
+      total += slice.amount;
+    }
   });
 
   // Sort categories by amount
@@ -183,7 +191,7 @@ export function getPortfolioData(symbol?: string): AggregatedData {
     Object.entries(p.holdings || {}).forEach(([sym, h]: [string, any]) => {
       if (symbol && sym !== symbol.toUpperCase()) return;
 
-      const lots = h?.lots || [];
+      const lots = adjustedLots(h);
       console.log('[DataAggregator] Processing holding:', sym, 'lots:', lots.length);
       const qty = lots.reduce((s: number, l: any) => s + (l.side === 'buy' ? l.qty : -l.qty), 0);
       console.log('[DataAggregator]', sym, 'total qty:', qty);
@@ -331,18 +339,20 @@ export function getNetWorthData(period?: string): AggregatedData {
   const { accounts } = useAccountsStore.getState();
   const { debts } = useDebtsStore.getState();
   const portfolioData = getPortfolioData();
+  const currency = (useProfileStore.getState().profile?.currency || 'USD').toUpperCase();
+  const balanceToBase = makeBalanceConverter(currency, useFxHistoryStore.getState().history);
 
-  // Calculate current net worth
+  // Calculate current net worth (account balances converted to the profile currency)
   // Cash accounts = checking, savings, cash (exclude credit, investment, retirement - same as Money tab)
   const cashAccounts = accounts.filter(
     acc => acc.kind !== 'credit' && acc.kind !== 'investment' && acc.kind !== 'retirement' && acc.includeInNetWorth !== false
   );
-  const totalCash = cashAccounts.reduce((sum, acc) => sum + (acc.balance || 0), 0);
+  const totalCash = cashAccounts.reduce((sum, acc) => sum + balanceToBase(acc), 0);
 
   const creditCards = accounts.filter(
     acc => acc.kind === 'credit' && acc.includeInNetWorth !== false
   );
-  const totalCreditDebt = creditCards.reduce((sum, acc) => sum + Math.abs(acc.balance || 0), 0);
+  const totalCreditDebt = creditCards.reduce((sum, acc) => sum + Math.abs(balanceToBase(acc)), 0);
 
   const totalDebt = (debts || []).reduce((sum, d) => sum + (d.balance || 0), 0) + totalCreditDebt;
 
@@ -350,7 +360,7 @@ export function getNetWorthData(period?: string): AggregatedData {
   const currentNetWorth = totalCash + portfolioValue - totalDebt;
 
   // Build summary
-  let summary = `User's current net worth is $${currentNetWorth.toFixed(2)}. `;
+  let summary = `User's current net worth is $${currentNetWorth.toFixed(2)} (${currency}). `;
   summary += `Breakdown: Cash $${totalCash.toFixed(2)}, `;
   summary += `Investments $${portfolioValue.toFixed(2)}, `;
   summary += `Debt $${totalDebt.toFixed(2)}. `;
@@ -360,7 +370,10 @@ export function getNetWorthData(period?: string): AggregatedData {
     summary += `Cash accounts: `;
     const accountDetails = cashAccounts.map(acc => {
       const type = acc.kind === 'checking' ? 'checking' : acc.kind === 'savings' ? 'savings' : acc.kind;
-      return `${acc.name} (${type}) $${(acc.balance || 0).toFixed(2)}`;
+      const native = acc.currency && acc.currency.toUpperCase() !== currency
+        ? ` (${(acc.balance || 0).toFixed(2)} ${acc.currency.toUpperCase()})`
+        : '';
+      return `${acc.name} (${type}) $${balanceToBase(acc).toFixed(2)}${native}`;
     }).join(', ');
     summary += accountDetails;
   }
@@ -371,6 +384,7 @@ export function getNetWorthData(period?: string): AggregatedData {
   return {
     summary,
     metadata: {
+      currency,
       netWorth: currentNetWorth,
       cash: totalCash,
       investments: portfolioValue,
@@ -378,7 +392,8 @@ export function getNetWorthData(period?: string): AggregatedData {
       cashAccounts: cashAccounts.map(acc => ({
         name: acc.name,
         kind: acc.kind,
-        balance: acc.balance || 0
+        balance: balanceToBase(acc),
+        currency: acc.currency?.toUpperCase() || currency
       }))
     }
   };
@@ -470,7 +485,7 @@ export function getStockDetails(symbol: string): AggregatedData {
     };
   }
 
-  const lots = holding.lots;
+  const lots = adjustedLots(holding);
   const quote = quotes[symbolUpper];
   const currentPrice = quote?.last || 0;
 
@@ -633,7 +648,7 @@ export function getStockFundamentals(symbol: string): AggregatedData {
   if (fund.peRatio) summary += `- P/E Ratio: ${fund.peRatio.toFixed(2)}\n`;
   if (fund.forwardPE) summary += `- Forward P/E: ${fund.forwardPE.toFixed(2)}\n`;
   if (fund.eps) summary += `- EPS: $${fund.eps.toFixed(2)}\n`;
-  if (fund.dividendYield) summary += `- Dividend Yield: ${fund.dividendYield.toFixed(2)}%\n`;
+  if (fund.dividendYield) summary += `- Dividend Yield: ${(fund.dividendYield * 100).toFixed(2)}%\n`;
   if (fund.beta) summary += `- Beta: ${fund.beta.toFixed(2)}\n`;
 
   if (fund.week52High || fund.week52Low) {
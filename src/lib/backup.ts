@@ -0,0 +1,506 @@
+/**
+ * Encrypted full-data backup
+ *
+ * Bundles every section listed in STORAGE_KEYS (the same table list the
+ * AsyncStorage → SQLite migration walks) into one versioned archive encrypted
+ * with a user passphrase: PBKDF2-SHA256 derives an AES-256-GCM key, and the
+ * plaintext header is bound to the ciphertext as associated data so it cannot
+ * be edited without the restore failing.
+ *
+ * Restoring either replaces local data section by section, or merges by id and
+ * reports records that exist on both sides with different contents.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as FileSystem from 'expo-file-system/legacy';
+import * as Sharing from 'expo-sharing';
+import { getRandomBytes } from 'expo-crypto';
+import { gcm } from '@noble/ciphers/aes';
+import { pbkdf2Async } from '@noble/hashes/pbkdf2';
+import { sha256 } from '@noble/hashes/sha2';
+import { canonicalJSON, fromBase64, toBase64, utf8Decode, utf8Encode } from './encoding';
+import { STORAGE_KEYS } from '../db/async-storage-migration';
+import { ensureDatabase } from '../db/bootstrap';
+import { listAccounts, upsertAccounts, deleteAccount } from '../db/repositories/accounts';
+import { listTransactions, upsertTransactions, deleteTransactions } from '../db/repositories/transactions';
+import { listPortfolios, savePortfolios } from '../db/repositories/invest';
+import {
+  listGoals,
+  saveGoal,
+  deleteGoal,
+  listAchievements,
+  insertAchievement,
+  clearAchievements,
+  getProgress,
+  saveProgress,
+} from '../db/repositories/goals';
+import { listGroups, saveGroup, deleteGroup } from '../db/repositories/groups';
+
+export const BACKUP_FORMAT = 'fingrow-backup';
+/** Envelope version: key derivation and cipher. */
+export const BACKUP_VERSION = 1;
+/** Payload version: shape of the sections inside. */
+export const BACKUP_SCHEMA_VERSION = 1;
+
+const KDF_ITERATIONS = 150_000;
+
+/** Sections stored in SQLite, in write order (transactions before the goals and bills that link to them). */
+const DB_SECTIONS = ['ACCOUNTS', 'TRANSACTIONS', 'INVEST_V2', 'GOALS', 'ACHIEVEMENTS', 'PROGRESS', 'GROUPS'] as const;
+/** Sections still stored as AsyncStorage blobs; backed up verbatim. */
+const KV_SECTIONS = [
+  'DEBTS',
+  'BUDGET',
+  'RECURRING',
+  'ENVELOPES',
+  'INCOME_SPLITTING',
+  'INCOME_SPLITTING_HISTORY',
+  'RULES',
+  'PLANS',
+  'PRICE_ALERTS',
+  'ZERO_BASED',
+  'PROFILE',
+] as const;
+
+export type BackupSection = (typeof DB_SECTIONS)[number] | (typeof KV_SECTIONS)[number];
+
+export const BACKUP_SECTIONS: BackupSection[] = [...DB_SECTIONS, ...KV_SECTIONS];
+
+export const SECTION_LABELS: Record<BackupSection, string> = {
+  ACCOUNTS: 'Accounts',
+  TRANSACTIONS: 'Transactions',
+  INVEST_V2: 'Portfolios',
+  GOALS: 'Goals',
+  ACHIEVEMENTS: 'Achievements',
+  PROGRESS: 'Goal progress',
+  GROUPS: 'Groups',
+  DEBTS: 'Debts',
+  BUDGET: 'Budget',
+  RECURRING: 'Recurring bills',
+  ENVELOPES: 'Envelopes',
+  INCOME_SPLITTING: 'Income splitting',
+  INCOME_SPLITTING_HISTORY: 'Income splitting history',
+  RULES: 'Categorisation rules',
+  PLANS: 'Investment plans',
+  PRICE_ALERTS: 'Price alerts',
+  ZERO_BASED: 'Zero-based budget',
+  PROFILE: 'Profile',
+};
+
+// Device-specific or always-changing fields that should not make two records differ
+const VOLATILE_FIELDS = new Set(['avatarUri', 'updatedAt']);
+
+export type BackupPayload = {
+  schemaVersion: number;
+  exportedAt: string;
+  sections: Partial<Record<BackupSection, unknown>>;
+};
+
+type BackupHeader = {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  createdAt: string;
+  kdf: { name: 'pbkdf2-sha256'; iterations: number; salt: string };
+  cipher: { name: 'aes-256-gcm'; nonce: string };
+};
+
+export type RestoreMode = 'merge' | 'replace';
+
+export type RestoreConflict = { section: BackupSection; id: string; label: string };
+
+export type SectionSummary = {
+  section: BackupSection;
+  label: string;
+  /** Records in the backup */
+  incoming: number;
+  added: number;
+  updated: number;
+  removed: number;
+  conflicts: RestoreConflict[];
+};
+
+export type RestorePlan = {
+  mode: RestoreMode;
+  preferBackup: boolean;
+  exportedAt: string;
+  sections: SectionSummary[];
+  conflicts: RestoreConflict[];
+};
+
+/** JSON with sorted keys, ignoring volatile fields, so equal records compare equal regardless of how they were built. */
+const stableStringify = (value: unknown) => canonicalJSON(value, VOLATILE_FIELDS);
+
+const sameRecord = (a: unknown, b: unknown) => stableStringify(a) === stableStringify(b);
+
+// ---------------------------------------------------------------------------
+// Encryption
+
+async function deriveKey(passphrase: string, salt: Uint8Array, iterations: number): Promise<Uint8Array> {
+  return pbkdf2Async(sha256, utf8Encode(passphrase.normalize('NFKC')), salt, { c: iterations, dkLen: 32 });
+}
+
+export async function encryptBackup(payload: BackupPayload, passphrase: string): Promise<string> {
+  if (!passphrase) throw new Error('Choose a passphrase to protect the backup.');
+  const salt = getRandomBytes(16);
+  const nonce = getRandomBytes(12);
+  const header: BackupHeader = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    createdAt: payload.exportedAt,
+    kdf: { name: 'pbkdf2-sha256', iterations: KDF_ITERATIONS, salt: toBase64(salt) },
+    cipher: { name: 'aes-256-gcm', nonce: toBase64(nonce) },
+  };
+  const key = await deriveKey(passphrase, salt, KDF_ITERATIONS);
+  const sealed = gcm(key, nonce, utf8Encode(stableStringify(header))).encrypt(utf8Encode(JSON.stringify(payload)));
+  return JSON.stringify({ ...header, data: toBase64(sealed) });
+}
+
+export async function decryptBackup(fileText: string, passphrase: string): Promise<BackupPayload> {
+  let file: any;
+  try {
+    file = JSON.parse(fileText);
+  } catch {
+    throw new Error('This is not a FinGrow backup file.');
+  }
+  if (!file || file.format !== BACKUP_FORMAT || typeof file.data !== 'string') {
+    throw new Error('This is not a FinGrow backup file.');
+  }
+  if (typeof file.version !== 'number' || file.version > BACKUP_VERSION) {
+    throw new Error('This backup was made by a newer version of FinGrow. Update the app to restore it.');
+  }
+  const { data, ...header } = file as BackupHeader & { data: string };
+  if (header.kdf?.name !== 'pbkdf2-sha256' || header.cipher?.name !== 'aes-256-gcm') {
+    throw new Error('This backup uses an unsupported encryption method.');
+  }
+  // The header is untrusted: a huge count would hang the phone, a tiny one means it wasn't made by us
+  const iterations = header.kdf.iterations;
+  if (!Number.isInteger(iterations) || iterations < KDF_ITERATIONS / 10 || iterations > KDF_ITERATIONS * 10) {
+    throw new Error('This backup uses an unsupported encryption method.');
+  }
+
+  const key = await deriveKey(passphrase, fromBase64(header.kdf.salt), iterations);
+  let plain: Uint8Array;
+  try {
+    plain = gcm(key, fromBase64(header.cipher.nonce), utf8Encode(stableStringify(header))).decrypt(fromBase64(data));
+  } catch {
+    throw new Error('Wrong passphrase, or the backup file is damaged.');
+  }
+
+  const payload = JSON.parse(utf8Decode(plain)) as BackupPayload;
+  validatePayload(payload);
+  return payload;
+}
+
+function validatePayload(payload: BackupPayload) {
+  if (!payload || typeof payload.schemaVersion !== 'number' || !payload.sections || typeof payload.sections !== 'object') {
+    throw new Error('The backup contents are not in a recognised format.');
+  }
+  if (payload.schemaVersion > BACKUP_SCHEMA_VERSION) {
+    throw new Error('This backup was made by a newer version of FinGrow. Update the app to restore it.');
+  }
+  for (const section of BACKUP_SECTIONS) {
+    const value = payload.sections[section];
+    if (value === undefined || value === null) continue;
+    const list = listOf(section, value);
+    if (list && !list.every(x => x && typeof x === 'object' && typeof (x as any).id === 'string')) {
+      throw new Error(`The ${SECTION_LABELS[section].toLowerCase()} in this backup are malformed.`);
+    }
+    if (!list && typeof value !== 'object') {
+      throw new Error(`The ${SECTION_LABELS[section].toLowerCase()} in this backup are malformed.`);
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Reading and writing sections
+
+type InvestSection = { portfolios: Record<string, any>; order: string[]; activeId: string | null };
+
+/** The id-keyed records within a section, or null for settings-style sections. */
+function listOf(section: BackupSection, value: unknown): Array<{ id: string }> | null {
+  if (section === 'INVEST_V2') return Object.values((value as InvestSection)?.portfolios || {});
+  if (Array.isArray(value)) return value;
+  return null;
+}
+
+async function readSection(section: BackupSection): Promise<unknown> {
+  switch (section) {
+    case 'ACCOUNTS': return listAccounts();
+    case 'TRANSACTIONS': return listTransactions();
+    case 'INVEST_V2': {
+      const { portfolios, order } = await listPortfolios();
+      return { portfolios, order, activeId: await AsyncStorage.getItem(STORAGE_KEYS.INVEST_ACTIVE) };
+    }
+    case 'GOALS': return listGoals();
+    case 'ACHIEVEMENTS': return listAchievements();
+    case 'PROGRESS': return getProgress();
+    case 'GROUPS': return listGroups();
+    default: {
+      const raw = await AsyncStorage.getItem(STORAGE_KEYS[section]);
+      return raw ? JSON.parse(raw) : null;
+    }
+  }
+}
+
+async function readAll(): Promise<Partial<Record<BackupSection, unknown>>> {
+  await ensureDatabase();
+  const sections: Partial<Record<BackupSection, unknown>> = {};
+  for (const section of BACKUP_SECTIONS) {
+    const value = await readSection(section);
+    if (value !== null && value !== undefined) sections[section] = value;
+  }
+  return sections;
+}
+
+export async function createBackupPayload(): Promise<BackupPayload> {
+  const sections = await readAll();
+  if (sections.PROFILE) {
+    // The avatar points at a file on this device
+    const { avatarUri, ...profile } = sections.PROFILE as any;
+    sections.PROFILE = profile;
+  }
+  return { schemaVersion: BACKUP_SCHEMA_VERSION, exportedAt: new Date().toISOString(), sections };
+}
+
+type Reconciled = {
+  summary: SectionSummary;
+  value: unknown;
+  changed: any[];
+  removedIds: string[];
+};
+
+function recordLabel(record: any): string {
+  return String(record?.name || record?.title || record?.note || record?.category || record?.id || '');
+}
+
+function reconcileList(
+  section: BackupSection,
+  local: Array<{ id: string }>,
+  incoming: Array<{ id: string }>,
+  mode: RestoreMode,
+  preferBackup: boolean,
+  summary: SectionSummary
+) {
+  const localById = new Map(local.map(r => [r.id, r]));
+  const seen = new Set<string>();
+  const items: any[] = [];
+  const changed: any[] = [];
+
+  for (const record of incoming) {
+    seen.add(record.id);
+    const current = localById.get(record.id);
+    if (!current) {
+      items.push(record);
+      changed.push(record);
+      summary.added++;
+    } else if (sameRecord(current, record)) {
+      items.push(current);
+    } else if (mode === 'replace') {
+      items.push(record);
+      changed.push(record);
+      summary.updated++;
+    } else {
+      summary.conflicts.push({ section, id: record.id, label: recordLabel(current) });
+      if (preferBackup) {
+        items.push(record);
+        changed.push(record);
+        summary.updated++;
+      } else {
+        items.push(current);
+      }
+    }
+  }
+
+  const removedIds: string[] = [];
+  for (const record of local) {
+    if (seen.has(record.id)) continue;
+    if (mode === 'replace') {
+      removedIds.push(record.id);
+      summary.removed++;
+    } else {
+      items.push(record);
+    }
+  }
+  return { items, changed, removedIds };
+}
+
+function reconcileSection(
+  section: BackupSection,
+  local: unknown,
+  incoming: unknown,
+  mode: RestoreMode,
+  preferBackup: boolean
+): Reconciled {
+  const incomingList = listOf(section, incoming);
+  const summary: SectionSummary = {
+    section,
+    label: SECTION_LABELS[section],
+    incoming: incomingList ? incomingList.length : 1,
+    added: 0,
+    updated: 0,
+    removed: 0,
+    conflicts: [],
+  };
+
+  if (incomingList) {
+    const { items, changed, removedIds } = reconcileList(
+      section,
+      listOf(section, local) || [],
+      incomingList,
+      mode,
+      preferBackup,
+      summary
+    );
+    let value: unknown = items;
+    if (section === 'INVEST_V2') {
+      const l = (local as InvestSection) || { portfolios: {}, order: [], activeId: null };
+      const inc = incoming as InvestSection;
+      const portfolios = Object.fromEntries(items.map(p => [p.id, p]));
+      const order = mode === 'replace'
+        ? inc.order.filter(id => portfolios[id])
+        : [...l.order, ...inc.order.filter(id => portfolios[id] && !l.order.includes(id))];
+      const activeId = mode === 'replace' || !l.activeId ? inc.activeId : l.activeId;
+      value = { portfolios, order, activeId };
+    }
+    return { summary, value, changed, removedIds };
+  }
+
+  // Settings-style sections are a single record
+  if (local === null || local === undefined) {
+    summary.added = 1;
+    return { summary, value: incoming, changed: [incoming], removedIds: [] };
+  }
+  if (sameRecord(local, incoming)) return { summary, value: local, changed: [], removedIds: [] };
+  if (mode === 'merge') {
+    summary.conflicts.push({ section, id: section, label: SECTION_LABELS[section] });
+    if (!preferBackup) return { summary, value: local, changed: [], removedIds: [] };
+  }
+  summary.updated = 1;
+  const value = section === 'PROFILE' ? { ...(local as object), ...(incoming as object) } : incoming;
+  return { summary, value, changed: [value], removedIds: [] };
+}
+
+async function writeSection(section: BackupSection, r: Reconciled): Promise<void> {
+  if (r.changed.length === 0 && r.removedIds.length === 0) return;
+  switch (section) {
+    case 'ACCOUNTS':
+      await upsertAccounts(r.changed);
+      for (const id of r.removedIds) await deleteAccount(id);
+      return;
+    case 'TRANSACTIONS':
+      await deleteTransactions(r.removedIds);
+      await upsertTransactions(r.changed);
+      return;
+    case 'INVEST_V2': {
+      const value = r.value as InvestSection;
+      await savePortfolios(r.changed, value.order, r.removedIds);
+      if (value.activeId) await AsyncStorage.setItem(STORAGE_KEYS.INVEST_ACTIVE, value.activeId);
+      return;
+    }
+    case 'GOALS':
+      for (const id of r.removedIds) await deleteGoal(id);
+      for (const goal of r.changed) await saveGoal(goal);
+      return;
+    case 'ACHIEVEMENTS':
+      await clearAchievements();
+      for (const a of r.value as any[]) await insertAchievement(a);
+      return;
+    case 'PROGRESS': {
+      const { level, xp } = r.value as { level: number; xp: number };
+      await saveProgress(level, xp);
+      return;
+    }
+    case 'GROUPS':
+      for (const id of r.removedIds) await deleteGroup(id);
+      for (const group of r.changed) await saveGroup(group);
+      return;
+    default:
+      await AsyncStorage.setItem(STORAGE_KEYS[section], JSON.stringify(r.value));
+  }
+}
+
+async function reconcileAll(payload: BackupPayload, mode: RestoreMode, preferBackup: boolean) {
+  const local = await readAll();
+  const out: Array<[BackupSection, Reconciled]> = [];
+  for (const section of BACKUP_SECTIONS) {
+    const incoming = payload.sections[section];
+    // Sections missing from the archive are left untouched, even when replacing
+    if (incoming === undefined || incoming === null) continue;
+    out.push([section, reconcileSection(section, local[section], incoming, mode, preferBackup)]);
+  }
+  return out;
+}
+
+function toPlan(payload: BackupPayload, mode: RestoreMode, preferBackup: boolean, reconciled: Array<[BackupSection, Reconciled]>): RestorePlan {
+  const sections = reconciled.map(([, r]) => r.summary);
+  return {
+    mode,
+    preferBackup,
+    exportedAt: payload.exportedAt,
+    sections,
+    conflicts: sections.flatMap(s => s.conflicts),
+  };
+}
+
+/** Dry run: what a restore would add, change, remove and conflict on. Writes nothing. */
+export async function planRestore(payload: BackupPayload, mode: RestoreMode, preferBackup = false): Promise<RestorePlan> {
+  return toPlan(payload, mode, preferBackup, await reconcileAll(payload, mode, preferBackup));
+}
+
+/**
+ * Applies a backup and reloads every store from storage.
+ * In merge mode conflicting records keep the local copy unless `preferBackup` is set.
+ */
+export async function restoreBackup(payload: BackupPayload, mode: RestoreMode, preferBackup = false): Promise<RestorePlan> {
+  const reconciled = await reconcileAll(payload, mode, preferBackup);
+  for (const [section, r] of reconciled) await writeSection(section, r);
+  await rehydrateStores();
+  return toPlan(payload, mode, preferBackup, reconciled);
+}
+
+async function rehydrateStores() {
+  // Lazy requires avoid pulling every store (and their import cycles) in at module load
+  const stores = [
+    require('../store/accounts').useAccountsStore,
+    require('../store/transactions').useTxStore,
+    require('../features/invest/store/invest').useInvestStore,
+    require('../features/goals/store/goals').useGoalsStore,
+    require('../features/groups/store/groups').useGroupsStore,
+    require('../store/debts').useDebtsStore,
+    require('../store/budgets').useBudgetsStore,
+    require('../store/recurring').useRecurringStore,
+    require('../store/envelopes').useEnvelopesStore,
+    require('../store/incomeSplitting').useIncomeSplittingStore,
+    require('../store/rules').useRulesStore,
+    require('../store/plans').usePlansStore,
+    require('../store/priceAlerts').usePriceAlertsStore,
+    require('../store/zeroBased').useZeroBasedStore,
+    require('../store/profile').useProfileStore,
+  ];
+  for (const store of stores) {
+    try {
+      await store.getState().hydrate();
+    } catch (e) {
+      console.warn('[backup] Store reload failed:', e);
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Files
+
+/** Writes an encrypted backup to the cache directory and opens the share sheet. */
+export async function exportBackup(passphrase: string): Promise<string> {
+  const payload = await createBackupPayload();
+  const text = await encryptBackup(payload, passphrase);
+  const filename = `fingrow_backup_${payload.exportedAt.slice(0, 10)}.fgbackup`;
+  const uri = (FileSystem.cacheDirectory || '') + filename;
+  await FileSystem.writeAsStringAsync(uri, text, { encoding: FileSystem.EncodingType.UTF8 });
+  if (!(await Sharing.isAvailableAsync())) throw new Error("Sharing isn't available on this device.");
+  await Sharing.shareAsync(uri, { mimeType: 'application/octet-stream', dialogTitle: 'FinGrow backup' });
+  return uri;
+}
+
+export async function readBackupFile(uri: string, passphrase: string): Promise<BackupPayload> {
+  const text = await FileSystem.readAsStringAsync(uri, { encoding: FileSystem.EncodingType.UTF8 });
+  return decryptBackup(text, passphrase);
+}
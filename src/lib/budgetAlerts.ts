@@ -1,8 +1,10 @@
 import * as Notifications from 'expo-notifications';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 
-type BudgetSnapshot = {
+export type BudgetSnapshot = {
   periodKey: string;
+  /** Set for a single category's budget; omitted for the overall budget. */
+  category?: string;
   budget: number;
   spent: number;
   expectedByToday: number;
@@ -25,14 +27,22 @@ export async function maybeFireThresholdAlerts(s: BudgetSnapshot, enabled: boole
   if (!s.budget || s.budget <= 0) return;
 
   const notch = notchFromRatio(s.usedRatio);
-  const key = `${KEY_BASE}/threshold/${s.periodKey}`;
+  const key = s.category
+    ? `${KEY_BASE}/threshold/${s.periodKey}/${encodeURIComponent(s.category)}`
+    : `${KEY_BASE}/threshold/${s.periodKey}`;
   const prevRaw = await AsyncStorage.getItem(key);
   const prev = prevRaw ? JSON.parse(prevRaw) : { last: 0 };
 
   if (notch > prev.last) {
     let title = 'Budget update';
     let body = '';
-    if (notch === 80) { title = '80% of budget used'; body = 'You have reached 80% of your budget for this period.'; }
+    if (s.category) {
+      const c = s.category;
+      if (notch === 80) { title = `80% of ${c} budget used`; body = `You've spent ${formatMoney(s.spent)} of ${formatMoney(s.budget)} on ${c} this period.`; }
+      else if (notch === 100) { title = `${c} budget reached`; body = `You've fully used your ${c} budget for this period.`; }
+      else if (notch === 110) { title = `Over budget on ${c}`; body = `${c} is ${formatMoney(s.spent - s.budget)} over its ${formatMoney(s.budget)} budget.`; }
+    }
+    else if (notch === 80) { title = '80% of budget used'; body = 'You have reached 80% of your budget for this period.'; }
     else if (notch === 100) { title = "Budget reached"; body = "You've fully used your budget for this period."; }
     else if (notch === 110) { title = 'Over budget'; body = 'You are 10% over budget. Consider slowing down spend.'; }
 
@@ -0,0 +1,182 @@
+/**
+ * Budget periods and the per-category ledger that rolls money from one period
+ * into the next. Monthly periods start on the profile's budget cycle day
+ * (clamped to short months); bi-weekly periods count 14-day blocks from the
+ * anchor saved in Budget Settings.
+ */
+
+import { categorySlices, type Transaction } from '../store/transactions';
+import type { RolloverMode, PeriodRecord, CategoryPeriod } from '../store/budgets';
+
+export type BudgetCycle = 'monthly' | 'biweekly';
+export type PeriodSpec = { cycle: BudgetCycle; cycleDay: number; anchor?: string | null };
+export type BudgetPeriod = { key: string; start: Date; end: Date };
+
+/** Converts a transaction (or a slice of it) to the budget's currency. */
+type Convert = (tx: Transaction, amount?: number) => number;
+
+const asIs: Convert = (tx, amount) => amount ?? Math.abs(Number(tx.amount) || 0);
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+function startOfDay(d: Date) { const n = new Date(d); n.setHours(0, 0, 0, 0); return n; }
+
+function cycleStart(year: number, month: number, cycleDay: number) {
+  const lastDay = new Date(year, month + 1, 0).getDate();
+  const day = Math.min(Math.max(1, Math.round(cycleDay) || 1), lastDay);
+  return new Date(year, month, day, 0, 0, 0, 0);
+}
+
+/** The period that contains `date`. */
+export function periodFor(date: Date, spec: PeriodSpec): BudgetPeriod {
+  if (spec.cycle === 'biweekly') {
+    const a0 = startOfDay(spec.anchor ? new Date(spec.anchor) : date);
+    const k = Math.floor((startOfDay(date).getTime() - a0.getTime()) / (14 * DAY));
+    const start = new Date(a0.getTime() + k * 14 * DAY);
+    const end = new Date(start.getTime() + 14 * DAY - 1);
+    return { key: `${start.getFullYear()}-${pad(start.getMonth() + 1)}-${pad(start.getDate())}`, start, end };
+  }
+  let start = cycleStart(date.getFullYear(), date.getMonth(), spec.cycleDay);
+  if (date < start) start = cycleStart(date.getFullYear(), date.getMonth() - 1, spec.cycleDay);
+  const next = cycleStart(start.getFullYear(), start.getMonth() + 1, spec.cycleDay);
+  return { key: `${start.getFullYear()}-${pad(start.getMonth() + 1)}`, start, end: new Date(next.getTime() - 1) };
+}
+
+/** The period `n` steps before (negative) or after (positive) `p`. */
+export function shiftPeriod(p: BudgetPeriod, n: number, spec: PeriodSpec): BudgetPeriod {
+  let out = p;
+  for (let i = 0; i < Math.abs(n); i++) {
+    out = periodFor(new Date(n < 0 ? out.start.getTime() - 1 : out.end.getTime() + 1), spec);
+  }
+  return out;
+}
+
+/** Expense totals per category between `start` and `end`, with splits expanded, in the budget's currency. */
+export function spendByCategory(transactions: Transaction[], start: Date, end: Date, convert: Convert = asIs): Record<string, number> {
+  const out: Record<string, number> = {};
+  for (const t of transactions) {
+    if (t.type !== 'expense') continue;
+    const d = new Date(t.date);
+    if (d < start || d > end) continue;
+    for (const s of categorySlices(t)) {
+      const c = s.category || 'Other';
+      out[c] = (out[c] || 0) + convert(t, s.amount);
+    }
+  }
+  return out;
+}
+
+/** How much of a period's leftover (negative when overspent) moves into the next one. */
+export function carryOver(mode: RolloverMode | undefined, leftover: number): number {
+  if (leftover > 0 && (mode === 'unspent' || mode === 'both')) return leftover;
+  if (leftover < 0 && (mode === 'overspent' || mode === 'both')) return leftover;
+  return 0;
+}
+
+/** period key -> category -> amount; null clears an earlier period's amount from that period on. */
+export type CategoryBudgets = Record<string, Record<string, number | null>>;
+
+/**
+ * Amount set for a category that is in effect in a period: its own, else the
+ * most recent earlier period's. Undefined when none was set, or it was cleared.
+ */
+export function categoryBudgetSet(categoryBudgets: CategoryBudgets, periodKey: string, category: string): number | undefined {
+  const own = categoryBudgets[periodKey]?.[category];
+  if (own !== undefined) return own ?? undefined;
+  const earlier = Object.keys(categoryBudgets)
+    .filter(k => k < periodKey && categoryBudgets[k][category] !== undefined)
+    .sort();
+  return earlier.length ? (categoryBudgets[earlier[earlier.length - 1]][category] ?? undefined) : undefined;
+}
+
+/** Budget for a category in a period: the amount in effect (see categoryBudgetSet), else `fallback`. */
+export function resolveCategoryBudget(
+  categoryBudgets: CategoryBudgets,
+  periodKey: string,
+  category: string,
+  fallback: number,
+): number {
+  return categoryBudgetSet(categoryBudgets, periodKey, category) ?? fallback;
+}
+
+type LedgerInput = {
+  transactions: Transaction[];
+  spec: PeriodSpec;
+  period: BudgetPeriod;
+  categoryBudgets: CategoryBudgets;
+  rollover: Record<string, RolloverMode>;
+  /** Cap used when no period budget was ever set for a category. */
+  fallbackCap: (category: string) => number;
+  /** Categories to track even without spend (e.g. manual envelopes). */
+  categories?: string[];
+  totalBudget: number | null;
+  /** Closed periods to replay before `period`; rollover starts from zero at the oldest. */
+  lookback?: number;
+  /** Transactions in other currencies are converted with this (see makeTxConverter). */
+  convert?: Convert;
+};
+
+/**
+ * Replays the last `lookback` closed periods so rollover carries through to
+ * `period`. Returns the closed periods (oldest first) and the per-category
+ * figures for `period` itself.
+ */
+export function buildPeriodLedger(input: LedgerInput): { history: PeriodRecord[]; current: Record<string, CategoryPeriod> } {
+  const { transactions, spec, period, categoryBudgets, rollover, fallbackCap, totalBudget } = input;
+  const lookback = input.lookback ?? 12;
+  const carried: Record<string, number> = {};
+  const history: PeriodRecord[] = [];
+  let current: Record<string, CategoryPeriod> = {};
+
+  for (let i = lookback; i >= 0; i--) {
+    const p = i === 0 ? period : shiftPeriod(period, -i, spec);
+    const spend = spendByCategory(transactions, p.start, p.end, input.convert);
+    const names = new Set([
+      ...Object.keys(spend),
+      ...(input.categories || []),
+      ...Object.keys(categoryBudgets[p.key] || {}),
+      ...Object.keys(carried),
+    ]);
+    const categories: Record<string, CategoryPeriod> = {};
+    names.forEach(name => {
+      const budgeted = resolveCategoryBudget(categoryBudgets, p.key, name, fallbackCap(name));
+      const carriedIn = carried[name] || 0;
+      categories[name] = { budgeted, carriedIn, spent: spend[name] || 0 };
+    });
+
+    if (i === 0) {
+      current = categories;
+      break;
+    }
+    const spent = Object.values(spend).reduce((s, n) => s + n, 0);
+    // Nothing happened before the first tracked period, so don't record it.
+    if (spent > 0 || history.length) {
+      history.push({ key: p.key, start: p.start.toISOString(), end: p.end.toISOString(), budget: totalBudget, spent, categories });
+    }
+    Object.entries(categories).forEach(([name, c]) => {
+      const next = carryOver(rollover[name], c.budgeted + c.carriedIn - c.spent);
+      if (next) carried[name] = next; else delete carried[name];
+    });
+  }
+  return { history, current };
+}
+
+function median(values: number[]): number {
+  if (!values.length) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/**
+ * Typical spend across the most recent `count` closed periods: the median, so
+ * one unusual month doesn't drag it. Pass a category for its own figure.
+ * Returns null when there's no history to compare against.
+ */
+export function typicalSpend(history: PeriodRecord[], category?: string, count = 6): number | null {
+  const recent = history.slice(-count);
+  if (!recent.length) return null;
+  return median(recent.map(r => (category ? r.categories[category]?.spent || 0 : r.spent)));
+}
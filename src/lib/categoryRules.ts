@@ -0,0 +1,201 @@
+import type { Transaction } from '../store/transactions';
+
+/**
+ * Rule-based auto-categorisation. Rules are evaluated in list order; for each
+ * action (category, title, tags) the first matching rule wins, so users can
+ * put specific rules above broad ones.
+ */
+
+export type RuleConditions = {
+  text?: string; // case-insensitive "contains"
+  textField?: 'note' | 'title' | 'any';
+  minAmount?: number;
+  maxAmount?: number;
+  account?: string;
+  weekdays?: number[]; // 0 = Sunday … 6 = Saturday
+  type?: 'expense' | 'income';
+};
+
+export type RuleActions = {
+  category?: string;
+  title?: string;
+  tags?: string[];
+};
+
+export type CategoryRule = {
+  id: string;
+  name: string;
+  enabled: boolean;
+  conditions: RuleConditions;
+  actions: RuleActions;
+  source?: 'user' | 'learned';
+  createdAt: string;
+};
+
+export type RuleChange = {
+  txId: string;
+  before: Pick<Transaction, 'category' | 'title' | 'tags'>;
+  after: Partial<Pick<Transaction, 'category' | 'title' | 'tags'>>;
+  ruleIds: string[];
+};
+
+/** A category correction made by the user, used to learn new rules. */
+export type Correction = {
+  merchant: string;
+  from: string;
+  to: string;
+  at: string;
+};
+
+export type RuleProposal = {
+  merchant: string;
+  category: string;
+  count: number;
+};
+
+type RuleTarget = Pick<Transaction, 'type' | 'amount' | 'date' | 'note' | 'title' | 'account'>;
+
+export function ruleMatches(rule: CategoryRule, tx: RuleTarget): boolean {
+  if (!rule.enabled) return false;
+  const c = rule.conditions || {};
+  const hasAny = !!(c.text || c.account || c.type || c.weekdays?.length ||
+    typeof c.minAmount === 'number' || typeof c.maxAmount === 'number');
+  if (!hasAny) return false; // an empty rule would match everything
+
+  if (c.type && tx.type !== c.type) return false;
+  if (c.account && tx.account !== c.account) return false;
+
+  const amount = Math.abs(Number(tx.amount) || 0);
+  if (typeof c.minAmount === 'number' && amount < c.minAmount) return false;
+  if (typeof c.maxAmount === 'number' && amount > c.maxAmount) return false;
+
+  if (c.weekdays && c.weekdays.length > 0) {
+    const day = new Date(tx.date).getDay();
+    if (!c.weekdays.includes(day)) return false;
+  }
+
+  if (c.text) {
+    const needle = c.text.trim().toLowerCase();
+    const field = c.textField || 'any';
+    const haystack = [
+      field !== 'title' ? tx.note || '' : '',
+      field !== 'note' ? tx.title || '' : '',
+    ].join(' ').toLowerCase();
+    // Learned rules hold a merchant key, so also compare with store numbers and punctuation stripped.
+    // User-typed text is matched as typed: "7-eleven" mustn't become "eleven"
+    const key = rule.source === 'learned' ? normalizeMerchant(needle) : '';
+    if (!haystack.includes(needle) && !(key && normalizeMerchant(haystack).includes(key))) return false;
+  }
+  return true;
+}
+
+/** Fields the matching rules would set on `tx`, plus which rules fired. */
+export function evaluateRules(
+  rules: CategoryRule[],
+  tx: RuleTarget & Pick<Transaction, 'category' | 'tags' | 'splits'>,
+): { patch: RuleChange['after']; ruleIds: string[] } {
+  const patch: RuleChange['after'] = {};
+  const ruleIds: string[] = [];
+  for (const rule of rules) {
+    if (!ruleMatches(rule, tx)) continue;
+    let used = false;
+    const a = rule.actions || {};
+    // Split transactions keep their per-slice categories
+    if (a.category && patch.category === undefined && !(tx.splits && tx.splits.length)) {
+      patch.category = a.category;
+      used = true;
+    }
+    if (a.title && patch.title === undefined) {
+      patch.title = a.title;
+      used = true;
+    }
+    if (a.tags && a.tags.length) {
+      const merged = Array.from(new Set([...(patch.tags || tx.tags || []), ...a.tags]));
+      patch.tags = merged;
+      used = true;
+    }
+    if (used) ruleIds.push(rule.id);
+  }
+  return { patch, ruleIds };
+}
+
+/**
+ * Applies rules to a transaction about to be created. With `keepCategory`
+ * the category was chosen by the user, so rules only fill title and tags.
+ */
+export function applyRules<T extends RuleTarget & Pick<Transaction, 'category' | 'tags' | 'splits'>>(
+  rules: CategoryRule[],
+  tx: T,
+  opts?: { keepCategory?: boolean },
+): T {
+  if (!rules.length || tx.type === 'transfer') return tx;
+  const { patch } = evaluateRules(rules, tx);
+  if (opts?.keepCategory) delete patch.category;
+  return { ...tx, ...patch };
+}
+
+/** Dry run over existing transactions: only entries that would actually change. */
+export function previewRules(rules: CategoryRule[], transactions: Transaction[]): RuleChange[] {
+  const changes: RuleChange[] = [];
+  for (const tx of transactions) {
+    if (tx.type === 'transfer') continue;
+    const { patch, ruleIds } = evaluateRules(rules, tx);
+    const after: RuleChange['after'] = {};
+    if (patch.category !== undefined && patch.category !== tx.category) after.category = patch.category;
+    if (patch.title !== undefined && patch.title !== tx.title) after.title = patch.title;
+    if (patch.tags && !sameTags(patch.tags, tx.tags)) after.tags = patch.tags;
+    if (Object.keys(after).length === 0) continue;
+    changes.push({
+      txId: tx.id,
+      before: { category: tx.category, title: tx.title, tags: tx.tags },
+      after,
+      ruleIds,
+    });
+  }
+  return changes;
+}
+
+function sameTags(a?: string[], b?: string[]) {
+  const x = [...(a || [])].sort();
+  const y = [...(b || [])].sort();
+  return x.length === y.length && x.every((v, i) => v === y[i]);
+}
+
+function normalizeMerchant(text: string): string {
+  return text.toLowerCase().replace(/\d+/g, ' ').replace(/[^a-z]+/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+/** Normalised merchant key: the note/title with digits and punctuation stripped. */
+export function merchantKey(tx: Pick<Transaction, 'note' | 'title'>): string {
+  return normalizeMerchant(tx.title || tx.note || '');
+}
+
+/**
+ * Suggests rules for merchants the user has re-categorised to the same
+ * category at least `threshold` times, unless a rule already covers them.
+ */
+export function proposeRules(
+  corrections: Correction[],
+  rules: CategoryRule[],
+  dismissed: string[] = [],
+  threshold = 3,
+): RuleProposal[] {
+  const counts: Record<string, RuleProposal> = {};
+  for (const c of corrections) {
+    if (!c.merchant || !c.to) continue;
+    const k = `${c.merchant}→${c.to}`;
+    counts[k] = counts[k] || { merchant: c.merchant, category: c.to, count: 0 };
+    counts[k].count += 1;
+  }
+  return Object.entries(counts)
+    .filter(([k, p]) => p.count >= threshold && !dismissed.includes(k))
+    .filter(([, p]) => !rules.some(r =>
+      r.enabled && (r.conditions.text || '').toLowerCase() === p.merchant && r.actions.category === p.category
+    ))
+    .map(([, p]) => p)
+    .sort((a, b) => b.count - a.count);
+}
+
+export function proposalKey(p: Pick<RuleProposal, 'merchant' | 'category'>) {
+  return `${p.merchant}→${p.category}`;
+}
@@ -0,0 +1,145 @@
+/**
+ * Corporate actions: splits, ticker changes and mergers recorded against a
+ * holding. Stored lots are never rewritten; everything that counts shares or
+ * cost basis reads them through `adjustedLots`, which restates lots dated
+ * before each action in post-action shares.
+ */
+
+import type { CorporateAction, CorporateActionKind, Holding, Lot } from '../features/invest';
+
+export const CORPORATE_ACTION_KINDS: Array<{ key: CorporateActionKind; label: string; hint: string }> = [
+  { key: 'split', label: 'Split', hint: 'More or fewer shares, same total cost' },
+  { key: 'rename', label: 'Ticker change', hint: 'Same shares under a new symbol' },
+  { key: 'merger', label: 'Merger', hint: 'Shares converted into another company' },
+];
+
+const CASH_SUFFIX = ':cash';
+
+const time = (iso: string) => new Date(iso).getTime();
+
+function byDate(actions: CorporateAction[] = []) {
+  return [...actions].sort((a, b) => time(a.date) - time(b.date));
+}
+
+/**
+ * Follows one lot through the actions after it was traded. `onApply` sees each
+ * action that changed the lot and the cumulative share factor after it.
+ */
+function walk(lot: Lot, holdingSymbol: string, actions: CorporateAction[], until = Infinity, onApply?: (a: CorporateAction, factor: number) => void) {
+  let symbol = lot.symbol || holdingSymbol;
+  let factor = 1;
+  const t = time(lot.date);
+  for (const a of actions) {
+    const at = time(a.date);
+    if (at <= t) continue;
+    if (at >= until) break;
+    if (a.symbol !== symbol) continue;
+    if (a.kind !== 'rename') factor *= Number(a.ratio) > 0 ? Number(a.ratio) : 1;
+    if (a.kind !== 'split' && a.toSymbol) symbol = a.toSymbol;
+    onApply?.(a, factor);
+  }
+  return { symbol, factor };
+}
+
+/**
+ * The holding's lots in today's shares: quantities and prices of lots traded
+ * before a split or merger are scaled by its ratio (total cost is unchanged),
+ * and a sell is added on the action date for any fractional share paid out as
+ * cash in lieu. Pending lots haven't been traded and are left out. Returns
+ * `h.lots` itself when there is nothing to adjust.
+ */
+export function adjustedLots(h: Pick<Holding, 'symbol' | 'lots' | 'actions'> | null | undefined): Lot[] {
+  const all = h?.lots || [];
+  const lots = all.some(l => l.pending) ? all.filter(l => !l.pending) : all;
+  if (!h?.actions?.length) return lots;
+  const actions = byDate(h.actions);
+
+  // Shares held going into each action, to find the fraction paid as cash
+  const held: Record<string, number> = {};
+  for (const l of lots) {
+    walk(l, h.symbol, actions, Infinity, (a, factor) => {
+      held[a.id] = (held[a.id] || 0) + (l.side === 'buy' ? 1 : -1) * l.qty * factor;
+    });
+  }
+  const cash: Lot[] = [];
+  for (const a of actions) {
+    if (a.kind === 'rename' || !(Number(a.cashInLieu) > 0)) continue;
+    const qty = held[a.id] || 0;
+    const fraction = qty - Math.floor(qty + 1e-9);
+    if (fraction <= 1e-6) continue;
+    cash.push({
+      id: a.id + CASH_SUFFIX,
+      side: 'sell',
+      qty: fraction,
+      price: Number(a.cashInLieu) / fraction,
+      date: a.date,
+      symbol: a.toSymbol || a.symbol,
+    });
+  }
+
+  return [...lots, ...cash].map(l => {
+    const { factor } = walk(l, h.symbol, actions);
+    return factor === 1 ? l : { ...l, qty: l.qty * factor, price: l.price / factor };
+  });
+}
+
+/**
+ * Undoes a rename or merger recorded on `h`: the lots that came in through it,
+ * the actions that applied to them before, and their income. Income not tied
+ * to a DRIP lot only goes back when every earlier lot does, since otherwise
+ * there's no telling which side paid it.
+ */
+export function separateMerged(h: Holding, action: CorporateAction): { back: Pick<Holding, 'lots' | 'actions' | 'income'>; rest: Pick<Holding, 'lots' | 'actions' | 'income'> } {
+  const actions = byDate(h.actions);
+  const until = time(action.date);
+  const movedActions = new Set<string>([action.id]);
+  const movedLots = new Set<string>();
+  for (const l of h.lots || []) {
+    if (time(l.date) >= until) continue;
+    const applied: string[] = [];
+    const { symbol } = walk(l, h.symbol, actions, until, a => { applied.push(a.id); });
+    if (symbol !== action.symbol) continue;
+    movedLots.add(l.id);
+    applied.forEach(id => movedActions.add(id));
+  }
+  const earlierStay = (h.lots || []).some(l => !movedLots.has(l.id) && time(l.date) < until);
+  const incomeBack = (e: NonNullable<Holding['income']>[number]) =>
+    e.lotId ? movedLots.has(e.lotId) : !earlierStay && time(e.date) < until;
+
+  const unstamp = (l: Lot): Lot => {
+    if (l.symbol !== action.symbol) return l;
+    const { symbol, ...rest } = l;
+    return rest;
+  };
+  return {
+    back: {
+      lots: (h.lots || []).filter(l => movedLots.has(l.id)).map(unstamp),
+      actions: (h.actions || []).filter(a => movedActions.has(a.id) && a.id !== action.id),
+      income: (h.income || []).filter(incomeBack),
+    },
+    rest: {
+      lots: (h.lots || []).filter(l => !movedLots.has(l.id)),
+      actions: (h.actions || []).filter(a => !movedActions.has(a.id)),
+      income: (h.income || []).filter(e => !incomeBack(e)),
+    },
+  };
+}
+
+/** The action a cash-in-lieu sell from `adjustedLots` came from, or null for a real lot. */
+export function cashInLieuActionId(lotId: string): string | null {
+  return lotId.endsWith(CASH_SUFFIX) ? lotId.slice(0, -CASH_SUFFIX.length) : null;
+}
+
+/** 10 → "10:1", 0.1 → "1:10". */
+export function ratioLabel(ratio?: number): string {
+  const r = Number(ratio) || 1;
+  const fmt = (n: number) => n.toLocaleString(undefined, { maximumFractionDigits: 4 });
+  return r >= 1 ? `${fmt(r)}:1` : `1:${fmt(1 / r)}`;
+}
+
+export function describeAction(a: CorporateAction): string {
+  if (a.kind === 'split') return `${ratioLabel(a.ratio)} ${Number(a.ratio) < 1 ? 'reverse split' : 'split'}`;
+  if (a.kind === 'rename') return `${a.symbol} renamed to ${a.toSymbol}`;
+  const per = (Number(a.ratio) || 1).toLocaleString(undefined, { maximumFractionDigits: 6 });
+  return `${a.symbol} merged into ${a.toSymbol}, ${per} per share`;
+}
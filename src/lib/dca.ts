@@ -0,0 +1,185 @@
+/**
+ * Dollar-cost averaging schedules: when each plan's buys fall due, what a
+ * period's buys come to at today's prices, and how closely past periods
+ * followed the plan.
+ */
+
+import type { Holding, Quote } from '../features/invest';
+import type { DCACadence, DCAExecution, DCAPlan } from '../store/plans';
+import { convertCurrency, type FxRates } from './fx';
+
+export const DCA_CADENCES: Array<{ key: DCACadence; label: string; perYear: number }> = [
+  { key: 'weekly', label: 'Weekly', perYear: 52 },
+  { key: 'biweekly', label: 'Every 2 weeks', perYear: 26 },
+  { key: 'monthly', label: 'Monthly', perYear: 12 },
+];
+
+export const cadenceLabel = (c: DCACadence) => DCA_CADENCES.find(x => x.key === c)?.label || c;
+
+/** Local calendar day as YYYY-MM-DD, the key executions are recorded against. */
+export function dayKey(d: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
+
+export function parseDayKey(key: string): Date {
+  const [y, m, d] = key.split('-').map(Number);
+  return new Date(y, (m || 1) - 1, d || 1);
+}
+
+/** The `n`th due date after `start`; monthly dates keep the start's day, clamped to short months. */
+export function addPeriods(start: Date, cadence: DCACadence, n: number): Date {
+  if (cadence === 'monthly') {
+    const y = start.getFullYear();
+    const m = start.getMonth() + n;
+    const last = new Date(y, m + 1, 0).getDate();
+    return new Date(y, m, Math.min(start.getDate(), last));
+  }
+  const d = new Date(start.getFullYear(), start.getMonth(), start.getDate());
+  d.setDate(d.getDate() + n * (cadence === 'weekly' ? 7 : 14));
+  return d;
+}
+
+/** Every due date from the plan's start through `until`. */
+export function dueDates(plan: Pick<DCAPlan, 'startDate' | 'period'>, until: Date): Date[] {
+  const start = parseDayKey(plan.startDate);
+  const out: Date[] = [];
+  for (let n = 0; ; n++) {
+    const d = addPeriods(start, plan.period, n);
+    if (d > until || n > 5000) break;
+    out.push(d);
+  }
+  return out;
+}
+
+/** Due dates up to today with nothing recorded or skipped, oldest first. */
+export function outstandingDates(plan: DCAPlan, now = new Date()): Date[] {
+  const done = new Set((plan.history || []).map(e => e.due));
+  return dueDates(plan, now).filter(d => !done.has(dayKey(d)));
+}
+
+/** The period to record next: the oldest outstanding one, else the next one coming up. */
+export function nextDue(plan: DCAPlan, now = new Date()): { date: Date; overdue: boolean } {
+  const open = outstandingDates(plan, now);
+  if (open.length) return { date: open[0], overdue: dayKey(open[0]) < dayKey(now) };
+  const done = new Set((plan.history || []).map(e => e.due));
+  const start = parseDayKey(plan.startDate);
+  for (let n = 0; n <= 5000; n++) {
+    const d = addPeriods(start, plan.period, n);
+    if (d > now && !done.has(dayKey(d))) return { date: d, overdue: false };
+  }
+  return { date: addPeriods(now, plan.period, 1), overdue: false };
+}
+
+/** Upcoming due dates (today included) that have not been recorded, for reminders. */
+export function upcomingDates(plan: DCAPlan, count: number, now = new Date()): Date[] {
+  const done = new Set((plan.history || []).map(e => e.due));
+  const today = dayKey(now);
+  const start = parseDayKey(plan.startDate);
+  const out: Date[] = [];
+  for (let n = 0; out.length < count && n <= 5000; n++) {
+    const d = addPeriods(start, plan.period, n);
+    if (dayKey(d) >= today && !done.has(dayKey(d))) out.push(d);
+  }
+  return out;
+}
+
+/** Best guess at a symbol's trading currency from its exchange suffix. */
+export function symbolCurrency(symbol: string): string {
+  const s = symbol.toUpperCase();
+  if (s.endsWith('.SI')) return 'SGD';
+  if (s.endsWith('.L')) return 'GBP';
+  if (s.endsWith('.T')) return 'JPY';
+  if (s.endsWith('.TO')) return 'CAD';
+  if (s.endsWith('.AX')) return 'AUD';
+  if (s.endsWith('.HK')) return 'HKD';
+  if (s.endsWith('.PA') || s.endsWith('.DE')) return 'EUR';
+  if (s.endsWith('.SW')) return 'CHF';
+  return 'USD';
+}
+
+export type PlannedBuy = {
+  symbol: string;
+  qty: number;
+  price: number;     // native currency
+  currency: string;
+  amount: number;    // plan currency
+};
+
+/**
+ * One period's buys at today's prices: the plan amount (in `currency`) split
+ * by weight, in fractional units. Symbols without a price are listed in
+ * `missing` rather than bought.
+ */
+export function planBuys(
+  plan: Pick<DCAPlan, 'amount' | 'symbols'>,
+  opts: { quotes: Record<string, Quote | undefined>; fxRates?: FxRates; currency: string; holdings?: Record<string, Holding> },
+): { buys: PlannedBuy[]; missing: string[] } {
+  const total = plan.symbols.reduce((s, x) => s + Math.max(0, x.weight), 0);
+  const buys: PlannedBuy[] = [];
+  const missing: string[] = [];
+  for (const { symbol, weight } of plan.symbols) {
+    if (!(weight > 0) || !(total > 0)) continue;
+    const amount = plan.amount * (weight / total);
+    const price = Number(opts.quotes[symbol]?.last || 0);
+    if (!(price > 0)) { missing.push(symbol); continue; }
+    const currency = (opts.holdings?.[symbol]?.currency || symbolCurrency(symbol)).toUpperCase();
+    const native = convertCurrency(opts.fxRates, amount, opts.currency, currency);
+    const qty = Math.floor((native / price) * 1e6) / 1e6;
+    if (qty > 0) buys.push({ symbol, qty, price, currency, amount });
+  }
+  return { buys, missing };
+}
+
+export type AdherenceRow = {
+  due: string;
+  planned: number;
+  invested: number;
+  status: 'done' | 'partial' | 'skipped' | 'missed';
+};
+
+export type AdherenceSummary = {
+  rows: AdherenceRow[];   // newest first
+  planned: number;
+  invested: number;
+  /** Periods with something invested, out of all that have fallen due. */
+  kept: number;
+  due: number;
+  /** Average cost per unit over all recorded buys, native currency. */
+  costs: Array<{ symbol: string; qty: number; cost: number; average: number; currency: string }>;
+};
+
+/** Planned against actually invested amounts for each period that has fallen due or been recorded. */
+export function adherence(plan: DCAPlan, now = new Date()): AdherenceSummary {
+  const byDue = new Map<string, DCAExecution>();
+  for (const e of plan.history || []) byDue.set(e.due, e);
+  // Today's period only counts once recorded; there's still time to keep it
+  const keys = new Set([...dueDates(plan, now).map(dayKey).filter(k => k < dayKey(now)), ...byDue.keys()]);
+
+  const rows: AdherenceRow[] = Array.from(keys).sort().reverse().map(due => {
+    const e = byDue.get(due);
+    const planned = e?.planned ?? plan.amount;
+    const invested = e?.invested ?? 0;
+    const status = !e ? 'missed' : e.skipped ? 'skipped' : invested >= planned * 0.995 ? 'done' : 'partial';
+    return { due, planned, invested, status };
+  });
+
+  const costs = new Map<string, { qty: number; cost: number; currency: string }>();
+  for (const e of plan.history || []) {
+    for (const b of e.buys || []) {
+      const c = costs.get(b.symbol) || { qty: 0, cost: 0, currency: b.currency };
+      c.qty += b.qty;
+      c.cost += b.qty * b.price;
+      costs.set(b.symbol, c);
+    }
+  }
+
+  return {
+    rows,
+    planned: rows.reduce((s, r) => s + r.planned, 0),
+    invested: rows.reduce((s, r) => s + r.invested, 0),
+    kept: rows.filter(r => r.invested > 0).length,
+    due: rows.length,
+    costs: Array.from(costs, ([symbol, c]) => ({ symbol, ...c, average: c.qty > 0 ? c.cost / c.qty : 0 })),
+  };
+}
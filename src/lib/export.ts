@@ -2,6 +2,7 @@ import { Share, Platform, Alert } from 'react-native';
 import * as FileSystem from 'expo-file-system';
 import { useInvestStore } from '../features/invest';
 import { computePnL } from './positions';
+import { adjustedLots } from './corporateActions';
 
 /** Build holdings CSV for a portfolio. */
 export function buildHoldingsCsv(portfolio: any, quotes: any, fxRates: any) {
@@ -14,7 +15,7 @@ export function buildHoldingsCsv(portfolio: any, quotes: any, fxRates: any) {
   Object.keys(holdings).forEach(sym => {
     const h = holdings[sym];
     const last = quotes?.[sym]?.last ?? 0;
-    const pnl = computePnL(h.lots || [], last);
+    const pnl = computePnL(adjustedLots(h), last, portfolio?.costMethod);
     const qty = pnl.qty;
     const avg = pnl.avgCost;
     const mv = qty * last;
@@ -52,17 +53,26 @@ export async function exportPortfolioCsv(portfolioId: string) {
   return uri;
 }
 
-/** Build transactions CSV for a single holding within a portfolio. */
+/** Build transactions CSV (trades and income) for a single holding within a portfolio. */
 export function buildHoldingTxCsv(portfolio: any, symbol: string) {
   const rows: string[] = [];
   rows.push(['date_iso','side','qty','price_native','fees_native','cash_flow_native','currency'].join(','));
   const holding = portfolio?.holdings?.[symbol];
   if (!holding) return rows.join('\n');
   const cur = (holding.currency || portfolio.baseCurrency || 'USD').toUpperCase();
-  const lots = Array.isArray(holding.lots) ? holding.lots : [];
+  // Pending lots (e.g. proposed by a rebalance) haven't been traded
+  const lots = (Array.isArray(holding.lots) ? holding.lots : []).filter((l:any) => !l.pending);
   const norm = lots.map((l:any) => ({ ...l, fee: (l.fee ?? l.fees) || 0 }));
-  norm.sort((a:any,b:any)=> new Date(a.date).getTime() - new Date(b.date).getTime());
-  norm.forEach((l:any) => {
+  // Income rows: withholding goes in the fees column, cash flow is the net amount
+  const income = (Array.isArray(holding.income) ? holding.income : []).map((e:any) => ({ ...e, side: e.kind, income: true }));
+  const all = [...norm, ...income];
+  all.sort((a:any,b:any)=> new Date(a.date).getTime() - new Date(b.date).getTime());
+  all.forEach((l:any) => {
+    if (l.income) {
+      const tax = Number(l.withholding || 0);
+      rows.push([new Date(l.date).toISOString(), String(l.side), '', '', tax.toFixed(2), (Number(l.amount || 0) - tax).toFixed(2), cur].join(','));
+      return;
+    }
     const fees = Number(l.fee || 0);
     const gross = Number(l.qty) * Number(l.price);
     // cash flow: buys negative (spend), sells positive (receive)
@@ -179,7 +179,8 @@ export async function fetchFinnhubProfile(symbol: string): Promise<FinnhubFundam
       marketCap: profile.marketCapitalization ? profile.marketCapitalization * 1000000 : undefined,
       peRatio: metric.peNormalizedAnnual,
       eps: metric.epsBasicExclExtraItemsAnnual,
-      dividendYield: metric.dividendYieldIndicatedAnnual,
+      // Finnhub reports a percentage; fundamentals hold a fraction
+      dividendYield: metric.dividendYieldIndicatedAnnual !== undefined ? metric.dividendYieldIndicatedAnnual / 100 : undefined,
       beta: metric.beta,
       week52High: metric['52WeekHigh'],
       week52Low: metric['52WeekLow'],
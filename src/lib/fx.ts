@@ -116,6 +116,10 @@ async function setCachedRates(rates: FxRatesExtended): Promise<void> {
   try {
     await AsyncStorage.setItem(FX_CACHE_KEY, JSON.stringify(rates));
     await AsyncStorage.setItem(FX_CACHE_TIMESTAMP_KEY, String(rates.timestamp));
+    // Keep a dated copy so transactions can later be converted at the rate on their date
+    const { useFxHistoryStore } = require('../store/fxHistory');
+    const { usdRatesFromPairs } = require('./fxHistory');
+    await useFxHistoryStore.getState().recordRates(rates.lastUpdated || new Date(rates.timestamp).toISOString(), usdRatesFromPairs(rates.rates));
     console.log(`💱 [setCachedRates] Cached ${rates.totalPairs} FX pairs. Last updated: ${rates.lastUpdated}`);
   } catch (error) {
     console.error('💱 [setCachedRates] Error saving cache:', error);
@@ -283,10 +287,10 @@ export async function getFxRates(): Promise<FxRatesExtended> {
 }
 
 /**
- * Get exchange rate between two currencies
- * Uses the new caching system
+ * Get exchange rate between two currencies, or undefined when the rates
+ * table has no such pair (directly or via USD)
  */
-export async function getExchangeRate(from: string, to: string): Promise<number> {
+export async function findExchangeRate(from: string, to: string): Promise<number | undefined> {
   const fromUpper = from.toUpperCase();
   const toUpper = to.toUpperCase();
 
@@ -308,7 +312,18 @@ export async function getExchangeRate(from: string, to: string): Promise<number>
     return fromToUSD * usdToTo;
   }
 
-  console.warn(`💱 [getExchangeRate] No rate found for ${fromUpper} -> ${toUpper}`);
+  return undefined;
+}
+
+/**
+ * Get exchange rate between two currencies
+ * Uses the new caching system
+ */
+export async function getExchangeRate(from: string, to: string): Promise<number> {
+  const rate = await findExchangeRate(from, to);
+  if (rate !== undefined) return rate;
+
+  console.warn(`💱 [getExchangeRate] No rate found for ${from.toUpperCase()} -> ${to.toUpperCase()}`);
   return 1; // Fallback to 1:1
 }
 
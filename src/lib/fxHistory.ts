@@ -0,0 +1,86 @@
+/**
+ * Dated FX history. Each day stores USD-based rates (1 USD = x CCY), the same
+ * shape as the USD_* pairs in the latest-rates cache, so any cross rate can
+ * be derived through USD.
+ */
+export type UsdRates = Record<string, number>;
+export type FxHistory = Record<string, UsdRates>; // keyed by YYYY-MM-DD
+
+const HISTORICAL_API_URL = 'https://api.frankfurter.app';
+
+export function fxDateKey(date: string | number | Date): string {
+  const d = date instanceof Date ? date : new Date(date);
+  if (Number.isNaN(d.getTime())) return new Date().toISOString().slice(0, 10);
+  return d.toISOString().slice(0, 10);
+}
+
+/**
+ * Rates in effect on `date`: the closest snapshot on or before it, otherwise
+ * the earliest one after it (for dates older than the history).
+ */
+export function usdRatesOn(history: FxHistory, date: string | number | Date): UsdRates | undefined {
+  const keys = Object.keys(history).sort();
+  if (keys.length === 0) return undefined;
+  const target = fxDateKey(date);
+  let chosen: string | undefined;
+  for (const k of keys) {
+    if (k <= target) chosen = k;
+    else break;
+  }
+  return history[chosen ?? keys[0]];
+}
+
+/** Units of `to` per unit of `from` on `date`, or undefined if either currency is unknown. */
+export function rateOn(history: FxHistory, from: string, to: string, date: string | number | Date): number | undefined {
+  const src = (from || 'USD').toUpperCase();
+  const dest = (to || 'USD').toUpperCase();
+  if (src === dest) return 1;
+  const rates = usdRatesOn(history, date);
+  if (!rates) return undefined;
+  const fromRate = src === 'USD' ? 1 : rates[src];
+  const toRate = dest === 'USD' ? 1 : rates[dest];
+  if (!fromRate || !toRate) return undefined;
+  return toRate / fromRate;
+}
+
+/** Converts at the dated rate; returns the amount unchanged when no rate is known. */
+export function convertOn(
+  history: FxHistory,
+  amount: number,
+  from: string,
+  to: string,
+  date: string | number | Date,
+): number {
+  if (!Number.isFinite(amount)) return 0;
+  const rate = rateOn(history, from, to, date);
+  return rate === undefined ? amount : amount * rate;
+}
+
+/** Pulls the USD_* pairs out of a cross-rate map ("USD_SGD": 1.35, ...). */
+export function usdRatesFromPairs(pairs: Record<string, number>): UsdRates {
+  const out: UsdRates = { USD: 1 };
+  for (const [pair, rate] of Object.entries(pairs || {})) {
+    if (pair.startsWith('USD_') && Number.isFinite(rate) && rate > 0) out[pair.slice(4)] = rate;
+  }
+  return out;
+}
+
+/** Fetch daily USD-based rates for an inclusive date range (YYYY-MM-DD). */
+export async function fetchHistoricalUsdRates(start: string, end: string): Promise<FxHistory> {
+  const path = start === end ? start : `${start}..${end}`;
+  const res = await fetch(`${HISTORICAL_API_URL}/${path}?from=USD`);
+  if (!res.ok) throw new Error('FX history HTTP ' + res.status);
+  const json: any = await res.json();
+
+  const out: FxHistory = {};
+  if (json?.rates && typeof json.rates === 'object') {
+    // A single date returns { date, rates }; a range returns { rates: { [date]: rates } }
+    const byDate: Record<string, UsdRates> = json.date && !Object.values(json.rates).some(v => typeof v === 'object')
+      ? { [json.date]: json.rates }
+      : json.rates;
+    for (const [date, rates] of Object.entries(byDate)) {
+      out[date] = { USD: 1, ...(rates as UsdRates) };
+    }
+  }
+  return out;
+}
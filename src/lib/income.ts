@@ -0,0 +1,113 @@
+/**
+ * Investment income: dividends, coupons and fund distributions recorded
+ * against holdings, and a forward view of what open positions should pay
+ * over the next year.
+ */
+
+import type { Holding, IncomeEvent, IncomeKind, Portfolio, Quote } from '../features/invest';
+import { convertCurrency, type FxRates } from './fx';
+import { adjustedLots } from './corporateActions';
+
+export const INCOME_KINDS: Array<{ key: IncomeKind; label: string }> = [
+  { key: 'dividend', label: 'Dividend' },
+  { key: 'interest', label: 'Interest' },
+  { key: 'distribution', label: 'Distribution' },
+];
+
+const YEAR = 365 * 24 * 60 * 60 * 1000;
+
+export function netIncome(e: IncomeEvent): number {
+  return Number(e.amount || 0) - Number(e.withholding || 0);
+}
+
+export type IncomeTotals = { gross: number; withholding: number; net: number; reinvested: number; count: number };
+
+/** Totals for a list of events, optionally only those on or after `since`. */
+export function incomeTotals(events: IncomeEvent[] = [], since?: Date): IncomeTotals {
+  const out: IncomeTotals = { gross: 0, withholding: 0, net: 0, reinvested: 0, count: 0 };
+  for (const e of events) {
+    if (since && new Date(e.date) < since) continue;
+    out.gross += Number(e.amount || 0);
+    out.withholding += Number(e.withholding || 0);
+    out.net += netIncome(e);
+    if (e.lotId) out.reinvested += netIncome(e);
+    out.count++;
+  }
+  return out;
+}
+
+/**
+ * Net income a holding has paid (up to `asOf`), in its own currency. Reinvested
+ * income counts too: the DRIP lot's cost came from the payout, not from the
+ * investor.
+ */
+export function holdingIncome(h: Pick<Holding, 'income'>, asOf?: Date): number {
+  const events = asOf ? (h.income || []).filter(e => new Date(e.date) <= asOf) : h.income;
+  return incomeTotals(events).net;
+}
+
+/** Dividend yield as a usable fraction (providers' fundamentals already hold one), else 0. */
+export function normalizeYield(y?: number): number {
+  if (!y || !isFinite(y) || y <= 0) return 0;
+  return y;
+}
+
+export type ProjectedIncomeRow = {
+  symbol: string;
+  qty: number;
+  value: number;
+  yield: number;
+  /** Expected over the next 12 months. */
+  annual: number;
+  /** Net received over the last 12 months. */
+  trailing: number;
+  source: 'yield' | 'trailing' | 'none';
+};
+
+/**
+ * Projected annual income per open holding, in `currency`. Uses the quoted
+ * dividend yield where there is one, else what was actually received over the
+ * last 12 months.
+ */
+export function projectIncome(
+  portfolios: Portfolio[],
+  quotes: Record<string, Quote | undefined>,
+  fxRates: FxRates | undefined,
+  currency: string,
+  now: Date = new Date(),
+): { rows: ProjectedIncomeRow[]; annual: number; trailing: number; value: number } {
+  const since = new Date(now.getTime() - YEAR);
+  const bySymbol: Record<string, ProjectedIncomeRow> = {};
+
+  for (const p of portfolios) {
+    for (const h of Object.values(p.holdings || {})) {
+      if (!h || h.archived) continue;
+      const from = (h.currency || p.baseCurrency || 'USD').toUpperCase();
+      const conv = (n: number) => convertCurrency(fxRates, n, from, currency);
+      const qty = adjustedLots(h).reduce((s, l) => s + (l.side === 'buy' ? l.qty : -l.qty), 0);
+      const trailing = conv(incomeTotals(h.income, since).net);
+      if (qty <= 1e-9 && !trailing) continue;
+
+      const q = quotes[h.symbol];
+      const value = conv(Math.max(0, qty) * Number(q?.last || 0));
+      const row = bySymbol[h.symbol] ||= { symbol: h.symbol, qty: 0, value: 0, yield: 0, annual: 0, trailing: 0, source: 'none' };
+      row.qty += Math.max(0, qty);
+      row.value += value;
+      row.trailing += trailing;
+      row.yield = normalizeYield(q?.fundamentals?.dividendYield);
+    }
+  }
+
+  const rows = Object.values(bySymbol).map(r => {
+    if (r.yield > 0 && r.value > 0) return { ...r, annual: r.value * r.yield, source: 'yield' as const };
+    if (r.qty > 0 && r.trailing > 0) return { ...r, annual: r.trailing, source: 'trailing' as const };
+    return r;
+  }).sort((a, b) => b.annual - a.annual || b.trailing - a.trailing);
+
+  return {
+    rows,
+    annual: rows.reduce((s, r) => s + r.annual, 0),
+    trailing: rows.reduce((s, r) => s + r.trailing, 0),
+    value: rows.reduce((s, r) => s + r.value, 0),
+  };
+}
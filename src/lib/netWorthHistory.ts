@@ -1,6 +1,9 @@
-import { Transaction } from '../store/transactions';
+import { Transaction, txBalanceDeltas } from '../store/transactions';
 import { BankAccount } from '../store/accounts';
 import { useInvestStore } from '../features/invest';
+import { FxHistory, convertOn } from './fxHistory';
+import { accountCurrency, makeBalanceConverter } from '../store/fxHistory';
+import { valueAt, type PortfolioValuePoint } from './portfolioHistory';
 
 export type NetWorthDataPoint = {
   t: number; // timestamp
@@ -10,16 +13,31 @@ export type NetWorthDataPoint = {
   label?: string; // Optional label for chart display
 };
 
+export type NetWorthFxOptions = {
+  baseCurrency: string;
+  history: FxHistory;
+};
+
 /**
- * Calculate historical net worth by working backwards from current state through transactions
+ * Calculate historical net worth by working backwards from current state through transactions.
+ * With `fx`, balances in other currencies are reported in the base currency; each reversed
+ * leg is converted at the rate on its transaction date. With `portfolioHistory` (the daily
+ * value of the portfolios included in `currentPortfolioValue`), investments follow what the
+ * portfolios were worth on each day instead of holding today's value.
  */
 export function calculateHistoricalNetWorth(
   currentAccounts: BankAccount[],
   transactions: Transaction[],
   currentPortfolioValue: number,
-  daysBack: number = 180
+  daysBack: number = 180,
+  fx?: NetWorthFxOptions,
+  portfolioHistory?: PortfolioValuePoint[]
 ): NetWorthDataPoint[] {
   const now = Date.now();
+  const base = fx?.baseCurrency || 'USD';
+  const balanceToBase = fx
+    ? makeBalanceConverter(base, fx.history)
+    : (acc: BankAccount, amount: number = acc.balance || 0) => amount;
   const startTime = now - daysBack * 24 * 3600 * 1000;
 
   // Filter transactions within the time range and sort by date (newest first)
@@ -35,8 +53,8 @@ export function calculateHistoricalNetWorth(
     acc => acc.kind === 'credit' && acc.includeInNetWorth !== false
   );
 
-  let currentCash = cashAccounts.reduce((sum, acc) => sum + (acc.balance || 0), 0);
-  let currentCreditDebt = creditCards.reduce((sum, acc) => sum + Math.abs(acc.balance || 0), 0);
+  let currentCash = cashAccounts.reduce((sum, acc) => sum + balanceToBase(acc), 0);
+  let currentCreditDebt = creditCards.reduce((sum, acc) => sum + Math.abs(balanceToBase(acc)), 0);
 
   // Create daily snapshots
   const dailyData: Map<string, NetWorthDataPoint> = new Map();
@@ -65,32 +83,22 @@ export function calculateHistoricalNetWorth(
     const txTime = txDate.getTime();
     const dateKey = txDate.toISOString().split('T')[0];
 
-    // Reverse the transaction to get the previous state
-    if (tx.account) {
-      const account = currentAccounts.find(a => a.name === tx.account);
-      if (account) {
-        if (account.kind === 'credit') {
-          // Credit card: reverse the transaction
-          if (tx.type === 'expense') {
-            debt -= tx.amount; // Expense increased debt, so subtract to reverse
-          } else {
-            debt += tx.amount; // Income decreased debt, so add to reverse
-          }
-        } else if (account.kind === 'investment' || account.kind === 'retirement') {
-          // Investment/retirement account: track transfers in/out
-          if (tx.type === 'income') {
-            investmentValue -= tx.amount; // Deposit increased investment, so subtract to reverse
-          } else if (tx.type === 'expense') {
-            investmentValue += tx.amount; // Withdrawal decreased investment, so add to reverse
-          }
-        } else {
-          // Regular account
-          if (tx.type === 'expense') {
-            cash += tx.amount; // Expense decreased cash, so add to reverse
-          } else {
-            cash -= tx.amount; // Income increased cash, so subtract to reverse
-          }
-        }
+    // Reverse each balance leg to get the previous state (transfers touch two accounts)
+    for (const leg of txBalanceDeltas(tx)) {
+      const account = currentAccounts.find(a => a.name === leg.account);
+      if (!account) continue;
+      const delta = fx
+        ? convertOn(fx.history, leg.delta, accountCurrency(account, base), base, tx.date)
+        : leg.delta;
+      if (account.kind === 'credit') {
+        // Credit card: spending made the balance more negative (more debt), so undo it
+        debt += delta;
+      } else if (account.kind === 'investment' || account.kind === 'retirement') {
+        // Investment/retirement account: track transfers in/out
+        investmentValue -= delta;
+      } else {
+        // Regular account
+        cash -= delta;
       }
     }
 
@@ -135,7 +143,13 @@ export function calculateHistoricalNetWorth(
     }
   }
 
-  return result;
+  if (!portfolioHistory?.length) return result;
+  // Replace today's portfolio value with what it was worth on each day
+  const portfolioNow = valueAt(portfolioHistory, now);
+  return result.map(point => ({
+    ...point,
+    investments: Math.max(0, point.investments - portfolioNow + valueAt(portfolioHistory, point.t)),
+  }));
 }
 
 /**
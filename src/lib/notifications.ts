@@ -93,15 +93,8 @@ export async function cancel(key: string) {
   await save(list.filter(x => x.key !== key));
 }
 
-export async function scheduleDaily(
-  key: string,
-  title: string,
-  body: string,
-  hour: number,
-  groupId: string,
-  billId: string,
-  memberId: string
-) {
+/** Checks settings and permission and sets up the Android channel; returns the native module. */
+async function prepare(): Promise<any> {
   const { enabled } = await getSettings();
   if (!enabled) throw new Error('Notifications are disabled in settings.');
 
@@ -121,6 +114,19 @@ export async function scheduleDaily(
       // ignore
     }
   }
+  return mod;
+}
+
+export async function scheduleDaily(
+  key: string,
+  title: string,
+  body: string,
+  hour: number,
+  groupId: string,
+  billId: string,
+  memberId: string
+) {
+  const mod = await prepare();
 
   const trigger: any = { hour, minute: 0, repeats: true };
   const notificationId = await mod.scheduleNotificationAsync({ content: { title, body }, trigger });
@@ -133,6 +139,34 @@ export async function scheduleDaily(
   return entry;
 }
 
+/**
+ * One notification at `date`, not kept in the reminder list; the caller holds
+ * on to the returned id to cancel it. Dates already past are skipped (null).
+ */
+export async function scheduleAt(title: string, body: string, date: Date): Promise<string | null> {
+  if (date.getTime() <= Date.now()) return null;
+  const mod = await prepare();
+  const trigger: any = { type: (mod as any).SchedulableTriggerInputTypes?.DATE ?? 'date', date };
+  return mod.scheduleNotificationAsync({ content: { title, body }, trigger });
+}
+
+/** Shows a notification straight away. */
+export async function notifyNow(title: string, body: string): Promise<string> {
+  const mod = await prepare();
+  return mod.scheduleNotificationAsync({ content: { title, body }, trigger: null });
+}
+
+/** Cancels a notification scheduled with `scheduleAt`. */
+export async function cancelScheduled(notificationId: string) {
+  const mod = getModule();
+  if (!mod) return;
+  try {
+    await mod.cancelScheduledNotificationAsync(notificationId);
+  } catch (e) {
+    // ignore
+  }
+}
+
 export async function toggleEnabled(key: string, enable: boolean) {
   const list = await listReminders();
   const r = list.find(x => x.key === key);
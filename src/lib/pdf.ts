@@ -0,0 +1,289 @@
+/**
+ * PDF layout engine
+ *
+ * Documents are described as sections of typed blocks (stat tiles, tables,
+ * charts, notes) and rendered to print-ready HTML, which expo-print turns into
+ * a paginated A4 PDF. Charts are inline SVG so they print without network
+ * access or a WebView. Used by the monthly/annual report and group settlement
+ * statements; new documents only need to build a PdfDocument.
+ */
+
+import { Platform, Share } from 'react-native';
+import * as Print from 'expo-print';
+import * as Sharing from 'expo-sharing';
+import * as FileSystem from 'expo-file-system/legacy';
+
+export type PdfTone = 'default' | 'positive' | 'negative' | 'muted';
+
+export type PdfStat = { label: string; value: string; hint?: string; tone?: PdfTone };
+
+export type PdfColumn = { label: string; align?: 'left' | 'right'; width?: string };
+
+export type PdfSeries = { label: string; color?: string };
+
+export type PdfBlock =
+  | { type: 'text'; text: string; tone?: PdfTone }
+  | { type: 'note'; text: string; tone?: PdfTone }
+  | { type: 'stats'; items: PdfStat[] }
+  | { type: 'table'; columns: PdfColumn[]; rows: string[][]; total?: string[]; emptyText?: string }
+  /** Horizontal bars with a share of the total, e.g. category breakdown */
+  | { type: 'breakdown'; items: Array<{ label: string; value: number; display: string; color?: string }> }
+  /** Vertical grouped bars, one group per label */
+  | { type: 'barChart'; series: PdfSeries[]; labels: string[]; values: number[][]; format?: (n: number) => string }
+  /** One or more lines over the same labels */
+  | { type: 'lineChart'; series: PdfSeries[]; labels: string[]; values: number[][]; format?: (n: number) => string };
+
+export type PdfSection = {
+  title: string;
+  description?: string;
+  blocks: PdfBlock[];
+  /** Start this section on a fresh page */
+  newPage?: boolean;
+};
+
+export type PdfDocument = {
+  title: string;
+  subtitle?: string;
+  /** Small print under the title, e.g. currency and generation date */
+  meta?: string;
+  sections: PdfSection[];
+  footer?: string;
+};
+
+const PALETTE = ['#5B5BD6', '#16A34A', '#F59E0B', '#DC2626', '#0EA5E9', '#A855F7', '#64748B'];
+
+const TONE_COLORS: Record<PdfTone, string> = {
+  default: '#111827',
+  positive: '#15803D',
+  negative: '#B91C1C',
+  muted: '#6B7280',
+};
+
+// A4 at 72dpi
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const CHART_WIDTH = 520;
+const CHART_HEIGHT = 180;
+
+export function escapeHtml(value: string): string {
+  return String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+const seriesColor = (series: PdfSeries[], i: number) => series[i]?.color || PALETTE[i % PALETTE.length];
+
+function compactNumber(n: number): string {
+  const abs = Math.abs(n);
+  if (abs >= 1e6) return `${(n / 1e6).toFixed(1)}M`;
+  if (abs >= 1e3) return `${(n / 1e3).toFixed(1)}k`;
+  return n.toFixed(0);
+}
+
+function renderLegend(series: PdfSeries[]): string {
+  if (series.length < 2) return '';
+  return `<div class="legend">${series
+    .map((s, i) => `<span><i style="background:${seriesColor(series, i)}"></i>${escapeHtml(s.label)}</span>`)
+    .join('')}</div>`;
+}
+
+/** Shared axis scaffold: returns the y-scale and the gridline markup. */
+function axes(values: number[][], format: (n: number) => string) {
+  const flat = values.flat().filter(Number.isFinite);
+  const max = Math.max(0, ...flat);
+  const min = Math.min(0, ...flat);
+  const span = max - min || 1;
+  const left = 48;
+  const top = 8;
+  const bottom = 22;
+  const plotH = CHART_HEIGHT - top - bottom;
+  const y = (v: number) => top + ((max - v) / span) * plotH;
+  const ticks = [max, min + span / 2, min].map(v => ({ v, y: y(v) }));
+  if (min < 0) ticks.push({ v: 0, y: y(0) });
+  const grid = ticks
+    .map(t => `<line x1="${left}" x2="${CHART_WIDTH}" y1="${t.y}" y2="${t.y}" stroke="#E5E7EB" stroke-width="1"/>` +
+      `<text x="${left - 6}" y="${t.y + 3}" text-anchor="end" class="axis">${escapeHtml(format(t.v))}</text>`)
+    .join('');
+  return { y, left, top, bottom, plotW: CHART_WIDTH - left, grid };
+}
+
+function renderBarChart(block: Extract<PdfBlock, { type: 'barChart' }>): string {
+  const format = block.format || compactNumber;
+  const { y, left, plotW, grid } = axes(block.values, format);
+  const groups = block.labels.length || 1;
+  const groupW = plotW / groups;
+  const barW = Math.max(2, (groupW * 0.7) / Math.max(1, block.series.length));
+  const zero = y(0);
+  let bars = '';
+  block.labels.forEach((label, gi) => {
+    const gx = left + gi * groupW + groupW * 0.15;
+    block.series.forEach((_, si) => {
+      const v = block.values[si]?.[gi] ?? 0;
+      const top = Math.min(y(v), zero);
+      const h = Math.max(1, Math.abs(zero - y(v)));
+      bars += `<rect x="${gx + si * barW}" y="${top}" width="${barW - 1}" height="${h}" rx="2" fill="${seriesColor(block.series, si)}"/>`;
+    });
+    bars += `<text x="${left + gi * groupW + groupW / 2}" y="${CHART_HEIGHT - 6}" text-anchor="middle" class="axis">${escapeHtml(label)}</text>`;
+  });
+  return `<svg width="${CHART_WIDTH}" height="${CHART_HEIGHT}" viewBox="0 0 ${CHART_WIDTH} ${CHART_HEIGHT}">${grid}${bars}</svg>${renderLegend(block.series)}`;
+}
+
+function renderLineChart(block: Extract<PdfBlock, { type: 'lineChart' }>): string {
+  const format = block.format || compactNumber;
+  const { y, left, plotW, grid } = axes(block.values, format);
+  const n = block.labels.length;
+  const x = (i: number) => left + (n <= 1 ? plotW / 2 : (i / (n - 1)) * (plotW - 8) + 4);
+  const lines = block.series
+    .map((_, si) => {
+      const pts = (block.values[si] || []).map((v, i) => `${x(i).toFixed(1)},${y(v).toFixed(1)}`).join(' ');
+      const color = seriesColor(block.series, si);
+      return `<polyline points="${pts}" fill="none" stroke="${color}" stroke-width="2" stroke-linejoin="round"/>`;
+    })
+    .join('');
+  // Thin the x labels so they never overlap
+  const every = Math.max(1, Math.ceil(n / 12));
+  const labels = block.labels
+    .map((l, i) => (i % every === 0 || i === n - 1
+      ? `<text x="${x(i)}" y="${CHART_HEIGHT - 6}" text-anchor="middle" class="axis">${escapeHtml(l)}</text>`
+      : ''))
+    .join('');
+  return `<svg width="${CHART_WIDTH}" height="${CHART_HEIGHT}" viewBox="0 0 ${CHART_WIDTH} ${CHART_HEIGHT}">${grid}${lines}${labels}</svg>${renderLegend(block.series)}`;
+}
+
+function renderBreakdown(block: Extract<PdfBlock, { type: 'breakdown' }>): string {
+  const total = block.items.reduce((s, i) => s + Math.max(0, i.value), 0) || 1;
+  const max = Math.max(...block.items.map(i => i.value), 1);
+  return `<div class="breakdown">${block.items
+    .map((item, i) => {
+      const pct = (Math.max(0, item.value) / total) * 100;
+      const width = (Math.max(0, item.value) / max) * 100;
+      return `<div class="row"><div class="label">${escapeHtml(item.label)}</div>` +
+        `<div class="track"><div class="fill" style="width:${width.toFixed(1)}%;background:${item.color || PALETTE[i % PALETTE.length]}"></div></div>` +
+        `<div class="value">${escapeHtml(item.display)}<span>${pct.toFixed(1)}%</span></div></div>`;
+    })
+    .join('')}</div>`;
+}
+
+function renderTable(block: Extract<PdfBlock, { type: 'table' }>): string {
+  if (block.rows.length === 0) return `<p class="muted">${escapeHtml(block.emptyText || 'Nothing to show.')}</p>`;
+  const cell = (tag: 'th' | 'td', value: string, i: number) => {
+    const col = block.columns[i];
+    const style = [col?.align === 'right' ? 'text-align:right' : '', col?.width ? `width:${col.width}` : ''].filter(Boolean).join(';');
+    return `<${tag}${style ? ` style="${style}"` : ''}>${escapeHtml(value)}</${tag}>`;
+  };
+  const head = `<tr>${block.columns.map((c, i) => cell('th', c.label, i)).join('')}</tr>`;
+  const body = block.rows.map(r => `<tr>${r.map((v, i) => cell('td', v, i)).join('')}</tr>`).join('');
+  const foot = block.total ? `<tfoot><tr>${block.total.map((v, i) => cell('td', v, i)).join('')}</tr></tfoot>` : '';
+  return `<table><thead>${head}</thead><tbody>${body}</tbody>${foot}</table>`;
+}
+
+function renderBlock(block: PdfBlock): string {
+  switch (block.type) {
+    case 'text':
+      return `<p style="color:${TONE_COLORS[block.tone || 'default']}">${escapeHtml(block.text)}</p>`;
+    case 'note':
+      return `<div class="note" style="border-color:${TONE_COLORS[block.tone || 'muted']}">${escapeHtml(block.text)}</div>`;
+    case 'stats':
+      return `<div class="stats">${block.items
+        .map(s => `<div class="stat"><div class="label">${escapeHtml(s.label)}</div>` +
+          `<div class="value" style="color:${TONE_COLORS[s.tone || 'default']}">${escapeHtml(s.value)}</div>` +
+          (s.hint ? `<div class="hint">${escapeHtml(s.hint)}</div>` : '') + '</div>')
+        .join('')}</div>`;
+    case 'table':
+      return renderTable(block);
+    case 'breakdown':
+      return renderBreakdown(block);
+    case 'barChart':
+      return `<div class="chart">${renderBarChart(block)}</div>`;
+    case 'lineChart':
+      return `<div class="chart">${renderLineChart(block)}</div>`;
+  }
+}
+
+const STYLES = `
+  @page { size: A4; margin: 36px 36px 48px 36px; }
+  * { box-sizing: border-box; }
+  body { font-family: -apple-system, 'Helvetica Neue', Roboto, Arial, sans-serif; color: #111827; font-size: 11px; margin: 0; }
+  header { border-bottom: 2px solid #111827; padding-bottom: 10px; margin-bottom: 18px; }
+  h1 { font-size: 22px; margin: 0; letter-spacing: -0.3px; }
+  .subtitle { font-size: 13px; color: #374151; margin-top: 2px; }
+  .meta { font-size: 10px; color: #6B7280; margin-top: 6px; }
+  section { margin-bottom: 20px; page-break-inside: auto; }
+  section.new-page { page-break-before: always; }
+  h2 { font-size: 14px; margin: 0 0 4px 0; }
+  .description { color: #6B7280; margin: 0 0 10px 0; }
+  p { margin: 0 0 8px 0; line-height: 1.45; }
+  .muted { color: #6B7280; }
+  .stats { display: flex; flex-wrap: wrap; gap: 8px; margin-bottom: 10px; }
+  .stat { flex: 1 1 120px; border: 1px solid #E5E7EB; border-radius: 8px; padding: 8px 10px; page-break-inside: avoid; }
+  .stat .label { color: #6B7280; font-size: 9px; text-transform: uppercase; letter-spacing: 0.4px; }
+  .stat .value { font-size: 15px; font-weight: 700; margin-top: 2px; }
+  .stat .hint { color: #6B7280; font-size: 9px; margin-top: 2px; }
+  table { width: 100%; border-collapse: collapse; margin-bottom: 10px; }
+  thead { display: table-header-group; }
+  tr { page-break-inside: avoid; }
+  th { text-align: left; font-size: 9px; text-transform: uppercase; letter-spacing: 0.4px; color: #6B7280; border-bottom: 1px solid #D1D5DB; padding: 5px 6px; }
+  td { border-bottom: 1px solid #F3F4F6; padding: 5px 6px; vertical-align: top; }
+  tfoot td { font-weight: 700; border-top: 1px solid #D1D5DB; border-bottom: none; }
+  .chart { margin: 4px 0 12px 0; page-break-inside: avoid; }
+  .axis { font-size: 8px; fill: #6B7280; }
+  .legend { display: flex; gap: 14px; font-size: 9px; color: #374151; margin-top: 2px; }
+  .legend i { display: inline-block; width: 8px; height: 8px; border-radius: 2px; margin-right: 4px; }
+  .breakdown .row { display: flex; align-items: center; gap: 8px; margin-bottom: 5px; page-break-inside: avoid; }
+  .breakdown .label { width: 120px; overflow: hidden; white-space: nowrap; text-overflow: ellipsis; }
+  .breakdown .track { flex: 1; height: 8px; background: #F3F4F6; border-radius: 4px; overflow: hidden; }
+  .breakdown .fill { height: 100%; border-radius: 4px; }
+  .breakdown .value { width: 110px; text-align: right; font-weight: 600; }
+  .breakdown .value span { color: #6B7280; font-weight: 400; margin-left: 6px; }
+  .note { border-left: 3px solid; background: #F9FAFB; padding: 8px 10px; margin-bottom: 10px; color: #374151; }
+  footer { margin-top: 24px; color: #9CA3AF; font-size: 9px; border-top: 1px solid #E5E7EB; padding-top: 6px; }
+`;
+
+export function renderPdfHtml(doc: PdfDocument): string {
+  const sections = doc.sections
+    .map(s => `<section${s.newPage ? ' class="new-page"' : ''}><h2>${escapeHtml(s.title)}</h2>` +
+      (s.description ? `<p class="description">${escapeHtml(s.description)}</p>` : '') +
+      s.blocks.map(renderBlock).join('') + '</section>')
+    .join('');
+  return `<!DOCTYPE html><html><head><meta charset="utf-8"/><meta name="viewport" content="width=device-width, initial-scale=1"/>` +
+    `<style>${STYLES}</style></head><body>` +
+    `<header><h1>${escapeHtml(doc.title)}</h1>` +
+    (doc.subtitle ? `<div class="subtitle">${escapeHtml(doc.subtitle)}</div>` : '') +
+    (doc.meta ? `<div class="meta">${escapeHtml(doc.meta)}</div>` : '') +
+    `</header>${sections}` +
+    (doc.footer ? `<footer>${escapeHtml(doc.footer)}</footer>` : '') +
+    `</body></html>`;
+}
+
+/** Safe file name from free text, e.g. a group or period name. */
+export function pdfFileName(...parts: string[]): string {
+  const stem = parts.map(p => p.trim().replace(/[^a-z0-9_-]+/gi, '_').replace(/^_+|_+$/g, '')).filter(Boolean).join('_');
+  return `${stem || 'document'}.pdf`;
+}
+
+/**
+ * Renders the document to a PDF in the app's document directory (under
+ * reports/) and opens the share sheet. Returns the saved file URI.
+ */
+export async function exportPdf(doc: PdfDocument, fileName: string): Promise<string> {
+  const { uri: tmpUri } = await Print.printToFileAsync({
+    html: renderPdfHtml(doc),
+    width: PAGE_WIDTH,
+    height: PAGE_HEIGHT,
+  });
+
+  const dir = `${FileSystem.documentDirectory || FileSystem.cacheDirectory || ''}reports/`;
+  await FileSystem.makeDirectoryAsync(dir, { intermediates: true }).catch(() => {});
+  const uri = dir + fileName;
+  await FileSystem.deleteAsync(uri, { idempotent: true });
+  await FileSystem.moveAsync({ from: tmpUri, to: uri });
+
+  if (await Sharing.isAvailableAsync()) {
+    await Sharing.shareAsync(uri, { mimeType: 'application/pdf', UTI: 'com.adobe.pdf', dialogTitle: doc.title });
+  } else {
+    await Share.share(Platform.select({ ios: { url: uri }, default: { message: uri } }) as any);
+  }
+  return uri;
+}
@@ -0,0 +1,265 @@
+/**
+ * Portfolio performance over a period: time-weighted return (how the
+ * investments did, whatever was added or taken out) and money-weighted return
+ * (XIRR, what the investor's own timing earned), with a benchmark index
+ * rebased to the same starting value.
+ *
+ * Values are rebuilt day by day from lots and daily closes. A portfolio whose
+ * deposits cover its trades is valued with its cash and measured against
+ * `cashEvents`; otherwise each buy and sell counts as money in or out.
+ */
+
+import type { Portfolio, Quote } from '../features/invest';
+import { convertCurrency, type FxRates } from './fx';
+import { adjustedLots } from './corporateActions';
+import { netIncome } from './income';
+import { fetchHistoricalWithCache } from './yahoo-cache';
+import { DAY, closeAt, dayStart, daysBetween, holdingValues, type PricePoint } from './portfolioHistory';
+
+export type PerformancePeriod = '1M' | 'YTD' | '1Y' | 'ALL';
+
+export const PERFORMANCE_PERIODS: Array<{ key: PerformancePeriod; label: string }> = [
+  { key: '1M', label: '1M' },
+  { key: 'YTD', label: 'YTD' },
+  { key: '1Y', label: '1Y' },
+  { key: 'ALL', label: 'All' },
+];
+
+export type PerformanceResult = {
+  start: number;
+  end: number;
+  startValue: number;
+  endValue: number;
+  /** Money added less money taken out during the period. */
+  netFlows: number;
+  /** Time-weighted return over the period, as a fraction. */
+  twr: number;
+  /** XIRR, annualised; null when it doesn't converge. */
+  mwr: number | null;
+  /** XIRR compounded over the period only. */
+  mwrPeriod: number | null;
+  benchmark?: { symbol: string; return: number };
+  /** The start value grown at the time-weighted return, one point a day. */
+  series: Array<{ t: number; v: number }>;
+  /** The benchmark rebased to the same start value. */
+  benchmarkSeries: Array<{ t: number; v: number }>;
+};
+
+/** Yahoo symbol for a portfolio benchmark; indices are stored without their caret. */
+export function benchmarkSymbol(benchmark?: string): string | null {
+  const b = String(benchmark || '').trim().toUpperCase();
+  if (!b || b === 'NONE') return null;
+  if (b === 'STI') return '^STI';
+  return b;
+}
+
+/** Daily closes for a benchmark, from the shared historical cache. */
+export async function fetchBenchmarkCloses(benchmark: string): Promise<PricePoint[]> {
+  const sym = benchmarkSymbol(benchmark);
+  if (!sym) return [];
+  const { bars } = await fetchHistoricalWithCache(sym, '5y');
+  return bars.filter(b => b.close > 0).map(b => ({ t: b.date, c: b.close })).sort((a, b) => a.t - b.t);
+}
+
+/** First day of `period`, no earlier than `inception`. */
+export function periodStart(period: PerformancePeriod, now: number, inception: number): number {
+  const d = new Date(now);
+  let t = inception;
+  if (period === '1M') t = new Date(d.getFullYear(), d.getMonth() - 1, d.getDate()).getTime();
+  else if (period === 'YTD') t = new Date(d.getFullYear(), 0, 1).getTime();
+  else if (period === '1Y') t = new Date(d.getFullYear() - 1, d.getMonth(), d.getDate()).getTime();
+  return dayStart(Math.max(t, inception));
+}
+
+/**
+ * Annualised internal rate of return for dated flows (negative = paid in).
+ * Newton's method, falling back to bisection.
+ */
+export function xirr(flows: Array<{ t: number; amount: number }>): number | null {
+  const cf = flows.filter(f => Math.abs(f.amount) > 1e-9);
+  if (!cf.some(f => f.amount > 0) || !cf.some(f => f.amount < 0)) return null;
+  const t0 = Math.min(...cf.map(f => f.t));
+  const years = cf.map(f => (f.t - t0) / (365 * DAY));
+  const npv = (r: number) => cf.reduce((s, f, i) => s + f.amount / Math.pow(1 + r, years[i]), 0);
+  const dnpv = (r: number) => cf.reduce((s, f, i) => s - (years[i] * f.amount) / Math.pow(1 + r, years[i] + 1), 0);
+
+  let r = 0.1;
+  for (let i = 0; i < 50; i++) {
+    const v = npv(r);
+    const d = dnpv(r);
+    if (!isFinite(v) || !isFinite(d) || Math.abs(d) < 1e-12) break;
+    const next = r - v / d;
+    if (!isFinite(next) || next <= -0.9999) break;
+    if (Math.abs(next - r) < 1e-9) return next;
+    r = next;
+  }
+
+  let lo = -0.9999, hi = 10;
+  let flo = npv(lo), fhi = npv(hi);
+  if (!isFinite(flo) || !isFinite(fhi) || flo * fhi > 0) return null;
+  for (let i = 0; i < 200; i++) {
+    const mid = (lo + hi) / 2;
+    const fm = npv(mid);
+    if (Math.abs(fm) < 1e-7) return mid;
+    if (flo * fm < 0) { hi = mid; fhi = fm; } else { lo = mid; flo = fm; }
+  }
+  return (lo + hi) / 2;
+}
+
+type Track = {
+  /** Value in base currency at the end of day `i`. */
+  values: number[];
+  /** External money in (positive) or out on day `i`. */
+  flows: number[];
+};
+
+/** One portfolio's daily value and external flows over `days`. */
+function trackPortfolio(p: Portfolio, days: number[], quotes: Record<string, Quote | undefined>, fxRates: FxRates | undefined, currency: string): Track {
+  const base = (p.baseCurrency || 'USD').toUpperCase();
+  const values = days.map(() => 0);
+  const flows = days.map(() => 0);
+  const dayIndex = (iso: string) => {
+    const t = new Date(iso).getTime();
+    for (let i = 0; i < days.length; i++) if (t < days[i] + DAY) return i;
+    return -1;
+  };
+
+  // Cash reconstructed from deposits and trades, and trade flows should it not hold up
+  const cashDelta = days.map(() => 0);
+  const tradeFlows = days.map(() => 0);
+  let cashBefore = 0;
+  let tradeBefore = 0;
+  const addCash = (iso: string, amount: number, trade: boolean) => {
+    const i = dayIndex(iso);
+    if (trade) { if (i < 0) tradeBefore += amount; else tradeFlows[i] += amount; }
+    else { if (i < 0) cashBefore += amount; else cashDelta[i] += amount; }
+  };
+
+  holdingValues(p, days, { currency, quotes, fxRates }).forEach((v, i) => { values[i] = v; });
+
+  for (const h of Object.values(p.holdings || {})) {
+    if (!h) continue;
+    const from = (h.currency || base).toUpperCase();
+    const conv = (n: number) => convertCurrency(fxRates, n, from, currency);
+    const drip = new Set((h.income || []).map(e => e.lotId).filter(Boolean) as string[]);
+    const lots = adjustedLots(h);
+
+    for (const l of lots) {
+      if (drip.has(l.id)) continue; // bought with the payout, not new money
+      const fee = Number(l.fee || 0);
+      const amount = conv(l.side === 'buy' ? l.qty * l.price + fee : -(l.qty * l.price - fee));
+      addCash(l.date, -amount, false);
+      addCash(l.date, amount, true);
+    }
+    for (const e of h.income || []) {
+      if (e.lotId) continue;
+      addCash(e.date, conv(netIncome(e)), false);
+      addCash(e.date, -conv(netIncome(e)), true);
+    }
+  }
+
+  const events = p.cashEvents || [];
+  const depositsBefore = events.reduce((s, e) => (dayIndex(e.date) < 0 ? s + convertCurrency(fxRates, e.amount, base, currency) : s), 0);
+  const depositFlows = days.map(() => 0);
+  for (const e of events) {
+    const i = dayIndex(e.date);
+    if (i >= 0) depositFlows[i] += convertCurrency(fxRates, e.amount, base, currency);
+  }
+
+  // Cash only counts if deposits paid for the trades; a negative balance means they didn't
+  let cash = depositsBefore + cashBefore;
+  const cashByDay = days.map((_, i) => (cash += cashDelta[i] + depositFlows[i]));
+  const useCash = events.length > 0 && cash >= -0.5 && depositsBefore + cashBefore >= -0.5 && Math.min(...cashByDay) >= -0.5;
+
+  if (useCash) {
+    days.forEach((_, i) => { values[i] += cashByDay[i]; flows[i] = depositFlows[i]; });
+  } else {
+    days.forEach((_, i) => { flows[i] = tradeFlows[i]; });
+  }
+  return { values, flows };
+}
+
+/**
+ * Performance of `portfolios` taken together over `period`, in `currency`.
+ * Pass the benchmark's daily closes to compare against it. Returns null when
+ * nothing was held during the period.
+ */
+export function portfolioPerformance(
+  portfolios: Portfolio[],
+  opts: {
+    quotes: Record<string, Quote | undefined>;
+    fxRates?: FxRates;
+    currency: string;
+    period: PerformancePeriod;
+    benchmark?: { symbol: string; closes: PricePoint[] };
+    now?: number;
+  },
+): PerformanceResult | null {
+  const now = opts.now ?? Date.now();
+  const dates: number[] = [];
+  for (const p of portfolios) {
+    for (const h of Object.values(p.holdings || {})) for (const l of adjustedLots(h)) dates.push(new Date(l.date).getTime());
+    for (const e of p.cashEvents || []) dates.push(new Date(e.date).getTime());
+  }
+  if (!dates.length) return null;
+  const inception = dayStart(Math.min(...dates));
+  const start = periodStart(opts.period, now, inception);
+  const end = dayStart(now);
+  if (start > end) return null;
+
+  const days = daysBetween(start, end);
+
+  const values = days.map(() => 0);
+  const flows = days.map(() => 0);
+  for (const p of portfolios) {
+    const track = trackPortfolio(p, days, opts.quotes, opts.fxRates, opts.currency);
+    track.values.forEach((v, i) => { values[i] += v; });
+    track.flows.forEach((f, i) => { flows[i] += f; });
+  }
+
+  // The start value already includes anything added on the first day
+  const startValue = values[0];
+  let index = 1;
+  let baseValue = startValue > 0 ? startValue : 0;
+  const growth: number[] = [1];
+  for (let i = 1; i < days.length; i++) {
+    const invested = values[i - 1] + flows[i];
+    if (invested > 1e-9) index *= values[i] / invested;
+    if (!baseValue && invested > 1e-9) baseValue = invested;
+    growth.push(index);
+  }
+  if (!baseValue) return null;
+
+  const endValue = values[values.length - 1];
+  const netFlows = flows.slice(1).reduce((s, f) => s + f, 0);
+  const cashflows = [
+    { t: days[0], amount: -startValue },
+    ...days.slice(1).map((t, i) => ({ t, amount: -flows[i + 1] })),
+    { t: now, amount: endValue },
+  ];
+  const mwr = xirr(cashflows);
+  const years = Math.max(1, now - days[0]) / (365 * DAY);
+
+  const result: PerformanceResult = {
+    start: days[0],
+    end: now,
+    startValue,
+    endValue,
+    netFlows,
+    twr: index - 1,
+    mwr,
+    mwrPeriod: mwr === null ? null : Math.pow(1 + mwr, years) - 1,
+    series: days.map((t, i) => ({ t, v: baseValue * growth[i] })),
+    benchmarkSeries: [],
+  };
+
+  const closes = opts.benchmark?.closes || [];
+  if (opts.benchmark && closes.length) {
+    const c0 = closeAt(closes, days[0] + DAY - 1);
+    if (c0 > 0) {
+      result.benchmarkSeries = days.map(t => ({ t, v: baseValue * closeAt(closes, Math.min(t + DAY - 1, now)) / c0 }));
+      result.benchmark = { symbol: opts.benchmark.symbol, return: closeAt(closes, now) / c0 - 1 };
+    }
+  }
+  return result;
+}
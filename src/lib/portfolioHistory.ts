@@ -0,0 +1,215 @@
+/**
+ * Daily portfolio valuation: lots and cash events replayed against historical
+ * closes, so charts and net worth show what the investments were actually
+ * worth on each day rather than today's value carried back.
+ */
+
+import type { Portfolio, Quote } from '../features/invest';
+import { convertCurrency, type FxRates } from './fx';
+import { rateOn, type FxHistory } from './fxHistory';
+import { adjustedLots } from './corporateActions';
+import { netIncome } from './income';
+import { fetchHistoricalWithCache } from './yahoo-cache';
+
+export type PricePoint = { t: number; c: number };
+
+export type PortfolioValuePoint = {
+  t: number;
+  holdings: number;
+  cash: number;
+  value: number;
+};
+
+export type ValuationOptions = {
+  currency: string;
+  quotes: Record<string, Quote | undefined>;
+  /** Daily closes by symbol, e.g. from `loadHistoricalCloses`; quote bars are used for any symbol missing here. */
+  closes?: Record<string, PricePoint[]>;
+  /** Dated rates; falls back to `fxRates` for days or currencies it doesn't cover. */
+  fxHistory?: FxHistory;
+  fxRates?: FxRates;
+};
+
+export const DAY = 24 * 60 * 60 * 1000;
+
+export const dayStart = (t: number) => { const d = new Date(t); d.setHours(0, 0, 0, 0); return d.getTime(); };
+
+/** Local midnights from `start` to `end`, inclusive. */
+export function daysBetween(start: number, end: number): number[] {
+  const days: number[] = [];
+  for (let t = dayStart(start); t <= end; t = dayStart(t + DAY + DAY / 2)) days.push(t);
+  return days;
+}
+
+/** Last close on or before `t`, else the first one after it. */
+export function closeAt(series: PricePoint[], t: number): number {
+  if (!series.length) return 0;
+  if (series[0].t > t) return series[0].c;
+  let lo = 0, hi = series.length - 1;
+  while (lo < hi) {
+    const mid = Math.ceil((lo + hi) / 2);
+    if (series[mid].t <= t) lo = mid; else hi = mid - 1;
+  }
+  return series[lo].c;
+}
+
+/** A quote's daily closes, ending with its live price. */
+export function quoteCloses(q?: Quote): PricePoint[] {
+  const out: PricePoint[] = q?.bars?.length
+    ? q.bars.filter(b => b.c > 0).map(b => ({ t: b.t, c: b.c }))
+    : (q?.line || []).filter(p => p.v > 0).map(p => ({ t: p.t, c: p.v }));
+  out.sort((a, b) => a.t - b.t);
+  if (q?.last && q.last > 0) out.push({ t: Date.now(), c: q.last });
+  return out;
+}
+
+/** Five years of daily closes per symbol from the shared historical cache. Symbols that fail are left out. */
+export async function loadHistoricalCloses(symbols: string[]): Promise<Record<string, PricePoint[]>> {
+  const out: Record<string, PricePoint[]> = {};
+  for (const sym of Array.from(new Set(symbols))) {
+    try {
+      const { bars } = await fetchHistoricalWithCache(sym, '5y');
+      out[sym] = bars.filter(b => b.close > 0).map(b => ({ t: b.date, c: b.close })).sort((a, b) => a.t - b.t);
+    } catch (e) {
+      console.warn(`[portfolioHistory] No history for ${sym}:`, e);
+    }
+  }
+  return out;
+}
+
+/** Converter to `opts.currency` at the rate on a given day. */
+export function makeDatedConverter(opts: Pick<ValuationOptions, 'currency' | 'fxHistory' | 'fxRates'>) {
+  const to = (opts.currency || 'USD').toUpperCase();
+  const hasHistory = !!opts.fxHistory && Object.keys(opts.fxHistory).length > 0;
+  return (amount: number, from: string, t: number): number => {
+    const src = (from || 'USD').toUpperCase();
+    if (src === to || !amount) return amount;
+    const rate = hasHistory ? rateOn(opts.fxHistory!, src, to, t) : undefined;
+    return rate === undefined ? convertCurrency(opts.fxRates, amount, src, to) : amount * rate;
+  };
+}
+
+/** Market value of a portfolio's holdings at the close of each of `days`. */
+export function holdingValues(p: Portfolio, days: number[], opts: ValuationOptions): number[] {
+  const convert = makeDatedConverter(opts);
+  const base = (p.baseCurrency || 'USD').toUpperCase();
+  const now = Date.now();
+  const values = days.map(() => 0);
+
+  for (const h of Object.values(p.holdings || {})) {
+    if (!h) continue;
+    const from = (h.currency || base).toUpperCase();
+    const live = quoteCloses(opts.quotes[h.symbol]);
+    const stored = opts.closes?.[h.symbol];
+    // Cached history plus today's live price, when the cache is behind it
+    const closes = stored?.length ? [...stored, ...live.filter(c => c.t > stored[stored.length - 1].t).slice(-1)] : live;
+    const lots = adjustedLots(h).slice().sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+
+    let qty = 0;
+    let li = 0;
+    days.forEach((d, i) => {
+      while (li < lots.length && new Date(lots[li].date).getTime() < d + DAY) {
+        const l = lots[li++];
+        qty += l.side === 'buy' ? l.qty : -l.qty;
+      }
+      if (Math.abs(qty) < 1e-9) return;
+      const at = Math.min(d + DAY - 1, now);
+      values[i] += convert(qty * closeAt(closes, at), from, at);
+    });
+  }
+  return values;
+}
+
+/**
+ * Cash movements a portfolio records in its base currency: deposits and
+ * withdrawals, plus trades and income when they were settled from its cash.
+ * Trades only move cash when the user asked them to, so they count when that
+ * explains today's balance better than deposits alone.
+ */
+export function cashMovements(p: Portfolio, fxRates?: FxRates): Array<{ t: number; amount: number }> {
+  const base = (p.baseCurrency || 'USD').toUpperCase();
+  const events = (p.cashEvents || []).map(e => ({ t: new Date(e.date).getTime(), amount: Number(e.amount || 0) }));
+  const trades: Array<{ t: number; amount: number }> = [];
+  for (const h of Object.values(p.holdings || {})) {
+    if (!h) continue;
+    const conv = (n: number) => convertCurrency(fxRates, n, (h.currency || base).toUpperCase(), base);
+    const drip = new Set((h.income || []).map(e => e.lotId).filter(Boolean) as string[]);
+    for (const l of adjustedLots(h)) {
+      if (drip.has(l.id)) continue;
+      const fee = Number(l.fee || 0);
+      trades.push({ t: new Date(l.date).getTime(), amount: conv(l.side === 'buy' ? -(l.qty * l.price + fee) : l.qty * l.price - fee) });
+    }
+    for (const e of h.income || []) {
+      if (!e.lotId) trades.push({ t: new Date(e.date).getTime(), amount: conv(netIncome(e)) });
+    }
+  }
+  const cash = Number(p.cash || 0);
+  const sum = (xs: Array<{ amount: number }>) => xs.reduce((s, x) => s + x.amount, 0);
+  const eventsOnly = sum(events);
+  const withTrades = eventsOnly + sum(trades);
+  return Math.abs(withTrades - cash) < Math.abs(eventsOnly - cash) ? [...events, ...trades] : events;
+}
+
+/**
+ * Cash at the close of each of `days`, worked back from today's balance
+ * through `cashMovements`, in the portfolio's base currency.
+ */
+export function cashBalances(p: Portfolio, days: number[], fxRates?: FxRates): number[] {
+  const moves = cashMovements(p, fxRates).sort((a, b) => b.t - a.t);
+  let cash = Number(p.cash || 0);
+  let mi = 0;
+  const out = days.map(() => 0);
+  for (let i = days.length - 1; i >= 0; i--) {
+    const close = days[i] + DAY;
+    while (mi < moves.length && moves[mi].t >= close) cash -= moves[mi++].amount;
+    out[i] = cash;
+  }
+  return out;
+}
+
+/**
+ * Value of `portfolios` taken together on each day from `start` to `end`, in
+ * `opts.currency`. Leave out cash to chart the investments alone.
+ */
+export function portfolioValueHistory(
+  portfolios: Portfolio[],
+  opts: ValuationOptions & { start: number; end?: number; includeCash?: boolean },
+): PortfolioValuePoint[] {
+  const end = opts.end ?? Date.now();
+  const days = daysBetween(opts.start, end);
+  const convert = makeDatedConverter(opts);
+  const holdings = days.map(() => 0);
+  const cash = days.map(() => 0);
+
+  for (const p of portfolios) {
+    holdingValues(p, days, opts).forEach((v, i) => { holdings[i] += v; });
+    if (opts.includeCash === false) continue;
+    const base = (p.baseCurrency || 'USD').toUpperCase();
+    cashBalances(p, days, opts.fxRates).forEach((c, i) => { cash[i] += convert(c, base, Math.min(days[i] + DAY - 1, end)); });
+  }
+
+  return days.map((d, i) => ({
+    t: i === days.length - 1 ? end : d,
+    holdings: holdings[i],
+    cash: cash[i],
+    value: holdings[i] + cash[i],
+  }));
+}
+
+/** The series' value at `t`: the last point on or before it, 0 before the first. */
+export function valueAt(series: PortfolioValuePoint[], t: number): number {
+  let lo = 0, hi = series.length - 1;
+  if (!series.length || series[0].t > t) return 0;
+  while (lo < hi) {
+    const mid = Math.ceil((lo + hi) / 2);
+    if (series[mid].t <= t) lo = mid; else hi = mid - 1;
+  }
+  return series[lo].value;
+}
+
+/** Symbols held at any time in `portfolios`, for `loadHistoricalCloses`. */
+export function heldSymbols(portfolios: Portfolio[]): string[] {
+  const out = new Set<string>();
+  for (const p of portfolios) for (const h of Object.values(p.holdings || {})) if (h?.lots?.length) out.add(h.symbol);
+  return Array.from(out).sort();
+}
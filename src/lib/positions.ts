@@ -1,5 +1,5 @@
-// Average-cost realized/unrealized P&L calculator.
-import type { Lot } from '../features/invest';
+// Realized/unrealized P&L calculator with selectable cost-basis methods.
+import type { Lot, CostMethod } from '../features/invest';
 
 export type PnL = {
   qty: number;
@@ -8,30 +8,129 @@ export type PnL = {
   unrealized: number;
 };
 
-/** Compute average-cost P&L walking lots chronologically. */
-export function computePnL(lots: Lot[], lastPrice: number): PnL {
-  const sorted = [...lots].sort((a,b)=> new Date(a.date).getTime() - new Date(b.date).getTime());
-  let qty = 0;
-  let costBasis = 0; // total cost of current position (qty * avg)
-  let realized = 0;
+/** The part of a sell that closed one buy lot. `buyId` is null for shares sold short of any buy. */
+export type RealizedSlice = {
+  sellId: string;
+  buyId: string | null;
+  sellDate: string;
+  buyDate: string | null;
+  qty: number;
+  cost: number;
+  proceeds: number;
+  gain: number;
+  holdingDays: number;
+  longTerm: boolean;
+};
+
+/** A buy lot with what is left of it after sells. `unitCost` includes its share of the fee. */
+export type OpenLot = { id: string; date: string; qty: number; unitCost: number };
+
+export const COST_METHODS: Array<{ key: CostMethod; label: string; hint: string }> = [
+  { key: 'average', label: 'Average', hint: 'Every share costs the running average' },
+  { key: 'fifo', label: 'FIFO', hint: 'Oldest shares are sold first' },
+  { key: 'lifo', label: 'LIFO', hint: 'Newest shares are sold first' },
+  { key: 'hifo', label: 'HIFO', hint: 'Highest-cost shares are sold first' },
+  { key: 'specific', label: 'Specific lot', hint: 'Pick the lots when you record a sell' },
+];
+
+const DAY = 24 * 60 * 60 * 1000;
+const LONG_TERM_DAYS = 365;
 
-  for (const l of sorted) {
+function byDate(lots: Lot[]) {
+  return [...lots].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+}
+
+/** Order in which `method` draws down open lots. Average and specific fall back to FIFO. */
+function drawOrder(open: OpenLot[], method: CostMethod): OpenLot[] {
+  if (method === 'lifo') return [...open].reverse();
+  if (method === 'hifo') return [...open].sort((a, b) => b.unitCost - a.unitCost);
+  return open;
+}
+
+/**
+ * Walks lots chronologically, matching each sell to buy lots by `method`.
+ * Under average cost, sells still draw lots oldest first (that's what sets
+ * the holding period) but every share costs the running average.
+ */
+function replay(lots: Lot[], method: CostMethod) {
+  let open: OpenLot[] = [];
+  const slices: RealizedSlice[] = [];
+
+  for (const l of byDate(lots)) {
     if (l.side === 'buy') {
-      const gross = l.qty * l.price + (l.fee || 0);
-      costBasis += gross;
-      qty += l.qty;
-    } else {
-      // sell: average cost reduces
-      const avg = qty > 0 ? costBasis / qty : 0;
-      const proceeds = l.qty * l.price - (l.fee || 0);
-      const outCost = l.qty * avg;
-      realized += (proceeds - outCost);
-      qty -= l.qty;
-      costBasis -= outCost;
-      if (qty < 0) { qty = 0; costBasis = 0; } // guard
+      if (l.qty > 0) open.push({ id: l.id, date: l.date, qty: l.qty, unitCost: l.price + (l.fee || 0) / l.qty });
+      continue;
     }
+    if (!(l.qty > 0)) continue;
+
+    const heldQty = open.reduce((s, o) => s + o.qty, 0);
+    const avg = heldQty > 0 ? open.reduce((s, o) => s + o.qty * o.unitCost, 0) / heldQty : 0;
+    const unitProceeds = l.price - (l.fee || 0) / l.qty;
+    const sellTime = new Date(l.date).getTime();
+    let remaining = l.qty;
+
+    const take = (o: OpenLot, want: number) => {
+      const q = Math.min(want, o.qty);
+      if (q <= 0) return;
+      const cost = q * (method === 'average' ? avg : o.unitCost);
+      const proceeds = q * unitProceeds;
+      const holdingDays = Math.max(0, Math.floor((sellTime - new Date(o.date).getTime()) / DAY));
+      slices.push({
+        sellId: l.id, buyId: o.id, sellDate: l.date, buyDate: o.date,
+        qty: q, cost, proceeds, gain: proceeds - cost, holdingDays, longTerm: holdingDays > LONG_TERM_DAYS,
+      });
+      o.qty -= q;
+      remaining -= q;
+    };
+
+    if (method === 'specific') {
+      for (const m of l.matches || []) {
+        const o = open.find(x => x.id === m.lotId);
+        if (o) take(o, Math.min(m.qty, remaining));
+      }
+    }
+    for (const o of drawOrder(open, method)) {
+      if (remaining <= 1e-9) break;
+      take(o, remaining);
+    }
+    if (remaining > 1e-9) {
+      // More sold than held: no buy lot to match, so cost it at the average
+      const cost = remaining * avg;
+      const proceeds = remaining * unitProceeds;
+      slices.push({
+        sellId: l.id, buyId: null, sellDate: l.date, buyDate: null,
+        qty: remaining, cost, proceeds, gain: proceeds - cost, holdingDays: 0, longTerm: false,
+      });
+    }
+    open = open.filter(o => o.qty > 1e-9);
+    // Average cost doesn't move on a sell, whichever lots were drawn
+    if (method === 'average') open.forEach(o => { o.unitCost = avg; });
   }
+  return { open, slices };
+}
+
+/** Compute P&L walking lots chronologically. Defaults to average cost. */
+export function computePnL(lots: Lot[], lastPrice: number, method: CostMethod = 'average'): PnL {
+  const { open, slices } = replay(lots, method);
+  const qty = open.reduce((s, o) => s + o.qty, 0);
+  const costBasis = open.reduce((s, o) => s + o.qty * o.unitCost, 0);
+  const realized = slices.reduce((s, x) => s + x.gain, 0);
   const avgCost = qty > 0 ? costBasis / qty : 0;
   const unrealized = qty * (lastPrice - avgCost);
   return { qty, avgCost, realized, unrealized };
-}
\ No newline at end of file
+}
+
+/** Every sell broken down by the buy lots it closed, oldest sell first. */
+export function realizedLedger(lots: Lot[], method: CostMethod = 'average'): RealizedSlice[] {
+  return replay(lots, method).slices;
+}
+
+/**
+ * Buy lots still open just before `asOf`, for picking specific lots on a sell.
+ * Pass `excludeId` to leave out the sell being edited.
+ */
+export function openLots(lots: Lot[], method: CostMethod = 'average', asOf?: string, excludeId?: string): OpenLot[] {
+  const cutoff = asOf ? new Date(asOf).getTime() : Infinity;
+  const before = lots.filter(l => l.id !== excludeId && new Date(l.date).getTime() <= cutoff);
+  return replay(before, method).open;
+}
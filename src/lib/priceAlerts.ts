@@ -0,0 +1,147 @@
+/**
+ * Per-symbol price alerts, checked against fresh quotes. An alert fires when
+ * its condition starts to hold and re-arms once it stops, so a price sitting
+ * above its target notifies once rather than on every refresh.
+ */
+
+import type { Portfolio, Quote } from '../features/invest';
+import { adjustedLots } from './corporateActions';
+import { computePnL } from './positions';
+import { formatPercent } from './format';
+
+export type AlertKind = 'above' | 'below' | 'move' | 'high52' | 'low52' | 'belowCost';
+
+export const ALERT_KINDS: Array<{ key: AlertKind; label: string; needsValue: boolean }> = [
+  { key: 'above', label: 'Price above', needsValue: true },
+  { key: 'below', label: 'Price below', needsValue: true },
+  { key: 'move', label: 'Daily move of', needsValue: true },
+  { key: 'high52', label: 'New 52-week high', needsValue: false },
+  { key: 'low52', label: 'New 52-week low', needsValue: false },
+  { key: 'belowCost', label: 'Below my average cost', needsValue: false },
+];
+
+export type PriceAlert = {
+  id: string;
+  symbol: string;
+  kind: AlertKind;
+  value?: number;          // price for above/below, percent for move
+  enabled: boolean;
+  active?: boolean;        // condition held at the last check; fires again only after it clears
+  createdAt: string;
+  lastTriggeredAt?: string;
+};
+
+export type AlertEvent = {
+  id: string;
+  alertId: string;
+  symbol: string;
+  kind: AlertKind;
+  price: number;
+  message: string;
+  at: string;              // ISO
+};
+
+const YEAR = 365 * 24 * 60 * 60 * 1000;
+
+const price = (n: number) => (n >= 1000 ? n.toFixed(0) : n >= 1 ? n.toFixed(2) : n.toPrecision(3));
+
+export function describeAlert(a: Pick<PriceAlert, 'kind' | 'value'>): string {
+  switch (a.kind) {
+    case 'above': return `Above ${price(Number(a.value || 0))}`;
+    case 'below': return `Below ${price(Number(a.value || 0))}`;
+    case 'move': return `Moves ${Number(a.value || 0)}% in a day`;
+    case 'high52': return 'New 52-week high';
+    case 'low52': return 'New 52-week low';
+    case 'belowCost': return 'Below my average cost';
+  }
+}
+
+/** 52-week range from fundamentals, else from the past year of bars before today. */
+export function week52Range(q?: Quote): { high: number; low: number } | null {
+  const f = q?.fundamentals;
+  if (f?.week52High && f?.week52Low) return { high: f.week52High, low: f.week52Low };
+  const cutoff = Date.now() - YEAR;
+  const bars = (q?.bars || []).filter(b => b.t >= cutoff && b.c > 0).slice(0, -1);
+  if (!bars.length) return null;
+  return { high: Math.max(...bars.map(b => b.h || b.c)), low: Math.min(...bars.map(b => b.l || b.c)) };
+}
+
+/** Average cost per unit of each symbol's open position, across `portfolios`, in the symbol's own currency. */
+export function averageCosts(portfolios: Portfolio[]): Record<string, number> {
+  const totals: Record<string, { qty: number; cost: number }> = {};
+  for (const p of portfolios) {
+    for (const h of Object.values(p.holdings || {})) {
+      if (!h?.lots?.length) continue;
+      const { qty, avgCost } = computePnL(adjustedLots(h), 0, p.costMethod);
+      if (qty <= 0) continue;
+      const t = (totals[h.symbol] ||= { qty: 0, cost: 0 });
+      t.qty += qty;
+      t.cost += qty * avgCost;
+    }
+  }
+  return Object.fromEntries(Object.entries(totals).map(([s, t]) => [s, t.cost / t.qty]));
+}
+
+/** Whether the alert's condition holds for `q`, with the message to show; null when it can't be checked. */
+export function checkAlert(a: PriceAlert, q: Quote | undefined, avgCost?: number): { met: boolean; message: string } | null {
+  const last = Number(q?.last || 0);
+  if (!(last > 0)) return null;
+  const value = Number(a.value || 0);
+  switch (a.kind) {
+    case 'above':
+      return value > 0 ? { met: last >= value, message: `${a.symbol} rose to ${price(last)}, above ${price(value)}` } : null;
+    case 'below':
+      return value > 0 ? { met: last <= value, message: `${a.symbol} fell to ${price(last)}, below ${price(value)}` } : null;
+    case 'move': {
+      const pct = Number(q?.changePct || 0);
+      return value > 0 ? { met: Math.abs(pct) >= value, message: `${a.symbol} is ${pct >= 0 ? 'up' : 'down'} ${formatPercent(pct).replace(/^[+-]/, '')} today at ${price(last)}` } : null;
+    }
+    case 'high52': {
+      const r = week52Range(q);
+      return r ? { met: last >= r.high, message: `${a.symbol} hit a 52-week high of ${price(last)}` } : null;
+    }
+    case 'low52': {
+      const r = week52Range(q);
+      return r ? { met: last <= r.low, message: `${a.symbol} hit a 52-week low of ${price(last)}` } : null;
+    }
+    case 'belowCost':
+      return avgCost && avgCost > 0
+        ? { met: last < avgCost, message: `${a.symbol} at ${price(last)} is below your average cost of ${price(avgCost)}` }
+        : null;
+  }
+}
+
+/**
+ * Checks every enabled alert against `quotes`. Returns the alerts with their
+ * `active` state brought up to date and an event for each one that just fired.
+ * Alerts for symbols missing from `quotes` are left as they were.
+ */
+export function evaluateAlerts(
+  alerts: PriceAlert[],
+  quotes: Record<string, Quote | undefined>,
+  portfolios: Portfolio[],
+  now = new Date(),
+): { alerts: PriceAlert[]; fired: AlertEvent[] } {
+  const costs = alerts.some(a => a.enabled && a.kind === 'belowCost') ? averageCosts(portfolios) : {};
+  const fired: AlertEvent[] = [];
+  const at = now.toISOString();
+  const next = alerts.map(a => {
+    if (!a.enabled || !quotes[a.symbol]) return a;
+    const res = checkAlert(a, quotes[a.symbol], costs[a.symbol]);
+    if (!res) return a;
+    if (res.met && !a.active) {
+      fired.push({
+        id: Math.random().toString(36).slice(2),
+        alertId: a.id,
+        symbol: a.symbol,
+        kind: a.kind,
+        price: Number(quotes[a.symbol]!.last),
+        message: res.message,
+        at,
+      });
+      return { ...a, active: true, lastTriggeredAt: at };
+    }
+    return res.met === !!a.active ? a : { ...a, active: res.met };
+  });
+  return { alerts: next, fired };
+}
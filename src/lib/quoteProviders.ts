@@ -0,0 +1,276 @@
+/**
+ * Quote providers behind one interface, tried in priority order per symbol.
+ * Each provider is rate limited and tracks its own health; one that keeps
+ * failing is skipped for a cooling-off period, and the last saved quote is the
+ * final fallback, so an outage leaves prices stale rather than missing.
+ */
+
+import type { Quote } from '../features/invest';
+import { fetchHistoricalWithCache } from './yahoo-cache';
+import { isCryptoSymbol, baseCryptoSymbol, fetchYahooCrypto, fetchYahooCryptoOhlc } from './yahoo-crypto';
+import { fetchFMPBatchQuotes, fetchDailyHistoryFMP, fetchFMPFundamentals, getFMPApiKey } from './fmp';
+import { fetchFinnhubQuote, fetchFinnhubCandles, fetchFinnhubProfile, getFinnhubApiKey } from './finnhub';
+import { getCachedQuotes } from '../db/repositories/quotes';
+
+export type ProviderQuote = Pick<Quote, 'last' | 'change' | 'changePct' | 'line'> & Partial<Pick<Quote, 'bars' | 'fundamentals' | 'ts'>>;
+
+export interface QuoteProvider {
+  id: string;
+  label: string;
+  /** False for providers that replay saved data; their quotes are marked stale. */
+  live: boolean;
+  /** Minimum gap between two requests to this provider, ms. */
+  minIntervalMs: number;
+  /** Whether this provider can price `symbol` right now, e.g. it has an API key. */
+  supports: (symbol: string) => boolean;
+  /** The quote, or null when the provider has nothing for this symbol. Throws when the provider itself failed. */
+  fetchQuote: (symbol: string) => Promise<ProviderQuote | null>;
+}
+
+export type ProviderHealth = {
+  id: string;
+  successes: number;
+  failures: number;
+  consecutiveFailures: number;
+  lastSuccessAt?: number;
+  lastFailureAt?: number;
+  lastError?: string;
+  cooldownUntil?: number;   // skipped until then
+};
+
+export type ProviderStatus = 'ok' | 'degraded' | 'down' | 'unused';
+
+export const LIVE_PROVIDER_IDS = ['yahoo', 'fmp', 'finnhub'] as const;
+export type LiveProviderId = typeof LIVE_PROVIDER_IDS[number];
+
+const FAILURES_BEFORE_COOLDOWN = 3;
+const BASE_COOLDOWN = 30_000;
+const MAX_COOLDOWN = 15 * 60_000;
+
+const sleep = (ms: number) => new Promise(r => setTimeout(r, ms));
+
+const isRateLimit = (msg: string) => /rate limit|429|quota/i.test(msg);
+
+/** Sparkline and OHLC bars from daily bars keyed by `date`. */
+function fromDailyBars(raw: Array<{ date: number; open?: number; high?: number; low?: number; close?: number; volume?: number }>) {
+  return {
+    line: raw.map(b => ({ t: b.date, v: Number(Number(b.close ?? 0).toFixed(2)) })),
+    bars: raw.map(b => ({ t: b.date, o: b.open ?? b.close ?? 0, h: b.high ?? b.close ?? 0, l: b.low ?? b.close ?? 0, c: b.close ?? 0, v: b.volume ?? 0 })),
+  };
+}
+
+const yahooProvider: QuoteProvider = {
+  id: 'yahoo',
+  label: 'Yahoo Finance',
+  live: true,
+  minIntervalMs: 120,
+  supports: () => true,
+  fetchQuote: async (symbol) => {
+    if (isCryptoSymbol(symbol)) {
+      const base = baseCryptoSymbol(symbol) || symbol;
+      const yf = await fetchYahooCrypto(base, '1y');
+      const line = Array.isArray(yf?.line) ? yf.line : [];
+      if (!line.length) return null;
+      const last = Number(line[line.length - 1].v);
+      const prev = Number(line.length > 1 ? line[line.length - 2].v : last);
+      let bars: Quote['bars'];
+      try {
+        const ohlc = await fetchYahooCryptoOhlc(base, '1y');
+        bars = (ohlc || []).map(b => ({ t: b.t, o: b.o, h: b.h, l: b.l, c: b.c, v: 0 }));
+      } catch {}
+      return { last, change: last - prev, changePct: Number(prev ? (((last - prev) / prev) * 100).toFixed(2) : 0), line, bars };
+    }
+
+    // 24h cache for history, so repeated refreshes don't refetch five years of bars
+    const { bars: raw, fundamentals, companyName } = await fetchHistoricalWithCache(symbol, '5y');
+    if (!raw?.length) return null;
+    const last = raw[raw.length - 1].close || 0;
+    const prev = raw.length > 1 ? raw[raw.length - 2].close || 0 : last;
+    return {
+      last,
+      change: last - prev,
+      changePct: Number((prev ? ((last - prev) / prev) * 100 : 0).toFixed(2)),
+      ...fromDailyBars(raw),
+      // The chart API's name is fresher than whatever was cached with the fundamentals
+      fundamentals: fundamentals ? { ...fundamentals, companyName: companyName || fundamentals.companyName } : companyName ? { companyName } : undefined,
+    };
+  },
+};
+
+const fmpProvider: QuoteProvider = {
+  id: 'fmp',
+  label: 'FinancialModelingPrep',
+  live: true,
+  minIntervalMs: 200,
+  supports: (symbol) => !!getFMPApiKey() && !isCryptoSymbol(symbol),
+  fetchQuote: async (symbol) => {
+    const [quotes, raw, fundamentals] = await Promise.all([
+      fetchFMPBatchQuotes([symbol]),
+      fetchDailyHistoryFMP(symbol, '5y'),
+      fetchFMPFundamentals(symbol).catch(() => null),
+    ]);
+    const q = quotes[symbol];
+    if (!raw?.length && !q) return null;
+    return {
+      last: q?.price || raw[raw.length - 1]?.close || 0,
+      change: q?.change || 0,
+      changePct: q?.changesPercentage || 0,
+      ...fromDailyBars(raw || []),
+      fundamentals: fundamentals || undefined,
+    };
+  },
+};
+
+const finnhubProvider: QuoteProvider = {
+  id: 'finnhub',
+  label: 'Finnhub',
+  live: true,
+  minIntervalMs: 1200, // free tier allows 60 calls a minute
+  supports: (symbol) => !!getFinnhubApiKey() && !isCryptoSymbol(symbol),
+  fetchQuote: async (symbol) => {
+    const [q, raw, fundamentals] = await Promise.all([
+      fetchFinnhubQuote(symbol),
+      fetchFinnhubCandles(symbol, '5y').catch(() => []),
+      fetchFinnhubProfile(symbol).catch(() => null),
+    ]);
+    if (!q?.price) return null;
+    return {
+      last: q.price,
+      change: q.change || 0,
+      changePct: q.changesPercentage || 0,
+      ...fromDailyBars(raw || []),
+      fundamentals: fundamentals || undefined,
+    };
+  },
+};
+
+const cacheProvider: QuoteProvider = {
+  id: 'cache',
+  label: 'Last saved prices',
+  live: false,
+  minIntervalMs: 0,
+  supports: () => true,
+  fetchQuote: async (symbol) => (await getCachedQuotes([symbol]))[symbol] || null,
+};
+
+/** A provider serving fixed quotes, for tests and demos. `fail` makes every fetch throw with that message. */
+export function createMockProvider(
+  quotes: Record<string, Partial<ProviderQuote> & { last: number }>,
+  opts?: { id?: string; fail?: string; live?: boolean }
+): QuoteProvider {
+  return {
+    id: opts?.id || 'mock',
+    label: 'Mock data',
+    live: opts?.live ?? true,
+    minIntervalMs: 0,
+    supports: (symbol) => symbol in quotes,
+    fetchQuote: async (symbol) => {
+      if (opts?.fail) throw new Error(opts.fail);
+      const q = quotes[symbol];
+      return q ? { change: 0, changePct: 0, line: [], ...q } : null;
+    },
+  };
+}
+
+const providers: Record<string, QuoteProvider> = {
+  yahoo: yahooProvider,
+  fmp: fmpProvider,
+  finnhub: finnhubProvider,
+  cache: cacheProvider,
+};
+const health: Record<string, ProviderHealth> = {};
+const nextSlot: Record<string, number> = {};
+let chainOverride: string[] | null = null;
+
+/** Adds or replaces a provider; it's only used once its id is in the chain. */
+export function registerProvider(p: QuoteProvider) {
+  providers[p.id] = p;
+}
+
+export function getProvider(id: string): QuoteProvider | undefined {
+  return providers[id];
+}
+
+/** Pins the chain to `ids`, ignoring the profile's choice; null goes back to the profile. */
+export function setProviderChain(ids: string[] | null) {
+  chainOverride = ids ? [...ids] : null;
+}
+
+/** The profile's preferred source, then its fallbacks (every other live source by default), then saved prices. */
+export function providerChain(primary: LiveProviderId = 'yahoo', fallbacks?: LiveProviderId[]): string[] {
+  if (chainOverride) return chainOverride;
+  const rest = fallbacks ?? LIVE_PROVIDER_IDS.filter(id => id !== primary);
+  return Array.from(new Set([primary, ...rest, 'cache']));
+}
+
+export function getProviderHealth(): Record<string, ProviderHealth> {
+  return Object.fromEntries(Object.entries(health).map(([id, h]) => [id, { ...h }]));
+}
+
+export function resetProviderHealth(id?: string) {
+  for (const key of id ? [id] : Object.keys(health)) delete health[key];
+}
+
+export function providerStatus(h: ProviderHealth | undefined, now = Date.now()): ProviderStatus {
+  if (!h) return 'unused';
+  if (h.cooldownUntil && h.cooldownUntil > now) return 'down';
+  return h.consecutiveFailures > 0 ? 'degraded' : 'ok';
+}
+
+function healthOf(id: string): ProviderHealth {
+  return (health[id] ||= { id, successes: 0, failures: 0, consecutiveFailures: 0 });
+}
+
+function recordSuccess(id: string) {
+  const h = healthOf(id);
+  h.successes++;
+  h.consecutiveFailures = 0;
+  h.lastSuccessAt = Date.now();
+  h.cooldownUntil = undefined;
+}
+
+function recordFailure(id: string, e: unknown) {
+  const h = healthOf(id);
+  const msg = (e as any)?.message || String(e);
+  h.failures++;
+  h.consecutiveFailures++;
+  h.lastFailureAt = Date.now();
+  h.lastError = msg;
+  // Rate limits won't clear on the next symbol, so back off straight away
+  const strikes = isRateLimit(msg) ? Math.max(h.consecutiveFailures, FAILURES_BEFORE_COOLDOWN) : h.consecutiveFailures;
+  if (strikes >= FAILURES_BEFORE_COOLDOWN) {
+    h.cooldownUntil = h.lastFailureAt + Math.min(MAX_COOLDOWN, BASE_COOLDOWN * 2 ** (strikes - FAILURES_BEFORE_COOLDOWN));
+  }
+}
+
+/** Waits for the provider's next free request slot. */
+async function throttle(p: QuoteProvider) {
+  const now = Date.now();
+  const at = Math.max(now, nextSlot[p.id] || 0);
+  nextSlot[p.id] = at + p.minIntervalMs;
+  if (at > now) await sleep(at - now);
+}
+
+/**
+ * Tries each provider in `chain` until one prices `symbol`. Providers that
+ * don't support the symbol or are cooling off are skipped. Returns null when
+ * none could; callers should keep whatever quote they already had.
+ */
+export async function fetchQuoteFromChain(symbol: string, chain: string[]): Promise<Quote | null> {
+  for (const id of chain) {
+    const p = providers[id];
+    if (!p || !p.supports(symbol)) continue;
+    if (providerStatus(health[id]) === 'down') continue;
+    try {
+      await throttle(p);
+      const q = await p.fetchQuote(symbol);
+      if (!q || !(q.last > 0)) continue;
+      if (p.live) recordSuccess(id);
+      return { symbol, ...q, ts: q.ts ?? Date.now(), source: id, stale: !p.live || undefined };
+    } catch (e) {
+      console.warn(`[Quotes] ${p.label} failed for ${symbol}:`, (e as any)?.message || e);
+      recordFailure(id, e);
+    }
+  }
+  return null;
+}
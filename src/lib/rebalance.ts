@@ -0,0 +1,273 @@
+/**
+ * Target allocation for a portfolio: how far each holding, instrument type or
+ * sector has drifted from its target, and the trades that would bring it
+ * back, rounded to whole trading units and net of fees.
+ */
+
+import type { AllocationBasis, AllocationTargets, Holding, InstrumentType, Portfolio, Quote } from '../features/invest';
+import { convertCurrency, type FxRates } from './fx';
+import { adjustedLots } from './corporateActions';
+
+export const ALLOCATION_BASES: Array<{ key: AllocationBasis; label: string }> = [
+  { key: 'holding', label: 'Holding' },
+  { key: 'type', label: 'Type' },
+  { key: 'sector', label: 'Sector' },
+];
+
+const TYPE_LABELS: Record<InstrumentType, string> = {
+  stock: 'Stocks',
+  etf: 'ETFs',
+  fund: 'Funds',
+  bond: 'Bonds',
+  crypto: 'Crypto',
+};
+
+const OTHER_SECTOR = 'Other';
+
+/** Default drift band when a portfolio sets none: 5 percentage points. */
+export const DEFAULT_BAND = 0.05;
+
+/** Smallest quantity the holding trades in: its own setting, else 100 on SGX, any fraction for crypto, else whole units. */
+export function lotSizeFor(h: Pick<Holding, 'symbol' | 'type' | 'lotSize'>): number {
+  if (Number(h.lotSize) > 0) return Number(h.lotSize);
+  if (h.type === 'crypto') return 0;
+  if (h.symbol.toUpperCase().endsWith('.SI')) return 100;
+  return 1;
+}
+
+export function bucketOf(h: Pick<Holding, 'symbol' | 'type'>, basis: AllocationBasis, quotes: Record<string, Quote | undefined>): string {
+  if (basis === 'holding') return h.symbol;
+  if (basis === 'type') return h.type;
+  return quotes[h.symbol]?.fundamentals?.sector || OTHER_SECTOR;
+}
+
+export function bucketLabel(key: string, basis: AllocationBasis): string {
+  if (basis === 'type') return TYPE_LABELS[key as InstrumentType] || key;
+  return key;
+}
+
+type Position = {
+  symbol: string;
+  bucket: string;
+  qty: number;
+  price: number;     // native currency
+  currency: string;
+  rate: number;      // base currency per unit of `currency`
+  value: number;     // base currency
+  lotSize: number;
+};
+
+function positions(p: Portfolio, basis: AllocationBasis, quotes: Record<string, Quote | undefined>, fxRates?: FxRates): Position[] {
+  const base = (p.baseCurrency || 'USD').toUpperCase();
+  const out: Position[] = [];
+  for (const h of Object.values(p.holdings || {})) {
+    if (!h || h.archived) continue;
+    const qty = adjustedLots(h).reduce((s, l) => s + (l.side === 'buy' ? l.qty : -l.qty), 0);
+    const currency = (h.currency || base).toUpperCase();
+    const price = Number(quotes[h.symbol]?.last || 0);
+    const rate = convertCurrency(fxRates, 1, currency, base);
+    out.push({
+      symbol: h.symbol,
+      bucket: bucketOf(h, basis, quotes),
+      qty: Math.max(0, qty),
+      price,
+      currency,
+      rate,
+      value: Math.max(0, qty) * price * rate,
+      lotSize: lotSizeFor(h),
+    });
+  }
+  return out;
+}
+
+/** Target weights scaled to add up to 1, without zero or negative entries. */
+export function normalizeWeights(weights: Record<string, number>): Record<string, number> {
+  const entries = Object.entries(weights || {}).filter(([, w]) => Number(w) > 0);
+  const sum = entries.reduce((s, [, w]) => s + Number(w), 0);
+  return sum > 0 ? Object.fromEntries(entries.map(([k, w]) => [k, Number(w) / sum])) : {};
+}
+
+export type DriftRow = {
+  key: string;
+  label: string;
+  value: number;   // base currency
+  current: number; // fraction of invested value
+  target: number;
+  drift: number;   // current - target
+  outside: boolean; // beyond the band
+};
+
+/** Current weights against targets, invested value only (cash excluded), largest drift first. */
+export function allocationDrift(p: Portfolio, targets: AllocationTargets, quotes: Record<string, Quote | undefined>, fxRates?: FxRates): { rows: DriftRow[]; invested: number } {
+  const weights = normalizeWeights(targets.weights);
+  const band = targets.band ?? DEFAULT_BAND;
+  const values: Record<string, number> = {};
+  for (const pos of positions(p, targets.basis, quotes, fxRates)) values[pos.bucket] = (values[pos.bucket] || 0) + pos.value;
+  const invested = Object.values(values).reduce((s, v) => s + v, 0);
+
+  const keys = Array.from(new Set([...Object.keys(weights), ...Object.keys(values).filter(k => values[k] > 0)]));
+  const rows = keys.map(key => {
+    const current = invested > 0 ? (values[key] || 0) / invested : 0;
+    const target = weights[key] || 0;
+    const drift = current - target;
+    return { key, label: bucketLabel(key, targets.basis), value: values[key] || 0, current, target, drift, outside: Math.abs(drift) > band + 1e-9 };
+  });
+  rows.sort((a, b) => Math.abs(b.drift) - Math.abs(a.drift));
+  return { rows, invested };
+}
+
+/** Today's weights as targets, a starting point for editing. */
+export function currentWeights(p: Portfolio, basis: AllocationBasis, quotes: Record<string, Quote | undefined>, fxRates?: FxRates): Record<string, number> {
+  const values: Record<string, number> = {};
+  for (const pos of positions(p, basis, quotes, fxRates)) if (pos.value > 0) values[pos.bucket] = (values[pos.bucket] || 0) + pos.value;
+  return normalizeWeights(values);
+}
+
+export type RebalanceMode = 'full' | 'cash';
+
+export type RebalanceTrade = {
+  symbol: string;
+  side: 'buy' | 'sell';
+  qty: number;
+  price: number;    // native currency
+  currency: string;
+  value: number;    // base currency, before fees
+  fee: number;      // base currency
+  bucket: string;
+};
+
+export type RebalanceProposal = {
+  trades: RebalanceTrade[];
+  cashBefore: number;
+  cashAfter: number;
+  fees: number;
+  /** Weights by bucket once the trades are done. */
+  after: Record<string, number>;
+  warnings: string[];
+};
+
+/**
+ * Trades that move the portfolio toward its targets. `full` buys and sells
+ * buckets outside the band back to target, funded by sales and `cash`; `cash`
+ * only buys, spending `cash` on the most underweight buckets. Quantities are
+ * rounded down to each holding's lot size, and buys are scaled back so they
+ * never spend more than there is.
+ */
+export function proposeRebalance(
+  p: Portfolio,
+  targets: AllocationTargets,
+  opts: {
+    quotes: Record<string, Quote | undefined>;
+    fxRates?: FxRates;
+    mode: RebalanceMode;
+    cash: number;                       // base currency available to invest
+    fee?: { flat?: number; pct?: number }; // per trade, base currency / fraction of the trade
+  },
+): RebalanceProposal {
+  const weights = normalizeWeights(targets.weights);
+  const band = targets.band ?? DEFAULT_BAND;
+  const flat = Math.max(0, Number(opts.fee?.flat) || 0);
+  const pct = Math.max(0, Number(opts.fee?.pct) || 0);
+  const feeFor = (value: number) => (value > 0 ? flat + value * pct : 0);
+  const cash = Math.max(0, Number(opts.cash) || 0);
+  const warnings: string[] = [];
+
+  const all = positions(p, targets.basis, opts.quotes, opts.fxRates);
+  const priced = all.filter(pos => pos.price > 0);
+  all.filter(pos => pos.price <= 0 && weights[pos.bucket]).forEach(pos => warnings.push(`No price for ${pos.symbol}, so it was left out.`));
+
+  const byBucket: Record<string, Position[]> = {};
+  for (const pos of priced) (byBucket[pos.bucket] ||= []).push(pos);
+  const bucketValue = (key: string) => (byBucket[key] || []).reduce((s, pos) => s + pos.value, 0);
+  const invested = priced.reduce((s, pos) => s + pos.value, 0);
+  const total = invested + cash;
+
+  Object.keys(weights).filter(k => !byBucket[k]?.length).forEach(k => {
+    warnings.push(`Nothing held in ${bucketLabel(k, targets.basis)} to buy; add a holding for it first.`);
+  });
+
+  // Amount to move per bucket, base currency (positive = buy)
+  const deltas: Record<string, number> = {};
+  const keys = Array.from(new Set([...Object.keys(weights), ...Object.keys(byBucket)])).filter(k => byBucket[k]?.length);
+  if (opts.mode === 'full') {
+    for (const k of keys) {
+      const current = invested > 0 ? bucketValue(k) / invested : 0;
+      if (Math.abs(current - (weights[k] || 0)) <= band + 1e-9) continue;
+      deltas[k] = (weights[k] || 0) * total - bucketValue(k);
+    }
+  } else {
+    const short: Record<string, number> = {};
+    for (const k of keys) short[k] = Math.max(0, (weights[k] || 0) * total - bucketValue(k));
+    const need = Object.values(short).reduce((s, v) => s + v, 0);
+    const k = need > 0 ? Math.min(1, cash / need) : 0;
+    for (const key of keys) if (short[key] > 0) deltas[key] = short[key] * k;
+  }
+
+  // Split each bucket's amount across its holdings by value (evenly when none has any)
+  const amounts: Array<{ pos: Position; amount: number }> = [];
+  for (const [k, delta] of Object.entries(deltas)) {
+    const members = byBucket[k];
+    const sum = members.reduce((s, pos) => s + pos.value, 0);
+    for (const pos of members) {
+      const share = sum > 0 ? pos.value / sum : 1 / members.length;
+      if (delta < 0 && pos.value <= 0) continue;
+      amounts.push({ pos, amount: delta * share });
+    }
+  }
+
+  const roundQty = (qty: number, lot: number, up = false) => {
+    if (lot <= 0) return Math.floor(qty * 1e6) / 1e6;
+    return (up ? Math.round(qty / lot) : Math.floor(qty / lot + 1e-9)) * lot;
+  };
+
+  const trades: RebalanceTrade[] = [];
+  let proceeds = 0;
+  for (const { pos, amount } of amounts) {
+    if (amount >= 0) continue;
+    const unit = pos.price * pos.rate;
+    const qty = Math.min(pos.qty, roundQty(-amount / unit, pos.lotSize, true));
+    if (qty <= 0) continue;
+    const value = qty * unit;
+    const fee = feeFor(value);
+    if (fee >= value) continue;
+    trades.push({ symbol: pos.symbol, side: 'sell', qty, price: pos.price, currency: pos.currency, value, fee, bucket: pos.bucket });
+    proceeds += value - fee;
+  }
+
+  // Buys: scale back until they fit the cash on hand (rounding only ever lowers them)
+  const buys = amounts.filter(a => a.amount > 0);
+  const budget = cash + proceeds;
+  const wanted = buys.reduce((s, a) => s + a.amount, 0);
+  let scale = wanted > budget && wanted > 0 ? budget / wanted : 1;
+  let planned: RebalanceTrade[] = [];
+  for (let attempt = 0; attempt < 5; attempt++) {
+    planned = [];
+    for (const { pos, amount } of buys) {
+      const unit = pos.price * pos.rate;
+      const spend = amount * scale;
+      const qty = roundQty(Math.max(0, spend - flat) / (1 + pct) / unit, pos.lotSize);
+      if (qty <= 0) continue;
+      const value = qty * unit;
+      planned.push({ symbol: pos.symbol, side: 'buy', qty, price: pos.price, currency: pos.currency, value, fee: feeFor(value), bucket: pos.bucket });
+    }
+    const spent = planned.reduce((s, t) => s + t.value + t.fee, 0);
+    if (spent <= budget + 1e-6) break;
+    scale *= budget / spent * 0.99;
+  }
+  trades.push(...planned);
+
+  const skipped = buys.filter(b => !planned.some(t => t.symbol === b.pos.symbol));
+  if (skipped.length) warnings.push(`${skipped.map(b => b.pos.symbol).join(', ')}: not enough to buy a whole lot.`);
+
+  const fees = trades.reduce((s, t) => s + t.fee, 0);
+  const cashAfter = cash + trades.reduce((s, t) => s + (t.side === 'sell' ? t.value - t.fee : -(t.value + t.fee)), 0);
+
+  const afterValues: Record<string, number> = {};
+  for (const pos of priced) afterValues[pos.bucket] = (afterValues[pos.bucket] || 0) + pos.value;
+  for (const t of trades) afterValues[t.bucket] += t.side === 'buy' ? t.value : -t.value;
+  const afterTotal = Object.values(afterValues).reduce((s, v) => s + v, 0);
+  const after = Object.fromEntries(Object.entries(afterValues).map(([k, v]) => [k, afterTotal > 0 ? v / afterTotal : 0]));
+
+  trades.sort((a, b) => (a.side === b.side ? b.value - a.value : a.side === 'sell' ? -1 : 1));
+  return { trades, cashBefore: cash, cashAfter, fees, after, warnings };
+}
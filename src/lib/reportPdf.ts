@@ -0,0 +1,411 @@
+/**
+ * Monthly / annual financial report, laid out with the PDF engine in ./pdf.
+ * Pure data → PdfDocument; the Report screen gathers store state and exports.
+ */
+
+import type { Transaction } from '../store/transactions';
+import { categorySlices } from '../store/transactions';
+import type { BankAccount } from '../store/accounts';
+import type { Debt } from '../store/debts';
+import type { Portfolio, Quote } from '../features/invest';
+import type { FxHistory } from './fxHistory';
+import { convertCurrency, type FxRates } from './fx';
+import { adjustedLots } from './corporateActions';
+import { computePnL } from './positions';
+import { holdingIncome, netIncome } from './income';
+import { calculateHistoricalNetWorth } from './netWorthHistory';
+import { portfolioValueHistory, type PricePoint } from './portfolioHistory';
+import { formatCurrency } from './format';
+import type { PdfDocument, PdfSection } from './pdf';
+
+export type ReportPeriod = { kind: 'month' | 'year'; year: number; month: number };
+
+export type FinancialReportInput = {
+  period: ReportPeriod;
+  currency: string;
+  includeCPF: boolean;
+  transactions: Transaction[];
+  /** Converts a transaction (or a slice of it) to `currency` */
+  toBase: (tx: Transaction, amount?: number) => number;
+  accounts: BankAccount[];
+  balanceToBase: (account: BankAccount, amount?: number) => number;
+  fxHistory: FxHistory;
+  debts: Debt[];
+  portfolios: Portfolio[];
+  quotes: Record<string, Quote>;
+  fxRates?: FxRates;
+  /** Daily closes by symbol for valuing portfolios in the past; quote bars otherwise */
+  priceHistory?: Record<string, PricePoint[]>;
+  monthlyBudget: number | null;
+  /** Per-category monthly caps (envelopes) */
+  categoryCaps: Record<string, number>;
+};
+
+export const isCPFAccount = (a: BankAccount) => !!a.name?.toLowerCase().includes('cpf');
+
+export function periodRange(period: ReportPeriod): { start: Date; end: Date } {
+  return period.kind === 'year'
+    ? { start: new Date(period.year, 0, 1), end: new Date(period.year + 1, 0, 1) }
+    : { start: new Date(period.year, period.month, 1), end: new Date(period.year, period.month + 1, 1) };
+}
+
+export function periodLabel(period: ReportPeriod): string {
+  const { start } = periodRange(period);
+  return period.kind === 'year'
+    ? String(period.year)
+    : start.toLocaleString(undefined, { month: 'long', year: 'numeric' });
+}
+
+/** Month starts charted for the period: the 12 months of a year, or the 6 months ending at a month. */
+function trendMonths(period: ReportPeriod): Date[] {
+  const count = period.kind === 'year' ? 12 : 6;
+  const first = period.kind === 'year' ? new Date(period.year, 0, 1) : new Date(period.year, period.month - 5, 1);
+  return Array.from({ length: count }, (_, i) => new Date(first.getFullYear(), first.getMonth() + i, 1));
+}
+
+const inRange = (t: Transaction, start: Date, end: Date) => {
+  const d = new Date(t.date).getTime();
+  return d >= start.getTime() && d < end.getTime();
+};
+
+const merchantOf = (t: Transaction) => (t.title || t.note || t.category || 'Unknown').trim();
+
+export function buildFinancialReport(input: FinancialReportInput): PdfDocument {
+  const { period, currency, toBase } = input;
+  const money = (n: number) => formatCurrency(n, currency);
+  const { start, end } = periodRange(period);
+  const label = periodLabel(period);
+
+  const periodTx = input.transactions.filter(t => t.type !== 'transfer' && inRange(t, start, end));
+  const income = periodTx.filter(t => t.type === 'income').reduce((s, t) => s + toBase(t), 0);
+  const spending = periodTx.filter(t => t.type === 'expense').reduce((s, t) => s + toBase(t), 0);
+  const savingsRate = income > 0 ? ((income - spending) / income) * 100 : 0;
+
+  const sections: PdfSection[] = [];
+
+  // Summary
+  sections.push({
+    title: 'Summary',
+    blocks: [
+      {
+        type: 'stats',
+        items: [
+          { label: 'Income', value: money(income), tone: 'positive' },
+          { label: 'Spending', value: money(spending), tone: 'negative' },
+          { label: 'Net savings', value: money(income - spending), tone: income - spending >= 0 ? 'positive' : 'negative' },
+          { label: 'Savings rate', value: `${savingsRate.toFixed(1)}%`, hint: `${periodTx.length} transactions` },
+        ],
+      },
+    ],
+  });
+
+  // Income vs spending trend
+  const months = trendMonths(period);
+  const monthly = months.map(m => {
+    const mEnd = new Date(m.getFullYear(), m.getMonth() + 1, 1);
+    let inc = 0;
+    let out = 0;
+    for (const t of input.transactions) {
+      if (!inRange(t, m, mEnd)) continue;
+      if (t.type === 'income') inc += toBase(t);
+      else if (t.type === 'expense') out += toBase(t);
+    }
+    return { month: m, income: inc, spending: out };
+  });
+  const monthLabel = (d: Date) => d.toLocaleString(undefined, { month: 'short' });
+  sections.push({
+    title: 'Income vs spending',
+    description: period.kind === 'year' ? `Each month of ${period.year}` : `Six months to ${label}`,
+    blocks: [
+      {
+        type: 'barChart',
+        series: [{ label: 'Income', color: '#16A34A' }, { label: 'Spending', color: '#DC2626' }],
+        labels: monthly.map(m => monthLabel(m.month)),
+        values: [monthly.map(m => m.income), monthly.map(m => m.spending)],
+      },
+      {
+        type: 'table',
+        columns: [
+          { label: 'Month' },
+          { label: 'Income', align: 'right' },
+          { label: 'Spending', align: 'right' },
+          { label: 'Net', align: 'right' },
+        ],
+        rows: monthly.map(m => [
+          m.month.toLocaleString(undefined, { month: 'long', year: 'numeric' }),
+          money(m.income),
+          money(m.spending),
+          money(m.income - m.spending),
+        ]),
+      },
+    ],
+  });
+
+  // Category breakdown (split transactions count towards each slice's category)
+  const byCategory: Record<string, number> = {};
+  for (const t of periodTx) {
+    if (t.type !== 'expense') continue;
+    for (const slice of categorySlices(t)) {
+      byCategory[slice.category] = (byCategory[slice.category] || 0) + toBase(t, slice.amount);
+    }
+  }
+  const categories = Object.entries(byCategory).sort((a, b) => b[1] - a[1]);
+  sections.push({
+    title: 'Spending by category',
+    newPage: true,
+    blocks: categories.length
+      ? [{ type: 'breakdown', items: categories.slice(0, 12).map(([name, total]) => ({ label: name, value: total, display: money(total) })) }]
+      : [{ type: 'text', text: 'No spending recorded in this period.', tone: 'muted' }],
+  });
+
+  // Top merchants
+  const byMerchant: Record<string, { total: number; count: number }> = {};
+  for (const t of periodTx) {
+    if (t.type !== 'expense') continue;
+    const key = merchantOf(t);
+    const m = byMerchant[key] || { total: 0, count: 0 };
+    m.total += toBase(t);
+    m.count += 1;
+    byMerchant[key] = m;
+  }
+  const merchants = Object.entries(byMerchant).sort((a, b) => b[1].total - a[1].total).slice(0, 10);
+  sections.push({
+    title: 'Top merchants',
+    blocks: [{
+      type: 'table',
+      columns: [{ label: 'Merchant' }, { label: 'Transactions', align: 'right' }, { label: 'Total', align: 'right' }, { label: 'Share', align: 'right' }],
+      rows: merchants.map(([name, m]) => [name, String(m.count), money(m.total), spending > 0 ? `${((m.total / spending) * 100).toFixed(1)}%` : '—']),
+      emptyText: 'No spending recorded in this period.',
+    }],
+  });
+
+  // Budget adherence
+  const budgetBlocks: PdfSection['blocks'] = [];
+  if (input.monthlyBudget && input.monthlyBudget > 0) {
+    const budget = input.monthlyBudget;
+    const rows = (period.kind === 'year' ? monthly : monthly.slice(-1)).map(m => {
+      const pct = (m.spending / budget) * 100;
+      return [
+        m.month.toLocaleString(undefined, { month: 'long', year: 'numeric' }),
+        money(budget),
+        money(m.spending),
+        `${pct.toFixed(0)}%`,
+        pct <= 100 ? 'Within budget' : `Over by ${money(m.spending - budget)}`,
+      ];
+    });
+    const within = rows.filter(r => r[4] === 'Within budget').length;
+    budgetBlocks.push(
+      { type: 'note', text: `Within the monthly budget in ${within} of ${rows.length} month${rows.length === 1 ? '' : 's'}.`, tone: within === rows.length ? 'positive' : 'negative' },
+      {
+        type: 'table',
+        columns: [{ label: 'Month' }, { label: 'Budget', align: 'right' }, { label: 'Spent', align: 'right' }, { label: 'Used', align: 'right' }, { label: 'Status' }],
+        rows,
+      }
+    );
+  }
+  const caps = Object.entries(input.categoryCaps || {}).filter(([, cap]) => cap > 0);
+  if (caps.length) {
+    const monthsInPeriod = period.kind === 'year' ? 12 : 1;
+    budgetBlocks.push({
+      type: 'table',
+      columns: [{ label: 'Category' }, { label: 'Cap', align: 'right' }, { label: 'Spent', align: 'right' }, { label: 'Used', align: 'right' }],
+      rows: caps
+        .map(([cat, cap]) => ({ cat, cap: cap * monthsInPeriod, spent: byCategory[cat] || 0 }))
+        .sort((a, b) => b.spent / b.cap - a.spent / a.cap)
+        .map(r => [r.cat, money(r.cap), money(r.spent), `${((r.spent / r.cap) * 100).toFixed(0)}%`]),
+    });
+  }
+  sections.push({
+    title: 'Budget adherence',
+    blocks: budgetBlocks.length ? budgetBlocks : [{ type: 'text', text: 'No budget set.', tone: 'muted' }],
+  });
+
+  // Net worth, with and without CPF
+  const portfolioValue = portfolioTotals(input).value;
+  const included = input.accounts.filter(a => a.includeInNetWorth !== false);
+  let cash = 0;
+  let cpf = 0;
+  for (const a of included) {
+    const bal = input.balanceToBase(a, Number(a.balance) || 0);
+    if (isCPFAccount(a)) cpf += bal; else cash += bal;
+  }
+  const debtTotal = input.debts.reduce((s, d) => s + (Number(d.balance) || 0), 0);
+  const withCPF = cash + cpf + portfolioValue - debtTotal;
+  const withoutCPF = cash + portfolioValue - debtTotal;
+
+  const daysBack = Math.max(31, Math.ceil((Date.now() - months[0].getTime()) / (24 * 3600 * 1000)));
+  const fx = { baseCurrency: currency, history: input.fxHistory };
+  const portfolioHistory = portfolioValueHistory(
+    input.portfolios.filter(p => !p.archived && p.trackingEnabled !== false),
+    {
+      currency,
+      quotes: input.quotes,
+      closes: input.priceHistory,
+      fxHistory: input.fxHistory,
+      fxRates: input.fxRates,
+      start: Date.now() - daysBack * 24 * 3600 * 1000,
+    }
+  );
+  const historyAll = calculateHistoricalNetWorth(included, input.transactions, portfolioValue, daysBack, fx, portfolioHistory);
+  const historyExCPF = calculateHistoricalNetWorth(included.filter(a => !isCPFAccount(a)), input.transactions, portfolioValue, daysBack, fx, portfolioHistory);
+  const valueAt = (history: typeof historyAll, t: number) => {
+    let point = history[0];
+    for (const p of history) if (p.t <= t) point = p;
+    return point ? point.cash + point.investments - point.debt : 0;
+  };
+  const monthEnds = months
+    .filter(m => m.getTime() <= Date.now())
+    .map(m => Math.min(new Date(m.getFullYear(), m.getMonth() + 1, 1).getTime() - 1, Date.now()));
+  const series = input.includeCPF
+    ? [{ label: 'Including CPF', color: '#5B5BD6' }, { label: 'Excluding CPF', color: '#94A3B8' }]
+    : [{ label: 'Excluding CPF', color: '#5B5BD6' }];
+  const values = input.includeCPF
+    ? [monthEnds.map(t => valueAt(historyAll, t)), monthEnds.map(t => valueAt(historyExCPF, t))]
+    : [monthEnds.map(t => valueAt(historyExCPF, t))];
+
+  sections.push({
+    title: 'Net worth',
+    newPage: true,
+    description: input.includeCPF ? 'Balances today, with CPF shown separately' : 'Balances today, excluding CPF',
+    blocks: [
+      {
+        type: 'stats',
+        items: [
+          { label: input.includeCPF ? 'Net worth (with CPF)' : 'Net worth (ex-CPF)', value: money(input.includeCPF ? withCPF : withoutCPF) },
+          ...(input.includeCPF ? [{ label: 'Net worth (ex-CPF)', value: money(withoutCPF), tone: 'muted' as const }] : []),
+          { label: 'Cash', value: money(cash) },
+          ...(input.includeCPF ? [{ label: 'CPF', value: money(cpf) }] : []),
+          { label: 'Investments', value: money(portfolioValue) },
+          { label: 'Debts', value: money(debtTotal), tone: debtTotal > 0 ? 'negative' as const : 'default' as const },
+        ],
+      },
+      { type: 'lineChart', series, labels: monthEnds.map(t => monthLabel(new Date(t))), values },
+    ],
+  });
+
+  // Portfolio performance
+  sections.push(portfolioSection(input, start, end, money));
+
+  return {
+    title: period.kind === 'year' ? 'Annual Financial Report' : 'Monthly Financial Report',
+    subtitle: label,
+    meta: `Amounts in ${currency} · Generated ${new Date().toLocaleString(undefined, { day: 'numeric', month: 'short', year: 'numeric', hour: '2-digit', minute: '2-digit' })}`,
+    sections,
+    footer: 'Generated by FinGrow. Figures use exchange rates on each transaction date; balances and holdings use current rates and prices.',
+  };
+}
+
+type HoldingRow = { symbol: string; portfolio: string; qty: number; cost: number; value: number; unrealized: number; realized: number; income: number };
+
+function holdingRows(input: FinancialReportInput): HoldingRow[] {
+  const rows: HoldingRow[] = [];
+  for (const p of input.portfolios) {
+    if (p.archived || p.trackingEnabled === false) continue;
+    for (const h of Object.values(p.holdings || {})) {
+      if (h.archived) continue;
+      const last = input.quotes[h.symbol]?.last ?? 0;
+      const pnl = computePnL(adjustedLots(h), last, p.costMethod);
+      const from = (h.currency || p.baseCurrency || 'USD').toUpperCase();
+      const conv = (n: number) => convertCurrency(input.fxRates, n, from, input.currency);
+      rows.push({
+        symbol: h.symbol,
+        portfolio: p.name,
+        qty: pnl.qty,
+        cost: conv(pnl.qty * pnl.avgCost),
+        value: conv(pnl.qty * last),
+        unrealized: conv(pnl.unrealized),
+        realized: conv(pnl.realized),
+        income: conv(holdingIncome(h)),
+      });
+    }
+  }
+  return rows;
+}
+
+function portfolioTotals(input: FinancialReportInput) {
+  const rows = holdingRows(input);
+  const cash = input.portfolios
+    .filter(p => !p.archived && p.trackingEnabled !== false)
+    .reduce((s, p) => s + convertCurrency(input.fxRates, Number(p.cash || 0), p.baseCurrency || 'USD', input.currency), 0);
+  return {
+    rows,
+    cash,
+    value: rows.reduce((s, r) => s + r.value, 0) + cash,
+    cost: rows.reduce((s, r) => s + r.cost, 0),
+    unrealized: rows.reduce((s, r) => s + r.unrealized, 0),
+    realized: rows.reduce((s, r) => s + r.realized, 0),
+    income: rows.reduce((s, r) => s + r.income, 0),
+  };
+}
+
+function portfolioSection(input: FinancialReportInput, start: Date, end: Date, money: (n: number) => string): PdfSection {
+  const totals = portfolioTotals(input);
+  if (totals.rows.length === 0 && totals.cash === 0) {
+    return { title: 'Portfolio performance', blocks: [{ type: 'text', text: 'No investments tracked.', tone: 'muted' }] };
+  }
+
+  // Money put in and taken out during the period
+  let bought = 0;
+  let sold = 0;
+  let income = 0;
+  for (const p of input.portfolios) {
+    if (p.archived || p.trackingEnabled === false) continue;
+    for (const h of Object.values(p.holdings || {})) {
+      const from = (h.currency || p.baseCurrency || 'USD').toUpperCase();
+      for (const l of adjustedLots(h)) {
+        const d = new Date(l.date).getTime();
+        if (d < start.getTime() || d >= end.getTime()) continue;
+        const gross = convertCurrency(input.fxRates, l.qty * l.price, from, input.currency);
+        if (l.side === 'buy') bought += gross; else sold += gross;
+      }
+      for (const e of h.income || []) {
+        const d = new Date(e.date).getTime();
+        if (d < start.getTime() || d >= end.getTime()) continue;
+        income += convertCurrency(input.fxRates, netIncome(e), from, input.currency);
+      }
+    }
+  }
+
+  const returnPct = totals.cost > 0 ? (totals.unrealized / totals.cost) * 100 : 0;
+  const rows = [...totals.rows].filter(r => r.qty > 0 || r.realized !== 0 || r.income !== 0).sort((a, b) => b.value - a.value);
+  return {
+    title: 'Portfolio performance',
+    description: 'Holdings at current prices',
+    blocks: [
+      {
+        type: 'stats',
+        items: [
+          { label: 'Market value', value: money(totals.value), hint: totals.cash ? `incl. ${money(totals.cash)} cash` : undefined },
+          { label: 'Unrealised P&L', value: money(totals.unrealized), hint: `${returnPct >= 0 ? '+' : ''}${returnPct.toFixed(2)}% on cost`, tone: totals.unrealized >= 0 ? 'positive' : 'negative' },
+          { label: 'Realised P&L', value: money(totals.realized), tone: totals.realized >= 0 ? 'positive' : 'negative' },
+          { label: 'Bought / sold this period', value: `${money(bought)} / ${money(sold)}`, tone: 'muted' },
+          { label: 'Income this period', value: money(income), hint: `${money(totals.income)} all time`, tone: income > 0 ? 'positive' : 'muted' },
+        ],
+      },
+      {
+        type: 'table',
+        columns: [
+          { label: 'Symbol' },
+          { label: 'Portfolio' },
+          { label: 'Qty', align: 'right' },
+          { label: 'Cost', align: 'right' },
+          { label: 'Value', align: 'right' },
+          { label: 'Unrealised', align: 'right' },
+          { label: 'Realised', align: 'right' },
+          { label: 'Income', align: 'right' },
+        ],
+        rows: rows.map(r => [
+          r.symbol,
+          r.portfolio,
+          r.qty.toLocaleString(undefined, { maximumFractionDigits: 4 }),
+          money(r.cost),
+          money(r.value),
+          money(r.unrealized),
+          money(r.realized),
+          money(r.income),
+        ]),
+        total: ['Total', '', '', money(totals.cost), money(totals.value - totals.cash), money(totals.unrealized), money(totals.realized), money(totals.income)],
+      },
+    ],
+  };
+}
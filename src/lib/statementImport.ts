@@ -0,0 +1,342 @@
+import type { ImportInput, Transaction, TxType } from '../store/transactions';
+
+/**
+ * Bank statement import: parses CSV, OFX/QFX and QIF exports into a common
+ * row shape, maps them onto transactions and flags likely duplicates.
+ */
+
+export type StatementFormat = 'csv' | 'ofx' | 'qif';
+export type DateFormat = 'auto' | 'DMY' | 'MDY' | 'YMD';
+
+/** One parsed statement line. `amount` is signed: negative = money out. */
+export type ImportedRow = {
+  key: string;
+  date: string; // ISO
+  amount: number;
+  description: string;
+  externalId?: string; // FITID from OFX, when present
+};
+
+/** Which CSV column holds what. Indexes are zero-based; -1 means unused. */
+export type CsvMapping = {
+  hasHeader: boolean;
+  date: number;
+  description: number;
+  amount: number; // single signed amount column
+  debit: number; // or separate money-out / money-in columns
+  credit: number;
+  dateFormat: DateFormat;
+  invertAmounts?: boolean; // card exports often list purchases as positive
+};
+
+export type DuplicateMatch = { txId: string; score: number };
+
+const DAY = 24 * 60 * 60 * 1000;
+// Matching on date and amount alone flags every same-priced coffee; the notes must share words too
+const MIN_NOTE_SIMILARITY = 0.2;
+
+export function detectFormat(fileName: string, text: string): StatementFormat {
+  const name = (fileName || '').toLowerCase();
+  if (name.endsWith('.ofx') || name.endsWith('.qfx')) return 'ofx';
+  if (name.endsWith('.qif')) return 'qif';
+  const head = text.slice(0, 500).toUpperCase();
+  if (head.includes('OFXHEADER') || head.includes('<OFX>')) return 'ofx';
+  if (/^\s*!TYPE:/m.test(text.slice(0, 200))) return 'qif';
+  return 'csv';
+}
+
+// ---------- CSV ----------
+
+function detectDelimiter(text: string): string {
+  const firstLine = text.split(/\r?\n/).find(l => l.trim().length > 0) || '';
+  const candidates = [',', ';', '\t'];
+  let best = ',';
+  let bestCount = 0;
+  for (const c of candidates) {
+    const count = firstLine.split(c).length - 1;
+    if (count > bestCount) { best = c; bestCount = count; }
+  }
+  return best;
+}
+
+/** RFC 4180-ish CSV parser (quoted fields, escaped quotes, embedded newlines). */
+export function parseCsv(text: string, delimiter = detectDelimiter(text)): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const src = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i];
+    if (inQuotes) {
+      if (ch === '"') {
+        if (src[i + 1] === '"') { field += '"'; i++; }
+        else inQuotes = false;
+      } else {
+        field += ch;
+      }
+      continue;
+    }
+    if (ch === '"') { inQuotes = true; continue; }
+    if (ch === delimiter) { row.push(field); field = ''; continue; }
+    if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && src[i + 1] === '\n') i++;
+      row.push(field); field = '';
+      if (row.some(c => c.trim().length > 0)) rows.push(row.map(c => c.trim()));
+      row = [];
+      continue;
+    }
+    field += ch;
+  }
+  row.push(field);
+  if (row.some(c => c.trim().length > 0)) rows.push(row.map(c => c.trim()));
+  return rows;
+}
+
+/** Best-effort column guess from a header row. */
+export function guessCsvMapping(header: string[]): CsvMapping {
+  const find = (...needles: string[]) =>
+    header.findIndex(h => needles.some(n => h.toLowerCase().includes(n)));
+  const amount = find('amount', 'amt', 'value');
+  const debit = find('debit', 'withdrawal', 'money out', 'paid out');
+  const credit = find('credit', 'deposit', 'money in', 'paid in');
+  // Prefer separate in/out columns when the bank provides both
+  const split = debit >= 0 && credit >= 0;
+  return {
+    hasHeader: true,
+    date: Math.max(0, find('date', 'posted')),
+    description: Math.max(0, find('description', 'details', 'narrative', 'payee', 'merchant', 'memo', 'reference')),
+    amount: split ? -1 : Math.max(0, amount),
+    debit: split ? debit : -1,
+    credit: split ? credit : -1,
+    dateFormat: 'auto',
+  };
+}
+
+/** Parses "1,234.56", "(12.00)", "-$5", "12.00 DR", "1.234,56" style amounts. */
+export function parseAmount(raw: string): number | null {
+  if (raw == null) return null;
+  let s = String(raw).trim();
+  if (!s) return null;
+  let negative = false;
+  if (/^\(.*\)$/.test(s)) { negative = true; s = s.slice(1, -1); }
+  if (/\bDR$/i.test(s)) { negative = true; s = s.replace(/\s*DR$/i, ''); }
+  s = s.replace(/\s*CR$/i, '');
+  if (s.startsWith('-')) { negative = !negative; s = s.slice(1); }
+  if (s.endsWith('-')) { negative = !negative; s = s.slice(0, -1); }
+  s = s.replace(/[^0-9.,]/g, '');
+  // Decimal comma when the last separator is a comma followed by exactly 2 digits
+  if (/,\d{2}$/.test(s) && (s.indexOf('.') === -1 || s.lastIndexOf('.') < s.lastIndexOf(','))) {
+    s = s.replace(/\./g, '').replace(',', '.');
+  } else {
+    s = s.replace(/,/g, '');
+  }
+  const n = Number(s);
+  if (!Number.isFinite(n) || s === '') return null;
+  return negative ? -n : n;
+}
+
+/** Parses statement dates into ISO (local noon, so timezones never shift the day). */
+export function parseStatementDate(raw: string, format: DateFormat = 'auto'): string | null {
+  const s = String(raw || '').trim();
+  if (!s) return null;
+
+  // OFX: YYYYMMDD[HHMMSS[.XXX][TZ]]
+  const compact = s.match(/^(\d{4})(\d{2})(\d{2})/);
+  if (compact && s.length >= 8 && !/[-/.]/.test(s.slice(0, 8))) {
+    return toIso(+compact[1], +compact[2], +compact[3]);
+  }
+
+  const parts = s.replace(/'/g, '/').split(/[-/. ]+/).filter(Boolean);
+  if (parts.length >= 3) {
+    const month = monthIndex(parts[1]);
+    if (month) return toIso(expandYear(+parts[2]), month, +parts[0]); // 05 Jan 2024
+    const [a, b, c] = parts.map(p => parseInt(p, 10));
+    if ([a, b, c].some(n => !Number.isFinite(n))) return null;
+    if (format === 'YMD' || (format === 'auto' && parts[0].length === 4)) return toIso(a, b, c);
+    if (format === 'MDY') return toIso(expandYear(c), a, b);
+    if (format === 'DMY') return toIso(expandYear(c), b, a);
+    // auto: day-first unless the middle part can't be a month
+    if (b > 12) return toIso(expandYear(c), a, b);
+    return toIso(expandYear(c), b, a);
+  }
+
+  const d = new Date(s);
+  return isNaN(d.getTime()) ? null : d.toISOString();
+}
+
+function monthIndex(s: string): number | null {
+  const names = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+  const i = names.indexOf(String(s).slice(0, 3).toLowerCase());
+  return i >= 0 ? i + 1 : null;
+}
+
+function expandYear(y: number) {
+  return y < 100 ? 2000 + y : y;
+}
+
+function toIso(y: number, m: number, d: number): string | null {
+  if (!y || m < 1 || m > 12 || d < 1 || d > 31) return null;
+  const date = new Date(y, m - 1, d, 12, 0, 0);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+export function csvToRows(table: string[][], mapping: CsvMapping): ImportedRow[] {
+  const body = mapping.hasHeader ? table.slice(1) : table;
+  const rows: ImportedRow[] = [];
+  body.forEach((cells, i) => {
+    const date = parseStatementDate(cells[mapping.date], mapping.dateFormat);
+    let amount: number | null = null;
+    if (mapping.amount >= 0) {
+      amount = parseAmount(cells[mapping.amount]);
+    } else {
+      const out = mapping.debit >= 0 ? parseAmount(cells[mapping.debit]) : null;
+      const inn = mapping.credit >= 0 ? parseAmount(cells[mapping.credit]) : null;
+      if (out != null || inn != null) amount = (inn ? Math.abs(inn) : 0) - (out ? Math.abs(out) : 0);
+    }
+    if (!date || amount == null || amount === 0) return;
+    if (mapping.invertAmounts) amount = -amount;
+    rows.push({
+      key: `csv-${i}`,
+      date,
+      amount,
+      description: (cells[mapping.description] || '').trim(),
+    });
+  });
+  return rows;
+}
+
+// ---------- OFX / QFX ----------
+
+function ofxTag(block: string, tag: string): string {
+  // Handles both SGML (<TAG>value) and XML (<TAG>value</TAG>) flavours
+  const m = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  return m ? m[1].trim() : '';
+}
+
+export function parseOfx(text: string): ImportedRow[] {
+  const rows: ImportedRow[] = [];
+  const blocks = text.split(/<STMTTRN>/i).slice(1);
+  blocks.forEach((raw, i) => {
+    const block = raw.split(/<\/STMTTRN>/i)[0];
+    const date = parseStatementDate(ofxTag(block, 'DTPOSTED'), 'YMD');
+    const amount = parseAmount(ofxTag(block, 'TRNAMT'));
+    if (!date || amount == null || amount === 0) return;
+    const name = ofxTag(block, 'NAME');
+    const memo = ofxTag(block, 'MEMO');
+    const fitId = ofxTag(block, 'FITID');
+    rows.push({
+      key: fitId ? `ofx-${fitId}` : `ofx-${i}`,
+      date,
+      amount,
+      description: decodeEntities([name, memo && memo !== name ? memo : ''].filter(Boolean).join(' — ')),
+      externalId: fitId || undefined,
+    });
+  });
+  return rows;
+}
+
+function decodeEntities(s: string) {
+  return s.replace(/&amp;/g, '&').replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&apos;/g, "'").replace(/&quot;/g, '"');
+}
+
+// ---------- QIF ----------
+
+export function parseQif(text: string, dateFormat: DateFormat = 'MDY'): ImportedRow[] {
+  const rows: ImportedRow[] = [];
+  let cur: { date?: string; amount?: number; payee?: string; memo?: string } = {};
+  let i = 0;
+  for (const line of text.split(/\r?\n/)) {
+    if (!line) continue;
+    const code = line[0];
+    const value = line.slice(1).trim();
+    if (code === '!') continue;
+    if (code === 'D') cur.date = parseStatementDate(value, dateFormat) || undefined;
+    else if (code === 'T' || code === 'U') cur.amount = parseAmount(value) ?? undefined;
+    else if (code === 'P') cur.payee = value;
+    else if (code === 'M') cur.memo = value;
+    else if (code === '^') {
+      if (cur.date && cur.amount) {
+        rows.push({
+          key: `qif-${i++}`,
+          date: cur.date,
+          amount: cur.amount,
+          description: [cur.payee, cur.memo && cur.memo !== cur.payee ? cur.memo : ''].filter(Boolean).join(' — '),
+        });
+      }
+      cur = {};
+    }
+  }
+  return rows;
+}
+
+// ---------- Mapping & duplicates ----------
+
+export function rowToTransaction(row: ImportedRow, account?: string): ImportInput {
+  const type = row.amount < 0 ? 'expense' : 'income';
+  return {
+    type,
+    amount: Math.abs(row.amount),
+    category: type === 'expense' ? 'Other' : 'Income',
+    date: row.date,
+    note: row.description || undefined,
+    account,
+    autoCategory: true, // statements carry no category; let the rules pick one
+  };
+}
+
+function tokens(s: string): Set<string> {
+  return new Set(
+    (s || '').toLowerCase().replace(/\d+/g, ' ').replace(/[^a-z]+/g, ' ').split(' ').filter(w => w.length > 1)
+  );
+}
+
+/** Jaccard similarity of the word sets of two descriptions (0..1). */
+export function noteSimilarity(a: string, b: string): number {
+  const ta = tokens(a);
+  const tb = tokens(b);
+  if (ta.size === 0 && tb.size === 0) return 1;
+  if (ta.size === 0 || tb.size === 0) return 0;
+  let inter = 0;
+  ta.forEach(t => { if (tb.has(t)) inter++; });
+  return inter / (ta.size + tb.size - inter);
+}
+
+/**
+ * Flags rows that probably already exist in the ledger: same direction and
+ * amount (as charged to the account), dated within a few days, with a similar
+ * note. Each existing transaction can only absorb one imported row.
+ */
+export function findDuplicates(
+  rows: ImportedRow[],
+  existing: Transaction[],
+  account?: string,
+  windowDays = 3,
+): Record<string, DuplicateMatch> {
+  const out: Record<string, DuplicateMatch> = {};
+  const claimed = new Set<string>();
+  const pool = existing.filter(t => t.type !== 'transfer' && (!account || !t.account || t.account === account));
+
+  for (const row of rows) {
+    const rowTime = new Date(row.date).getTime();
+    const rowType: TxType = row.amount < 0 ? 'expense' : 'income';
+    let best: DuplicateMatch | null = null;
+    for (const t of pool) {
+      if (claimed.has(t.id) || t.type !== rowType) continue;
+      // Statements are in the account's currency, so compare what the account was charged
+      if (Math.abs(Math.abs(Number(t.accountAmount ?? t.amount) || 0) - Math.abs(row.amount)) > 0.01) continue;
+      const days = Math.abs(new Date(t.date).getTime() - rowTime) / DAY;
+      if (days > windowDays) continue;
+      const sim = noteSimilarity(row.description, [t.note, t.title].filter(Boolean).join(' '));
+      if (sim < MIN_NOTE_SIMILARITY) continue;
+      const score = (1 - days / (windowDays + 1)) * 0.5 + sim * 0.5;
+      if (score >= 0.5 && (!best || score > best.score)) best = { txId: t.id, score };
+    }
+    if (best) {
+      out[row.key] = best;
+      claimed.add(best.txId);
+    }
+  }
+  return out;
+}
@@ -19,6 +19,8 @@ import {
   BillDetails,
   SettleUp,
   GroupReminders,
+  RecurringBills,
+  GroupSync,
   ManageMembers,
   EditGroup,
   AddReminder,
@@ -44,6 +46,8 @@ export type HomeStackParamList = {
   BillDetails: { groupId: string; billId: string };
   SettleUp: { groupId: string };
   GroupReminders: { groupId: string };
+  RecurringBills: { groupId: string };
+  GroupSync: { groupId?: string }; // without a group, only importing
   ManageMembers: { groupId: string };
   ManageMembersCreate: { rows: any[]; includeMe: boolean; myName: string };
   EditGroup: { groupId: string };
@@ -147,6 +151,8 @@ export default function HomeNavigator() {
       <Stack.Screen name="BillDetails" component={BillDetails} options={{ presentation: 'modal' }} />
       <Stack.Screen name="SettleUp" component={SettleUp} options={{ presentation: 'modal' }} />
       <Stack.Screen name="GroupReminders" component={GroupReminders} options={{ presentation: 'modal' }} />
+      <Stack.Screen name="RecurringBills" component={RecurringBills} options={{ presentation: 'modal' }} />
+      <Stack.Screen name="GroupSync" component={GroupSync} options={{ presentation: 'modal' }} />
       <Stack.Screen name="ManageMembers" component={ManageMembers} options={{ presentation: 'modal' }} />
       <Stack.Screen
         name="ManageMembersCreate"
@@ -7,7 +7,11 @@ import {
   EditLot,
   HoldingHistory,
   DCAPlanner,
+  DCAPlans,
   PortfolioDetail,
+  PortfolioIncome,
+  Rebalance,
+  PriceAlerts,
   CreatePortfolio,
 } from '../features/invest';
 import Search from '../screens/Search';
@@ -20,6 +24,9 @@ export default function InvestNavigator() {
     <Stack.Navigator screenOptions={{ headerShown: false }}>
       <Stack.Screen name="InvestHome" component={InvestHome} />
       <Stack.Screen name="PortfolioDetail" component={PortfolioDetail} />
+      <Stack.Screen name="PortfolioIncome" component={PortfolioIncome} />
+      <Stack.Screen name="Rebalance" component={Rebalance} />
+      <Stack.Screen name="PriceAlerts" component={PriceAlerts} />
       <Stack.Screen name="CreatePortfolio" component={CreatePortfolio} />
       <Stack.Screen name="AddLot" component={AddLot} options={{ presentation: 'modal' }} />
       <Stack.Screen name="HoldingHistory" component={HoldingHistory} options={{ presentation: 'modal' }} />
@@ -28,6 +35,7 @@ export default function InvestNavigator() {
       <Stack.Screen name="EditWatchlist" component={EditWatchlist} />
       <Stack.Screen name="EditLot" component={EditLot} />
       <Stack.Screen name="DCAPlanner" component={DCAPlanner} />
+      <Stack.Screen name="DCAPlans" component={DCAPlans} />
     </Stack.Navigator>
   );
 }
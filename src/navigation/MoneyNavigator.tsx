@@ -13,6 +13,7 @@ import PaycheckBreakdown from '../screens/PaycheckBreakdown';
 import PaycheckSetup from '../screens/PaycheckSetup';
 import PaycheckSettings from '../screens/PaycheckSettings';
 import PaycheckHistory from '../screens/PaycheckHistory';
+import AssignMoney from '../screens/AssignMoney';
 import BillsList from '../screens/BillsList';
 import { InvestmentsList, PortfolioList } from '../features/invest';
 import SelectInstitution from '../screens/SelectInstitution';
@@ -56,6 +57,7 @@ export default function MoneyNavigator() {
       <Stack.Screen name="PaycheckSetup" component={PaycheckSetup} />
       <Stack.Screen name="PaycheckSettings" component={PaycheckSettings} />
       <Stack.Screen name="PaycheckHistory" component={PaycheckHistory} />
+      <Stack.Screen name="AssignMoney" component={AssignMoney} />
       <Stack.Screen
         name="BillsList"
         component={BillsList}
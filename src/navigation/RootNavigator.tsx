@@ -21,6 +21,9 @@ import GoalsNavigator from './GoalsNavigator';
 import InvestNavigator from './InvestNavigator';
 import Add from '../screens/Add';
 import EditTransaction from '../screens/EditTransaction';
+import ImportStatement from '../screens/ImportStatement';
+import CategoryRules from '../screens/CategoryRules';
+import Backup from '../screens/Backup';
 import AIAssistant from '../screens/AIAssistant';
 import AIPrivacyInfo from '../screens/AIPrivacyInfo';
 import FloatingAIButton from '../components/FloatingAIButton';
@@ -89,6 +92,9 @@ type RootParamList = {
   TransactionsModal: undefined;
   Add: undefined;
   EditTransaction: { id: string };
+  ImportStatement: undefined;
+  CategoryRules: undefined;
+  Backup: undefined;
   InsightsModal: undefined;
   AchievementsModal: undefined;
   ProfileModal: undefined;
@@ -111,6 +117,9 @@ export default function RootNavigator() {
         <Root.Screen name="TransactionsModal" component={Transactions} options={{ presentation: 'modal' }} />
         <Root.Screen name="Add" component={Add} options={{ presentation: 'modal' }} />
         <Root.Screen name="EditTransaction" component={EditTransaction} options={{ presentation: 'modal' }} />
+        <Root.Screen name="ImportStatement" component={ImportStatement} options={{ presentation: 'modal' }} />
+        <Root.Screen name="CategoryRules" component={CategoryRules} options={{ presentation: 'modal' }} />
+        <Root.Screen name="Backup" component={Backup} options={{ presentation: 'modal' }} />
         <Root.Screen name="InsightsModal" component={Insights} options={{ presentation: 'modal' }} />
         <Root.Screen name="AchievementsModal" component={Achievements} options={{ presentation: 'modal' }} />
         <Root.Screen name="ProfileModal" component={Profile} options={{ presentation: 'modal' }} />
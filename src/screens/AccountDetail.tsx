@@ -21,7 +21,7 @@ import BottomSheet from '../components/BottomSheet';
 import { spacing, radius } from '../theme/tokens';
 import { useThemeTokens } from '../theme/ThemeProvider';
 import { useAccountsStore } from '../store/accounts';
-import { useTxStore } from '../store/transactions';
+import { useTxStore, touchesAccount, txDeltaForAccount } from '../store/transactions';
 import { useRoute, useNavigation } from '@react-navigation/native';
 import { formatCurrency } from '../lib/format';
 
@@ -73,11 +73,13 @@ const AnimatedPressable: React.FC<{
 
 const SwipeableTransactionRow: React.FC<{
   tx: any;
+  delta: number; // signed balance change for this account
   isLast: boolean;
   onEdit: () => void;
   onDelete: () => void;
-}> = ({ tx, isLast, onEdit, onDelete }) => {
+}> = ({ tx, delta, isLast, onEdit, onDelete }) => {
   const { get } = useThemeTokens();
+  const isInflow = delta >= 0;
   const text = get('text.primary') as string;
   const muted = get('text.muted') as string;
   const successColor = get('semantic.success') as string;
@@ -180,20 +182,20 @@ const SwipeableTransactionRow: React.FC<{
                   width: 24,
                   height: 24,
                   borderRadius: 12,
-                  backgroundColor: withAlpha(tx.type === 'income' ? successColor : dangerColor, 0.15),
+                  backgroundColor: withAlpha(isInflow ? successColor : dangerColor, 0.15),
                   alignItems: 'center',
                   justifyContent: 'center',
                 }}
               >
                 <Icon
-                  name={tx.type === 'income' ? 'arrow-down' : 'arrow-up'}
+                  name={isInflow ? 'arrow-down' : 'arrow-up'}
                   size={12}
-                  color={tx.type === 'income' ? successColor : dangerColor}
+                  color={isInflow ? successColor : dangerColor}
                 />
               </View>
               <View style={{ flex: 1, gap: spacing.s2 }}>
                 <Text style={{ color: text, fontWeight: '600' }} numberOfLines={1}>
-                  {tx.note || (tx.type === 'income' ? 'Deposit' : 'Withdrawal')}
+                  {tx.note || (tx.type === 'transfer' ? (isInflow ? `Transfer from ${tx.account}` : `Transfer to ${tx.toAccount}`) : isInflow ? 'Deposit' : 'Withdrawal')}
                 </Text>
                 <Text style={{ color: muted, fontSize: 12 }}>
                   {new Date(tx.date).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}
@@ -202,14 +204,14 @@ const SwipeableTransactionRow: React.FC<{
             </View>
             <Text
               style={{
-                color: tx.type === 'income' ? successColor : dangerColor,
+                color: isInflow ? successColor : dangerColor,
                 fontWeight: '800',
                 fontSize: 16,
                 marginLeft: spacing.s12,
               }}
             >
-              {tx.type === 'income' ? '+' : '-'}
-              {formatCurrency(Math.abs(tx.amount))}
+              {isInflow ? '+' : '-'}
+              {formatCurrency(Math.abs(delta))}
             </Text>
           </View>
         </Animated.View>
@@ -388,7 +390,7 @@ export default function AccountDetail() {
     if (!acc) return [];
 
     try {
-      const accountTransactions = (transactions || []).filter(tx => tx.account === acc.name);
+      const accountTransactions = (transactions || []).filter(tx => touchesAccount(tx, acc.name));
       const now = new Date();
       const points: Array<{ date: Date; balance: number; label: string; showLabel: boolean }> = [];
       const monthNames = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
@@ -448,11 +450,7 @@ export default function AccountDetail() {
 
             if (txDate <= dayDate) {
               // Apply this transaction to running balance
-              if (tx.type === 'income') {
-                runningBalance += tx.amount;
-              } else {
-                runningBalance -= tx.amount;
-              }
+              runningBalance += txDeltaForAccount(tx, acc.name);
               txIndex++;
             } else {
               break; // This transaction is in the future for this day
@@ -507,11 +505,7 @@ export default function AccountDetail() {
 
             if (txDate <= weekEnd) {
               // Apply this transaction to running balance
-              if (tx.type === 'income') {
-                runningBalance += tx.amount;
-              } else {
-                runningBalance -= tx.amount;
-              }
+              runningBalance += txDeltaForAccount(tx, acc.name);
               txIndex++;
             } else {
               break; // This transaction is in the future for this week
@@ -576,7 +570,7 @@ export default function AccountDetail() {
     };
 
     try {
-      const accountTransactions = (transactions || []).filter(tx => tx.account === acc.name);
+      const accountTransactions = (transactions || []).filter(tx => touchesAccount(tx, acc.name));
       const now = new Date();
 
     // Last month's end date
@@ -587,11 +581,7 @@ export default function AccountDetail() {
     accountTransactions.forEach(tx => {
       const txDate = new Date(tx.date);
       if (txDate > lastMonthEnd) {
-        if (tx.type === 'income') {
-          lastMonthBalance -= tx.amount;
-        } else {
-          lastMonthBalance += tx.amount;
-        }
+        lastMonthBalance -= txDeltaForAccount(tx, acc.name);
       }
     });
 
@@ -610,8 +600,9 @@ export default function AccountDetail() {
       return txDate >= startDate;
     });
 
-      const totalIn = periodTxs.filter(tx => tx.type === 'income').reduce((sum, tx) => sum + tx.amount, 0);
-      const totalOut = periodTxs.filter(tx => tx.type === 'expense').reduce((sum, tx) => sum + tx.amount, 0);
+      const periodDeltas = periodTxs.map(tx => txDeltaForAccount(tx, acc.name));
+      const totalIn = periodDeltas.filter(d => d > 0).reduce((sum, d) => sum + d, 0);
+      const totalOut = periodDeltas.filter(d => d < 0).reduce((sum, d) => sum - d, 0);
       const netChange = totalIn - totalOut;
 
       return {
@@ -641,7 +632,7 @@ export default function AccountDetail() {
   const recentAccountTransactions = useMemo(() => {
     if (!acc || !transactions) return [];
     return transactions
-      .filter(tx => tx.account === acc.name)
+      .filter(tx => touchesAccount(tx, acc.name))
       .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
       .slice(0, 5);
   }, [transactions, acc]);
@@ -1187,11 +1178,18 @@ export default function AccountDetail() {
               <SwipeableTransactionRow
                 key={tx.id}
                 tx={tx}
+                delta={txDeltaForAccount(tx, acc.name)}
                 isLast={idx === recentAccountTransactions.length - 1}
-                onEdit={() => openTransactionSheet(tx.type === 'income' ? 'deposit' : 'withdraw', tx.id)}
+                onEdit={() => {
+                  // Transfers touch two accounts; the deposit/withdraw sheet can't edit them
+                  if (tx.type === 'transfer') return;
+                  openTransactionSheet(tx.type === 'income' ? 'deposit' : 'withdraw', tx.id);
+                }}
                 onDelete={async () => {
                   const { remove } = useTxStore.getState();
                   await remove(tx.id);
+                  // remove() already reverses both legs of a transfer
+                  if (tx.type === 'transfer') return;
                   // Update account balance
                   const amountChange = tx.type === 'income' ? -tx.amount : tx.amount;
                   await updateAccountBalance(acc.name, Math.abs(amountChange), amountChange > 0);
@@ -7,6 +7,7 @@ import Icon from '../components/Icon';
 import { spacing, radius } from '../theme/tokens';
 import { useThemeTokens } from '../theme/ThemeProvider';
 import { useAccountsStore } from '../store/accounts';
+import { useProfileStore } from '../store/profile';
 import { useRoute, useNavigation } from '@react-navigation/native';
 import { formatCurrency } from '../lib/format';
 import BottomSheet from '../components/BottomSheet';
@@ -85,6 +86,8 @@ export default function AccountSettings() {
   const [balance, setBalance] = useState(String(acc?.balance ?? 0));
   const [kind, setKind] = useState<AccountKind>(acc?.kind || 'checking');
   const [mask, setMask] = useState(acc?.mask || '');
+  const baseCurrency = useProfileStore(s => s.profile?.currency) || 'USD';
+  const [currency, setCurrency] = useState(acc?.currency || '');
   const [includeInNetWorth, setIncludeInNetWorth] = useState(acc?.includeInNetWorth !== false);
   const [note, setNote] = useState(acc?.note || '');
   const [apr, setApr] = useState(String(acc?.apr ?? ''));
@@ -151,6 +154,7 @@ export default function AccountSettings() {
       balance: balanceNumber,
       kind,
       mask: mask ? mask : undefined,
+      currency: currency.length === 3 && currency !== baseCurrency ? currency : undefined,
       includeInNetWorth,
       note: note.trim() ? note.trim() : undefined,
       apr: kind === 'credit' && aprNum > 0 ? aprNum : undefined,
@@ -320,6 +324,24 @@ export default function AccountSettings() {
             {/* Divider */}
             <View style={{ height: 1, backgroundColor: borderSubtle }} />
 
+            {/* Currency Row */}
+            <View style={{ flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between' }}>
+              <Text style={{ color: text, fontSize: 15, fontWeight: '600' }}>
+                Currency
+              </Text>
+              <TextInput
+                value={currency}
+                onChangeText={value => setCurrency(value.replace(/[^a-z]/gi, '').toUpperCase().slice(0, 3))}
+                placeholder={baseCurrency}
+                placeholderTextColor={muted}
+                style={inputStyle}
+                autoCapitalize="characters"
+              />
+            </View>
+
+            {/* Divider */}
+            <View style={{ height: 1, backgroundColor: borderSubtle }} />
+
             {/* Current Balance Row */}
             <View style={{ flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between' }}>
               <Text style={{ color: text, fontSize: 15, fontWeight: '600' }}>
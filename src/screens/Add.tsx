@@ -22,10 +22,13 @@ import Keypad from '../components/Keypad';
 import DateTimePicker from '@react-native-community/datetimepicker';
 import AddCategoryModal from './AddCategory';
 import Icon from '../components/Icon';
+import TagEditor from '../components/TagEditor';
 
 import { spacing, radius, elevation } from '../theme/tokens';
 import { useThemeTokens } from '../theme/ThemeProvider';
 import { useTxStore, TxType } from '../store/transactions';
+import { useProfileStore } from '../store/profile';
+import { currencies, findCurrency } from '../lib/currencies';
 import { useRecurringStore } from '../store/recurring';
 import { useAccountsStore } from '../store/accounts';
 import {
@@ -37,7 +40,7 @@ type Mode = 'expense' | 'income';
 type Cat = { key: string; label: string; icon: React.ComponentType<any> | string; type: Mode };
 
 type SummaryChipProps = {
-  icon: 'category' | 'clock' | 'wallet' | 'note' | 'recurring';
+  icon: 'category' | 'clock' | 'wallet' | 'note' | 'recurring' | 'tag' | 'currency';
   label: string;
   onPress?: () => void;
   fullWidth?: boolean;
@@ -159,6 +162,9 @@ export default function Add() {
   const [showTimeOverlay, setShowTimeOverlay] = useState<boolean>(false);
   const [account, setAccount] = useState<string>('');
   const [accountOpen, setAccountOpen] = useState<boolean>(false);
+  const baseCurrency = useProfileStore(s => s.profile?.currency) || 'USD';
+  const [currency, setCurrency] = useState<string | null>(null); // null = account's currency
+  const [currencyOpen, setCurrencyOpen] = useState<boolean>(false);
 
   // Hydrate accounts and set default
   useEffect(() => {
@@ -175,6 +181,8 @@ export default function Add() {
   const [note, setNote] = useState<string>('');
   const [noteOpen, setNoteOpen] = useState<boolean>(false);
   const [noteDraft, setNoteDraft] = useState<string>('');
+  const [tags, setTags] = useState<string[]>([]);
+  const [tagsOpen, setTagsOpen] = useState<boolean>(false);
   const [recMade, setRecMade] = useState<boolean>(false);
   const [hasEvaluated, setHasEvaluated] = useState<boolean>(false);
 
@@ -194,6 +202,7 @@ export default function Add() {
 
   const [mode, setMode] = useState<Mode>('expense');
   const [category, setCategory] = useState<Cat>(EXPENSE_CATS[0]);
+  const [categoryPicked, setCategoryPicked] = useState(false); // auto-categorisation rules only replace the default
   const [expr, setExpr] = useState<string>('');
   const [customExpenseCats, setCustomExpenseCats] = useState<Cat[]>([]);
   const [customIncomeCats, setCustomIncomeCats] = useState<Cat[]>([]);
@@ -204,6 +213,8 @@ export default function Add() {
       setMode(editingTx.type as Mode);
       setExpr(String(Math.abs(editingTx.amount)));
       setNote(editingTx.note || '');
+      setTags(editingTx.tags || []);
+      setCurrency(editingTx.currency || null);
       setTxDate(new Date(editingTx.date));
       setAccount(editingTx.account || '');
 
@@ -224,6 +235,7 @@ export default function Add() {
       } else {
         setCategory(INCOME_CATS[0]); // Salary
       }
+      setCategoryPicked(false);
     }
   }, [mode, editId]);
 
@@ -293,6 +305,8 @@ export default function Add() {
   const keypadPadding = 10; // top/bottom padding
   const keypadReserve = keypadButtonsHeight + keypadDragHandle + keypadHeaderHeight + keypadPadding + insets.bottom;
   const whenLabel = useMemo(() => fmtChipTime(txDate), [txDate]);
+  const accountCurrencyCode = (accounts.find(a => a.name === account)?.currency || baseCurrency).toUpperCase();
+  const effectiveCurrency = (currency || accountCurrencyCode).toUpperCase();
   const noteChipLabel = useMemo(() => {
     if (!note.trim()) return 'Add note';
     return note.trim().length > 28 ? `${note.trim().slice(0, 27)}…` : note.trim();
@@ -383,6 +397,10 @@ export default function Add() {
         ? 'wallet'
         : icon === 'note'
         ? 'edit'
+        : icon === 'tag'
+        ? 'tag'
+        : icon === 'currency'
+        ? 'globe'
         : 'plus-circle';
 
     return (
@@ -490,6 +508,7 @@ export default function Add() {
       // If the deleted category was selected, reset to first category
       if (selected) {
         setCategory(mode === 'expense' ? EXPENSE_CATS[0] : INCOME_CATS[0]);
+        setCategoryPicked(false);
       }
     };
 
@@ -505,6 +524,7 @@ export default function Add() {
             setAddCategoryOpen(true);
           } else {
             setCategory(item);
+            setCategoryPicked(true);
           }
         }}
         onLongPress={() => {
@@ -681,51 +701,68 @@ export default function Add() {
       return false;
     }
 
-    if (editId && editingTx) {
-      // Update existing transaction
-      await updateTransaction(editId, {
-        type: mode as TxType,
-        amount: amt,
-        category: category?.label || (mode === 'expense' ? 'Expense' : 'Income'),
-        date: txDate.toISOString(),
-        note: note.trim() ? note.trim() : undefined,
-        account,
-      });
-
-      // Update account balance - need to handle the difference
-      if (account && editingTx.account === account) {
-        // Same account, update with difference
-        const oldAmt = Math.abs(editingTx.amount);
-        const diff = amt - oldAmt;
-        if (diff !== 0) {
-          await updateAccountBalance(account, Math.abs(diff), mode === 'expense' ? diff > 0 : diff < 0);
+    try {
+      if (editId && editingTx) {
+        // Update existing transaction
+        const nextCategory = category?.label || (mode === 'expense' ? 'Expense' : 'Income');
+        // The keypad edits a single category; keep an existing split only if it still fits
+        const keepSplits = amt === Math.abs(editingTx.amount) && nextCategory === editingTx.category;
+        await updateTransaction(editId, {
+          type: mode as TxType,
+          amount: amt,
+          category: nextCategory,
+          date: txDate.toISOString(),
+          note: note.trim() ? note.trim() : undefined,
+          account,
+          tags,
+          currency: currency || undefined,
+          splits: keepSplits ? editingTx.splits : undefined,
+        });
+        // Balances move by the amount in each account's own currency
+        const newAccountAmt = Math.abs(useTxStore.getState().transactions.find(t => t.id === editId)?.accountAmount ?? amt);
+        const oldAccountAmt = Math.abs(editingTx.accountAmount ?? editingTx.amount);
+
+        // Update account balance - need to handle the difference
+        if (account && editingTx.account === account) {
+          // Same account, update with difference
+          const diff = newAccountAmt - oldAccountAmt;
+          if (diff !== 0) {
+            await updateAccountBalance(account, Math.abs(diff), mode === 'expense' ? diff > 0 : diff < 0);
+          }
+        } else {
+          // Different account or account changed
+          if (editingTx.account) {
+            // Reverse old transaction
+            await updateAccountBalance(editingTx.account, oldAccountAmt, editingTx.type === 'income');
+          }
+          if (account) {
+            // Apply new transaction
+            await updateAccountBalance(account, newAccountAmt, mode === 'expense');
+          }
         }
       } else {
-        // Different account or account changed
-        if (editingTx.account) {
-          // Reverse old transaction
-          await updateAccountBalance(editingTx.account, Math.abs(editingTx.amount), editingTx.type === 'income');
-        }
+        // Create new transaction
+        const created = await addTx({
+          type: mode as TxType,
+          amount: amt,
+          category: category?.label || (mode === 'expense' ? 'Expense' : 'Income'),
+          date: txDate.toISOString(),
+          note: note.trim() ? note.trim() : undefined,
+          account,
+          tags,
+          currency: currency || undefined,
+          autoCategory: !categoryPicked,
+        });
+
+        // Update account balance if account is selected
         if (account) {
-          // Apply new transaction
-          await updateAccountBalance(account, amt, mode === 'expense');
+          await updateAccountBalance(account, Math.abs(created.accountAmount ?? amt), mode === 'expense');
         }
       }
-    } else {
-      // Create new transaction
-      await addTx({
-        type: mode as TxType,
-        amount: amt,
-        category: category?.label || (mode === 'expense' ? 'Expense' : 'Income'),
-        date: txDate.toISOString(),
-        note: note.trim() ? note.trim() : undefined,
-        account,
-      });
-
-      // Update account balance if account is selected
-      if (account) {
-        await updateAccountBalance(account, amt, mode === 'expense');
-      }
+    } catch (e) {
+      // e.g. no exchange rate for a foreign-currency entry
+      showToast(e instanceof Error ? e.message : 'Could not save transaction', 3000);
+      return false;
     }
 
     return true;
@@ -740,6 +777,7 @@ export default function Add() {
     } else {
       showToast(`${mode === 'expense' ? '-' : '+'}$${result.toFixed(2)} added`, 2000);
       setExpr('');
+      setTags([]);
       setHasEvaluated(false);
     }
   };
@@ -789,6 +827,16 @@ export default function Add() {
           label={account}
           onPress={() => setAccountOpen(true)}
         />
+        <SummaryChip
+          icon="currency"
+          label={effectiveCurrency}
+          onPress={() => setCurrencyOpen(true)}
+        />
+        <SummaryChip
+          icon="tag"
+          label={tags.length ? tags.map(t => `#${t}`).join(' ') : 'Tags'}
+          onPress={() => setTagsOpen(true)}
+        />
         <SummaryChip
           icon="recurring"
           label={recMade ? 'Recurring saved' : 'Recurring'}
@@ -801,7 +849,7 @@ export default function Add() {
 
       <View style={{ flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between' }}>
         <ModeToggle />
-        <Text style={{ color: textPrimary, fontSize: 32, fontWeight: '800' }}>${displayValue}</Text>
+        <Text style={{ color: textPrimary, fontSize: 32, fontWeight: '800' }}>{findCurrency(effectiveCurrency)?.symbol ?? '$'}{displayValue}</Text>
       </View>
 
       <SummaryChip
@@ -1362,6 +1410,90 @@ export default function Add() {
           </View>
         </Modal>
 
+        <Modal visible={currencyOpen} transparent animationType="fade" onRequestClose={() => setCurrencyOpen(false)}>
+          <View style={{ flex: 1, backgroundColor: withAlpha(backgroundDefault, 0.92), justifyContent: 'center', alignItems: 'center', padding: spacing.s16 }}>
+            <TouchableWithoutFeedback onPress={() => setCurrencyOpen(false)}>
+              <View style={{ position: 'absolute', top: 0, right: 0, bottom: 0, left: 0 }} />
+            </TouchableWithoutFeedback>
+            <View
+              style={{
+                width: '100%',
+                maxWidth: 360,
+                maxHeight: '70%',
+                borderRadius: radius.xl,
+                padding: spacing.s16,
+                backgroundColor: surface1,
+                borderWidth: 1,
+                borderColor: borderSubtle,
+              }}
+            >
+              <View style={{ flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between', marginBottom: spacing.s12 }}>
+                <Text style={{ color: textPrimary, fontWeight: '700', fontSize: 18 }}>Currency</Text>
+                <Pressable onPress={() => setCurrencyOpen(false)} hitSlop={12}>
+                  <Text style={{ color: textMuted, fontWeight: '600' }}>Close</Text>
+                </Pressable>
+              </View>
+              <ScrollView>
+                {currencies.map((c) => {
+                  const active = c.code === effectiveCurrency;
+                  return (
+                    <Pressable
+                      key={c.code}
+                      onPress={() => {
+                        setCurrency(c.code === accountCurrencyCode ? null : c.code);
+                        setCurrencyOpen(false);
+                      }}
+                      style={({ pressed }) => ({
+                        flexDirection: 'row',
+                        alignItems: 'center',
+                        justifyContent: 'space-between',
+                        paddingVertical: spacing.s10,
+                        paddingHorizontal: spacing.s8,
+                        borderRadius: radius.md,
+                        backgroundColor: active ? withAlpha(accentPrimary, isDark ? 0.2 : 0.12) : pressed ? surface2 : 'transparent',
+                      })}
+                    >
+                      <Text style={{ color: textPrimary, fontWeight: active ? '700' : '500' }}>{c.code} · {c.name}</Text>
+                      {c.code === accountCurrencyCode && (
+                        <Text style={{ color: textMuted, fontSize: 12 }}>Account</Text>
+                      )}
+                    </Pressable>
+                  );
+                })}
+              </ScrollView>
+            </View>
+          </View>
+        </Modal>
+
+        <Modal visible={tagsOpen} transparent animationType="fade" onRequestClose={() => setTagsOpen(false)}>
+          <KeyboardAvoidingView behavior={Platform.OS === 'ios' ? 'padding' : 'height'} style={{ flex: 1 }}>
+            <View style={{ flex: 1, backgroundColor: withAlpha(backgroundDefault, 0.92), justifyContent: 'center', alignItems: 'center', padding: spacing.s16 }}>
+              <TouchableWithoutFeedback onPress={() => setTagsOpen(false)}>
+                <View style={{ position: 'absolute', top: 0, right: 0, bottom: 0, left: 0 }} />
+              </TouchableWithoutFeedback>
+              <View
+                style={{
+                  width: '100%',
+                  maxWidth: 360,
+                  borderRadius: radius.xl,
+                  padding: spacing.s16,
+                  backgroundColor: surface1,
+                  borderWidth: 1,
+                  borderColor: borderSubtle,
+                }}
+              >
+                <View style={{ flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between', marginBottom: spacing.s12 }}>
+                  <Text style={{ color: textPrimary, fontWeight: '700', fontSize: 18 }}>Tags</Text>
+                  <Pressable onPress={() => setTagsOpen(false)} hitSlop={12}>
+                    <Text style={{ color: textMuted, fontWeight: '600' }}>Done</Text>
+                  </Pressable>
+                </View>
+                <TagEditor tags={tags} onChange={setTags} />
+              </View>
+            </View>
+          </KeyboardAvoidingView>
+        </Modal>
+
         <Modal visible={recurringOpen} transparent animationType="fade" onRequestClose={() => setRecurringOpen(false)}>
           <KeyboardAvoidingView behavior={Platform.OS === 'ios' ? 'padding' : 'height'} style={{ flex: 1 }}>
             <View style={{ flex: 1, backgroundColor: withAlpha(backgroundDefault, 0.92), justifyContent: 'center', alignItems: 'center', padding: spacing.s16 }}>
@@ -1882,7 +2014,7 @@ export default function Add() {
           </View>
         </Modal>
 
-        {!recurringOpen && !noteOpen && !accountOpen && !showDateTimePicker && !showRecDateTimePicker && !showRecEndDateTimePicker ? (
+        {!recurringOpen && !noteOpen && !accountOpen && !currencyOpen && !tagsOpen && !showDateTimePicker && !showRecDateTimePicker && !showRecEndDateTimePicker ? (
           <View style={{ position: 'absolute', left: 0, right: 0, bottom: 0 }}>
             <Keypad
               onKey={onKey}
@@ -1914,6 +2046,7 @@ export default function Add() {
 
             // Automatically select the new category
             setCategory(newCat);
+            setCategoryPicked(true);
           }}
         />
       </View>
@@ -6,6 +6,7 @@ import Icon, { IconName } from '../components/Icon';
 import BottomSheet from '../components/BottomSheet';
 import { spacing, radius } from '../theme/tokens';
 import { useAccountsStore } from '../store/accounts';
+import { useProfileStore } from '../store/profile';
 import { useNavigation, useRoute } from '@react-navigation/native';
 import { useThemeTokens } from '../theme/ThemeProvider';
 import { formatCurrency } from '../lib/format';
@@ -108,6 +109,8 @@ const AddAccount: React.FC = () => {
   const [balance, setBalance] = useState('0');
   const [kind, setKind] = useState<AccountKind>(context === 'debt' ? 'credit' : 'checking');
   const [mask, setMask] = useState('');
+  const baseCurrency = useProfileStore(s => s.profile?.currency) || 'USD';
+  const [currency, setCurrency] = useState('');
   const [includeInNetWorth, setIncludeInNetWorth] = useState(true);
   const [note, setNote] = useState('');
   const [accountTypeSheet, setAccountTypeSheet] = useState(false);
@@ -187,6 +190,7 @@ const AddAccount: React.FC = () => {
       name: name.trim(),
       institution: institution.trim() || 'Manual',
       mask: sanitizedMask ? sanitizedMask : undefined,
+      currency: currency.length === 3 && currency !== baseCurrency ? currency : undefined,
       balance: payloadBalance,
       kind,
       includeInNetWorth,
@@ -388,6 +392,24 @@ const AddAccount: React.FC = () => {
               {/* Divider */}
               <View style={{ height: 1, backgroundColor: borderSubtle }} />
 
+              {/* Currency Row */}
+              <View style={{ flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between' }}>
+                <Text style={{ color: textPrimary, fontSize: 15, fontWeight: '600' }}>
+                  Currency
+                </Text>
+                <TextInput
+                  value={currency}
+                  onChangeText={value => setCurrency(value.replace(/[^a-z]/gi, '').toUpperCase().slice(0, 3))}
+                  placeholder={baseCurrency}
+                  placeholderTextColor={muted}
+                  style={inputStyle}
+                  autoCapitalize="characters"
+                />
+              </View>
+
+              {/* Divider */}
+              <View style={{ height: 1, backgroundColor: borderSubtle }} />
+
               {/* Starting Balance Row */}
               <View style={{ flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between' }}>
                 <Text style={{ color: textPrimary, fontSize: 15, fontWeight: '600' }}>
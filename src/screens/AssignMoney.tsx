@@ -0,0 +1,362 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { View, Text, Pressable, ScrollView, Switch, Alert, Modal, TouchableWithoutFeedback } from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import { Screen } from '../components/Screen';
+import { Card } from '../components/Card';
+import Button from '../components/Button';
+import Input from '../components/Input';
+import Icon from '../components/Icon';
+import { useThemeTokens } from '../theme/ThemeProvider';
+import { spacing, radius } from '../theme/tokens';
+import { formatCurrency } from '../lib/format';
+import { useTxStore } from '../store/transactions';
+import { useEnvelopesStore } from '../store/envelopes';
+import { useTxConverter } from '../store/fxHistory';
+import { useGoalsStore } from '../features/goals';
+import { useZeroBasedStore, summarizeZeroBased, poolIncome, bucketLabel, type Bucket } from '../store/zeroBased';
+
+function withAlpha(color: string, alpha: number) {
+  if (!color) return `rgba(0,0,0,${alpha})`;
+  if (color.startsWith('#')) {
+    const raw = color.replace('#', '');
+    const expanded = raw.length === 3 ? raw.split('').map(x => x + x).join('') : raw;
+    const int = parseInt(expanded, 16);
+    const r = (int >> 16) & 255;
+    const g = (int >> 8) & 255;
+    const b = int & 255;
+    return `rgba(${r},${g},${b},${alpha})`;
+  }
+  return color;
+}
+
+type Draft = { from: Bucket; to: Bucket | null };
+
+const POOL: Bucket = { kind: 'pool' };
+
+const AssignMoney: React.FC = () => {
+  const nav = useNavigation<any>();
+  const { get, isDark } = useThemeTokens();
+  const { transactions, hydrate: hydrateTx } = useTxStore();
+  const { overrides, ready: envReady, hydrate: hydrateEnv } = useEnvelopesStore();
+  const { goals, ready: goalsReady, hydrate: hydrateGoals } = useGoalsStore();
+  const zb = useZeroBasedStore();
+  const convert = useTxConverter(transactions);
+
+  useEffect(() => {
+    hydrateTx();
+    if (!zb.ready) zb.hydrate();
+    if (!envReady) hydrateEnv();
+    if (!goalsReady) hydrateGoals();
+  }, []);
+
+  const text = get('text.primary') as string;
+  const muted = get('text.muted') as string;
+  const onPrimary = get('text.onPrimary') as string;
+  const cardBg = get('surface.level1') as string;
+  const cardBg2 = get('surface.level2') as string;
+  const border = get('border.subtle') as string;
+  const accentPrimary = get('accent.primary') as string;
+  const successColor = get('semantic.success') as string;
+  const dangerColor = get('semantic.danger') as string;
+  const bgDefault = get('background.default') as string;
+
+  const summary = useMemo(
+    () => summarizeZeroBased(transactions, zb, convert),
+    [transactions, zb.startedAt, zb.excludedCategories, zb.moves, convert]
+  );
+  const recentIncome = useMemo(
+    () => poolIncome(transactions, zb.startedAt, zb.excludedCategories).slice(0, 5),
+    [transactions, zb.startedAt, zb.excludedCategories]
+  );
+
+  // Envelopes: manual caps, anything already assigned, and categories spent in since the mode started
+  const envelopes = useMemo(() => {
+    const names = new Set([...Object.keys(overrides), ...Object.keys(summary.assigned), ...Object.keys(summary.spent)]);
+    return [...names].sort((a, b) => (summary.assigned[b] || 0) - (summary.assigned[a] || 0) || a.localeCompare(b));
+  }, [overrides, summary]);
+  const activeGoals = goals.filter(g => !g.completedAt);
+  const goalTitle = (id: string) => goals.find(g => g.id === id)?.title;
+  const history = [...zb.moves].reverse().slice(0, 30);
+
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [amountText, setAmountText] = useState('');
+  const [noteText, setNoteText] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const openDraft = (d: Draft) => {
+    setDraft(d);
+    setAmountText('');
+    setNoteText('');
+  };
+  const sourceBalance = (b: Bucket) => b.kind === 'pool' ? summary.toBeAssigned : b.kind === 'envelope' ? summary.available[b.category] || 0 : 0;
+  const destinations: Bucket[] = draft && draft.from.kind === 'envelope'
+    ? [POOL, ...envelopes.filter(c => draft.from.kind === 'envelope' && c !== draft.from.category).map(c => ({ kind: 'envelope', category: c }) as Bucket)]
+    : [];
+
+  const submit = async () => {
+    if (!draft?.to) {
+      Alert.alert('Pick a destination', 'Choose where this money should go.');
+      return;
+    }
+    setSaving(true);
+    try {
+      await zb.move(draft.from, draft.to, Number(amountText), noteText);
+      setDraft(null);
+    } catch (e: any) {
+      Alert.alert('Could not move money', e?.message || 'Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const undo = (id: string) => {
+    Alert.alert('Undo this move?', 'The money goes back where it came from.', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Undo',
+        style: 'destructive',
+        onPress: () => zb.undoMove(id).catch((e: any) => Alert.alert('Could not undo', e?.message || 'Please try again.')),
+      },
+    ]);
+  };
+
+  const poolColor = summary.toBeAssigned < -0.005 ? dangerColor : summary.toBeAssigned > 0.005 ? accentPrimary : successColor;
+  const poolCaption = summary.toBeAssigned < -0.005
+    ? 'You have assigned more than you received. Move money back to the pool.'
+    : summary.toBeAssigned > 0.005
+      ? 'Give every dollar a job: assign it to an envelope or a goal.'
+      : 'Every dollar has a job.';
+
+  return (
+    <Screen style={{ backgroundColor: bgDefault }}>
+      <ScrollView
+        style={{ flex: 1 }}
+        contentContainerStyle={{ padding: spacing.s16, paddingBottom: spacing.s32, gap: spacing.s20 }}
+      >
+        {/* Header */}
+        <View style={{ flexDirection: 'row', alignItems: 'center', gap: spacing.s12 }}>
+          <Pressable
+            onPress={() => nav.goBack()}
+            style={({ pressed }) => ({
+              width: 40,
+              height: 40,
+              borderRadius: radius.lg,
+              backgroundColor: cardBg,
+              alignItems: 'center',
+              justifyContent: 'center',
+              opacity: pressed ? 0.6 : 1,
+            })}
+          >
+            <Icon name="chevron-left" size={20} color={text} />
+          </Pressable>
+          <View style={{ flex: 1 }}>
+            <Text style={{ color: text, fontSize: 28, fontWeight: '800', letterSpacing: -0.6 }}>
+              Assign money
+            </Text>
+            <Text style={{ color: muted, fontSize: 14, marginTop: spacing.s4 }}>
+              Zero-based budgeting
+            </Text>
+          </View>
+          <Switch value={zb.enabled} onValueChange={(v) => zb.setEnabled(v)} />
+        </View>
+
+        {!zb.enabled ? (
+          <Card style={{ gap: spacing.s12 }}>
+            <Text style={{ color: text, fontSize: 16, fontWeight: '700' }}>Give every dollar a job</Text>
+            <Text style={{ color: muted, fontSize: 14, lineHeight: 20 }}>
+              Income you receive from now on (including net pay from paycheck splits) lands in a “to be assigned”
+              pool. Assign it to envelopes and goals until the pool reaches zero, and move money between envelopes
+              when plans change.
+            </Text>
+            <Button title="Turn on zero-based budgeting" onPress={() => zb.setEnabled(true)} />
+          </Card>
+        ) : (
+          <>
+            {/* Pool */}
+            <Card
+              style={{
+                gap: spacing.s8,
+                backgroundColor: withAlpha(poolColor, isDark ? 0.14 : 0.08),
+                borderWidth: 1,
+                borderColor: withAlpha(poolColor, 0.3),
+              }}
+            >
+              <Text style={{ color: muted, fontSize: 12, fontWeight: '600' }}>
+                {summary.toBeAssigned < -0.005 ? 'OVER-ASSIGNED' : 'TO BE ASSIGNED'}
+              </Text>
+              <Text style={{ color: poolColor, fontSize: 34, fontWeight: '800', letterSpacing: -1 }}>
+                {formatCurrency(Math.abs(summary.toBeAssigned))}
+              </Text>
+              <Text style={{ color: muted, fontSize: 13 }}>{poolCaption}</Text>
+              <Text style={{ color: muted, fontSize: 12 }}>
+                {formatCurrency(summary.income)} received since {new Date(zb.startedAt || Date.now()).toLocaleDateString(undefined, { day: 'numeric', month: 'short', year: 'numeric' })}
+              </Text>
+            </Card>
+
+            {recentIncome.length > 0 && (
+              <View style={{ gap: spacing.s8 }}>
+                <Text style={{ color: text, fontSize: 16, fontWeight: '700' }}>Recent income</Text>
+                {recentIncome.map(t => (
+                  <View key={t.id} style={{ flexDirection: 'row', justifyContent: 'space-between' }}>
+                    <Text style={{ color: muted, fontSize: 14, flex: 1 }} numberOfLines={1}>
+                      {new Date(t.date).toLocaleDateString(undefined, { day: 'numeric', month: 'short' })} · {t.note || t.category}
+                    </Text>
+                    <Text style={{ color: successColor, fontSize: 14, fontWeight: '700' }}>+{formatCurrency(convert(t))}</Text>
+                  </View>
+                ))}
+              </View>
+            )}
+
+            {/* Envelopes */}
+            <View style={{ gap: spacing.s12 }}>
+              <Text style={{ color: text, fontSize: 16, fontWeight: '700' }}>Envelopes</Text>
+              {envelopes.length === 0 ? (
+                <Text style={{ color: muted, fontSize: 14 }}>
+                  Create envelopes in Budgets, or spend in a category, to assign money to it.
+                </Text>
+              ) : envelopes.map(c => {
+                const available = summary.available[c] || 0;
+                const assigned = summary.assigned[c] || 0;
+                const tone = available < -0.005 ? dangerColor : available > 0.005 ? successColor : muted;
+                return (
+                  <Card key={c} style={{ gap: spacing.s10, padding: spacing.s14 }}>
+                    <View style={{ flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between' }}>
+                      <Text style={{ color: text, fontSize: 15, fontWeight: '700', flex: 1 }} numberOfLines={1}>{c}</Text>
+                      <Text style={{ color: tone, fontSize: 15, fontWeight: '800' }}>{formatCurrency(available)}</Text>
+                    </View>
+                    <Text style={{ color: muted, fontSize: 12 }}>
+                      Assigned {formatCurrency(assigned)} · Spent {formatCurrency(summary.spent[c] || 0)}
+                      {overrides[c] !== undefined ? ` · Cap ${formatCurrency(overrides[c])}` : ''}
+                    </Text>
+                    <View style={{ flexDirection: 'row', gap: spacing.s8 }}>
+                      <Button title="Assign" size="sm" onPress={() => openDraft({ from: POOL, to: { kind: 'envelope', category: c } })} />
+                      {available > 0.005 && (
+                        <Button title="Move" size="sm" variant="secondary" onPress={() => openDraft({ from: { kind: 'envelope', category: c }, to: null })} />
+                      )}
+                    </View>
+                  </Card>
+                );
+              })}
+            </View>
+
+            {/* Goals */}
+            {activeGoals.length > 0 && (
+              <View style={{ gap: spacing.s12 }}>
+                <Text style={{ color: text, fontSize: 16, fontWeight: '700' }}>Goals</Text>
+                {activeGoals.map(g => (
+                  <Pressable
+                    key={g.id}
+                    onPress={() => openDraft({ from: POOL, to: { kind: 'goal', goalId: g.id } })}
+                    style={({ pressed }) => ({ opacity: pressed ? 0.7 : 1 })}
+                  >
+                    <Card style={{ flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between', padding: spacing.s14 }}>
+                      <View style={{ flex: 1 }}>
+                        <Text style={{ color: text, fontSize: 15, fontWeight: '700' }} numberOfLines={1}>{g.title}</Text>
+                        <Text style={{ color: muted, fontSize: 12, marginTop: spacing.s2 }}>
+                          {formatCurrency(g.currentAmount)} of {formatCurrency(g.targetAmount)}
+                          {summary.goals[g.id] ? ` · ${formatCurrency(summary.goals[g.id])} assigned` : ''}
+                        </Text>
+                      </View>
+                      <Icon name="plus-circle" size={20} color={accentPrimary} />
+                    </Card>
+                  </Pressable>
+                ))}
+              </View>
+            )}
+
+            {/* History */}
+            <View style={{ gap: spacing.s8 }}>
+              <Text style={{ color: text, fontSize: 16, fontWeight: '700' }}>History</Text>
+              {history.length === 0 ? (
+                <Text style={{ color: muted, fontSize: 14 }}>Assignments and envelope moves will show up here.</Text>
+              ) : history.map(m => (
+                <View
+                  key={m.id}
+                  style={{
+                    flexDirection: 'row',
+                    alignItems: 'center',
+                    gap: spacing.s10,
+                    paddingVertical: spacing.s8,
+                    borderBottomWidth: 1,
+                    borderBottomColor: withAlpha(border, isDark ? 0.4 : 0.8),
+                  }}
+                >
+                  <View style={{ flex: 1 }}>
+                    <Text style={{ color: text, fontSize: 14, fontWeight: '600' }} numberOfLines={1}>
+                      {bucketLabel(m.from, goalTitle)} → {bucketLabel(m.to, goalTitle)}
+                    </Text>
+                    <Text style={{ color: muted, fontSize: 12 }} numberOfLines={1}>
+                      {new Date(m.createdAt).toLocaleDateString(undefined, { day: 'numeric', month: 'short' })}
+                      {m.note ? ` · ${m.note}` : ''}
+                    </Text>
+                  </View>
+                  <Text style={{ color: text, fontSize: 14, fontWeight: '700' }}>{formatCurrency(m.amount)}</Text>
+                  {m.to.kind !== 'goal' && (
+                    <Pressable onPress={() => undo(m.id)} hitSlop={8}>
+                      <Icon name="refresh-cw" size={16} color={muted} />
+                    </Pressable>
+                  )}
+                </View>
+              ))}
+            </View>
+          </>
+        )}
+      </ScrollView>
+
+      {/* Move sheet */}
+      <Modal visible={!!draft} transparent animationType="fade" onRequestClose={() => setDraft(null)}>
+        <TouchableWithoutFeedback onPress={() => setDraft(null)}>
+          <View style={{ flex: 1, backgroundColor: 'rgba(8,10,18,0.72)', justifyContent: 'center', alignItems: 'center', padding: spacing.s16 }}>
+            <TouchableWithoutFeedback>
+              <View style={{ width: '100%', maxWidth: 380, backgroundColor: cardBg, borderRadius: radius.xl, padding: spacing.s16, gap: spacing.s12 }}>
+                {draft && (
+                  <>
+                    <Text style={{ color: text, fontSize: 16, fontWeight: '700' }}>
+                      {draft.from.kind === 'pool' ? `Assign to ${bucketLabel(draft.to || POOL, goalTitle)}` : `Move from ${bucketLabel(draft.from)}`}
+                    </Text>
+                    <Text style={{ color: muted, fontSize: 13 }}>
+                      {formatCurrency(sourceBalance(draft.from))} available in {draft.from.kind === 'pool' ? 'the pool' : bucketLabel(draft.from)}
+                    </Text>
+                    {draft.from.kind === 'envelope' && (
+                      <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: spacing.s8 }}>
+                        {destinations.map(d => {
+                          const active = !!draft.to && JSON.stringify(draft.to) === JSON.stringify(d);
+                          return (
+                            <Pressable
+                              key={bucketLabel(d)}
+                              onPress={() => setDraft({ ...draft, to: d })}
+                              style={{
+                                paddingHorizontal: spacing.s12,
+                                paddingVertical: spacing.s6,
+                                borderRadius: radius.pill,
+                                backgroundColor: active ? accentPrimary : cardBg2,
+                              }}
+                            >
+                              <Text style={{ color: active ? onPrimary : text, fontSize: 13, fontWeight: '600' }}>{bucketLabel(d)}</Text>
+                            </Pressable>
+                          );
+                        })}
+                      </View>
+                    )}
+                    <Input label="Amount" value={amountText} onChangeText={setAmountText} keyboardType="decimal-pad" placeholder="0.00" />
+                    <Input label="Note (optional)" value={noteText} onChangeText={setNoteText} placeholder="e.g. Groceries ran over" />
+                    <View style={{ flexDirection: 'row', gap: spacing.s8 }}>
+                      <Button
+                        title="All"
+                        variant="secondary"
+                        onPress={() => setAmountText(String(Math.max(0, Math.round(sourceBalance(draft.from) * 100) / 100)))}
+                      />
+                      <Button title={saving ? 'Saving…' : 'Confirm'} onPress={submit} disabled={saving} style={{ flex: 1 }} />
+                    </View>
+                  </>
+                )}
+              </View>
+            </TouchableWithoutFeedback>
+          </View>
+        </TouchableWithoutFeedback>
+      </Modal>
+    </Screen>
+  );
+};
+
+export default AssignMoney;
@@ -0,0 +1,328 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, Pressable, Alert, Switch } from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import * as DocumentPicker from 'expo-document-picker';
+import * as Haptics from 'expo-haptics';
+import { ScreenScroll } from '../components/ScreenScroll';
+import Button from '../components/Button';
+import Input from '../components/Input';
+import Icon from '../components/Icon';
+import { useThemeTokens } from '../theme/ThemeProvider';
+import { spacing, radius } from '../theme/tokens';
+import {
+  BackupPayload,
+  RestoreMode,
+  RestorePlan,
+  exportBackup,
+  planRestore,
+  readBackupFile,
+  restoreBackup,
+} from '../lib/backup';
+
+const MIN_PASSPHRASE = 8;
+const MAX_CONFLICTS_SHOWN = 20;
+
+export default function Backup() {
+  const nav = useNavigation<any>();
+  const { get } = useThemeTokens();
+
+  // Export
+  const [passphrase, setPassphrase] = useState('');
+  const [confirm, setConfirm] = useState('');
+  const [exporting, setExporting] = useState(false);
+
+  // Restore
+  const [fileUri, setFileUri] = useState<string | null>(null);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [restorePass, setRestorePass] = useState('');
+  const [payload, setPayload] = useState<BackupPayload | null>(null);
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [preferBackup, setPreferBackup] = useState(false);
+  const [plan, setPlan] = useState<RestorePlan | null>(null);
+  const [unlocking, setUnlocking] = useState(false);
+  const [restoring, setRestoring] = useState(false);
+
+  useEffect(() => {
+    if (!payload) { setPlan(null); return; }
+    let cancelled = false;
+    planRestore(payload, mode, preferBackup)
+      .then(p => { if (!cancelled) setPlan(p); })
+      .catch(e => Alert.alert('Could not read backup', e instanceof Error ? e.message : 'Unknown error'));
+    return () => { cancelled = true; };
+  }, [payload, mode, preferBackup]);
+
+  const passphraseError =
+    passphrase.length > 0 && passphrase.length < MIN_PASSPHRASE
+      ? `Use at least ${MIN_PASSPHRASE} characters.`
+      : confirm.length > 0 && confirm !== passphrase
+        ? 'Passphrases do not match.'
+        : null;
+
+  const createBackup = async () => {
+    setExporting(true);
+    try {
+      await exportBackup(passphrase);
+      await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      setPassphrase('');
+      setConfirm('');
+    } catch (e) {
+      Alert.alert('Backup failed', e instanceof Error ? e.message : 'Unknown error');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const pickFile = async () => {
+    try {
+      const res = await DocumentPicker.getDocumentAsync({ type: '*/*', copyToCacheDirectory: true });
+      if (res.canceled || !res.assets?.length) return;
+      setFileUri(res.assets[0].uri);
+      setFileName(res.assets[0].name);
+      setPayload(null);
+    } catch (e) {
+      Alert.alert('Could not read file', e instanceof Error ? e.message : 'Unknown error');
+    }
+  };
+
+  const unlock = async () => {
+    if (!fileUri) return;
+    setUnlocking(true);
+    try {
+      setPayload(await readBackupFile(fileUri, restorePass));
+    } catch (e) {
+      Alert.alert('Could not open backup', e instanceof Error ? e.message : 'Unknown error');
+    } finally {
+      setUnlocking(false);
+    }
+  };
+
+  const applyRestore = async () => {
+    if (!payload) return;
+    setRestoring(true);
+    try {
+      const result = await restoreBackup(payload, mode, preferBackup);
+      await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      const added = result.sections.reduce((s, x) => s + x.added, 0);
+      const updated = result.sections.reduce((s, x) => s + x.updated, 0);
+      const kept = mode === 'merge' && !preferBackup ? result.conflicts.length : 0;
+      Alert.alert(
+        'Restore complete',
+        `${added} added, ${updated} updated.` + (kept ? ` ${kept} conflicting record${kept === 1 ? '' : 's'} kept as they were on this phone.` : ''),
+        [{ text: 'OK', onPress: () => nav.goBack() }]
+      );
+    } catch (e) {
+      Alert.alert('Restore failed', e instanceof Error ? e.message : 'Unknown error');
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  const confirmRestore = () => {
+    if (mode === 'merge') { applyRestore(); return; }
+    Alert.alert(
+      'Replace data on this phone?',
+      'Everything in the backup replaces what is here now. Records that are not in the backup will be deleted.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Replace', style: 'destructive', onPress: applyRestore },
+      ]
+    );
+  };
+
+  const textPrimary = get('text.primary') as string;
+  const textMuted = get('text.muted') as string;
+  const surface1 = get('surface.level1') as string;
+  const surface2 = get('surface.level2') as string;
+  const borderSubtle = get('border.subtle') as string;
+  const accentPrimary = get('accent.primary') as string;
+  const onPrimary = get('text.onPrimary') as string;
+  const warningColor = get('semantic.warning') as string;
+  const dangerColor = get('semantic.danger') as string;
+
+  const chip = (label: string, active: boolean, onPress: () => void) => (
+    <Pressable
+      key={label}
+      onPress={onPress}
+      style={{
+        paddingVertical: spacing.s6,
+        paddingHorizontal: spacing.s12,
+        borderRadius: radius.pill,
+        backgroundColor: active ? accentPrimary : surface2,
+      }}
+    >
+      <Text style={{ color: active ? onPrimary : textPrimary, fontSize: 13, fontWeight: '600' }}>{label}</Text>
+    </Pressable>
+  );
+
+  const sectionLabel = (label: string) => (
+    <Text style={{ color: textMuted, fontSize: 13, fontWeight: '600', marginBottom: spacing.s8 }}>{label}</Text>
+  );
+
+  const card = { backgroundColor: surface1, borderRadius: radius.lg, borderWidth: 1, borderColor: borderSubtle, padding: spacing.s16, gap: spacing.s12 };
+
+  const changedSections = plan?.sections.filter(s => s.added || s.updated || s.removed || s.conflicts.length) || [];
+
+  return (
+    <ScreenScroll contentStyle={{ padding: spacing.s16, paddingBottom: spacing.s32, gap: spacing.s20 }}>
+      <View>
+        <Text style={{ color: textPrimary, fontSize: 24, fontWeight: '800', marginBottom: spacing.s8 }}>
+          Backup & restore
+        </Text>
+        <Text style={{ color: textMuted, fontSize: 14 }}>
+          Move everything to a new phone: accounts, transactions, portfolios, goals, groups, debts, bills, envelopes, income
+          splitting and your profile, in one file locked with a passphrase.
+        </Text>
+      </View>
+
+      <View style={card}>
+        <Text style={{ color: textPrimary, fontSize: 17, fontWeight: '700' }}>Create backup</Text>
+        <Input
+          label="Passphrase"
+          value={passphrase}
+          onChangeText={setPassphrase}
+          placeholder={`At least ${MIN_PASSPHRASE} characters`}
+          secureTextEntry
+          autoCapitalize="none"
+        />
+        <Input
+          label="Confirm passphrase"
+          value={confirm}
+          onChangeText={setConfirm}
+          secureTextEntry
+          autoCapitalize="none"
+        />
+        {passphraseError && <Text style={{ color: dangerColor, fontSize: 13 }}>{passphraseError}</Text>}
+        <Text style={{ color: textMuted, fontSize: 12 }}>
+          There is no way to recover a forgotten passphrase. Keep it somewhere safe.
+        </Text>
+        <Button
+          title={exporting ? 'Encrypting…' : 'Create and share backup'}
+          icon="download"
+          onPress={createBackup}
+          loading={exporting}
+          disabled={exporting || passphrase.length < MIN_PASSPHRASE || confirm !== passphrase}
+        />
+      </View>
+
+      <View style={card}>
+        <Text style={{ color: textPrimary, fontSize: 17, fontWeight: '700' }}>Restore</Text>
+        <Button
+          title={fileName ? `Change file (${fileName})` : 'Choose backup file'}
+          icon="upload"
+          variant={fileName ? 'secondary' : 'primary'}
+          onPress={pickFile}
+        />
+
+        {fileUri && !payload && (
+          <>
+            <Input
+              label="Passphrase"
+              value={restorePass}
+              onChangeText={setRestorePass}
+              secureTextEntry
+              autoCapitalize="none"
+            />
+            <Button
+              title={unlocking ? 'Unlocking…' : 'Unlock backup'}
+              onPress={unlock}
+              loading={unlocking}
+              disabled={unlocking || restorePass.length === 0}
+            />
+          </>
+        )}
+
+        {payload && (
+          <>
+            <Text style={{ color: textMuted, fontSize: 13 }}>
+              Backup from {new Date(payload.exportedAt).toLocaleString(undefined, { day: 'numeric', month: 'short', year: 'numeric', hour: '2-digit', minute: '2-digit' })}
+            </Text>
+
+            <View>
+              {sectionLabel('HOW TO RESTORE')}
+              <View style={{ flexDirection: 'row', gap: spacing.s8 }}>
+                {chip('Merge', mode === 'merge', () => setMode('merge'))}
+                {chip('Replace', mode === 'replace', () => setMode('replace'))}
+              </View>
+              <Text style={{ color: textMuted, fontSize: 12, marginTop: spacing.s8 }}>
+                {mode === 'merge'
+                  ? 'Adds anything missing from this phone and keeps what is already here.'
+                  : 'Makes this phone match the backup. Records not in the backup are deleted.'}
+              </Text>
+            </View>
+
+            {mode === 'merge' && (
+              <View style={{ flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between' }}>
+                <Text style={{ color: textPrimary, fontSize: 14, flex: 1, paddingRight: spacing.s12 }}>
+                  When both differ, use the backup's version
+                </Text>
+                <Switch value={preferBackup} onValueChange={setPreferBackup} />
+              </View>
+            )}
+
+            {plan && (
+              <View style={{ borderRadius: radius.md, borderWidth: 1, borderColor: borderSubtle, overflow: 'hidden' }}>
+                {changedSections.length === 0 ? (
+                  <Text style={{ color: textMuted, fontSize: 13, padding: spacing.s12 }}>
+                    This phone already matches the backup.
+                  </Text>
+                ) : (
+                  changedSections.map((s, index) => (
+                    <View
+                      key={s.section}
+                      style={{
+                        flexDirection: 'row',
+                        alignItems: 'center',
+                        padding: spacing.s12,
+                        borderTopWidth: index === 0 ? 0 : 1,
+                        borderTopColor: borderSubtle,
+                      }}
+                    >
+                      <Text style={{ color: textPrimary, fontWeight: '600', fontSize: 14, flex: 1 }}>{s.label}</Text>
+                      <Text style={{ color: textMuted, fontSize: 13 }}>
+                        {[
+                          s.added ? `+${s.added}` : null,
+                          s.updated ? `~${s.updated}` : null,
+                          s.removed ? `−${s.removed}` : null,
+                          s.conflicts.length ? `${s.conflicts.length} conflict${s.conflicts.length === 1 ? '' : 's'}` : null,
+                        ].filter(Boolean).join('  ')}
+                      </Text>
+                    </View>
+                  ))
+                )}
+              </View>
+            )}
+
+            {plan && plan.conflicts.length > 0 && (
+              <View style={{ gap: spacing.s6 }}>
+                {sectionLabel(`CONFLICTS (${plan.conflicts.length})`)}
+                {plan.conflicts.slice(0, MAX_CONFLICTS_SHOWN).map(c => (
+                  <View key={`${c.section}:${c.id}`} style={{ flexDirection: 'row', alignItems: 'center', gap: spacing.s8 }}>
+                    <Icon name="alert-triangle" size={14} color={warningColor} />
+                    <Text numberOfLines={1} style={{ color: textPrimary, fontSize: 13, flex: 1 }}>
+                      {c.label || c.id}
+                    </Text>
+                    <Text style={{ color: textMuted, fontSize: 12 }}>
+                      {plan.sections.find(s => s.section === c.section)?.label}
+                    </Text>
+                  </View>
+                ))}
+                {plan.conflicts.length > MAX_CONFLICTS_SHOWN && (
+                  <Text style={{ color: textMuted, fontSize: 12 }}>
+                    and {plan.conflicts.length - MAX_CONFLICTS_SHOWN} more
+                  </Text>
+                )}
+              </View>
+            )}
+
+            <Button
+              title={restoring ? 'Restoring…' : mode === 'merge' ? 'Merge into this phone' : 'Replace data on this phone'}
+              onPress={confirmRestore}
+              loading={restoring}
+              disabled={restoring || !plan}
+            />
+          </>
+        )}
+      </View>
+    </ScreenScroll>
+  );
+}
@@ -13,25 +13,13 @@ import { useThemeTokens } from '../theme/ThemeProvider';
 import { spacing, radius } from '../theme/tokens';
 import { useBudgetsStore } from '../store/budgets';
 import { CYCLE_KEY } from './Budgets';
+import { useProfileStore } from '../store/profile';
+import { periodFor } from '../lib/budgetPeriods';
 
 type Cycle = 'monthly' | 'biweekly';
 
 function startOfDay(d: Date) { const n = new Date(d); n.setHours(0,0,0,0); return n; }
 function endOfDay(d: Date) { const n = new Date(d); n.setHours(23,59,59,999); return n; }
-function startOfMonth(d: Date) { const n = new Date(d.getFullYear(), d.getMonth(), 1); n.setHours(0,0,0,0); return n; }
-function endOfMonth(d: Date) { const n = new Date(d.getFullYear(), d.getMonth()+1, 0); n.setHours(23,59,59,999); return n; }
-
-function getBiweeklyPeriod(anchorISO: string | null, today = new Date()): {start: Date, end: Date, anchor: string} {
-  const anchor = anchorISO ? new Date(anchorISO) : startOfDay(today);
-  const a0 = startOfDay(anchor);
-  const ms14 = 14 * 24 * 60 * 60 * 1000;
-  const t = startOfDay(today).getTime();
-  const diff = t - a0.getTime();
-  const k = Math.floor(diff / ms14);
-  const pStart = new Date(a0.getTime() + k * ms14);
-  const pEnd = new Date(pStart.getTime() + ms14 - 1);
-  return { start: pStart, end: pEnd, anchor: a0.toISOString() };
-}
 
 function withAlpha(hex: string, alpha: number) {
   if (!hex) return hex;
@@ -80,6 +68,7 @@ export default function BudgetSettings() {
   // Cycle settings
   const [cycle, setCycle] = useState<Cycle>('monthly');
   const [anchorISO, setAnchorISO] = useState<string | null>(null);
+  const cycleDay = useProfileStore(s => s.profile.budgetCycleDay) || 1;
 
   useEffect(() => {
     (async () => {
@@ -102,9 +91,7 @@ export default function BudgetSettings() {
   };
 
   const today = new Date();
-  const period = cycle === 'monthly'
-    ? { start: startOfMonth(today), end: endOfMonth(today) }
-    : getBiweeklyPeriod(anchorISO, today);
+  const period = periodFor(today, { cycle, cycleDay, anchor: anchorISO });
 
   const [budgetText, setBudgetText] = useState(monthlyBudget != null ? String(monthlyBudget) : '');
   const [thresholdText, setThresholdText] = useState(String(Math.round(warnThreshold * 100)));
@@ -168,7 +155,9 @@ export default function BudgetSettings() {
     { key: 'biweekly', label: 'Bi-weekly' }
   ];
 
-  const cadenceLabel = cycle === 'monthly' ? 'Monthly cycle' : 'Bi-weekly cycle';
+  const cadenceLabel = cycle === 'monthly'
+    ? `Monthly cycle, starting on day ${cycleDay} (change it in your profile)`
+    : 'Bi-weekly cycle';
 
   // Animations
   const fadeAnim = useRef(new Animated.Value(0)).current;
@@ -17,27 +17,24 @@ import ProjectionChart from '../components/ProjectionChart';
 import { useNavigation } from '@react-navigation/native';
 import { useThemeTokens } from '../theme/ThemeProvider';
 import { spacing, radius } from '../theme/tokens';
-import { useBudgetsStore } from '../store/budgets';
+import { useBudgetsStore, type RolloverMode } from '../store/budgets';
+import { useProfileStore } from '../store/profile';
+import { categorySlices } from '../store/transactions';
+import { useTxConverter } from '../store/fxHistory';
+import { buildPeriodLedger, categoryBudgetSet, periodFor, typicalSpend, type BudgetCycle, type PeriodSpec } from '../lib/budgetPeriods';
 
 export const CYCLE_KEY = 'fingrow/budget/cycle';
-type Cycle = 'monthly' | 'biweekly';
+type Cycle = BudgetCycle;
+
+const ROLLOVER_OPTIONS: Array<{ key: RolloverMode; label: string }> = [
+  { key: 'none', label: 'Off' },
+  { key: 'unspent', label: 'Unspent' },
+  { key: 'overspent', label: 'Overspent' },
+  { key: 'both', label: 'Both' },
+];
 
 function startOfDay(d: Date) { const n = new Date(d); n.setHours(0,0,0,0); return n; }
 function endOfDay(d: Date) { const n = new Date(d); n.setHours(23,59,59,999); return n; }
-function startOfMonth(d: Date) { const n = new Date(d.getFullYear(), d.getMonth(), 1); n.setHours(0,0,0,0); return n; }
-function endOfMonth(d: Date) { const n = new Date(d.getFullYear(), d.getMonth()+1, 0); n.setHours(23,59,59,999); return n; }
-
-function getBiweeklyPeriod(anchorISO: string | null, today = new Date()): {start: Date, end: Date, anchor: string} {
-  const anchor = anchorISO ? new Date(anchorISO) : startOfDay(today);
-  const a0 = startOfDay(anchor);
-  const ms14 = 14 * 24 * 60 * 60 * 1000;
-  const t = startOfDay(today).getTime();
-  const diff = t - a0.getTime();
-  const k = Math.floor(diff / ms14);
-  const pStart = new Date(a0.getTime() + k * ms14);
-  const pEnd = new Date(pStart.getTime() + ms14 - 1);
-  return { start: pStart, end: pEnd, anchor: a0.toISOString() };
-}
 
 function fmtMoney(n: number) {
   try { return new Intl.NumberFormat(undefined, { style:'currency', currency:'SGD', minimumFractionDigits:2, maximumFractionDigits:2 }).format(n); }
@@ -59,6 +56,8 @@ export const Budgets: React.FC = () => {
   const nav = useNavigation<any>();
   const insets = useSafeAreaInsets();
   const { monthlyBudget, setMonthlyBudget, warnThreshold, setWarnThreshold, hydrate, ready } = useBudgetsStore();
+  const { categoryBudgets, rollover, history, setCategoryBudget, setRollover, recordHistory } = useBudgetsStore();
+  const cycleDay = useProfileStore(s => s.profile.budgetCycleDay) || 1;
   const { overrides, hydrate: hydrateEnv, ready: readyEnv } = useEnvelopesStore();
   useEffect(()=>{ if(!readyEnv) hydrateEnv(); }, [readyEnv]);
 
@@ -120,6 +119,7 @@ export const Budgets: React.FC = () => {
   const [alertsOn, setAlertsOn] = useState(true);
   const [paceOn, setPaceOn] = useState(true);
   const [digestOn, setDigestOn] = useState(true);
+  const [prefsLoaded, setPrefsLoaded] = useState(false);
   useEffect(() => {
     (async () => {
       try {
@@ -131,6 +131,7 @@ export const Budgets: React.FC = () => {
           setDigestOn(!!p.digestOn);
         }
       } catch {}
+      setPrefsLoaded(true);
     })();
   }, []);
   const savePrefs = async (next?: Partial<{alertsOn:boolean; paceOn:boolean; digestOn:boolean;}>) => {
@@ -142,6 +143,7 @@ export const Budgets: React.FC = () => {
   };
 
   const { transactions } = require('../store/transactions').useTxStore.getState();
+  const toBase = useTxConverter(transactions);
   const [cycle, setCycle] = useState<Cycle>('monthly');
   const [anchorISO, setAnchorISO] = useState<string | null>(null);
   const [selectedMonth, setSelectedMonth] = useState(new Date());
@@ -152,7 +154,9 @@ export const Budgets: React.FC = () => {
   const saveCycle = async (c: Cycle) => { const payload = { cycle: c, anchor: c === 'biweekly' ? (anchorISO || new Date().toISOString()) : null }; setCycle(c); if (c==='biweekly' && !anchorISO) setAnchorISO(payload.anchor); await AsyncStorage.setItem(CYCLE_KEY, JSON.stringify(payload)); };
 
   const today = new Date();
-  const period = cycle === 'monthly' ? { start: startOfMonth(selectedMonth), end: endOfMonth(selectedMonth) } : getBiweeklyPeriod(anchorISO, selectedMonth);
+  const spec: PeriodSpec = { cycle, cycleDay, anchor: anchorISO };
+  const period = periodFor(selectedMonth, spec);
+  const isCurrentPeriod = period.key === periodFor(today, spec).key;
 
   const openMonthPicker = () => {
     setPickerYear(selectedMonth.getFullYear());
@@ -163,7 +167,10 @@ export const Budgets: React.FC = () => {
     const now = new Date();
     // Don't allow future months
     if (year > now.getFullYear() || (year === now.getFullYear() && month > now.getMonth())) return;
-    setSelectedMonth(new Date(year, month, 1));
+    // Land on the cycle that starts in the picked month, or today's cycle if it hasn't started yet
+    const lastDay = new Date(year, month + 1, 0).getDate();
+    const pick = new Date(year, month, cycle === 'monthly' ? Math.min(cycleDay, lastDay) : 1);
+    setSelectedMonth(pick > now ? now : pick);
     setMonthPickerOpen(false);
   };
 
@@ -171,13 +178,13 @@ export const Budgets: React.FC = () => {
   const totalDays = Math.max(1, Math.round((endOfDay(period.end).getTime() - startOfDay(period.start).getTime()) / 86400000));
   const daysPassed = Math.min(totalDays, Math.max(0, Math.round((endOfDay(today).getTime() - startOfDay(period.start).getTime()) / 86400000)));
   const daysLeft = Math.max(0, totalDays - daysPassed);
-  const spent = (transactions || []).filter((t: any) => t.type==='expense' && new Date(t.date) >= period.start && new Date(t.date) <= period.end).reduce((s: number, t: any) => s + (Number(t.amount)||0), 0);
+  const spent = (transactions || []).filter((t: any) => t.type==='expense' && new Date(t.date) >= period.start && new Date(t.date) <= period.end).reduce((s: number, t: any) => s + toBase(t), 0);
   const budget = monthlyBudget || 0;
   const usedRatio = budget>0 ? spent/budget : 0;
   const expectedByToday = budget * (daysPassed/totalDays);
   const paceDelta = spent - expectedByToday;
   const recentStart = new Date(today.getTime() - 14*86400000);
-  const recentSpent = (transactions||[]).filter((t:any)=>t.type==='expense' && new Date(t.date)>=recentStart && new Date(t.date)<=today).reduce((s:number,t:any)=>s+(Number(t.amount)||0),0);
+  const recentSpent = (transactions||[]).filter((t:any)=>t.type==='expense' && new Date(t.date)>=recentStart && new Date(t.date)<=today).reduce((s:number,t:any)=>s+toBase(t),0);
   const recentDays = Math.max(1, Math.round((endOfDay(today).getTime() - startOfDay(recentStart).getTime())/86400000));
   const avgDaily = recentSpent/recentDays;
   const projected = spent + avgDaily*daysLeft;
@@ -199,31 +206,64 @@ export const Budgets: React.FC = () => {
   const remainingAfterHolds = Math.max(0, budget - spent - holdAmount);
   const safePerDayAdj = daysLeft > 0 ? remainingAfterHolds / daysLeft : 0;
 
-  // Category envelopes (auto from history)
-  type CatStat = { name: string; spent: number; cap: number; remaining: number; ratio: number };
+  // Category budgets: set per period, else the envelope cap, else a share of the total from 90-day history
+  type CatStat = { name: string; spent: number; cap: number; remaining: number; ratio: number; budgeted: number; carriedIn: number; explicit: boolean };
   const txAll = require('../store/transactions').useTxStore.getState().transactions || [];
-  const historyStart = new Date(today.getTime() - 90*86400000);
-  const hist = txAll.filter((t:any)=> t.type==='expense' && new Date(t.date) >= historyStart && new Date(t.date) <= today);
-  const byCatHist: Record<string, number> = {};
-  hist.forEach((t:any)=>{ const c = t.category || 'Other'; byCatHist[c] = (byCatHist[c]||0) + (Number(t.amount)||0); });
-  const histTotal = Object.values(byCatHist).reduce((s,n)=>s+n,0) || 1;
-  const shares = Object.fromEntries(Object.entries(byCatHist).map(([k,v])=>[k, v/histTotal])) as Record<string, number>;
-
-  const periodTx = txAll.filter((t:any)=> t.type==='expense' && new Date(t.date) >= period.start && new Date(t.date) <= period.end);
-  const byCatPeriod: Record<string, number> = {};
-  periodTx.forEach((t:any)=>{ const c = t.category || 'Other'; byCatPeriod[c] = (byCatPeriod[c]||0) + (Number(t.amount)||0); });
-
-  const catList = Object.keys({ ...byCatHist, ...byCatPeriod });
-  const cats: CatStat[] = catList.map((name)=>{
-    const used = byCatPeriod[name] || 0;
-    const share = shares[name] || 0;
-    const autoCap = budget * share;
-    const manual = overrides[name];
-    const cap = (manual !== undefined ? manual : autoCap);
-    const remaining = Math.max(0, cap - used);
-    const ratio = cap>0 ? used/cap : 0;
-    return { name, spent: used, cap, remaining, ratio };
-  }).sort((a,b)=> (b.spent - a.spent)).slice(0,5);
+  const ledger = useMemo(() => {
+    const historyStart = new Date(today.getTime() - 90*86400000);
+    const hist = txAll.filter((t:any)=> t.type==='expense' && new Date(t.date) >= historyStart && new Date(t.date) <= today);
+    const byCatHist: Record<string, number> = {};
+    hist.forEach((t:any)=>{ for (const s of categorySlices(t)) { const c = s.category || 'Other'; byCatHist[c] = (byCatHist[c]||0) + toBase(t, s.amount); } });
+    const histTotal = Object.values(byCatHist).reduce((s,n)=>s+n,0) || 1;
+    return buildPeriodLedger({
+      transactions: txAll,
+      spec,
+      period,
+      categoryBudgets,
+      rollover,
+      fallbackCap: (name) => overrides[name] !== undefined ? overrides[name] : budget * ((byCatHist[name] || 0) / histTotal),
+      categories: [...Object.keys(byCatHist), ...Object.keys(overrides)],
+      totalBudget: monthlyBudget,
+      convert: toBase,
+    });
+  }, [txAll, toBase, period.key, cycle, cycleDay, anchorISO, categoryBudgets, rollover, overrides, budget, monthlyBudget]);
+
+  const catLedger: CatStat[] = Object.entries(ledger.current).map(([name, c]) => {
+    const cap = Math.max(0, c.budgeted + c.carriedIn);
+    const explicit = overrides[name] !== undefined || categoryBudgetSet(categoryBudgets, period.key, name) !== undefined;
+    return { name, spent: c.spent, cap, remaining: Math.max(0, cap - c.spent), ratio: cap>0 ? c.spent/cap : 0, budgeted: c.budgeted, carriedIn: c.carriedIn, explicit };
+  }).sort((a,b)=> (b.spent - a.spent) || (b.cap - a.cap));
+  const cats = catLedger.slice(0,5);
+
+  // Closed periods before the one on screen; fall back to the replayed ledger until history has been recorded
+  const pastPeriods = useMemo(() => {
+    const startISO = period.start.toISOString();
+    const saved = history.filter(r => r.start < startISO);
+    return saved.length ? saved : ledger.history;
+  }, [history, ledger, period.key]);
+  const typicalTotal = typicalSpend(pastPeriods);
+
+  useEffect(() => {
+    if (ready && isCurrentPeriod) recordHistory(ledger.history);
+  }, [ready, isCurrentPeriod, ledger]);
+
+  // Threshold alerts for the overall budget and each category that has a budget of its own
+  useEffect(() => {
+    if (!ready || !prefsLoaded || !isCurrentPeriod) return;
+    maybeFireThresholdAlerts({ periodKey: period.key, budget, spent, expectedByToday, paceDelta, usedRatio }, alertsOn);
+    catLedger.filter(c => c.explicit && c.cap > 0).forEach(c => {
+      const expected = c.cap * (daysPassed/totalDays);
+      maybeFireThresholdAlerts({
+        periodKey: period.key,
+        category: c.name,
+        budget: c.cap,
+        spent: c.spent,
+        expectedByToday: expected,
+        paceDelta: c.spent - expected,
+        usedRatio: c.spent / c.cap,
+      }, alertsOn);
+    });
+  }, [ready, prefsLoaded, isCurrentPeriod, alertsOn, period.key, budget, spent, ledger]);
 
   if (budget>0 && avgDaily>0) { const need = budget - spent; if (need<0) overrunEta = today; else { const d = Math.ceil(need/avgDaily); overrunEta = new Date(today.getTime()+d*86400000); if (overrunEta>period.end) overrunEta=null; } }
 
@@ -249,12 +289,12 @@ export const Budgets: React.FC = () => {
         return txDate >= dayStart && txDate <= dayEnd;
       });
 
-      cumulative += dayTxs.reduce((sum: number, t: any) => sum + (Number(t.amount) || 0), 0);
+      cumulative += dayTxs.reduce((sum: number, t: any) => sum + toBase(t), 0);
       dailySpending.push({ t: dayStart.getTime(), v: cumulative });
     }
 
     return dailySpending;
-  }, [allTx, period, daysPassed]);
+  }, [allTx, period, daysPassed, toBase]);
 
   const accentPrimary = get('accent.primary') as string;
   const accentSecondary = get('accent.secondary') as string;
@@ -397,6 +437,15 @@ export const Budgets: React.FC = () => {
         caption: trendLabel,
         accent: withAlpha(trendDiff > 0 ? warningColor : successColor, isDark ? 0.2 : 0.14)
       },
+      {
+        key: 'typical',
+        label: 'vs typical',
+        value: typicalTotal ? `${Math.round((spent / typicalTotal) * 100)}%` : '—',
+        caption: typicalTotal
+          ? `of a typical ${cycle === 'monthly' ? 'month' : 'cycle'} (${fmtMoney(typicalTotal)})`
+          : 'Shows after your first full cycle',
+        accent: withAlpha(accentSecondary, isDark ? 0.2 : 0.14)
+      },
       {
         key: 'biggest',
         label: 'Biggest expense',
@@ -412,7 +461,7 @@ export const Budgets: React.FC = () => {
         accent: withAlpha(successColor, isDark ? 0.2 : 0.14)
       }
     ];
-  }, [budget, cats, isDark, spent, successColor, warningColor, accentPrimary, dangerColor, transactions, period, remainingAfterHoldsLabel, safePerDayAdj, daysLeft, periodRangeLabel]);
+  }, [budget, cats, isDark, spent, successColor, warningColor, accentPrimary, accentSecondary, dangerColor, transactions, period, remainingAfterHoldsLabel, safePerDayAdj, daysLeft, periodRangeLabel, typicalTotal, cycle]);
 
   const nudges = useMemo(() => {
     const items: string[] = [];
@@ -425,6 +474,30 @@ export const Budgets: React.FC = () => {
 
   const [showCategoryInsights, setShowCategoryInsights] = useState(false);
 
+  // Category budget editor (this period onward + rollover)
+  const [editingCat, setEditingCat] = useState<string | null>(null);
+  const [editText, setEditText] = useState('');
+  const [editRollover, setEditRollover] = useState<RolloverMode>('none');
+  const openCategoryEditor = (name: string) => {
+    const row = catLedger.find(c => c.name === name);
+    const own = categoryBudgets[period.key]?.[name];
+    setEditText(typeof own === 'number' ? String(own) : row && row.explicit ? String(Math.round(row.budgeted)) : '');
+    setEditRollover(rollover[name] || 'none');
+    setEditingCat(name);
+  };
+  const saveCategoryEditor = async () => {
+    if (!editingCat) return;
+    const trimmed = editText.trim();
+    const val = Number(trimmed);
+    if (trimmed && (!Number.isFinite(val) || val < 0)) {
+      Alert.alert('Invalid amount', 'Enter a budget of zero or more, or leave it empty to use the envelope cap.');
+      return;
+    }
+    await setCategoryBudget(period.key, editingCat, trimmed ? val : null);
+    await setRollover(editingCat, editRollover);
+    setEditingCat(null);
+  };
+
   const trackedCategorySpend = cats.reduce((sum, c) => sum + c.spent, 0);
   const totalCategoryCap = cats.reduce((sum, c) => sum + (c.cap || 0), 0);
   const categoryCoveragePct = totalCategoryCap > 0 ? Math.min(999, Math.round((trackedCategorySpend / totalCategoryCap) * 100)) : null;
@@ -578,7 +651,7 @@ export const Budgets: React.FC = () => {
                     color: textPrimary,
                     fontWeight: '700'
                   }}>
-                    {selectedMonth.toLocaleDateString(undefined, { month: 'short', year: 'numeric' })}
+                    {(cycle === 'monthly' ? period.start : selectedMonth).toLocaleDateString(undefined, { month: 'short', year: 'numeric' })}
                   </Text>
                 </Pressable>
               </View>
@@ -602,7 +675,7 @@ export const Budgets: React.FC = () => {
               </View>
               <View style={{ flexDirection: 'row', alignItems: 'center', gap: spacing.s6 }}>
                 <Icon name="clock" size={16} color={textMuted} />
-                <Text style={{ color: textMuted, fontSize: 14, fontWeight: '600' }}>{cycle === 'monthly' ? 'Monthly' : 'Bi-weekly'}</Text>
+                <Text style={{ color: textMuted, fontSize: 14, fontWeight: '600' }}>{cycle === 'monthly' ? (cycleDay > 1 ? `Monthly · day ${cycleDay}` : 'Monthly') : 'Bi-weekly'}</Text>
               </View>
               <View style={{ flexDirection: 'row', alignItems: 'center', gap: spacing.s6 }}>
                 <View style={{
@@ -805,6 +878,51 @@ export const Budgets: React.FC = () => {
           </ScrollView>
         </View>
 
+        {catLedger.length ? (
+          <View style={{
+            backgroundColor: surface1,
+            borderRadius: radius.xl,
+            padding: spacing.s16,
+            gap: spacing.s12,
+            borderWidth: 1,
+            borderColor: withAlpha(borderSubtle, isDark ? 0.5 : 1)
+          }}>
+            <View style={{ flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between' }}>
+              <Text style={{ color: textPrimary, fontWeight: '700', fontSize: 16 }}>Category budgets</Text>
+              <Text style={{ color: textMuted, fontSize: 12 }}>Tap to adjust</Text>
+            </View>
+            {catLedger.filter(c => c.cap > 0 || c.spent > 0).map(c => {
+              const typical = typicalSpend(pastPeriods, c.name);
+              const barColor = c.ratio >= 1 ? dangerColor : c.ratio >= warnThreshold ? warningColor : successColor;
+              const mode = rollover[c.name];
+              const details = [
+                typical != null ? `Typical ${fmtMoney(typical)}` : null,
+                c.carriedIn ? `${c.carriedIn > 0 ? '+' : '−'}${fmtMoney(Math.abs(c.carriedIn))} rolled over` : null,
+                mode ? `Rollover: ${ROLLOVER_OPTIONS.find(o => o.key === mode)?.label.toLowerCase()}` : null,
+              ].filter(Boolean).join(' · ');
+              return (
+                <Pressable
+                  key={c.name}
+                  onPress={() => openCategoryEditor(c.name)}
+                  style={({ pressed }) => ({ gap: spacing.s6, opacity: pressed ? 0.7 : 1 })}
+                >
+                  <View style={{ flexDirection: 'row', justifyContent: 'space-between', alignItems: 'baseline' }}>
+                    <Text style={{ color: textPrimary, fontWeight: '700', fontSize: 14, flex: 1 }} numberOfLines={1}>{c.name}</Text>
+                    <Text style={{ color: textMuted, fontSize: 13 }}>
+                      <Text style={{ color: textPrimary, fontWeight: '700' }}>{fmtMoney(c.spent)}</Text>
+                      {c.cap > 0 ? ` / ${fmtMoney(c.cap)}` : ''}
+                    </Text>
+                  </View>
+                  <View style={{ height: 6, borderRadius: 3, backgroundColor: withAlpha(textMuted, 0.12), overflow: 'hidden' }}>
+                    <View style={{ width: `${Math.min(100, c.ratio * 100)}%`, height: '100%', backgroundColor: barColor, borderRadius: 3 }} />
+                  </View>
+                  {details ? <Text style={{ color: textMuted, fontSize: 12 }}>{details}</Text> : null}
+                </Pressable>
+              );
+            })}
+          </View>
+        ) : null}
+
         {nudges.length ? (
           <View style={{
             backgroundColor: surface1,
@@ -988,6 +1106,69 @@ export const Budgets: React.FC = () => {
           </View>
         </TouchableWithoutFeedback>
       </Modal>
+
+      {/* Category Budget Modal */}
+      <Modal visible={!!editingCat} transparent animationType="fade" onRequestClose={() => setEditingCat(null)}>
+        <TouchableWithoutFeedback onPress={() => setEditingCat(null)}>
+          <View style={{ flex: 1, backgroundColor: 'rgba(8,10,18,0.72)', justifyContent: 'center', alignItems: 'center', padding: spacing.s16 }}>
+            <TouchableWithoutFeedback>
+              <View style={{
+                width: '100%',
+                maxWidth: 360,
+                backgroundColor: surface1,
+                borderRadius: radius.xl,
+                padding: spacing.s16,
+                gap: spacing.s12,
+                shadowColor: '#000',
+                shadowOpacity: 0.18,
+                shadowRadius: 18,
+                shadowOffset: { width: 0, height: 10 },
+                elevation: 10
+              }}>
+                <View style={{ flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between' }}>
+                  <Text style={{ color: textPrimary, fontWeight: '700', fontSize: 16 }}>{editingCat}</Text>
+                  <Pressable onPress={() => setEditingCat(null)} hitSlop={8}>
+                    <Text style={{ color: textMuted, fontSize: 16 }}>Close</Text>
+                  </Pressable>
+                </View>
+                <Input
+                  label={`Budget from ${period.start.toLocaleDateString(undefined, { day: 'numeric', month: 'short' })}`}
+                  value={editText}
+                  onChangeText={setEditText}
+                  keyboardType="numeric"
+                  placeholder={editingCat && overrides[editingCat] !== undefined ? `Envelope cap ${overrides[editingCat]}` : 'Auto'}
+                />
+                <Text style={{ color: textMuted, fontSize: 12 }}>
+                  Applies to this period and carries forward until you change it.
+                </Text>
+                <Text style={{ color: textMuted, fontSize: 14, fontWeight: '600' }}>Roll over into next period</Text>
+                <View style={{ flexDirection: 'row', gap: spacing.s8 }}>
+                  {ROLLOVER_OPTIONS.map(option => {
+                    const active = editRollover === option.key;
+                    return (
+                      <Pressable
+                        key={option.key}
+                        onPress={() => setEditRollover(option.key)}
+                        style={({ pressed }) => ({
+                          flex: 1,
+                          paddingVertical: spacing.s8,
+                          borderRadius: radius.pill,
+                          alignItems: 'center',
+                          backgroundColor: active ? accentPrimary : surface2,
+                          opacity: pressed ? 0.85 : 1
+                        })}
+                      >
+                        <Text style={{ color: active ? textOnPrimary : textPrimary, fontWeight: '700', fontSize: 12 }}>{option.label}</Text>
+                      </Pressable>
+                    );
+                  })}
+                </View>
+                <Button title="Save" onPress={saveCategoryEditor} />
+              </View>
+            </TouchableWithoutFeedback>
+          </View>
+        </TouchableWithoutFeedback>
+      </Modal>
     </ScreenScroll>
     </>
   );
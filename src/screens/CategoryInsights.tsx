@@ -8,6 +8,7 @@ import { useThemeTokens } from '../theme/ThemeProvider';
 import { spacing, radius } from '../theme/tokens';
 import { useBudgetsStore } from '../store/budgets';
 import { useEnvelopesStore } from '../store/envelopes';
+import { groupByTag } from '../store/txHelpers';
 
 function startOfMonth(d: Date) { const n = new Date(d.getFullYear(), d.getMonth(), 1); n.setHours(0,0,0,0); return n; }
 function endOfMonth(d: Date) { const n = new Date(d.getFullYear(), d.getMonth()+1, 0); n.setHours(23,59,59,999); return n; }
@@ -75,6 +76,11 @@ export default function CategoryInsights() {
   const byCatPeriod: Record<string, number> = {};
   periodTx.forEach((t:any)=>{ const c = t.category || 'Other'; byCatPeriod[c] = (byCatPeriod[c]||0) + (Number(t.amount)||0); });
 
+  // Tags cut across categories, so they're listed separately rather than as envelopes
+  const tagStats = Object.entries(groupByTag(periodTx))
+    .map(([name, v]) => ({ name, spent: v.expense, count: v.count }))
+    .sort((a, b) => b.spent - a.spent);
+
   const catList = Object.keys({ ...byCatHist, ...byCatPeriod });
   const cats: CatStat[] = catList.map((name)=>{
     const used = byCatPeriod[name] || 0;
@@ -284,6 +290,27 @@ export default function CategoryInsights() {
             </View>
           </>
         )}
+
+        {tagStats.length > 0 && (
+          <View style={{ gap: spacing.s6 }}>
+            <Text style={{ color: textMuted, fontSize: 13, fontWeight: '700', textTransform: 'uppercase', letterSpacing: 0.5, paddingHorizontal: spacing.s2 }}>
+              By Tag
+            </Text>
+            {tagStats.map((t) => (
+              <View
+                key={t.name}
+                style={{ flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', paddingVertical: spacing.s10, paddingHorizontal: spacing.s2 }}
+              >
+                <View style={{ flexDirection: 'row', alignItems: 'center', gap: spacing.s8 }}>
+                  <Icon name="tag" size={14} color={accentSecondary} />
+                  <Text style={{ color: textPrimary, fontWeight: '700', fontSize: 15 }}>#{t.name}</Text>
+                  <Text style={{ color: textMuted, fontSize: 12 }}>{t.count} tx</Text>
+                </View>
+                <Text style={{ color: textMuted, fontSize: 14, fontWeight: '600' }}>{fmtMoney(t.spent)}</Text>
+              </View>
+            ))}
+          </View>
+        )}
       </Animated.View>
     </ScreenScroll>
   );
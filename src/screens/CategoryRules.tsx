@@ -0,0 +1,406 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { View, Text, Pressable, Alert, Switch } from 'react-native';
+import * as Haptics from 'expo-haptics';
+import { ScreenScroll } from '../components/ScreenScroll';
+import Button from '../components/Button';
+import Input from '../components/Input';
+import Icon from '../components/Icon';
+import { useThemeTokens } from '../theme/ThemeProvider';
+import { spacing, radius } from '../theme/tokens';
+import { useRulesStore } from '../store/rules';
+import { useTxStore } from '../store/transactions';
+import { useAccountsStore } from '../store/accounts';
+import { formatCurrency } from '../lib/format';
+import type { CategoryRule, RuleChange } from '../lib/categoryRules';
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+type Draft = {
+  id?: string;
+  name: string;
+  text: string;
+  textField: 'note' | 'title' | 'any';
+  minAmount: string;
+  maxAmount: string;
+  account: string;
+  weekdays: number[];
+  type: 'expense' | 'income' | '';
+  category: string;
+  title: string;
+  tags: string;
+};
+
+const EMPTY_DRAFT: Draft = {
+  name: '', text: '', textField: 'any', minAmount: '', maxAmount: '', account: '',
+  weekdays: [], type: '', category: '', title: '', tags: '',
+};
+
+function toDraft(rule: CategoryRule): Draft {
+  const c = rule.conditions;
+  return {
+    id: rule.id,
+    name: rule.name,
+    text: c.text || '',
+    textField: c.textField || 'any',
+    minAmount: typeof c.minAmount === 'number' ? String(c.minAmount) : '',
+    maxAmount: typeof c.maxAmount === 'number' ? String(c.maxAmount) : '',
+    account: c.account || '',
+    weekdays: c.weekdays || [],
+    type: c.type || '',
+    category: rule.actions.category || '',
+    title: rule.actions.title || '',
+    tags: (rule.actions.tags || []).join(', '),
+  };
+}
+
+function fromDraft(d: Draft): Omit<CategoryRule, 'id' | 'createdAt'> {
+  const num = (v: string) => (v.trim() && Number.isFinite(Number(v)) ? Number(v) : undefined);
+  const tags = d.tags.split(',').map(t => t.trim()).filter(Boolean);
+  return {
+    name: d.name.trim() || d.text.trim() || d.category.trim() || 'Rule',
+    enabled: true,
+    conditions: {
+      text: d.text.trim() || undefined,
+      textField: d.textField,
+      minAmount: num(d.minAmount),
+      maxAmount: num(d.maxAmount),
+      account: d.account || undefined,
+      weekdays: d.weekdays.length ? d.weekdays : undefined,
+      type: d.type || undefined,
+    },
+    actions: {
+      category: d.category.trim() || undefined,
+      title: d.title.trim() || undefined,
+      tags: tags.length ? tags : undefined,
+    },
+    source: 'user',
+  };
+}
+
+function describe(rule: CategoryRule) {
+  const c = rule.conditions;
+  const parts: string[] = [];
+  if (c.type) parts.push(c.type === 'income' ? 'income' : 'expenses');
+  if (c.text) parts.push(`${c.textField && c.textField !== 'any' ? c.textField : 'text'} contains "${c.text}"`);
+  if (typeof c.minAmount === 'number') parts.push(`≥ ${formatCurrency(c.minAmount)}`);
+  if (typeof c.maxAmount === 'number') parts.push(`≤ ${formatCurrency(c.maxAmount)}`);
+  if (c.account) parts.push(`in ${c.account}`);
+  if (c.weekdays?.length) parts.push(`on ${c.weekdays.map(d => WEEKDAYS[d]).join('/')}`);
+  const a = rule.actions;
+  const then: string[] = [];
+  if (a.category) then.push(a.category);
+  if (a.title) then.push(`title "${a.title}"`);
+  if (a.tags?.length) then.push(a.tags.map(t => `#${t}`).join(' '));
+  return `${parts.join(', ') || 'Any'} → ${then.join(', ') || 'no action'}`;
+}
+
+export default function CategoryRules() {
+  const { get } = useThemeTokens();
+  const {
+    rules, learnFromCorrections, hydrate, addRule, updateRule, removeRule, moveRule,
+    setLearnFromCorrections, getProposals, acceptProposal, dismissProposal,
+    previewRetroactive, applyRetroactive, corrections, dismissedProposals,
+  } = useRulesStore();
+  const { transactions } = useTxStore();
+  const { accounts, hydrate: hydrateAccounts } = useAccountsStore();
+
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [preview, setPreview] = useState<RuleChange[] | null>(null);
+  const [applying, setApplying] = useState(false);
+
+  useEffect(() => {
+    hydrate();
+    hydrateAccounts();
+  }, []);
+
+  const proposals = useMemo(() => getProposals(), [rules, corrections, dismissedProposals]);
+
+  const knownCategories = useMemo(() => {
+    const set = new Set<string>();
+    for (const t of transactions || []) if (t.type !== 'transfer' && t.category) set.add(t.category);
+    return Array.from(set).sort().slice(0, 20);
+  }, [transactions]);
+
+  const txById = useMemo(() => new Map((transactions || []).map(t => [t.id, t])), [transactions]);
+
+  const saveDraft = async () => {
+    if (!draft) return;
+    const rule = fromDraft(draft);
+    const c = rule.conditions;
+    if (!c.text && !c.account && !c.type && !c.weekdays && c.minAmount === undefined && c.maxAmount === undefined) {
+      Alert.alert('Add a condition', 'A rule needs at least one condition to match on.');
+      return;
+    }
+    if (!rule.actions.category && !rule.actions.title && !rule.actions.tags) {
+      Alert.alert('Add an action', 'Choose a category, title or tags for matching transactions.');
+      return;
+    }
+    if (draft.id) {
+      const existing = rules.find(r => r.id === draft.id);
+      await updateRule(draft.id, { ...rule, enabled: existing?.enabled ?? true, source: existing?.source });
+    } else {
+      await addRule(rule);
+    }
+    setDraft(null);
+    setPreview(null);
+  };
+
+  const runPreview = () => {
+    setPreview(previewRetroactive());
+  };
+
+  const confirmApply = async () => {
+    if (!preview || preview.length === 0) return;
+    setApplying(true);
+    try {
+      const n = await applyRetroactive(preview);
+      await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      Alert.alert('Rules applied', `Updated ${n} transaction${n === 1 ? '' : 's'}.`);
+      setPreview(null);
+    } catch (e) {
+      Alert.alert('Could not apply rules', e instanceof Error ? e.message : 'Unknown error');
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  const textPrimary = get('text.primary') as string;
+  const textMuted = get('text.muted') as string;
+  const surface1 = get('surface.level1') as string;
+  const surface2 = get('surface.level2') as string;
+  const borderSubtle = get('border.subtle') as string;
+  const accentPrimary = get('accent.primary') as string;
+  const onPrimary = get('text.onPrimary') as string;
+  const dangerColor = get('semantic.danger') as string;
+
+  const chip = (label: string, active: boolean, onPress: () => void, key?: string) => (
+    <Pressable
+      key={key ?? label}
+      onPress={onPress}
+      style={{
+        paddingVertical: spacing.s6,
+        paddingHorizontal: spacing.s12,
+        borderRadius: radius.pill,
+        backgroundColor: active ? accentPrimary : surface2,
+      }}
+    >
+      <Text numberOfLines={1} style={{ color: active ? onPrimary : textPrimary, fontSize: 13, fontWeight: '600', maxWidth: 160 }}>
+        {label}
+      </Text>
+    </Pressable>
+  );
+
+  const sectionLabel = (label: string) => (
+    <Text style={{ color: textMuted, fontSize: 13, fontWeight: '600', marginBottom: spacing.s8 }}>{label}</Text>
+  );
+
+  const card = { backgroundColor: surface1, borderRadius: radius.lg, borderWidth: 1, borderColor: borderSubtle, overflow: 'hidden' as const };
+
+  const renderEditor = (d: Draft) => (
+    <View style={[card, { padding: spacing.s16, gap: spacing.s12 }]}>
+      <Text style={{ color: textPrimary, fontSize: 16, fontWeight: '700' }}>{d.id ? 'Edit rule' : 'New rule'}</Text>
+      <Input value={d.name} onChangeText={v => setDraft({ ...d, name: v })} placeholder="Rule name (optional)" style={{ margin: 0 }} />
+
+      {sectionLabel('WHEN')}
+      <View style={{ flexDirection: 'row', gap: spacing.s8 }}>
+        {chip('Any type', d.type === '', () => setDraft({ ...d, type: '' }))}
+        {chip('Expense', d.type === 'expense', () => setDraft({ ...d, type: 'expense' }))}
+        {chip('Income', d.type === 'income', () => setDraft({ ...d, type: 'income' }))}
+      </View>
+      <Input value={d.text} onChangeText={v => setDraft({ ...d, text: v })} placeholder="Note or title contains…" style={{ margin: 0 }} />
+      <View style={{ flexDirection: 'row', gap: spacing.s8 }}>
+        {chip('Note or title', d.textField === 'any', () => setDraft({ ...d, textField: 'any' }))}
+        {chip('Note', d.textField === 'note', () => setDraft({ ...d, textField: 'note' }))}
+        {chip('Title', d.textField === 'title', () => setDraft({ ...d, textField: 'title' }))}
+      </View>
+      <View style={{ flexDirection: 'row', gap: spacing.s8 }}>
+        <View style={{ flex: 1 }}>
+          <Input value={d.minAmount} onChangeText={v => setDraft({ ...d, minAmount: v })} placeholder="Min amount" keyboardType="decimal-pad" style={{ margin: 0 }} />
+        </View>
+        <View style={{ flex: 1 }}>
+          <Input value={d.maxAmount} onChangeText={v => setDraft({ ...d, maxAmount: v })} placeholder="Max amount" keyboardType="decimal-pad" style={{ margin: 0 }} />
+        </View>
+      </View>
+      {accounts.length > 0 && (
+        <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: spacing.s8 }}>
+          {chip('Any account', !d.account, () => setDraft({ ...d, account: '' }))}
+          {accounts.map(a => chip(a.name, d.account === a.name, () => setDraft({ ...d, account: a.name }), a.id))}
+        </View>
+      )}
+      <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: spacing.s6 }}>
+        {WEEKDAYS.map((w, i) => chip(w, d.weekdays.includes(i), () => setDraft({
+          ...d,
+          weekdays: d.weekdays.includes(i) ? d.weekdays.filter(x => x !== i) : [...d.weekdays, i].sort(),
+        }), w))}
+      </View>
+
+      {sectionLabel('THEN')}
+      <Input value={d.category} onChangeText={v => setDraft({ ...d, category: v })} placeholder="Set category" style={{ margin: 0 }} />
+      {knownCategories.length > 0 && (
+        <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: spacing.s6 }}>
+          {knownCategories.map(c => chip(c, d.category === c, () => setDraft({ ...d, category: c }), `cat-${c}`))}
+        </View>
+      )}
+      <Input value={d.title} onChangeText={v => setDraft({ ...d, title: v })} placeholder="Set title (optional)" style={{ margin: 0 }} />
+      <Input value={d.tags} onChangeText={v => setDraft({ ...d, tags: v })} placeholder="Add tags, comma separated (optional)" style={{ margin: 0 }} />
+
+      <View style={{ flexDirection: 'row', gap: spacing.s8 }}>
+        <View style={{ flex: 1 }}>
+          <Button title="Cancel" variant="secondary" onPress={() => setDraft(null)} />
+        </View>
+        <View style={{ flex: 1 }}>
+          <Button title="Save rule" onPress={saveDraft} />
+        </View>
+      </View>
+    </View>
+  );
+
+  return (
+    <ScreenScroll contentStyle={{ padding: spacing.s16, paddingBottom: spacing.s32, gap: spacing.s20 }}>
+      <View>
+        <Text style={{ color: textPrimary, fontSize: 24, fontWeight: '800', marginBottom: spacing.s8 }}>
+          Categorisation rules
+        </Text>
+        <Text style={{ color: textMuted, fontSize: 14 }}>
+          Rules run on new and imported transactions, top to bottom. The first rule that sets a field wins.
+        </Text>
+      </View>
+
+      <View style={{ flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between' }}>
+        <View style={{ flex: 1, paddingRight: spacing.s12 }}>
+          <Text style={{ color: textPrimary, fontSize: 14 }}>Learn from my corrections</Text>
+          <Text style={{ color: textMuted, fontSize: 12 }}>Suggest a rule when you re-categorise the same merchant</Text>
+        </View>
+        <Switch value={learnFromCorrections} onValueChange={setLearnFromCorrections} />
+      </View>
+
+      {proposals.length > 0 && (
+        <View>
+          {sectionLabel('SUGGESTED')}
+          <View style={card}>
+            {proposals.map((p, index) => (
+              <View
+                key={`${p.merchant}-${p.category}`}
+                style={{ flexDirection: 'row', alignItems: 'center', gap: spacing.s12, padding: spacing.s12, borderTopWidth: index === 0 ? 0 : 1, borderTopColor: borderSubtle }}
+              >
+                <Icon name="sparkles" size={16} color={accentPrimary} />
+                <View style={{ flex: 1, minWidth: 0 }}>
+                  <Text numberOfLines={1} style={{ color: textPrimary, fontWeight: '600', fontSize: 14 }}>
+                    "{p.merchant}" → {p.category}
+                  </Text>
+                  <Text style={{ color: textMuted, fontSize: 12 }}>Corrected {p.count} times</Text>
+                </View>
+                <Pressable onPress={() => dismissProposal(p)} hitSlop={8}>
+                  <Icon name="x" size={18} color={textMuted} />
+                </Pressable>
+                <Pressable onPress={() => acceptProposal(p)} hitSlop={8}>
+                  <Icon name="check" size={18} color={accentPrimary} />
+                </Pressable>
+              </View>
+            ))}
+          </View>
+        </View>
+      )}
+
+      <View>
+        {sectionLabel(`RULES · ${rules.length}`)}
+        {rules.length === 0 ? (
+          <Text style={{ color: textMuted, fontSize: 13 }}>
+            No rules yet. Try "note contains Grab → Transport".
+          </Text>
+        ) : (
+          <View style={card}>
+            {rules.map((rule, index) => (
+              <View
+                key={rule.id}
+                style={{ flexDirection: 'row', alignItems: 'center', gap: spacing.s8, padding: spacing.s12, borderTopWidth: index === 0 ? 0 : 1, borderTopColor: borderSubtle }}
+              >
+                <View style={{ gap: 2 }}>
+                  <Pressable onPress={() => moveRule(rule.id, -1)} disabled={index === 0} hitSlop={6}>
+                    <Icon name="chevron-up" size={16} color={index === 0 ? borderSubtle : textMuted} />
+                  </Pressable>
+                  <Pressable onPress={() => moveRule(rule.id, 1)} disabled={index === rules.length - 1} hitSlop={6}>
+                    <Icon name="chevron-down" size={16} color={index === rules.length - 1 ? borderSubtle : textMuted} />
+                  </Pressable>
+                </View>
+                <Pressable style={{ flex: 1, minWidth: 0 }} onPress={() => setDraft(toDraft(rule))}>
+                  <Text numberOfLines={1} style={{ color: rule.enabled ? textPrimary : textMuted, fontWeight: '600', fontSize: 14 }}>
+                    {rule.name}{rule.source === 'learned' ? ' · learned' : ''}
+                  </Text>
+                  <Text numberOfLines={2} style={{ color: textMuted, fontSize: 12 }}>{describe(rule)}</Text>
+                </Pressable>
+                <Switch value={rule.enabled} onValueChange={v => updateRule(rule.id, { enabled: v })} />
+                <Pressable
+                  hitSlop={8}
+                  onPress={() => Alert.alert('Delete rule', `Delete "${rule.name}"?`, [
+                    { text: 'Cancel', style: 'cancel' },
+                    { text: 'Delete', style: 'destructive', onPress: () => removeRule(rule.id) },
+                  ])}
+                >
+                  <Icon name="trash" size={18} color={dangerColor} />
+                </Pressable>
+              </View>
+            ))}
+          </View>
+        )}
+      </View>
+
+      {draft ? renderEditor(draft) : (
+        <Button title="Add rule" icon="plus" variant="secondary" onPress={() => setDraft({ ...EMPTY_DRAFT })} />
+      )}
+
+      {rules.length > 0 && (
+        <View>
+          {sectionLabel('APPLY TO EXISTING TRANSACTIONS')}
+          {preview === null ? (
+            <Button title="Preview changes" icon="eye" variant="secondary" onPress={runPreview} />
+          ) : preview.length === 0 ? (
+            <Text style={{ color: textMuted, fontSize: 13 }}>Your existing transactions already match these rules.</Text>
+          ) : (
+            <View style={{ gap: spacing.s12 }}>
+              <View style={card}>
+                {preview.slice(0, 50).map((change, index) => {
+                  const tx = txById.get(change.txId);
+                  const parts: string[] = [];
+                  if (change.after.category) parts.push(`${change.before.category} → ${change.after.category}`);
+                  if (change.after.title) parts.push(`title "${change.after.title}"`);
+                  if (change.after.tags) parts.push(change.after.tags.map(t => `#${t}`).join(' '));
+                  return (
+                    <View
+                      key={change.txId}
+                      style={{ padding: spacing.s12, borderTopWidth: index === 0 ? 0 : 1, borderTopColor: borderSubtle }}
+                    >
+                      <View style={{ flexDirection: 'row', justifyContent: 'space-between', gap: spacing.s8 }}>
+                        <Text numberOfLines={1} style={{ color: textPrimary, fontWeight: '600', fontSize: 14, flex: 1 }}>
+                          {tx?.title || tx?.note || change.before.category}
+                        </Text>
+                        <Text style={{ color: textMuted, fontSize: 13 }}>{formatCurrency(Math.abs(tx?.amount || 0))}</Text>
+                      </View>
+                      <Text style={{ color: textMuted, fontSize: 12 }}>{parts.join(' · ')}</Text>
+                    </View>
+                  );
+                })}
+              </View>
+              {preview.length > 50 && (
+                <Text style={{ color: textMuted, fontSize: 12 }}>…and {preview.length - 50} more</Text>
+              )}
+              <View style={{ flexDirection: 'row', gap: spacing.s8 }}>
+                <View style={{ flex: 1 }}>
+                  <Button title="Cancel" variant="secondary" onPress={() => setPreview(null)} />
+                </View>
+                <View style={{ flex: 1 }}>
+                  <Button
+                    title={applying ? 'Applying…' : `Update ${preview.length}`}
+                    onPress={confirmApply}
+                    disabled={applying}
+                    loading={applying}
+                  />
+                </View>
+              </View>
+            </View>
+          )}
+        </View>
+      )}
+    </ScreenScroll>
+  );
+}
@@ -4,10 +4,15 @@ import { View, Text, Pressable, Alert, Animated } from 'react-native';
 import { useRoute, useNavigation } from '@react-navigation/native';
 import { useThemeTokens } from '../theme/ThemeProvider';
 import { spacing, radius } from '../theme/tokens';
-import { useTxStore } from '../store/transactions';
+import { useTxStore, TxType, validateSplits } from '../store/transactions';
+import { useRulesStore } from '../store/rules';
+import { useProfileStore } from '../store/profile';
+import { useAccountsStore } from '../store/accounts';
+import { merchantKey } from '../lib/categoryRules';
 import { ScreenScroll } from '../components/ScreenScroll';
 import Input from '../components/Input';
 import Icon from '../components/Icon';
+import TagEditor from '../components/TagEditor';
 
 function withAlpha(color: string, alpha: number) {
   if (!color) return color;
@@ -95,6 +100,12 @@ const AnimatedButton: React.FC<{
   );
 };
 
+type SplitDraft = { category: string; amount: string; note?: string };
+
+function toDrafts(splits?: Array<{ category: string; amount: number; note?: string }>): SplitDraft[] {
+  return (splits || []).map(s => ({ category: s.category, amount: String(s.amount), note: s.note || '' }));
+}
+
 export default function EditTransaction() {
   const { get } = useThemeTokens();
   const nav = useNavigation<any>();
@@ -106,8 +117,11 @@ export default function EditTransaction() {
 
   const [note, setNote] = useState(tx?.note || '');
   const [amount, setAmount] = useState(String(Math.abs(tx?.amount ?? 0)));
-  const [type, setType] = useState<'income' | 'expense'>(tx?.type || 'expense');
+  const [type, setType] = useState<TxType>(tx?.type || 'expense');
   const [category, setCategory] = useState(tx?.category || '');
+  const [splits, setSplits] = useState<SplitDraft[]>(toDrafts(tx?.splits));
+  const [tags, setTags] = useState<string[]>(tx?.tags || []);
+  const [currency, setCurrency] = useState(tx?.currency || '');
 
   useEffect(() => {
     if (tx) {
@@ -115,23 +129,105 @@ export default function EditTransaction() {
       setAmount(String(Math.abs(tx.amount ?? 0)));
       setType(tx.type || 'expense');
       setCategory(tx.category || '');
+      setSplits(toDrafts(tx.splits));
+      setTags(tx.tags || []);
+      setCurrency(tx.currency || '');
     }
   }, [tx]);
 
+  const baseCurrency = useProfileStore(s => s.profile?.currency) || 'USD';
+  const accounts = useAccountsStore(s => s.accounts);
+  const accountCurrency = (accounts.find(a => a.name === tx?.account)?.currency || baseCurrency).toUpperCase();
+
+  const isSplit = splits.length > 0;
+  const splitTotal = splits.reduce((s, x) => s + (Number(x.amount) || 0), 0);
+  const splitRemaining = (Number(amount) || 0) - splitTotal;
+
+  const startSplit = () => {
+    // Seed with the current category holding the full amount so the user only carves out the rest
+    setSplits([
+      { category: category || '', amount: String(Number(amount) || 0), note: '' },
+      { category: '', amount: '0', note: '' },
+    ]);
+  };
+
+  const updateSplit = (index: number, patch: Partial<SplitDraft>) => {
+    setSplits(prev => prev.map((s, i) => (i === index ? { ...s, ...patch } : s)));
+  };
+
+  const removeSplit = (index: number) => {
+    setSplits(prev => {
+      const next = prev.filter((_, i) => i !== index);
+      // A single remaining line is just a normal category
+      if (next.length === 1) {
+        setCategory(next[0].category);
+        return [];
+      }
+      return next;
+    });
+  };
+
   const save = async () => {
     if (!tx) return;
+    const parsedSplits = isSplit
+      ? splits.map(s => ({ category: s.category.trim(), amount: Number(s.amount) || 0, note: s.note?.trim() || undefined }))
+      : undefined;
+    const currencyCode = currency.trim().toUpperCase();
+    if (currencyCode && !/^[A-Z]{3}$/.test(currencyCode)) {
+      Alert.alert('Check the currency', 'Use a three-letter ISO code such as USD or SGD.');
+      return;
+    }
+    const splitError = validateSplits(Number(amount), parsedSplits);
+    if (splitError) {
+      Alert.alert('Check your split', splitError);
+      return;
+    }
     try {
       await updateTransaction(id, {
         note,
         amount: Number(amount),
         type,
         category,
+        splits: parsedSplits,
+        tags,
+        currency: currencyCode || undefined,
         date: tx.date, // Keep the original date
       });
-      nav.goBack();
     } catch (error) {
       Alert.alert('Error', 'Failed to update transaction');
+      return;
     }
+
+    // Learn from re-categorisations of the same merchant
+    const merchant = merchantKey({ note, title: tx.title });
+    const proposal = !isSplit && tx.type !== 'transfer' && category !== tx.category
+      ? await useRulesStore.getState().recordCorrection(merchant, tx.category, category)
+      : undefined;
+    if (!proposal) {
+      nav.goBack();
+      return;
+    }
+    Alert.alert(
+      'Create a rule?',
+      `You've moved "${proposal.merchant}" to ${proposal.category} ${proposal.count} times. Categorise it automatically from now on?`,
+      [
+        {
+          text: 'Not now',
+          style: 'cancel',
+          onPress: async () => {
+            await useRulesStore.getState().dismissProposal(proposal);
+            nav.goBack();
+          },
+        },
+        {
+          text: 'Create rule',
+          onPress: async () => {
+            await useRulesStore.getState().acceptProposal(proposal);
+            nav.goBack();
+          },
+        },
+      ]
+    );
   };
 
   const handleDelete = () => {
@@ -341,30 +437,114 @@ export default function EditTransaction() {
         <Text style={{ color: textMuted, fontSize: 13, fontWeight: '600', marginBottom: spacing.s8 }}>
           AMOUNT
         </Text>
-        <Input
-          value={amount}
-          onChangeText={setAmount}
-          placeholder="0.00"
-          keyboardType="decimal-pad"
-          style={{ margin: 0 }}
-        />
+        <View style={{ flexDirection: 'row', gap: spacing.s8 }}>
+          <Input
+            value={amount}
+            onChangeText={setAmount}
+            placeholder="0.00"
+            keyboardType="decimal-pad"
+            style={{ margin: 0, flex: 1 }}
+          />
+          <Input
+            value={currency}
+            onChangeText={(v) => setCurrency(v.toUpperCase().slice(0, 3))}
+            placeholder={accountCurrency}
+            style={{ margin: 0, width: 88 }}
+          />
+        </View>
+        {tx?.accountAmount !== undefined && tx.account && (
+          <Text style={{ color: textMuted, fontSize: 12, marginTop: spacing.s6 }}>
+            Charged {tx.accountAmount.toFixed(2)} {accountCurrency} to {tx.account}
+          </Text>
+        )}
       </View>
 
       {/* Category Input */}
-      <View style={{ marginBottom: spacing.s16 }}>
-        <Text style={{ color: textMuted, fontSize: 13, fontWeight: '600', marginBottom: spacing.s8 }}>
-          CATEGORY
-        </Text>
-        <Input
-          value={category}
-          onChangeText={setCategory}
-          placeholder="e.g., Food, Transport, Salary"
-          style={{ margin: 0 }}
-        />
-      </View>
+      {!isSplit ? (
+        <View style={{ marginBottom: spacing.s16 }}>
+          <Text style={{ color: textMuted, fontSize: 13, fontWeight: '600', marginBottom: spacing.s8 }}>
+            CATEGORY
+          </Text>
+          <Input
+            value={category}
+            onChangeText={setCategory}
+            placeholder="e.g., Food, Transport, Salary"
+            style={{ margin: 0 }}
+          />
+          {type === 'expense' && (
+            <Pressable onPress={startSplit} style={{ marginTop: spacing.s8, alignSelf: 'flex-start' }} hitSlop={12}>
+              <Text style={{ color: accentPrimary, fontWeight: '600', fontSize: 14 }}>Split across categories</Text>
+            </Pressable>
+          )}
+        </View>
+      ) : (
+        <View style={{ marginBottom: spacing.s16 }}>
+          <Text style={{ color: textMuted, fontSize: 13, fontWeight: '600', marginBottom: spacing.s8 }}>
+            SPLIT ACROSS CATEGORIES
+          </Text>
+          <View style={{ gap: spacing.s12 }}>
+            {splits.map((s, index) => (
+              <View
+                key={index}
+                style={{
+                  backgroundColor: surface1,
+                  borderRadius: radius.lg,
+                  padding: spacing.s12,
+                  gap: spacing.s8,
+                  borderWidth: 1,
+                  borderColor: get('border.subtle') as string,
+                }}
+              >
+                <View style={{ flexDirection: 'row', gap: spacing.s8, alignItems: 'center' }}>
+                  <Input
+                    value={s.category}
+                    onChangeText={(v) => updateSplit(index, { category: v })}
+                    placeholder="Category"
+                    style={{ margin: 0, flex: 2 }}
+                  />
+                  <Input
+                    value={s.amount}
+                    onChangeText={(v) => updateSplit(index, { amount: v })}
+                    placeholder="0.00"
+                    keyboardType="decimal-pad"
+                    style={{ margin: 0, flex: 1 }}
+                  />
+                  <Pressable
+                    onPress={() => removeSplit(index)}
+                    hitSlop={12}
+                    accessibilityRole="button"
+                    accessibilityLabel="Remove split"
+                  >
+                    <Icon name="x" size={18} color={textMuted} />
+                  </Pressable>
+                </View>
+                <Input
+                  value={s.note || ''}
+                  onChangeText={(v) => updateSplit(index, { note: v })}
+                  placeholder="Note (optional)"
+                  style={{ margin: 0 }}
+                />
+              </View>
+            ))}
+          </View>
+          <View style={{ flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', marginTop: spacing.s8 }}>
+            <Pressable
+              onPress={() => setSplits(prev => [...prev, { category: '', amount: String(Math.max(0, Number(splitRemaining.toFixed(2)))), note: '' }])}
+              hitSlop={12}
+            >
+              <Text style={{ color: accentPrimary, fontWeight: '600', fontSize: 14 }}>Add line</Text>
+            </Pressable>
+            <Text style={{ color: Math.abs(splitRemaining) > 0.005 ? dangerColor : textMuted, fontSize: 13 }}>
+              {Math.abs(splitRemaining) > 0.005
+                ? `${splitRemaining > 0 ? 'Unassigned' : 'Over by'} $${Math.abs(splitRemaining).toFixed(2)}`
+                : 'Fully assigned'}
+            </Text>
+          </View>
+        </View>
+      )}
 
       {/* Note Input */}
-      <View style={{ marginBottom: spacing.s24 }}>
+      <View style={{ marginBottom: spacing.s16 }}>
         <Text style={{ color: textMuted, fontSize: 13, fontWeight: '600', marginBottom: spacing.s8 }}>
           NOTE (OPTIONAL)
         </Text>
@@ -376,6 +556,14 @@ export default function EditTransaction() {
         />
       </View>
 
+      {/* Tags */}
+      <View style={{ marginBottom: spacing.s24 }}>
+        <Text style={{ color: textMuted, fontSize: 13, fontWeight: '600', marginBottom: spacing.s8 }}>
+          TAGS (OPTIONAL)
+        </Text>
+        <TagEditor tags={tags} onChange={setTags} />
+      </View>
+
       {/* Action Buttons */}
       <View style={{ flexDirection: 'row', gap: spacing.s12, marginBottom: spacing.s16 }}>
         <AnimatedButton onPress={save} variant="primary">
@@ -0,0 +1,340 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { View, Text, Pressable, Alert, Switch, ScrollView } from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system/legacy';
+import * as Haptics from 'expo-haptics';
+import { ScreenScroll } from '../components/ScreenScroll';
+import Button from '../components/Button';
+import Input from '../components/Input';
+import Icon from '../components/Icon';
+import { useThemeTokens } from '../theme/ThemeProvider';
+import { spacing, radius } from '../theme/tokens';
+import { useAccountsStore } from '../store/accounts';
+import { useTxStore } from '../store/transactions';
+import { useImportMappingsStore } from '../store/importMappings';
+import { autoMatchTx } from '../lib/billMatcher';
+import { formatCurrency } from '../lib/format';
+import {
+  CsvMapping,
+  DateFormat,
+  ImportedRow,
+  StatementFormat,
+  csvToRows,
+  detectFormat,
+  findDuplicates,
+  guessCsvMapping,
+  parseCsv,
+  parseOfx,
+  parseQif,
+  rowToTransaction,
+} from '../lib/statementImport';
+
+type MappingField = 'date' | 'description' | 'amount' | 'debit' | 'credit';
+
+const MAPPING_FIELDS: Array<{ key: MappingField; label: string; optional?: boolean }> = [
+  { key: 'date', label: 'Date' },
+  { key: 'description', label: 'Description' },
+  { key: 'amount', label: 'Amount', optional: true },
+  { key: 'debit', label: 'Money out', optional: true },
+  { key: 'credit', label: 'Money in', optional: true },
+];
+
+const DATE_FORMATS: DateFormat[] = ['auto', 'DMY', 'MDY', 'YMD'];
+
+export default function ImportStatement() {
+  const nav = useNavigation<any>();
+  const { get } = useThemeTokens();
+  const { accounts, hydrate: hydrateAccounts } = useAccountsStore();
+  const { transactions, importMany } = useTxStore();
+  const { hydrate: hydrateMappings, getMapping, saveMapping } = useImportMappingsStore();
+
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [format, setFormat] = useState<StatementFormat | null>(null);
+  const [rawText, setRawText] = useState('');
+  const [table, setTable] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<CsvMapping | null>(null);
+  const [institution, setInstitution] = useState('');
+  const [accountId, setAccountId] = useState<string | null>(null);
+  const [adjustBalances, setAdjustBalances] = useState(true);
+  const [excluded, setExcluded] = useState<Record<string, boolean>>({});
+  const [importing, setImporting] = useState(false);
+
+  useEffect(() => {
+    hydrateAccounts();
+    hydrateMappings();
+  }, []);
+
+  const account = accounts.find(a => a.id === accountId) || null;
+
+  // Default the institution to the chosen account's bank so its saved mapping is picked up
+  useEffect(() => {
+    if (account?.institution && !institution) setInstitution(account.institution);
+  }, [account?.id]);
+
+  useEffect(() => {
+    if (format !== 'csv' || !institution || table.length === 0) return;
+    const saved = getMapping(institution);
+    if (saved && Math.max(saved.date, saved.description, saved.amount, saved.debit, saved.credit) < table[0].length) {
+      setMapping(saved);
+    }
+  }, [institution, format, table]);
+
+  const rows: ImportedRow[] = useMemo(() => {
+    if (!format) return [];
+    if (format === 'ofx') return parseOfx(rawText);
+    if (format === 'qif') return parseQif(rawText, mapping?.dateFormat === 'auto' ? 'MDY' : mapping?.dateFormat);
+    return mapping ? csvToRows(table, mapping) : [];
+  }, [format, rawText, table, mapping]);
+
+  const duplicates = useMemo(
+    () => findDuplicates(rows, transactions || [], account?.name),
+    [rows, transactions, account?.name]
+  );
+
+  // Likely duplicates start unticked; everything else starts ticked
+  const isIncluded = (row: ImportedRow) => (row.key in excluded ? !excluded[row.key] : !duplicates[row.key]);
+  const selected = rows.filter(isIncluded);
+  const selectedNet = selected.reduce((s, r) => s + r.amount, 0);
+
+  const pickFile = async () => {
+    try {
+      const res = await DocumentPicker.getDocumentAsync({ type: '*/*', copyToCacheDirectory: true });
+      if (res.canceled || !res.assets?.length) return;
+      const asset = res.assets[0];
+      const text = await FileSystem.readAsStringAsync(asset.uri, { encoding: FileSystem.EncodingType.UTF8 });
+      const fmt = detectFormat(asset.name, text);
+      setFileName(asset.name);
+      setRawText(text);
+      setFormat(fmt);
+      setExcluded({});
+      if (fmt === 'csv') {
+        const parsed = parseCsv(text);
+        setTable(parsed);
+        setMapping(parsed.length ? guessCsvMapping(parsed[0]) : null);
+      } else {
+        setTable([]);
+        setMapping(fmt === 'qif' ? { ...guessCsvMapping([]), dateFormat: 'MDY' } : null);
+      }
+    } catch (e) {
+      Alert.alert('Could not read file', e instanceof Error ? e.message : 'Unknown error');
+    }
+  };
+
+  const setColumn = (field: MappingField, index: number) => {
+    if (!mapping) return;
+    const next = { ...mapping, [field]: mapping[field] === index ? -1 : index };
+    // A single amount column and separate in/out columns are mutually exclusive
+    if (field === 'amount' && next.amount >= 0) { next.debit = -1; next.credit = -1; }
+    if ((field === 'debit' || field === 'credit') && next[field] >= 0) next.amount = -1;
+    setMapping(next);
+  };
+
+  const commit = async () => {
+    if (!account) {
+      Alert.alert('Choose an account', 'Pick the account this statement belongs to.');
+      return;
+    }
+    if (selected.length === 0) return;
+    setImporting(true);
+    try {
+      const created = await importMany(selected.map(r => rowToTransaction(r, account.name)), { adjustBalances });
+      if (format === 'csv' && mapping && institution.trim()) await saveMapping(institution, mapping);
+
+      // Let recurring bills advance when an imported payment matches them
+      let matched = 0;
+      for (const tx of created) {
+        if (tx.type !== 'expense') continue;
+        const res = await autoMatchTx({ amount: tx.amount, category: tx.category, note: tx.note, dateISO: tx.date });
+        if (res.matched) matched++;
+      }
+
+      await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      Alert.alert(
+        'Import complete',
+        `Added ${created.length} transaction${created.length === 1 ? '' : 's'} to ${account.name}.` +
+          (matched ? ` ${matched} matched a recurring bill.` : ''),
+        [{ text: 'OK', onPress: () => nav.goBack() }]
+      );
+    } catch (e) {
+      Alert.alert('Import failed', e instanceof Error ? e.message : 'Unknown error');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const textPrimary = get('text.primary') as string;
+  const textMuted = get('text.muted') as string;
+  const surface1 = get('surface.level1') as string;
+  const surface2 = get('surface.level2') as string;
+  const borderSubtle = get('border.subtle') as string;
+  const accentPrimary = get('accent.primary') as string;
+  const onPrimary = get('text.onPrimary') as string;
+  const successColor = get('semantic.success') as string;
+  const warningColor = get('semantic.warning') as string;
+
+  const chip = (label: string, active: boolean, onPress: () => void, key?: string) => (
+    <Pressable
+      key={key ?? label}
+      onPress={onPress}
+      style={{
+        paddingVertical: spacing.s6,
+        paddingHorizontal: spacing.s12,
+        borderRadius: radius.pill,
+        backgroundColor: active ? accentPrimary : surface2,
+      }}
+    >
+      <Text numberOfLines={1} style={{ color: active ? onPrimary : textPrimary, fontSize: 13, fontWeight: '600', maxWidth: 160 }}>
+        {label}
+      </Text>
+    </Pressable>
+  );
+
+  const sectionLabel = (label: string) => (
+    <Text style={{ color: textMuted, fontSize: 13, fontWeight: '600', marginBottom: spacing.s8 }}>{label}</Text>
+  );
+
+  const header = table[0] || [];
+
+  return (
+    <ScreenScroll contentStyle={{ padding: spacing.s16, paddingBottom: spacing.s32, gap: spacing.s20 }}>
+      <View>
+        <Text style={{ color: textPrimary, fontSize: 24, fontWeight: '800', marginBottom: spacing.s8 }}>
+          Import statement
+        </Text>
+        <Text style={{ color: textMuted, fontSize: 14 }}>
+          Bring in history from a bank export (CSV, OFX/QFX or QIF). Nothing is saved until you confirm.
+        </Text>
+      </View>
+
+      <Button
+        title={fileName ? `Change file (${fileName})` : 'Choose file'}
+        icon="upload"
+        variant={fileName ? 'secondary' : 'primary'}
+        onPress={pickFile}
+      />
+
+      {format && (
+        <>
+          <View>
+            {sectionLabel('ACCOUNT')}
+            <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: spacing.s8 }}>
+              {accounts.map(a => chip(a.name, a.id === accountId, () => setAccountId(a.id), a.id))}
+            </View>
+            {accounts.length === 0 && (
+              <Text style={{ color: textMuted, fontSize: 13 }}>Add an account first to import into it.</Text>
+            )}
+          </View>
+
+          {format === 'csv' && mapping && (
+            <View style={{ gap: spacing.s12 }}>
+              <View>
+                {sectionLabel('INSTITUTION')}
+                <Input
+                  value={institution}
+                  onChangeText={setInstitution}
+                  placeholder="e.g., DBS — column mapping is remembered per bank"
+                  style={{ margin: 0 }}
+                />
+              </View>
+
+              <View style={{ flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between' }}>
+                <Text style={{ color: textPrimary, fontSize: 14 }}>First row is a header</Text>
+                <Switch value={mapping.hasHeader} onValueChange={v => setMapping({ ...mapping, hasHeader: v })} />
+              </View>
+
+              {MAPPING_FIELDS.map(f => (
+                <View key={f.key}>
+                  {sectionLabel(`${f.label.toUpperCase()}${f.optional ? ' (OPTIONAL)' : ''}`)}
+                  <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={{ gap: spacing.s8 }}>
+                    {header.map((h, i) =>
+                      chip(mapping.hasHeader ? h || `Column ${i + 1}` : `Column ${i + 1}`, mapping[f.key] === i, () => setColumn(f.key, i), `${f.key}-${i}`)
+                    )}
+                  </ScrollView>
+                </View>
+              ))}
+
+              <View>
+                {sectionLabel('DATE FORMAT')}
+                <View style={{ flexDirection: 'row', gap: spacing.s8 }}>
+                  {DATE_FORMATS.map(df => chip(df === 'auto' ? 'Auto' : df, mapping.dateFormat === df, () => setMapping({ ...mapping, dateFormat: df })))}
+                </View>
+              </View>
+
+              <View style={{ flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between' }}>
+                <Text style={{ color: textPrimary, fontSize: 14, flex: 1 }}>Spending is listed as positive</Text>
+                <Switch value={!!mapping.invertAmounts} onValueChange={v => setMapping({ ...mapping, invertAmounts: v })} />
+              </View>
+            </View>
+          )}
+
+          <View style={{ flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between' }}>
+            <View style={{ flex: 1, paddingRight: spacing.s12 }}>
+              <Text style={{ color: textPrimary, fontSize: 14 }}>Update account balance</Text>
+              <Text style={{ color: textMuted, fontSize: 12 }}>Turn off if the balance already includes these</Text>
+            </View>
+            <Switch value={adjustBalances} onValueChange={setAdjustBalances} />
+          </View>
+
+          <View>
+            {sectionLabel(`PREVIEW · ${selected.length} OF ${rows.length} SELECTED`)}
+            {rows.length === 0 ? (
+              <Text style={{ color: textMuted, fontSize: 13 }}>
+                No rows found. Check the column mapping and date format.
+              </Text>
+            ) : (
+              <View style={{ backgroundColor: surface1, borderRadius: radius.lg, borderWidth: 1, borderColor: borderSubtle, overflow: 'hidden' }}>
+                {rows.map((row, index) => {
+                  const included = isIncluded(row);
+                  const dup = duplicates[row.key];
+                  return (
+                    <Pressable
+                      key={row.key}
+                      onPress={() => setExcluded(prev => ({ ...prev, [row.key]: included }))}
+                      accessibilityRole="checkbox"
+                      accessibilityState={{ checked: included }}
+                      style={{
+                        flexDirection: 'row',
+                        alignItems: 'center',
+                        gap: spacing.s12,
+                        padding: spacing.s12,
+                        borderTopWidth: index === 0 ? 0 : 1,
+                        borderTopColor: borderSubtle,
+                      }}
+                    >
+                      <Icon name={included ? 'check-circle' : 'x'} size={18} color={included ? accentPrimary : textMuted} />
+                      <View style={{ flex: 1, minWidth: 0 }}>
+                        <Text numberOfLines={1} style={{ color: included ? textPrimary : textMuted, fontWeight: '600', fontSize: 14 }}>
+                          {row.description || 'No description'}
+                        </Text>
+                        <Text style={{ color: textMuted, fontSize: 12 }}>
+                          {new Date(row.date).toLocaleDateString(undefined, { day: 'numeric', month: 'short', year: 'numeric' })}
+                          {dup ? ' · Looks like a duplicate' : ''}
+                        </Text>
+                      </View>
+                      {dup && <Icon name="alert-triangle" size={14} color={warningColor} />}
+                      <Text style={{ color: row.amount < 0 ? textPrimary : successColor, fontWeight: '700', fontSize: 14 }}>
+                        {row.amount < 0 ? '-' : '+'}{formatCurrency(Math.abs(row.amount))}
+                      </Text>
+                    </Pressable>
+                  );
+                })}
+              </View>
+            )}
+          </View>
+
+          <Button
+            title={
+              importing
+                ? 'Importing…'
+                : `Import ${selected.length} transaction${selected.length === 1 ? '' : 's'} (${selectedNet < 0 ? '-' : '+'}${formatCurrency(Math.abs(selectedNet))})`
+            }
+            onPress={commit}
+            disabled={importing || selected.length === 0 || !account}
+            loading={importing}
+          />
+        </>
+      )}
+    </ScreenScroll>
+  );
+}
@@ -5,7 +5,9 @@ import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { ScreenScroll } from '../components/ScreenScroll';
 import { useThemeTokens } from '../theme/ThemeProvider';
 import { spacing, radius } from '../theme/tokens';
-import { useTxStore } from '../store/transactions';
+import { useTxStore, type TxQuery } from '../store/transactions';
+import { groupByTag } from '../store/txHelpers';
+import { useTxConverter } from '../store/fxHistory';
 import { useBudgetsStore } from '../store/budgets';
 import Icon from '../components/Icon';
 import AnimatedReanimated, { useAnimatedStyle, useSharedValue, useAnimatedScrollHandler, interpolate, Extrapolate } from 'react-native-reanimated';
@@ -14,7 +16,18 @@ import { LinearGradient } from 'expo-linear-gradient';
 type Tx = ReturnType<typeof useTxStore.getState>['transactions'][number];
 
 function daysInMonth(y: number, m: number) { return new Date(y, m + 1, 0).getDate(); }
-function sameMonth(d: Date, y: number, m: number) { return d.getFullYear() === y && d.getMonth() === m; }
+
+const sumTotals = (rows: Array<{ total: number }>) => rows.reduce((s, r) => s + r.total, 0);
+
+// Every transaction matching `q`, a page at a time
+async function allMatching(query: ReturnType<typeof useTxStore.getState>['query'], q: TxQuery): Promise<Tx[]> {
+  const out: Tx[] = [];
+  for (;;) {
+    const page = await query(q, { offset: out.length, limit: 500 });
+    out.push(...page.items);
+    if (!page.hasMore || page.items.length === 0) return out;
+  }
+}
 
 function withAlpha(hex: string, alpha: number) {
   if (!hex) return hex;
@@ -80,7 +93,7 @@ export const Insights: React.FC = () => {
   const nav = useNavigation<any>();
   const insets = useSafeAreaInsets();
   const { get, isDark } = useThemeTokens();
-  const { transactions, hydrate } = useTxStore();
+  const { transactions, query, categoryTotals } = useTxStore();
   const { monthlyBudget } = useBudgetsStore();
   const [offset, setOffset] = useState(0); // 0 = current month
   const [monthPickerOpen, setMonthPickerOpen] = useState(false);
@@ -150,8 +163,6 @@ export const Insights: React.FC = () => {
     },
   });
 
-  useEffect(() => { hydrate(); }, []);
-
   const now = new Date();
   const ref = new Date(now.getFullYear(), now.getMonth() + offset, 1);
   const Y = ref.getFullYear();
@@ -160,29 +171,52 @@ export const Insights: React.FC = () => {
   const pY = prevRef.getFullYear();
   const pM = prevRef.getMonth();
 
-  const monthTx = useMemo(() => transactions.filter(t => sameMonth(new Date(t.date), Y, M)), [transactions, Y, M]);
-  const prevTx = useMemo(() => transactions.filter(t => sameMonth(new Date(t.date), pY, pM)), [transactions, pY, pM]);
+  const [monthTx, setMonthTx] = useState<Tx[]>([]);
+  const [totals, setTotals] = useState({ spend: 0, income: 0, net: 0 });
+  const [spendByCategory, setSpendByCategory] = useState<Array<{ category: string; total: number }>>([]);
+  const [prevSpend, setPrevSpend] = useState(0);
+  const toBase = useTxConverter(monthTx);
 
-  const totals = useMemo(() => {
-    let spend = 0, income = 0;
-    for (const t of monthTx) {
-      if (t.type === 'expense') spend += Math.abs(Number(t.amount)||0);
-      else income += Math.abs(Number(t.amount)||0);
-    }
-    return { spend, income, net: income - spend };
-  }, [monthTx]);
-
-  const byCategory = useMemo(() => {
-    const map: Record<string, number> = {};
-    for (const t of monthTx) {
-      if (t.type !== 'expense') continue;
-      const key = t.category || 'General';
-      map[key] = (map[key] || 0) + Math.abs(Number(t.amount)||0);
-    }
-    const arr = Object.entries(map).map(([k,v]) => ({ name: k, value: v, pct: totals.spend > 0 ? (v/totals.spend)*100 : 0 }));
+  // Only this month and last month's totals are read; `transactions` changing means the store was written
+  useEffect(() => {
+    let cancelled = false;
+    const month: TxQuery = { from: new Date(Y, M, 1).toISOString(), to: new Date(Y, M + 1, 1, 0, 0, 0, -1).toISOString() };
+    const prevMonth: TxQuery = { from: new Date(pY, pM, 1).toISOString(), to: new Date(Y, M, 1, 0, 0, 0, -1).toISOString() };
+    (async () => {
+      try {
+        const [list, spending, earning, prevSpending] = await Promise.all([
+          allMatching(query, month),
+          categoryTotals({ ...month, type: 'expense' }),
+          categoryTotals({ ...month, type: 'income' }),
+          categoryTotals({ ...prevMonth, type: 'expense' }),
+        ]);
+        if (cancelled) return;
+        const spend = sumTotals(spending);
+        const income = sumTotals(earning);
+        setMonthTx(list);
+        setSpendByCategory(spending);
+        setTotals({ spend, income, net: income - spend });
+        setPrevSpend(sumTotals(prevSpending));
+      } catch (e) {
+        console.error('[insights] Failed to load the month:', e);
+      }
+    })();
+    return () => { cancelled = true; };
+  }, [transactions, Y, M, pY, pM, query, categoryTotals]);
+
+  const byCategory = useMemo(() => spendByCategory.map(c => ({
+    name: c.category,
+    value: c.total,
+    pct: totals.spend > 0 ? (c.total / totals.spend) * 100 : 0,
+  })), [spendByCategory, totals.spend]);
+
+  const byTag = useMemo(() => {
+    const arr = Object.entries(groupByTag(monthTx.map(t => ({ ...t, amount: toBase(t) }))))
+      .filter(([, v]) => v.expense > 0)
+      .map(([k, v]) => ({ name: k, value: v.expense, count: v.count, pct: totals.spend > 0 ? (v.expense/totals.spend)*100 : 0 }));
     arr.sort((a,b)=>b.value-a.value);
     return arr;
-  }, [monthTx, totals.spend]);
+  }, [monthTx, toBase, totals.spend]);
 
   const days = daysInMonth(Y, M);
   const byDay = useMemo(() => {
@@ -190,10 +224,10 @@ export const Insights: React.FC = () => {
     for (const t of monthTx) {
       if (t.type !== 'expense') continue;
       const d = new Date(t.date).getDate();
-      arr[d-1] += Math.abs(Number(t.amount)||0);
+      arr[d-1] += toBase(t);
     }
     return arr;
-  }, [monthTx, days]);
+  }, [monthTx, toBase, days]);
 
   const byWeekday = useMemo(() => {
     const weekdayTotals = [0, 0, 0, 0, 0, 0, 0]; // Sun-Sat
@@ -201,7 +235,7 @@ export const Insights: React.FC = () => {
     for (const t of monthTx) {
       if (t.type !== 'expense') continue;
       const day = new Date(t.date).getDay();
-      weekdayTotals[day] += Math.abs(Number(t.amount)||0);
+      weekdayTotals[day] += toBase(t);
       weekdayCounts[day]++;
     }
     const weekdayNames = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
@@ -211,26 +245,20 @@ export const Insights: React.FC = () => {
       count: weekdayCounts[idx],
       avg: weekdayCounts[idx] > 0 ? weekdayTotals[idx] / weekdayCounts[idx] : 0
     }));
-  }, [monthTx]);
+  }, [monthTx, toBase]);
 
   const topTransactions = useMemo(() => {
     return monthTx
       .filter(t => t.type === 'expense')
-      .map(t => ({ ...t, amount: Math.abs(Number(t.amount)||0) }))
+      .map(t => ({ ...t, amount: toBase(t) }))
       .sort((a, b) => b.amount - a.amount)
       .slice(0, 5);
-  }, [monthTx]);
+  }, [monthTx, toBase]);
 
   const biggestDayIdx = byDay.reduce((imax, v, i, a) => v > a[imax] ? i : imax, 0);
   const biggestDayAmt = byDay[biggestDayIdx] || 0;
   const avgPerDay = totals.spend / Math.max(1, days);
 
-  const prevSpend = useMemo(()=> {
-    let s=0;
-    for(const t of prevTx) if (t.type==='expense') s += Math.abs(Number(t.amount)||0);
-    return s;
-  }, [prevTx]);
-
   const deltaAbs = totals.spend - prevSpend;
   const deltaPct = prevSpend > 0 ? (deltaAbs / prevSpend) * 100 : 0;
 
@@ -667,6 +695,58 @@ export const Insights: React.FC = () => {
           )}
         </View>
 
+        {/* Section: Spending by Tag */}
+        {byTag.length > 0 && (
+          <View style={{
+            backgroundColor: surface1,
+            borderRadius: radius.xl,
+            padding: spacing.s16,
+            gap: spacing.s14,
+            borderWidth: 1,
+            borderColor: borderSubtle
+          }}>
+            <View style={{ flexDirection: 'row', alignItems: 'center', gap: spacing.s8 }}>
+              <View style={{
+                width: 32,
+                height: 32,
+                borderRadius: 16,
+                backgroundColor: withAlpha(accentSecondary, isDark ? 0.2 : 0.15),
+                alignItems: 'center',
+                justifyContent: 'center'
+              }}>
+                <Icon name="tag" size={16} color={accentSecondary} />
+              </View>
+              <Text style={{ color: textPrimary, fontWeight: '700', fontSize: 16, letterSpacing: -0.3 }}>
+                Spending by Tag
+              </Text>
+            </View>
+            {byTag.slice(0, 8).map((t) => (
+              <View key={t.name} style={{ gap: spacing.s6 }}>
+                <View style={{ flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between' }}>
+                  <Text style={{ color: textPrimary, fontWeight: '600', flex: 1 }} numberOfLines={1}>
+                    #{t.name}
+                  </Text>
+                  <View style={{ alignItems: 'flex-end', marginLeft: spacing.s8 }}>
+                    <Text style={{ color: textPrimary, fontWeight: '700' }}>${t.value.toFixed(2)}</Text>
+                    <Text style={{ color: textMuted, fontSize: 11 }}>{t.count} tx • {t.pct.toFixed(1)}%</Text>
+                  </View>
+                </View>
+                <View style={{ height: 6, borderRadius: radius.sm, backgroundColor: surface2, overflow: 'hidden' }}>
+                  <View style={{
+                    height: 6,
+                    width: `${Math.min(100, t.pct)}%`,
+                    borderRadius: radius.sm,
+                    backgroundColor: accentSecondary
+                  }} />
+                </View>
+              </View>
+            ))}
+            <Text style={{ color: textMuted, fontSize: 11 }}>
+              Transactions with several tags count towards each one.
+            </Text>
+          </View>
+        )}
+
         {/* Section: Weekday Analysis */}
         <View style={{
           backgroundColor: surface1,
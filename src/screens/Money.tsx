@@ -25,10 +25,15 @@ import { usePlansStore } from '../store/plans';
 import { useDebtsStore } from '../store/debts';
 import { useTxStore } from '../store/transactions';
 import { useIncomeSplittingStore } from '../store/incomeSplitting';
+import { useZeroBasedStore, summarizeZeroBased } from '../store/zeroBased';
 import { calculateHistoricalNetWorth, aggregateNetWorthData } from '../lib/netWorthHistory';
 import { convertCurrency } from '../lib/fx';
+import { adjustedLots } from '../lib/corporateActions';
 import { useProfileStore } from '../store/profile';
+import { useFxHistoryStore, useTxConverter, makeBalanceConverter } from '../store/fxHistory';
 import { WealthJourneySheet } from '../components/WealthJourneySheet';
+import { usePortfolioValueHistory } from '../hooks/usePortfolioHistory';
+import { dayStart } from '../lib/portfolioHistory';
 
 function withAlpha(color: string, alpha: number) {
   if (!color) return color;
@@ -322,6 +327,7 @@ const Money: React.FC = () => {
   const { transactions, hydrate: hydrateTx } = useTxStore();
   const { items: debts, hydrate: hydrateDebts } = useDebtsStore();
   const { config: paycheckConfig, splitHistory, hydrate: hydratePaycheck } = useIncomeSplittingStore();
+  const zeroBased = useZeroBasedStore();
   const { profile } = useProfileStore();
   const sheetTimers = useRef<Array<ReturnType<typeof setTimeout>>>([]);
   const sheetRafs = useRef<number[]>([]);
@@ -334,6 +340,7 @@ const Money: React.FC = () => {
     hydratePlan();
     hydrateDebts();
     hydratePaycheck();
+    zeroBased.hydrate();
   }, [hydrateAcc, hydrateInvest, hydrateRecur, hydrateTx, hydratePlan, hydrateDebts, hydratePaycheck]);
 
   useEffect(() => () => {
@@ -459,19 +466,28 @@ const Money: React.FC = () => {
     };
   });
 
+  const toBase = useTxConverter(transactions);
+  const fxHistory = useFxHistoryStore(s => s.history);
+  const balanceToBase = useMemo(() => makeBalanceConverter(profile.currency || 'USD', fxHistory), [profile.currency, fxHistory]);
+
   const avgDaily = useMemo(() => {
     if (!transactions || transactions.length === 0) return 0;
     const now = new Date();
     const cutoff = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
     const spent = transactions
       .filter(t => t.type === 'expense' && new Date(t.date) >= cutoff)
-      .reduce((s, t) => s + Math.abs(t.amount || 0), 0);
+      .reduce((s, t) => s + toBase(t), 0);
     return spent / 30;
-  }, [transactions]);
+  }, [transactions, toBase]);
+
+  const toBeAssigned = useMemo(
+    () => zeroBased.enabled ? summarizeZeroBased(transactions, zeroBased, toBase).toBeAssigned : 0,
+    [zeroBased.enabled, zeroBased.startedAt, zeroBased.excludedCategories, zeroBased.moves, transactions, toBase]
+  );
 
-  const totalCash = cashAccounts.reduce((s, a) => s + (a.balance || 0), 0);
+  const totalCash = cashAccounts.reduce((s, a) => s + balanceToBase(a), 0);
   const runwayDays = avgDaily > 0 ? Math.floor(totalCash / avgDaily) : 0;
-  const totalCreditCardDebt = creditCards.reduce((s, a) => s + Math.abs(a.balance || 0), 0);
+  const totalCreditCardDebt = creditCards.reduce((s, a) => s + Math.abs(balanceToBase(a)), 0);
 
   const portfolioCalc = useMemo(() => {
     const { fxRates, portfolios } = useInvestStore.getState();
@@ -486,9 +502,10 @@ const Money: React.FC = () => {
       Object.values(p.holdings || {}).forEach((h: any) => {
         const sym = h.symbol;
         if (!aggregatedHoldings[sym]) {
-          aggregatedHoldings[sym] = { ...h, lots: [] };
+          // Lots are pooled already adjusted for corporate actions, so the pool carries none
+          aggregatedHoldings[sym] = { ...h, lots: [], actions: undefined };
         }
-        aggregatedHoldings[sym].lots = aggregatedHoldings[sym].lots.concat(h.lots || []);
+        aggregatedHoldings[sym].lots = aggregatedHoldings[sym].lots.concat(adjustedLots(h));
       });
     });
 
@@ -500,7 +517,7 @@ const Money: React.FC = () => {
       const h = aggregatedHoldings[sym];
       const q = quotes[sym]?.last || 0;
       const ch = quotes[sym]?.change || 0;
-      const qty = (h?.lots || []).reduce(
+      const qty = adjustedLots(h).reduce(
         (acc, l) => acc + (l.side === 'buy' ? l.qty : -l.qty),
         0
       );
@@ -603,15 +620,29 @@ const Money: React.FC = () => {
 
   const netWorth = totalCash + portfolioCalc.totalUSD - totalDebt;
 
+  // Daily value of the tracked portfolios, replayed from their lots and cash
+  const allPortfolios = useInvestStore(s => s.portfolios);
+  const trackedPortfolios = useMemo(
+    () => Object.values(allPortfolios || {}).filter(p => p && p.holdings && p.trackingEnabled !== false),
+    [allPortfolios]
+  );
+  const historyStart = useMemo(() => dayStart(Date.now() - 180 * 24 * 60 * 60 * 1000), []);
+  const { series: portfolioHistory } = usePortfolioValueHistory(trackedPortfolios, {
+    currency: profile.currency || 'USD',
+    start: historyStart,
+  });
+
   // Calculate real historical net worth data from transactions
   const netWorthHistoryData = useMemo(() => {
     return calculateHistoricalNetWorth(
       accountsList,
       transactions || [],
       portfolioCalc.totalUSD, // This already respects the retirement toggle
-      180 // Last 180 days
+      180, // Last 180 days
+      { baseCurrency: profile.currency || 'USD', history: fxHistory },
+      portfolioHistory
     );
-  }, [accountsList, transactions, portfolioCalc.totalUSD]);
+  }, [accountsList, transactions, portfolioCalc.totalUSD, profile.currency, fxHistory, portfolioHistory]);
 
   const [netWorthTimeframe, setNetWorthTimeframe] = useState<'1W'|'1M'|'3M'|'6M'|'YTD'|'1Y'|'ALL'>('6M');
   const [selectedBarIndex, setSelectedBarIndex] = useState<number | null>(null);
@@ -1076,6 +1107,23 @@ const Money: React.FC = () => {
                 : undefined
             }
           />
+          {zeroBased.enabled && (
+            <MetricCard
+              title={toBeAssigned < 0 ? 'Over-assigned' : 'To assign'}
+              value={formatCurrency(Math.abs(toBeAssigned))}
+              subtitle={Math.abs(toBeAssigned) < 0.005 ? 'Every dollar has a job' : 'Give it a job'}
+              icon="wallet"
+              bgColor={withAlpha(toBeAssigned < 0 ? warningColor : successColor, isDark ? 0.2 : 0.14)}
+              onPress={() => nav.navigate('AssignMoney')}
+              badge={
+                toBeAssigned > 0.005
+                  ? { text: 'Unassigned', variant: 'warning' }
+                  : toBeAssigned < -0.005
+                  ? { text: 'Fix', variant: 'warning' }
+                  : { text: 'Done', variant: 'success' }
+              }
+            />
+          )}
         </View>
       </View>
 
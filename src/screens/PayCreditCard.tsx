@@ -6,7 +6,6 @@ import { useThemeTokens } from '../theme/ThemeProvider';
 import { spacing, radius } from '../theme/tokens';
 import { useRoute, useNavigation } from '@react-navigation/native';
 import { useAccountsStore, type BankAccount } from '../store/accounts';
-import { useTxStore } from '../store/transactions';
 import { formatCurrency } from '../lib/format';
 import Icon from '../components/Icon';
 import * as Haptics from 'expo-haptics';
@@ -18,7 +17,6 @@ export default function PayCreditCard() {
   const { creditCardId } = (route?.params ?? {}) as { creditCardId: string };
 
   const { accounts, payCredit } = useAccountsStore();
-  const { add: addTx } = useTxStore();
 
   const creditCard = useMemo(
     () => accounts.find(a => a.id === creditCardId && a.kind === 'credit'),
@@ -97,27 +95,7 @@ export default function PayCreditCard() {
     if (!selectedAccount) return;
 
     try {
-      // Create transaction for the credit card payment
-      await addTx({
-        type: 'expense',
-        amount: paymentAmount,
-        category: 'Credit Card Payment',
-        account: creditCard.name,
-        date: new Date().toISOString(),
-        note: `Payment from ${selectedAccount.name}`,
-      });
-
-      // Create transaction for the payment source
-      await addTx({
-        type: 'expense',
-        amount: paymentAmount,
-        category: 'Credit Card Payment',
-        account: selectedAccount.name,
-        date: new Date().toISOString(),
-        note: `Payment to ${creditCard.name}`,
-      });
-
-      // Update both account balances
+      // Records a transfer and moves both balances
       await payCredit(creditCard.name, selectedAccount.name, paymentAmount);
 
       await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
@@ -1,5 +1,5 @@
 import React, { useEffect, useMemo, useState } from 'react';
-import { View, Text, Pressable, ScrollView, Dimensions, Platform, TextInput } from 'react-native';
+import { View, Text, Pressable, ScrollView, Dimensions, Platform, TextInput, Alert } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
 import Animated, {
   useAnimatedStyle,
@@ -22,6 +22,7 @@ import Button from '../components/Button';
 import { useIncomeSplittingStore } from '../store/incomeSplitting';
 import { useTxStore } from '../store/transactions';
 import { useAccountsStore } from '../store/accounts';
+import { useZeroBasedStore } from '../store/zeroBased';
 import { formatCurrency } from '../lib/format';
 
 function withAlpha(color: string, alpha: number) {
@@ -853,8 +854,20 @@ const PaycheckBreakdown: React.FC = () => {
               onPress={async () => {
                 const gross = parseFloat(calculatorAmount || '0');
                 if (gross > 0) {
-                  await processIncomeSplit(gross, new Date(), 'Salary', 'Manual paycheck entry');
+                  const split = await processIncomeSplit(gross, new Date(), 'Salary', 'Manual paycheck entry');
                   setCalculatorAmount('');
+                  const zeroBased = useZeroBasedStore.getState();
+                  if (!zeroBased.ready) await zeroBased.hydrate();
+                  if (split && useZeroBasedStore.getState().enabled) {
+                    Alert.alert(
+                      'Paycheck recorded',
+                      `${formatCurrency(split.netAmount)} take-home pay is ready to assign.`,
+                      [
+                        { text: 'Later', style: 'cancel' },
+                        { text: 'Assign now', onPress: () => nav.navigate('AssignMoney') },
+                      ]
+                    );
+                  }
                 }
               }}
               style={{ marginTop: spacing.s12 }}
@@ -1054,6 +1067,12 @@ const PaycheckBreakdown: React.FC = () => {
               </View>
             </LinearGradient>
           </Card>
+          <Button
+            title="Give this paycheck a job"
+            variant="secondary"
+            onPress={() => nav.navigate('AssignMoney')}
+            style={{ marginTop: spacing.s12 }}
+          />
         </View>
       )}
 
@@ -8,6 +8,7 @@ import { useTxStore } from '../store/transactions';
 import { useNavigation } from '@react-navigation/native';
 import Icon from '../components/Icon';
 import { formatCurrency } from '../lib/format';
+import { adjustedLots } from '../lib/corporateActions';
 import { useAccountsStore } from '../store/accounts';
 import { useRecurringStore, computeNextDue, type Recurring } from '../store/recurring';
 import { useDebtsStore } from '../store/debts';
@@ -122,7 +123,7 @@ const Profile: React.FC = () => {
     symbols.forEach(sym => {
       const price = quotes[sym]?.last || 0;
       const change = quotes[sym]?.change || 0;
-      const qty = (holdings[sym]?.lots || []).reduce((acc, lot) => acc + (lot.side === 'buy' ? lot.qty : -lot.qty), 0);
+      const qty = adjustedLots(holdings[sym]).reduce((acc, lot) => acc + (lot.side === 'buy' ? lot.qty : -lot.qty), 0);
       totalUSD += price * qty;
       changeUSD += change * qty;
     });
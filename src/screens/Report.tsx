@@ -7,9 +7,17 @@ import { useThemeTokens } from '../theme/ThemeProvider';
 import { spacing, radius } from '../theme/tokens';
 import { useTxStore } from '../store/transactions';
 import { useAccountsStore } from '../store/accounts';
+import { useProfileStore } from '../store/profile';
+import { useFxHistoryStore, useTxConverter, makeBalanceConverter } from '../store/fxHistory';
 import { useDebtsStore } from '../store/debts';
+import { useBudgetsStore } from '../store/budgets';
+import { useEnvelopesStore } from '../store/envelopes';
 import { useInvestStore } from '../features/invest';
 import Icon from '../components/Icon';
+import { exportPdf, pdfFileName } from '../lib/pdf';
+import { buildFinancialReport, periodLabel, type ReportPeriod } from '../lib/reportPdf';
+import { usePortfolioValueHistory } from '../hooks/usePortfolioHistory';
+import { valueAt } from '../lib/portfolioHistory';
 
 function withAlpha(hex: string, alpha: number) {
   if (!hex) return hex;
@@ -36,16 +44,35 @@ export const Report: React.FC = () => {
   const { transactions } = useTxStore();
   const { accounts } = useAccountsStore();
   const { debts } = useDebtsStore();
-  const investStore = useInvestStore();
-  const holdings = investStore.holdings ? Object.values(investStore.holdings) : [];
-  const quotes = investStore.quotes || {};
+  const allPortfolios = useInvestStore(s => s.portfolios);
+
+  // Amounts are summed in the profile currency, converted at each transaction's date
+  const toBase = useTxConverter(transactions);
+  const fxHistory = useFxHistoryStore(s => s.history);
+  const baseCurrency = useProfileStore(s => s.profile?.currency) || 'USD';
+  const balanceToBase = useMemo(() => makeBalanceConverter(baseCurrency, fxHistory), [baseCurrency, fxHistory]);
 
   const [includeCPF, setIncludeCPF] = useState(true);
+  const [exporting, setExporting] = useState(false);
   const [selectedDataPoint, setSelectedDataPoint] = useState<number | null>(null);
 
   const selectedMonth = route.params?.selectedMonth || new Date();
   const now = new Date();
 
+  // Tracked portfolios valued day by day, back to the earliest month the report can show
+  const trackedPortfolios = useMemo(
+    () => Object.values(allPortfolios || {}).filter(p => p && !p.archived && p.trackingEnabled !== false),
+    [allPortfolios]
+  );
+  const historyStart = Math.min(
+    new Date(selectedMonth.getFullYear(), selectedMonth.getMonth() - 5, 1).getTime(),
+    new Date(selectedMonth.getFullYear(), 0, 1).getTime()
+  );
+  const { series: portfolioHistory, closes: priceHistory } = usePortfolioValueHistory(trackedPortfolios, {
+    currency: baseCurrency,
+    start: historyStart,
+  });
+
   // Generate last 6 months data
   const monthsData = useMemo(() => {
     const months = [];
@@ -58,8 +85,8 @@ export const Report: React.FC = () => {
 
       let income = 0, spending = 0;
       for (const t of monthTx) {
-        if (t.type === 'expense') spending += Math.abs(Number(t.amount) || 0);
-        else income += Math.abs(Number(t.amount) || 0);
+        if (t.type === 'expense') spending += toBase(t);
+        else if (t.type === 'income') income += toBase(t);
       }
 
       // Calculate account balances at that time (simplified - using current for now)
@@ -70,7 +97,7 @@ export const Report: React.FC = () => {
           // Skip accounts not included in net worth
           if (acc.includeInNetWorth === false) continue;
 
-          const balance = Number(acc.balance) || 0;
+          const balance = balanceToBase(acc, Number(acc.balance) || 0);
           const isCPF = acc.name?.toLowerCase().includes('cpf');
           if (isCPF) {
             cpf += balance;
@@ -80,24 +107,9 @@ export const Report: React.FC = () => {
         }
       }
 
-      if (Array.isArray(holdings)) {
-        for (const holding of holdings) {
-          // Skip archived holdings
-          if (holding.archived) continue;
-
-          // Calculate quantity from lots
-          let qty = 0;
-          for (const lot of holding.lots || []) {
-            if (lot.side === 'buy') qty += Number(lot.qty) || 0;
-            else qty -= Number(lot.qty) || 0;
-          }
-          // Get current price from quotes
-          const quote = quotes[holding.symbol];
-          const price = quote?.last || 0;
-          const value = qty * price;
-          stocks += value;
-        }
-      }
+      // What the tracked portfolios were worth at the end of the month
+      const monthEnd = Math.min(new Date(Y, M + 1, 1).getTime() - 1, Date.now());
+      stocks = valueAt(portfolioHistory, monthEnd);
 
       const savings = income - spending;
 
@@ -116,7 +128,7 @@ export const Report: React.FC = () => {
       });
     }
     return months;
-  }, [transactions, accounts, holdings, quotes, selectedMonth]);
+  }, [transactions, accounts, portfolioHistory, selectedMonth, toBase, balanceToBase]);
 
   const currentMonthData = monthsData[monthsData.length - 1];
 
@@ -133,7 +145,7 @@ export const Report: React.FC = () => {
       if (!categoryMap[cat]) {
         categoryMap[cat] = { total: 0, transactions: [] };
       }
-      categoryMap[cat].total += Math.abs(Number(t.amount) || 0);
+      categoryMap[cat].total += toBase(t);
       categoryMap[cat].transactions.push(t);
     }
 
@@ -141,13 +153,13 @@ export const Report: React.FC = () => {
       .map(([name, data]) => ({
         name,
         total: data.total,
-        transactions: data.transactions.sort((a, b) => Math.abs(Number(b.amount) || 0) - Math.abs(Number(a.amount) || 0)).slice(0, 3)
+        transactions: data.transactions.sort((a, b) => toBase(b) - toBase(a)).slice(0, 3)
       }))
       .sort((a, b) => b.total - a.total)
       .slice(0, 5);
 
     return categories;
-  }, [transactions, selectedMonth]);
+  }, [transactions, selectedMonth, toBase]);
 
   // Net worth with/without CPF
   const netWorthData = useMemo(() => {
@@ -158,7 +170,7 @@ export const Report: React.FC = () => {
         // Skip accounts not included in net worth
         if (acc.includeInNetWorth === false) continue;
 
-        const balance = Number(acc.balance) || 0;
+        const balance = balanceToBase(acc, Number(acc.balance) || 0);
         const isCPF = acc.name?.toLowerCase().includes('cpf');
         if (isCPF) {
           cpf += balance;
@@ -168,28 +180,7 @@ export const Report: React.FC = () => {
       }
     }
 
-    if (Array.isArray(holdings)) {
-      for (const holding of holdings) {
-        // Skip archived holdings
-        if (holding.archived) continue;
-
-        // Calculate quantity from lots
-        let qty = 0;
-        for (const lot of holding.lots || []) {
-          if (lot.side === 'buy') qty += Number(lot.qty) || 0;
-          else qty -= Number(lot.qty) || 0;
-        }
-
-        // Get current price from quotes
-        const quote = quotes[holding.symbol];
-        const price = quote?.last || 0;
-        const value = qty * price;
-
-        // Check if it's in a CPF account (holdings don't have account property in this store)
-        // For now, add to stocks
-        stocks += value;
-      }
-    }
+    stocks = valueAt(portfolioHistory, Date.now());
 
     if (Array.isArray(debts)) {
       for (const debt of debts) {
@@ -205,7 +196,7 @@ export const Report: React.FC = () => {
       withCPF: cash + cpf + stocks - debtsTotal,
       withoutCPF: cash + stocks - debtsTotal
     };
-  }, [accounts, holdings, debts, quotes]);
+  }, [accounts, portfolioHistory, debts, balanceToBase]);
 
   // Theme colors
   const textPrimary = get('text.primary') as string;
@@ -223,12 +214,47 @@ export const Report: React.FC = () => {
   const maxSpending = Math.max(...monthsData.map(m => m.spending), 1);
   const maxNetWorth = Math.max(...monthsData.map(m => includeCPF ? m.netWorth : m.netWorthExCPF), 1);
 
+  const exportReport = async (period: ReportPeriod) => {
+    setExporting(true);
+    try {
+      for (const store of [useDebtsStore, useBudgetsStore, useEnvelopesStore]) {
+        if (!store.getState().ready) await store.getState().hydrate();
+      }
+      const invest = useInvestStore.getState();
+      const doc = buildFinancialReport({
+        period,
+        currency: baseCurrency,
+        includeCPF,
+        transactions,
+        toBase,
+        accounts: accounts || [],
+        balanceToBase,
+        fxHistory,
+        debts: useDebtsStore.getState().items,
+        portfolios: invest.portfolioOrder.map(id => invest.portfolios[id]).filter(Boolean),
+        quotes: invest.quotes || {},
+        fxRates: invest.fxRates,
+        priceHistory,
+        monthlyBudget: useBudgetsStore.getState().monthlyBudget,
+        categoryCaps: useEnvelopesStore.getState().overrides,
+      });
+      await exportPdf(doc, pdfFileName('FinGrow', 'report', periodLabel(period)));
+    } catch (e) {
+      Alert.alert('Could not create PDF', e instanceof Error ? e.message : 'Unknown error');
+    } finally {
+      setExporting(false);
+    }
+  };
+
   const handleDownloadPDF = () => {
-    Alert.alert(
-      'Download PDF',
-      'PDF download functionality will be implemented in a future update.',
-      [{ text: 'OK' }]
-    );
+    if (exporting) return;
+    const year = selectedMonth.getFullYear();
+    const month = selectedMonth.getMonth();
+    Alert.alert('Download PDF', 'Which period should the report cover?', [
+      { text: selectedMonth.toLocaleString(undefined, { month: 'long', year: 'numeric' }), onPress: () => exportReport({ kind: 'month', year, month }) },
+      { text: `All of ${year}`, onPress: () => exportReport({ kind: 'year', year, month }) },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
   };
 
   const bgColor = get('background.default') as string;
@@ -277,7 +303,7 @@ export const Report: React.FC = () => {
           >
             <Icon name="download" size={18} color={get('text.onPrimary') as string} />
             <Text style={{ color: get('text.onPrimary') as string, fontWeight: '700', fontSize: 14 }}>
-              PDF
+              {exporting ? 'Creating…' : 'PDF'}
             </Text>
           </Pressable>
         </View>
@@ -765,7 +791,7 @@ export const Report: React.FC = () => {
                         </Text>
                       </View>
                       <Text style={{ color: textPrimary, fontWeight: '700', fontSize: 14 }}>
-                        ${Math.abs(Number(tx.amount) || 0).toFixed(2)}
+                        ${toBase(tx).toFixed(2)}
                       </Text>
                     </View>
                   ))}
@@ -28,6 +28,7 @@ import BottomSheet from '../components/BottomSheet';
 import Icon from '../components/Icon';
 import { currencies, findCurrency } from '../lib/currencies';
 import { getFxLastUpdated } from '../lib/fx-yahoo';
+import { LIVE_PROVIDER_IDS, getProvider, providerStatus, type LiveProviderId } from '../lib/quoteProviders';
 import { seedFiveMonths, clearAllData } from '../lib/demo';
 import { seedInvestSixMonths, clearInvestDemo } from '../lib/demo_invest';
 import { exportPortfolioCsv } from '../lib/export';
@@ -186,6 +187,30 @@ export const Settings: React.FC = () => {
   const { signOut } = useAuthStore();
   const { refreshFx } = useInvestStore();
   const activePortfolioId = useInvestStore(state => state.activePortfolioId);
+  const providerHealth = useInvestStore(state => state.providerHealth);
+
+  // Sources tried after the primary one, in order; every other source until the user changes it
+  const primarySource: LiveProviderId = profile.dataSource || 'yahoo';
+  const fallbackSources = (profile.quoteFallbacks ?? LIVE_PROVIDER_IDS.filter(id => id !== primarySource)).filter(id => id !== primarySource);
+  const setFallback = (id: LiveProviderId, on: boolean) => {
+    update({ quoteFallbacks: on ? [...fallbackSources, id] : fallbackSources.filter(x => x !== id) });
+  };
+  const raiseFallback = (id: LiveProviderId) => {
+    const i = fallbackSources.indexOf(id);
+    if (i <= 0) return;
+    const next = [...fallbackSources];
+    [next[i - 1], next[i]] = [next[i], next[i - 1]];
+    update({ quoteFallbacks: next });
+  };
+  const sourceHealthText = (id: string) => {
+    const h = providerHealth[id];
+    switch (providerStatus(h)) {
+      case 'unused': return 'Not used yet';
+      case 'ok': return 'Working';
+      case 'degraded': return `Failing: ${h!.lastError || 'unknown error'}`;
+      case 'down': return `Paused until ${new Date(h!.cooldownUntil!).toLocaleTimeString()} after repeated failures`;
+    }
+  };
   const { t, i18n } = useTranslation();
   const insets = useSafeAreaInsets();
 
@@ -955,6 +980,13 @@ export const Settings: React.FC = () => {
             }}
             icon="refresh-cw"
           />
+
+          <SettingRow
+            title="Categorisation rules"
+            subtitle="Auto-assign categories, titles and tags"
+            onPress={() => nav.navigate('CategoryRules')}
+            icon="tag"
+          />
         </SettingsSection>
 
         {/* Notifications */}
@@ -1111,6 +1143,47 @@ export const Settings: React.FC = () => {
             })}
           </View>
 
+          {/* Fallback order */}
+          <View
+            style={{
+              paddingVertical: spacing.s12,
+              paddingHorizontal: spacing.s16,
+              backgroundColor: get('surface.level1') as string,
+              borderRadius: radius.lg,
+              borderWidth: 1,
+              borderColor: get('border.subtle') as string,
+              gap: spacing.s8,
+            }}
+          >
+            <Text style={{ color: get('text.primary') as string, fontWeight: '600', fontSize: 15 }}>
+              If {getProvider(primarySource)?.label || primarySource} fails
+            </Text>
+            <Text style={{ color: get('text.muted') as string, fontSize: 13 }}>
+              {getProvider(primarySource)?.label || primarySource}: {sourceHealthText(primarySource)}. These are tried next, in order, then your last saved prices.
+            </Text>
+            {[...fallbackSources, ...LIVE_PROVIDER_IDS.filter(id => id !== primarySource && !fallbackSources.includes(id))].map(id => {
+              const on = fallbackSources.includes(id);
+              return (
+                <View key={id} style={{ flexDirection: 'row', alignItems: 'center', gap: spacing.s8 }}>
+                  <View style={{ flex: 1 }}>
+                    <Text style={{ color: get(on ? 'text.primary' : 'text.muted') as string, fontWeight: '600' }}>
+                      {on ? `${fallbackSources.indexOf(id) + 1}. ` : ''}{getProvider(id)?.label || id}
+                    </Text>
+                    <Text style={{ color: get('text.muted') as string, fontSize: 12 }} numberOfLines={1}>
+                      {id !== 'yahoo' && !(id === 'fmp' ? profile.fmpApiKey : profile.finnhubApiKey) ? 'Needs an API key' : sourceHealthText(id)}
+                    </Text>
+                  </View>
+                  {on && fallbackSources.indexOf(id) > 0 ? (
+                    <Pressable onPress={() => raiseFallback(id)} hitSlop={8} style={{ padding: spacing.s4 }}>
+                      <Icon name="arrow-up" size={18} color={get('text.muted') as string} />
+                    </Pressable>
+                  ) : null}
+                  <Switch value={on} onValueChange={v => setFallback(id, v)} />
+                </View>
+              );
+            })}
+          </View>
+
           {/* FMP API Key Input - only show when FMP is selected */}
           {(profile.dataSource || 'yahoo') === 'fmp' && (
             <View
@@ -1288,6 +1361,13 @@ export const Settings: React.FC = () => {
 
         {/* Account actions */}
         <SettingsSection title="Account" description="Session and data management" icon="user">
+          <SettingRow
+            title="Backup & restore"
+            subtitle="Encrypted file to move your data to another phone"
+            onPress={() => nav.navigate('Backup')}
+            icon="archive"
+          />
+
           <SettingRow
             title="Get support"
             subtitle="Help center and contact"
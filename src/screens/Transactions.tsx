@@ -8,7 +8,8 @@ import Input from '../components/Input';
 import PopoverMenu from '../components/PopoverMenu';
 import { useThemeTokens } from '../theme/ThemeProvider';
 import { spacing, radius } from '../theme/tokens';
-import { useTxStore } from '../store/transactions';
+import { useTxStore, type TxQuery } from '../store/transactions';
+import { allTags } from '../store/txHelpers';
 import { useAccountsStore } from '../store/accounts';
 import { Swipeable } from 'react-native-gesture-handler';
 import { useFocusEffect, useNavigation } from '@react-navigation/native';
@@ -63,6 +64,36 @@ const TYPE_OPTIONS: { label: string; value: 'all' | 'income' | 'expense'; descri
   { label: 'Spending only', value: 'expense', description: 'Show just your outflows' },
 ];
 
+const PAGE_SIZE = 50;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Earliest date `range` covers, as ISO; undefined for all time
+function rangeStart(range: typeof RANGE_SEQUENCE[number]): string | undefined {
+  const now = new Date();
+  if (range === '7D') return new Date(now.getTime() - 7 * DAY_MS).toISOString();
+  if (range === '30D') return new Date(now.getTime() - 30 * DAY_MS).toISOString();
+  if (range === 'MONTH') return new Date(now.getFullYear(), now.getMonth(), 1).toISOString();
+  return undefined;
+}
+
+// The current window for `range` and the one of the same length before it
+function comparisonWindow(range: typeof RANGE_SEQUENCE[number]): { now: number; currentStart: number; previousStart: number } | null {
+  const nowDate = new Date();
+  const now = nowDate.getTime();
+  if (range === '7D') return { now, currentStart: now - 7 * DAY_MS, previousStart: now - 14 * DAY_MS };
+  if (range === '30D') return { now, currentStart: now - 30 * DAY_MS, previousStart: now - 60 * DAY_MS };
+  if (range === 'MONTH') {
+    return {
+      now,
+      currentStart: new Date(nowDate.getFullYear(), nowDate.getMonth(), 1).getTime(),
+      previousStart: new Date(nowDate.getFullYear(), nowDate.getMonth() - 1, 1).getTime(),
+    };
+  }
+  return null;
+}
+
+const sumTotals = (rows: Array<{ total: number }>) => rows.reduce((s, r) => s + r.total, 0);
+
 const RANGE_OPTIONS: { label: string; value: typeof RANGE_SEQUENCE[number] }[] = RANGE_SEQUENCE.map((key) => ({
   label: RANGE_LABELS[key],
   value: key,
@@ -106,6 +137,8 @@ const AnimatedPressable: React.FC<{
 const Row = ({ item, onRemove, onEdit }: { item: Tx; onRemove: () => void; onEdit: () => void }) => {
   const { get } = useThemeTokens();
   const isIncome = item.type === 'income';
+  const isTransfer = item.type === 'transfer';
+  const amountColor = isTransfer ? (get('text.muted') as string) : isIncome ? (get('semantic.success') as string) : (get('semantic.danger') as string);
 
   const renderRightActions = () => (
     <View style={{ flexDirection: 'row' }}>
@@ -181,18 +214,18 @@ const Row = ({ item, onRemove, onEdit }: { item: Tx; onRemove: () => void; onEdi
               fontSize: 13,
               marginTop: 2
             }}>
-              {fmtTime(d)} • {item.category}{item.account ? ` • ${item.account}` : ''}
+              {fmtTime(d)} • {item.category}{isTransfer ? ` • ${item.account} → ${item.toAccount}` : item.account ? ` • ${item.account}` : ''}{item.tags?.length ? ` • ${item.tags.map(t => `#${t}`).join(' ')}` : ''}
             </Text>
           </View>
 
           {/* Amount */}
           <Text style={{
-            color: isIncome ? (get('semantic.success') as string) : (get('semantic.danger') as string),
+            color: amountColor,
             fontWeight: '700',
             fontSize: 15,
             marginLeft: spacing.s8
           }}>
-            {isIncome ? '+' : '-'}${amount.toFixed(2)}
+            {isTransfer ? '' : isIncome ? '+' : '-'}${amount.toFixed(2)}
           </Text>
         </View>
       </View>
@@ -224,8 +257,8 @@ function groupByDate(items: Tx[]): Section[] {
   const keys = Object.keys(groups).sort((a,b) => a < b ? 1 : -1);
   return keys.map(k => {
     const data = groups[k].slice().sort((a,b)=> (a.date < b.date ? 1 : -1));
-    const totalSpent = data.filter(t => t.type !== 'income').reduce((acc,t)=> acc + Number(t.amount||0), 0);
-    const totalNet = data.reduce((acc,t)=> acc + (t.type==='income' ? Number(t.amount||0) : -Number(t.amount||0)), 0);
+    const totalSpent = data.filter(t => t.type === 'expense').reduce((acc,t)=> acc + Number(t.amount||0), 0);
+    const totalNet = data.reduce((acc,t)=> acc + (t.type==='income' ? Number(t.amount||0) : t.type==='expense' ? -Number(t.amount||0) : 0), 0);
     return { key: k, title: formatSectionTitle(new Date(k)), data, totalSpent, totalNet };
   });
 }
@@ -233,7 +266,7 @@ function groupByDate(items: Tx[]): Section[] {
 
 export const Transactions: React.FC = () => {
   const { get } = useThemeTokens();
-  const { transactions, remove } = useTxStore();
+  const { transactions, remove, query, categoryTotals } = useTxStore();
   const { accounts } = useAccountsStore();
   const insets = useSafeAreaInsets();
   const nav = useNavigation();
@@ -250,9 +283,13 @@ export const Transactions: React.FC = () => {
   const [rangeAnchor, setRangeAnchor] = useState<{ x: number; y: number; w: number; h: number } | null>(null);
   const [accountMenuVisible, setAccountMenuVisible] = useState(false);
   const [accountAnchor, setAccountAnchor] = useState<{ x: number; y: number; w: number; h: number } | null>(null);
+  const [tagFilter, setTagFilter] = useState<string[]>([]);
+  const [tagMenuVisible, setTagMenuVisible] = useState(false);
+  const [tagAnchor, setTagAnchor] = useState<{ x: number; y: number; w: number; h: number } | null>(null);
   const typeButtonRef = useRef<View>(null);
   const rangeButtonRef = useRef<View>(null);
   const accountButtonRef = useRef<View>(null);
+  const tagButtonRef = useRef<View>(null);
   const normalizedSearch = search.trim().toLowerCase();
 
   // Fade animation
@@ -370,19 +407,39 @@ export const Transactions: React.FC = () => {
     }
   }, [accountAnchor]);
 
+  const openTagMenu = useCallback(() => {
+    const ref: any = tagButtonRef.current;
+    if (ref && typeof ref.measureInWindow === 'function') {
+      ref.measureInWindow((x: number, y: number, w: number, h: number) => {
+        setTagAnchor({ x, y, w, h });
+        setTagMenuVisible(true);
+      });
+    } else if (tagAnchor) {
+      setTagMenuVisible(true);
+    } else {
+      setTagAnchor({ x: 260, y: 80, w: 1, h: 1 });
+      setTagMenuVisible(true);
+    }
+  }, [tagAnchor]);
+
+  const tagsInUse = useMemo(() => allTags(transactions), [transactions]);
+
   // Reset filters whenever this modal/screen gains focus
   useFocusEffect(useCallback(() => {
     setFilter('all');
     setRange('MONTH');
     setAccountFilter('all');
+    setTagFilter([]);
     setSearch('');
     setSearchOn(false);
     setTypeMenuVisible(false);
     setRangeMenuVisible(false);
     setAccountMenuVisible(false);
+    setTagMenuVisible(false);
     setTypeAnchor(null);
     setRangeAnchor(null);
     setAccountAnchor(null);
+    setTagAnchor(null);
     return undefined;
   }, []));
 
@@ -402,93 +459,102 @@ export const Transactions: React.FC = () => {
     AsyncStorage.setItem('tx_collapsed_v1', JSON.stringify(collapsed)).catch(() => {});
   }, [collapsed]);
 
-  const filtered = useMemo(() => {
-    let base = filter==='all' ? transactions : transactions.filter(t => t.type === filter);
-
-    const now = new Date();
-    const startOfMonth = new Date(now.getFullYear(), now.getMonth(), 1).getTime();
-    let fromTs = 0;
-    if (range === '7D') fromTs = now.getTime() - 7*24*60*60*1000;
-    else if (range === '30D') fromTs = now.getTime() - 30*24*60*60*1000;
-    else if (range === 'MONTH') fromTs = startOfMonth;
-    else if (range === 'ALL') fromTs = 0;
-
-    if (fromTs) base = base.filter(t => new Date(t.date).getTime() >= fromTs);
-
-    if (accountFilter !== 'all') {
-      base = base.filter(t => t.accountId === accountFilter);
-    }
-
-    if (normalizedSearch.length > 0) {
-      base = base.filter(t => (t.note || '').toLowerCase().includes(normalizedSearch) || (t.category || '').toLowerCase().includes(normalizedSearch));
+  const accountName = accountFilter === 'all'
+    ? undefined
+    : (accounts?.find(a => a.id === accountFilter)?.name || accountFilter);
+
+  const txQuery = useMemo<TxQuery>(() => ({
+    type: filter === 'all' ? undefined : filter,
+    from: rangeStart(range),
+    account: accountName,
+    tags: tagFilter.length > 0 ? tagFilter : undefined,
+    search: normalizedSearch || undefined,
+  }), [filter, range, accountName, tagFilter, normalizedSearch]);
+
+  const [loaded, setLoaded] = useState<Tx[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [matching, setMatching] = useState(0);
+  const [totals, setTotals] = useState({ income: 0, expense: 0, all: 0 });
+  const [percentChange, setPercentChange] = useState<number | null>(null);
+  const queryRef = useRef(txQuery);
+  const loadedCount = useRef(0);
+  const loadingMore = useRef(false);
+
+  // First page(s) and the hero totals. Store changes reload as many rows as were showing, so the list doesn't jump
+  useEffect(() => {
+    let cancelled = false;
+    const limit = queryRef.current === txQuery ? Math.max(PAGE_SIZE, loadedCount.current) : PAGE_SIZE;
+    queryRef.current = txQuery;
+    (async () => {
+      try {
+        const [page, income, expense, all] = await Promise.all([
+          query(txQuery, { limit }),
+          filter === 'expense' ? [] : categoryTotals({ ...txQuery, type: 'income' }),
+          filter === 'income' ? [] : categoryTotals({ ...txQuery, type: 'expense' }),
+          categoryTotals(txQuery),
+        ]);
+        if (cancelled) return;
+        loadedCount.current = page.items.length;
+        setLoaded(page.items);
+        setHasMore(page.hasMore);
+        setMatching(page.total);
+        setTotals({ income: sumTotals(income), expense: sumTotals(expense), all: sumTotals(all) });
+      } catch (e) {
+        console.error('[transactions] Failed to load history:', e);
+      }
+    })();
+    return () => { cancelled = true; };
+  }, [txQuery, transactions, filter, query, categoryTotals]);
+
+  const loadMore = useCallback(async () => {
+    if (!hasMore || loadingMore.current) return;
+    const q = txQuery;
+    loadingMore.current = true;
+    try {
+      const page = await query(q, { offset: loadedCount.current, limit: PAGE_SIZE });
+      if (queryRef.current !== q) return;
+      loadedCount.current += page.items.length;
+      setLoaded(prev => [...prev, ...page.items]);
+      setHasMore(page.hasMore);
+    } catch (e) {
+      console.error('[transactions] Failed to load more history:', e);
+    } finally {
+      loadingMore.current = false;
     }
+  }, [hasMore, txQuery, query]);
 
-    return base;
-  }, [transactions, filter, range, accountFilter, normalizedSearch]);
-
-  const sectionsRaw = useMemo(() => groupByDate(filtered), [filtered]);
+  const sectionsRaw = useMemo(() => groupByDate(loaded), [loaded]);
 
   // Summary metrics for the hero card
-  const incomeTotal = useMemo(() => filtered.filter(t => t.type === 'income').reduce((a, t) => a + Number(t.amount || 0), 0), [filtered]);
-  const expenseTotal = useMemo(() => filtered.filter(t => t.type !== 'income').reduce((a, t) => a + Number(t.amount || 0), 0), [filtered]);
-  const netTotal = useMemo(() => incomeTotal - expenseTotal, [incomeTotal, expenseTotal]);
-  const avgTxn = useMemo(() => filtered.length ? (filtered.reduce((a, t) => a + Math.abs(Number(t.amount || 0)), 0) / filtered.length) : 0, [filtered]);
-  const percentChange = useMemo(() => {
-    const nowDate = new Date();
-    const now = nowDate.getTime();
-    const dayMs = 24 * 60 * 60 * 1000;
-    let currentStart: number | null = null;
-    let previousStart: number | null = null;
-
-    if (range === '7D') {
-      const windowMs = 7 * dayMs;
-      currentStart = now - windowMs;
-      previousStart = currentStart - windowMs;
-    } else if (range === '30D') {
-      const windowMs = 30 * dayMs;
-      currentStart = now - windowMs;
-      previousStart = currentStart - windowMs;
-    } else if (range === 'MONTH') {
-      currentStart = new Date(nowDate.getFullYear(), nowDate.getMonth(), 1).getTime();
-      previousStart = new Date(nowDate.getFullYear(), nowDate.getMonth() - 1, 1).getTime();
-    } else {
-      return null;
-    }
+  const incomeTotal = totals.income;
+  const expenseTotal = totals.expense;
+  const netTotal = incomeTotal - expenseTotal;
+  const avgTxn = matching ? totals.all / matching : 0;
 
-    if (currentStart === null || previousStart === null) return null;
-    if (previousStart < 0) previousStart = 0;
-    if (previousStart >= currentStart) return null;
-    const matchesFilters = (t: Tx) => {
-      if (filter !== 'all' && t.type !== filter) return false;
-      if (normalizedSearch.length > 0) {
-        const note = (t.note || '').toLowerCase();
-        const category = (t.category || '').toLowerCase();
-        if (!note.includes(normalizedSearch) && !category.includes(normalizedSearch)) return false;
-      }
-      return true;
-    };
-    const contribution = (t: Tx) => {
-      const amount = Number(t.amount || 0);
-      if (!Number.isFinite(amount)) return 0;
-      return t.type === 'income' ? amount : -amount;
-    };
-
-    let currentNet = 0;
-    let previousNet = 0;
-    for (const t of transactions) {
-      if (!matchesFilters(t)) continue;
-      const ts = new Date(t.date).getTime();
-      if (Number.isNaN(ts)) continue;
-      if (ts >= currentStart && ts <= now) {
-        currentNet += contribution(t);
-      } else if (ts >= previousStart && ts < currentStart) {
-        previousNet += contribution(t);
-      }
+  // Net movement against the window before, with the same type, tag and search filters
+  useEffect(() => {
+    const window = comparisonWindow(range);
+    if (!window) {
+      setPercentChange(null);
+      return;
     }
-
-    if (Math.abs(previousNet) < 1e-6) return null;
-    return ((currentNet - previousNet) / Math.abs(previousNet)) * 100;
-  }, [transactions, filter, normalizedSearch, range]);
+    let cancelled = false;
+    const net = async (from: number, to: number) => {
+      const span: TxQuery = { tags: txQuery.tags, search: txQuery.search, from: new Date(from).toISOString(), to: new Date(to).toISOString() };
+      const [income, expense] = await Promise.all([
+        filter === 'expense' ? [] : categoryTotals({ ...span, type: 'income' }),
+        filter === 'income' ? [] : categoryTotals({ ...span, type: 'expense' }),
+      ]);
+      return sumTotals(income) - sumTotals(expense);
+    };
+    Promise.all([net(window.currentStart, window.now), net(window.previousStart, window.currentStart - 1)])
+      .then(([currentNet, previousNet]) => {
+        if (cancelled) return;
+        setPercentChange(Math.abs(previousNet) < 1e-6 ? null : ((currentNet - previousNet) / Math.abs(previousNet)) * 100);
+      })
+      .catch(() => { if (!cancelled) setPercentChange(null); });
+    return () => { cancelled = true; };
+  }, [txQuery, range, filter, transactions, categoryTotals]);
   const onPrimary = get('text.onPrimary') as string;
   const textPrimary = get('text.primary') as string;
   const muted = get('text.muted') as string;
@@ -602,6 +668,8 @@ export const Transactions: React.FC = () => {
           <FlatList
           data={sectionsRaw}
           keyExtractor={(s) => s.key}
+          onEndReached={loadMore}
+          onEndReachedThreshold={0.5}
           bounces={true}
           onScroll={(event) => {
             scrollY.value = event.nativeEvent.contentOffset.y;
@@ -687,6 +755,20 @@ export const Transactions: React.FC = () => {
                     History
                   </AnimatedReanimated.Text>
                 </View>
+                <Pressable
+                  onPress={() => (nav as any).navigate('ImportStatement')}
+                  accessibilityRole="button"
+                  accessibilityLabel="Import bank statement"
+                  style={({ pressed }) => ({
+                    padding: spacing.s8,
+                    marginTop: -spacing.s4,
+                    borderRadius: radius.md,
+                    backgroundColor: pressed ? surface1 : 'transparent',
+                  })}
+                  hitSlop={8}
+                >
+                  <Icon name="upload" size={22} color={textPrimary} />
+                </Pressable>
               </View>
 
               {/* Page Header with Stats */}
@@ -795,6 +877,29 @@ export const Transactions: React.FC = () => {
                   </AnimatedPressable>
                 </View>
 
+                {tagsInUse.length > 0 && (
+                  <View ref={tagButtonRef} collapsable={false}>
+                    <AnimatedPressable onPress={openTagMenu}>
+                      <View
+                        style={{
+                          paddingVertical: spacing.s8,
+                          paddingHorizontal: spacing.s12,
+                          borderRadius: radius.pill,
+                          backgroundColor: tagFilter.length > 0 ? (get('accent.primary') as string) : surface1,
+                          flexDirection: 'row',
+                          alignItems: 'center',
+                          gap: spacing.s6
+                        }}
+                      >
+                        <Icon name="tag" size={16} color={tagFilter.length > 0 ? textOnPrimary : textPrimary} />
+                        {tagFilter.length > 0 && (
+                          <Text style={{ color: textOnPrimary, fontSize: 12, fontWeight: '700' }}>{tagFilter.length}</Text>
+                        )}
+                      </View>
+                    </AnimatedPressable>
+                  </View>
+                )}
+
                 <View style={{ flex: 1 }} />
 
                 <AnimatedPressable onPress={() => setSearchOn((s) => !s)}>
@@ -829,7 +934,7 @@ export const Transactions: React.FC = () => {
                   <Input
                     value={search}
                     onChangeText={setSearch}
-                    placeholder="Search notes or categories"
+                    placeholder="Search notes, categories or #tags"
                     style={{ margin: 0 }}
                   />
                 </View>
@@ -841,7 +946,7 @@ export const Transactions: React.FC = () => {
             const displayTotal = totalMode === 'SPENT' ? item.totalSpent : item.totalNet;
             const isPositive = displayTotal >= 0;
             const dayIncome = item.data.filter(t => t.type === 'income').reduce((a, t) => a + Number(t.amount || 0), 0);
-            const dayExpense = item.data.filter(t => t.type !== 'income').reduce((a, t) => a + Number(t.amount || 0), 0);
+            const dayExpense = item.data.filter(t => t.type === 'expense').reduce((a, t) => a + Number(t.amount || 0), 0);
             const hasLargeTransaction = item.data.some(t => Math.abs(Number(t.amount) || 0) >= 500);
 
             return (
@@ -980,6 +1085,26 @@ export const Transactions: React.FC = () => {
           onPress: () => setAccountFilter(opt.value),
         }))}
       />
+
+      <PopoverMenu
+        visible={tagMenuVisible}
+        onClose={() => {
+          setTagMenuVisible(false);
+        }}
+        anchor={tagAnchor}
+        items={[
+          {
+            key: '__all',
+            label: tagFilter.length === 0 ? 'All tags ✓' : 'All tags',
+            onPress: () => setTagFilter([]),
+          },
+          ...tagsInUse.map((tag) => ({
+            key: tag,
+            label: tagFilter.includes(tag) ? `#${tag} ✓` : `#${tag}`,
+            onPress: () => setTagFilter(prev => prev.includes(tag) ? prev.filter(t => t !== tag) : [...prev, tag]),
+          })),
+        ]}
+      />
     </>
   );
 };
@@ -9,29 +9,22 @@ import { useThemeTokens } from '../theme/ThemeProvider';
 import { spacing, radius } from '../theme/tokens';
 import { useRecurringStore, computeNextDue } from '../store/recurring';
 import { CYCLE_KEY } from './Budgets';
+import { useProfileStore } from '../store/profile';
+import { periodFor } from '../lib/budgetPeriods';
+import { useGroupsStore } from '../features/groups/store';
+import { occurrences, shareFor } from '../features/groups/utils/recurringBills';
+import { currencyOf } from '../features/groups/utils/currency';
+import { useFxHistoryStore } from '../store/fxHistory';
+import { rateOn } from '../lib/fxHistory';
 
 type Cycle = 'monthly' | 'biweekly';
 
 function startOfDay(d: Date) { const n = new Date(d); n.setHours(0,0,0,0); return n; }
 function endOfDay(d: Date) { const n = new Date(d); n.setHours(23,59,59,999); return n; }
-function startOfMonth(d: Date) { const n = new Date(d.getFullYear(), d.getMonth(), 1); n.setHours(0,0,0,0); return n; }
-function endOfMonth(d: Date) { const n = new Date(d.getFullYear(), d.getMonth()+1, 0); n.setHours(23,59,59,999); return n; }
 
-function getBiweeklyPeriod(anchorISO: string | null, today = new Date()): {start: Date, end: Date, anchor: string} {
-  const anchor = anchorISO ? new Date(anchorISO) : startOfDay(today);
-  const a0 = startOfDay(anchor);
-  const ms14 = 14 * 24 * 60 * 60 * 1000;
-  const t = startOfDay(today).getTime();
-  const diff = t - a0.getTime();
-  const k = Math.floor(diff / ms14);
-  const pStart = new Date(a0.getTime() + k * ms14);
-  const pEnd = new Date(pStart.getTime() + ms14 - 1);
-  return { start: pStart, end: pEnd, anchor: a0.toISOString() };
-}
-
-function fmtMoney(n: number) {
-  try { return new Intl.NumberFormat(undefined, { style:'currency', currency:'SGD', maximumFractionDigits:0 }).format(n); }
-  catch { return `S$${n.toFixed(2)}`; }
+function fmtMoney(n: number, currency = 'SGD') {
+  try { return new Intl.NumberFormat(undefined, { style:'currency', currency, maximumFractionDigits:0 }).format(n); }
+  catch { return `${currency} ${n.toFixed(2)}`; }
 }
 
 function withAlpha(hex: string, alpha: number) {
@@ -50,6 +43,14 @@ export default function UpcomingBills() {
 
   const [cycle, setCycle] = useState<Cycle>('monthly');
   const [anchorISO, setAnchorISO] = useState<string | null>(null);
+  const cycleDay = useProfileStore(s => s.profile.budgetCycleDay) || 1;
+  const baseCurrency = (useProfileStore(s => s.profile?.currency) || 'SGD').toUpperCase();
+  const fxHistory = useFxHistoryStore(s => s.history);
+  const fxReady = useFxHistoryStore(s => s.ready);
+
+  useEffect(() => {
+    if (!fxReady) useFxHistoryStore.getState().hydrate();
+  }, [fxReady]);
 
   useEffect(() => {
     (async () => {
@@ -65,18 +66,43 @@ export default function UpcomingBills() {
   }, []);
 
   const today = new Date();
-  const period = cycle === 'monthly'
-    ? { start: startOfMonth(today), end: endOfMonth(today) }
-    : getBiweeklyPeriod(anchorISO, today);
+  const period = periodFor(today, { cycle, cycleDay, anchor: anchorISO });
 
   // Use explicit bills only from recurring store
   const { items: tmpl } = useRecurringStore.getState();
   const holdItems = (tmpl || []).map((t:any)=>{
     const next = computeNextDue(t, today);
-    return next && next <= period.end ? { key: t.id, label: t.label || t.category, category: t.category, amount: t.amount, due: next } : null;
+    return next && next <= period.end ? { key: t.id, label: t.label || t.category, category: t.category, amount: t.amount, currency: baseCurrency, due: next } : null;
   }).filter(Boolean) as any[];
 
-  const holdAmount = holdItems.reduce((s,it)=> s + (Number(it.amount)||0), 0);
+  // Recurring group bills: the whole bill on the user's turn to pay, otherwise their share.
+  // Converted at today's rate (the bill's own rate is fixed when it's generated); without
+  // one the bill shows in its own currency and stays out of the total.
+  const groups = useGroupsStore(s => s.groups);
+  groups.forEach(g => {
+    const me = g.members.find(m => !m.archived)?.id;
+    if (!me) return;
+    (g.recurring || []).forEach(t => {
+      const from = currencyOf(g, t);
+      const rate = rateOn(fxHistory, from, baseCurrency, Date.now());
+      occurrences(t, period.end).forEach(({ due, payer }) => {
+        const amount = payer === me ? t.amount : shareFor(t, me);
+        if (amount <= 0) return;
+        holdItems.push({
+          key: `${g.id}:${t.id}`,
+          label: `${t.title} · ${g.name}`,
+          category: t.category,
+          amount: rate === undefined ? amount : amount * rate,
+          currency: rate === undefined ? from : baseCurrency,
+          due,
+          groupId: g.id,
+        });
+      });
+    });
+  });
+  holdItems.sort((a, b) => a.due.getTime() - b.due.getTime());
+
+  const holdAmount = holdItems.reduce((s,it)=> s + (it.currency === baseCurrency ? Number(it.amount)||0 : 0), 0);
   const holdSummaryLabel = holdItems.length === 0
     ? 'No bills due this cycle'
     : `${holdItems.length} upcoming bill${holdItems.length === 1 ? '' : 's'}`;
@@ -156,7 +182,7 @@ export default function UpcomingBills() {
               Total Held
             </Text>
             <Text style={{ color: textPrimary, fontWeight: '900', fontSize: 32, letterSpacing: -1 }}>
-              {fmtMoney(holdAmount)}
+              {fmtMoney(holdAmount, baseCurrency)}
             </Text>
           </View>
           <View style={{
@@ -216,8 +242,10 @@ export default function UpcomingBills() {
                 const billColor = isUrgent ? dangerColor : warningColor;
 
                 return (
-                  <View
+                  <Pressable
                     key={`${it.key}-${idx}`}
+                    disabled={!it.groupId}
+                    onPress={() => nav.navigate('RecurringBills', { groupId: it.groupId })}
                     style={{
                       backgroundColor: surface1,
                       borderRadius: radius.xl,
@@ -272,10 +300,10 @@ export default function UpcomingBills() {
                         fontSize: 15,
                         marginLeft: spacing.s8
                       }}>
-                        {fmtMoney(it.amount)}
+                        {fmtMoney(it.amount, it.currency)}
                       </Text>
                     </View>
-                  </View>
+                  </Pressable>
                 );
               })}
             </View>
@@ -1,12 +1,14 @@
 import { create } from 'zustand';
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import { ensureDatabase } from '../db/bootstrap';
+import { listAccounts, upsertAccounts, deleteAccount } from '../db/repositories/accounts';
 
 export type BankAccount = {
   id: string;
   name: string;
   institution?: string;
   mask?: string; // last 4
-  balance: number; // in user's currency for now
+  balance: number; // in the account's currency
+  currency?: string; // ISO code; defaults to the profile currency
   kind?: 'checking' | 'savings' | 'cash' | 'credit' | 'investment' | 'retirement' | 'loan' | 'mortgage' | 'other';
   includeInNetWorth?: boolean;
   note?: string;
@@ -25,40 +27,46 @@ type AccountsState = {
   removeAccount: (id: string) => Promise<void>;
   setDefaultAccount: (id: string) => Promise<void>;
   updateAccountBalance: (accountName: string, amount: number, isExpense: boolean) => Promise<void>;
+  transferBetween: (fromName: string, toName: string, sent: number, received: number) => Promise<void>;
   payCredit: (creditCardName: string, fromAccountName: string, amount: number) => Promise<void>;
 };
 
-const KEY = 'fingrow:accounts:v1';
+// Writes only the rows that changed
+async function save(changed: BankAccount[]) {
+  try { await upsertAccounts(changed); } catch (e) { console.error('[accounts] Failed to save:', e); }
+}
 
 export const useAccountsStore = create<AccountsState>((set, get) => ({
   accounts: [],
   hydrate: async () => {
     try {
-      const raw = await AsyncStorage.getItem(KEY);
-      if (raw) set({ accounts: JSON.parse(raw) });
-    } catch {}
+      await ensureDatabase();
+      set({ accounts: await listAccounts() });
+    } catch (e) {
+      console.error('[accounts] Failed to load:', e);
+    }
   },
   addAccount: async (a) => {
     const id = Math.random().toString(36).slice(2);
     const createdAt = a.createdAt || new Date().toISOString();
-    const next = [...get().accounts, { id, createdAt, ...a }];
-    set({ accounts: next });
-    try { await AsyncStorage.setItem(KEY, JSON.stringify(next)); } catch {}
+    const account = { id, createdAt, ...a };
+    set({ accounts: [...get().accounts, account] });
+    await save([account]);
   },
   updateAccount: async (id, patch) => {
     const next = get().accounts.map(x => x.id === id ? { ...x, ...patch } : x);
     set({ accounts: next });
-    try { await AsyncStorage.setItem(KEY, JSON.stringify(next)); } catch {}
+    await save(next.filter(x => x.id === id));
   },
   removeAccount: async (id) => {
-    const next = get().accounts.filter(x => x.id !== id);
-    set({ accounts: next });
-    try { await AsyncStorage.setItem(KEY, JSON.stringify(next)); } catch {}
+    set({ accounts: get().accounts.filter(x => x.id !== id) });
+    try { await deleteAccount(id); } catch (e) { console.error('[accounts] Failed to delete:', e); }
   },
   setDefaultAccount: async (id) => {
-    const next = get().accounts.map(x => ({ ...x, isDefault: x.id === id }));
+    const prev = get().accounts;
+    const next = prev.map(x => ({ ...x, isDefault: x.id === id }));
     set({ accounts: next });
-    try { await AsyncStorage.setItem(KEY, JSON.stringify(next)); } catch {}
+    await save(next.filter((x, i) => !!x.isDefault !== !!prev[i].isDefault));
   },
   updateAccountBalance: async (accountName, amount, isExpense) => {
     const account = get().accounts.find(a => a.name === accountName);
@@ -75,9 +83,25 @@ export const useAccountsStore = create<AccountsState>((set, get) => ({
       newBalance = isExpense ? account.balance - amount : account.balance + amount;
     }
 
-    const next = get().accounts.map(a => a.id === account.id ? { ...a, balance: newBalance } : a);
+    const updated = { ...account, balance: newBalance };
+    set({ accounts: get().accounts.map(a => a.id === account.id ? updated : a) });
+    await save([updated]);
+  },
+  transferBetween: async (fromName, toName, sent, received) => {
+    const fromAccount = get().accounts.find(a => a.name === fromName);
+    const toAccount = get().accounts.find(a => a.name === toName);
+    if (!fromAccount && !toAccount) return;
+
+    // Both legs land in one state update so balances never disagree mid-write.
+    // Credit balances are negative debt, so money in makes them less negative too.
+    const next = get().accounts.map(a => {
+      if (fromAccount && a.id === fromAccount.id) return { ...a, balance: a.balance - sent };
+      if (toAccount && a.id === toAccount.id) return { ...a, balance: a.balance + received };
+      return a;
+    });
+
     set({ accounts: next });
-    try { await AsyncStorage.setItem(KEY, JSON.stringify(next)); } catch {}
+    await save(next.filter(a => a.id === fromAccount?.id || a.id === toAccount?.id));
   },
   payCredit: async (creditCardName, fromAccountName, amount) => {
     const creditCard = get().accounts.find(a => a.name === creditCardName && a.kind === 'credit');
@@ -85,19 +109,13 @@ export const useAccountsStore = create<AccountsState>((set, get) => ({
 
     if (!creditCard || !fromAccount) return;
 
-    // Reduce credit card debt (make balance less negative)
-    const newCreditBalance = creditCard.balance + amount;
-
-    // Reduce the paying account balance
-    const newFromBalance = fromAccount.balance - amount;
-
-    const next = get().accounts.map(a => {
-      if (a.id === creditCard.id) return { ...a, balance: newCreditBalance };
-      if (a.id === fromAccount.id) return { ...a, balance: newFromBalance };
-      return a;
+    // A card payment is a transfer into the card, recorded so it has a trail
+    const { useTxStore } = require('./transactions');
+    await useTxStore.getState().addTransfer({
+      from: fromAccount.name,
+      to: creditCard.name,
+      amount,
+      category: 'Credit Card Payment',
     });
-
-    set({ accounts: next });
-    try { await AsyncStorage.setItem(KEY, JSON.stringify(next)); } catch {}
   },
 }));
@@ -1,41 +1,110 @@
-
 import { create } from 'zustand';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { categoryBudgetSet, type CategoryBudgets } from '../lib/budgetPeriods';
 
 const KEY = 'fingrow/budget';
+const HISTORY_LIMIT = 36;
+
+/** What carries into the next period: leftover money, overspend, both or neither. */
+export type RolloverMode = 'none' | 'unspent' | 'overspent' | 'both';
+
+export type CategoryPeriod = { budgeted: number; carriedIn: number; spent: number };
+
+/** A closed budget period. Start/end are ISO strings. */
+export type PeriodRecord = {
+  key: string;
+  start: string;
+  end: string;
+  budget: number | null;
+  spent: number;
+  categories: Record<string, CategoryPeriod>;
+};
 
 type BudgetState = {
   monthlyBudget: number | null;
   warnThreshold: number;
+  /** period key -> category -> amount. A value applies until a later period sets its own, or clears it with null. */
+  categoryBudgets: CategoryBudgets;
+  rollover: Record<string, RolloverMode>;
+  history: PeriodRecord[];
   ready: boolean;
   hydrate: () => Promise<void>;
   setMonthlyBudget: (val: number | null) => Promise<void>;
   setWarnThreshold: (val: number) => Promise<void>;
+  setCategoryBudget: (periodKey: string, category: string, amount: number | null) => Promise<void>; // null to clear
+  setRollover: (category: string, mode: RolloverMode) => Promise<void>;
+  recordHistory: (records: PeriodRecord[]) => Promise<void>;
 };
 
-type Persist = { monthlyBudget: number | null; warnThreshold: number; };
-
-export const useBudgetsStore = create<BudgetState>((set, get) => ({
-  monthlyBudget: null,
-  warnThreshold: 0.8,
-  ready: false,
-  hydrate: async () => {
-    try {
-      const raw = await AsyncStorage.getItem(KEY);
-      if (raw) {
-        const data = JSON.parse(raw) as Persist;
-        set({ monthlyBudget: data.monthlyBudget ?? null, warnThreshold: typeof data.warnThreshold === 'number' ? data.warnThreshold : 0.8 });
-      }
-    } finally { set({ ready: true }); }
-  },
-  setMonthlyBudget: async (val) => {
-    set({ monthlyBudget: val });
-    const data: Persist = { monthlyBudget: val, warnThreshold: get().warnThreshold };
-    await AsyncStorage.setItem(KEY, JSON.stringify(data));
-  },
-  setWarnThreshold: async (val) => {
-    set({ warnThreshold: val });
-    const data: Persist = { monthlyBudget: get().monthlyBudget, warnThreshold: val };
+type Persist = Pick<BudgetState, 'monthlyBudget' | 'warnThreshold' | 'categoryBudgets' | 'rollover' | 'history'>;
+
+export const useBudgetsStore = create<BudgetState>((set, get) => {
+  const persist = async () => {
+    const { monthlyBudget, warnThreshold, categoryBudgets, rollover, history } = get();
+    const data: Persist = { monthlyBudget, warnThreshold, categoryBudgets, rollover, history };
     await AsyncStorage.setItem(KEY, JSON.stringify(data));
-  },
-}));
+  };
+
+  return {
+    monthlyBudget: null,
+    warnThreshold: 0.8,
+    categoryBudgets: {},
+    rollover: {},
+    history: [],
+    ready: false,
+    hydrate: async () => {
+      try {
+        const raw = await AsyncStorage.getItem(KEY);
+        if (raw) {
+          const data = JSON.parse(raw) as Partial<Persist>;
+          set({
+            monthlyBudget: data.monthlyBudget ?? null,
+            warnThreshold: typeof data.warnThreshold === 'number' ? data.warnThreshold : 0.8,
+            categoryBudgets: data.categoryBudgets || {},
+            rollover: data.rollover || {},
+            history: Array.isArray(data.history) ? data.history : [],
+          });
+        }
+      } finally { set({ ready: true }); }
+    },
+    setMonthlyBudget: async (val) => {
+      set({ monthlyBudget: val });
+      await persist();
+    },
+    setWarnThreshold: async (val) => {
+      set({ warnThreshold: val });
+      await persist();
+    },
+    setCategoryBudget: async (periodKey, category, amount) => {
+      const period = { ...(get().categoryBudgets[periodKey] || {}) };
+      if (amount === null || !isFinite(amount) || amount < 0) {
+        // Deleting would let an earlier period's amount apply again; mark it cleared instead
+        delete period[category];
+        const inherited = categoryBudgetSet({ ...get().categoryBudgets, [periodKey]: period }, periodKey, category);
+        if (inherited !== undefined) period[category] = null;
+      } else {
+        period[category] = Math.round(amount * 100) / 100;
+      }
+      const categoryBudgets = { ...get().categoryBudgets, [periodKey]: period };
+      if (!Object.keys(period).length) delete categoryBudgets[periodKey];
+      set({ categoryBudgets });
+      await persist();
+    },
+    setRollover: async (category, mode) => {
+      const rollover = { ...get().rollover };
+      if (mode === 'none') delete rollover[category]; else rollover[category] = mode;
+      set({ rollover });
+      await persist();
+    },
+    recordHistory: async (records) => {
+      if (!records.length) return;
+      const byKey = new Map(get().history.map(r => [r.key, r]));
+      const changed = records.some(r => JSON.stringify(byKey.get(r.key)) !== JSON.stringify(r));
+      if (!changed) return;
+      records.forEach(r => byKey.set(r.key, r));
+      const history = [...byKey.values()].sort((a, b) => a.start.localeCompare(b.start)).slice(-HISTORY_LIMIT);
+      set({ history });
+      await persist();
+    },
+  };
+});
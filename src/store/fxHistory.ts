@@ -0,0 +1,170 @@
+import { useEffect, useMemo } from 'react';
+import { create } from 'zustand';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  FxHistory,
+  UsdRates,
+  convertOn,
+  fetchHistoricalUsdRates,
+  fxDateKey,
+  usdRatesFromPairs,
+  usdRatesOn,
+} from '../lib/fxHistory';
+import { ensureDatabase } from '../db/bootstrap';
+import { getFxHistory, saveFxHistory } from '../db/repositories/fx';
+import { useProfileStore } from './profile';
+import { useAccountsStore } from './accounts';
+import type { Transaction } from './transactions';
+import type { BankAccount } from './accounts';
+
+type State = {
+  history: FxHistory;
+  ready: boolean;
+  hydrate: () => Promise<void>;
+  recordRates: (date: string, rates: UsdRates) => Promise<void>;
+  /** Fetches rates for any of `dates` not yet in the history. */
+  ensureDates: (dates: string[]) => Promise<void>;
+  convert: (amount: number, from: string, to: string, date?: string | number | Date) => number;
+};
+
+const LEGACY_KEY = 'fingrow/fx/history'; // moved into fx_rates_history
+const LATEST_CACHE_KEY = 'fingrow/fx/rates';
+const MAX_RANGE_DAYS = 366;
+
+let inflight: Promise<void> | null = null;
+
+export const useFxHistoryStore = create<State>((set, get) => ({
+  history: {},
+  ready: false,
+  hydrate: async () => {
+    try {
+      await ensureDatabase();
+      // Earlier versions kept the history as one AsyncStorage blob
+      const legacy = await AsyncStorage.getItem(LEGACY_KEY);
+      if (legacy) {
+        await saveFxHistory(JSON.parse(legacy));
+        await AsyncStorage.removeItem(LEGACY_KEY);
+      }
+      const history = await getFxHistory();
+      // Seed from the latest-rates cache so conversions work before the first history fetch
+      const latestRaw = await AsyncStorage.getItem(LATEST_CACHE_KEY);
+      if (latestRaw) {
+        const latest = JSON.parse(latestRaw);
+        const day = fxDateKey(latest.lastUpdated || latest.timestamp || Date.now());
+        if (!history[day] && latest.rates) history[day] = usdRatesFromPairs(latest.rates);
+      }
+      set({ history, ready: true });
+    } catch {
+      set({ ready: true });
+    }
+  },
+  recordRates: async (date, rates) => {
+    const day = { [fxDateKey(date)]: { USD: 1, ...rates } };
+    set({ history: { ...get().history, ...day } });
+    await saveFxHistory(day);
+  },
+  ensureDates: async (dates) => {
+    if (inflight) await inflight;
+    const today = fxDateKey(Date.now());
+    const missing = Array.from(new Set(dates.map(fxDateKey)))
+      .filter(d => d <= today && !get().history[d])
+      .sort();
+    if (missing.length === 0) return;
+
+    inflight = (async () => {
+      try {
+        const fetched: FxHistory = {};
+        // One range request per year of missing dates
+        let start = 0;
+        while (start < missing.length) {
+          const startDay = missing[start];
+          const limit = new Date(new Date(startDay).getTime() + MAX_RANGE_DAYS * 86400000).toISOString().slice(0, 10);
+          let end = start;
+          while (end + 1 < missing.length && missing[end + 1] <= limit) end++;
+          Object.assign(fetched, await fetchHistoricalUsdRates(startDay, missing[end]));
+          start = end + 1;
+        }
+        // Weekends and holidays have no fix; carry the previous business day forward
+        const added: FxHistory = { ...fetched };
+        for (const d of missing) {
+          if (!added[d]) {
+            const rates = usdRatesOn(fetched, d);
+            if (rates) added[d] = rates;
+          }
+        }
+        set({ history: { ...get().history, ...added } });
+        await saveFxHistory(added);
+      } catch (e) {
+        console.warn('[fxHistory] Could not fetch historical rates:', e);
+      } finally {
+        inflight = null;
+      }
+    })();
+    await inflight;
+  },
+  convert: (amount, from, to, date) => convertOn(get().history, amount, from, to, date ?? Date.now()),
+}));
+
+/** Currency a transaction was made in: its own, else its account's, else the base. */
+export function txCurrency(tx: Transaction, accounts: BankAccount[], baseCurrency: string): string {
+  if (tx.currency) return tx.currency.toUpperCase();
+  const account = tx.account ? accounts.find(a => a.name === tx.account) : undefined;
+  return (account?.currency || baseCurrency || 'USD').toUpperCase();
+}
+
+export function accountCurrency(account: BankAccount | undefined, baseCurrency: string): string {
+  return (account?.currency || baseCurrency || 'USD').toUpperCase();
+}
+
+/**
+ * Converter from a transaction (or an amount within it, e.g. a split slice)
+ * to `baseCurrency` at the rate on the transaction date. When the account
+ * itself is in the base currency the amount the account was charged is used
+ * directly, so card-issuer rates win over reference rates.
+ */
+export function makeTxConverter(baseCurrency: string, history: FxHistory, accounts: BankAccount[]) {
+  const base = (baseCurrency || 'USD').toUpperCase();
+  return (tx: Transaction, amount: number = Math.abs(Number(tx.amount) || 0)): number => {
+    const from = txCurrency(tx, accounts, base);
+    if (from === base) return amount;
+    const total = Math.abs(Number(tx.amount) || 0);
+    const account = tx.account ? accounts.find(a => a.name === tx.account) : undefined;
+    if (tx.accountAmount !== undefined && total > 0 && accountCurrency(account, base) === base) {
+      return amount * (Math.abs(tx.accountAmount) / total);
+    }
+    return convertOn(history, amount, from, base, tx.date);
+  };
+}
+
+/** Converts an account balance (in the account's currency) to `baseCurrency` at the latest rate. */
+export function makeBalanceConverter(baseCurrency: string, history: FxHistory) {
+  const base = (baseCurrency || 'USD').toUpperCase();
+  return (account: BankAccount, amount: number = account.balance || 0): number =>
+    convertOn(history, amount, accountCurrency(account, base), base, Date.now());
+}
+
+/**
+ * Hook form of makeTxConverter bound to the profile currency. Also backfills
+ * history for the dates of any foreign-currency transactions it sees.
+ */
+export function useTxConverter(transactions?: Transaction[]) {
+  const history = useFxHistoryStore(s => s.history);
+  const ready = useFxHistoryStore(s => s.ready);
+  const baseCurrency = useProfileStore(s => s.profile?.currency) || 'USD';
+  const accounts = useAccountsStore(s => s.accounts);
+
+  useEffect(() => {
+    if (!ready) useFxHistoryStore.getState().hydrate();
+  }, [ready]);
+
+  useEffect(() => {
+    if (!ready || !transactions?.length) return;
+    const base = baseCurrency.toUpperCase();
+    const dates = transactions
+      .filter(t => t.type !== 'transfer' && txCurrency(t, accounts, base) !== base)
+      .map(t => fxDateKey(t.date));
+    if (dates.length) useFxHistoryStore.getState().ensureDates(dates);
+  }, [ready, transactions, accounts, baseCurrency]);
+
+  return useMemo(() => makeTxConverter(baseCurrency, history, accounts), [baseCurrency, history, accounts]);
+}
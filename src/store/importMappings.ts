@@ -0,0 +1,46 @@
+import { create } from 'zustand';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { CsvMapping } from '../lib/statementImport';
+
+// Saved CSV column mappings, keyed by institution name (case-insensitive)
+type State = {
+  mappings: Record<string, CsvMapping>;
+  ready: boolean;
+  hydrate: () => Promise<void>;
+  getMapping: (institution: string) => CsvMapping | undefined;
+  saveMapping: (institution: string, mapping: CsvMapping) => Promise<void>;
+  removeMapping: (institution: string) => Promise<void>;
+};
+
+const KEY = 'fingrow/import/csvMappings';
+
+function keyFor(institution: string) {
+  return (institution || '').trim().toLowerCase();
+}
+
+export const useImportMappingsStore = create<State>((set, get) => ({
+  mappings: {},
+  ready: false,
+  hydrate: async () => {
+    try {
+      const raw = await AsyncStorage.getItem(KEY);
+      set({ mappings: raw ? JSON.parse(raw) : {}, ready: true });
+    } catch {
+      set({ ready: true });
+    }
+  },
+  getMapping: (institution) => get().mappings[keyFor(institution)],
+  saveMapping: async (institution, mapping) => {
+    const k = keyFor(institution);
+    if (!k) return;
+    const next = { ...get().mappings, [k]: mapping };
+    set({ mappings: next });
+    await AsyncStorage.setItem(KEY, JSON.stringify(next));
+  },
+  removeMapping: async (institution) => {
+    const next = { ...get().mappings };
+    delete next[keyFor(institution)];
+    set({ mappings: next });
+    await AsyncStorage.setItem(KEY, JSON.stringify(next));
+  },
+}));
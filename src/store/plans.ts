@@ -1,40 +1,212 @@
 import { create } from 'zustand';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { useInvestStore } from '../features/invest/store/invest';
+import { convertCurrency } from '../lib/fx';
+import { cancelScheduled, scheduleAt } from '../lib/notifications';
+import { dayKey, nextDue, planBuys, upcomingDates, type PlannedBuy } from '../lib/dca';
+import { formatCurrency } from '../lib/format';
+
+export type DCACadence = 'weekly' | 'biweekly' | 'monthly';
+
+export type DCAExecution = {
+  id: string;
+  due: string;                   // YYYY-MM-DD of the period this covers
+  recordedAt: string;            // ISO
+  planned: number;               // plan amount at the time, plan currency
+  invested: number;              // what was actually bought, plan currency
+  buys: Array<{ symbol: string; qty: number; price: number; currency: string }>;
+  skipped?: boolean;
+};
 
 export type DCAPlan = {
-  amount: number;                // total amount per period (assume monthly for now)
+  id: string;
+  name: string;
+  portfolioId?: string;          // lots are recorded here; the active portfolio if unset
+  currency?: string;             // currency of `amount`; the portfolio's base currency if unset
+  amount: number;                // total amount per period
   symbols: { symbol: string; weight: number }[]; // weights add up to 1
-  period: 'monthly';
+  period: DCACadence;
+  startDate: string;             // YYYY-MM-DD, the first due date
+  reminder?: { enabled: boolean; hour: number; notificationIds?: string[] };
+  history: DCAExecution[];
+  createdAt: string;
+  updatedAt: string;
 };
 
+export type DCAPlanInput = Omit<DCAPlan, 'id' | 'history' | 'createdAt' | 'updatedAt'>;
+
 type State = {
-  plan: DCAPlan | null;
+  plans: DCAPlan[];
   ready: boolean;
   hydrate: () => Promise<void>;
-  save: (p: DCAPlan) => Promise<void>;
-  clear: () => Promise<void>;
+  addPlan: (input: DCAPlanInput) => Promise<string>;
+  updatePlan: (id: string, patch: Partial<DCAPlanInput>) => Promise<void>;
+  removePlan: (id: string) => Promise<void>;
+  // Buys the next due period at current quotes as lots in the plan's portfolio; `buys` overrides the computed ones
+  recordBuys: (id: string, opts?: { due?: string; buys?: PlannedBuy[] }) => Promise<DCAExecution>;
+  skipPeriod: (id: string, due: string) => Promise<void>;
+  removeExecution: (id: string, executionId: string) => Promise<void>; // lots already added are kept
 };
 
 const KEY = 'fingrow:plans:v1';
+const REMINDERS_AHEAD = 3;
+
+const newId = () => Math.random().toString(36).slice(2);
+
+/** The single monthly plan stored before plans had names and schedules. */
+function fromLegacy(raw: any): DCAPlan {
+  const now = new Date().toISOString();
+  return {
+    id: newId(),
+    name: 'My plan',
+    amount: Number(raw.amount) || 0,
+    symbols: Array.isArray(raw.symbols) ? raw.symbols : [],
+    period: 'monthly',
+    startDate: dayKey(new Date()),
+    history: [],
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+async function persist(plans: DCAPlan[]) {
+  try { await AsyncStorage.setItem(KEY, JSON.stringify(plans)); } catch {}
+}
+
+/** The portfolio and currency a plan buys into. */
+function planTarget(plan: DCAPlan) {
+  const invest = useInvestStore.getState();
+  const portfolioId = plan.portfolioId || invest.activePortfolioId || undefined;
+  const p = portfolioId ? invest.portfolios[portfolioId] : undefined;
+  const currency = (plan.currency || p?.baseCurrency || 'USD').toUpperCase();
+  return { invest, portfolioId, p, currency };
+}
+
+/** Replaces the plan's scheduled reminders with ones for its next few due dates. */
+async function scheduleReminders(plan: DCAPlan): Promise<DCAPlan['reminder']> {
+  const r = plan.reminder;
+  if (!r) return r;
+  for (const nid of r.notificationIds || []) await cancelScheduled(nid);
+  if (!r.enabled) return { ...r, notificationIds: [] };
+  const { currency } = planTarget(plan);
+  const ids: string[] = [];
+  for (const d of upcomingDates(plan, REMINDERS_AHEAD)) {
+    const at = new Date(d.getFullYear(), d.getMonth(), d.getDate(), r.hour, 0, 0);
+    const nid = await scheduleAt(
+      `${plan.name}: time to invest`,
+      `${formatCurrency(plan.amount, currency)} is due across ${plan.symbols.map(s => s.symbol).join(', ')}.`,
+      at
+    );
+    if (nid) ids.push(nid);
+  }
+  return { ...r, notificationIds: ids };
+}
+
+export const usePlansStore = create<State>((set, get) => {
+  const write = async (plans: DCAPlan[]) => {
+    set({ plans });
+    await persist(plans);
+  };
+
+  const refreshReminders = async (id: string) => {
+    const plan = get().plans.find(x => x.id === id);
+    if (!plan?.reminder) return;
+    const reminder = await scheduleReminders(plan);
+    await write(get().plans.map(x => (x.id === id ? { ...x, reminder } : x)));
+  };
+
+  return {
+    plans: [],
+    ready: false,
+    hydrate: async () => {
+      try {
+        const raw = await AsyncStorage.getItem(KEY);
+        const parsed = raw ? JSON.parse(raw) : null;
+        let plans: DCAPlan[] = [];
+        if (Array.isArray(parsed)) plans = parsed;
+        else if (parsed && typeof parsed === 'object') {
+          plans = [fromLegacy(parsed)];
+          await persist(plans);
+        }
+        set({ plans, ready: true });
+      } catch {
+        set({ plans: [], ready: true });
+      }
+    },
+
+    addPlan: async (input) => {
+      const now = new Date().toISOString();
+      const plan: DCAPlan = { ...input, id: newId(), history: [], createdAt: now, updatedAt: now };
+      await write([...get().plans, plan]);
+      // Saved first, so a reminder that can't be scheduled doesn't lose the plan
+      if (plan.reminder) await refreshReminders(plan.id);
+      return plan.id;
+    },
+
+    updatePlan: async (id, patch) => {
+      const cur = get().plans.find(x => x.id === id);
+      if (!cur) return;
+      const next = { ...cur, ...patch, updatedAt: new Date().toISOString() };
+      if (patch.reminder && cur.reminder?.notificationIds && !patch.reminder.notificationIds) {
+        next.reminder = { ...patch.reminder, notificationIds: cur.reminder.notificationIds };
+      }
+      await write(get().plans.map(x => (x.id === id ? next : x)));
+      if (next.reminder) await refreshReminders(id);
+    },
+
+    removePlan: async (id) => {
+      const plan = get().plans.find(x => x.id === id);
+      for (const nid of plan?.reminder?.notificationIds || []) await cancelScheduled(nid);
+      await write(get().plans.filter(x => x.id !== id));
+    },
+
+    recordBuys: async (id, opts) => {
+      const plan = get().plans.find(x => x.id === id);
+      if (!plan) throw new Error('Plan not found');
+      const { invest, portfolioId, p, currency } = planTarget(plan);
+      if (!portfolioId || !p) throw new Error('Choose a portfolio for this plan first');
+
+      const buys = opts?.buys || planBuys(plan, { quotes: invest.quotes, fxRates: invest.fxRates, currency, holdings: p.holdings }).buys;
+      if (!buys.length) throw new Error('No prices yet for this plan\'s symbols. Refresh quotes and try again.');
+
+      const date = new Date().toISOString();
+      for (const b of buys) {
+        const h = p.holdings[b.symbol];
+        await invest.addLot(
+          b.symbol,
+          { side: 'buy', qty: b.qty, price: b.price, date },
+          { name: h?.name || b.symbol, type: h?.type || 'stock', currency: h?.currency || b.currency },
+          { portfolioId }
+        );
+      }
+
+      const execution: DCAExecution = {
+        id: newId(),
+        due: opts?.due || dayKey(nextDue(plan).date),
+        recordedAt: date,
+        planned: plan.amount,
+        invested: buys.reduce((s, b) => s + convertCurrency(invest.fxRates, b.qty * b.price, b.currency, currency), 0),
+        buys: buys.map(b => ({ symbol: b.symbol, qty: b.qty, price: b.price, currency: b.currency })),
+      };
+      await write(get().plans.map(x => (x.id === id ? { ...x, history: [...x.history.filter(e => e.due !== execution.due), execution], updatedAt: date } : x)));
+      try { await refreshReminders(id); } catch (e) { console.warn('[plans] Could not reschedule reminders:', e); }
+      return execution;
+    },
+
+    skipPeriod: async (id, due) => {
+      const date = new Date().toISOString();
+      await write(get().plans.map(x => {
+        if (x.id !== id) return x;
+        const execution: DCAExecution = { id: newId(), due, recordedAt: date, planned: x.amount, invested: 0, buys: [], skipped: true };
+        return { ...x, history: [...x.history.filter(e => e.due !== due), execution], updatedAt: date };
+      }));
+      try { await refreshReminders(id); } catch (e) { console.warn('[plans] Could not reschedule reminders:', e); }
+    },
 
-export const usePlansStore = create<State>((set, get) => ({
-  plan: null,
-  ready: false,
-  hydrate: async () => {
-    try {
-      const raw = await AsyncStorage.getItem(KEY);
-      const plan = raw ? JSON.parse(raw) as DCAPlan : null;
-      set({ plan, ready: true });
-    } catch {
-      set({ plan: null, ready: true });
-    }
-  },
-  save: async (p) => {
-    set({ plan: p });
-    try { await AsyncStorage.setItem(KEY, JSON.stringify(p)); } catch {}
-  },
-  clear: async () => {
-    set({ plan: null });
-    try { await AsyncStorage.removeItem(KEY); } catch {}
-  },
-}));
+    removeExecution: async (id, executionId) => {
+      await write(get().plans.map(x => (x.id === id
+        ? { ...x, history: x.history.filter(e => e.id !== executionId), updatedAt: new Date().toISOString() }
+        : x)));
+    },
+  };
+});
@@ -0,0 +1,95 @@
+import { create } from 'zustand';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { Portfolio, Quote } from '../features/invest';
+import { evaluateAlerts, type AlertEvent, type AlertKind, type PriceAlert } from '../lib/priceAlerts';
+import { getSettings, notifyNow } from '../lib/notifications';
+
+type State = {
+  alerts: PriceAlert[];
+  history: AlertEvent[];   // newest first
+  ready: boolean;
+  hydrate: () => Promise<void>;
+  addAlert: (symbol: string, kind: AlertKind, value?: number) => Promise<PriceAlert>;
+  updateAlert: (id: string, patch: Partial<Pick<PriceAlert, 'value' | 'enabled'>>) => Promise<void>;
+  removeAlert: (id: string) => Promise<void>;
+  clearHistory: (symbol?: string) => Promise<void>;
+  /** Checks alerts against fresh quotes, records and notifies what fired. Called after every quote refresh. */
+  evaluate: (quotes: Record<string, Quote | undefined>, portfolios: Portfolio[]) => Promise<AlertEvent[]>;
+};
+
+const KEY = 'fingrow:priceAlerts:v1';
+const HISTORY_LIMIT = 200;
+
+export const usePriceAlertsStore = create<State>((set, get) => {
+  const persist = async () => {
+    const { alerts, history } = get();
+    try { await AsyncStorage.setItem(KEY, JSON.stringify({ alerts, history })); } catch {}
+  };
+
+  return {
+    alerts: [],
+    history: [],
+    ready: false,
+    hydrate: async () => {
+      try {
+        const raw = await AsyncStorage.getItem(KEY);
+        const parsed = raw ? JSON.parse(raw) : null;
+        set({ alerts: parsed?.alerts || [], history: parsed?.history || [], ready: true });
+      } catch {
+        set({ alerts: [], history: [], ready: true });
+      }
+    },
+
+    addAlert: async (symbol, kind, value) => {
+      const alert: PriceAlert = {
+        id: Math.random().toString(36).slice(2),
+        symbol: symbol.toUpperCase(),
+        kind,
+        value,
+        enabled: true,
+        createdAt: new Date().toISOString(),
+      };
+      set({ alerts: [...get().alerts, alert] });
+      await persist();
+      return alert;
+    },
+
+    updateAlert: async (id, patch) => {
+      // A changed target re-arms the alert
+      set({ alerts: get().alerts.map(a => (a.id === id ? { ...a, ...patch, active: false } : a)) });
+      await persist();
+    },
+
+    removeAlert: async (id) => {
+      set({ alerts: get().alerts.filter(a => a.id !== id) });
+      await persist();
+    },
+
+    clearHistory: async (symbol) => {
+      set({ history: symbol ? get().history.filter(e => e.symbol !== symbol) : [] });
+      await persist();
+    },
+
+    evaluate: async (quotes, portfolios) => {
+      if (!get().ready) await get().hydrate();
+      const current = get().alerts;
+      if (!current.some(a => a.enabled)) return [];
+      const { alerts, fired } = evaluateAlerts(current, quotes, portfolios);
+      if (alerts.every((a, i) => a === current[i])) return [];
+      set({ alerts, history: [...fired.slice().reverse(), ...get().history].slice(0, HISTORY_LIMIT) });
+      await persist();
+
+      if (fired.length) {
+        try {
+          const { enabled } = await getSettings();
+          if (enabled) {
+            for (const e of fired) await notifyNow(`${e.symbol} alert`, e.message);
+          }
+        } catch (e) {
+          console.warn('[priceAlerts] Notification failed:', e);
+        }
+      }
+      return fired;
+    },
+  };
+});
@@ -30,6 +30,7 @@ export type Profile = {
   tier: 'Starter' | 'Plus';
   aiTier: AITier; // AI Assistant tier
   dataSource?: 'yahoo' | 'fmp' | 'finnhub';
+  quoteFallbacks?: Array<'yahoo' | 'fmp' | 'finnhub'>; // tried in order when dataSource fails; every other source if unset
   fmpApiKey?: string;
   finnhubApiKey?: string;
   includeRetirementInInvestments?: boolean; // Toggle to include retirement accounts in investment totals
@@ -37,7 +37,7 @@ function safeParse<T>(raw: string | null, fallback: T): T {
   try { return JSON.parse(raw) as T; } catch { return fallback; }
 }
 
-export function computeNextDue(r: Recurring, after = new Date()): Date | null {
+export function computeNextDue(r: Pick<Recurring, 'anchorISO' | 'freq' | 'endISO' | 'active'>, after = new Date()): Date | null {
   if (r.active === false) return null;
   const start = new Date(r.anchorISO);
   let due = new Date(Math.max(start.getTime(), startOfDay(after).getTime()));
@@ -0,0 +1,134 @@
+import { create } from 'zustand';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  CategoryRule,
+  Correction,
+  RuleChange,
+  RuleProposal,
+  previewRules,
+  proposalKey,
+  proposeRules,
+} from '../lib/categoryRules';
+
+type State = {
+  rules: CategoryRule[];
+  corrections: Correction[];
+  dismissedProposals: string[];
+  learnFromCorrections: boolean;
+  ready: boolean;
+  hydrate: () => Promise<void>;
+  addRule: (rule: Omit<CategoryRule, 'id' | 'createdAt'>) => Promise<CategoryRule>;
+  updateRule: (id: string, updates: Partial<CategoryRule>) => Promise<void>;
+  removeRule: (id: string) => Promise<void>;
+  moveRule: (id: string, direction: -1 | 1) => Promise<void>;
+  setLearnFromCorrections: (on: boolean) => Promise<void>;
+  /** Records a category correction; returns a proposal if this one crossed the threshold. */
+  recordCorrection: (merchant: string, from: string, to: string) => Promise<RuleProposal | undefined>;
+  getProposals: () => RuleProposal[];
+  acceptProposal: (p: RuleProposal) => Promise<CategoryRule>;
+  dismissProposal: (p: RuleProposal) => Promise<void>;
+  previewRetroactive: (ruleIds?: string[]) => RuleChange[];
+  applyRetroactive: (changes: RuleChange[]) => Promise<number>;
+};
+
+const KEY = 'fingrow/rules';
+const MAX_CORRECTIONS = 200;
+
+function uid() { return Math.random().toString(36).slice(2); }
+
+export const useRulesStore = create<State>((set, get) => {
+  const persist = async () => {
+    const { rules, corrections, dismissedProposals, learnFromCorrections } = get();
+    await AsyncStorage.setItem(KEY, JSON.stringify({ rules, corrections, dismissedProposals, learnFromCorrections }));
+  };
+
+  return {
+    rules: [],
+    corrections: [],
+    dismissedProposals: [],
+    learnFromCorrections: true,
+    ready: false,
+    hydrate: async () => {
+      try {
+        const raw = await AsyncStorage.getItem(KEY);
+        const parsed = raw ? JSON.parse(raw) : {};
+        set({
+          rules: Array.isArray(parsed.rules) ? parsed.rules : [],
+          corrections: Array.isArray(parsed.corrections) ? parsed.corrections : [],
+          dismissedProposals: Array.isArray(parsed.dismissedProposals) ? parsed.dismissedProposals : [],
+          learnFromCorrections: parsed.learnFromCorrections !== false,
+          ready: true,
+        });
+      } catch {
+        set({ ready: true });
+      }
+    },
+    addRule: async (input) => {
+      const rule: CategoryRule = { ...input, id: uid(), createdAt: new Date().toISOString() };
+      set({ rules: [...get().rules, rule] });
+      await persist();
+      return rule;
+    },
+    updateRule: async (id, updates) => {
+      set({ rules: get().rules.map(r => r.id === id ? { ...r, ...updates, id } : r) });
+      await persist();
+    },
+    removeRule: async (id) => {
+      set({ rules: get().rules.filter(r => r.id !== id) });
+      await persist();
+    },
+    moveRule: async (id, direction) => {
+      const rules = [...get().rules];
+      const i = rules.findIndex(r => r.id === id);
+      const j = i + direction;
+      if (i < 0 || j < 0 || j >= rules.length) return;
+      [rules[i], rules[j]] = [rules[j], rules[i]];
+      set({ rules });
+      await persist();
+    },
+    setLearnFromCorrections: async (on) => {
+      set({ learnFromCorrections: on });
+      await persist();
+    },
+    recordCorrection: async (merchant, from, to) => {
+      if (!get().learnFromCorrections || !merchant || from === to) return undefined;
+      const before = get().getProposals();
+      const corrections = [...get().corrections, { merchant, from, to, at: new Date().toISOString() }]
+        .slice(-MAX_CORRECTIONS);
+      set({ corrections });
+      await persist();
+      return get().getProposals().find(p =>
+        p.merchant === merchant && p.category === to &&
+        !before.some(b => proposalKey(b) === proposalKey(p))
+      );
+    },
+    getProposals: () => {
+      const { corrections, rules, dismissedProposals } = get();
+      return proposeRules(corrections, rules, dismissedProposals);
+    },
+    acceptProposal: async (p) => {
+      return get().addRule({
+        name: `${p.merchant} → ${p.category}`,
+        enabled: true,
+        conditions: { text: p.merchant, textField: 'any' },
+        actions: { category: p.category },
+        source: 'learned',
+      });
+    },
+    dismissProposal: async (p) => {
+      set({ dismissedProposals: [...get().dismissedProposals, proposalKey(p)] });
+      await persist();
+    },
+    previewRetroactive: (ruleIds) => {
+      const { useTxStore } = require('./transactions');
+      const rules = ruleIds ? get().rules.filter(r => ruleIds.includes(r.id)) : get().rules;
+      return previewRules(rules, useTxStore.getState().transactions || []);
+    },
+    applyRetroactive: async (changes) => {
+      if (changes.length === 0) return 0;
+      const { useTxStore } = require('./transactions');
+      await useTxStore.getState().bulkUpdate(changes.map(c => ({ id: c.txId, updates: c.after })));
+      return changes.length;
+    },
+  };
+});
@@ -1,9 +1,30 @@
 
 import { create } from 'zustand';
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import { useAccountsStore } from './accounts';
+import { ensureDatabase } from '../db/bootstrap';
+import {
+  listTransactions,
+  queryTransactions,
+  totalsByCategory,
+  upsertTransactions,
+  deleteTransactions,
+  deleteAllTransactions,
+  type CategoryTotal,
+  type TxQuery,
+} from '../db/repositories/transactions';
+import type { Page } from '../db/repositories/shared';
+
+export type { TxQuery } from '../db/repositories/transactions';
+
+export type TxType = 'expense' | 'income' | 'transfer';
+
+/** One category line item of a split transaction. */
+export type CategorySplit = {
+  amount: number;
+  category: string;
+  note?: string;
+};
 
-export type TxType = 'expense' | 'income';
 export type Transaction = {
   id: string;
   type: TxType;
@@ -12,9 +33,139 @@ export type Transaction = {
   date: string;
   note?: string;
   title?: string;
+  account?: string; // source account for transfers
+  toAccount?: string; // destination account (transfers only)
+  fee?: number; // transfer fee, charged to the source account
+  fxRate?: number; // destination units received per source unit (transfers only)
+  splits?: CategorySplit[]; // category line items summing to amount; `category` mirrors the largest
+  tags?: string[];
+  currency?: string; // ISO code the amount is in; defaults to the account's (or profile) currency
+  accountAmount?: number; // amount in the account's currency, when `currency` differs from it
+};
+
+export type TransferInput = {
+  from: string;
+  to: string;
+  amount: number | string;
+  fee?: number;
+  fxRate?: number;
+  category?: string;
+  date?: string;
+  note?: string;
+};
+
+const SPLIT_TOLERANCE = 0.005;
+
+/**
+ * Category slices of a transaction. Unsplit transactions are a single slice
+ * of their full amount, so callers can always iterate slices.
+ */
+export function categorySlices(tx: Transaction): CategorySplit[] {
+  if (Array.isArray(tx.splits) && tx.splits.length > 0) {
+    return tx.splits.map(s => ({ ...s, amount: Math.abs(Number(s.amount) || 0) }));
+  }
+  return [{ amount: Math.abs(Number(tx.amount) || 0), category: tx.category }];
+}
+
+/** Returns an error message if `splits` can't be stored against `amount`, else null. */
+export function validateSplits(amount: number, splits?: CategorySplit[]): string | null {
+  if (!splits || splits.length === 0) return null;
+  if (splits.some(s => !s.category || !s.category.trim())) return 'Every split needs a category';
+  if (splits.some(s => !Number.isFinite(Number(s.amount)) || Number(s.amount) <= 0)) return 'Split amounts must be greater than zero';
+  const sum = splits.reduce((acc, s) => acc + Number(s.amount), 0);
+  if (Math.abs(sum - Math.abs(amount)) > SPLIT_TOLERANCE) return 'Split amounts must add up to the transaction total';
+  return null;
+}
+
+// Drops degenerate splits and keeps `category` pointing at the largest slice
+function normalizeSplits(tx: Transaction): Transaction {
+  if (!tx.splits || tx.splits.length === 0) {
+    const { splits, ...rest } = tx;
+    return rest;
+  }
+  const error = validateSplits(tx.amount, tx.splits);
+  if (error) throw new Error(error);
+  const splits = tx.splits.map(s => ({
+    amount: Number(s.amount),
+    category: s.category.trim(),
+    ...(s.note ? { note: s.note } : {}),
+  }));
+  if (splits.length === 1) return { ...tx, category: splits[0].category, splits: undefined };
+  const largest = splits.reduce((max, s) => (s.amount > max.amount ? s : max), splits[0]);
+  return { ...tx, category: largest.category, splits };
+}
+
+/** Trimmed, lowercase, de-duplicated tags without a leading '#'. */
+export function normalizeTags(tags?: string[]): string[] {
+  const out: string[] = [];
+  for (const raw of tags || []) {
+    const tag = String(raw).trim().replace(/^#+/, '').trim().toLowerCase();
+    if (tag && !out.includes(tag)) out.push(tag);
+  }
+  return out;
+}
+
+/** Parses free-text tag input ("trip, #work reimbursable") into tags. */
+export function parseTags(input: string): string[] {
+  return normalizeTags(input.split(/[,\s]+/));
+}
+
+function normalizeTx(tx: Transaction): Transaction {
+  const next = normalizeSplits(tx);
+  const tags = normalizeTags(next.tags);
+  if (tags.length) return { ...next, tags };
+  const { tags: _omit, ...rest } = next;
+  return rest;
+}
+
+export type ImportInput = {
+  type: 'expense' | 'income';
+  amount: number;
+  category: string;
+  date: string;
+  note?: string;
+  title?: string;
   account?: string;
+  currency?: string; // ISO code the amount is in; defaults to the account's currency
+  autoCategory?: boolean; // `category` is only a placeholder; rules may replace it
 };
 
+/** Amount credited to the destination account of a transfer. */
+export function transferReceived(tx: Transaction): number {
+  const rate = Number(tx.fxRate);
+  const amount = Math.abs(Number(tx.amount) || 0);
+  return Number.isFinite(rate) && rate > 0 ? amount * rate : amount;
+}
+
+/**
+ * Signed balance change a transaction applies to each account it touches.
+ * Expenses and income have one leg; transfers debit the source (amount + fee)
+ * and credit the destination (amount converted at fxRate).
+ */
+export function txBalanceDeltas(tx: Transaction): Array<{ account: string; delta: number }> {
+  const amount = Math.abs(Number(tx.amount) || 0);
+  if (tx.type === 'transfer') {
+    const legs: Array<{ account: string; delta: number }> = [];
+    if (tx.account) legs.push({ account: tx.account, delta: -(amount + Math.abs(Number(tx.fee) || 0)) });
+    if (tx.toAccount) legs.push({ account: tx.toAccount, delta: transferReceived(tx) });
+    return legs;
+  }
+  if (!tx.account) return [];
+  const charged = tx.accountAmount !== undefined ? Math.abs(Number(tx.accountAmount) || 0) : amount;
+  return [{ account: tx.account, delta: tx.type === 'income' ? charged : -charged }];
+}
+
+/** Net balance change of `accountName` caused by `tx` (0 if untouched). */
+export function txDeltaForAccount(tx: Transaction, accountName: string): number {
+  return txBalanceDeltas(tx)
+    .filter(l => l.account === accountName)
+    .reduce((s, l) => s + l.delta, 0);
+}
+
+export function touchesAccount(tx: Transaction, accountName: string): boolean {
+  return tx.account === accountName || (tx.type === 'transfer' && tx.toAccount === accountName);
+}
+
 type State = {
   transactions: Transaction[];
   ready: boolean;
@@ -25,19 +176,129 @@ type State = {
     date?: string;
     note?: string;
     account?: string;
-  }) => Promise<void>;
+    title?: string;
+    tags?: string[];
+    splits?: CategorySplit[];
+    currency?: string;
+    autoCategory?: boolean; // `category` is only a default; rules may replace it
+  }) => Promise<Transaction>;
+  addTransfer: (input: TransferInput) => Promise<Transaction | undefined>;
+  importMany: (inputs: ImportInput[], opts?: { adjustBalances?: boolean }) => Promise<Transaction[]>;
   remove: (id: string) => Promise<void>;
   clearAll: () => Promise<void>;
   hydrate: () => Promise<void>;
   restore: (tx: Transaction) => Promise<void>;
   updateTransaction: (id: string, updates: Partial<Transaction>) => Promise<void>;
+  bulkUpdate: (patches: Array<{ id: string; updates: Partial<Transaction> }>) => Promise<void>;
   deleteTransaction: (id: string) => Promise<void>;
+  /** Indexed, paginated read straight from the database (newest first). */
+  query: (query: TxQuery, page?: { offset?: number; limit?: number }) => Promise<Page<Transaction>>;
+  /** Per-category totals in the profile currency for the matching transactions, largest first. */
+  categoryTotals: (query: TxQuery) => Promise<Array<{ category: string; total: number; count: number }>>;
 };
 
-const KEY = 'fingrow/transactions';
-
 function uid() { return Math.random().toString(36).slice(2); }
 
+type Convertible = Pick<Transaction, 'amount' | 'currency' | 'account' | 'date'>;
+
+// Entered currency and account currency of `tx`, when they differ
+function conversionFor(tx: Convertible): { from: string; to: string } | undefined {
+  if (!tx.currency || !tx.account) return undefined;
+  const account = useAccountsStore.getState().accounts.find(a => a.name === tx.account);
+  const { useProfileStore } = require('./profile');
+  const to = (account?.currency || useProfileStore.getState().profile?.currency || 'USD').toUpperCase();
+  const from = tx.currency.toUpperCase();
+  return from === to ? undefined : { from, to };
+}
+
+// Future-dated entries use today's rate
+function rateDay(date: string): string {
+  const { fxDateKey } = require('../lib/fxHistory');
+  const day = fxDateKey(date);
+  const today = fxDateKey(Date.now());
+  return day > today ? today : day;
+}
+
+/**
+ * Amounts `txs` move in their accounts' currencies, converted at the rate on
+ * each transaction's date (fetched first when it isn't cached). Undefined
+ * where no conversion is needed. Throws when a day's rate can't be had, rather
+ * than book the foreign amount as if it were in the account's currency.
+ */
+async function accountAmounts(txs: Convertible[]): Promise<Array<number | undefined>> {
+  const { useFxHistoryStore } = require('./fxHistory');
+  const { rateOn } = require('../lib/fxHistory');
+  const pairs = txs.map(conversionFor);
+  const days = txs.filter((_, i) => pairs[i]).map(t => rateDay(t.date));
+  if (days.length === 0) return txs.map(() => undefined);
+  if (!useFxHistoryStore.getState().ready) await useFxHistoryStore.getState().hydrate();
+  await useFxHistoryStore.getState().ensureDates(days);
+  const history = useFxHistoryStore.getState().history;
+  return txs.map((tx, i) => {
+    const pair = pairs[i];
+    if (!pair) return undefined;
+    const day = rateDay(tx.date);
+    // Only that day's rates will do; the nearest snapshot could be months off
+    const rate: number | undefined = history[day] ? rateOn(history, pair.from, pair.to, day) : undefined;
+    if (rate === undefined) throw new Error(`No ${pair.from} to ${pair.to} exchange rate for ${day}. Connect to the internet and try again.`);
+    return Math.round(Math.abs(tx.amount) * rate * 100) / 100;
+  });
+}
+
+/** Amount `tx` moves in its account's currency; see accountAmounts. */
+export async function amountInAccountCurrency(tx: Convertible): Promise<number | undefined> {
+  return (await accountAmounts([tx]))[0];
+}
+
+/**
+ * Folds per-currency, per-day category totals into the profile currency at
+ * each day's rate, fetching missing days first.
+ */
+async function inProfileCurrency(rows: CategoryTotal[]): Promise<Array<{ category: string; total: number; count: number }>> {
+  const { useFxHistoryStore } = require('./fxHistory');
+  const { useProfileStore } = require('./profile');
+  const { convertOn } = require('../lib/fxHistory');
+  const base = (useProfileStore.getState().profile?.currency || 'USD').toUpperCase();
+  const foreign = rows.filter(r => r.currency && r.currency.toUpperCase() !== base);
+  if (foreign.length) {
+    if (!useFxHistoryStore.getState().ready) await useFxHistoryStore.getState().hydrate();
+    await useFxHistoryStore.getState().ensureDates(foreign.map(r => rateDay(r.day)));
+  }
+  const history = useFxHistoryStore.getState().history;
+  const totals = new Map<string, { total: number; count: number }>();
+  for (const r of rows) {
+    const from = (r.currency || base).toUpperCase();
+    const total: number = from === base ? r.total : convertOn(history, r.total, from, base, rateDay(r.day));
+    const cur = totals.get(r.category) || { total: 0, count: 0 };
+    totals.set(r.category, { total: cur.total + total, count: cur.count + r.count });
+  }
+  return Array.from(totals.entries())
+    .map(([category, v]) => ({ category, ...v }))
+    .sort((a, b) => b.total - a.total);
+}
+
+// Auto-categorisation rules; lazy require avoids a store import cycle. A category the
+// caller set is deliberate (a tax line, a bill's category) unless they say it's a default
+function withRules<T extends Transaction>(tx: T, autoCategory?: boolean): T {
+  const { useRulesStore } = require('./rules');
+  const { applyRules } = require('../lib/categoryRules');
+  return applyRules(useRulesStore.getState().rules || [], tx, { keepCategory: !!tx.category && !autoCategory });
+}
+
+// Undo the balance effect of a transaction that is being removed
+async function reverseBalances(tx: Transaction) {
+  if (!tx.account || !tx.amount) return;
+  if (tx.type === 'transfer') {
+    if (!tx.toAccount) return;
+    const { transferBetween } = useAccountsStore.getState();
+    await transferBetween(tx.toAccount, tx.account, transferReceived(tx), Math.abs(tx.amount) + Math.abs(Number(tx.fee) || 0));
+    return;
+  }
+  const { updateAccountBalance } = useAccountsStore.getState();
+  // Reverse the transaction by doing the opposite operation
+  await updateAccountBalance(tx.account, Math.abs(tx.accountAmount ?? tx.amount), tx.type === 'income');
+}
+
 export const useTxStore = create<State>((set, get) => ({
   transactions: [],
   ready: false,
@@ -48,64 +309,143 @@ export const useTxStore = create<State>((set, get) => ({
     const date = (input as any).date ? String((input as any).date) : new Date().toISOString();
     const note = (input as any).note ?? '';
     const account = (input as any).account ?? undefined;
-    const tx: Transaction = {
+    const tx: Transaction = normalizeTx(withRules({
       id: uid(),
       type: type as TxType,
       amount,
       category,
       date,
       note,
+      title: input.title,
       account,
+      tags: input.tags,
+      splits: (input as any).splits,
+      currency: input.currency ? input.currency.toUpperCase() : undefined,
+    }, input.autoCategory));
+    tx.accountAmount = await amountInAccountCurrency(tx);
+    set({ transactions: [tx, ...(get().transactions || [])] });
+    await upsertTransactions([tx]);
+    return tx;
+  },
+  addTransfer: async (input) => {
+    const amountNum = Number(input.amount);
+    const amount = Number.isFinite(amountNum) ? Math.abs(amountNum) : 0;
+    if (!amount || !input.from || !input.to || input.from === input.to) return undefined;
+    const fee = Number.isFinite(Number(input.fee)) && Number(input.fee) > 0 ? Number(input.fee) : undefined;
+    const fxRate = Number.isFinite(Number(input.fxRate)) && Number(input.fxRate) > 0 ? Number(input.fxRate) : undefined;
+    const tx: Transaction = {
+      id: uid(),
+      type: 'transfer',
+      amount,
+      category: input.category || 'Transfer',
+      date: input.date ? String(input.date) : new Date().toISOString(),
+      note: input.note ?? '',
+      account: input.from,
+      toAccount: input.to,
+      fee,
+      fxRate,
     };
-    const arr = [tx, ...(get().transactions || [])];
-    set({ transactions: arr });
-    await AsyncStorage.setItem(KEY, JSON.stringify(arr));
+    set({ transactions: [tx, ...(get().transactions || [])] });
+    await upsertTransactions([tx]);
+
+    // Both legs are applied in a single accounts write
+    const { transferBetween } = useAccountsStore.getState();
+    await transferBetween(tx.account!, tx.toAccount!, amount + (fee || 0), transferReceived(tx));
+    return tx;
+  },
+  importMany: async (inputs, opts) => {
+    const created: Transaction[] = inputs
+      .filter(i => Number.isFinite(Number(i.amount)) && Number(i.amount) !== 0)
+      .map(i => ({
+        id: uid(),
+        type: i.type,
+        amount: Math.abs(Number(i.amount)),
+        category: i.category,
+        date: i.date,
+        note: i.note ?? '',
+        title: i.title,
+        account: i.account,
+        currency: i.currency ? i.currency.toUpperCase() : undefined,
+        autoCategory: i.autoCategory,
+      }))
+      .map(({ autoCategory, ...tx }) => normalizeTx(withRules(tx, autoCategory)));
+    if (created.length === 0) return [];
+    const converted = await accountAmounts(created);
+    created.forEach((tx, i) => { if (converted[i] !== undefined) tx.accountAmount = converted[i]; });
+
+    // One database transaction for the whole batch
+    set({ transactions: [...created, ...(get().transactions || [])] });
+    await upsertTransactions(created);
+
+    if (opts?.adjustBalances !== false) {
+      const net: Record<string, number> = {};
+      for (const tx of created) {
+        for (const leg of txBalanceDeltas(tx)) net[leg.account] = (net[leg.account] || 0) + leg.delta;
+      }
+      const { updateAccountBalance } = useAccountsStore.getState();
+      for (const [name, delta] of Object.entries(net)) {
+        if (delta !== 0) await updateAccountBalance(name, Math.abs(delta), delta < 0);
+      }
+    }
+    return created;
   },
   remove: async (id) => {
     // Find the transaction before removing it
     const tx = (get().transactions || []).find(t => t.id === id);
-    const arr = (get().transactions || []).filter(t => t.id !== id);
-    set({ transactions: arr });
-    await AsyncStorage.setItem(KEY, JSON.stringify(arr));
+    set({ transactions: (get().transactions || []).filter(t => t.id !== id) });
+    await deleteTransactions([id]);
 
-    // Reverse the account balance update
-    if (tx?.account && tx.amount) {
-      const { updateAccountBalance } = useAccountsStore.getState();
-      // Reverse the transaction by doing the opposite operation
-      await updateAccountBalance(tx.account, tx.amount, tx.type === 'income');
-    }
+    if (tx) await reverseBalances(tx);
   },
   clearAll: async () => {
     set({ transactions: [] });
-    await AsyncStorage.removeItem(KEY);
+    await deleteAllTransactions();
   },
   restore: async (tx) => {
-    const arr = [tx, ...(get().transactions || [])];
-    set({ transactions: arr });
-    await AsyncStorage.setItem(KEY, JSON.stringify(arr));
+    set({ transactions: [tx, ...(get().transactions || [])] });
+    await upsertTransactions([tx]);
   },
   hydrate: async () => {
-    const raw = await AsyncStorage.getItem(KEY);
-    const parsed: Transaction[] = raw ? JSON.parse(raw) : [];
-    set({ transactions: parsed, ready: true });
+    try {
+      await ensureDatabase();
+      set({ transactions: await listTransactions(), ready: true });
+    } catch (e) {
+      console.error('[transactions] Failed to load:', e);
+      set({ ready: true });
+    }
   },
   updateTransaction: async (id, updates) => {
-    const arr = (get().transactions || []).map(t => t.id === id ? { ...t, ...updates } : t);
+    const current = (get().transactions || []).find(t => t.id === id);
+    if (!current) return;
+    const changed = normalizeTx({ ...current, ...updates });
+    // Re-derive the account-currency amount when anything it depends on changed
+    if (current.type !== 'transfer' && ['amount', 'currency', 'account', 'date'].some(k => k in updates) && !('accountAmount' in updates)) {
+      changed.accountAmount = await amountInAccountCurrency(changed);
+    }
+    set({ transactions: (get().transactions || []).map(t => (t.id === id ? changed : t)) });
+    await upsertTransactions([changed]);
+  },
+  bulkUpdate: async (patches) => {
+    const byId = new Map(patches.map(p => [p.id, p.updates]));
+    const changed: Transaction[] = [];
+    const arr = (get().transactions || []).map(t => {
+      const updates = byId.get(t.id);
+      if (!updates) return t;
+      const next = normalizeTx({ ...t, ...updates });
+      changed.push(next);
+      return next;
+    });
     set({ transactions: arr });
-    await AsyncStorage.setItem(KEY, JSON.stringify(arr));
+    await upsertTransactions(changed);
   },
   deleteTransaction: async (id) => {
     // Find the transaction before removing it
     const tx = (get().transactions || []).find(t => t.id === id);
-    const arr = (get().transactions || []).filter(t => t.id !== id);
-    set({ transactions: arr });
-    await AsyncStorage.setItem(KEY, JSON.stringify(arr));
+    set({ transactions: (get().transactions || []).filter(t => t.id !== id) });
+    await deleteTransactions([id]);
 
-    // Reverse the account balance update
-    if (tx?.account && tx.amount) {
-      const { updateAccountBalance } = useAccountsStore.getState();
-      // Reverse the transaction by doing the opposite operation
-      await updateAccountBalance(tx.account, tx.amount, tx.type === 'income');
-    }
-  }
+    if (tx) await reverseBalances(tx);
+  },
+  query: (query, page) => queryTransactions(query, page),
+  categoryTotals: async (query) => inProfileCurrency(await totalsByCategory(query)),
 }));
@@ -1,5 +1,5 @@
 
-import { Transaction, TxType } from './transactions';
+import { Transaction, TxType, categorySlices } from './transactions';
 
 export type TxFilters = {
   type?: TxType;
@@ -9,12 +9,14 @@ export type TxFilters = {
   min?: number;
   max?: number;
   text?: string;
+  tags?: string[]; // transaction must carry every listed tag
 };
 
 export function filterTransactions(list: Transaction[], f: TxFilters): Transaction[] {
   return list.filter(t => {
     if (f.type && t.type !== f.type) return false;
-    if (f.category && t.category !== f.category) return false;
+    if (f.category && !categorySlices(t).some(s => s.category === f.category)) return false;
+    if (f.tags && f.tags.length && !f.tags.every(tag => (t.tags || []).includes(tag))) return false;
     const d = new Date(t.date);
     if (f.from && d < f.from) return false;
     if (f.to && d > f.to) return false;
@@ -23,7 +25,11 @@ export function filterTransactions(list: Transaction[], f: TxFilters): Transacti
     if (typeof f.max === 'number' && amt > f.max) return false;
     if (f.text) {
       const needle = f.text.toLowerCase();
-      if (!((t.note||'').toLowerCase().includes(needle) || t.category.toLowerCase().includes(needle))) return false;
+      const inSlices = categorySlices(t).some(s =>
+        s.category.toLowerCase().includes(needle) || (s.note || '').toLowerCase().includes(needle)
+      );
+      const inTags = (t.tags || []).some(tag => tag.includes(needle.replace(/^#/, '')));
+      if (!((t.note||'').toLowerCase().includes(needle) || inSlices || inTags)) return false;
     }
     return true;
   });
@@ -32,19 +38,50 @@ export function filterTransactions(list: Transaction[], f: TxFilters): Transacti
 export function groupByCategory(list: Transaction[]) {
   const map: Record<string, { expense: number; income: number; count: number }> = {};
   for (const t of list) {
-    const m = map[t.category] || { expense: 0, income: 0, count: 0 };
-    if (t.type === 'expense') m.expense += Math.abs(t.amount); else m.income += t.amount;
-    m.count += 1;
-    map[t.category] = m;
+    // Transfers move money between own accounts; they are neither spend nor income
+    if (t.type === 'transfer') continue;
+    // Split transactions contribute each slice to its own category
+    for (const slice of categorySlices(t)) {
+      const m = map[slice.category] || { expense: 0, income: 0, count: 0 };
+      if (t.type === 'expense') m.expense += slice.amount; else m.income += slice.amount;
+      m.count += 1;
+      map[slice.category] = m;
+    }
+  }
+  return map;
+}
+
+/**
+ * Totals per tag. A transaction with several tags counts towards each of
+ * them, so tag totals can add up to more than overall spending.
+ */
+export function groupByTag(list: Transaction[]) {
+  const map: Record<string, { expense: number; income: number; count: number }> = {};
+  for (const t of list) {
+    if (t.type === 'transfer' || !t.tags?.length) continue;
+    const amt = Math.abs(Number(t.amount) || 0);
+    for (const tag of t.tags) {
+      const m = map[tag] || { expense: 0, income: 0, count: 0 };
+      if (t.type === 'expense') m.expense += amt; else m.income += amt;
+      m.count += 1;
+      map[tag] = m;
+    }
   }
   return map;
 }
 
+/** Every tag in use, most used first. */
+export function allTags(list: Transaction[]): string[] {
+  const counts: Record<string, number> = {};
+  for (const t of list) for (const tag of t.tags || []) counts[tag] = (counts[tag] || 0) + 1;
+  return Object.keys(counts).sort((a, b) => counts[b] - counts[a] || a.localeCompare(b));
+}
+
 export function transactionsToCSV(list: Transaction[]) {
-  const header = ['id','type','amount','category','date','note'].join(',');
+  const header = ['id','type','amount','category','date','note','tags'].join(',');
   const rows = list.map(t => [
     t.id, t.type, (t.type==='expense' ? -Math.abs(t.amount) : Math.abs(t.amount)).toFixed(2), 
-    escapeCsv(t.category), t.date, escapeCsv(t.note || '')
+    escapeCsv(t.category), t.date, escapeCsv(t.note || ''), escapeCsv((t.tags || []).join(' '))
   ].join(','));
   return [header, ...rows].join('\n');
 }
@@ -0,0 +1,204 @@
+import { create } from 'zustand';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { categorySlices, type Transaction } from './transactions';
+
+/**
+ * Zero-based budgeting: income received since the mode was turned on fills a
+ * "to be assigned" pool, and every dollar is then moved into an envelope
+ * (a spending category) or a goal. All money movement is stored as moves, so
+ * the history doubles as the ledger the balances are derived from.
+ */
+
+export type Bucket =
+  | { kind: 'pool' }
+  | { kind: 'envelope'; category: string }
+  | { kind: 'goal'; goalId: string };
+
+export type EnvelopeMove = {
+  id: string;
+  from: Bucket;
+  to: Bucket;
+  amount: number;
+  note?: string;
+  createdAt: string;
+};
+
+export type ZeroBasedSummary = {
+  income: number;
+  toBeAssigned: number;
+  /** category -> net amount assigned */
+  assigned: Record<string, number>;
+  /** category -> spent since the mode was turned on */
+  spent: Record<string, number>;
+  /** category -> assigned minus spent */
+  available: Record<string, number>;
+  /** goal id -> total assigned */
+  goals: Record<string, number>;
+};
+
+type Convert = (tx: Transaction, amount?: number) => number;
+
+type State = {
+  enabled: boolean;
+  startedAt: string | null;
+  /** Income categories that never reach the pool (e.g. CPF, which isn't spendable). */
+  excludedCategories: string[];
+  moves: EnvelopeMove[];
+  ready: boolean;
+  hydrate: () => Promise<void>;
+  setEnabled: (enabled: boolean) => Promise<void>;
+  setExcludedCategories: (categories: string[]) => Promise<void>;
+  /** Moves money between the pool, envelopes and goals. Goals can only receive. */
+  move: (from: Bucket, to: Bucket, amount: number, note?: string) => Promise<EnvelopeMove>;
+  undoMove: (id: string) => Promise<void>;
+};
+
+const KEY = 'fingrow/zeroBased';
+const DEFAULT_EXCLUDED = ['CPF Contribution'];
+
+function uid() { return Math.random().toString(36).slice(2); }
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+export function bucketLabel(b: Bucket, goalTitle?: (id: string) => string | undefined): string {
+  if (b.kind === 'pool') return 'To be assigned';
+  if (b.kind === 'envelope') return b.category;
+  return goalTitle?.(b.goalId) || 'Goal';
+}
+
+/** Income transactions that feed the pool, newest first. */
+export function poolIncome(
+  transactions: Transaction[],
+  startedAt: string | null,
+  excludedCategories: string[] = DEFAULT_EXCLUDED,
+): Transaction[] {
+  if (!startedAt) return [];
+  const since = new Date(startedAt);
+  return transactions
+    .filter(t => t.type === 'income' && new Date(t.date) >= since && !excludedCategories.includes(t.category))
+    .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+}
+
+export function summarizeZeroBased(
+  transactions: Transaction[],
+  state: Pick<State, 'startedAt' | 'excludedCategories' | 'moves'>,
+  convert: Convert = (tx, amount) => amount ?? Math.abs(Number(tx.amount) || 0),
+): ZeroBasedSummary {
+  const income = poolIncome(transactions, state.startedAt, state.excludedCategories)
+    .reduce((s, t) => s + convert(t), 0);
+
+  let pool = income;
+  const assigned: Record<string, number> = {};
+  const goals: Record<string, number> = {};
+  for (const m of state.moves) {
+    if (m.from.kind === 'pool') pool -= m.amount;
+    if (m.to.kind === 'pool') pool += m.amount;
+    if (m.from.kind === 'envelope') assigned[m.from.category] = (assigned[m.from.category] || 0) - m.amount;
+    if (m.to.kind === 'envelope') assigned[m.to.category] = (assigned[m.to.category] || 0) + m.amount;
+    if (m.to.kind === 'goal') goals[m.to.goalId] = (goals[m.to.goalId] || 0) + m.amount;
+  }
+
+  const spent: Record<string, number> = {};
+  if (state.startedAt) {
+    const since = new Date(state.startedAt);
+    for (const t of transactions) {
+      if (t.type !== 'expense' || new Date(t.date) < since) continue;
+      for (const s of categorySlices(t)) {
+        const c = s.category || 'Other';
+        spent[c] = (spent[c] || 0) + convert(t, s.amount);
+      }
+    }
+  }
+
+  const available: Record<string, number> = {};
+  new Set([...Object.keys(assigned), ...Object.keys(spent)]).forEach(c => {
+    available[c] = round2((assigned[c] || 0) - (spent[c] || 0));
+  });
+
+  return { income: round2(income), toBeAssigned: round2(pool), assigned, spent, available, goals };
+}
+
+function currentSummary(state: Pick<State, 'startedAt' | 'excludedCategories' | 'moves'>): ZeroBasedSummary {
+  // Lazy requires avoid an import cycle through the transactions and accounts stores
+  const { useTxStore } = require('./transactions');
+  const { useAccountsStore } = require('./accounts');
+  const { useProfileStore } = require('./profile');
+  const { useFxHistoryStore, makeTxConverter } = require('./fxHistory');
+  const convert = makeTxConverter(
+    useProfileStore.getState().profile.currency,
+    useFxHistoryStore.getState().history,
+    useAccountsStore.getState().accounts,
+  );
+  return summarizeZeroBased(useTxStore.getState().transactions || [], state, convert);
+}
+
+export const useZeroBasedStore = create<State>((set, get) => {
+  const persist = async () => {
+    const { enabled, startedAt, excludedCategories, moves } = get();
+    await AsyncStorage.setItem(KEY, JSON.stringify({ enabled, startedAt, excludedCategories, moves }));
+  };
+
+  return {
+    enabled: false,
+    startedAt: null,
+    excludedCategories: DEFAULT_EXCLUDED,
+    moves: [],
+    ready: false,
+    hydrate: async () => {
+      try {
+        const raw = await AsyncStorage.getItem(KEY);
+        const parsed = raw ? JSON.parse(raw) : {};
+        set({
+          enabled: !!parsed.enabled,
+          startedAt: parsed.startedAt || null,
+          excludedCategories: Array.isArray(parsed.excludedCategories) ? parsed.excludedCategories : DEFAULT_EXCLUDED,
+          moves: Array.isArray(parsed.moves) ? parsed.moves : [],
+          ready: true,
+        });
+      } catch {
+        set({ ready: true });
+      }
+    },
+    setEnabled: async (enabled) => {
+      // Income starts counting from the first time the mode is switched on
+      const startedAt = get().startedAt || (enabled ? new Date().toISOString() : null);
+      set({ enabled, startedAt });
+      await persist();
+    },
+    setExcludedCategories: async (categories) => {
+      set({ excludedCategories: categories });
+      await persist();
+    },
+    move: async (from, to, amount, note) => {
+      const amt = round2(Number(amount) || 0);
+      if (amt <= 0) throw new Error('Enter an amount greater than zero.');
+      if (from.kind === 'goal') throw new Error('Money assigned to a goal stays with the goal.');
+      if (JSON.stringify(from) === JSON.stringify(to)) throw new Error('Pick two different places to move money between.');
+
+      const summary = currentSummary(get());
+      const have = from.kind === 'pool' ? summary.toBeAssigned : summary.available[from.category] || 0;
+      if (amt > have + 0.005) {
+        throw new Error(from.kind === 'pool'
+          ? 'That is more than you have left to assign.'
+          : `${from.category} only has ${have.toFixed(2)} available.`);
+      }
+
+      const entry: EnvelopeMove = { id: uid(), from, to, amount: amt, note: note?.trim() || undefined, createdAt: new Date().toISOString() };
+      set({ moves: [...get().moves, entry] });
+      await persist();
+
+      if (to.kind === 'goal') {
+        const { useGoalsStore } = require('../features/goals/store/goals');
+        await useGoalsStore.getState().contribute(to.goalId, amt, note?.trim() || 'Assigned from income');
+      }
+      return entry;
+    },
+    undoMove: async (id) => {
+      const entry = get().moves.find(m => m.id === id);
+      if (!entry) return;
+      if (entry.to.kind === 'goal') throw new Error('Goal contributions are undone from the goal itself.');
+      set({ moves: get().moves.filter(m => m.id !== id) });
+      await persist();
+    },
+  };
+});
@@ -1,16 +1,26 @@
 export type ID = string;
 
-export type Member = { id: ID; name: string; contact?: string; archived?: boolean };
+export type Member = { id: ID; name: string; contact?: string; archived?: boolean; skipSettling?: boolean }; // skipSettling: left out of settle-up plans
 
 export type Contribution = { memberId: ID; amount: number };
 
 export type Split  = { memberId: ID; share: number; settled: boolean };
 
+export type BillItem = {
+  id: ID;
+  name: string;
+  price: number;      // unit price, before tax, service and discount
+  quantity: number;
+  sharedBy: ID[];     // members who had it; its total is split evenly between them
+};
+
 export type Settlement = {
   id: ID;
   fromId: ID;
   toId: ID;
   amount: number;
+  currency?: string;     // ISO code of `amount`; the group's currency when unset
+  rate?: number;         // group currency per unit of `currency`
   createdAt: number;
   billId?: ID;
   memo?: string;
@@ -29,8 +39,11 @@ export type Bill = {
   discount?: number;
   discountMode?: 'abs'|'pct';
   finalAmount: number;
+  currency?: string;   // ISO code of every amount on the bill; the group's currency when unset
+  rate?: number;       // group currency per unit of `currency`, fixed when the bill was entered
   contributions: Contribution[];
   splits: Split[];
+  items?: BillItem[];  // itemised bills: `amount` is their subtotal and `splits` follow from them
   createdAt: number;
   paidBy?: ID;
   // Transaction integration
@@ -39,6 +52,39 @@ export type Bill = {
   transactionId?: string;  // Link to expense transaction in user's accounts
 };
 
+/** A bill that repeats; each due date generates an ordinary `Bill`. */
+export type RecurringBill = {
+  id: ID;
+  title: string;
+  amount: number;          // per occurrence, in `currency`
+  currency?: string;       // the group's currency when unset
+  freq: 'weekly'|'biweekly'|'monthly';
+  anchorISO: string;       // first due date; later ones keep its weekday or day of month
+  nextDueISO: string;      // the next bill to generate
+  splitMode: 'equal'|'exact';
+  participants: ID[];
+  exacts?: Record<ID, number>;  // splitMode 'exact', summing to `amount`
+  payers: ID[];            // the payer, or with `rotate` everyone taking turns in this order
+  rotate?: boolean;
+  rotationIndex: number;   // position in `payers` of the next payer
+  category?: string;
+  paidFromAccountId?: string;  // books the user's own expense from this account when they pay
+  active: boolean;
+  lastBillId?: ID;
+  createdAt: number;
+};
+
+/** A synced record's shared-content hash and how many times each phone has edited it. */
+export type SyncVersion = { hash: string; vv: Record<string, number> };
+
+/** This phone's ledger-sync state for a group. */
+export type GroupSync = {
+  code: string;      // shared by everyone syncing the group; signs and verifies ledger files
+  device: string;    // this phone's key in version vectors
+  records: Record<string, SyncVersion>;  // by `kind:id`; deleted records are kept as tombstones
+  syncedAt?: number;
+};
+
 export type Group = {
   id: ID;
   name: string;
@@ -47,6 +93,8 @@ export type Group = {
   members: Member[];
   bills: Bill[];
   settlements: Settlement[];
+  recurring?: RecurringBill[];
+  sync?: GroupSync;
   createdAt: number;
   trackSpending?: boolean; // Track expenses in overall spending/transactions
 };